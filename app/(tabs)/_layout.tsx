@@ -6,6 +6,7 @@ import { useSafeAreaInsets } from "react-native-safe-area-context"
 import { useTranslation } from "react-i18next"
 import { useThemeColors } from "../../hooks/use-theme-colors"
 import { UI_ICON_SIZE } from "../../constants/ui-tokens"
+import { LedgerSwitcher } from "../../components/ui/LedgerSwitcher"
 import { logAsync } from "../../services/logger"
 import type { BottomTabBarButtonProps } from "expo-router/build/react-navigation/bottom-tabs"
 
@@ -74,6 +75,7 @@ export default function TabLayout() {
           borderBottomColor: theme.border,
         },
         headerTintColor: theme.foreground,
+        headerRight: () => <LedgerSwitcher />,
       }}
     >
       <Tabs.Screen
@@ -9,11 +9,17 @@ import {
   useCategories,
   useNotifications,
   useUIState,
+  useDerivedExpenseData,
 } from "../../stores/hooks"
 import { useSmsImportReview } from "../../providers/sms-import-review-provider"
 import { logAsync } from "../../services/logger"
 import { PAYMENT_METHODS } from "../../constants/payment-methods"
-import { ExpenseCategory, PaymentMethodType, PaymentMethod } from "../../types/expense"
+import {
+  ExpenseCategory,
+  PaymentMethodType,
+  PaymentMethod,
+  TransactionKind,
+} from "../../types/expense"
 import {
   Calendar,
   Check,
@@ -37,6 +43,8 @@ import { PaymentMethodCard } from "../../components/ui/PaymentMethodCard"
 import { Button } from "../../components/ui/Button"
 import { Input } from "../../components/ui/Input"
 import { Label } from "../../components/ui/Label"
+import { TransactionKindSelector } from "../../components/ui/TransactionKindSelector"
+import { TagInput } from "../../components/ui/TagInput"
 import { useThemeColors } from "../../hooks/use-theme-colors"
 import { isPaymentInstrumentMethod } from "../../services/payment-instruments"
 import { hapticSelection, hapticSuccess, hapticError } from "../../utils/haptics"
@@ -47,8 +55,13 @@ import {
   PaymentInstrumentInlineDropdown,
 } from "../../components/ui/PaymentInstrumentInlineDropdown"
 import { useTranslation } from "react-i18next"
-import { getCurrencySymbol } from "../../utils/currency"
 import { useSmsImportActions } from "../../hooks/use-sms-import-actions"
+import { useBudgetProgress } from "../../hooks/use-budget-progress"
+import { getMonthKey } from "../../utils/analytics/budgets"
+import { formatMonthLabel } from "../../utils/analytics/time"
+import { formatCurrency, getCurrencySymbol } from "../../utils/currency"
+import { toStoredTransactionKind } from "../../utils/transaction-kind"
+import { toStoredTags } from "../../utils/tags"
 import { UI_SPACE, UI_OPACITY } from "../../constants/ui-tokens"
 
 const EMPTY_INSTRUMENTS: PaymentInstrument[] = []
@@ -69,15 +82,18 @@ export default function AddExpenseScreen() {
   const { paymentMethodSectionExpanded, setPaymentMethodExpanded } = useUIState()
   const { isScanningSmsImports, startSmsImportFromAdd } = useSmsImportActions()
   const { categories } = useCategories()
+  const { availableTags } = useDerivedExpenseData()
   const insets = useSafeAreaInsets()
 
   // Track if user has interacted with payment method to prevent overwriting their choice
   const hasUserInteractedRef = useRef(false)
 
+  const [kind, setKind] = useState<TransactionKind>("expense")
   const [amount, setAmount] = useState("")
   const [category, setCategory] = useState<ExpenseCategory>("Food")
   const [date, setDate] = useState(() => new Date())
   const [note, setNote] = useState("")
+  const [tags, setTags] = useState<string[]>([])
   const [showDatePicker, setShowDatePicker] = useState(false)
 
   // Track if user has manually selected a category
@@ -139,6 +155,65 @@ export default function AddExpenseScreen() {
     })
   }, [amount, settings.enableMathExpressions])
 
+  // Budget progress for the month the expense falls in
+  const budgetMonth = getMonthKey(date)
+  const { progress: budgetProgress, budgetCurrency } = useBudgetProgress(budgetMonth)
+
+  // Remaining/over-budget hint for the selected category, including the amount
+  // being entered so the user is warned before the expense pushes it over.
+  // Only expenses count towards the budget, so other kinds show no hint.
+  const budgetHint = useMemo(() => {
+    if (kind !== "expense") return null
+    const progress = budgetProgress.find((item) => item.category === category)
+    if (!progress) return null
+
+    const parsed = parseAmountInput(amount, {
+      allowMathExpressions: settings.enableMathExpressions,
+    })
+    const pendingAmount = parsed.success ? Math.abs(parsed.value ?? 0) : 0
+    const label = category === "Other" ? t("settings.categories.other") : category
+    const month = formatMonthLabel(budgetMonth)
+
+    if (progress.status === "over") {
+      return {
+        tone: "error" as const,
+        text: t("add.budget.over", {
+          category: label,
+          amount: formatCurrency(-progress.remaining, budgetCurrency),
+          month,
+        }),
+      }
+    }
+
+    if (pendingAmount > progress.remaining) {
+      return {
+        tone: "error" as const,
+        text: t("add.budget.willExceed", {
+          category: label,
+          amount: formatCurrency(pendingAmount - progress.remaining, budgetCurrency),
+        }),
+      }
+    }
+
+    return {
+      tone: progress.status === "warning" ? ("warning" as const) : ("info" as const),
+      text: t("add.budget.remaining", {
+        category: label,
+        amount: formatCurrency(progress.remaining - pendingAmount, budgetCurrency),
+        month,
+      }),
+    }
+  }, [
+    kind,
+    budgetProgress,
+    category,
+    amount,
+    settings.enableMathExpressions,
+    budgetMonth,
+    budgetCurrency,
+    t,
+  ])
+
   const categoryCards = useMemo(
     () =>
       categories.map((cat) => {
@@ -202,8 +277,10 @@ export default function AddExpenseScreen() {
   }, [startSmsImportFromAdd])
 
   const resetForm = useCallback(() => {
+    setKind("expense")
     setAmount("")
     setNote("")
+    setTags([])
     setErrors({})
     // Reset user interaction flags so defaults can apply again
     hasUserInteractedRef.current = false
@@ -265,10 +342,12 @@ export default function AddExpenseScreen() {
 
     addExpense({
       amount: result.value!,
+      kind: toStoredTransactionKind(kind),
       currency: settings.defaultCurrency,
       category,
       date: date.toISOString(),
       note,
+      tags: toStoredTags(tags),
       paymentMethod,
     })
 
@@ -327,6 +406,12 @@ export default function AddExpenseScreen() {
             </Button>
           ) : null}
 
+          {/* Transaction Kind */}
+          <View className="gap-2">
+            <Label className="opacity-80">{t("add.kind")}</Label>
+            <TransactionKindSelector value={kind} onChange={setKind} />
+          </View>
+
           {/* Amount Input */}
           <View className="gap-2">
             <Label className="opacity-80">{t("add.amount")}</Label>
@@ -369,6 +454,19 @@ export default function AddExpenseScreen() {
           <View className="gap-2">
             <Label className="opacity-80">{t("add.category")}</Label>
             <View className="flex-row flex-wrap gap-2">{categoryCards}</View>
+            {budgetHint && (
+              <Text
+                className={
+                  budgetHint.tone === "error"
+                    ? "text-xs font-bold text-error"
+                    : budgetHint.tone === "warning"
+                      ? "text-xs font-bold text-warning"
+                      : "text-xs text-foreground opacity-60"
+                }
+              >
+                {budgetHint.text}
+              </Text>
+            )}
           </View>
 
           {/* Date Picker */}
@@ -407,6 +505,17 @@ export default function AddExpenseScreen() {
             />
           </View>
 
+          {/* Tags Input */}
+          <View className="gap-2">
+            <Label className="opacity-80">{t("add.tags")}</Label>
+            <TagInput
+              value={tags}
+              onChange={setTags}
+              knownTags={availableTags}
+              accessibilityLabel={t("add.tags")}
+            />
+          </View>
+
           {/* Payment Method Selection - Collapsible */}
           <View className="gap-2">
             <Button
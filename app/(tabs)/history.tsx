@@ -113,6 +113,7 @@ export default function HistoryScreen() {
     availableMonths,
     currencyExpenses,
     effectiveCurrency,
+    isAllCurrencies,
     effectiveSelectedMonth,
   } = useDerivedExpenseData()
 
@@ -250,7 +251,9 @@ export default function HistoryScreen() {
     if (availableCurrencies.length > 1) {
       chips.push({
         key: "currency",
-        label: `${t("settings.localization.currency")}: ${effectiveCurrency} (${getCurrencySymbol(effectiveCurrency)})`,
+        label: isAllCurrencies
+          ? `${t("settings.localization.currency")}: ${t("analytics.currency.allIn", { currency: effectiveCurrency })}`
+          : `${t("settings.localization.currency")}: ${effectiveCurrency} (${getCurrencySymbol(effectiveCurrency)})`,
       })
     }
 
@@ -339,6 +342,14 @@ export default function HistoryScreen() {
       }
     }
 
+    // Tag chip - only while tags are selected
+    if (filters.selectedTags.length > 0) {
+      chips.push({
+        key: "tags",
+        label: t("analytics.filters.tags", { tags: filters.selectedTags.join(", ") }),
+      })
+    }
+
     return chips
   }, [
     filters,
@@ -346,6 +357,7 @@ export default function HistoryScreen() {
     t,
     availableCurrencies,
     effectiveCurrency,
+    isAllCurrencies,
     allInstruments,
     showPaymentInstrumentFilter,
   ])
@@ -490,6 +502,7 @@ export default function HistoryScreen() {
       selectedCategories: [],
       selectedPaymentMethods: [],
       selectedPaymentInstruments: [],
+      selectedTags: [],
       selectedCurrency: null,
       searchQuery: "",
       minAmount: null,
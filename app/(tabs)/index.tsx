@@ -5,16 +5,21 @@ import { Text, View, ScrollView } from "react-native"
 import { useAnalyticsBase } from "../../hooks/use-analytics-base"
 import { useAnalyticsCharts } from "../../hooks/use-analytics-charts"
 import { useAnalyticsStatistics } from "../../hooks/use-analytics-statistics"
+import { useBudgetProgress } from "../../hooks/use-budget-progress"
 import { ScreenContainer } from "../../components/ui/ScreenContainer"
 import { StatisticsCards } from "../../components/analytics/StatisticsCards"
+import { CurrencyBreakdownSection } from "../../components/analytics/CurrencyBreakdownSection"
 import type { PaymentMethodSelectionKey } from "../../utils/analytics/filters"
 import { PieChartSection } from "../../components/analytics/PieChartSection"
+import { TagChartSection } from "../../components/analytics/TagChartSection"
+import { BudgetProgressSection } from "../../components/analytics/BudgetProgressSection"
 import { PaymentMethodPieChart } from "../../components/analytics/PaymentMethodPieChart"
 import { LineChartSection } from "../../components/analytics/LineChartSection"
 import { PaymentInstrumentPieChart } from "../../components/analytics/PaymentInstrumentPieChart"
 import type { PaymentInstrumentSelectionKey } from "../../utils/analytics/filters"
 import type { PaymentMethodType } from "../../types/expense"
 import { formatMonthLabel } from "../../utils/analytics/time"
+import { getMonthKey } from "../../utils/analytics/budgets"
 import {
   formatListBreakdown,
   paymentMethodLabel,
@@ -27,7 +32,8 @@ import { Filter, RefreshCw, Download } from "lucide-react-native"
 import { useFilters, useFilterPersistence } from "../../stores/filter-store"
 import { useTranslation } from "react-i18next"
 import { logAsync } from "../../services/logger"
-import { getCurrencySymbol } from "../../utils/currency"
+import { ALL_CURRENCIES, getCurrencySymbol } from "../../utils/currency"
+import { useSettings } from "../../stores/hooks"
 import { useSyncAction } from "../../hooks/use-sync-action"
 import { useSmsImportActions } from "../../hooks/use-sms-import-actions"
 import { IconActionButton } from "../../components/ui/IconActionButton"
@@ -104,6 +110,7 @@ const Header = memo(function Header() {
  */
 export default function AnalyticsScreen() {
   const { t } = useTranslation()
+  const { settings } = useSettings()
 
   // Use shared filter store
   const {
@@ -113,6 +120,7 @@ export default function AnalyticsScreen() {
     setSelectedCategories,
     setSelectedPaymentMethods,
     setSelectedPaymentInstruments,
+    setSelectedTags,
     setSelectedCurrency,
   } = useFilters()
   // Initialize filter persistence (loads persisted filters from storage on mount)
@@ -130,6 +138,7 @@ export default function AnalyticsScreen() {
     selectedCategories,
     selectedPaymentMethods,
     selectedPaymentInstruments,
+    selectedTags,
     searchQuery,
     minAmount,
     maxAmount,
@@ -140,6 +149,7 @@ export default function AnalyticsScreen() {
     filteredExpenses,
     availableCurrencies,
     effectiveCurrency,
+    reporting,
     dateRange,
     isLoading,
     paymentInstruments,
@@ -152,23 +162,30 @@ export default function AnalyticsScreen() {
     selectedPaymentInstruments,
     searchQuery,
     minAmount,
-    maxAmount
+    maxAmount,
+    selectedTags
   )
 
   const {
     pieChartData,
     paymentMethodChartData,
     paymentInstrumentChartData,
+    tagChartData,
     lineChartData,
-  } = useAnalyticsCharts(filteredExpenses, dateRange, paymentInstruments, t)
+  } = useAnalyticsCharts(filteredExpenses, dateRange, paymentInstruments, t, reporting)
 
   const { statistics } = useAnalyticsStatistics(
     filteredExpenses,
     effectiveSelectedMonth ? "all" : timeWindow,
     dateRange,
-    fullPeriodExpenses
+    fullPeriodExpenses,
+    reporting
   )
 
+  // Budgets track the selected month, or the current month otherwise
+  const budgetMonth = effectiveSelectedMonth ?? getMonthKey(new Date())
+  const { progress: budgetProgress, budgetCurrency } = useBudgetProgress(budgetMonth)
+
   // Handle category selection from pie chart segment tap - memoized
   const handleCategorySelect = useCallback(
     (category: string | null) => {
@@ -183,6 +200,18 @@ export default function AnalyticsScreen() {
     [selectedCategories, setSelectedCategories]
   )
 
+  // Handle tag selection from the tag chart - toggles the tag in the filter
+  const handleTagSelect = useCallback(
+    (tag: string) => {
+      logAsync("INFO", "UI_ACTION", "ANALYTICS_TAG_SELECT")
+      const newTags = selectedTags.includes(tag)
+        ? selectedTags.filter((selected) => selected !== tag)
+        : [...selectedTags, tag]
+      startTransition(() => setSelectedTags(newTags))
+    },
+    [selectedTags, setSelectedTags]
+  )
+
   const handlePaymentInstrumentSelect = useCallback(
     (key: PaymentInstrumentSelectionKey | null) => {
       logAsync("INFO", "UI_ACTION", "ANALYTICS_INSTRUMENT_SELECT")
@@ -201,18 +230,40 @@ export default function AnalyticsScreen() {
   )
 
   const currencyButtons = useMemo(() => {
-    return availableCurrencies.map((c) => ({
-      code: c,
-      isSelected: effectiveCurrency === c,
-      onPress: () => {
-        logAsync("INFO", "UI_ACTION", "ANALYTICS_CURRENCY_FILTER")
-        startTransition(() => setSelectedCurrency(c))
-        void saveFilters().catch((error) =>
-          console.warn("Failed to persist currency selection:", error)
-        )
+    const selectCurrency = (code: string) => {
+      logAsync("INFO", "UI_ACTION", "ANALYTICS_CURRENCY_FILTER")
+      startTransition(() => setSelectedCurrency(code))
+      void saveFilters().catch((error) =>
+        console.warn("Failed to persist currency selection:", error)
+      )
+    }
+
+    // "All" reports every currency converted into the default currency
+    return [
+      {
+        code: ALL_CURRENCIES,
+        label: t("analytics.currency.all", {
+          symbol: getCurrencySymbol(settings.defaultCurrency),
+        }),
+        isSelected: !!reporting,
+        onPress: () => selectCurrency(ALL_CURRENCIES),
       },
-    }))
-  }, [availableCurrencies, effectiveCurrency, setSelectedCurrency, saveFilters])
+      ...availableCurrencies.map((c) => ({
+        code: c,
+        label: `${c} (${getCurrencySymbol(c)})`,
+        isSelected: !reporting && effectiveCurrency === c,
+        onPress: () => selectCurrency(c),
+      })),
+    ]
+  }, [
+    availableCurrencies,
+    effectiveCurrency,
+    reporting,
+    settings.defaultCurrency,
+    setSelectedCurrency,
+    saveFilters,
+    t,
+  ])
 
   const selectedPaymentMethodForChart: PaymentMethodType | null =
     selectedPaymentMethods.length === 1 && selectedPaymentMethods[0] !== "__none__"
@@ -293,7 +344,9 @@ export default function AnalyticsScreen() {
     if (availableCurrencies.length > 1) {
       chips.push({
         key: "currency",
-        label: `${t("settings.localization.currency")}: ${effectiveCurrency} (${getCurrencySymbol(effectiveCurrency)})`,
+        label: reporting
+          ? `${t("settings.localization.currency")}: ${t("analytics.currency.allIn", { currency: effectiveCurrency })}`
+          : `${t("settings.localization.currency")}: ${effectiveCurrency} (${getCurrencySymbol(effectiveCurrency)})`,
       })
     }
 
@@ -375,12 +428,21 @@ export default function AnalyticsScreen() {
       }
     }
 
+    // Tag chip - only while tags are selected
+    if (selectedTags.length > 0) {
+      chips.push({
+        key: "tags",
+        label: t("analytics.filters.tags", { tags: selectedTags.join(", ") }),
+      })
+    }
+
     return chips
   }, [
     t,
     timeWindow,
     effectiveSelectedMonth,
     selectedCategories,
+    selectedTags,
     selectedPaymentMethods,
     showPaymentInstrumentFilter,
     formatCategoryLabel,
@@ -388,6 +450,7 @@ export default function AnalyticsScreen() {
     paymentInstruments,
     availableCurrencies,
     effectiveCurrency,
+    reporting,
   ])
 
   return (
@@ -444,7 +507,7 @@ export default function AnalyticsScreen() {
               title={t("analytics.empty.noData")}
               subtitle={t("analytics.empty.noDataSubtitle")}
             />
-          ) : !hasData && selectedCategories.length > 0 ? (
+          ) : !hasData && (selectedCategories.length > 0 || selectedTags.length > 0) ? (
             <EmptyState
               title={t("analytics.empty.noMatch")}
               subtitle={t("analytics.empty.noMatchSubtitle")}
@@ -468,24 +531,42 @@ export default function AnalyticsScreen() {
                   }}
                   style={{ marginBottom: UI_SPACE.control }}
                 >
-                  {currencyButtons.map(({ code, isSelected, onPress }) => (
+                  {currencyButtons.map(({ code, label, isSelected, onPress }) => (
                     <Button
                       key={code}
                       size="chip"
                       variant={isSelected ? "accent" : "outline"}
                       onPress={onPress}
                     >
-                      {code} ({getCurrencySymbol(code)})
+                      {label}
                     </Button>
                   ))}
                 </ScrollView>
               )}
               <View className="gap-4">
+                {statistics.currencyBreakdown && (
+                  <CurrencyBreakdownSection
+                    breakdown={statistics.currencyBreakdown}
+                    reportingCurrency={effectiveCurrency}
+                    unconvertedCount={statistics.unconvertedCount ?? 0}
+                  />
+                )}
+                <BudgetProgressSection
+                  progress={budgetProgress}
+                  currencyCode={budgetCurrency}
+                  monthLabel={formatMonthLabel(budgetMonth)}
+                />
                 <PieChartSection
                   data={pieChartData}
                   currencyCode={effectiveCurrency}
                   onCategorySelect={handleCategorySelect}
                 />
+                <TagChartSection
+                  data={tagChartData}
+                  currencyCode={effectiveCurrency}
+                  selectedTags={selectedTags}
+                  onTagSelect={handleTagSelect}
+                />
                 <PaymentMethodPieChart
                   data={paymentMethodChartData}
                   currencyCode={effectiveCurrency}
@@ -22,6 +22,7 @@ import { LocalizationSection } from "../../components/ui/settings/LocalizationSe
 import { Button } from "../../components/ui/Button"
 import { Label } from "../../components/ui/Label"
 import { Switch } from "../../components/ui/Switch"
+import { SyncPreviewSheet } from "../../components/ui/SyncPreviewSheet"
 import { useThemeColors } from "../../hooks/use-theme-colors"
 import { useTranslation } from "react-i18next"
 import { useSmsImportActions } from "../../hooks/use-sms-import-actions"
@@ -50,7 +51,7 @@ export default function SettingsScreen() {
 
   // Same sync path the rest of the app uses: conflict resolution plus
   // post-sync reconciliation keep the pending count accurate after a merge.
-  const { handleSync, isSyncing, pendingCount } = useSyncAction()
+  const { handleSync, handlePreview, isSyncing, pendingCount } = useSyncAction()
 
   // Update check hook for manual update checks from settings
   const {
@@ -73,6 +74,7 @@ export default function SettingsScreen() {
     updateSettings,
     setAutoSyncEnabled,
     setAutoSyncTiming,
+    setAutoSyncIntervalMinutes,
     replaceSettings,
     saveSyncConfig,
     clearSyncConfig,
@@ -116,6 +118,14 @@ export default function SettingsScreen() {
         .length,
     [settings.paymentInstruments]
   )
+  const activeRecurringTemplateCount = useMemo(
+    () => settings.recurringTemplates.filter((template) => !template.deletedAt).length,
+    [settings.recurringTemplates]
+  )
+  const activeExchangeRateCount = useMemo(
+    () => settings.exchangeRates.filter((rate) => !rate.deletedAt).length,
+    [settings.exchangeRates]
+  )
 
   const handleScanSmsImports = useCallback(async () => {
     await scanSmsImports()
@@ -298,7 +308,11 @@ export default function SettingsScreen() {
   }, [])
 
   const handleReportIssue = useCallback(async () => {
-    const token = syncConfig?.token
+    // Only a github.com token can file issues on the app repository
+    const token =
+      syncConfig?.backend === "gitea" || syncConfig?.backend === "gitlab"
+        ? undefined
+        : syncConfig?.token
     const appRepo = APP_CONFIG.github.url.replace(/^https?:\/\/github\.com\//, "")
     // Signed in: attach up to 500 logs via the API. Otherwise: copy up to 200
     // to the clipboard. Fetch first so the prompt can show the real count.
@@ -427,6 +441,13 @@ export default function SettingsScreen() {
     [setSyncSettings]
   )
 
+  const handleSyncAttachmentsToggle = useCallback(
+    (enabled: boolean) => {
+      updateSettings({ syncAttachments: enabled })
+    },
+    [updateSettings]
+  )
+
   // Sync button text with pending count
   const syncButtonText = useMemo(() => {
     if (isSyncing) return t("settings.autoSync.syncing")
@@ -463,15 +484,162 @@ export default function SettingsScreen() {
               >
                 {syncButtonText}
               </Button>
+              <Button
+                size="control"
+                variant="outline"
+                onPress={handlePreview}
+                disabled={isSyncing}
+                accessibilityLabel={t("syncPreview.action")}
+              >
+                {t("syncPreview.action")}
+              </Button>
 
               <AutoSyncSection
                 autoSyncEnabled={settings.autoSyncEnabled}
                 autoSyncTiming={settings.autoSyncTiming}
+                autoSyncIntervalMinutes={settings.autoSyncIntervalMinutes}
                 syncSettings={settings.syncSettings}
+                syncAttachments={settings.syncAttachments}
                 onAutoSyncEnabledChange={setAutoSyncEnabled}
                 onAutoSyncTimingChange={setAutoSyncTiming}
+                onAutoSyncIntervalMinutesChange={setAutoSyncIntervalMinutes}
                 onSyncSettingsChange={handleSyncSettingsToggle}
+                onSyncAttachmentsChange={handleSyncAttachmentsToggle}
               />
+
+              <Pressable
+                onPress={() => router.push("/settings/sync-encryption" as Href)}
+                role="button"
+                accessibilityLabel={t("settings.sync.encryptionTitle")}
+                style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+              >
+                <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-card">
+                  <View className="flex-1 gap-1" pointerEvents="none">
+                    <Label className="opacity-80">
+                      {t("settings.sync.encryptionTitle")}
+                    </Label>
+                    <Text className="text-xs text-foreground opacity-50">
+                      {t("settings.sync.encryptionHelp")}
+                    </Text>
+                  </View>
+                  <ChevronRight
+                    size={UI_ICON_SIZE.medium}
+                    color={theme.foreground}
+                    style={{ opacity: UI_OPACITY.subtle }}
+                  />
+                </View>
+              </Pressable>
+
+              <Pressable
+                onPress={() => router.push("/settings/sync-layout" as Href)}
+                role="button"
+                accessibilityLabel={t("settings.sync.layoutTitle")}
+                style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+              >
+                <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-card">
+                  <View className="flex-1 gap-1" pointerEvents="none">
+                    <Label className="opacity-80">{t("settings.sync.layoutTitle")}</Label>
+                    <Text className="text-xs text-foreground opacity-50">
+                      {t("settings.sync.layoutHelp")}
+                    </Text>
+                  </View>
+                  <ChevronRight
+                    size={UI_ICON_SIZE.medium}
+                    color={theme.foreground}
+                    style={{ opacity: UI_OPACITY.subtle }}
+                  />
+                </View>
+              </Pressable>
+
+              <Pressable
+                onPress={() => router.push("/settings/sync-cleanup" as Href)}
+                role="button"
+                accessibilityLabel={t("settings.sync.cleanupTitle")}
+                style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+              >
+                <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-card">
+                  <View className="flex-1 gap-1" pointerEvents="none">
+                    <Label className="opacity-80">
+                      {t("settings.sync.cleanupTitle")}
+                    </Label>
+                    <Text className="text-xs text-foreground opacity-50">
+                      {t("settings.sync.cleanupHelp")}
+                    </Text>
+                  </View>
+                  <ChevronRight
+                    size={UI_ICON_SIZE.medium}
+                    color={theme.foreground}
+                    style={{ opacity: UI_OPACITY.subtle }}
+                  />
+                </View>
+              </Pressable>
+
+              <Pressable
+                onPress={() => router.push("/settings/sync-history" as Href)}
+                role="button"
+                accessibilityLabel={t("settings.sync.historyTitle")}
+                style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+              >
+                <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-card">
+                  <View className="flex-1 gap-1" pointerEvents="none">
+                    <Label className="opacity-80">
+                      {t("settings.sync.historyTitle")}
+                    </Label>
+                    <Text className="text-xs text-foreground opacity-50">
+                      {t("settings.sync.historyHelp")}
+                    </Text>
+                  </View>
+                  <ChevronRight
+                    size={UI_ICON_SIZE.medium}
+                    color={theme.foreground}
+                    style={{ opacity: UI_OPACITY.subtle }}
+                  />
+                </View>
+              </Pressable>
+
+              <Pressable
+                onPress={() => router.push("/settings/sync-devices" as Href)}
+                role="button"
+                accessibilityLabel={t("settings.sync.devicesTitle")}
+                style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+              >
+                <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-card">
+                  <View className="flex-1 gap-1" pointerEvents="none">
+                    <Label className="opacity-80">
+                      {t("settings.sync.devicesTitle")}
+                    </Label>
+                    <Text className="text-xs text-foreground opacity-50">
+                      {t("settings.sync.devicesHelp")}
+                    </Text>
+                  </View>
+                  <ChevronRight
+                    size={UI_ICON_SIZE.medium}
+                    color={theme.foreground}
+                    style={{ opacity: UI_OPACITY.subtle }}
+                  />
+                </View>
+              </Pressable>
+
+              <Pressable
+                onPress={() => router.push("/settings/sync-queue" as Href)}
+                role="button"
+                accessibilityLabel={t("settings.sync.queueTitle")}
+                style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+              >
+                <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-card">
+                  <View className="flex-1 gap-1" pointerEvents="none">
+                    <Label className="opacity-80">{t("settings.sync.queueTitle")}</Label>
+                    <Text className="text-xs text-foreground opacity-50">
+                      {t("settings.sync.queueHelp")}
+                    </Text>
+                  </View>
+                  <ChevronRight
+                    size={UI_ICON_SIZE.medium}
+                    color={theme.foreground}
+                    style={{ opacity: UI_OPACITY.subtle }}
+                  />
+                </View>
+              </Pressable>
             </View>
           )}
         </SettingsSection>
@@ -531,6 +699,53 @@ export default function SettingsScreen() {
           </SettingsSection>
         ) : null}
 
+        <SettingsSection
+          title={t("settings.sections.data")}
+          description={t("settings.data.description")}
+          gap="$gutter"
+        >
+          <Pressable
+            onPress={() => router.push("/settings/data" as Href)}
+            role="button"
+            accessibilityLabel={t("settings.data.manageTitle")}
+            style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+          >
+            <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-card">
+              <View className="flex-1 gap-1" pointerEvents="none">
+                <Label className="opacity-80">{t("settings.data.manageTitle")}</Label>
+                <Text className="text-xs text-foreground opacity-50">
+                  {t("settings.data.manageHelp")}
+                </Text>
+              </View>
+              <ChevronRight
+                size={UI_ICON_SIZE.medium}
+                color={theme.foreground}
+                style={{ opacity: UI_OPACITY.subtle }}
+              />
+            </View>
+          </Pressable>
+          <Pressable
+            onPress={() => router.push("/settings/backup" as Href)}
+            role="button"
+            accessibilityLabel={t("settings.data.backupTitle")}
+            style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+          >
+            <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-card">
+              <View className="flex-1 gap-1" pointerEvents="none">
+                <Label className="opacity-80">{t("settings.data.backupTitle")}</Label>
+                <Text className="text-xs text-foreground opacity-50">
+                  {t("settings.data.backupHelp")}
+                </Text>
+              </View>
+              <ChevronRight
+                size={UI_ICON_SIZE.medium}
+                color={theme.foreground}
+                style={{ opacity: UI_OPACITY.subtle }}
+              />
+            </View>
+          </Pressable>
+        </SettingsSection>
+
         <SettingsSection
           title={t("settings.sections.payment")}
           description={t("settings.payment.description")}
@@ -562,6 +777,56 @@ export default function SettingsScreen() {
               />
             </View>
           </Pressable>
+
+          <Pressable
+            onPress={() => router.push("/settings/recurring" as Href)}
+            role="button"
+            accessibilityLabel={t("settings.recurring.manageTitle")}
+            style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+          >
+            <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-card">
+              <View className="flex-1 gap-1" pointerEvents="none">
+                <Label className="opacity-80">
+                  {t("settings.recurring.manageTitle")}
+                </Label>
+                <Text className="text-[13px] text-foreground opacity-60">
+                  {t("settings.recurring.summary", {
+                    count: activeRecurringTemplateCount,
+                  })}
+                </Text>
+              </View>
+              <ChevronRight
+                size={UI_ICON_SIZE.medium}
+                color={theme.foreground}
+                style={{ opacity: UI_OPACITY.subtle }}
+              />
+            </View>
+          </Pressable>
+
+          <Pressable
+            onPress={() => router.push("/settings/exchange-rates" as Href)}
+            role="button"
+            accessibilityLabel={t("settings.exchangeRates.manageTitle")}
+            style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+          >
+            <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-card">
+              <View className="flex-1 gap-1" pointerEvents="none">
+                <Label className="opacity-80">
+                  {t("settings.exchangeRates.manageTitle")}
+                </Label>
+                <Text className="text-[13px] text-foreground opacity-60">
+                  {t("settings.exchangeRates.summary", {
+                    count: activeExchangeRateCount,
+                  })}
+                </Text>
+              </View>
+              <ChevronRight
+                size={UI_ICON_SIZE.medium}
+                color={theme.foreground}
+                style={{ opacity: UI_OPACITY.subtle }}
+              />
+            </View>
+          </Pressable>
         </SettingsSection>
 
         <SettingsSection
@@ -641,6 +906,8 @@ export default function SettingsScreen() {
           />
         </SettingsSection>
       </View>
+
+      <SyncPreviewSheet />
     </ScreenContainer>
   )
 }
@@ -23,6 +23,7 @@ import { CategoryFilter } from "../components/analytics/CategoryFilter"
 import { PaymentMethodFilter } from "../components/analytics/PaymentMethodFilter"
 import { PaymentInstrumentFilter } from "../components/analytics/PaymentInstrumentFilter"
 import { CurrencyFilter } from "../components/analytics/CurrencyFilter"
+import { TagFilter } from "../components/analytics/TagFilter"
 import { Button } from "../components/ui/Button"
 
 import { useFilters, useFilterPersistence } from "../stores/filter-store"
@@ -56,6 +57,7 @@ export default function FiltersScreen() {
     availableCurrencies,
     defaultCurrency,
     effectiveSelectedMonth,
+    availableTags,
   } = useDerivedExpenseData()
 
   const allInstruments = settings.paymentInstruments ?? EMPTY_INSTRUMENTS
@@ -76,6 +78,7 @@ export default function FiltersScreen() {
   const [draftPaymentInstruments, setDraftPaymentInstruments] = useState<
     PaymentInstrumentSelectionKey[]
   >(filters.selectedPaymentInstruments)
+  const [draftTags, setDraftTags] = useState<string[]>(filters.selectedTags)
   const [draftSearchQuery, setDraftSearchQuery] = useState(filters.searchQuery)
   const [draftMinAmount, setDraftMinAmount] = useState<number | null>(filters.minAmount)
   const [draftMaxAmount, setDraftMaxAmount] = useState<number | null>(filters.maxAmount)
@@ -126,6 +129,7 @@ export default function FiltersScreen() {
     setDraftCategories([])
     setDraftPaymentMethods([])
     setDraftPaymentInstruments([])
+    setDraftTags([])
     setDraftSearchQuery("")
     setDraftMinAmount(null)
     setDraftMaxAmount(null)
@@ -142,6 +146,7 @@ export default function FiltersScreen() {
       selectedCategories: draftCategories,
       selectedPaymentMethods: draftPaymentMethods,
       selectedPaymentInstruments: draftPaymentInstruments,
+      selectedTags: draftTags,
       selectedCurrency: draftCurrency,
       searchQuery: draftSearchQuery,
       minAmount: draftMinAmount,
@@ -160,6 +165,7 @@ export default function FiltersScreen() {
     draftCategories,
     draftPaymentMethods,
     draftPaymentInstruments,
+    draftTags,
     draftSearchQuery,
     draftMinAmount,
     draftMaxAmount,
@@ -221,6 +227,7 @@ export default function FiltersScreen() {
                 availableCurrencies={availableCurrencies}
                 selectedCurrency={draftCurrency}
                 defaultCurrency={defaultCurrency}
+                reportingCurrency={settings.defaultCurrency}
                 onChange={setDraftCurrency}
               />
             </View>
@@ -278,6 +285,19 @@ export default function FiltersScreen() {
             </View>
           )}
 
+          {(availableTags.length > 0 || draftTags.length > 0) && (
+            <View className="gap-2">
+              <Text className="font-semibold text-sm text-foreground">
+                {t("history.filterSheet.tags")}
+              </Text>
+              <TagFilter
+                availableTags={availableTags}
+                selectedTags={draftTags}
+                onChange={setDraftTags}
+              />
+            </View>
+          )}
+
           <View
             className="flex-row gap-2"
             style={{
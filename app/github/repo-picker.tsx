@@ -9,6 +9,7 @@ import { Button } from "../../components/ui/Button"
 import { Input } from "../../components/ui/Input"
 import { Spinner } from "../../components/ui/Spinner"
 import { UI_SPACE } from "../../constants/ui-tokens"
+import { ledgerScopedKey } from "../../services/ledgers"
 
 type GitHubUser = { login: string }
 
@@ -57,7 +58,7 @@ export default function GitHubRepoPickerScreen() {
       setIsLoading(true)
       setError(null)
 
-      const token = await secureStorage.getItem(TOKEN_KEY)
+      const token = await secureStorage.getItem(ledgerScopedKey(TOKEN_KEY))
       if (!token) {
         setError(t("settings.github.signIn") + " " + t("common.required"))
         setRepos([])
@@ -90,9 +91,9 @@ export default function GitHubRepoPickerScreen() {
 
         // Force re-login by clearing saved credentials/config.
         await Promise.all([
-          secureStorage.deleteItem(TOKEN_KEY),
-          secureStorage.deleteItem(REPO_KEY),
-          secureStorage.deleteItem(BRANCH_KEY),
+          secureStorage.deleteItem(ledgerScopedKey(TOKEN_KEY)),
+          secureStorage.deleteItem(ledgerScopedKey(REPO_KEY)),
+          secureStorage.deleteItem(ledgerScopedKey(BRANCH_KEY)),
         ])
 
         setRepos([])
@@ -174,12 +175,12 @@ export default function GitHubRepoPickerScreen() {
 
   const handleSelect = useCallback(
     async (repo: GitHubRepo) => {
-      await secureStorage.setItem(REPO_KEY, repo.full_name)
+      await secureStorage.setItem(ledgerScopedKey(REPO_KEY), repo.full_name)
 
       // Only set branch if not already set
-      const existingBranch = await secureStorage.getItem(BRANCH_KEY)
+      const existingBranch = await secureStorage.getItem(ledgerScopedKey(BRANCH_KEY))
       if (!existingBranch && repo.default_branch) {
-        await secureStorage.setItem(BRANCH_KEY, repo.default_branch)
+        await secureStorage.setItem(ledgerScopedKey(BRANCH_KEY), repo.default_branch)
       }
 
       router.back()
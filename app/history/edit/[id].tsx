@@ -10,6 +10,7 @@ import {
   useNotifications,
   useSettings,
   useCategories,
+  useDerivedExpenseData,
 } from "../../../stores/hooks"
 import { ScreenContainer } from "../../../components/ui/ScreenContainer"
 import { CategoryCard } from "../../../components/ui/CategoryCard"
@@ -17,9 +18,18 @@ import { PaymentMethodCard } from "../../../components/ui/PaymentMethodCard"
 import { Button } from "../../../components/ui/Button"
 import { Input } from "../../../components/ui/Input"
 import { Label } from "../../../components/ui/Label"
+import { TransactionKindSelector } from "../../../components/ui/TransactionKindSelector"
+import { TagInput } from "../../../components/ui/TagInput"
+import { ReceiptAttachments } from "../../../components/ui/ReceiptAttachments"
 import { PAYMENT_METHODS } from "../../../constants/payment-methods"
 import { getCurrencySymbol, getFallbackCurrency } from "../../../utils/currency"
 import { formatDate } from "../../../utils/date"
+import {
+  getTransactionKind,
+  toStoredTransactionKind,
+} from "../../../utils/transaction-kind"
+import { getExpenseTags, toStoredTags } from "../../../utils/tags"
+import { getExpenseAttachments, toStoredAttachments } from "../../../utils/attachments"
 import {
   getAmountInputProps,
   getAmountPreview,
@@ -31,6 +41,7 @@ import type {
   ExpenseCategory,
   PaymentMethodType,
   PaymentMethod,
+  TransactionKind,
 } from "../../../types/expense"
 import type { PaymentInstrument } from "../../../types/payment-instrument"
 import { PaymentInstrumentMethod } from "../../../types/payment-instrument"
@@ -53,6 +64,7 @@ export default function EditExpenseScreen() {
   const { addNotification } = useNotifications()
   const { settings, updateSettings } = useSettings()
   const { categories } = useCategories()
+  const { availableTags } = useDerivedExpenseData()
 
   const expense = useMemo(
     () => state.expenses.find((e) => e.id === id),
@@ -66,9 +78,16 @@ export default function EditExpenseScreen() {
     }
   }, [expense, router, addNotification, t])
 
+  const [kind, setKind] = useState<TransactionKind>(
+    expense ? getTransactionKind(expense) : "expense"
+  )
   const [amount, setAmount] = useState(expense?.amount.toString() ?? "")
   const [category, setCategory] = useState<ExpenseCategory>(expense?.category ?? "Other")
   const [note, setNote] = useState(expense?.note ?? "")
+  const [tags, setTags] = useState<string[]>(expense ? getExpenseTags(expense) : [])
+  const [attachments, setAttachments] = useState<string[]>(
+    expense ? getExpenseAttachments(expense) : []
+  )
   const [date, setDate] = useState(expense?.date ?? new Date().toISOString())
   const [paymentMethodType, setPaymentMethodType] = useState<
     PaymentMethodType | undefined
@@ -176,9 +195,12 @@ export default function EditExpenseScreen() {
 
     editExpense(expense.id, {
       amount: result.value!,
+      kind: toStoredTransactionKind(kind),
       category,
       date,
       note,
+      tags: toStoredTags(tags),
+      attachments: toStoredAttachments(attachments),
       paymentMethod,
     })
     addNotification(t("history.updated"), "success")
@@ -186,10 +208,13 @@ export default function EditExpenseScreen() {
     router.back()
   }, [
     expense,
+    kind,
     amount,
     category,
     date,
     note,
+    tags,
+    attachments,
     paymentMethodType,
     paymentMethodId,
     paymentInstrumentId,
@@ -200,6 +225,11 @@ export default function EditExpenseScreen() {
     router,
   ])
 
+  const handleAttachmentError = useCallback(
+    (message: string) => addNotification(message, "error"),
+    [addNotification]
+  )
+
   if (!expense) return null
 
   return (
@@ -256,6 +286,11 @@ export default function EditExpenseScreen() {
             )}
           </View>
 
+          <View className="gap-2">
+            <Label className="opacity-80">{t("history.editDialog.fields.kind")}</Label>
+            <TransactionKindSelector value={kind} onChange={setKind} />
+          </View>
+
           <View className="gap-2">
             <Label className="opacity-80">{t("history.editDialog.fields.amount")}</Label>
             <View className="flex-row items-center gap-2">
@@ -317,6 +352,27 @@ export default function EditExpenseScreen() {
             />
           </View>
 
+          <View className="gap-2">
+            <Label className="opacity-80">{t("history.editDialog.fields.tags")}</Label>
+            <TagInput
+              value={tags}
+              onChange={setTags}
+              knownTags={availableTags}
+              accessibilityLabel={t("history.editDialog.fields.tags")}
+            />
+          </View>
+
+          <View className="gap-2">
+            <Label className="opacity-80">
+              {t("history.editDialog.fields.receipts")}
+            </Label>
+            <ReceiptAttachments
+              value={attachments}
+              onChange={setAttachments}
+              onError={handleAttachmentError}
+            />
+          </View>
+
           <View className="gap-2">
             <Label className="opacity-80">
               {t("history.editDialog.fields.paymentMethod")}
@@ -0,0 +1,332 @@
+import { useCallback, useState } from "react"
+import { Stack } from "expo-router"
+import { Alert, Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { ArchiveRestore, FileUp, ShieldCheck } from "lucide-react-native"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { Input } from "../../components/ui/Input"
+import { Label } from "../../components/ui/Label"
+import { RadioGroup } from "../../components/ui/RadioGroup"
+import {
+  useExpenses,
+  useNotifications,
+  useSettings,
+  useUIState,
+} from "../../stores/hooks"
+import { filterStore } from "../../stores/filter-store"
+import { pickTextFile } from "../../services/text-file"
+import { previewLedgerImport } from "../../services/ledger-file"
+import { loadMappingProfiles } from "../../services/csv-import/mapping-profiles"
+import { loadAnalyticsFilters } from "../../services/analytics-filters-storage"
+import {
+  BACKUP_MIME_TYPES,
+  BackupRestoreMode,
+  mergeBackupSettings,
+  MIN_BACKUP_PASSWORD_LENGTH,
+  readBackupFile,
+  RestoredBackup,
+  restoreDeviceState,
+  shareBackupFile,
+} from "../../services/backup-archive"
+import { UI_ICON_SIZE, UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+
+interface PickedBackup {
+  name: string
+  content: string
+}
+
+export default function BackupSettingsScreen() {
+  const { t } = useTranslation()
+  const theme = useThemeColors()
+  const { state, importExpenses, restoreExpenses } = useExpenses()
+  const { settings, updateSettings } = useSettings()
+  const {
+    paymentMethodSectionExpanded,
+    paymentInstrumentsSectionExpanded,
+    setPaymentMethodExpanded,
+    setPaymentInstrumentsExpanded,
+  } = useUIState()
+  const { addNotification } = useNotifications()
+
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+
+  const [picked, setPicked] = useState<PickedBackup | null>(null)
+  const [restorePassword, setRestorePassword] = useState("")
+  const [mode, setMode] = useState<BackupRestoreMode>("merge")
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const passwordError =
+    password.length > 0 && password.length < MIN_BACKUP_PASSWORD_LENGTH
+      ? t("backup.create.passwordTooShort", { count: MIN_BACKUP_PASSWORD_LENGTH })
+      : confirmPassword.length > 0 && confirmPassword !== password
+        ? t("backup.create.passwordMismatch")
+        : null
+  const canCreate =
+    password.length >= MIN_BACKUP_PASSWORD_LENGTH && confirmPassword === password
+
+  const handleCreate = useCallback(async () => {
+    setIsCreating(true)
+    try {
+      const result = await shareBackupFile(
+        {
+          settings,
+          expenses: state.expenses,
+          analyticsFilters: await loadAnalyticsFilters(),
+          uiState: { paymentMethodSectionExpanded, paymentInstrumentsSectionExpanded },
+          mappingProfiles: await loadMappingProfiles(),
+        },
+        password
+      )
+      if (result.success) {
+        setPassword("")
+        setConfirmPassword("")
+      } else {
+        addNotification(result.error ?? t("backup.create.failed"), "error")
+      }
+    } finally {
+      setIsCreating(false)
+    }
+  }, [
+    addNotification,
+    password,
+    paymentInstrumentsSectionExpanded,
+    paymentMethodSectionExpanded,
+    settings,
+    state.expenses,
+    t,
+  ])
+
+  const handlePick = useCallback(async () => {
+    const result = await pickTextFile(BACKUP_MIME_TYPES)
+    if (!result.success) {
+      addNotification(result.error ?? t("backup.restore.failed"), "error")
+      return
+    }
+    if (result.data) {
+      setPicked(result.data)
+      setRestorePassword("")
+    }
+  }, [addNotification, t])
+
+  const applyBackup = useCallback(
+    async (backup: RestoredBackup) => {
+      if (mode === "replace") {
+        updateSettings(backup.settings)
+        restoreExpenses(backup.expenses)
+        filterStore.trigger.hydrate({ filters: backup.analyticsFilters })
+        setPaymentMethodExpanded(backup.uiState.paymentMethodSectionExpanded)
+        setPaymentInstrumentsExpanded(backup.uiState.paymentInstrumentsSectionExpanded)
+      } else {
+        updateSettings(mergeBackupSettings(settings, backup.settings))
+        const { added, updated } = previewLedgerImport(state.expenses, backup.expenses)
+        importExpenses([...added, ...updated])
+      }
+      await restoreDeviceState(backup, mode)
+    },
+    [
+      importExpenses,
+      mode,
+      restoreExpenses,
+      setPaymentInstrumentsExpanded,
+      setPaymentMethodExpanded,
+      settings,
+      state.expenses,
+      updateSettings,
+    ]
+  )
+
+  const restore = useCallback(async () => {
+    if (!picked) return
+    setIsRestoring(true)
+    try {
+      const result = await readBackupFile(picked.content, restorePassword)
+      if (!result.success || !result.data) {
+        addNotification(result.error ?? t("backup.restore.failed"), "error")
+        return
+      }
+
+      await applyBackup(result.data)
+      addNotification(
+        t("backup.restore.done", { count: result.data.expenses.length }),
+        "success"
+      )
+      setPicked(null)
+      setRestorePassword("")
+    } catch (error) {
+      console.warn("Failed to restore backup:", error)
+      addNotification(t("backup.restore.failed"), "error")
+    } finally {
+      setIsRestoring(false)
+    }
+  }, [addNotification, applyBackup, picked, restorePassword, t])
+
+  const handleRestore = useCallback(() => {
+    if (mode === "merge") {
+      void restore()
+      return
+    }
+
+    Alert.alert(
+      t("backup.restore.replaceDialog.title"),
+      t("backup.restore.replaceDialog.message"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("backup.restore.replaceDialog.confirm"),
+          style: "destructive",
+          onPress: () => void restore(),
+        },
+      ]
+    )
+  }, [mode, restore, t])
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("backup.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          <SettingsSection
+            title={t("backup.create.title")}
+            description={t("backup.create.description")}
+          >
+            <View className="gap-3">
+              <View className="gap-1">
+                <Label>{t("backup.create.password")}</Label>
+                <Input
+                  value={password}
+                  onChangeText={setPassword}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  accessibilityLabel={t("backup.create.password")}
+                />
+              </View>
+              <View className="gap-1">
+                <Label>{t("backup.create.confirmPassword")}</Label>
+                <Input
+                  value={confirmPassword}
+                  onChangeText={setConfirmPassword}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  accessibilityLabel={t("backup.create.confirmPassword")}
+                />
+              </View>
+              {passwordError ? (
+                <Text className="text-xs text-error">{passwordError}</Text>
+              ) : null}
+              <Text
+                className="text-xs text-foreground"
+                style={{ opacity: UI_OPACITY.subtle }}
+              >
+                {t("backup.create.passwordHelp")}
+              </Text>
+
+              <Button
+                variant="accent"
+                className="gap-2"
+                onPress={handleCreate}
+                disabled={!canCreate || isCreating}
+              >
+                <ShieldCheck size={UI_ICON_SIZE.small} />
+                {isCreating ? t("backup.create.working") : t("backup.create.action")}
+              </Button>
+            </View>
+          </SettingsSection>
+
+          <SettingsSection
+            title={t("backup.restore.title")}
+            description={t("backup.restore.description")}
+          >
+            <View className="gap-3">
+              <Button variant="outline" className="gap-2" onPress={handlePick}>
+                <FileUp size={UI_ICON_SIZE.small} color={theme.foreground} />
+                {t("backup.restore.pick")}
+              </Button>
+
+              {picked ? (
+                <View className="gap-3 rounded-card bg-surface p-3">
+                  <Text className="font-bold text-foreground" numberOfLines={1}>
+                    {picked.name}
+                  </Text>
+
+                  <View className="gap-1">
+                    <Label>{t("backup.restore.password")}</Label>
+                    <Input
+                      value={restorePassword}
+                      onChangeText={setRestorePassword}
+                      secureTextEntry
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      accessibilityLabel={t("backup.restore.password")}
+                    />
+                  </View>
+
+                  <RadioGroup
+                    value={mode}
+                    onValueChange={(value) => setMode(value as BackupRestoreMode)}
+                  >
+                    <View className="flex-row items-start gap-2 my-1">
+                      <RadioGroup.Item
+                        value="merge"
+                        accessibilityLabel={t("backup.restore.merge")}
+                      />
+                      <View className="flex-1">
+                        <Label>{t("backup.restore.merge")}</Label>
+                        <Text
+                          className="text-xs text-foreground"
+                          style={{ opacity: UI_OPACITY.subtle }}
+                        >
+                          {t("backup.restore.mergeHelp")}
+                        </Text>
+                      </View>
+                    </View>
+                    <View className="flex-row items-start gap-2 my-1">
+                      <RadioGroup.Item
+                        value="replace"
+                        accessibilityLabel={t("backup.restore.replace")}
+                      />
+                      <View className="flex-1">
+                        <Label>{t("backup.restore.replace")}</Label>
+                        <Text
+                          className="text-xs text-foreground"
+                          style={{ opacity: UI_OPACITY.subtle }}
+                        >
+                          {t("backup.restore.replaceHelp")}
+                        </Text>
+                      </View>
+                    </View>
+                  </RadioGroup>
+
+                  <View className="flex-row justify-end gap-2">
+                    <Button variant="outline" size="chip" onPress={() => setPicked(null)}>
+                      {t("common.cancel")}
+                    </Button>
+                    <Button
+                      variant="accent"
+                      size="chip"
+                      className="gap-2"
+                      onPress={handleRestore}
+                      disabled={restorePassword.length === 0 || isRestoring}
+                    >
+                      <ArchiveRestore size={UI_ICON_SIZE.small} />
+                      {isRestoring
+                        ? t("backup.restore.working")
+                        : t("backup.restore.action")}
+                    </Button>
+                  </View>
+                </View>
+              ) : null}
+            </View>
+          </SettingsSection>
+        </View>
+      </ScreenContainer>
+    </>
+  )
+}
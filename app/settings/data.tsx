@@ -0,0 +1,269 @@
+import { useCallback, useState } from "react"
+import { Href, Stack, useRouter } from "expo-router"
+import { Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { FileDown, FileUp, Table } from "lucide-react-native"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { Label } from "../../components/ui/Label"
+import { Switch } from "../../components/ui/Switch"
+import { RadioGroup } from "../../components/ui/RadioGroup"
+import { useExpenses, useNotifications } from "../../stores/hooks"
+import { pickTextFile } from "../../services/text-file"
+import {
+  LEDGER_MIME_TYPES,
+  LedgerFileFormat,
+  LedgerImportPreview,
+  parseLedgerFile,
+  previewLedgerImport,
+  shareLedgerFile,
+} from "../../services/ledger-file"
+import type { CSVRowError } from "../../services/csv-handler"
+import { UI_ICON_SIZE, UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+
+// Long error reports are cut off; the count is always shown in full
+const MAX_LISTED_ERRORS = 20
+
+interface PendingImport {
+  fileName: string
+  preview: LedgerImportPreview
+  errors: CSVRowError[]
+}
+
+export default function DataSettingsScreen() {
+  const { t } = useTranslation()
+  const theme = useThemeColors()
+  const router = useRouter()
+  const { state, importExpenses } = useExpenses()
+  const { addNotification } = useNotifications()
+
+  const [format, setFormat] = useState<LedgerFileFormat>("csv")
+  const [includeDeleted, setIncludeDeleted] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [pending, setPending] = useState<PendingImport | null>(null)
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true)
+    try {
+      const result = await shareLedgerFile(state.expenses, { format, includeDeleted })
+      if (!result.success) {
+        addNotification(result.error ?? t("ledgerFile.export.failed"), "error")
+      }
+    } finally {
+      setIsExporting(false)
+    }
+  }, [addNotification, format, includeDeleted, state.expenses, t])
+
+  const handlePickFile = useCallback(async () => {
+    setIsImporting(true)
+    try {
+      const picked = await pickTextFile(LEDGER_MIME_TYPES)
+      if (!picked.success) {
+        addNotification(picked.error ?? t("ledgerFile.import.failed"), "error")
+        return
+      }
+      if (!picked.data) return
+
+      const { expenses, errors } = parseLedgerFile(picked.data.name, picked.data.content)
+      setPending({
+        fileName: picked.data.name,
+        preview: previewLedgerImport(state.expenses, expenses),
+        errors,
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }, [addNotification, state.expenses, t])
+
+  const handleConfirmImport = useCallback(() => {
+    if (!pending) return
+    const { added, updated } = pending.preview
+    importExpenses([...added, ...updated])
+    addNotification(
+      t("ledgerFile.import.done", { added: added.length, updated: updated.length }),
+      "success"
+    )
+    setPending(null)
+  }, [addNotification, importExpenses, pending, t])
+
+  const changeCount = pending
+    ? pending.preview.added.length + pending.preview.updated.length
+    : 0
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("ledgerFile.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          <SettingsSection
+            title={t("ledgerFile.export.title")}
+            description={t("ledgerFile.export.description")}
+          >
+            <View className="gap-3">
+              <RadioGroup
+                value={format}
+                onValueChange={(value) => setFormat(value as LedgerFileFormat)}
+              >
+                <View className="flex-row items-center gap-2 my-1">
+                  <RadioGroup.Item
+                    value="csv"
+                    accessibilityLabel={t("ledgerFile.export.csv")}
+                  />
+                  <Label>{t("ledgerFile.export.csv")}</Label>
+                </View>
+                <View className="flex-row items-center gap-2 my-1">
+                  <RadioGroup.Item
+                    value="json"
+                    accessibilityLabel={t("ledgerFile.export.json")}
+                  />
+                  <Label>{t("ledgerFile.export.json")}</Label>
+                </View>
+              </RadioGroup>
+
+              <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-chip">
+                <View className="flex-1">
+                  <Label>{t("ledgerFile.export.includeDeleted")}</Label>
+                  <Text className="text-xs text-foreground opacity-60 mt-1">
+                    {t("ledgerFile.export.includeDeletedHelp")}
+                  </Text>
+                </View>
+                <Switch
+                  checked={includeDeleted}
+                  onCheckedChange={setIncludeDeleted}
+                  accessibilityLabel={t("ledgerFile.export.includeDeleted")}
+                />
+              </View>
+
+              <Button
+                variant="accent"
+                className="gap-2"
+                onPress={handleExport}
+                disabled={isExporting}
+              >
+                <FileDown size={UI_ICON_SIZE.small} />
+                {t("ledgerFile.export.action")}
+              </Button>
+            </View>
+          </SettingsSection>
+
+          <SettingsSection
+            title={t("ledgerFile.import.title")}
+            description={t("ledgerFile.import.description")}
+          >
+            <View className="gap-3">
+              <Button
+                variant="outline"
+                className="gap-2"
+                onPress={handlePickFile}
+                disabled={isImporting}
+              >
+                <FileUp size={UI_ICON_SIZE.small} color={theme.foreground} />
+                {t("ledgerFile.import.pick")}
+              </Button>
+              <Button
+                variant="outline"
+                className="gap-2"
+                onPress={() => router.push("/settings/import-csv" as Href)}
+              >
+                <Table size={UI_ICON_SIZE.small} color={theme.foreground} />
+                {t("ledgerFile.import.fromOtherApp")}
+              </Button>
+
+              {pending ? (
+                <View className="gap-3 rounded-card bg-surface p-3">
+                  <Text className="font-bold text-foreground" numberOfLines={1}>
+                    {pending.fileName}
+                  </Text>
+                  <View className="gap-1">
+                    <Text className="text-[13px] text-foreground">
+                      {t("ledgerFile.import.preview.added", {
+                        count: pending.preview.added.length,
+                      })}
+                    </Text>
+                    <Text className="text-[13px] text-foreground">
+                      {t("ledgerFile.import.preview.updated", {
+                        count: pending.preview.updated.length,
+                      })}
+                    </Text>
+                    <Text className="text-[13px] text-foreground">
+                      {t("ledgerFile.import.preview.conflicts", {
+                        count: pending.preview.conflicts.length,
+                      })}
+                    </Text>
+                    <Text
+                      className="text-[13px] text-foreground"
+                      style={{ opacity: UI_OPACITY.subtle }}
+                    >
+                      {t("ledgerFile.import.preview.unchanged", {
+                        count: pending.preview.unchangedCount,
+                      })}
+                    </Text>
+                  </View>
+
+                  {pending.preview.conflicts.length > 0 ? (
+                    <Text
+                      className="text-xs text-foreground"
+                      style={{ opacity: UI_OPACITY.subtle }}
+                    >
+                      {t("ledgerFile.import.preview.conflictsHelp")}
+                    </Text>
+                  ) : null}
+
+                  {pending.errors.length > 0 ? (
+                    <View className="gap-1">
+                      <Text className="text-[13px] font-bold text-error">
+                        {t("ledgerFile.import.preview.errors", {
+                          count: pending.errors.length,
+                        })}
+                      </Text>
+                      {pending.errors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+                        <Text key={error.line} className="text-xs text-foreground">
+                          {t("ledgerFile.import.preview.rowError", {
+                            line: error.line,
+                            message: error.message,
+                          })}
+                        </Text>
+                      ))}
+                      {pending.errors.length > MAX_LISTED_ERRORS ? (
+                        <Text
+                          className="text-xs text-foreground"
+                          style={{ opacity: UI_OPACITY.subtle }}
+                        >
+                          {t("ledgerFile.import.preview.moreErrors", {
+                            count: pending.errors.length - MAX_LISTED_ERRORS,
+                          })}
+                        </Text>
+                      ) : null}
+                    </View>
+                  ) : null}
+
+                  <View className="flex-row justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="chip"
+                      onPress={() => setPending(null)}
+                    >
+                      {t("common.cancel")}
+                    </Button>
+                    <Button
+                      variant="accent"
+                      size="chip"
+                      onPress={handleConfirmImport}
+                      disabled={changeCount === 0}
+                    >
+                      {t("ledgerFile.import.confirm", { count: changeCount })}
+                    </Button>
+                  </View>
+                </View>
+              ) : null}
+            </View>
+          </SettingsSection>
+        </View>
+      </ScreenContainer>
+    </>
+  )
+}
@@ -0,0 +1,213 @@
+import { useCallback, useState } from "react"
+import { Stack } from "expo-router"
+import { Alert, Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { Edit3, FileUp, Plus, Trash } from "lucide-react-native"
+import { format, parseISO } from "date-fns"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { IconActionButton } from "../../components/ui/IconActionButton"
+import { ExchangeRateFormModal } from "../../components/ui/ExchangeRateFormModal"
+import { useExchangeRates, useNotifications, useSettings } from "../../stores/hooks"
+import type { ExchangeRateInput } from "../../stores/hooks/use-exchange-rates"
+import type { ExchangeRate } from "../../types/exchange-rate"
+import { parseExchangeRatesCSV } from "../../services/exchange-rates"
+import { pickTextFile } from "../../services/text-file"
+import { UI_ICON_SIZE, UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+
+export default function ExchangeRatesSettingsScreen() {
+  const { t } = useTranslation()
+  const theme = useThemeColors()
+  const { settings } = useSettings()
+  const { addNotification } = useNotifications()
+  const { rates, saveRates, updateRate, deleteRate } = useExchangeRates()
+
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<ExchangeRate | undefined>(undefined)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const handleDelete = useCallback(
+    (rate: ExchangeRate) => {
+      Alert.alert(
+        t("exchangeRates.deleteDialog.title"),
+        t("exchangeRates.deleteDialog.message", { from: rate.from, to: rate.to }),
+        [
+          { text: t("common.cancel"), style: "cancel" },
+          {
+            text: t("common.delete"),
+            style: "destructive",
+            onPress: () => {
+              deleteRate(rate.id)
+              addNotification(t("exchangeRates.notifications.deleted"), "success")
+            },
+          },
+        ]
+      )
+    },
+    [addNotification, deleteRate, t]
+  )
+
+  const handleSave = useCallback(
+    (input: ExchangeRateInput) => {
+      if (editing) {
+        updateRate(editing.id, input)
+        addNotification(t("exchangeRates.notifications.updated"), "success")
+      } else {
+        saveRates([input])
+        addNotification(t("exchangeRates.notifications.added"), "success")
+      }
+      setEditing(undefined)
+    },
+    [addNotification, editing, saveRates, t, updateRate]
+  )
+
+  const handleImport = useCallback(async () => {
+    setIsImporting(true)
+    try {
+      const picked = await pickTextFile()
+      if (!picked.success) {
+        addNotification(
+          picked.error ?? t("exchangeRates.notifications.importFailed"),
+          "error"
+        )
+        return
+      }
+      if (!picked.data) return
+
+      const { rates: imported, errors } = parseExchangeRatesCSV(picked.data.content)
+      if (imported.length === 0) {
+        addNotification(
+          errors[0]?.message ?? t("exchangeRates.notifications.importEmpty"),
+          "error"
+        )
+        return
+      }
+
+      saveRates(imported)
+      addNotification(
+        t("exchangeRates.notifications.imported", { count: imported.length }),
+        "success"
+      )
+      if (errors.length > 0) {
+        addNotification(
+          t("exchangeRates.notifications.skipped", {
+            count: errors.length,
+            lines: errors.map((error) => error.line).join(", "),
+          }),
+          "warning"
+        )
+      }
+    } finally {
+      setIsImporting(false)
+    }
+  }, [addNotification, saveRates, t])
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("exchangeRates.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          <SettingsSection
+            title={t("exchangeRates.title")}
+            description={t("exchangeRates.description", {
+              currency: settings.defaultCurrency,
+            })}
+          >
+            <View className="gap-3">
+              <View className="flex-row justify-end gap-2">
+                <Button
+                  size="chip"
+                  variant="outline"
+                  className="gap-1"
+                  onPress={handleImport}
+                  disabled={isImporting}
+                >
+                  <FileUp size={16} color={theme.foreground} />
+                  {t("exchangeRates.importCsv")}
+                </Button>
+                <Button
+                  size="chip"
+                  className="gap-1"
+                  onPress={() => {
+                    setEditing(undefined)
+                    setFormOpen(true)
+                  }}
+                >
+                  <Plus size={16} color={theme.foreground} />
+                  {t("exchangeRates.add")}
+                </Button>
+              </View>
+
+              <Text
+                className="text-xs text-foreground"
+                style={{ opacity: UI_OPACITY.subtle }}
+              >
+                {t("exchangeRates.importHint")}
+              </Text>
+
+              {rates.length === 0 ? (
+                <Text className="text-foreground" style={{ opacity: UI_OPACITY.subtle }}>
+                  {t("exchangeRates.empty")}
+                </Text>
+              ) : (
+                rates.map((rate) => {
+                  const label = `${rate.from}/${rate.to}`
+                  return (
+                    <View
+                      key={rate.id}
+                      className="flex-row items-center justify-between gap-2 rounded-card bg-surface px-3 py-3"
+                    >
+                      <View className="flex-1 gap-1">
+                        <Text className="text-foreground font-bold" numberOfLines={1}>
+                          1 {rate.from} = {rate.rate} {rate.to}
+                        </Text>
+                        <Text className="text-xs text-foreground opacity-60">
+                          {t("exchangeRates.effectiveFrom", {
+                            date: format(parseISO(rate.effectiveDate), "dd/MM/yyyy"),
+                          })}
+                        </Text>
+                      </View>
+                      <IconActionButton
+                        icon={
+                          <Edit3 size={UI_ICON_SIZE.small} color={theme.foreground} />
+                        }
+                        onPress={() => {
+                          setEditing(rate)
+                          setFormOpen(true)
+                        }}
+                        tooltip={t("common.editLabel", { label })}
+                        accessibilityLabel={t("common.editLabel", { label })}
+                      />
+                      <IconActionButton
+                        icon={
+                          <Trash size={UI_ICON_SIZE.small} color={theme.foreground} />
+                        }
+                        onPress={() => handleDelete(rate)}
+                        tooltip={t("common.deleteLabel", { label })}
+                        accessibilityLabel={t("common.deleteLabel", { label })}
+                      />
+                    </View>
+                  )
+                })
+              )}
+            </View>
+          </SettingsSection>
+        </View>
+      </ScreenContainer>
+
+      <ExchangeRateFormModal
+        open={formOpen}
+        onClose={() => {
+          setFormOpen(false)
+          setEditing(undefined)
+        }}
+        rate={editing}
+        defaultCurrency={settings.defaultCurrency}
+        onSave={handleSave}
+      />
+    </>
+  )
+}
@@ -0,0 +1,625 @@
+/**
+ * CSV Import Wizard
+ *
+ * Imports expense history exported from other apps or banks. The user maps
+ * columns onto expense fields, then foreign category and payment names onto
+ * this app's categories and payment methods. Mappings can be saved as profiles
+ * and are reused automatically for files with the same columns.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Stack, useRouter } from "expo-router"
+import { Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { FileUp, Plus } from "lucide-react-native"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { Input } from "../../components/ui/Input"
+import { Label } from "../../components/ui/Label"
+import { FilterChip, FilterChipBar } from "../../components/analytics/FilterChipBar"
+import {
+  useCategories,
+  useExpenses,
+  useNotifications,
+  useSettings,
+} from "../../stores/hooks"
+import { pickTextFile, CSV_MIME_TYPES } from "../../services/text-file"
+import { CSVTable, parseCSVTable } from "../../services/csv-handler"
+import {
+  CSV_DATE_FORMATS,
+  CSVDateFormat,
+  CSVImportMapping,
+  DecimalSeparator,
+  MAPPED_FIELDS,
+  MappedField,
+  PaymentMapping,
+  REQUIRED_MAPPED_FIELDS,
+  detectColumnMapping,
+  detectDateFormat,
+  detectDecimalSeparator,
+  getDistinctColumnValues,
+  getMappingKey,
+  mapCSVRows,
+  suggestCategoryMap,
+  suggestPaymentMapping,
+} from "../../services/csv-import/column-mapping"
+import {
+  CSVMappingProfile,
+  findProfileForHeaders,
+  loadMappingProfiles,
+  saveMappingProfile,
+} from "../../services/csv-import/mapping-profiles"
+import {
+  formatPaymentInstrumentLabel,
+  getActivePaymentInstruments,
+} from "../../services/payment-instruments"
+import { PAYMENT_METHODS } from "../../constants/payment-methods"
+import { categoryLabelSchema } from "../../utils/category-validation"
+import { UI_ICON_SIZE, UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+
+type WizardStep = "file" | "columns" | "values" | "review"
+
+// Long error reports are cut off; the count is always shown in full
+const MAX_LISTED_ERRORS = 20
+const SAMPLE_ROWS = 20
+
+const EMPTY_MAPPING: CSVImportMapping = {
+  columns: {},
+  dateFormat: "iso",
+  decimalSeparator: ".",
+  categoryMap: {},
+  paymentMap: {},
+}
+
+/** Label a missing category would be created with, or null when it is not a valid label */
+function getNewCategoryLabel(foreignName: string): string | null {
+  const label = foreignName.trim().slice(0, 30)
+  return categoryLabelSchema.safeParse(label).success ? label : null
+}
+
+export default function CsvImportScreen() {
+  const { t } = useTranslation()
+  const router = useRouter()
+  const theme = useThemeColors()
+  const { settings } = useSettings()
+  const { categories, addCategory } = useCategories()
+  const { addExpenses } = useExpenses()
+  const { addNotification } = useNotifications()
+
+  const [step, setStep] = useState<WizardStep>("file")
+  const [fileName, setFileName] = useState("")
+  const [table, setTable] = useState<CSVTable | null>(null)
+  const [mapping, setMapping] = useState<CSVImportMapping>(EMPTY_MAPPING)
+  const [profiles, setProfiles] = useState<CSVMappingProfile[]>([])
+  const [profileName, setProfileName] = useState("")
+  const [isPicking, setIsPicking] = useState(false)
+
+  useEffect(() => {
+    void loadMappingProfiles().then(setProfiles)
+  }, [])
+
+  const instruments = useMemo(
+    () => getActivePaymentInstruments(settings.paymentInstruments ?? []),
+    [settings.paymentInstruments]
+  )
+
+  const foreignCategories = useMemo(
+    () => (table ? getDistinctColumnValues(table.rows, mapping.columns.category) : []),
+    [table, mapping.columns.category]
+  )
+  const foreignPayments = useMemo(
+    () =>
+      table ? getDistinctColumnValues(table.rows, mapping.columns.paymentMethod) : [],
+    [table, mapping.columns.paymentMethod]
+  )
+  const categoryLabels = useMemo(
+    () => new Set(categories.map((category) => category.label)),
+    [categories]
+  )
+
+  const mapped = useMemo(
+    () =>
+      table
+        ? mapCSVRows(table.rows, mapping, {
+            category: "Other",
+            currency: settings.defaultCurrency,
+          })
+        : null,
+    [table, mapping, settings.defaultCurrency]
+  )
+
+  const handlePickFile = useCallback(async () => {
+    setIsPicking(true)
+    try {
+      const picked = await pickTextFile(CSV_MIME_TYPES)
+      if (!picked.success) {
+        addNotification(picked.error ?? t("ledgerFile.import.failed"), "error")
+        return
+      }
+      if (!picked.data) return
+
+      const parsed = parseCSVTable(picked.data.content)
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        addNotification(t("csvImport.emptyFile"), "error")
+        return
+      }
+
+      const profile = findProfileForHeaders(profiles, parsed.headers)
+      if (profile) {
+        setMapping(profile.mapping)
+        setProfileName(profile.name)
+      } else {
+        const columns = detectColumnMapping(parsed.headers)
+        const samples = parsed.rows.slice(0, SAMPLE_ROWS)
+        const read = (column: string | undefined) =>
+          column ? samples.map((row) => row.values[column] ?? "") : []
+        setMapping({
+          columns,
+          dateFormat: detectDateFormat(read(columns.date)),
+          decimalSeparator: detectDecimalSeparator(read(columns.amount)),
+          categoryMap: {},
+          paymentMap: {},
+        })
+        setProfileName("")
+      }
+
+      setFileName(picked.data.name)
+      setTable(parsed)
+      setStep("columns")
+    } finally {
+      setIsPicking(false)
+    }
+  }, [addNotification, profiles, t])
+
+  const setColumn = useCallback((field: MappedField, header: string | undefined) => {
+    setMapping((prev) => ({ ...prev, columns: { ...prev.columns, [field]: header } }))
+  }, [])
+
+  const handleColumnsNext = useCallback(() => {
+    // Fill in suggestions for values the mapping does not cover yet
+    setMapping((prev) => {
+      const categoryMap = { ...suggestCategoryMap(foreignCategories, categories) }
+      const paymentMap: Record<string, PaymentMapping> = {}
+      for (const value of foreignPayments) {
+        const suggestion = suggestPaymentMapping(value, instruments)
+        if (suggestion) paymentMap[getMappingKey(value)] = suggestion
+      }
+      return {
+        ...prev,
+        categoryMap: { ...categoryMap, ...prev.categoryMap },
+        paymentMap: { ...paymentMap, ...prev.paymentMap },
+      }
+    })
+    setStep("values")
+  }, [categories, foreignCategories, foreignPayments, instruments])
+
+  const setCategoryTarget = useCallback(
+    (foreignName: string, label: string | undefined) => {
+      setMapping((prev) => {
+        const categoryMap = { ...prev.categoryMap }
+        if (label) {
+          categoryMap[getMappingKey(foreignName)] = label
+        } else {
+          delete categoryMap[getMappingKey(foreignName)]
+        }
+        return { ...prev, categoryMap }
+      })
+    },
+    []
+  )
+
+  const handleCreateMissingCategories = useCallback(() => {
+    setMapping((prev) => {
+      const categoryMap = { ...prev.categoryMap }
+      for (const name of foreignCategories) {
+        const label = getNewCategoryLabel(name)
+        if (label && !categoryMap[getMappingKey(name)]) {
+          categoryMap[getMappingKey(name)] = label
+        }
+      }
+      return { ...prev, categoryMap }
+    })
+  }, [foreignCategories])
+
+  const setPaymentTarget = useCallback(
+    (value: string, target: PaymentMapping | undefined) => {
+      setMapping((prev) => {
+        const paymentMap = { ...prev.paymentMap }
+        if (target) {
+          paymentMap[getMappingKey(value)] = target
+        } else {
+          delete paymentMap[getMappingKey(value)]
+        }
+        return { ...prev, paymentMap }
+      })
+    },
+    []
+  )
+
+  const handleImport = useCallback(async () => {
+    if (!table || !mapped || mapped.expenses.length === 0) return
+
+    // Create categories the mapping points at that do not exist yet
+    const used = new Set(mapped.expenses.map((expense) => expense.category))
+    for (const label of used) {
+      if (!categoryLabels.has(label)) {
+        addCategory({ label, icon: "Circle", color: "", isDefault: false })
+      }
+    }
+
+    addExpenses(mapped.expenses)
+
+    if (profileName.trim()) {
+      try {
+        const existing = profiles.find(
+          (profile) =>
+            profile.name.trim().toLowerCase() === profileName.trim().toLowerCase()
+        )
+        setProfiles(
+          await saveMappingProfile({
+            id: existing?.id ?? `${Date.now()}`,
+            name: profileName.trim(),
+            headers: table.headers,
+            mapping,
+            updatedAt: new Date().toISOString(),
+          })
+        )
+      } catch {
+        addNotification(t("csvImport.profileSaveFailed"), "error")
+      }
+    }
+
+    addNotification(t("csvImport.imported", { count: mapped.expenses.length }), "success")
+    router.back()
+  }, [
+    addCategory,
+    addExpenses,
+    addNotification,
+    categoryLabels,
+    mapped,
+    mapping,
+    profileName,
+    profiles,
+    router,
+    t,
+    table,
+  ])
+
+  const missingRequired = REQUIRED_MAPPED_FIELDS.filter(
+    (field) => !mapping.columns[field]
+  )
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("csvImport.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          {step === "file" ? (
+            <SettingsSection
+              title={t("csvImport.steps.file")}
+              description={t("csvImport.fileDescription")}
+            >
+              <Button
+                variant="accent"
+                className="gap-2"
+                onPress={handlePickFile}
+                disabled={isPicking}
+              >
+                <FileUp size={UI_ICON_SIZE.small} />
+                {t("ledgerFile.import.pick")}
+              </Button>
+              {profiles.length > 0 ? (
+                <Text
+                  className="text-xs text-foreground"
+                  style={{ opacity: UI_OPACITY.subtle }}
+                >
+                  {t("csvImport.savedProfiles", {
+                    names: profiles.map((profile) => profile.name).join(", "),
+                  })}
+                </Text>
+              ) : null}
+            </SettingsSection>
+          ) : null}
+
+          {step === "columns" && table ? (
+            <SettingsSection
+              title={t("csvImport.steps.columns")}
+              description={t("csvImport.columnsDescription", {
+                name: fileName,
+                count: table.rows.length,
+              })}
+            >
+              {MAPPED_FIELDS.map((field) => (
+                <View key={field}>
+                  <Label className="mb-2">
+                    {t(`csvImport.fields.${field}`)}
+                    {REQUIRED_MAPPED_FIELDS.includes(field)
+                      ? ` (${t("common.required")})`
+                      : ""}
+                  </Label>
+                  <FilterChipBar>
+                    {REQUIRED_MAPPED_FIELDS.includes(field) ? null : (
+                      <FilterChip
+                        label={t("common.none")}
+                        selected={!mapping.columns[field]}
+                        onPress={() => setColumn(field, undefined)}
+                      />
+                    )}
+                    {table.headers.map((header) => (
+                      <FilterChip
+                        key={header}
+                        label={header}
+                        selected={mapping.columns[field] === header}
+                        onPress={() => setColumn(field, header)}
+                      />
+                    ))}
+                  </FilterChipBar>
+                </View>
+              ))}
+
+              <View>
+                <Label className="mb-2">{t("csvImport.dateFormat")}</Label>
+                <FilterChipBar>
+                  {CSV_DATE_FORMATS.map((format) => (
+                    <FilterChip
+                      key={format}
+                      label={format === "iso" ? t("csvImport.isoDate") : format}
+                      selected={mapping.dateFormat === format}
+                      onPress={() =>
+                        setMapping((prev) => ({
+                          ...prev,
+                          dateFormat: format as CSVDateFormat,
+                        }))
+                      }
+                    />
+                  ))}
+                </FilterChipBar>
+              </View>
+
+              <View>
+                <Label className="mb-2">{t("csvImport.decimalSeparator")}</Label>
+                <FilterChipBar>
+                  {([".", ","] as DecimalSeparator[]).map((separator) => (
+                    <FilterChip
+                      key={separator}
+                      label={t(
+                        separator === "."
+                          ? "csvImport.decimalDot"
+                          : "csvImport.decimalComma"
+                      )}
+                      selected={mapping.decimalSeparator === separator}
+                      onPress={() =>
+                        setMapping((prev) => ({ ...prev, decimalSeparator: separator }))
+                      }
+                    />
+                  ))}
+                </FilterChipBar>
+              </View>
+
+              {missingRequired.length > 0 ? (
+                <Text className="text-xs text-error">
+                  {t("csvImport.missingRequired", {
+                    fields: missingRequired
+                      .map((field) => t(`csvImport.fields.${field}`))
+                      .join(", "),
+                  })}
+                </Text>
+              ) : null}
+
+              <View className="flex-row justify-between gap-2">
+                <Button variant="outline" onPress={() => setStep("file")}>
+                  {t("csvImport.back")}
+                </Button>
+                <Button
+                  variant="accent"
+                  onPress={handleColumnsNext}
+                  disabled={missingRequired.length > 0}
+                >
+                  {t("csvImport.next")}
+                </Button>
+              </View>
+            </SettingsSection>
+          ) : null}
+
+          {step === "values" ? (
+            <SettingsSection
+              title={t("csvImport.steps.values")}
+              description={t("csvImport.valuesDescription")}
+            >
+              {foreignCategories.length > 0 ? (
+                <View className="gap-2">
+                  <View className="flex-row items-center justify-between">
+                    <Label>{t("csvImport.fields.category")}</Label>
+                    <Button
+                      size="chip"
+                      variant="outline"
+                      className="gap-1"
+                      onPress={handleCreateMissingCategories}
+                    >
+                      <Plus size={UI_ICON_SIZE.small} color={theme.foreground} />
+                      {t("csvImport.createMissing")}
+                    </Button>
+                  </View>
+                  {foreignCategories.map((name) => {
+                    const target = mapping.categoryMap[getMappingKey(name)]
+                    const newLabel = getNewCategoryLabel(name)
+                    const isNew = !!target && !categoryLabels.has(target)
+                    return (
+                      <View key={name}>
+                        <Text className="mb-1 text-[13px] font-bold text-foreground">
+                          {name}
+                        </Text>
+                        <FilterChipBar>
+                          {categories.map((category) => (
+                            <FilterChip
+                              key={category.label}
+                              label={
+                                category.label === "Other"
+                                  ? t("settings.categories.other")
+                                  : category.label
+                              }
+                              selected={
+                                target === category.label ||
+                                (!target && category.label === "Other")
+                              }
+                              onPress={() =>
+                                setCategoryTarget(
+                                  name,
+                                  category.label === "Other" ? undefined : category.label
+                                )
+                              }
+                            />
+                          ))}
+                          {newLabel && !categoryLabels.has(newLabel) ? (
+                            <FilterChip
+                              label={t("csvImport.createCategory", { name: newLabel })}
+                              selected={isNew}
+                              onPress={() => setCategoryTarget(name, newLabel)}
+                              Icon={Plus}
+                            />
+                          ) : null}
+                        </FilterChipBar>
+                      </View>
+                    )
+                  })}
+                </View>
+              ) : null}
+
+              {foreignPayments.length > 0 ? (
+                <View className="gap-2">
+                  <Label>{t("csvImport.fields.paymentMethod")}</Label>
+                  {foreignPayments.map((value) => {
+                    const target = mapping.paymentMap[getMappingKey(value)]
+                    return (
+                      <View key={value}>
+                        <Text className="mb-1 text-[13px] font-bold text-foreground">
+                          {value}
+                        </Text>
+                        <FilterChipBar>
+                          <FilterChip
+                            label={t("common.none")}
+                            selected={!target}
+                            onPress={() => setPaymentTarget(value, undefined)}
+                          />
+                          {instruments.map((instrument) => (
+                            <FilterChip
+                              key={instrument.id}
+                              label={formatPaymentInstrumentLabel(instrument)}
+                              selected={target?.instrumentId === instrument.id}
+                              onPress={() =>
+                                setPaymentTarget(value, {
+                                  type: instrument.method,
+                                  instrumentId: instrument.id,
+                                })
+                              }
+                            />
+                          ))}
+                          {PAYMENT_METHODS.map((method) => (
+                            <FilterChip
+                              key={method.value}
+                              label={t(`paymentMethods.${method.i18nKey}`)}
+                              selected={
+                                !!target &&
+                                !target.instrumentId &&
+                                target.type === method.value
+                              }
+                              onPress={() =>
+                                setPaymentTarget(value, { type: method.value })
+                              }
+                            />
+                          ))}
+                        </FilterChipBar>
+                      </View>
+                    )
+                  })}
+                </View>
+              ) : null}
+
+              {foreignCategories.length === 0 && foreignPayments.length === 0 ? (
+                <Text
+                  className="text-[13px] text-foreground"
+                  style={{ opacity: UI_OPACITY.subtle }}
+                >
+                  {t("csvImport.nothingToMap")}
+                </Text>
+              ) : null}
+
+              <View className="flex-row justify-between gap-2">
+                <Button variant="outline" onPress={() => setStep("columns")}>
+                  {t("csvImport.back")}
+                </Button>
+                <Button variant="accent" onPress={() => setStep("review")}>
+                  {t("csvImport.next")}
+                </Button>
+              </View>
+            </SettingsSection>
+          ) : null}
+
+          {step === "review" && table && mapped ? (
+            <SettingsSection
+              title={t("csvImport.steps.review")}
+              description={t("csvImport.reviewDescription")}
+            >
+              <Text className="text-[13px] text-foreground">
+                {t("csvImport.readyCount", { count: mapped.expenses.length })}
+              </Text>
+
+              {[...table.errors, ...mapped.errors].length > 0 ? (
+                <View className="gap-1">
+                  <Text className="text-[13px] font-bold text-error">
+                    {t("ledgerFile.import.preview.errors", {
+                      count: table.errors.length + mapped.errors.length,
+                    })}
+                  </Text>
+                  {[...table.errors, ...mapped.errors]
+                    .sort((a, b) => a.line - b.line)
+                    .slice(0, MAX_LISTED_ERRORS)
+                    .map((error) => (
+                      <Text key={error.line} className="text-xs text-foreground">
+                        {t("ledgerFile.import.preview.rowError", {
+                          line: error.line,
+                          message: error.message,
+                        })}
+                      </Text>
+                    ))}
+                </View>
+              ) : null}
+
+              <View className="gap-2">
+                <Label>{t("csvImport.profileName")}</Label>
+                <Input
+                  value={profileName}
+                  onChangeText={setProfileName}
+                  placeholder={t("csvImport.profileNamePlaceholder")}
+                  accessibilityLabel={t("csvImport.profileName")}
+                />
+                <Text
+                  className="text-xs text-foreground"
+                  style={{ opacity: UI_OPACITY.subtle }}
+                >
+                  {t("csvImport.profileHelp")}
+                </Text>
+              </View>
+
+              <View className="flex-row justify-between gap-2">
+                <Button variant="outline" onPress={() => setStep("values")}>
+                  {t("csvImport.back")}
+                </Button>
+                <Button
+                  variant="accent"
+                  onPress={handleImport}
+                  disabled={mapped.expenses.length === 0}
+                >
+                  {t("csvImport.import", { count: mapped.expenses.length })}
+                </Button>
+              </View>
+            </SettingsSection>
+          ) : null}
+        </View>
+      </ScreenContainer>
+    </>
+  )
+}
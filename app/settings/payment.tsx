@@ -108,6 +108,9 @@ export default function PaymentSettingsScreen() {
           icon: categoryData.icon,
           color: categoryData.color,
           isDefault: categoryData.isDefault,
+          // 0 clears a previously set budget (undefined would not survive the sync queue)
+          monthlyBudget:
+            categoryData.monthlyBudget ?? (editingCategory.monthlyBudget ? 0 : undefined),
         })
         addNotification(
           t("settings.notifications.categoryUpdated", { label: categoryData.label }),
@@ -227,6 +230,7 @@ export default function PaymentSettingsScreen() {
         }}
         category={editingCategory}
         existingLabels={existingCategoryLabels}
+        budgetCurrency={settings.defaultCurrency}
         onSave={handleCategorySave}
       />
     </>
@@ -0,0 +1,171 @@
+import { useCallback, useState } from "react"
+import { Stack } from "expo-router"
+import { Alert, Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { Edit3, Plus, Trash } from "lucide-react-native"
+import { format } from "date-fns"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { IconActionButton } from "../../components/ui/IconActionButton"
+import { RecurringTemplateFormModal } from "../../components/ui/RecurringTemplateFormModal"
+import { useNotifications, useRecurringTemplates, useSettings } from "../../stores/hooks"
+import type { RecurringTemplateInput } from "../../stores/hooks/use-recurring-templates"
+import type { RecurringExpenseTemplate } from "../../types/recurring-expense"
+import { getNextOccurrenceDate } from "../../services/recurring-expenses"
+import { formatCurrency } from "../../utils/currency"
+import { UI_ICON_SIZE, UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+
+export default function RecurringSettingsScreen() {
+  const { t } = useTranslation()
+  const theme = useThemeColors()
+  const { settings } = useSettings()
+  const { addNotification } = useNotifications()
+  const { templates, addTemplate, updateTemplate, deleteTemplate } =
+    useRecurringTemplates()
+
+  const [formOpen, setFormOpen] = useState(false)
+  const [editing, setEditing] = useState<RecurringExpenseTemplate | undefined>(undefined)
+
+  const getScheduleLabel = useCallback(
+    (template: RecurringExpenseTemplate) =>
+      template.frequency === "custom"
+        ? t(`recurring.customSummary.${template.customUnit ?? "day"}`, {
+            count: template.interval,
+          })
+        : t(`recurring.frequency.${template.frequency}`),
+    [t]
+  )
+
+  const getNextLabel = useCallback(
+    (template: RecurringExpenseTemplate) => {
+      const next = getNextOccurrenceDate(template)
+      return next
+        ? t("recurring.nextOn", { date: format(next, "dd/MM/yyyy") })
+        : t("recurring.ended")
+    },
+    [t]
+  )
+
+  const handleDelete = useCallback(
+    (template: RecurringExpenseTemplate) => {
+      Alert.alert(
+        t("recurring.deleteDialog.title"),
+        t("recurring.deleteDialog.message"),
+        [
+          { text: t("common.cancel"), style: "cancel" },
+          {
+            text: t("common.delete"),
+            style: "destructive",
+            onPress: () => {
+              deleteTemplate(template.id)
+              addNotification(t("recurring.notifications.deleted"), "success")
+            },
+          },
+        ]
+      )
+    },
+    [addNotification, deleteTemplate, t]
+  )
+
+  const handleSave = useCallback(
+    (input: RecurringTemplateInput, options: { updateExistingExpenses: boolean }) => {
+      if (editing) {
+        updateTemplate(editing.id, input, options)
+        addNotification(t("recurring.notifications.updated"), "success")
+      } else {
+        addTemplate(input)
+        addNotification(t("recurring.notifications.added"), "success")
+      }
+      setEditing(undefined)
+    },
+    [addNotification, addTemplate, editing, t, updateTemplate]
+  )
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("recurring.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          <SettingsSection
+            title={t("recurring.title")}
+            description={t("recurring.description")}
+          >
+            <View className="gap-3">
+              <View className="flex-row justify-end">
+                <Button
+                  size="chip"
+                  className="gap-1"
+                  onPress={() => {
+                    setEditing(undefined)
+                    setFormOpen(true)
+                  }}
+                >
+                  <Plus size={16} color={theme.foreground} />
+                  {t("recurring.add")}
+                </Button>
+              </View>
+
+              {templates.length === 0 ? (
+                <Text className="text-foreground" style={{ opacity: UI_OPACITY.subtle }}>
+                  {t("recurring.empty")}
+                </Text>
+              ) : (
+                templates.map((template) => {
+                  const label = template.note || template.category
+                  return (
+                    <View
+                      key={template.id}
+                      className="flex-row items-center justify-between gap-2 rounded-card bg-surface px-3 py-3"
+                    >
+                      <View className="flex-1 gap-1">
+                        <Text className="text-foreground font-bold" numberOfLines={1}>
+                          {formatCurrency(template.amount, template.currency)} · {label}
+                        </Text>
+                        <Text className="text-xs text-foreground opacity-60">
+                          {getScheduleLabel(template)} · {getNextLabel(template)}
+                        </Text>
+                      </View>
+                      <IconActionButton
+                        icon={
+                          <Edit3 size={UI_ICON_SIZE.small} color={theme.foreground} />
+                        }
+                        onPress={() => {
+                          setEditing(template)
+                          setFormOpen(true)
+                        }}
+                        tooltip={t("common.editLabel", { label })}
+                        accessibilityLabel={t("common.editLabel", { label })}
+                      />
+                      <IconActionButton
+                        icon={
+                          <Trash size={UI_ICON_SIZE.small} color={theme.foreground} />
+                        }
+                        onPress={() => handleDelete(template)}
+                        tooltip={t("common.deleteLabel", { label })}
+                        accessibilityLabel={t("common.deleteLabel", { label })}
+                      />
+                    </View>
+                  )
+                })
+              )}
+            </View>
+          </SettingsSection>
+        </View>
+      </ScreenContainer>
+
+      <RecurringTemplateFormModal
+        open={formOpen}
+        onClose={() => {
+          setFormOpen(false)
+          setEditing(undefined)
+        }}
+        template={editing}
+        defaultCurrency={settings.defaultCurrency}
+        onSave={handleSave}
+      />
+    </>
+  )
+}
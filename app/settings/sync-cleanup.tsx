@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useState } from "react"
+import { Stack } from "expo-router"
+import { Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { Label } from "../../components/ui/Label"
+import { RadioGroup } from "../../components/ui/RadioGroup"
+import { Spinner } from "../../components/ui/Spinner"
+import { useNotifications, useSettings } from "../../stores/hooks"
+import {
+  TOMBSTONE_RETENTION_DAYS,
+  loadTombstonePolicy,
+  saveTombstoneRetention,
+  type TombstonePolicy,
+} from "../../services/tombstone-gc"
+import { formatDate } from "../../utils/date"
+import { UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+
+export default function SyncCleanupScreen() {
+  const { t } = useTranslation()
+  const { syncConfig } = useSettings()
+  const { addNotification } = useNotifications()
+
+  const [current, setCurrent] = useState<TombstonePolicy | null>(null)
+  const [selected, setSelected] = useState(0)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!syncConfig) return
+    void loadTombstonePolicy(syncConfig).then((result) => {
+      if (result.success && result.data) {
+        setCurrent(result.data)
+        setSelected(result.data.retentionDays)
+      } else {
+        addNotification(result.error ?? t("tombstones.errors.loadFailed"), "error")
+      }
+    })
+  }, [addNotification, syncConfig, t])
+
+  const handleSave = useCallback(async () => {
+    if (!syncConfig) return
+    setIsSaving(true)
+    try {
+      const result = await saveTombstoneRetention(syncConfig, selected)
+      if (!result.success || !result.data) {
+        addNotification(result.error ?? t("tombstones.errors.saveFailed"), "error")
+        return
+      }
+      setCurrent(result.data)
+      addNotification(t("tombstones.saved"), "success")
+    } finally {
+      setIsSaving(false)
+    }
+  }, [addNotification, selected, syncConfig, t])
+
+  // A policy file written by another device may use a period not offered here
+  const options =
+    current &&
+    !(TOMBSTONE_RETENTION_DAYS as readonly number[]).includes(current.retentionDays)
+      ? [...TOMBSTONE_RETENTION_DAYS, current.retentionDays]
+      : [...TOMBSTONE_RETENTION_DAYS]
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("tombstones.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          {!syncConfig ? (
+            <SettingsSection title={t("tombstones.title")}>
+              <Text className="text-sm text-foreground">
+                {t("tombstones.notConfigured")}
+              </Text>
+            </SettingsSection>
+          ) : (
+            <SettingsSection
+              title={t("tombstones.title")}
+              description={t("tombstones.description")}
+            >
+              {current === null ? (
+                <Spinner />
+              ) : (
+                <View className="gap-3">
+                  <RadioGroup
+                    value={String(selected)}
+                    onValueChange={(value) => setSelected(Number(value))}
+                  >
+                    {options.map((days) => {
+                      const label =
+                        days > 0
+                          ? t("tombstones.options.days", { count: days })
+                          : t("tombstones.options.forever")
+                      return (
+                        <View key={days} className="flex-row items-center gap-2 my-1">
+                          <RadioGroup.Item
+                            value={String(days)}
+                            accessibilityLabel={label}
+                          />
+                          <Label>
+                            {label}
+                            {days === current.retentionDays
+                              ? ` · ${t("tombstones.current")}`
+                              : ""}
+                          </Label>
+                        </View>
+                      )
+                    })}
+                  </RadioGroup>
+
+                  <Text
+                    className="text-xs text-foreground"
+                    style={{ opacity: UI_OPACITY.subtle }}
+                  >
+                    {current.purgedBefore
+                      ? t("tombstones.purgedBefore", {
+                          date: formatDate(current.purgedBefore, "dd/MM/yyyy"),
+                        })
+                      : t("tombstones.nothingPurged")}
+                  </Text>
+
+                  <Button
+                    variant="accent"
+                    onPress={() => void handleSave()}
+                    disabled={selected === current.retentionDays || isSaving}
+                  >
+                    {isSaving ? t("tombstones.saving") : t("tombstones.save")}
+                  </Button>
+                </View>
+              )}
+            </SettingsSection>
+          )}
+        </View>
+      </ScreenContainer>
+    </>
+  )
+}
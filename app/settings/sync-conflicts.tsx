@@ -0,0 +1,317 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { Stack, useRouter } from "expo-router"
+import { Pressable, Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { Check } from "lucide-react-native"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { Label } from "../../components/ui/Label"
+import { Switch } from "../../components/ui/Switch"
+import { useSettings } from "../../stores/hooks"
+import { useSyncMachine, ConflictResolution } from "../../hooks/use-sync-machine"
+import {
+  getDifferingFields,
+  resolveConflictFields,
+  type ConflictFieldChoices,
+  type ExpenseMergeField,
+  type TrueConflict,
+} from "../../services/merge-engine"
+import { formatCurrency } from "../../utils/currency"
+import { formatDate } from "../../utils/date"
+import { formatPaymentMethodDisplay } from "../../utils/payment-method-display"
+import { cn } from "../../utils/cn"
+import { UI_ICON_SIZE, UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+import type { Expense } from "../../types/expense"
+import type { PaymentInstrument } from "../../types/payment-instrument"
+
+/** Fields shown side by side; the rest follow the default merge */
+const DIFF_FIELDS = ["amount", "category", "date", "note", "paymentMethod"] as const
+
+type DiffField = (typeof DIFF_FIELDS)[number]
+
+interface ConflictDraft {
+  keepBoth: boolean
+  fields: ConflictFieldChoices
+}
+
+function formatField(
+  expense: Expense,
+  field: DiffField,
+  instruments: PaymentInstrument[]
+): string {
+  switch (field) {
+    case "amount":
+      return formatCurrency(expense.amount, expense.currency)
+    case "category":
+      return expense.category
+    case "date":
+      return formatDate(expense.date, "dd/MM/yyyy")
+    case "note":
+      return expense.note || "—"
+    case "paymentMethod":
+      return formatPaymentMethodDisplay(expense.paymentMethod, instruments) ?? "—"
+  }
+}
+
+/** Every differing field taken from one side */
+function pickAll(conflict: TrueConflict, side: "local" | "remote"): ConflictFieldChoices {
+  return Object.fromEntries(
+    getDifferingFields(conflict.localVersion, conflict.remoteVersion).map((field) => [
+      field,
+      side,
+    ])
+  )
+}
+
+function toResolution(conflict: TrueConflict, draft: ConflictDraft): ConflictResolution {
+  return {
+    expenseId: conflict.expenseId,
+    choice: draft.keepBoth ? "both" : { fields: draft.fields },
+  }
+}
+
+export default function SyncConflictsScreen() {
+  const { t } = useTranslation()
+  const router = useRouter()
+  const theme = useThemeColors()
+  const { settings } = useSettings()
+  const syncMachine = useSyncMachine()
+  const conflicts = useMemo(
+    () => syncMachine.pendingConflicts ?? [],
+    [syncMachine.pendingConflicts]
+  )
+  const instruments = settings.paymentInstruments ?? []
+
+  const [drafts, setDrafts] = useState<Record<string, ConflictDraft>>({})
+  const getDraft = (conflict: TrueConflict): ConflictDraft =>
+    drafts[conflict.expenseId] ?? { keepBoth: false, fields: {} }
+  const updateDraft = (conflict: TrueConflict, patch: Partial<ConflictDraft>) =>
+    setDrafts((current) => ({
+      ...current,
+      [conflict.expenseId]: { ...getDraft(conflict), ...patch },
+    }))
+
+  // Leaving the screen any other way cancels the paused sync
+  const isConflictRef = useRef(syncMachine.isConflict)
+  isConflictRef.current = syncMachine.isConflict
+  const cancelRef = useRef(syncMachine.cancel)
+  cancelRef.current = syncMachine.cancel
+  useEffect(
+    () => () => {
+      if (isConflictRef.current) {
+        cancelRef.current()
+      }
+    },
+    []
+  )
+
+  const handleApply = useCallback(() => {
+    syncMachine.resolveConflicts(
+      conflicts.map((conflict) =>
+        toResolution(
+          conflict,
+          drafts[conflict.expenseId] ?? { keepBoth: false, fields: {} }
+        )
+      )
+    )
+    router.back()
+  }, [conflicts, drafts, router, syncMachine])
+
+  const handleCancel = useCallback(() => {
+    syncMachine.cancel()
+    router.back()
+  }, [router, syncMachine])
+
+  const fieldLabel = (field: ExpenseMergeField) => t(`syncConflicts.fields.${field}`)
+
+  return (
+    <>
+      <Stack.Screen
+        options={{ title: t("settings.conflicts.title", { count: conflicts.length }) }}
+      />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          {conflicts.length === 0 ? (
+            <SettingsSection title={t("syncConflicts.title")}>
+              <Text className="text-sm text-foreground">{t("syncConflicts.empty")}</Text>
+            </SettingsSection>
+          ) : (
+            <>
+              <Text
+                className="text-sm text-foreground"
+                style={{ opacity: UI_OPACITY.subtle }}
+              >
+                {t("syncConflicts.description")}
+              </Text>
+
+              {conflicts.map((conflict) => {
+                const draft = getDraft(conflict)
+                const preview = resolveConflictFields(conflict, draft.fields)
+                const differing = getDifferingFields(
+                  conflict.localVersion,
+                  conflict.remoteVersion
+                )
+                const otherFields = differing.filter(
+                  (field) =>
+                    !(DIFF_FIELDS as readonly ExpenseMergeField[]).includes(field)
+                )
+
+                return (
+                  <SettingsSection
+                    key={conflict.expenseId}
+                    title={
+                      conflict.remoteVersion.note ||
+                      conflict.localVersion.note ||
+                      t("syncConflicts.untitled")
+                    }
+                  >
+                    <View className="gap-3">
+                      <View className="flex-row gap-2">
+                        <View className="w-24" />
+                        <Label className="flex-1">{t("syncConflicts.local")}</Label>
+                        <Label className="flex-1">{t("syncConflicts.remote")}</Label>
+                      </View>
+
+                      {DIFF_FIELDS.map((field) => {
+                        const localValue = formatField(
+                          conflict.localVersion,
+                          field,
+                          instruments
+                        )
+                        const remoteValue = formatField(
+                          conflict.remoteVersion,
+                          field,
+                          instruments
+                        )
+                        const isDifferent = differing.includes(field)
+                        const selected = getDifferingFields(
+                          preview,
+                          conflict.localVersion
+                        ).includes(field)
+                          ? "remote"
+                          : "local"
+
+                        return (
+                          <View key={field} className="flex-row items-center gap-2">
+                            <Text
+                              className="w-24 text-xs text-foreground"
+                              style={{ opacity: UI_OPACITY.subtle }}
+                            >
+                              {fieldLabel(field)}
+                            </Text>
+                            {(["local", "remote"] as const).map((side) => {
+                              const isSelected =
+                                isDifferent && !draft.keepBoth && selected === side
+                              return (
+                                <Pressable
+                                  key={side}
+                                  disabled={!isDifferent || draft.keepBoth}
+                                  onPress={() =>
+                                    updateDraft(conflict, {
+                                      fields: { ...draft.fields, [field]: side },
+                                    })
+                                  }
+                                  accessibilityRole="radio"
+                                  accessibilityState={{ selected: isSelected }}
+                                  accessibilityLabel={`${fieldLabel(field)}: ${
+                                    side === "local" ? localValue : remoteValue
+                                  }`}
+                                  className={cn(
+                                    "flex-1 flex-row items-center gap-1 rounded-control border px-2 py-1",
+                                    isSelected ? "border-accent" : "border-border"
+                                  )}
+                                >
+                                  <Text
+                                    className="flex-1 text-sm text-foreground"
+                                    numberOfLines={2}
+                                  >
+                                    {side === "local" ? localValue : remoteValue}
+                                  </Text>
+                                  {isSelected ? (
+                                    <Check
+                                      size={UI_ICON_SIZE.small}
+                                      color={theme.accent}
+                                    />
+                                  ) : null}
+                                </Pressable>
+                              )
+                            })}
+                          </View>
+                        )
+                      })}
+
+                      {otherFields.length > 0 ? (
+                        <Text
+                          className="text-xs text-foreground"
+                          style={{ opacity: UI_OPACITY.subtle }}
+                        >
+                          {t("syncConflicts.otherFields", {
+                            fields: otherFields.map(fieldLabel).join(", "),
+                          })}
+                        </Text>
+                      ) : null}
+
+                      <View className="flex-row gap-2">
+                        <Button
+                          variant="outline"
+                          size="chip"
+                          disabled={draft.keepBoth}
+                          onPress={() =>
+                            updateDraft(conflict, { fields: pickAll(conflict, "local") })
+                          }
+                        >
+                          {t("settings.conflicts.keepLocal")}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="chip"
+                          disabled={draft.keepBoth}
+                          onPress={() =>
+                            updateDraft(conflict, { fields: pickAll(conflict, "remote") })
+                          }
+                        >
+                          {t("settings.conflicts.keepRemote")}
+                        </Button>
+                      </View>
+
+                      <View className="flex-row items-center justify-between gap-3">
+                        <View className="flex-1">
+                          <Label>{t("syncConflicts.keepBoth")}</Label>
+                          <Text
+                            className="text-xs text-foreground"
+                            style={{ opacity: UI_OPACITY.subtle }}
+                          >
+                            {t("syncConflicts.keepBothHelp")}
+                          </Text>
+                        </View>
+                        <Switch
+                          checked={draft.keepBoth}
+                          onCheckedChange={(keepBoth) =>
+                            updateDraft(conflict, { keepBoth })
+                          }
+                          accessibilityLabel={t("syncConflicts.keepBoth")}
+                        />
+                      </View>
+                    </View>
+                  </SettingsSection>
+                )
+              })}
+
+              <View className="flex-row justify-end gap-2">
+                <Button variant="outline" onPress={handleCancel}>
+                  {t("common.cancel")}
+                </Button>
+                <Button variant="accent" onPress={handleApply}>
+                  {t("syncConflicts.apply")}
+                </Button>
+              </View>
+            </>
+          )}
+        </View>
+      </ScreenContainer>
+    </>
+  )
+}
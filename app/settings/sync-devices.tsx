@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from "react"
+import { Stack } from "expo-router"
+import { Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { Input } from "../../components/ui/Input"
+import { Label } from "../../components/ui/Label"
+import { Spinner } from "../../components/ui/Spinner"
+import { useNotifications, useSettings } from "../../stores/hooks"
+import {
+  getDeviceId,
+  getDeviceName,
+  getSystemDeviceName,
+  setDeviceName,
+} from "../../services/device-identity"
+import {
+  getSyncDevices,
+  loadSyncHistory,
+  refreshSyncHistory,
+  type SyncDevice,
+} from "../../services/sync-history"
+import { formatDate } from "../../utils/date"
+import { UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+
+export default function SyncDevicesScreen() {
+  const { t } = useTranslation()
+  const { syncConfig } = useSettings()
+  const { addNotification } = useNotifications()
+
+  const deviceId = getDeviceId()
+  const [savedName, setSavedName] = useState(getDeviceName)
+  const [name, setName] = useState(savedName)
+  const [devices, setDevices] = useState<SyncDevice[] | null>(null)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!syncConfig) return
+    setIsRefreshing(true)
+    try {
+      const result = await refreshSyncHistory(syncConfig)
+      if (result.success && result.data) {
+        setDevices(getSyncDevices(result.data))
+      } else {
+        addNotification(result.error ?? t("syncHistory.errors.refreshFailed"), "error")
+      }
+    } finally {
+      setIsRefreshing(false)
+    }
+  }, [addNotification, syncConfig, t])
+
+  // Show devices from the cached history straight away, then fetch newer commits
+  useEffect(() => {
+    void loadSyncHistory().then((cached) => {
+      setDevices(getSyncDevices(cached))
+      void refresh()
+    })
+  }, [refresh])
+
+  const handleSaveName = useCallback(async () => {
+    await setDeviceName(name)
+    const next = getDeviceName()
+    setSavedName(next)
+    setName(next)
+    addNotification(t("devices.renamed", { name: next }), "success")
+  }, [addNotification, name, t])
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("devices.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          <SettingsSection
+            title={t("devices.thisDevice.title")}
+            description={t("devices.thisDevice.description")}
+          >
+            <View className="gap-2">
+              <Label>{t("devices.thisDevice.nameLabel")}</Label>
+              <Input
+                value={name}
+                onChangeText={setName}
+                placeholder={getSystemDeviceName()}
+                autoCorrect={false}
+              />
+              <Text
+                className="text-xs text-foreground"
+                style={{ opacity: UI_OPACITY.subtle }}
+              >
+                {t("devices.thisDevice.id", { id: deviceId })}
+              </Text>
+              <Button
+                variant="accent"
+                onPress={() => void handleSaveName()}
+                disabled={name.trim() === savedName}
+              >
+                {t("devices.thisDevice.save")}
+              </Button>
+            </View>
+          </SettingsSection>
+
+          <SettingsSection
+            title={t("devices.list.title")}
+            description={t("devices.list.description")}
+          >
+            {!syncConfig ? (
+              <Text className="text-sm text-foreground">
+                {t("syncHistory.notConfigured")}
+              </Text>
+            ) : devices === null ? (
+              <Spinner />
+            ) : (
+              <View className="gap-2">
+                {devices.length === 0 ? (
+                  <Text className="text-sm text-foreground">
+                    {t("devices.list.empty")}
+                  </Text>
+                ) : null}
+                {devices.map((device) => (
+                  <View
+                    key={device.key}
+                    className="gap-0.5 rounded-card bg-surface px-3 py-3"
+                  >
+                    <Label>
+                      {device.name}
+                      {device.id === deviceId ? ` · ${t("devices.list.current")}` : ""}
+                    </Label>
+                    <Text
+                      className="text-xs text-foreground"
+                      style={{ opacity: UI_OPACITY.subtle }}
+                    >
+                      {t("devices.list.lastSync", {
+                        time: formatDate(device.lastSyncAt, "dd/MM/yyyy HH:mm"),
+                        count: device.commits,
+                      })}
+                    </Text>
+                  </View>
+                ))}
+                <Button onPress={() => void refresh()} disabled={isRefreshing}>
+                  {isRefreshing ? t("syncHistory.refreshing") : t("syncHistory.refresh")}
+                </Button>
+              </View>
+            )}
+          </SettingsSection>
+        </View>
+      </ScreenContainer>
+    </>
+  )
+}
@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useState } from "react"
+import { Stack } from "expo-router"
+import { Alert, Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { KeyRound, LockKeyhole, LockKeyholeOpen } from "lucide-react-native"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { Input } from "../../components/ui/Input"
+import { Label } from "../../components/ui/Label"
+import { useNotifications, useSettings } from "../../stores/hooks"
+import {
+  changeSyncEncryptionPassphrase,
+  clearSyncEncryptionKeys,
+  disableSyncEncryption,
+  loadSyncEncryptionKeys,
+  MIN_SYNC_PASSPHRASE_LENGTH,
+  setUpSyncEncryption,
+} from "../../services/sync-encryption"
+import { UI_ICON_SIZE, UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+
+export default function SyncEncryptionScreen() {
+  const { t } = useTranslation()
+  const theme = useThemeColors()
+  const { syncConfig } = useSettings()
+  const { addNotification } = useNotifications()
+
+  const [isEnabled, setIsEnabled] = useState<boolean | null>(null)
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmPassphrase, setConfirmPassphrase] = useState("")
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    void loadSyncEncryptionKeys().then((keys) => setIsEnabled(keys !== null))
+  }, [])
+
+  const passphraseError =
+    passphrase.length > 0 && passphrase.length < MIN_SYNC_PASSPHRASE_LENGTH
+      ? t("syncEncryption.passphraseTooShort", { count: MIN_SYNC_PASSPHRASE_LENGTH })
+      : confirmPassphrase.length > 0 && confirmPassphrase !== passphrase
+        ? t("syncEncryption.passphraseMismatch")
+        : null
+  const canSubmit =
+    passphrase.length >= MIN_SYNC_PASSPHRASE_LENGTH && confirmPassphrase === passphrase
+
+  const run = useCallback(
+    async (action: () => Promise<string | null>) => {
+      setIsWorking(true)
+      try {
+        const error = await action()
+        if (error) {
+          addNotification(error, "error")
+          return
+        }
+        setPassphrase("")
+        setConfirmPassphrase("")
+        setIsEnabled((await loadSyncEncryptionKeys()) !== null)
+      } finally {
+        setIsWorking(false)
+      }
+    },
+    [addNotification]
+  )
+
+  const handleSetUp = useCallback(() => {
+    if (!syncConfig) return
+    void run(async () => {
+      const result = await setUpSyncEncryption(syncConfig, passphrase)
+      if (!result.success) {
+        return result.error ?? t("syncEncryption.failed")
+      }
+      addNotification(
+        result.data === "unlocked"
+          ? t("syncEncryption.setUp.unlocked")
+          : t("syncEncryption.setUp.encrypted"),
+        "success"
+      )
+      return null
+    })
+  }, [addNotification, passphrase, run, syncConfig, t])
+
+  const handleChange = useCallback(() => {
+    if (!syncConfig) return
+    void run(async () => {
+      const result = await changeSyncEncryptionPassphrase(syncConfig, passphrase)
+      if (!result.success) {
+        return result.error ?? t("syncEncryption.failed")
+      }
+      addNotification(
+        t("syncEncryption.change.done", { count: result.data ?? 0 }),
+        "success"
+      )
+      return null
+    })
+  }, [addNotification, passphrase, run, syncConfig, t])
+
+  const handleDisable = useCallback(() => {
+    if (!syncConfig) return
+    Alert.alert(
+      t("syncEncryption.disable.dialog.title"),
+      t("syncEncryption.disable.dialog.message"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("syncEncryption.disable.dialog.confirm"),
+          style: "destructive",
+          onPress: () =>
+            void run(async () => {
+              const result = await disableSyncEncryption(syncConfig)
+              if (!result.success) {
+                return result.error ?? t("syncEncryption.failed")
+              }
+              addNotification(
+                t("syncEncryption.disable.done", { count: result.data ?? 0 }),
+                "success"
+              )
+              return null
+            }),
+        },
+      ]
+    )
+  }, [addNotification, run, syncConfig, t])
+
+  const handleForget = useCallback(() => {
+    void run(async () => {
+      await clearSyncEncryptionKeys()
+      return null
+    })
+  }, [run])
+
+  const passphraseFields = (
+    <>
+      <View className="gap-1">
+        <Label>{t("syncEncryption.passphrase")}</Label>
+        <Input
+          value={passphrase}
+          onChangeText={setPassphrase}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          accessibilityLabel={t("syncEncryption.passphrase")}
+        />
+      </View>
+      <View className="gap-1">
+        <Label>{t("syncEncryption.confirmPassphrase")}</Label>
+        <Input
+          value={confirmPassphrase}
+          onChangeText={setConfirmPassphrase}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          accessibilityLabel={t("syncEncryption.confirmPassphrase")}
+        />
+      </View>
+      {passphraseError ? (
+        <Text className="text-xs text-error">{passphraseError}</Text>
+      ) : null}
+      <Text className="text-xs text-foreground" style={{ opacity: UI_OPACITY.subtle }}>
+        {t("syncEncryption.passphraseHelp")}
+      </Text>
+    </>
+  )
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("syncEncryption.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          {!syncConfig ? (
+            <SettingsSection title={t("syncEncryption.title")}>
+              <Text className="text-sm text-foreground">
+                {t("syncEncryption.notConfigured")}
+              </Text>
+            </SettingsSection>
+          ) : isEnabled === null ? null : isEnabled ? (
+            <>
+              <SettingsSection
+                title={t("syncEncryption.change.title")}
+                description={t("syncEncryption.change.description")}
+              >
+                <View className="gap-3">
+                  {passphraseFields}
+                  <Button
+                    variant="accent"
+                    className="gap-2"
+                    onPress={handleChange}
+                    disabled={!canSubmit || isWorking}
+                  >
+                    <KeyRound size={UI_ICON_SIZE.small} />
+                    {isWorking
+                      ? t("syncEncryption.working")
+                      : t("syncEncryption.change.action")}
+                  </Button>
+                </View>
+              </SettingsSection>
+
+              <SettingsSection
+                title={t("syncEncryption.disable.title")}
+                description={t("syncEncryption.disable.description")}
+              >
+                <View className="gap-3">
+                  <Button
+                    variant="outline"
+                    className="gap-2"
+                    onPress={handleDisable}
+                    disabled={isWorking}
+                  >
+                    <LockKeyholeOpen size={UI_ICON_SIZE.small} color={theme.foreground} />
+                    {t("syncEncryption.disable.action")}
+                  </Button>
+                  <Button variant="outline" onPress={handleForget} disabled={isWorking}>
+                    {t("syncEncryption.forget.action")}
+                  </Button>
+                  <Text
+                    className="text-xs text-foreground"
+                    style={{ opacity: UI_OPACITY.subtle }}
+                  >
+                    {t("syncEncryption.forget.help")}
+                  </Text>
+                </View>
+              </SettingsSection>
+            </>
+          ) : (
+            <SettingsSection
+              title={t("syncEncryption.setUp.title")}
+              description={t("syncEncryption.setUp.description")}
+            >
+              <View className="gap-3">
+                {passphraseFields}
+                <Button
+                  variant="accent"
+                  className="gap-2"
+                  onPress={handleSetUp}
+                  disabled={!canSubmit || isWorking}
+                >
+                  <LockKeyhole size={UI_ICON_SIZE.small} />
+                  {isWorking
+                    ? t("syncEncryption.working")
+                    : t("syncEncryption.setUp.action")}
+                </Button>
+              </View>
+            </SettingsSection>
+          )}
+        </View>
+      </ScreenContainer>
+    </>
+  )
+}
@@ -0,0 +1,407 @@
+import { useCallback, useEffect, useState } from "react"
+import { Stack } from "expo-router"
+import { Alert, Platform, Pressable, Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from "@react-native-community/datetimepicker"
+import { startOfDay } from "date-fns"
+import {
+  Calendar,
+  ChevronDown,
+  ChevronRight,
+  RefreshCw,
+  RotateCcw,
+} from "lucide-react-native"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { Label } from "../../components/ui/Label"
+import { Spinner } from "../../components/ui/Spinner"
+import { useExpenses, useNotifications, useSettings } from "../../stores/hooks"
+import { useSyncAction } from "../../hooks/use-sync-action"
+import {
+  loadExpenseChanges,
+  loadSyncHistory,
+  refreshSyncHistory,
+  type ExpenseChange,
+  type SyncHistoryEntry,
+} from "../../services/sync-history"
+import {
+  findCommitAtDate,
+  preparePointInTimeRestore,
+} from "../../services/point-in-time-restore"
+import { formatCurrency } from "../../utils/currency"
+import { formatDate, getLocalDayKey } from "../../utils/date"
+import { UI_ICON_SIZE, UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+
+const STATUS_SYMBOL: Record<SyncHistoryEntry["days"][number]["status"], string> = {
+  added: "+",
+  changed: "~",
+  removed: "−",
+}
+
+export default function SyncHistoryScreen() {
+  const { t } = useTranslation()
+  const theme = useThemeColors()
+  const { syncConfig } = useSettings()
+  const { addNotification } = useNotifications()
+  const { state, importExpenses } = useExpenses()
+  const { handleSync } = useSyncAction()
+
+  const [entries, setEntries] = useState<SyncHistoryEntry[] | null>(null)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [expandedSha, setExpandedSha] = useState<string | null>(null)
+  const [changes, setChanges] = useState<Record<string, ExpenseChange[]>>({})
+  const [loadingSha, setLoadingSha] = useState<string | null>(null)
+  const [restoringKey, setRestoringKey] = useState<string | null>(null)
+  const [restoreDate, setRestoreDate] = useState(() => startOfDay(new Date()))
+  const [showDatePicker, setShowDatePicker] = useState(false)
+  const [syncAfterRestore, setSyncAfterRestore] = useState(false)
+
+  const refresh = useCallback(async () => {
+    if (!syncConfig) return
+    setIsRefreshing(true)
+    try {
+      const result = await refreshSyncHistory(syncConfig)
+      if (result.success && result.data) {
+        setEntries(result.data)
+      } else {
+        addNotification(result.error ?? t("syncHistory.errors.refreshFailed"), "error")
+      }
+    } finally {
+      setIsRefreshing(false)
+    }
+  }, [addNotification, syncConfig, t])
+
+  // Show the cached timeline straight away, then fetch newer commits
+  useEffect(() => {
+    void loadSyncHistory().then((cached) => {
+      setEntries(cached)
+      void refresh()
+    })
+  }, [refresh])
+
+  const handleToggle = useCallback(
+    async (entry: SyncHistoryEntry) => {
+      if (expandedSha === entry.sha) {
+        setExpandedSha(null)
+        return
+      }
+      setExpandedSha(entry.sha)
+      if (changes[entry.sha] || !syncConfig) return
+
+      setLoadingSha(entry.sha)
+      try {
+        const result = await loadExpenseChanges(syncConfig, entry)
+        if (result.success && result.data) {
+          const loaded = result.data
+          setChanges((current) => ({ ...current, [entry.sha]: loaded }))
+        } else {
+          addNotification(result.error ?? t("syncHistory.errors.changesFailed"), "error")
+        }
+      } finally {
+        setLoadingSha(null)
+      }
+    },
+    [addNotification, changes, expandedSha, syncConfig, t]
+  )
+
+  // Push the restored records as a new commit once the store has them
+  useEffect(() => {
+    if (syncAfterRestore) {
+      setSyncAfterRestore(false)
+      void handleSync()
+    }
+  }, [handleSync, syncAfterRestore])
+
+  const handleRestore = useCallback(
+    async (entry: SyncHistoryEntry, dayKey?: string) => {
+      if (!syncConfig) return
+
+      setRestoringKey(`${entry.sha}:${dayKey ?? ""}`)
+      try {
+        const result = await preparePointInTimeRestore(
+          syncConfig,
+          state.expenses,
+          entry.sha,
+          dayKey
+        )
+        if (!result.success || !result.data) {
+          addNotification(result.error ?? t("syncHistory.restore.failed"), "error")
+          return
+        }
+
+        const { restored, removed } = result.data
+        if (restored.length === 0 && removed.length === 0) {
+          addNotification(t("syncHistory.restore.nothingToRestore"), "info")
+          return
+        }
+
+        const when = formatDate(entry.timestamp, "dd/MM/yyyy HH:mm")
+        Alert.alert(
+          t("syncHistory.restore.dialog.title"),
+          t(
+            dayKey
+              ? "syncHistory.restore.dialog.dayMessage"
+              : "syncHistory.restore.dialog.ledgerMessage",
+            {
+              day: dayKey,
+              date: when,
+              restored: restored.length,
+              removed: removed.length,
+            }
+          ),
+          [
+            { text: t("common.cancel"), style: "cancel" },
+            {
+              text: t("syncHistory.restore.dialog.confirm"),
+              style: "destructive",
+              onPress: () => {
+                importExpenses([...restored, ...removed])
+                setSyncAfterRestore(true)
+                addNotification(
+                  t("syncHistory.restore.done", {
+                    count: restored.length + removed.length,
+                  }),
+                  "success"
+                )
+              },
+            },
+          ]
+        )
+      } finally {
+        setRestoringKey(null)
+      }
+    },
+    [addNotification, importExpenses, state.expenses, syncConfig, t]
+  )
+
+  const handleRestoreToDate = useCallback(() => {
+    const entry = findCommitAtDate(
+      entries ?? [],
+      getLocalDayKey(restoreDate.toISOString())
+    )
+    if (!entry) {
+      addNotification(t("syncHistory.restore.noCommitBefore"), "warning")
+      return
+    }
+    void handleRestore(entry)
+  }, [addNotification, entries, handleRestore, restoreDate, t])
+
+  const handleDateChange = useCallback(
+    (event: DateTimePickerEvent, selectedDate?: Date) => {
+      setShowDatePicker(Platform.OS === "ios")
+      if (selectedDate && event.type !== "dismissed") {
+        setRestoreDate(startOfDay(selectedDate))
+      }
+    },
+    []
+  )
+
+  const describeChange = (change: ExpenseChange) => {
+    const expense = change.after ?? change.before
+    const label = expense
+      ? `${expense.note || expense.category} · ${formatCurrency(expense.amount, expense.currency)}`
+      : change.expenseId
+    const fields =
+      change.type === "changed" && change.fields
+        ? ` (${change.fields.map((field) => t(`syncConflicts.fields.${field}`)).join(", ")})`
+        : ""
+    return `${t(`syncHistory.change.${change.type}`)}: ${label}${fields}`
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("syncHistory.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          {!syncConfig ? (
+            <SettingsSection title={t("syncHistory.title")}>
+              <Text className="text-sm text-foreground">
+                {t("syncHistory.notConfigured")}
+              </Text>
+            </SettingsSection>
+          ) : (
+            <SettingsSection
+              title={t("syncHistory.title")}
+              description={t("syncHistory.description")}
+            >
+              <View className="gap-3">
+                <Button
+                  variant="outline"
+                  size="compact"
+                  className="gap-2 self-start"
+                  onPress={() => void refresh()}
+                  disabled={isRefreshing}
+                >
+                  <RefreshCw size={UI_ICON_SIZE.small} color={theme.foreground} />
+                  {isRefreshing ? t("syncHistory.refreshing") : t("syncHistory.refresh")}
+                </Button>
+
+                {entries === null ? (
+                  <Spinner />
+                ) : entries.length === 0 ? (
+                  <Text className="text-sm text-foreground">
+                    {isRefreshing ? t("syncHistory.refreshing") : t("syncHistory.empty")}
+                  </Text>
+                ) : (
+                  entries.map((entry) => {
+                    const isExpanded = expandedSha === entry.sha
+                    const entryChanges = changes[entry.sha]
+                    const Chevron = isExpanded ? ChevronDown : ChevronRight
+
+                    return (
+                      <View
+                        key={entry.sha}
+                        className="bg-surface rounded-card px-3 py-3 gap-2"
+                      >
+                        <Pressable
+                          onPress={() => void handleToggle(entry)}
+                          role="button"
+                          accessibilityState={{ expanded: isExpanded }}
+                          accessibilityLabel={entry.summary}
+                          className="flex-row items-start gap-2"
+                        >
+                          <View className="flex-1 gap-1">
+                            <Text className="text-sm font-medium text-foreground">
+                              {formatDate(entry.timestamp, "dd/MM/yyyy HH:mm")}
+                              {entry.device ? ` · ${entry.device}` : ""}
+                            </Text>
+                            <Text
+                              className="text-xs text-foreground"
+                              style={{ opacity: UI_OPACITY.subtle }}
+                            >
+                              {entry.days.length > 0
+                                ? entry.days
+                                    .map(
+                                      (day) => `${STATUS_SYMBOL[day.status]}${day.dayKey}`
+                                    )
+                                    .join("  ")
+                                : t("syncHistory.noDayFiles")}
+                              {entry.settingsChanged
+                                ? `  ${t("syncHistory.settings")}`
+                                : ""}
+                            </Text>
+                          </View>
+                          <Chevron
+                            size={UI_ICON_SIZE.medium}
+                            color={theme.foreground}
+                            style={{ opacity: UI_OPACITY.subtle }}
+                          />
+                        </Pressable>
+
+                        {isExpanded ? (
+                          loadingSha === entry.sha ? (
+                            <Spinner />
+                          ) : entryChanges ? (
+                            entryChanges.length === 0 ? (
+                              <Text className="text-xs text-foreground">
+                                {t("syncHistory.noExpenseChanges")}
+                              </Text>
+                            ) : (
+                              entryChanges.map((change) => (
+                                <Text
+                                  key={change.expenseId}
+                                  className="text-xs text-foreground"
+                                >
+                                  {describeChange(change)}
+                                </Text>
+                              ))
+                            )
+                          ) : null
+                        ) : null}
+
+                        {isExpanded ? (
+                          <View className="flex-row flex-wrap gap-2">
+                            <Button
+                              variant="outline"
+                              size="chip"
+                              className="gap-1"
+                              disabled={restoringKey !== null}
+                              onPress={() => void handleRestore(entry)}
+                            >
+                              <RotateCcw
+                                size={UI_ICON_SIZE.small}
+                                color={theme.foreground}
+                              />
+                              {restoringKey === `${entry.sha}:`
+                                ? t("syncHistory.restore.loading")
+                                : t("syncHistory.restore.ledger")}
+                            </Button>
+                            {entry.days.map((day) => (
+                              <Button
+                                key={day.path}
+                                variant="outline"
+                                size="chip"
+                                disabled={restoringKey !== null}
+                                onPress={() => void handleRestore(entry, day.dayKey)}
+                              >
+                                {restoringKey === `${entry.sha}:${day.dayKey}`
+                                  ? t("syncHistory.restore.loading")
+                                  : t("syncHistory.restore.day", { day: day.dayKey })}
+                              </Button>
+                            ))}
+                          </View>
+                        ) : null}
+                      </View>
+                    )
+                  })
+                )}
+              </View>
+            </SettingsSection>
+          )}
+
+          {syncConfig && entries && entries.length > 0 ? (
+            <SettingsSection
+              title={t("syncHistory.restore.title")}
+              description={t("syncHistory.restore.description")}
+            >
+              <View className="gap-3">
+                <View className="flex-row items-center justify-between">
+                  <Label className="opacity-80">{t("syncHistory.restore.date")}</Label>
+                  <Button
+                    size="control"
+                    className="gap-2"
+                    onPress={() => setShowDatePicker(true)}
+                    accessibilityLabel={t("syncHistory.restore.date")}
+                  >
+                    <Calendar size={UI_ICON_SIZE.small} color={theme.foreground} />
+                    {restoreDate.toLocaleDateString()}
+                  </Button>
+                </View>
+                {showDatePicker ? (
+                  <>
+                    <DateTimePicker
+                      value={restoreDate}
+                      mode="date"
+                      maximumDate={new Date()}
+                      display={Platform.OS === "ios" ? "spinner" : "default"}
+                      onChange={handleDateChange}
+                    />
+                    {Platform.OS === "ios" ? (
+                      <Button size="control" onPress={() => setShowDatePicker(false)}>
+                        {t("common.done")}
+                      </Button>
+                    ) : null}
+                  </>
+                ) : null}
+                <Button
+                  variant="accent"
+                  className="gap-2"
+                  disabled={restoringKey !== null}
+                  onPress={handleRestoreToDate}
+                >
+                  <RotateCcw size={UI_ICON_SIZE.small} color={theme.accentForeground} />
+                  {t("syncHistory.restore.ledger")}
+                </Button>
+              </View>
+            </SettingsSection>
+          ) : null}
+        </View>
+      </ScreenContainer>
+    </>
+  )
+}
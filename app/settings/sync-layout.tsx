@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from "react"
+import { Stack } from "expo-router"
+import { Alert, Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { Label } from "../../components/ui/Label"
+import { RadioGroup } from "../../components/ui/RadioGroup"
+import { Spinner } from "../../components/ui/Spinner"
+import { useNotifications, useSettings } from "../../stores/hooks"
+import { loadRepoLayout, migrateRepoLayout } from "../../services/repo-layout"
+import { UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+import type { FileLayout } from "../../types/sync"
+
+const LAYOUTS: FileLayout[] = ["daily", "monthly"]
+
+export default function SyncLayoutScreen() {
+  const { t } = useTranslation()
+  const { syncConfig } = useSettings()
+  const { addNotification } = useNotifications()
+
+  const [current, setCurrent] = useState<FileLayout | null>(null)
+  const [selected, setSelected] = useState<FileLayout>("daily")
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    if (!syncConfig) return
+    void loadRepoLayout(syncConfig).then((result) => {
+      if (result.success && result.data) {
+        setCurrent(result.data)
+        setSelected(result.data)
+      } else {
+        addNotification(result.error ?? t("repoLayout.errors.loadFailed"), "error")
+      }
+    })
+  }, [addNotification, syncConfig, t])
+
+  const migrate = useCallback(async () => {
+    if (!syncConfig) return
+    setIsWorking(true)
+    try {
+      const result = await migrateRepoLayout(syncConfig, selected)
+      if (!result.success) {
+        addNotification(result.error ?? t("repoLayout.errors.migrateFailed"), "error")
+        return
+      }
+      setCurrent(selected)
+      addNotification(
+        t(`repoLayout.migrate.done.${selected}`, { count: result.data ?? 0 }),
+        "success"
+      )
+    } finally {
+      setIsWorking(false)
+    }
+  }, [addNotification, selected, syncConfig, t])
+
+  const handleMigrate = useCallback(() => {
+    Alert.alert(
+      t("repoLayout.migrate.dialog.title"),
+      t("repoLayout.migrate.dialog.message"),
+      [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("repoLayout.migrate.dialog.confirm"),
+          onPress: () => void migrate(),
+        },
+      ]
+    )
+  }, [migrate, t])
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("repoLayout.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          {!syncConfig ? (
+            <SettingsSection title={t("repoLayout.title")}>
+              <Text className="text-sm text-foreground">
+                {t("repoLayout.notConfigured")}
+              </Text>
+            </SettingsSection>
+          ) : (
+            <SettingsSection
+              title={t("repoLayout.title")}
+              description={t("repoLayout.description")}
+            >
+              {current === null ? (
+                <Spinner />
+              ) : (
+                <View className="gap-3">
+                  <RadioGroup
+                    value={selected}
+                    onValueChange={(value) => setSelected(value as FileLayout)}
+                  >
+                    {LAYOUTS.map((layout) => (
+                      <View key={layout} className="flex-row items-start gap-2 my-1">
+                        <RadioGroup.Item
+                          value={layout}
+                          accessibilityLabel={t(`repoLayout.layouts.${layout}.label`)}
+                        />
+                        <View className="flex-1">
+                          <Label>
+                            {t(`repoLayout.layouts.${layout}.label`)}
+                            {layout === current ? ` · ${t("repoLayout.current")}` : ""}
+                          </Label>
+                          <Text
+                            className="text-xs text-foreground"
+                            style={{ opacity: UI_OPACITY.subtle }}
+                          >
+                            {t(`repoLayout.layouts.${layout}.help`)}
+                          </Text>
+                        </View>
+                      </View>
+                    ))}
+                  </RadioGroup>
+
+                  <Button
+                    variant="accent"
+                    onPress={handleMigrate}
+                    disabled={selected === current || isWorking}
+                  >
+                    {isWorking
+                      ? t("repoLayout.migrate.working")
+                      : t("repoLayout.migrate.action")}
+                  </Button>
+                </View>
+              )}
+            </SettingsSection>
+          )}
+        </View>
+      </ScreenContainer>
+    </>
+  )
+}
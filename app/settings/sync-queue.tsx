@@ -0,0 +1,275 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Stack } from "expo-router"
+import { Alert, Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { ScreenContainer } from "../../components/ui/ScreenContainer"
+import { SettingsSection } from "../../components/ui/SettingsSection"
+import { Button } from "../../components/ui/Button"
+import { Label } from "../../components/ui/Label"
+import { Spinner } from "../../components/ui/Spinner"
+import { useExpenses, useNotifications, useSettings } from "../../stores/hooks"
+import { useSyncAction } from "../../hooks/use-sync-action"
+import { dropSyncOp, getSyncOpsSince, type SyncQueueOp } from "../../services/sync-queue"
+import { loadDirtyDays } from "../../services/expense-dirty-days"
+import { formatDate, getLocalDayKey } from "../../utils/date"
+import { UI_OPACITY, UI_SPACE } from "../../constants/ui-tokens"
+
+const OP_LABEL_KEYS: Record<SyncQueueOp["type"], string> = {
+  "expense.upsert": "syncQueue.ops.expenseUpsert",
+  "expense.batchUpsert": "syncQueue.ops.expenseBatchUpsert",
+  "settings.patch": "syncQueue.ops.settingsPatch",
+  "category.add": "syncQueue.ops.categoryAdd",
+  "category.update": "syncQueue.ops.categoryUpdate",
+  "category.delete": "syncQueue.ops.categoryDelete",
+  "category.reorder": "syncQueue.ops.categoryReorder",
+}
+
+/** What an op touched, in a few words */
+function describeOp(op: SyncQueueOp): string {
+  switch (op.type) {
+    case "expense.upsert":
+      return [getLocalDayKey(op.expense.date), op.expense.note || op.expense.category]
+        .filter(Boolean)
+        .join(" · ")
+    case "expense.batchUpsert":
+      return Array.from(new Set(op.expenses.map((e) => getLocalDayKey(e.date)))).join(
+        ", "
+      )
+    case "settings.patch":
+      return Object.keys(op.updates).join(", ")
+    case "category.add":
+      return op.category.label
+    case "category.update":
+    case "category.delete":
+      return op.label
+    case "category.reorder":
+      return op.labels.join(", ")
+  }
+}
+
+/** Latest queued change per day, to date the pending days */
+function getLatestOpByDay(ops: SyncQueueOp[]): Map<string, string> {
+  const latest = new Map<string, string>()
+  for (const op of ops) {
+    const expenses =
+      op.type === "expense.upsert"
+        ? [op.expense]
+        : op.type === "expense.batchUpsert"
+          ? op.expenses
+          : []
+    for (const expense of expenses) {
+      const dayKey = getLocalDayKey(expense.date)
+      const current = latest.get(dayKey)
+      if (!current || op.timestamp > current) {
+        latest.set(dayKey, op.timestamp)
+      }
+    }
+  }
+  return latest
+}
+
+interface PendingChanges {
+  ops: SyncQueueOp[]
+  /** When the dirty days last changed, unless they are untrusted */
+  daysUpdatedAt: string | null
+}
+
+async function loadPendingChanges(): Promise<PendingChanges> {
+  const [ops, dirtyDays] = await Promise.all([getSyncOpsSince(0), loadDirtyDays()])
+  return {
+    ops,
+    daysUpdatedAt: dirtyDays.isTrusted ? dirtyDays.state.updatedAt : null,
+  }
+}
+
+export default function SyncQueueScreen() {
+  const { t } = useTranslation()
+  const { syncConfig } = useSettings()
+  const { addNotification } = useNotifications()
+  const { state } = useExpenses()
+  const { handleSync, handleFullResync, isSyncing } = useSyncAction()
+
+  const [ops, setOps] = useState<SyncQueueOp[] | null>(null)
+  const [daysUpdatedAt, setDaysUpdatedAt] = useState<string | null>(null)
+
+  const applyPending = useCallback((pending: PendingChanges) => {
+    setOps(pending.ops)
+    setDaysUpdatedAt(pending.daysUpdatedAt)
+  }, [])
+
+  const refresh = useCallback(
+    () => loadPendingChanges().then(applyPending),
+    [applyPending]
+  )
+
+  // Reload whenever a sync finishes, as it clears what it pushed
+  useEffect(() => {
+    if (isSyncing) return
+    void loadPendingChanges().then(applyPending)
+  }, [applyPending, isSyncing])
+
+  const pendingDays = useMemo(() => {
+    const deleted = new Set(state.deletedDays)
+    const latest = getLatestOpByDay(ops ?? [])
+    return Array.from(new Set([...state.dirtyDays, ...state.deletedDays]))
+      .sort()
+      .reverse()
+      .map((dayKey) => ({
+        dayKey,
+        deleted: deleted.has(dayKey),
+        changedAt: latest.get(dayKey) ?? daysUpdatedAt,
+      }))
+  }, [daysUpdatedAt, ops, state.deletedDays, state.dirtyDays])
+
+  const handleDrop = useCallback(
+    (op: SyncQueueOp) => {
+      Alert.alert(t("syncQueue.drop.title"), t("syncQueue.drop.message"), [
+        { text: t("common.cancel"), style: "cancel" },
+        {
+          text: t("syncQueue.drop.confirm"),
+          style: "destructive",
+          onPress: () => {
+            void dropSyncOp(op.id).then(() => {
+              addNotification(t("syncQueue.drop.done"), "success")
+              return refresh()
+            })
+          },
+        },
+      ])
+    },
+    [addNotification, refresh, t]
+  )
+
+  const confirmFullResync = useCallback(() => {
+    Alert.alert(t("syncQueue.fullResync.title"), t("syncQueue.fullResync.message"), [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("syncQueue.fullResync.confirm"),
+        onPress: () => void handleFullResync(),
+      },
+    ])
+  }, [handleFullResync, t])
+
+  return (
+    <>
+      <Stack.Screen options={{ title: t("syncQueue.title") }} />
+
+      <ScreenContainer contentContainerStyle={{ paddingTop: UI_SPACE.control }}>
+        <View className="max-w-[600px] w-full self-center gap-4">
+          <SettingsSection
+            title={t("syncQueue.days.title")}
+            description={t("syncQueue.days.description")}
+          >
+            {pendingDays.length === 0 ? (
+              <Text className="text-sm text-foreground">{t("syncQueue.days.empty")}</Text>
+            ) : (
+              <View className="gap-2">
+                {pendingDays.map((day) => (
+                  <View
+                    key={day.dayKey}
+                    className="gap-0.5 rounded-card bg-surface px-3 py-3"
+                  >
+                    <Label>
+                      {formatDate(day.dayKey, "dd/MM/yyyy")}
+                      {day.deleted ? ` · ${t("syncQueue.days.deleted")}` : ""}
+                    </Label>
+                    {day.changedAt ? (
+                      <Text
+                        className="text-xs text-foreground"
+                        style={{ opacity: UI_OPACITY.subtle }}
+                      >
+                        {t("syncQueue.changedAt", {
+                          time: formatDate(day.changedAt, "dd/MM/yyyy HH:mm"),
+                        })}
+                      </Text>
+                    ) : null}
+                  </View>
+                ))}
+              </View>
+            )}
+          </SettingsSection>
+
+          <SettingsSection
+            title={t("syncQueue.ops.title")}
+            description={t("syncQueue.ops.description")}
+          >
+            {ops === null ? (
+              <Spinner />
+            ) : ops.length === 0 ? (
+              <Text className="text-sm text-foreground">{t("syncQueue.ops.empty")}</Text>
+            ) : (
+              <View className="gap-2">
+                {[...ops].reverse().map((op) => (
+                  <View
+                    key={op.id}
+                    className="flex-row items-center gap-3 rounded-card bg-surface px-3 py-3"
+                  >
+                    <View className="flex-1 gap-0.5">
+                      <Label>
+                        {op.type === "expense.batchUpsert"
+                          ? t(OP_LABEL_KEYS[op.type], { count: op.expenses.length })
+                          : t(OP_LABEL_KEYS[op.type])}
+                      </Label>
+                      <Text
+                        className="text-xs text-foreground"
+                        style={{ opacity: UI_OPACITY.subtle }}
+                        numberOfLines={2}
+                      >
+                        {describeOp(op)}
+                      </Text>
+                      <Text
+                        className="text-xs text-foreground"
+                        style={{ opacity: UI_OPACITY.subtle }}
+                      >
+                        {t("syncQueue.changedAt", {
+                          time: formatDate(op.timestamp, "dd/MM/yyyy HH:mm"),
+                        })}
+                      </Text>
+                    </View>
+                    <Button
+                      variant="outline"
+                      size="compact"
+                      onPress={() => handleDrop(op)}
+                    >
+                      {t("syncQueue.drop.action")}
+                    </Button>
+                  </View>
+                ))}
+              </View>
+            )}
+          </SettingsSection>
+
+          <SettingsSection
+            title={t("syncQueue.actions.title")}
+            description={t("syncQueue.actions.description")}
+          >
+            {!syncConfig ? (
+              <Text className="text-sm text-foreground">
+                {t("syncQueue.notConfigured")}
+              </Text>
+            ) : (
+              <View className="gap-2">
+                <Button
+                  variant="accent"
+                  onPress={() => void handleSync()}
+                  disabled={isSyncing}
+                >
+                  {isSyncing
+                    ? t("syncQueue.actions.syncing")
+                    : t("syncQueue.actions.retry")}
+                </Button>
+                <Button
+                  variant="outline"
+                  onPress={confirmFullResync}
+                  disabled={isSyncing}
+                >
+                  {t("syncQueue.fullResync.action")}
+                </Button>
+              </View>
+            )}
+          </SettingsSection>
+        </View>
+      </ScreenContainer>
+    </>
+  )
+}
@@ -1,9 +1,10 @@
 import React from "react"
-import { CheckCircle, XCircle } from "lucide-react-native"
-import { View, ActivityIndicator } from "react-native"
+import { CheckCircle, Clock, XCircle } from "lucide-react-native"
+import { View, ActivityIndicator, Text } from "react-native"
 import { useSafeAreaInsets } from "react-native-safe-area-context"
 import { useTranslation } from "react-i18next"
 import { useSyncMachine } from "../hooks/use-sync-machine"
+import { useRateLimitPause } from "../hooks/use-rate-limit-pause"
 import {
   SEMANTIC_FOREGROUND_COLORS,
   getOverlayColors,
@@ -11,6 +12,7 @@ import {
 } from "../constants/theme-colors"
 import { useThemeScheme } from "../hooks/use-theme-colors"
 import { UI_ICON_SIZE } from "../constants/ui-tokens"
+import { formatDate } from "../utils/date"
 
 /**
  * Global sync status indicator
@@ -18,12 +20,15 @@ import { UI_ICON_SIZE } from "../constants/ui-tokens"
  * Shows spinning indicator during sync, checkmark on success, X on error.
  * Visibility is derived directly from XState machine state:
  * - syncing: show spinner
+ * - rate limited: show a clock and the resume time while GitHub requests
+ *   wait, whichever sync (foreground or background) made them
  * - success: show checkmark (machine auto-resets after 2s)
  * - error: show X
  * - idle/inSync: hidden
  */
 export const SyncIndicator: React.FC = () => {
   const { isSyncing, isSuccess, isError } = useSyncMachine()
+  const rateLimitUntil = useRateLimitPause()
   const { t } = useTranslation()
   const insets = useSafeAreaInsets()
   const colorScheme = useThemeScheme()
@@ -32,11 +37,16 @@ export const SyncIndicator: React.FC = () => {
 
   // Derive visibility directly from machine state
   // Machine auto-resets from success after 2 seconds
-  const visible = isSyncing || isSuccess || isError
+  const visible = isSyncing || isSuccess || isError || rateLimitUntil !== null
 
   if (!visible) return null
 
+  const waitingUntil = rateLimitUntil ? formatDate(rateLimitUntil, "HH:mm") : null
+
   const getStatusLabel = () => {
+    if (waitingUntil) {
+      return t("githubSync.status.rateLimited", { time: waitingUntil })
+    }
     if (isSyncing) return t("sync.status.syncing")
     if (isSuccess) return t("sync.status.success")
     if (isError) return t("sync.status.error")
@@ -44,6 +54,9 @@ export const SyncIndicator: React.FC = () => {
   }
 
   const getIcon = () => {
+    if (waitingUntil) {
+      return <Clock size={UI_ICON_SIZE.large} color={ACCENT_COLORS.primary} />
+    }
     if (isSyncing) {
       return <ActivityIndicator size="small" color={ACCENT_COLORS.primary} />
     }
@@ -67,8 +80,15 @@ export const SyncIndicator: React.FC = () => {
       accessibilityLiveRegion="polite"
       accessible={false}
     >
-      <View accessible accessibilityLabel={getStatusLabel()}>
+      <View
+        className="flex-row items-center gap-2"
+        accessible
+        accessibilityLabel={getStatusLabel()}
+      >
         {getIcon()}
+        {waitingUntil ? (
+          <Text className="text-xs text-foreground">{getStatusLabel()}</Text>
+        ) : null}
       </View>
     </View>
   )
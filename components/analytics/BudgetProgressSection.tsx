@@ -0,0 +1,125 @@
+import { memo } from "react"
+import { Text, View } from "react-native"
+import { CollapsibleSection } from "./CollapsibleSection"
+import type { CategoryBudgetProgress } from "../../utils/analytics/budgets"
+import { SEMANTIC_FOREGROUND_COLORS } from "../../constants/palette"
+import { useThemeScheme } from "../../hooks/use-theme-colors"
+import { useTranslation } from "react-i18next"
+import { formatCurrency } from "../../utils/currency"
+import { UI_OPACITY } from "../../constants/ui-tokens"
+
+interface BudgetProgressSectionProps {
+  progress: CategoryBudgetProgress[]
+  /** Currency the budgets are expressed in */
+  currencyCode: string
+  /** Human-readable month the progress covers (e.g. "Jul 2026") */
+  monthLabel: string
+}
+
+// Memoized row showing one category's spending against its budget
+const BudgetRow = memo(function BudgetRow({
+  item,
+  currencyCode,
+}: {
+  item: CategoryBudgetProgress
+  currencyCode: string
+}) {
+  const { t } = useTranslation()
+  const scheme = useThemeScheme()
+  const semantic = SEMANTIC_FOREGROUND_COLORS[scheme]
+
+  const label = item.category === "Other" ? t("settings.categories.other") : item.category
+  const spent = formatCurrency(item.spent, currencyCode)
+  const budget = formatCurrency(item.budget, currencyCode)
+  const barColor =
+    item.status === "over"
+      ? semantic.error
+      : item.status === "warning"
+        ? semantic.warning
+        : item.color
+
+  return (
+    <View
+      className="gap-1"
+      accessibilityLabel={t("analytics.budgets.accessibilityLabel", {
+        category: label,
+        spent,
+        budget,
+      })}
+    >
+      <View className="flex-row items-center justify-between gap-2">
+        <View className="flex-1 flex-row items-center gap-2">
+          <View
+            className="h-3 w-3 rounded-control"
+            style={{ backgroundColor: item.color }}
+          />
+          <Text className="flex-shrink font-bold text-foreground" numberOfLines={1}>
+            {label}
+          </Text>
+        </View>
+        <Text className="text-xs text-foreground" style={{ opacity: UI_OPACITY.subtle }}>
+          {t("analytics.budgets.spentOf", { spent, budget })}
+        </Text>
+      </View>
+
+      <View className="h-2 w-full overflow-hidden rounded-control bg-surface">
+        <View
+          className="h-2 rounded-control"
+          style={{
+            width: `${Math.min(item.ratio, 1) * 100}%`,
+            backgroundColor: barColor,
+          }}
+        />
+      </View>
+
+      {item.status === "over" ? (
+        <Text className="text-xs font-bold text-error">
+          {t("analytics.budgets.over", {
+            amount: formatCurrency(-item.remaining, currencyCode),
+          })}
+        </Text>
+      ) : (
+        <Text
+          className={`text-xs ${item.status === "warning" ? "font-bold text-warning" : "text-foreground"}`}
+          style={item.status === "warning" ? undefined : { opacity: UI_OPACITY.subtle }}
+        >
+          {item.status === "warning"
+            ? t("analytics.budgets.nearLimit", {
+                amount: formatCurrency(item.remaining, currencyCode),
+              })
+            : t("analytics.budgets.remaining", {
+                amount: formatCurrency(item.remaining, currencyCode),
+              })}
+        </Text>
+      )}
+    </View>
+  )
+})
+
+/**
+ * BudgetProgressSection - Monthly budget progress for each budgeted category
+ * Shows spent vs. limit with a progress bar and remaining/over-budget amounts
+ */
+export const BudgetProgressSection = memo(function BudgetProgressSection({
+  progress,
+  currencyCode,
+  monthLabel,
+}: BudgetProgressSectionProps) {
+  const { t } = useTranslation()
+
+  if (progress.length === 0) {
+    return null
+  }
+
+  return (
+    <CollapsibleSection title={t("analytics.budgets.title", { month: monthLabel })}>
+      <View className="gap-3">
+        {progress.map((item) => (
+          <BudgetRow key={item.category} item={item} currencyCode={currencyCode} />
+        ))}
+      </View>
+    </CollapsibleSection>
+  )
+})
+
+export type { BudgetProgressSectionProps }
@@ -0,0 +1,84 @@
+import { memo } from "react"
+import { Text, View } from "react-native"
+import { useRouter, type Href } from "expo-router"
+import { CollapsibleSection } from "./CollapsibleSection"
+import type { CurrencyBreakdownItem } from "../../utils/analytics/currency"
+import { useTranslation } from "react-i18next"
+import { formatCurrency } from "../../utils/currency"
+import { UI_OPACITY } from "../../constants/ui-tokens"
+import { Button } from "../ui/Button"
+
+interface CurrencyBreakdownSectionProps {
+  breakdown: CurrencyBreakdownItem[]
+  /** Currency the converted totals are expressed in */
+  reportingCurrency: string
+  /** Expenses left out of the totals because no exchange rate was known */
+  unconvertedCount: number
+}
+
+/**
+ * CurrencyBreakdownSection - Spending per original currency when all
+ * currencies are reported together, with the converted value of each
+ */
+export const CurrencyBreakdownSection = memo(function CurrencyBreakdownSection({
+  breakdown,
+  reportingCurrency,
+  unconvertedCount,
+}: CurrencyBreakdownSectionProps) {
+  const { t } = useTranslation()
+  const router = useRouter()
+
+  if (breakdown.length === 0) {
+    return null
+  }
+
+  return (
+    <CollapsibleSection
+      title={t("analytics.currencyBreakdown.title", { currency: reportingCurrency })}
+    >
+      <View className="gap-3">
+        {breakdown.map((item) => (
+          <View
+            key={item.currency}
+            className="flex-row items-center justify-between gap-2"
+          >
+            <Text className="font-bold text-foreground">{item.currency}</Text>
+            <View className="items-end">
+              <Text className="text-foreground">
+                {item.convertedSpending === null
+                  ? t("analytics.currencyBreakdown.missingRate")
+                  : formatCurrency(item.convertedSpending, reportingCurrency)}
+              </Text>
+              {item.currency !== reportingCurrency && (
+                <Text
+                  className="text-xs text-foreground"
+                  style={{ opacity: UI_OPACITY.subtle }}
+                >
+                  {formatCurrency(item.spending, item.currency)}
+                </Text>
+              )}
+            </View>
+          </View>
+        ))}
+
+        {unconvertedCount > 0 && (
+          <View className="gap-2">
+            <Text className="text-xs font-bold text-warning">
+              {t("analytics.currencyBreakdown.unconverted", { count: unconvertedCount })}
+            </Text>
+            <Button
+              size="chip"
+              variant="outline"
+              className="self-start"
+              onPress={() => router.push("/settings/exchange-rates" as Href)}
+            >
+              {t("analytics.currencyBreakdown.manageRates")}
+            </Button>
+          </View>
+        )}
+      </View>
+    </CollapsibleSection>
+  )
+})
+
+export type { CurrencyBreakdownSectionProps }
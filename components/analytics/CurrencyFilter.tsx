@@ -1,6 +1,6 @@
 import { memo } from "react"
 import { useTranslation } from "react-i18next"
-import { getCurrencySymbol } from "../../utils/currency"
+import { ALL_CURRENCIES, getCurrencySymbol } from "../../utils/currency"
 import { FilterChip, FilterChipBar } from "./FilterChipBar"
 
 interface CurrencyFilterProps {
@@ -8,6 +8,8 @@ interface CurrencyFilterProps {
   selectedCurrency: string | null
   /** Currency used when no explicit selection is made (auto). Shown on the Default chip. */
   defaultCurrency: string
+  /** Currency amounts are converted into when all currencies are selected */
+  reportingCurrency: string
   onChange: (currency: string | null) => void
 }
 
@@ -15,6 +17,7 @@ export const CurrencyFilter = memo(function CurrencyFilter({
   availableCurrencies,
   selectedCurrency,
   defaultCurrency,
+  reportingCurrency,
   onChange,
 }: CurrencyFilterProps) {
   const { t } = useTranslation()
@@ -31,6 +34,14 @@ export const CurrencyFilter = memo(function CurrencyFilter({
         onPress={() => onChange(null)}
       />
 
+      <FilterChip
+        label={t("analytics.currency.all", {
+          symbol: getCurrencySymbol(reportingCurrency),
+        })}
+        selected={selectedCurrency === ALL_CURRENCIES}
+        onPress={() => onChange(ALL_CURRENCIES)}
+      />
+
       {availableCurrencies.map((currency) => {
         const isSelected = selectedCurrency === currency
 
@@ -19,8 +19,9 @@ interface StatisticsCardsProps {
 }
 
 /**
- * StatisticsCards - Display four summary cards in a 2x2 grid
- * Shows total spending, average daily, highest category, and highest day
+ * StatisticsCards - Display six summary cards in a 2x3 grid
+ * Shows total spending, average daily, highest category, highest day,
+ * gross spending (before refunds) and net cash flow
  */
 export const StatisticsCards = memo(function StatisticsCards({
   statistics,
@@ -196,6 +197,65 @@ export const StatisticsCards = memo(function StatisticsCards({
           )}
         </Card>
       </View>
+
+      {/* Third row */}
+      <View className="flex-row gap-3">
+        <Card className="flex-1 p-3" style={{ backgroundColor: colors.blue.bg }}>
+          <Text
+            className="text-xs font-bold uppercase"
+            style={{ color: colors.blue.text }}
+            numberOfLines={1}
+            adjustsFontSizeToFit
+            minimumFontScale={0.5}
+          >
+            {t("analytics.stats.grossSpent")}
+          </Text>
+          <Text
+            className="mt-2 text-lg font-semibold"
+            style={{ color: colors.blue.accent, ...amountTextStyle }}
+            numberOfLines={1}
+            adjustsFontSizeToFit
+            minimumFontScale={0.5}
+          >
+            {formatCurrency(statistics.grossSpending, currencyCode)}
+          </Text>
+          <Text className="text-xs" style={{ color: colors.blue.text }} numberOfLines={1}>
+            {t("analytics.stats.refunds", {
+              amount: formatCurrency(statistics.totalRefunds, currencyCode),
+            })}
+          </Text>
+        </Card>
+
+        <Card className="flex-1 p-3" style={{ backgroundColor: colors.green.bg }}>
+          <Text
+            className="text-xs font-bold uppercase"
+            style={{ color: colors.green.text }}
+            numberOfLines={1}
+            adjustsFontSizeToFit
+            minimumFontScale={0.5}
+          >
+            {t("analytics.stats.netCashFlow")}
+          </Text>
+          <Text
+            className="mt-2 text-lg font-semibold"
+            style={{ color: colors.green.accent, ...amountTextStyle }}
+            numberOfLines={1}
+            adjustsFontSizeToFit
+            minimumFontScale={0.5}
+          >
+            {formatCurrency(statistics.netCashFlow, currencyCode)}
+          </Text>
+          <Text
+            className="text-xs"
+            style={{ color: colors.green.text }}
+            numberOfLines={1}
+          >
+            {t("analytics.stats.income", {
+              amount: formatCurrency(statistics.totalIncome, currencyCode),
+            })}
+          </Text>
+        </Card>
+      </View>
     </View>
   )
 })
@@ -0,0 +1,118 @@
+import { memo } from "react"
+import { Pressable, Text, View } from "react-native"
+import { CollapsibleSection } from "./CollapsibleSection"
+import type { TagChartDataItem } from "../../utils/analytics/aggregations"
+import { getChartColors } from "../../constants/palette"
+import { useThemeScheme } from "../../hooks/use-theme-colors"
+import { useTranslation } from "react-i18next"
+import { formatCurrency } from "../../utils/currency"
+import { UI_OPACITY } from "../../constants/ui-tokens"
+
+interface TagChartSectionProps {
+  data: TagChartDataItem[]
+  currencyCode?: string
+  selectedTags: string[]
+  onTagSelect: (tag: string) => void
+}
+
+// Memoized bar row for one tag
+const TagRow = memo(function TagRow({
+  item,
+  currencyCode,
+  maxValue,
+  isSelected,
+  selectedBgColor,
+  onPress,
+}: {
+  item: TagChartDataItem
+  currencyCode: string
+  maxValue: number
+  isSelected: boolean
+  selectedBgColor: string
+  onPress: () => void
+}) {
+  const { t } = useTranslation()
+
+  return (
+    <Pressable
+      onPress={onPress}
+      accessibilityLabel={`${item.tag}, ${item.percentage.toFixed(1)}%, ${formatCurrency(item.value, currencyCode)}`}
+      accessibilityState={{ selected: isSelected }}
+    >
+      <View
+        className="gap-1 rounded-control p-2"
+        style={isSelected ? { backgroundColor: selectedBgColor } : undefined}
+      >
+        <View className="flex-row items-center justify-between gap-2">
+          <Text
+            className={`flex-shrink ${isSelected ? "font-bold" : "font-normal"} text-foreground`}
+            numberOfLines={1}
+          >
+            #{item.tag}
+          </Text>
+          <View className="flex-row items-center gap-2">
+            <Text className="text-foreground" style={{ opacity: UI_OPACITY.subtle }}>
+              {t("analytics.charts.tags.count", { count: item.count })}
+            </Text>
+            <Text className="font-bold text-foreground">
+              {formatCurrency(item.value, currencyCode)}
+            </Text>
+          </View>
+        </View>
+        <View className="h-2 w-full overflow-hidden rounded-control bg-surface">
+          <View
+            className="h-2 rounded-control"
+            style={{
+              width: `${maxValue > 0 ? (item.value / maxValue) * 100 : 0}%`,
+              backgroundColor: item.color,
+            }}
+          />
+        </View>
+      </View>
+    </Pressable>
+  )
+})
+
+/**
+ * TagChartSection - Spending per tag as horizontal bars
+ * Tags overlap, so bars are scaled to the largest tag rather than shown as a pie.
+ * Tapping a tag toggles it in the tag filter.
+ */
+export const TagChartSection = memo(function TagChartSection({
+  data,
+  currencyCode = "INR",
+  selectedTags,
+  onTagSelect,
+}: TagChartSectionProps) {
+  const { t } = useTranslation()
+  const chartColors = getChartColors(useThemeScheme())
+
+  if (data.length === 0) {
+    return null
+  }
+
+  const maxValue = data[0].value
+
+  return (
+    <CollapsibleSection title={t("analytics.charts.tags.title")}>
+      <View className="gap-2">
+        <Text className="text-xs text-foreground" style={{ opacity: UI_OPACITY.subtle }}>
+          {t("analytics.charts.tags.help")}
+        </Text>
+        {data.map((item) => (
+          <TagRow
+            key={item.tag}
+            item={item}
+            currencyCode={currencyCode}
+            maxValue={maxValue}
+            isSelected={selectedTags.includes(item.tag)}
+            selectedBgColor={chartColors.selectedBg}
+            onPress={() => onTagSelect(item.tag)}
+          />
+        ))}
+      </View>
+    </CollapsibleSection>
+  )
+})
+
+export type { TagChartSectionProps }
@@ -0,0 +1,72 @@
+import { memo, useCallback } from "react"
+import { Text } from "react-native"
+import { Tag } from "lucide-react-native"
+import { useTranslation } from "react-i18next"
+import { FilterChip, FilterChipBar } from "./FilterChipBar"
+import { Button } from "../ui/Button"
+
+interface TagFilterProps {
+  /** Tags in use, most used first */
+  availableTags: string[]
+  selectedTags: string[]
+  onChange: (tags: string[]) => void
+}
+
+/**
+ * TagFilter - Multi-select tag chips for filtering analytics
+ * Includes "All" option to reset selection; selected tags no longer in use stay visible
+ */
+export const TagFilter = memo(function TagFilter({
+  availableTags,
+  selectedTags,
+  onChange,
+}: TagFilterProps) {
+  const { t } = useTranslation()
+  const isAllSelected = selectedTags.length === 0
+
+  // Keep stale selections visible so they can be cleared
+  const tags = [
+    ...availableTags,
+    ...selectedTags.filter((tag) => !availableTags.includes(tag)),
+  ]
+
+  const handleAllPress = useCallback(() => {
+    onChange([])
+  }, [onChange])
+
+  const handleTagPress = useCallback(
+    (tag: string) => {
+      if (selectedTags.includes(tag)) {
+        onChange(selectedTags.filter((selected) => selected !== tag))
+      } else {
+        onChange([...selectedTags, tag])
+      }
+    },
+    [selectedTags, onChange]
+  )
+
+  return (
+    <FilterChipBar>
+      <Button
+        size="chip"
+        variant={isAllSelected ? "accent" : "outline"}
+        onPress={handleAllPress}
+        accessibilityState={{ selected: isAllSelected }}
+      >
+        <Text>{t("common.all")}</Text>
+      </Button>
+
+      {tags.map((tag) => (
+        <FilterChip
+          key={tag}
+          label={tag}
+          selected={selectedTags.includes(tag)}
+          onPress={() => handleTagPress(tag)}
+          Icon={Tag}
+        />
+      ))}
+    </FilterChipBar>
+  )
+})
+
+export type { TagFilterProps }
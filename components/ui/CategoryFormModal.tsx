@@ -4,6 +4,7 @@ import { useSafeAreaInsets } from "react-native-safe-area-context"
 import { Check } from "lucide-react-native"
 import { Category } from "../../types/category"
 import { validateCategoryForm } from "../../utils/category-validation"
+import { getAmountInputProps, parseAmountInput } from "../../utils/amount-input"
 import { IconPickerSheet } from "./IconPickerSheet"
 import { ColorPickerSheet } from "./ColorPickerSheet"
 import { DynamicCategoryIcon } from "./DynamicCategoryIcon"
@@ -16,6 +17,8 @@ import { Label } from "./Label"
 import { useTranslation } from "react-i18next"
 import { UI_RADIUS, UI_SPACE, UI_ICON_SIZE } from "../../constants/ui-tokens"
 
+const budgetInputProps = getAmountInputProps(false)
+
 const layoutStyles = {
   iconPreview: {
     width: UI_ICON_SIZE.xxxlarge,
@@ -43,6 +46,8 @@ interface CategoryFormModalProps {
   category?: Category
   /** Existing category labels for uniqueness validation */
   existingLabels: string[]
+  /** Currency the monthly budget is expressed in */
+  budgetCurrency: string
   /** Callback when category is saved */
   onSave: (category: Omit<Category, "order" | "updatedAt">) => void
 }
@@ -56,6 +61,7 @@ export function CategoryFormModal({
   onClose,
   category,
   existingLabels,
+  budgetCurrency,
   onSave,
 }: CategoryFormModalProps) {
   // Get safe area insets
@@ -69,6 +75,7 @@ export function CategoryFormModal({
   const [label, setLabel] = useState("")
   const [icon, setIcon] = useState("Circle")
   const [color, setColor] = useState<string>(CATEGORY_COLORS.Other)
+  const [budget, setBudget] = useState("")
 
   // Icon picker state
   const [iconPickerOpen, setIconPickerOpen] = useState(false)
@@ -97,6 +104,10 @@ export function CategoryFormModal({
     if (color !== (category?.color ?? CATEGORY_COLORS.Other)) {
       setColor(category?.color ?? CATEGORY_COLORS.Other)
     }
+    const initialBudget = category?.monthlyBudget ? String(category.monthlyBudget) : ""
+    if (budget !== initialBudget) {
+      setBudget(initialBudget)
+    }
     if (Object.keys(errors).length > 0) {
       setErrors({})
     }
@@ -118,6 +129,20 @@ export function CategoryFormModal({
     [errors.label]
   )
 
+  // Handle budget change with error clearing
+  const handleBudgetChange = useCallback(
+    (text: string) => {
+      setBudget(text)
+      if (errors.budget) {
+        setErrors((prev) => {
+          const { budget: _, ...rest } = prev
+          return rest
+        })
+      }
+    },
+    [errors.budget]
+  )
+
   // Handle icon selection
   const handleIconSelect = useCallback((iconName: string) => {
     setIcon(iconName)
@@ -139,6 +164,20 @@ export function CategoryFormModal({
       t
     )
 
+    // Empty budget means "no budget"; otherwise it must be a positive amount
+    let monthlyBudget: number | undefined
+    if (budget.trim()) {
+      const parsedBudget = parseAmountInput(budget, { allowMathExpressions: false })
+      if (!parsedBudget.success || parsedBudget.value === undefined) {
+        setErrors({
+          ...(validation.success ? {} : validation.errors),
+          budget: t("validation.category.budgetInvalid"),
+        })
+        return
+      }
+      monthlyBudget = parsedBudget.value
+    }
+
     if (!validation.success) {
       setErrors(validation.errors)
       return
@@ -150,9 +189,21 @@ export function CategoryFormModal({
       icon,
       color,
       isDefault: category?.isDefault ?? false,
+      monthlyBudget,
     })
     onClose()
-  }, [label, icon, color, existingLabels, isEditMode, category, onSave, onClose, t])
+  }, [
+    label,
+    icon,
+    color,
+    budget,
+    existingLabels,
+    isEditMode,
+    category,
+    onSave,
+    onClose,
+    t,
+  ])
 
   // Handle close
   const handleClose = useCallback(() => {
@@ -280,6 +331,26 @@ export function CategoryFormModal({
             </Pressable>
           </View>
 
+          {/* Monthly Budget Input */}
+          <View className="gap-2">
+            <Label className="opacity-80">
+              {t("settings.categories.form.budgetLabel")} {t("common.optional")}
+            </Label>
+            <Input
+              className={errors.budget ? "border-error" : undefined}
+              placeholder={t("settings.categories.form.budgetPlaceholder")}
+              keyboardType={budgetInputProps.keyboardType}
+              inputMode={budgetInputProps.inputMode}
+              value={budget}
+              onChangeText={handleBudgetChange}
+              accessibilityLabel={t("settings.categories.form.budgetLabel")}
+            />
+            {errors.budget && <Text className="text-xs text-error">{errors.budget}</Text>}
+            <Text className="text-xs text-foreground opacity-60">
+              {t("settings.categories.form.budgetHelp", { currency: budgetCurrency })}
+            </Text>
+          </View>
+
           {/* Action Buttons */}
           <View className="flex-row justify-end gap-3 mt-2">
             <Button size="control" variant="ghost" onPress={handleClose}>
@@ -5,11 +5,14 @@ import { Check } from "lucide-react-native"
 import { Label } from "./Label"
 import { Input } from "./Input"
 import { Button } from "./Button"
+import { TransactionKindSelector } from "./TransactionKindSelector"
+import { TagInput } from "./TagInput"
 import {
   Expense,
   ExpenseCategory,
   PaymentMethodType,
   PaymentMethod,
+  TransactionKind,
 } from "../../types/expense"
 import { PAYMENT_METHODS } from "../../constants/payment-methods"
 import { useTranslation } from "react-i18next"
@@ -17,12 +20,15 @@ import { validateExpenseForm } from "../../utils/expense-validation"
 import { validateIdentifier } from "../../utils/payment-method-validation"
 import { CategoryCard } from "./CategoryCard"
 import { PaymentMethodCard } from "./PaymentMethodCard"
-import { useCategories, useSettings } from "../../stores/hooks"
+import { useCategories, useDerivedExpenseData, useSettings } from "../../stores/hooks"
 import { isPaymentInstrumentMethod } from "../../services/payment-instruments"
 import type { PaymentInstrument } from "../../types/payment-instrument"
 import { getCurrencySymbol, getFallbackCurrency } from "../../utils/currency"
+import { getTransactionKind, toStoredTransactionKind } from "../../utils/transaction-kind"
+import { getExpenseTags, toStoredTags } from "../../utils/tags"
 import { UI_OPACITY, UI_FONT_WEIGHT, UI_BORDER_WIDTH } from "../../constants/ui-tokens"
 import { useThemeColors } from "../../hooks/use-theme-colors"
+import { useDeviceNames } from "../../hooks/use-device-names"
 
 const EMPTY_INSTRUMENTS: PaymentInstrument[] = []
 import { PaymentInstrumentMethod } from "../../types/payment-instrument"
@@ -55,13 +61,17 @@ export function EditExpenseModal({
   const { t } = useTranslation()
   const theme = useThemeColors()
   const { settings, updateSettings } = useSettings()
+  const { availableTags } = useDerivedExpenseData()
+  const getDeviceLabel = useDeviceNames()
 
   const allInstruments = settings.paymentInstruments ?? EMPTY_INSTRUMENTS
 
   // Form state - pre-populated from expense
+  const [kind, setKind] = useState<TransactionKind>(getTransactionKind(expense))
   const [amount, setAmount] = useState(expense.amount.toString())
   const [category, setCategory] = useState<ExpenseCategory>(expense.category)
   const [note, setNote] = useState(expense.note || "")
+  const [tags, setTags] = useState<string[]>(getExpenseTags(expense))
   const [paymentMethodType, setPaymentMethodType] = useState<
     PaymentMethodType | undefined
   >(expense.paymentMethod?.type)
@@ -169,16 +179,20 @@ export function EditExpenseModal({
 
     onSave(expense.id, {
       amount: parseFloat(amount),
+      kind: toStoredTransactionKind(kind),
       category,
       date: expense.date,
       note,
+      tags: toStoredTags(tags),
       paymentMethod,
     })
     onClose()
   }, [
+    kind,
     amount,
     category,
     note,
+    tags,
     paymentMethodType,
     paymentMethodId,
     paymentInstrumentId,
@@ -191,9 +205,11 @@ export function EditExpenseModal({
 
   // Handle close - reset form to original values
   const handleClose = useCallback(() => {
+    setKind(getTransactionKind(expense))
     setAmount(expense.amount.toString())
     setCategory(expense.category)
     setNote(expense.note || "")
+    setTags(getExpenseTags(expense))
     setPaymentMethodType(expense.paymentMethod?.type)
     setPaymentMethodId(expense.paymentMethod?.identifier || "")
     setPaymentInstrumentId(expense.paymentMethod?.instrumentId)
@@ -218,6 +234,14 @@ export function EditExpenseModal({
         scroll
       >
         <View className="gap-4 pb-5">
+          {/* Transaction Kind */}
+          <View className="gap-2">
+            <Label style={{ opacity: UI_OPACITY.strong }}>
+              {t("history.editDialog.fields.kind")}
+            </Label>
+            <TransactionKindSelector value={kind} onChange={setKind} />
+          </View>
+
           {/* Amount Input */}
           <View className="gap-2">
             <Label style={{ opacity: UI_OPACITY.strong }}>
@@ -296,6 +320,19 @@ export function EditExpenseModal({
             />
           </View>
 
+          {/* Tags Input */}
+          <View className="gap-2">
+            <Label style={{ opacity: UI_OPACITY.strong }}>
+              {t("history.editDialog.fields.tags")}
+            </Label>
+            <TagInput
+              value={tags}
+              onChange={setTags}
+              knownTags={availableTags}
+              accessibilityLabel={t("history.editDialog.fields.tags")}
+            />
+          </View>
+
           {/* Payment Method Selection */}
           <View className="gap-2">
             <Label style={{ opacity: UI_OPACITY.strong }}>
@@ -369,6 +406,32 @@ export function EditExpenseModal({
             )}
           </View>
 
+          {/* Device attribution */}
+          {expense.createdBy || expense.updatedBy ? (
+            <View className="gap-0.5">
+              {expense.createdBy ? (
+                <Text
+                  className="text-xs text-foreground"
+                  style={{ opacity: UI_OPACITY.subtle }}
+                >
+                  {t("history.editDialog.attribution.created", {
+                    device: getDeviceLabel(expense.createdBy),
+                  })}
+                </Text>
+              ) : null}
+              {expense.updatedBy && expense.updatedAt !== expense.createdAt ? (
+                <Text
+                  className="text-xs text-foreground"
+                  style={{ opacity: UI_OPACITY.subtle }}
+                >
+                  {t("history.editDialog.attribution.updated", {
+                    device: getDeviceLabel(expense.updatedBy),
+                  })}
+                </Text>
+              ) : null}
+            </View>
+          ) : null}
+
           {/* Action Buttons */}
           <View className="mt-2 flex-row justify-end gap-3">
             <Button size="control" variant="ghost" onPress={handleClose}>
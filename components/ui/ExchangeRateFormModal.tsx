@@ -0,0 +1,177 @@
+import { useCallback, useState } from "react"
+import { Keyboard, Text, View } from "react-native"
+import { Check } from "lucide-react-native"
+import { useTranslation } from "react-i18next"
+import { format } from "date-fns"
+import { AppSheetScaffold } from "./AppSheetScaffold"
+import { Button } from "./Button"
+import { Input } from "./Input"
+import { Label } from "./Label"
+import type { ExchangeRate } from "../../types/exchange-rate"
+import type { ExchangeRateInput } from "../../stores/hooks/use-exchange-rates"
+import { validateExchangeRateInput } from "../../services/exchange-rates"
+import { getAmountInputProps } from "../../utils/amount-input"
+
+const rateInputProps = getAmountInputProps(false)
+
+interface ExchangeRateFormModalProps {
+  open: boolean
+  onClose: () => void
+  rate?: ExchangeRate
+  /** Currency new rates convert into */
+  defaultCurrency: string
+  onSave: (input: ExchangeRateInput) => void
+}
+
+export function ExchangeRateFormModal({
+  open,
+  onClose,
+  rate,
+  defaultCurrency,
+  onSave,
+}: ExchangeRateFormModalProps) {
+  const { t } = useTranslation()
+
+  return (
+    <AppSheetScaffold
+      open={open}
+      onClose={onClose}
+      title={rate ? t("exchangeRates.form.editTitle") : t("exchangeRates.form.addTitle")}
+      snapPoints={[80]}
+      scroll
+    >
+      {open ? (
+        <ExchangeRateForm
+          key={rate?.id ?? "new"}
+          onClose={onClose}
+          rate={rate}
+          defaultCurrency={defaultCurrency}
+          onSave={onSave}
+        />
+      ) : null}
+    </AppSheetScaffold>
+  )
+}
+
+function ExchangeRateForm({
+  onClose,
+  rate,
+  defaultCurrency,
+  onSave,
+}: {
+  onClose: () => void
+  rate?: ExchangeRate
+  defaultCurrency: string
+  onSave: ExchangeRateFormModalProps["onSave"]
+}) {
+  const { t } = useTranslation()
+  const isEditMode = !!rate
+
+  const [from, setFrom] = useState(rate?.from ?? "")
+  const [to, setTo] = useState(rate?.to ?? defaultCurrency)
+  const [rateText, setRateText] = useState(rate ? String(rate.rate) : "")
+  const [effectiveDate, setEffectiveDate] = useState(
+    rate?.effectiveDate ?? format(new Date(), "yyyy-MM-dd")
+  )
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const handleSave = useCallback(() => {
+    Keyboard.dismiss()
+
+    const validation = validateExchangeRateInput({
+      from,
+      to,
+      rate: rateText,
+      effectiveDate,
+    })
+
+    if (!validation.success) {
+      setErrors(validation.errors)
+      return
+    }
+
+    onSave(validation.values)
+    onClose()
+  }, [effectiveDate, from, onClose, onSave, rateText, to])
+
+  return (
+    <View className="gap-4 pb-5">
+      <View className="flex-row gap-3">
+        <View className="flex-1 gap-2">
+          <Label className="opacity-80">{t("exchangeRates.form.from")}</Label>
+          <Input
+            className={errors.from ? "border-error" : ""}
+            placeholder="USD"
+            value={from}
+            onChangeText={setFrom}
+            autoCapitalize="characters"
+            maxLength={3}
+            accessibilityLabel={t("exchangeRates.form.from")}
+          />
+          {errors.from && <Text className="text-xs text-error">{errors.from}</Text>}
+        </View>
+        <View className="flex-1 gap-2">
+          <Label className="opacity-80">{t("exchangeRates.form.to")}</Label>
+          <Input
+            className={errors.to ? "border-error" : ""}
+            placeholder={defaultCurrency}
+            value={to}
+            onChangeText={setTo}
+            autoCapitalize="characters"
+            maxLength={3}
+            accessibilityLabel={t("exchangeRates.form.to")}
+          />
+          {errors.to && <Text className="text-xs text-error">{errors.to}</Text>}
+        </View>
+      </View>
+
+      <View className="gap-2">
+        <Label className="opacity-80">{t("exchangeRates.form.rate")}</Label>
+        <Input
+          className={errors.rate ? "border-error" : ""}
+          placeholder="83.25"
+          value={rateText}
+          onChangeText={setRateText}
+          accessibilityLabel={t("exchangeRates.form.rate")}
+          {...rateInputProps}
+        />
+        <Text className="text-xs text-foreground opacity-60">
+          {t("exchangeRates.form.rateHelp", {
+            from: from.trim().toUpperCase() || "USD",
+            to: to.trim().toUpperCase() || defaultCurrency,
+          })}
+        </Text>
+        {errors.rate && <Text className="text-xs text-error">{errors.rate}</Text>}
+      </View>
+
+      <View className="gap-2">
+        <Label className="opacity-80">{t("exchangeRates.form.effectiveDate")}</Label>
+        <Input
+          className={errors.effectiveDate ? "border-error" : ""}
+          placeholder="YYYY-MM-DD"
+          value={effectiveDate}
+          onChangeText={setEffectiveDate}
+          maxLength={10}
+          accessibilityLabel={t("exchangeRates.form.effectiveDate")}
+        />
+        {errors.effectiveDate && (
+          <Text className="text-xs text-error">{errors.effectiveDate}</Text>
+        )}
+      </View>
+
+      <View className="flex-row justify-end gap-3 mt-2">
+        <Button size="control" variant="ghost" onPress={onClose}>
+          {t("common.cancel")}
+        </Button>
+        <Button size="control" variant="accent" className="gap-2" onPress={handleSave}>
+          <Check size={20} />
+          <Text className="font-bold">
+            {isEditMode ? t("common.save") : t("common.add")}
+          </Text>
+        </Button>
+      </View>
+    </View>
+  )
+}
+
+export type { ExchangeRateFormModalProps }
@@ -12,6 +12,8 @@ import { AmountText } from "./AmountText"
 import { DynamicCategoryIcon } from "./DynamicCategoryIcon"
 import { formatDate } from "../../utils/date"
 import { formatCurrency } from "../../utils/currency"
+import { getTransactionKind } from "../../utils/transaction-kind"
+import { getExpenseTags } from "../../utils/tags"
 import { useTranslation } from "react-i18next"
 import { UI_OPACITY, UI_FONT_WEIGHT, UI_ICON_SIZE } from "../../constants/ui-tokens"
 import { IconActionButton } from "./IconActionButton"
@@ -62,6 +64,13 @@ export const ExpenseRow = memo(function ExpenseRow({
   const categoryLabel =
     categoryInfo.label === "Other" ? t("settings.categories.other") : categoryInfo.label
 
+  // Money out is shown as negative, money in as positive and transfers unsigned
+  const kind = getTransactionKind(expense)
+  const amountType =
+    kind === "expense" ? "expense" : kind === "transfer" ? "neutral" : "income"
+  const amountSign = kind === "expense" ? "-" : kind === "transfer" ? "" : "+"
+  const tags = getExpenseTags(expense)
+
   return (
     <ExpenseCard>
       <View className="flex-1 flex-row items-center gap-3">
@@ -84,6 +93,7 @@ export const ExpenseRow = memo(function ExpenseRow({
             style={{ opacity: UI_OPACITY.subtle }}
           >
             {formatDate(expense.date, subtitleDate)} • {categoryLabel}
+            {kind !== "expense" ? ` • ${t(`transactionKinds.${kind}`)}` : null}
           </Text>
           {paymentMethodDisplay ? (
             <Text
@@ -93,12 +103,22 @@ export const ExpenseRow = memo(function ExpenseRow({
               {paymentMethodDisplay}
             </Text>
           ) : null}
+          {tags.length > 0 ? (
+            <Text
+              className="text-xs text-foreground"
+              style={{ opacity: UI_OPACITY.faint }}
+              numberOfLines={1}
+            >
+              {tags.map((tag) => `#${tag}`).join(" ")}
+            </Text>
+          ) : null}
         </View>
       </View>
 
       <View className="flex-row items-center gap-3">
-        <AmountText type="expense">
-          -{formatCurrency(expense.amount, expense.currency)}
+        <AmountText type={amountType}>
+          {amountSign}
+          {formatCurrency(expense.amount, expense.currency)}
         </AmountText>
 
         {showActions ? (
@@ -0,0 +1,199 @@
+import { useCallback, useState } from "react"
+import { Pressable, Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { BookOpen, Check, ChevronDown } from "lucide-react-native"
+import { AppSheetScaffold } from "./AppSheetScaffold"
+import { Button } from "./Button"
+import { Input } from "./Input"
+import { Label } from "./Label"
+import { useLedgers, useNotifications } from "../../stores/hooks"
+import { useSyncMachine } from "../../hooks/use-sync-machine"
+import { useAutoSyncInFlight } from "../../hooks/use-auto-sync-in-flight"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+import { DEFAULT_LEDGER_ID, type Ledger } from "../../services/ledgers"
+import { UI_ICON_SIZE, UI_OPACITY } from "../../constants/ui-tokens"
+
+function useLedgerName() {
+  const { t } = useTranslation()
+  return useCallback(
+    (ledger: Ledger) =>
+      ledger.name ||
+      (ledger.id === DEFAULT_LEDGER_ID ? t("ledgers.defaultName") : ledger.id),
+    [t]
+  )
+}
+
+/**
+ * Tab header button showing the active ledger. Opens a sheet to switch,
+ * create or rename ledgers. Switching is disabled while a sync, manual or
+ * automatic, is running or waiting on a preview or conflicts, as those
+ * belong to the active ledger.
+ */
+export function LedgerSwitcher() {
+  const { t } = useTranslation()
+  const theme = useThemeColors()
+  const getLedgerName = useLedgerName()
+  const { addNotification } = useNotifications()
+  const { ledgers, activeLedger, isSwitching, switchLedger, addLedger, renameLedger } =
+    useLedgers()
+  const { isSyncing, isPreview, isConflict } = useSyncMachine()
+  const isAutoSyncing = useAutoSyncInFlight()
+
+  const [open, setOpen] = useState(false)
+  const [newName, setNewName] = useState("")
+  const [rename, setRename] = useState("")
+
+  const isBusy = isSwitching || isSyncing || isAutoSyncing || isPreview || isConflict
+
+  const handleOpen = useCallback(() => {
+    setNewName("")
+    setRename(activeLedger.name)
+    setOpen(true)
+  }, [activeLedger.name])
+
+  const handleSwitch = useCallback(
+    async (ledger: Ledger) => {
+      if (ledger.id === activeLedger.id) return
+      try {
+        await switchLedger(ledger.id)
+        setOpen(false)
+        addNotification(t("ledgers.switched", { name: getLedgerName(ledger) }), "success")
+      } catch (error) {
+        console.warn("Failed to switch ledger:", error)
+        addNotification(t("ledgers.errors.switchFailed"), "error")
+      }
+    },
+    [activeLedger.id, addNotification, getLedgerName, switchLedger, t]
+  )
+
+  const handleAdd = useCallback(async () => {
+    const name = newName.trim()
+    if (!name) return
+    try {
+      const ledger = await addLedger(name)
+      setOpen(false)
+      addNotification(t("ledgers.created", { name: ledger.name }), "success")
+    } catch (error) {
+      console.warn("Failed to create ledger:", error)
+      addNotification(t("ledgers.errors.createFailed"), "error")
+    }
+  }, [addLedger, addNotification, newName, t])
+
+  const handleRename = useCallback(async () => {
+    await renameLedger(activeLedger.id, rename)
+    addNotification(t("ledgers.renamed"), "success")
+  }, [activeLedger.id, addNotification, rename, renameLedger, t])
+
+  return (
+    <>
+      <Pressable
+        onPress={handleOpen}
+        role="button"
+        accessibilityLabel={t("ledgers.switcherLabel", {
+          name: getLedgerName(activeLedger),
+        })}
+        hitSlop={8}
+        className="mr-4 flex-row items-center gap-1"
+        style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+      >
+        <BookOpen size={UI_ICON_SIZE.small} color={theme.foreground} />
+        <Text className="max-w-[140px] text-sm text-foreground" numberOfLines={1}>
+          {getLedgerName(activeLedger)}
+        </Text>
+        <ChevronDown
+          size={UI_ICON_SIZE.small}
+          color={theme.foreground}
+          style={{ opacity: UI_OPACITY.subtle }}
+        />
+      </Pressable>
+
+      <AppSheetScaffold
+        open={open}
+        onClose={() => setOpen(false)}
+        title={t("ledgers.title")}
+        subtitle={t("ledgers.subtitle")}
+        snapPoints={[75]}
+        unmountWhenClosed
+        scroll
+      >
+        <View className="gap-4">
+          {isBusy && !isSwitching ? (
+            <Text
+              className="text-xs text-foreground"
+              style={{ opacity: UI_OPACITY.subtle }}
+            >
+              {t("ledgers.busy")}
+            </Text>
+          ) : null}
+
+          <View className="gap-2">
+            {ledgers.map((ledger) => {
+              const isActive = ledger.id === activeLedger.id
+              return (
+                <Pressable
+                  key={ledger.id}
+                  onPress={() => void handleSwitch(ledger)}
+                  disabled={isBusy || isActive}
+                  role="button"
+                  accessibilityLabel={getLedgerName(ledger)}
+                  accessibilityState={{ selected: isActive, disabled: isBusy }}
+                  style={({ pressed }) => [{ opacity: pressed ? 0.6 : 1 }]}
+                >
+                  <View className="flex-row items-center justify-between rounded-card bg-background px-3 py-3">
+                    <Label>{getLedgerName(ledger)}</Label>
+                    {isActive ? (
+                      <Check size={UI_ICON_SIZE.medium} color={theme.accent} />
+                    ) : null}
+                  </View>
+                </Pressable>
+              )
+            })}
+          </View>
+
+          <View className="gap-2">
+            <Label>{t("ledgers.renameTitle")}</Label>
+            <Input
+              value={rename}
+              onChangeText={setRename}
+              placeholder={getLedgerName(activeLedger)}
+              autoCorrect={false}
+            />
+            <Button
+              variant="outline"
+              onPress={() => void handleRename()}
+              disabled={
+                rename.trim() === activeLedger.name ||
+                (rename.trim().length === 0 && activeLedger.id !== DEFAULT_LEDGER_ID)
+              }
+            >
+              {t("ledgers.rename")}
+            </Button>
+          </View>
+
+          <View className="gap-2">
+            <Label>{t("ledgers.newTitle")}</Label>
+            <Text
+              className="text-xs text-foreground"
+              style={{ opacity: UI_OPACITY.subtle }}
+            >
+              {t("ledgers.newHelp")}
+            </Text>
+            <Input
+              value={newName}
+              onChangeText={setNewName}
+              placeholder={t("ledgers.newPlaceholder")}
+              autoCorrect={false}
+            />
+            <Button
+              variant="accent"
+              onPress={() => void handleAdd()}
+              disabled={isBusy || newName.trim().length === 0}
+            >
+              {isSwitching ? t("ledgers.switching") : t("ledgers.create")}
+            </Button>
+          </View>
+        </View>
+      </AppSheetScaffold>
+    </>
+  )
+}
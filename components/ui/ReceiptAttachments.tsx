@@ -0,0 +1,174 @@
+import { useCallback, useMemo, useState } from "react"
+import { Image, Pressable, Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { Download, ImagePlus, X } from "lucide-react-native"
+import { Button } from "./Button"
+import { Spinner } from "./Spinner"
+import { AppSheetScaffold } from "./AppSheetScaffold"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+import { UI_ICON_SIZE, UI_OPACITY } from "../../constants/ui-tokens"
+import {
+  getLocalAttachmentFile,
+  pickReceiptImages,
+} from "../../services/attachment-storage"
+import { downloadAttachment } from "../../services/remote-fetch"
+
+const THUMBNAIL_SIZE = 72
+
+interface ReceiptAttachmentsProps {
+  value: string[]
+  onChange: (attachments: string[]) => void
+  /** Called with a user-facing message when picking or downloading fails */
+  onError: (message: string) => void
+}
+
+/**
+ * ReceiptAttachments - Receipt images attached to an expense
+ * Shows thumbnails of receipts on this device; receipts that only exist in the
+ * sync repo are downloaded when tapped.
+ */
+export function ReceiptAttachments({
+  value,
+  onChange,
+  onError,
+}: ReceiptAttachmentsProps) {
+  const { t } = useTranslation()
+  const theme = useThemeColors()
+  // URIs of receipts downloaded while this view is open
+  const [downloaded, setDownloaded] = useState<Record<string, string>>({})
+  const [downloading, setDownloading] = useState<string | null>(null)
+  const [viewing, setViewing] = useState<string | null>(null)
+
+  const localUris = useMemo(() => {
+    const uris: Record<string, string> = {}
+    for (const name of value) {
+      const file = getLocalAttachmentFile(name)
+      if (downloaded[name]) {
+        uris[name] = downloaded[name]
+      } else if (file.exists) {
+        uris[name] = file.uri
+      }
+    }
+    return uris
+  }, [value, downloaded])
+
+  const handleAdd = useCallback(async () => {
+    const result = await pickReceiptImages()
+    if (!result.success) {
+      onError(result.error ?? t("attachments.errors.pickFailed"))
+      return
+    }
+    if (result.data) {
+      onChange([...value, ...result.data])
+    }
+  }, [value, onChange, onError, t])
+
+  const handleOpen = useCallback(
+    async (name: string) => {
+      if (localUris[name]) {
+        setViewing(name)
+        return
+      }
+      setDownloading(name)
+      const result = await downloadAttachment(name)
+      setDownloading(null)
+      if (!result.success || !result.data) {
+        onError(result.error ?? t("attachments.errors.downloadFailed"))
+        return
+      }
+      const uri = result.data
+      setDownloaded((prev) => ({ ...prev, [name]: uri }))
+      setViewing(name)
+    },
+    [localUris, onError, t]
+  )
+
+  const handleRemove = useCallback(
+    (name: string) => {
+      onChange(value.filter((item) => item !== name))
+    },
+    [value, onChange]
+  )
+
+  return (
+    <View className="gap-2">
+      {value.length > 0 ? (
+        <View className="flex-row flex-wrap gap-2">
+          {value.map((name, index) => {
+            const uri = localUris[name]
+            return (
+              <View key={name}>
+                <Pressable
+                  onPress={() => void handleOpen(name)}
+                  accessibilityRole="button"
+                  accessibilityLabel={t("attachments.open", { index: index + 1 })}
+                  className="items-center justify-center overflow-hidden rounded-control border border-border bg-muted"
+                  style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+                >
+                  {uri ? (
+                    <Image
+                      source={{ uri }}
+                      style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+                      resizeMode="cover"
+                    />
+                  ) : downloading === name ? (
+                    <Spinner size="small" />
+                  ) : (
+                    <View className="items-center gap-1">
+                      <Download size={UI_ICON_SIZE.regular} color={theme.foreground} />
+                      <Text
+                        className="text-xs text-foreground"
+                        style={{ opacity: UI_OPACITY.subtle }}
+                      >
+                        {t("attachments.download")}
+                      </Text>
+                    </View>
+                  )}
+                </Pressable>
+                <Pressable
+                  onPress={() => handleRemove(name)}
+                  accessibilityRole="button"
+                  accessibilityLabel={t("attachments.remove", { index: index + 1 })}
+                  hitSlop={8}
+                  className="absolute -right-1 -top-1 rounded-full border border-border bg-surface p-0.5"
+                >
+                  <X size={UI_ICON_SIZE.micro} color={theme.foreground} />
+                </Pressable>
+              </View>
+            )
+          })}
+        </View>
+      ) : null}
+
+      <View className="flex-row">
+        <Button
+          variant="outline"
+          size="control"
+          className="gap-2"
+          onPress={() => void handleAdd()}
+          accessibilityLabel={t("attachments.add")}
+        >
+          <ImagePlus size={UI_ICON_SIZE.small} />
+          {t("attachments.add")}
+        </Button>
+      </View>
+
+      <AppSheetScaffold
+        open={viewing !== null}
+        onClose={() => setViewing(null)}
+        title={t("attachments.viewerTitle")}
+        snapPoints={[90]}
+        unmountWhenClosed
+      >
+        {viewing && localUris[viewing] ? (
+          <Image
+            source={{ uri: localUris[viewing] }}
+            style={{ flex: 1 }}
+            resizeMode="contain"
+            accessibilityLabel={t("attachments.viewerTitle")}
+          />
+        ) : null}
+      </AppSheetScaffold>
+    </View>
+  )
+}
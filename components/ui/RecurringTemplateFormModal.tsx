@@ -0,0 +1,446 @@
+import { useCallback, useState } from "react"
+import { Keyboard, Platform, Text, View } from "react-native"
+import DateTimePicker, {
+  DateTimePickerEvent,
+} from "@react-native-community/datetimepicker"
+import { Calendar, Check } from "lucide-react-native"
+import { useTranslation } from "react-i18next"
+import { format, parseISO, startOfDay } from "date-fns"
+import { AppSheetScaffold } from "./AppSheetScaffold"
+import { Button } from "./Button"
+import { CategoryCard } from "./CategoryCard"
+import { Input } from "./Input"
+import { Label } from "./Label"
+import { PaymentMethodCard } from "./PaymentMethodCard"
+import { Switch } from "./Switch"
+import { PAYMENT_METHODS } from "../../constants/payment-methods"
+import { useCategories } from "../../stores/hooks"
+import type { RecurringTemplateInput } from "../../stores/hooks/use-recurring-templates"
+import type { PaymentMethodType } from "../../types/expense"
+import type {
+  RecurrenceFrequency,
+  RecurrenceUnit,
+  RecurringExpenseTemplate,
+} from "../../types/recurring-expense"
+import { validateRecurringTemplateInput } from "../../services/recurring-expenses"
+import { getAmountInputProps } from "../../utils/amount-input"
+import { getCurrencySymbol } from "../../utils/currency"
+
+const amountInputProps = getAmountInputProps(false)
+
+const FREQUENCIES: RecurrenceFrequency[] = [
+  "daily",
+  "weekly",
+  "monthly",
+  "yearly",
+  "custom",
+]
+const UNITS: RecurrenceUnit[] = ["day", "week", "month", "year"]
+
+type EndMode = "never" | "date" | "count"
+
+interface RecurringTemplateFormModalProps {
+  open: boolean
+  onClose: () => void
+  template?: RecurringExpenseTemplate
+  /** Currency used for new templates */
+  defaultCurrency: string
+  onSave: (
+    input: RecurringTemplateInput,
+    options: { updateExistingExpenses: boolean }
+  ) => void
+}
+
+export function RecurringTemplateFormModal({
+  open,
+  onClose,
+  template,
+  defaultCurrency,
+  onSave,
+}: RecurringTemplateFormModalProps) {
+  const { t } = useTranslation()
+
+  return (
+    <AppSheetScaffold
+      open={open}
+      onClose={onClose}
+      title={template ? t("recurring.form.editTitle") : t("recurring.form.addTitle")}
+      snapPoints={[100]}
+      scroll
+    >
+      {open ? (
+        <RecurringTemplateForm
+          key={template?.id ?? "new"}
+          onClose={onClose}
+          template={template}
+          defaultCurrency={defaultCurrency}
+          onSave={onSave}
+        />
+      ) : null}
+    </AppSheetScaffold>
+  )
+}
+
+function getInitialEndMode(template?: RecurringExpenseTemplate): EndMode {
+  if (template?.endDate) return "date"
+  if (template?.maxOccurrences) return "count"
+  return "never"
+}
+
+function DateField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: Date
+  onChange: (date: Date) => void
+}) {
+  const { t } = useTranslation()
+  const [showPicker, setShowPicker] = useState(false)
+
+  const handleChange = useCallback(
+    (event: DateTimePickerEvent, selectedDate?: Date) => {
+      setShowPicker(Platform.OS === "ios")
+      if (selectedDate && event.type !== "dismissed") {
+        onChange(startOfDay(selectedDate))
+      }
+    },
+    [onChange]
+  )
+
+  return (
+    <View className="gap-2">
+      <View className="flex-row items-center justify-between">
+        <Label className="opacity-80">{label}</Label>
+        <Button
+          size="control"
+          className="gap-2"
+          onPress={() => setShowPicker(true)}
+          accessibilityLabel={label}
+        >
+          <Calendar size={16} />
+          {value.toLocaleDateString()}
+        </Button>
+      </View>
+      {showPicker && (
+        <>
+          <DateTimePicker
+            value={value}
+            mode="date"
+            display={Platform.OS === "ios" ? "spinner" : "default"}
+            onChange={handleChange}
+          />
+          {Platform.OS === "ios" && (
+            <Button
+              size="control"
+              onPress={() => setShowPicker(false)}
+              accessibilityLabel={t("common.done")}
+            >
+              {t("common.done")}
+            </Button>
+          )}
+        </>
+      )}
+    </View>
+  )
+}
+
+function RecurringTemplateForm({
+  onClose,
+  template,
+  defaultCurrency,
+  onSave,
+}: {
+  onClose: () => void
+  template?: RecurringExpenseTemplate
+  defaultCurrency: string
+  onSave: RecurringTemplateFormModalProps["onSave"]
+}) {
+  const { t } = useTranslation()
+  const { categories } = useCategories()
+  const isEditMode = !!template
+  const currency = template?.currency ?? defaultCurrency
+
+  const [amount, setAmount] = useState(template ? template.amount.toString() : "")
+  const [category, setCategory] = useState(
+    template?.category ?? categories[0]?.label ?? "Other"
+  )
+  const [note, setNote] = useState(template?.note ?? "")
+  const [paymentMethodType, setPaymentMethodType] = useState<
+    PaymentMethodType | undefined
+  >(template?.paymentMethod?.type)
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>(
+    template?.frequency ?? "monthly"
+  )
+  const [intervalText, setIntervalText] = useState(String(template?.interval ?? 2))
+  const [customUnit, setCustomUnit] = useState<RecurrenceUnit>(
+    template?.customUnit ?? "week"
+  )
+  const [startDate, setStartDate] = useState(() =>
+    template ? parseISO(template.startDate) : startOfDay(new Date())
+  )
+  const [endMode, setEndMode] = useState<EndMode>(getInitialEndMode(template))
+  const [endDate, setEndDate] = useState(() =>
+    template?.endDate ? parseISO(template.endDate) : startOfDay(new Date())
+  )
+  const [maxOccurrences, setMaxOccurrences] = useState(
+    template?.maxOccurrences ? String(template.maxOccurrences) : "12"
+  )
+  const [updateExistingExpenses, setUpdateExistingExpenses] = useState(false)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const handleSave = useCallback(() => {
+    Keyboard.dismiss()
+
+    const validation = validateRecurringTemplateInput({
+      amount,
+      category,
+      frequency,
+      interval: intervalText,
+      startDate: format(startDate, "yyyy-MM-dd"),
+      endDate: endMode === "date" ? format(endDate, "yyyy-MM-dd") : undefined,
+      maxOccurrences: endMode === "count" ? maxOccurrences : undefined,
+    })
+
+    if (!validation.success) {
+      setErrors(validation.errors)
+      return
+    }
+
+    // Keep the saved identifier/instrument when the method type is unchanged
+    const paymentMethod = paymentMethodType
+      ? template?.paymentMethod?.type === paymentMethodType
+        ? template.paymentMethod
+        : { type: paymentMethodType }
+      : undefined
+
+    onSave(
+      {
+        amount: validation.values.amount,
+        currency,
+        category,
+        note: note.trim(),
+        paymentMethod,
+        frequency,
+        interval: validation.values.interval,
+        customUnit: frequency === "custom" ? customUnit : undefined,
+        startDate: format(startDate, "yyyy-MM-dd"),
+        endDate: endMode === "date" ? format(endDate, "yyyy-MM-dd") : undefined,
+        maxOccurrences: validation.values.maxOccurrences,
+      },
+      { updateExistingExpenses }
+    )
+    onClose()
+  }, [
+    amount,
+    category,
+    currency,
+    customUnit,
+    endDate,
+    endMode,
+    frequency,
+    intervalText,
+    maxOccurrences,
+    note,
+    onClose,
+    onSave,
+    paymentMethodType,
+    startDate,
+    template,
+    updateExistingExpenses,
+  ])
+
+  return (
+    <View className="gap-4 pb-5">
+      <View className="gap-2">
+        <Label className="opacity-80">{t("recurring.form.amount")}</Label>
+        <View className="flex-row items-center gap-2">
+          <Text className="text-sm text-foreground font-bold opacity-80">
+            {getCurrencySymbol(currency)}
+          </Text>
+          <Input
+            className={`flex-1 ${errors.amount ? "border-error" : ""}`}
+            placeholder={t("add.amountPlaceholder")}
+            value={amount}
+            onChangeText={setAmount}
+            accessibilityLabel={t("recurring.form.amount")}
+            {...amountInputProps}
+          />
+        </View>
+        {errors.amount && <Text className="text-xs text-error">{errors.amount}</Text>}
+      </View>
+
+      <View className="gap-2">
+        <Label className="opacity-80">{t("recurring.form.category")}</Label>
+        <View className="flex-row flex-wrap gap-2">
+          {categories.map((cat) => (
+            <CategoryCard
+              key={cat.label}
+              isSelected={category === cat.label}
+              categoryColor={cat.color}
+              label={cat.label}
+              onPress={() => setCategory(cat.label)}
+              compact
+            />
+          ))}
+        </View>
+        {errors.category && <Text className="text-xs text-error">{errors.category}</Text>}
+      </View>
+
+      <View className="gap-2">
+        <Label className="opacity-80">{t("recurring.form.note")}</Label>
+        <Input
+          placeholder={t("add.notePlaceholder")}
+          value={note}
+          onChangeText={setNote}
+          accessibilityLabel={t("recurring.form.note")}
+        />
+      </View>
+
+      <View className="gap-2">
+        <Label className="opacity-80">
+          {t("recurring.form.paymentMethod")} {t("common.optional")}
+        </Label>
+        <View className="flex-row flex-wrap gap-2">
+          {PAYMENT_METHODS.map((pm) => (
+            <PaymentMethodCard
+              key={pm.value}
+              config={pm}
+              isSelected={paymentMethodType === pm.value}
+              onPress={() =>
+                setPaymentMethodType((current) =>
+                  current === pm.value ? undefined : pm.value
+                )
+              }
+            />
+          ))}
+        </View>
+      </View>
+
+      <View className="gap-2">
+        <Label className="opacity-80">{t("recurring.form.frequency")}</Label>
+        <View className="flex-row flex-wrap gap-2">
+          {FREQUENCIES.map((value) => (
+            <Button
+              key={value}
+              size="chip"
+              variant={frequency === value ? "accent" : "outline"}
+              onPress={() => setFrequency(value)}
+            >
+              {t(`recurring.frequency.${value}`)}
+            </Button>
+          ))}
+        </View>
+        {frequency === "custom" && (
+          <View className="gap-2">
+            <View className="flex-row items-center gap-2">
+              <Text className="text-sm text-foreground">{t("recurring.form.every")}</Text>
+              <Input
+                className={`w-20 ${errors.interval ? "border-error" : ""}`}
+                keyboardType="number-pad"
+                value={intervalText}
+                onChangeText={setIntervalText}
+                maxLength={3}
+                accessibilityLabel={t("recurring.form.interval")}
+              />
+            </View>
+            <View className="flex-row flex-wrap gap-2">
+              {UNITS.map((unit) => (
+                <Button
+                  key={unit}
+                  size="chip"
+                  variant={customUnit === unit ? "accent" : "outline"}
+                  onPress={() => setCustomUnit(unit)}
+                >
+                  {t(`recurring.unit.${unit}`)}
+                </Button>
+              ))}
+            </View>
+            {errors.interval && (
+              <Text className="text-xs text-error">{errors.interval}</Text>
+            )}
+          </View>
+        )}
+      </View>
+
+      <DateField
+        label={t("recurring.form.startDate")}
+        value={startDate}
+        onChange={setStartDate}
+      />
+
+      <View className="gap-2">
+        <Label className="opacity-80">{t("recurring.form.ends")}</Label>
+        <View className="flex-row flex-wrap gap-2">
+          {(["never", "date", "count"] as const).map((mode) => (
+            <Button
+              key={mode}
+              size="chip"
+              variant={endMode === mode ? "accent" : "outline"}
+              onPress={() => setEndMode(mode)}
+            >
+              {t(`recurring.form.endMode.${mode}`)}
+            </Button>
+          ))}
+        </View>
+        {endMode === "date" && (
+          <DateField
+            label={t("recurring.form.endDate")}
+            value={endDate}
+            onChange={setEndDate}
+          />
+        )}
+        {endMode === "count" && (
+          <View className="flex-row items-center gap-2">
+            <Input
+              className={`w-20 ${errors.maxOccurrences ? "border-error" : ""}`}
+              keyboardType="number-pad"
+              value={maxOccurrences}
+              onChangeText={setMaxOccurrences}
+              maxLength={4}
+              accessibilityLabel={t("recurring.form.occurrences")}
+            />
+            <Text className="text-sm text-foreground">
+              {t("recurring.form.occurrences")}
+            </Text>
+          </View>
+        )}
+        {errors.endDate && <Text className="text-xs text-error">{errors.endDate}</Text>}
+        {errors.maxOccurrences && (
+          <Text className="text-xs text-error">{errors.maxOccurrences}</Text>
+        )}
+      </View>
+
+      {isEditMode && (
+        <View className="bg-surface px-3 py-3 flex-row items-center justify-between rounded-card">
+          <View className="flex-1 gap-1">
+            <Label>{t("recurring.form.updateExisting")}</Label>
+            <Text className="text-xs text-foreground opacity-60">
+              {t("recurring.form.updateExistingHelp")}
+            </Text>
+          </View>
+          <Switch
+            checked={updateExistingExpenses}
+            onCheckedChange={setUpdateExistingExpenses}
+            accessibilityLabel={t("recurring.form.updateExisting")}
+          />
+        </View>
+      )}
+
+      <View className="flex-row justify-end gap-3 mt-2">
+        <Button size="control" variant="ghost" onPress={onClose}>
+          {t("common.cancel")}
+        </Button>
+        <Button size="control" variant="accent" className="gap-2" onPress={handleSave}>
+          <Check size={20} />
+          <Text className="font-bold">
+            {isEditMode ? t("common.save") : t("common.add")}
+          </Text>
+        </Button>
+      </View>
+    </View>
+  )
+}
+
+export type { RecurringTemplateFormModalProps }
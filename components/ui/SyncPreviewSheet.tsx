@@ -0,0 +1,152 @@
+import type { ReactNode } from "react"
+import { Text, View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { AppSheetScaffold } from "./AppSheetScaffold"
+import { Button } from "./Button"
+import { Label } from "./Label"
+import { useSyncMachine } from "../../hooks/use-sync-machine"
+import { UI_OPACITY } from "../../constants/ui-tokens"
+
+/** Longest file list shown before the rest is summarised as a count */
+const MAX_LISTED_FILES = 8
+
+function FileList({ paths }: { paths: string[] }) {
+  const { t } = useTranslation()
+  const listed = paths.slice(0, MAX_LISTED_FILES)
+  const hidden = paths.length - listed.length
+
+  return (
+    <View className="gap-0.5">
+      {listed.map((path) => (
+        <Text
+          key={path}
+          className="text-xs text-foreground"
+          style={{ opacity: UI_OPACITY.subtle }}
+        >
+          {path}
+        </Text>
+      ))}
+      {hidden > 0 ? (
+        <Text className="text-xs text-foreground" style={{ opacity: UI_OPACITY.subtle }}>
+          {t("syncPreview.moreFiles", { count: hidden })}
+        </Text>
+      ) : null}
+    </View>
+  )
+}
+
+function PlanRow({ label, children }: { label: string; children?: ReactNode }) {
+  return (
+    <View className="gap-1 rounded-chip bg-background px-3 py-2">
+      <Label>{label}</Label>
+      {children}
+    </View>
+  )
+}
+
+/**
+ * Sheet showing the plan of a previewed sync, open while the shared sync
+ * machine waits in its preview state. Apply runs the sync; Cancel drops it.
+ */
+export function SyncPreviewSheet() {
+  const { t } = useTranslation()
+  const { isPreview, syncPlan, apply, cancel } = useSyncMachine()
+
+  const isEmpty =
+    syncPlan !== undefined &&
+    syncPlan.uploads.length === 0 &&
+    syncPlan.deletions.length === 0 &&
+    syncPlan.attachmentUploads === 0 &&
+    syncPlan.attachmentDeletions === 0 &&
+    syncPlan.expensesAdded === 0 &&
+    syncPlan.expensesUpdated === 0 &&
+    !syncPlan.settingsUploaded &&
+    !syncPlan.settingsChanged &&
+    syncPlan.conflicts === 0
+
+  return (
+    <AppSheetScaffold
+      open={isPreview && syncPlan !== undefined}
+      onClose={cancel}
+      title={t("syncPreview.title")}
+      subtitle={t("syncPreview.subtitle")}
+      snapPoints={[75]}
+      unmountWhenClosed
+      scroll
+      footer={
+        <>
+          <Button size="control" variant="accent" onPress={apply}>
+            {t("syncPreview.apply")}
+          </Button>
+          <Button size="control" onPress={cancel}>
+            {t("common.cancel")}
+          </Button>
+        </>
+      }
+    >
+      {syncPlan ? (
+        <View className="gap-2 pb-4">
+          {isEmpty ? (
+            <Text className="text-sm text-foreground">{t("syncPreview.nothing")}</Text>
+          ) : null}
+
+          {syncPlan.conflicts > 0 ? (
+            <PlanRow label={t("syncPreview.conflicts", { count: syncPlan.conflicts })}>
+              <Text
+                className="text-xs text-foreground"
+                style={{ opacity: UI_OPACITY.subtle }}
+              >
+                {t("syncPreview.conflictsHelp")}
+              </Text>
+            </PlanRow>
+          ) : null}
+
+          {syncPlan.uploads.length > 0 ? (
+            <PlanRow label={t("syncPreview.uploads", { count: syncPlan.uploads.length })}>
+              <FileList paths={syncPlan.uploads} />
+            </PlanRow>
+          ) : null}
+
+          {syncPlan.deletions.length > 0 ? (
+            <PlanRow
+              label={t("syncPreview.deletions", { count: syncPlan.deletions.length })}
+            >
+              <FileList paths={syncPlan.deletions} />
+            </PlanRow>
+          ) : null}
+
+          {syncPlan.expensesAdded + syncPlan.expensesUpdated > 0 ? (
+            <PlanRow
+              label={t("syncPreview.incoming", {
+                added: syncPlan.expensesAdded,
+                updated: syncPlan.expensesUpdated,
+              })}
+            />
+          ) : null}
+
+          {syncPlan.expensesPushed > 0 ? (
+            <PlanRow
+              label={t("syncPreview.outgoing", { count: syncPlan.expensesPushed })}
+            />
+          ) : null}
+
+          {syncPlan.attachmentUploads + syncPlan.attachmentDeletions > 0 ? (
+            <PlanRow
+              label={t("syncPreview.attachments", {
+                uploaded: syncPlan.attachmentUploads,
+                deleted: syncPlan.attachmentDeletions,
+              })}
+            />
+          ) : null}
+
+          {syncPlan.settingsUploaded ? (
+            <PlanRow label={t("syncPreview.settingsUploaded")} />
+          ) : null}
+          {syncPlan.settingsChanged ? (
+            <PlanRow label={t("syncPreview.settingsChanged")} />
+          ) : null}
+        </View>
+      ) : null}
+    </AppSheetScaffold>
+  )
+}
@@ -0,0 +1,128 @@
+import { useCallback, useMemo, useState } from "react"
+import { View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { Plus, X } from "lucide-react-native"
+import { Button } from "./Button"
+import { Input } from "./Input"
+import { useThemeColors } from "../../hooks/use-theme-colors"
+import { normalizeTags, suggestTags } from "../../utils/tags"
+
+const MAX_SUGGESTIONS = 6
+
+interface TagInputProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  /** Tags already in use, most used first; offered as suggestions */
+  knownTags: string[]
+  accessibilityLabel?: string
+}
+
+/**
+ * TagInput - Free-form tag entry with autocomplete from existing tags
+ * A tag is added on return, on comma or when the field loses focus; tapping a
+ * picked tag removes it.
+ */
+export function TagInput({
+  value,
+  onChange,
+  knownTags,
+  accessibilityLabel,
+}: TagInputProps) {
+  const { t } = useTranslation()
+  const theme = useThemeColors()
+  const [text, setText] = useState("")
+
+  const suggestions = useMemo(
+    () => suggestTags(knownTags, text, value, MAX_SUGGESTIONS),
+    [knownTags, text, value]
+  )
+
+  const addTags = useCallback(
+    (raw: string[]) => {
+      const next = normalizeTags([...value, ...raw])
+      if (next.length !== value.length) {
+        onChange(next)
+      }
+    },
+    [value, onChange]
+  )
+
+  const handleChangeText = useCallback(
+    (next: string) => {
+      // Commit everything before the last separator, keep typing the rest
+      const parts = next.split(/[,;|]/)
+      if (parts.length > 1) {
+        addTags(parts.slice(0, -1))
+        setText(parts[parts.length - 1])
+      } else {
+        setText(next)
+      }
+    },
+    [addTags]
+  )
+
+  const commitText = useCallback(() => {
+    if (text.trim()) {
+      addTags([text])
+    }
+    setText("")
+  }, [text, addTags])
+
+  return (
+    <View className="gap-2">
+      {value.length > 0 && (
+        <View className="flex-row flex-wrap gap-2">
+          {value.map((tag) => (
+            <Button
+              key={tag}
+              size="chip"
+              variant="accent"
+              className="gap-1"
+              onPress={() => onChange(value.filter((selected) => selected !== tag))}
+              accessibilityLabel={t("tags.remove", { tag })}
+            >
+              #{tag}
+              <X size={14} color={theme.accentForeground} />
+            </Button>
+          ))}
+        </View>
+      )}
+
+      <Input
+        placeholder={t("tags.placeholder")}
+        value={text}
+        onChangeText={handleChangeText}
+        onSubmitEditing={commitText}
+        onBlur={commitText}
+        submitBehavior="submit"
+        returnKeyType="done"
+        autoCapitalize="none"
+        autoCorrect={false}
+        accessibilityLabel={accessibilityLabel ?? t("tags.label")}
+      />
+
+      {suggestions.length > 0 && (
+        <View className="flex-row flex-wrap gap-2">
+          {suggestions.map((tag) => (
+            <Button
+              key={tag}
+              size="chip"
+              variant="outline"
+              className="gap-1"
+              onPress={() => {
+                addTags([tag])
+                setText("")
+              }}
+              accessibilityLabel={t("tags.addSuggestion", { tag })}
+            >
+              <Plus size={14} color={theme.foreground} />
+              {tag}
+            </Button>
+          ))}
+        </View>
+      )}
+    </View>
+  )
+}
+
+export type { TagInputProps }
@@ -0,0 +1,38 @@
+import { View } from "react-native"
+import { useTranslation } from "react-i18next"
+import { Button } from "./Button"
+import { TransactionKind } from "../../types/expense"
+import { TRANSACTION_KINDS } from "../../utils/transaction-kind"
+
+interface TransactionKindSelectorProps {
+  value: TransactionKind
+  onChange: (kind: TransactionKind) => void
+}
+
+/**
+ * TransactionKindSelector - Chips for choosing expense, income, refund or transfer
+ */
+export function TransactionKindSelector({
+  value,
+  onChange,
+}: TransactionKindSelectorProps) {
+  const { t } = useTranslation()
+
+  return (
+    <View className="flex-row flex-wrap gap-2" role="radiogroup">
+      {TRANSACTION_KINDS.map((kind) => (
+        <Button
+          key={kind}
+          size="chip"
+          variant={value === kind ? "accent" : "outline"}
+          onPress={() => onChange(kind)}
+          aria-selected={value === kind}
+        >
+          {t(`transactionKinds.${kind}`)}
+        </Button>
+      ))}
+    </View>
+  )
+}
+
+export type { TransactionKindSelectorProps }
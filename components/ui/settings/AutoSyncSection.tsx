@@ -5,27 +5,48 @@ import { Label } from "../Label"
 import { Switch } from "../Switch"
 import { RadioGroup } from "../RadioGroup"
 
+/** Timing options in display order, with their translation key */
+const TIMING_OPTIONS: { value: AutoSyncTiming; labelKey: string }[] = [
+  { value: "on_launch", labelKey: "onLaunch" },
+  { value: "on_change", labelKey: "onChange" },
+  { value: "interval", labelKey: "interval" },
+  { value: "on_reconnect", labelKey: "onReconnect" },
+]
+
+/** Choices for the interval timing, in minutes */
+const INTERVAL_OPTIONS = [5, 15, 30, 60]
+
 /**
  * Props for the AutoSyncSection component
  *
  * This component handles the auto-sync options UI including:
  * - Enable/disable auto-sync toggle
  * - Sync settings toggle (include theme and preferences)
- * - Auto-sync timing selection (on launch vs on change)
+ * - Receipt upload toggle
+ * - Auto-sync timing selection (on launch, on change, on an interval or on reconnect)
+ * - Interval selection for the interval timing
  */
 export interface AutoSyncSectionProps {
   /** Whether auto-sync is enabled */
   autoSyncEnabled: boolean
   /** When to trigger auto-sync */
   autoSyncTiming: AutoSyncTiming
+  /** Minutes between syncs for the interval timing */
+  autoSyncIntervalMinutes: number
   /** Whether to sync settings to GitHub */
   syncSettings: boolean
+  /** Whether to upload receipt attachments to GitHub */
+  syncAttachments: boolean
   /** Callback when auto-sync enabled changes */
   onAutoSyncEnabledChange: (enabled: boolean) => void
   /** Callback when auto-sync timing changes */
   onAutoSyncTimingChange: (timing: AutoSyncTiming) => void
+  /** Callback when the sync interval changes */
+  onAutoSyncIntervalMinutesChange: (minutes: number) => void
   /** Callback when sync settings changes */
   onSyncSettingsChange: (enabled: boolean) => void
+  /** Callback when receipt upload changes */
+  onSyncAttachmentsChange: (enabled: boolean) => void
 }
 
 /**
@@ -34,15 +55,20 @@ export interface AutoSyncSectionProps {
  * Provides controls for:
  * - Enabling/disabling auto-sync
  * - Choosing whether to sync settings
- * - Selecting when to sync (on launch or on change)
+ * - Choosing whether to upload receipts
+ * - Selecting when to sync and, for the interval timing, how often
  */
 export function AutoSyncSection({
   autoSyncEnabled,
   autoSyncTiming,
+  autoSyncIntervalMinutes,
   syncSettings,
+  syncAttachments,
   onAutoSyncEnabledChange,
   onAutoSyncTimingChange,
+  onAutoSyncIntervalMinutesChange,
   onSyncSettingsChange,
+  onSyncAttachmentsChange,
 }: AutoSyncSectionProps) {
   const { t } = useTranslation()
 
@@ -86,37 +112,67 @@ export function AutoSyncSection({
         />
       </View>
 
+      {/* Upload receipts toggle */}
+      <View className="bg-surface flex-row items-center justify-between px-3 py-3 rounded-chip">
+        <View className="flex-1">
+          <Label>{t("settings.autoSync.syncAttachments")}</Label>
+          <Text className="text-xs text-foreground opacity-60 mt-1">
+            {t("settings.autoSync.syncAttachmentsHelp")}
+          </Text>
+        </View>
+        <Switch
+          checked={syncAttachments}
+          onCheckedChange={onSyncAttachmentsChange}
+          accessibilityLabel={t("settings.autoSync.syncAttachments")}
+        />
+      </View>
+
       {/* When to Sync - only shown when auto-sync is enabled */}
       {autoSyncEnabled && (
         <View className="gap-2 mt-1 rounded-card bg-surface p-3">
           <Label>{t("settings.autoSync.whenToSync")}</Label>
           <RadioGroup value={autoSyncTiming} onValueChange={handleAutoSyncTimingChange}>
-            <View className="flex-row items-center gap-2 my-2">
-              <RadioGroup.Item
-                value="on_launch"
-                accessibilityLabel={t("settings.autoSync.onLaunch")}
-              />
-              <View className="flex-1">
-                <Label>{t("settings.autoSync.onLaunch")}</Label>
-                <Text className="text-xs text-foreground opacity-60">
-                  {t("settings.autoSync.onLaunchHelp")}
-                </Text>
+            {TIMING_OPTIONS.map(({ value, labelKey }) => (
+              <View key={value} className="flex-row items-center gap-2 my-2">
+                <RadioGroup.Item
+                  value={value}
+                  accessibilityLabel={t(`settings.autoSync.${labelKey}`)}
+                />
+                <View className="flex-1">
+                  <Label>{t(`settings.autoSync.${labelKey}`)}</Label>
+                  <Text className="text-xs text-foreground opacity-60">
+                    {t(`settings.autoSync.${labelKey}Help`)}
+                  </Text>
+                </View>
               </View>
-            </View>
+            ))}
+          </RadioGroup>
 
-            <View className="flex-row items-center gap-2 my-2">
-              <RadioGroup.Item
-                value="on_change"
-                accessibilityLabel={t("settings.autoSync.onChange")}
-              />
-              <View className="flex-1">
-                <Label>{t("settings.autoSync.onChange")}</Label>
-                <Text className="text-xs text-foreground opacity-60">
-                  {t("settings.autoSync.onChangeHelp")}
-                </Text>
-              </View>
+          {autoSyncTiming === "interval" && (
+            <View className="gap-2 border-t border-border pt-3">
+              <Label>{t("settings.autoSync.intervalEvery")}</Label>
+              <RadioGroup
+                value={String(autoSyncIntervalMinutes)}
+                onValueChange={(value) => onAutoSyncIntervalMinutesChange(Number(value))}
+              >
+                <View className="flex-row flex-wrap gap-4">
+                  {INTERVAL_OPTIONS.map((minutes) => (
+                    <View key={minutes} className="flex-row items-center gap-2">
+                      <RadioGroup.Item
+                        value={String(minutes)}
+                        accessibilityLabel={t("settings.autoSync.intervalMinutes", {
+                          count: minutes,
+                        })}
+                      />
+                      <Text className="text-sm text-foreground">
+                        {t("settings.autoSync.intervalMinutes", { count: minutes })}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              </RadioGroup>
             </View>
-          </RadioGroup>
+          )}
         </View>
       )}
     </View>
@@ -2,8 +2,10 @@ import { useState, useCallback } from "react"
 import { Alert, Keyboard, Linking, Pressable, Text, View } from "react-native"
 import { Check, X, ChevronDown, ChevronUp } from "lucide-react-native"
 import * as Clipboard from "expo-clipboard"
-import { SyncConfig } from "../../../types/sync"
+import { SyncBackendKind, SyncConfig } from "../../../types/sync"
 import { validateGitHubConfig } from "../../../utils/github-config-validation"
+import { validateWebDAVConfig } from "../../../utils/webdav-config-validation"
+import { validateGitServerConfig } from "../../../utils/git-server-config-validation"
 import {
   SEMANTIC_COLORS,
   SEMANTIC_FOREGROUND_COLORS,
@@ -17,20 +19,53 @@ import { useTranslation } from "react-i18next"
 import { Button } from "../Button"
 import { Input } from "../Input"
 import { Label } from "../Label"
+import { RadioGroup } from "../RadioGroup"
 import { Spinner } from "../Spinner"
 import { useThemeColors, useThemeScheme } from "../../../hooks/use-theme-colors"
 import { UI_SPACE, UI_OPACITY, UI_ICON_SIZE } from "../../../constants/ui-tokens"
+import { ledgerScopedKey } from "../../../services/ledgers"
 
 const REPO_KEY = "github_repo"
 const BRANCH_KEY = "github_branch"
 
+const BACKEND_OPTIONS: { value: SyncBackendKind; labelKey: string; helpKey: string }[] = [
+  {
+    value: "github",
+    labelKey: "settings.github.backendGitHub",
+    helpKey: "settings.github.backendGitHubHelp",
+  },
+  {
+    value: "gitea",
+    labelKey: "settings.github.backendGitea",
+    helpKey: "settings.github.backendGiteaHelp",
+  },
+  {
+    value: "gitlab",
+    labelKey: "settings.github.backendGitLab",
+    helpKey: "settings.github.backendGitLabHelp",
+  },
+  {
+    value: "webdav",
+    labelKey: "settings.github.backendWebDAV",
+    helpKey: "settings.github.backendWebDAVHelp",
+  },
+]
+
+/** Self-hosted git servers configured with a URL and a pasted access token */
+function isGitServerBackend(backend: SyncBackendKind): backend is "gitea" | "gitlab" {
+  return backend === "gitea" || backend === "gitlab"
+}
+
 /**
  * Props for the GitHubConfigSection component
  *
- * This component handles the GitHub configuration form including:
+ * This component handles the sync configuration form including:
+ * - Storage backend choice (GitHub, Gitea/Forgejo, GitLab or WebDAV)
  * - GitHub login (native) or Personal Access Token input (web)
  * - Repository input
  * - Branch input
+ * - Gitea/Forgejo and GitLab server URL, access token, repository and branch
+ * - WebDAV folder URL, username and password
  * - Save and Test connection buttons
  * - Clear configuration button
  */
@@ -60,12 +95,15 @@ const successTextColor = getReadableTextColor(successColor)
 const errorTextColor = getReadableTextColor(errorColor)
 
 /**
- * GitHubConfigSection - Collapsible GitHub configuration form
+ * GitHubConfigSection - Collapsible sync configuration form
  *
- * Provides a form for configuring GitHub sync with:
+ * Provides a form for configuring sync with:
+ * - Storage backend (GitHub, Gitea/Forgejo or GitLab repository, or WebDAV folder)
  * - GitHub login (native) or Personal Access Token (web)
  * - Repository name (owner/repo format)
  * - Branch name
+ * - Self-hosted git server URL, token, repository and branch
+ * - WebDAV folder URL and credentials
  * - Save and Test buttons
  * - Clear configuration option when configured
  */
@@ -90,6 +128,16 @@ export function GitHubConfigSection({
   // Form state initialized from syncConfig
   const [repo, setRepo] = useState(syncConfig?.repo ?? "")
   const [branch, setBranch] = useState(syncConfig?.branch ?? "main")
+  const [backend, setBackend] = useState<SyncBackendKind>(syncConfig?.backend ?? "github")
+  const [webdavUrl, setWebdavUrl] = useState(syncConfig?.webdav?.url ?? "")
+  const [webdavUsername, setWebdavUsername] = useState(syncConfig?.webdav?.username ?? "")
+  const [webdavPassword, setWebdavPassword] = useState(syncConfig?.webdav?.password ?? "")
+  const savedServer =
+    syncConfig?.backend && isGitServerBackend(syncConfig.backend) ? syncConfig : null
+  const [serverUrl, setServerUrl] = useState(savedServer?.apiBaseUrl ?? "")
+  const [serverToken, setServerToken] = useState(savedServer?.token ?? "")
+  const [serverRepo, setServerRepo] = useState(savedServer?.repo ?? "")
+  const [serverBranch, setServerBranch] = useState(savedServer?.branch ?? "main")
   const [expanded, setExpanded] = useState(false)
 
   const githubOAuthStatus = getGitHubOAuthClientIdStatus()
@@ -103,8 +151,8 @@ export function GitHubConfigSection({
       const refreshDraftFromStorage = async () => {
         try {
           const [storedRepo, storedBranch] = await Promise.all([
-            secureStorage.getItem(REPO_KEY),
-            secureStorage.getItem(BRANCH_KEY),
+            secureStorage.getItem(ledgerScopedKey(REPO_KEY)),
+            secureStorage.getItem(ledgerScopedKey(BRANCH_KEY)),
           ])
 
           if (cancelled) return
@@ -133,11 +181,62 @@ export function GitHubConfigSection({
 
   // Derive isConfigured from syncConfig
   const isConfigured = syncConfig !== null
+  const connectedTarget =
+    syncConfig?.backend === "webdav"
+      ? (syncConfig.webdav?.url ?? "")
+      : savedServer
+        ? savedServer.repo
+        : repo
 
   const handleSaveConfig = useCallback(() => {
     // Dismiss keyboard to ensure button press is captured
     Keyboard.dismiss()
 
+    if (backend === "webdav") {
+      const webdav = {
+        url: webdavUrl.trim(),
+        username: webdavUsername.trim(),
+        password: webdavPassword,
+      }
+      const validation = validateWebDAVConfig(webdav, t)
+
+      if (!validation.success) {
+        setConfigErrors(validation.errors)
+        onNotification(t("settings.github.validationError"), "error")
+        return
+      }
+
+      setConfigErrors({})
+      onSaveConfig({ backend, token: "", repo: "", branch: "", webdav })
+      return
+    }
+
+    if (isGitServerBackend(backend)) {
+      const server = {
+        url: serverUrl.trim(),
+        token: serverToken.trim(),
+        repo: serverRepo.trim(),
+        branch: serverBranch.trim(),
+      }
+      const validation = validateGitServerConfig(server, t)
+
+      if (!validation.success) {
+        setConfigErrors(validation.errors)
+        onNotification(t("settings.github.validationError"), "error")
+        return
+      }
+
+      setConfigErrors({})
+      onSaveConfig({
+        backend,
+        token: server.token,
+        repo: server.repo,
+        branch: server.branch,
+        apiBaseUrl: server.url,
+      })
+      return
+    }
+
     const normalized = {
       token: token.trim(),
       repo: repo.trim(),
@@ -156,9 +255,24 @@ export function GitHubConfigSection({
     // Clear errors on successful validation
     setConfigErrors({})
 
-    const config: SyncConfig = normalized
+    const config: SyncConfig = { backend, ...normalized }
     onSaveConfig(config)
-  }, [token, repo, branch, onSaveConfig, onNotification, t])
+  }, [
+    backend,
+    webdavUrl,
+    webdavUsername,
+    webdavPassword,
+    serverUrl,
+    serverToken,
+    serverRepo,
+    serverBranch,
+    token,
+    repo,
+    branch,
+    onSaveConfig,
+    onNotification,
+    t,
+  ])
 
   const handleStartGitHubLogin = useCallback(() => {
     const status = getGitHubOAuthClientIdStatus()
@@ -213,6 +327,13 @@ export function GitHubConfigSection({
             onClearConfig()
             setRepo("")
             setBranch("main")
+            setWebdavUrl("")
+            setWebdavUsername("")
+            setWebdavPassword("")
+            setServerUrl("")
+            setServerToken("")
+            setServerRepo("")
+            setServerBranch("main")
             onConnectionStatusChange("idle")
 
             auth.signOut()
@@ -238,6 +359,11 @@ export function GitHubConfigSection({
     }
   }, [auth, handleClearConfig, onConnectionStatusChange, onNotification, syncConfig, t])
 
+  const handleBackendChange = useCallback((value: string) => {
+    setBackend(value as SyncBackendKind)
+    setConfigErrors({})
+  }, [])
+
   const handleBranchChange = useCallback((text: string) => {
     setBranch(text)
     // Clear error when user starts typing
@@ -274,14 +400,14 @@ export function GitHubConfigSection({
                   {t("settings.github.connected")}
                 </Text>
               </View>
-              {repo ? (
+              {connectedTarget ? (
                 <Text
                   className="text-xs text-foreground opacity-70"
                   numberOfLines={1}
                   ellipsizeMode="middle"
                   style={{ flexShrink: 1, minWidth: 0 }}
                 >
-                  {repo}
+                  {connectedTarget}
                 </Text>
               ) : null}
             </View>
@@ -304,97 +430,245 @@ export function GitHubConfigSection({
 
       {expanded && (
         <View className="gap-3 p-2 pt-3">
-          {/* Auth — Android only (device-flow) */}
+          {/* Storage backend */}
           <View className="gap-2">
-            <Label>{t("settings.github.loginLabel")}</Label>
-            <Button
-              size="control"
-              onPress={isSignedIn ? handleSignOut : handleStartGitHubLogin}
-              disabled={auth.isSigningIn || (!isSignedIn && !githubOAuthStatus.ok)}
-              variant={isSignedIn ? "destructive" : "accent"}
-            >
-              {auth.isSigningIn
-                ? t("settings.github.signingIn")
-                : isSignedIn
-                  ? t("settings.github.signOut")
-                  : t("settings.github.signIn")}
-            </Button>
-            {!githubOAuthStatus.ok && (
-              <Text className="text-xs text-error">{githubOAuthStatus.error}</Text>
-            )}
-            {auth.deviceCode && (
-              <View className="gap-2" style={{ paddingTop: UI_SPACE.micro }}>
-                <Text className="text-xs text-foreground opacity-80">
-                  {t("settings.github.deviceCode")}
-                </Text>
-                <View
-                  className="flex-row gap-2"
-                  style={{ alignItems: "center", flexWrap: "wrap" }}
-                >
-                  <Text className="text-lg font-bold text-foreground">
-                    {auth.deviceCode.user_code}
-                  </Text>
-                  <Button size="compact" onPress={() => void handleCopyDeviceCode()}>
-                    {t("settings.github.copyCode")}
-                  </Button>
+            <Label>{t("settings.github.backendLabel")}</Label>
+            <RadioGroup value={backend} onValueChange={handleBackendChange}>
+              {BACKEND_OPTIONS.map((option) => (
+                <View key={option.value} className="flex-row items-start gap-2 my-1">
+                  <RadioGroup.Item
+                    value={option.value}
+                    accessibilityLabel={t(option.labelKey)}
+                  />
+                  <View className="flex-1">
+                    <Label>{t(option.labelKey)}</Label>
+                    <Text className="text-xs text-foreground opacity-60">
+                      {t(option.helpKey)}
+                    </Text>
+                  </View>
                 </View>
+              ))}
+            </RadioGroup>
+          </View>
+
+          {backend === "webdav" ? (
+            <View className="gap-3">
+              <View className="gap-2">
+                <Label>{t("settings.github.webdavUrlLabel")}</Label>
+                <Input
+                  className={configErrors.url ? "border-error" : undefined}
+                  placeholder={t("settings.github.webdavUrlPlaceholder")}
+                  value={webdavUrl}
+                  onChangeText={setWebdavUrl}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                {configErrors.url && (
+                  <Text className="text-xs text-error">{configErrors.url}</Text>
+                )}
+              </View>
+              <View className="gap-2">
+                <Label>{t("settings.github.webdavUsernameLabel")}</Label>
+                <Input
+                  className={configErrors.username ? "border-error" : undefined}
+                  value={webdavUsername}
+                  onChangeText={setWebdavUsername}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                {configErrors.username && (
+                  <Text className="text-xs text-error">{configErrors.username}</Text>
+                )}
+              </View>
+              <View className="gap-2">
+                <Label>{t("settings.github.webdavPasswordLabel")}</Label>
+                <Input
+                  className={configErrors.password ? "border-error" : undefined}
+                  value={webdavPassword}
+                  onChangeText={setWebdavPassword}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                {configErrors.password && (
+                  <Text className="text-xs text-error">{configErrors.password}</Text>
+                )}
+              </View>
+              <Text className="text-xs text-foreground opacity-60">
+                {t("settings.github.webdavHelp")}
+              </Text>
+            </View>
+          ) : isGitServerBackend(backend) ? (
+            <View className="gap-3">
+              <View className="gap-2">
+                <Label>{t("settings.github.serverUrlLabel")}</Label>
+                <Input
+                  className={configErrors.url ? "border-error" : undefined}
+                  placeholder={
+                    backend === "gitlab"
+                      ? "https://gitlab.com"
+                      : t("settings.github.serverUrlPlaceholder")
+                  }
+                  value={serverUrl}
+                  onChangeText={setServerUrl}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                {configErrors.url && (
+                  <Text className="text-xs text-error">{configErrors.url}</Text>
+                )}
+              </View>
+              <View className="gap-2">
+                <Label>{t("settings.github.serverTokenLabel")}</Label>
+                <Input
+                  className={configErrors.token ? "border-error" : undefined}
+                  value={serverToken}
+                  onChangeText={setServerToken}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                {configErrors.token && (
+                  <Text className="text-xs text-error">{configErrors.token}</Text>
+                )}
+                <Text className="text-xs text-foreground opacity-60">
+                  {backend === "gitlab"
+                    ? t("settings.github.gitlabTokenHelp")
+                    : t("settings.github.giteaTokenHelp")}
+                </Text>
+              </View>
+              <View className="gap-2">
+                <Label>{t("settings.github.repoLabel")}</Label>
+                <Input
+                  className={configErrors.repo ? "border-error" : undefined}
+                  placeholder={
+                    backend === "gitlab"
+                      ? t("settings.github.gitlabRepoPlaceholder")
+                      : t("settings.github.serverRepoPlaceholder")
+                  }
+                  value={serverRepo}
+                  onChangeText={setServerRepo}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                {configErrors.repo && (
+                  <Text className="text-xs text-error">{configErrors.repo}</Text>
+                )}
+              </View>
+              <View className="gap-2">
+                <Label>{t("settings.github.branchLabel")}</Label>
+                <Input
+                  className={configErrors.branch ? "border-error" : undefined}
+                  placeholder="main"
+                  value={serverBranch}
+                  onChangeText={setServerBranch}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                {configErrors.branch && (
+                  <Text className="text-xs text-error">{configErrors.branch}</Text>
+                )}
+              </View>
+            </View>
+          ) : (
+            <>
+              {/* Auth — Android only (device-flow) */}
+              <View className="gap-2">
+                <Label>{t("settings.github.loginLabel")}</Label>
                 <Button
-                  size="compact"
-                  onPress={() => {
-                    const url =
-                      auth.deviceCode?.verification_uri_complete ||
-                      auth.deviceCode?.verification_uri
-                    if (url) {
-                      void Linking.openURL(url)
-                    }
-                  }}
+                  size="control"
+                  onPress={isSignedIn ? handleSignOut : handleStartGitHubLogin}
+                  disabled={auth.isSigningIn || (!isSignedIn && !githubOAuthStatus.ok)}
+                  variant={isSignedIn ? "destructive" : "accent"}
                 >
-                  {t("settings.github.openBrowser")}
+                  {auth.isSigningIn
+                    ? t("settings.github.signingIn")
+                    : isSignedIn
+                      ? t("settings.github.signOut")
+                      : t("settings.github.signIn")}
                 </Button>
-                <Text className="text-xs text-foreground opacity-80">
-                  {t("settings.github.browserHelp", {
-                    url: auth.deviceCode.verification_uri,
-                  })}
+                {!githubOAuthStatus.ok && (
+                  <Text className="text-xs text-error">{githubOAuthStatus.error}</Text>
+                )}
+                {auth.deviceCode && (
+                  <View className="gap-2" style={{ paddingTop: UI_SPACE.micro }}>
+                    <Text className="text-xs text-foreground opacity-80">
+                      {t("settings.github.deviceCode")}
+                    </Text>
+                    <View
+                      className="flex-row gap-2"
+                      style={{ alignItems: "center", flexWrap: "wrap" }}
+                    >
+                      <Text className="text-lg font-bold text-foreground">
+                        {auth.deviceCode.user_code}
+                      </Text>
+                      <Button size="compact" onPress={() => void handleCopyDeviceCode()}>
+                        {t("settings.github.copyCode")}
+                      </Button>
+                    </View>
+                    <Button
+                      size="compact"
+                      onPress={() => {
+                        const url =
+                          auth.deviceCode?.verification_uri_complete ||
+                          auth.deviceCode?.verification_uri
+                        if (url) {
+                          void Linking.openURL(url)
+                        }
+                      }}
+                    >
+                      {t("settings.github.openBrowser")}
+                    </Button>
+                    <Text className="text-xs text-foreground opacity-80">
+                      {t("settings.github.browserHelp", {
+                        url: auth.deviceCode.verification_uri,
+                      })}
+                    </Text>
+                  </View>
+                )}
+                <Text className="text-xs text-foreground opacity-60">
+                  {t("settings.github.loginHelp")}
                 </Text>
               </View>
-            )}
-            <Text className="text-xs text-foreground opacity-60">
-              {t("settings.github.loginHelp")}
-            </Text>
-          </View>
 
-          {/* Repository */}
-          <View className="gap-2">
-            <Label>{t("settings.github.repoLabel")}</Label>
-            <View className="gap-2">
-              <Input
-                className={configErrors.repo ? "border-error" : undefined}
-                placeholder={t("settings.github.repoPlaceholderNative")}
-                value={repo}
-                readOnly
-              />
-              <Button size="compact" onPress={handleChooseRepo} disabled={!token}>
-                {repo ? t("settings.github.editRepo") : t("settings.github.chooseRepo")}
-              </Button>
-            </View>
-            {configErrors.repo && (
-              <Text className="text-xs text-error">{configErrors.repo}</Text>
-            )}
-          </View>
+              {/* Repository */}
+              <View className="gap-2">
+                <Label>{t("settings.github.repoLabel")}</Label>
+                <View className="gap-2">
+                  <Input
+                    className={configErrors.repo ? "border-error" : undefined}
+                    placeholder={t("settings.github.repoPlaceholderNative")}
+                    value={repo}
+                    readOnly
+                  />
+                  <Button size="compact" onPress={handleChooseRepo} disabled={!token}>
+                    {repo
+                      ? t("settings.github.editRepo")
+                      : t("settings.github.chooseRepo")}
+                  </Button>
+                </View>
+                {configErrors.repo && (
+                  <Text className="text-xs text-error">{configErrors.repo}</Text>
+                )}
+              </View>
 
-          {/* Branch */}
-          <View className="gap-2">
-            <Label>{t("settings.github.branchLabel")}</Label>
-            <Input
-              className={configErrors.branch ? "border-error" : undefined}
-              placeholder="main"
-              value={branch}
-              onChangeText={handleBranchChange}
-            />
-            {configErrors.branch && (
-              <Text className="text-xs text-error">{configErrors.branch}</Text>
-            )}
-          </View>
+              {/* Branch */}
+              <View className="gap-2">
+                <Label>{t("settings.github.branchLabel")}</Label>
+                <Input
+                  className={configErrors.branch ? "border-error" : undefined}
+                  placeholder="main"
+                  value={branch}
+                  onChangeText={handleBranchChange}
+                />
+                {configErrors.branch && (
+                  <Text className="text-xs text-error">{configErrors.branch}</Text>
+                )}
+              </View>
+            </>
+          )}
 
           {/* Action Buttons */}
           <View className="flex-row flex-wrap gap-3">
@@ -417,7 +691,14 @@ export function GitHubConfigSection({
               }
               size="control"
               onPress={handleTestConnection}
-              disabled={isTesting || !token || !repo}
+              disabled={
+                isTesting ||
+                (backend === "webdav"
+                  ? !webdavUrl
+                  : isGitServerBackend(backend)
+                    ? !serverUrl || !serverToken || !serverRepo
+                    : !token || !repo)
+              }
               variant="accent"
             >
               {connectionStatus === "success" ? (
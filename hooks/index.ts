@@ -2,10 +2,13 @@
 export * from "./use-analytics-base"
 export * from "./use-analytics-charts"
 export * from "./use-analytics-statistics"
+export * from "./use-budget-progress"
 
 // Machine hooks
 export * from "./use-sync-machine"
 export * from "./use-github-auth-machine"
+export * from "./use-rate-limit-pause"
+export * from "./use-auto-sync-in-flight"
 
 // Update/Changelog hooks
 export * from "./use-update-check"
@@ -10,6 +10,8 @@ import type {
   PaymentMethodSelectionKey,
 } from "../utils/analytics/filters"
 import { applyAllFilters } from "../utils/analytics/filters"
+import type { ReportingCurrencyOptions } from "../utils/analytics/currency"
+import { getFallbackCurrency } from "../utils/currency"
 
 export interface AnalyticsBaseResult {
   filteredExpenses: Expense[]
@@ -17,6 +19,11 @@ export interface AnalyticsBaseResult {
   fullPeriodExpenses: Expense[]
   availableCurrencies: string[]
   effectiveCurrency: string
+  /**
+   * Set when all currencies are shown together; amounts must be converted into
+   * `effectiveCurrency` with these options before they are summed
+   */
+  reporting?: ReportingCurrencyOptions
   dateRange: DateRange
   isLoading: boolean
   paymentInstruments: PaymentInstrument[]
@@ -26,8 +33,9 @@ export interface AnalyticsBaseResult {
 
 /**
  * Base analytics hook that handles:
- * - Currency grouping and selection (via shared useDerivedExpenseData)
- * - Filtering pipeline (Time → Categories → Payment Methods → Payment Instruments)
+ * - Currency grouping and selection (via shared useDerivedExpenseData), including
+ *   the reporting options used when all currencies are shown together
+ * - Filtering pipeline (Time → Categories → Payment Methods → Payment Instruments → Tags)
  * - Date range calculation
  *
  * Currency and month resolution are handled internally via useDerivedExpenseData
@@ -40,17 +48,28 @@ export function useAnalyticsBase(
   selectedPaymentInstruments: PaymentInstrumentSelectionKey[],
   searchQuery: string = "",
   minAmount: number | null = null,
-  maxAmount: number | null = null
+  maxAmount: number | null = null,
+  selectedTags: string[] = []
 ): AnalyticsBaseResult {
   const { settings } = useSettings()
   const {
     availableCurrencies,
     currencyExpenses,
     effectiveCurrency,
+    isAllCurrencies,
     effectiveSelectedMonth,
     isLoading,
   } = useDerivedExpenseData()
 
+  const reporting = useMemo((): ReportingCurrencyOptions | undefined => {
+    if (!isAllCurrencies) return undefined
+    return {
+      currency: effectiveCurrency,
+      rates: settings.exchangeRates,
+      fallbackCurrency: getFallbackCurrency(),
+    }
+  }, [isAllCurrencies, effectiveCurrency, settings.exchangeRates])
+
   const paymentInstruments = useMemo(() => {
     return (settings.paymentInstruments ?? []) as PaymentInstrument[]
   }, [settings.paymentInstruments])
@@ -65,6 +84,7 @@ export function useAnalyticsBase(
       selectedCategories,
       selectedPaymentMethods,
       selectedPaymentInstruments,
+      selectedTags,
       searchQuery,
       minAmount,
       maxAmount,
@@ -75,6 +95,7 @@ export function useAnalyticsBase(
       selectedCategories,
       selectedPaymentMethods,
       selectedPaymentInstruments,
+      selectedTags,
       searchQuery,
       minAmount,
       maxAmount,
@@ -100,6 +121,7 @@ export function useAnalyticsBase(
     fullPeriodExpenses,
     availableCurrencies,
     effectiveCurrency,
+    reporting,
     dateRange,
     isLoading,
     paymentInstruments,
@@ -7,6 +7,7 @@ import type {
   PieChartDataItem,
   PaymentMethodChartDataItem,
   PaymentInstrumentChartDataItem,
+  TagChartDataItem,
   LineChartDataItem,
   CategoryColorMap,
 } from "../utils/analytics/aggregations"
@@ -14,8 +15,10 @@ import {
   aggregateByCategory,
   aggregateByPaymentMethod,
   aggregateByPaymentInstrument,
+  aggregateByTag,
   aggregateByDay,
 } from "../utils/analytics/aggregations"
+import type { ReportingCurrencyOptions } from "../utils/analytics/currency"
 import { getLocale } from "../utils/date"
 import { TFunction } from "i18next"
 
@@ -23,6 +26,7 @@ export interface AnalyticsChartsResult {
   pieChartData: PieChartDataItem[]
   paymentMethodChartData: PaymentMethodChartDataItem[]
   paymentInstrumentChartData: PaymentInstrumentChartDataItem[]
+  tagChartData: TagChartDataItem[]
   lineChartData: LineChartDataItem[]
 }
 
@@ -34,7 +38,8 @@ export function useAnalyticsCharts(
   filteredExpenses: Expense[],
   dateRange: DateRange,
   paymentInstruments: PaymentInstrument[],
-  t: TFunction
+  t: TFunction,
+  reporting?: ReportingCurrencyOptions
 ): AnalyticsChartsResult {
   const { categories } = useCategories()
   const locale = getLocale()
@@ -50,28 +55,39 @@ export function useAnalyticsCharts(
 
   // Pie chart data by category
   const pieChartData = useMemo(() => {
-    return aggregateByCategory(filteredExpenses, categoryColorMap, t)
-  }, [filteredExpenses, categoryColorMap, t])
+    return aggregateByCategory(filteredExpenses, categoryColorMap, t, reporting)
+  }, [filteredExpenses, categoryColorMap, t, reporting])
 
   // Payment method chart data
   const paymentMethodChartData = useMemo(() => {
-    return aggregateByPaymentMethod(filteredExpenses, t)
-  }, [filteredExpenses, t])
+    return aggregateByPaymentMethod(filteredExpenses, t, reporting)
+  }, [filteredExpenses, t, reporting])
 
   // Payment instrument chart data
   const paymentInstrumentChartData = useMemo(() => {
-    return aggregateByPaymentInstrument(filteredExpenses, paymentInstruments, t)
-  }, [filteredExpenses, paymentInstruments, t])
+    return aggregateByPaymentInstrument(
+      filteredExpenses,
+      paymentInstruments,
+      t,
+      reporting
+    )
+  }, [filteredExpenses, paymentInstruments, t, reporting])
+
+  // Tag chart data
+  const tagChartData = useMemo(() => {
+    return aggregateByTag(filteredExpenses, reporting)
+  }, [filteredExpenses, reporting])
 
   // Line chart data by day
   const lineChartData = useMemo(() => {
-    return aggregateByDay(filteredExpenses, dateRange, locale)
-  }, [filteredExpenses, dateRange, locale])
+    return aggregateByDay(filteredExpenses, dateRange, locale, undefined, reporting)
+  }, [filteredExpenses, dateRange, locale, reporting])
 
   return {
     pieChartData,
     paymentMethodChartData,
     paymentInstrumentChartData,
+    tagChartData,
     lineChartData,
   }
 }
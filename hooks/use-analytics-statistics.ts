@@ -5,6 +5,7 @@ import type { TimeWindow } from "../utils/analytics/time"
 import { getTimeWindowDays } from "../utils/analytics/time"
 import type { AnalyticsStatistics } from "../utils/analytics/statistics"
 import { calculateStatistics } from "../utils/analytics/statistics"
+import type { ReportingCurrencyOptions } from "../utils/analytics/currency"
 
 export interface AnalyticsStatisticsResult {
   statistics: AnalyticsStatistics
@@ -18,7 +19,8 @@ export function useAnalyticsStatistics(
   filteredExpenses: Expense[],
   timeWindow: TimeWindow,
   dateRange: DateRange,
-  fullPeriodExpenses?: Expense[]
+  fullPeriodExpenses?: Expense[],
+  reporting?: ReportingCurrencyOptions
 ): AnalyticsStatisticsResult {
   const statistics = useMemo(() => {
     // For "all", calculate actual days from data range
@@ -31,8 +33,13 @@ export function useAnalyticsStatistics(
     // fullPeriodTotalSpending is derived from all expenses in the effective
     // currency (ignoring every filter including the time window) so the stats
     // cards can show the grand total as subtext regardless of active filters.
-    return calculateStatistics(filteredExpenses, daysInPeriod, fullPeriodExpenses)
-  }, [filteredExpenses, timeWindow, dateRange, fullPeriodExpenses])
+    return calculateStatistics(
+      filteredExpenses,
+      daysInPeriod,
+      fullPeriodExpenses,
+      reporting
+    )
+  }, [filteredExpenses, timeWindow, dateRange, fullPeriodExpenses, reporting])
 
   return { statistics }
 }
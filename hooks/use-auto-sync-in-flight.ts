@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react"
+import { isAutoSyncInFlight, onAutoSyncInFlightChange } from "../stores/helpers"
+
+/**
+ * Whether a background auto-sync (on change, launch, interval or reconnect)
+ * is running
+ */
+export function useAutoSyncInFlight(): boolean {
+  return useSyncExternalStore(onAutoSyncInFlightChange, isAutoSyncInFlight)
+}
@@ -0,0 +1,42 @@
+import { useMemo } from "react"
+import { useExpenses, useSettings } from "../stores/hooks"
+import { Expense } from "../types/expense"
+import type { CategoryBudgetProgress } from "../utils/analytics/budgets"
+import { calculateBudgetProgress, getBudgetExpenses } from "../utils/analytics/budgets"
+
+export interface BudgetProgressResult {
+  /** Progress for every category with a monthly budget, most used first */
+  progress: CategoryBudgetProgress[]
+  /** Currency budgets are expressed in (the settings default currency) */
+  budgetCurrency: string
+  /**
+   * Active expenses restated in the budget currency, for ad-hoc per-category
+   * checks
+   */
+  budgetExpenses: Expense[]
+}
+
+/**
+ * Hook for tracking per-category monthly budgets.
+ *
+ * Budgets are expressed in the default currency. Expenses in that currency
+ * count towards them, as do foreign-currency expenses with a converted amount
+ * in it, regardless of the analytics currency filter.
+ */
+export function useBudgetProgress(monthKey: string): BudgetProgressResult {
+  const { settings } = useSettings()
+  const { state } = useExpenses()
+
+  const budgetCurrency = settings.defaultCurrency
+  const budgetExpenses = useMemo(
+    () => getBudgetExpenses(state.activeExpenses, budgetCurrency),
+    [state.activeExpenses, budgetCurrency]
+  )
+
+  const progress = useMemo(
+    () => calculateBudgetProgress(budgetExpenses, settings.categories, monthKey),
+    [budgetExpenses, settings.categories, monthKey]
+  )
+
+  return { progress, budgetCurrency, budgetExpenses }
+}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react"
+import { useTranslation } from "react-i18next"
+import { getDeviceId, getDeviceName } from "../services/device-identity"
+import { getSyncDevices, loadSyncHistory } from "../services/sync-history"
+
+/**
+ * Resolve the device IDs recorded on expenses to names: this device's own
+ * name, or the name another device last synced under in the cached history
+ */
+export function useDeviceNames(): (deviceId: string) => string {
+  const { t } = useTranslation()
+  const [names, setNames] = useState<Map<string, string>>(() => new Map())
+
+  useEffect(() => {
+    let active = true
+    void loadSyncHistory().then((entries) => {
+      if (!active) return
+      const next = new Map<string, string>()
+      for (const device of getSyncDevices(entries)) {
+        if (device.id) {
+          next.set(device.id, device.name)
+        }
+      }
+      setNames(next)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return useCallback(
+    (deviceId: string) => {
+      if (deviceId === getDeviceId()) {
+        return t("devices.thisDeviceName", { name: getDeviceName() })
+      }
+      return names.get(deviceId) ?? t("devices.unknown", { id: deviceId.slice(0, 8) })
+    },
+    [names, t]
+  )
+}
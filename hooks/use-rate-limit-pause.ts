@@ -0,0 +1,13 @@
+import { useSyncExternalStore } from "react"
+import {
+  getRateLimitPauseUntil,
+  onRateLimitPauseChange,
+} from "../services/github-rate-limit"
+
+/**
+ * When GitHub requests resume (ISO timestamp), while sync is paused for a
+ * rate limit; null otherwise
+ */
+export function useRateLimitPause(): string | null {
+  return useSyncExternalStore(onRateLimitPauseChange, getRateLimitPauseUntil)
+}
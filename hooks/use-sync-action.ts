@@ -2,17 +2,19 @@
  * Shared sync action hook
  *
  * Encapsulates the full git-style sync flow (fetch → merge → push) including
- * conflict resolution and post-sync reconciliation (clearing dirty days,
+ * opening the conflict resolution screen and post-sync reconciliation (clearing dirty days,
  * settings change flags, and applying queued ops that landed during the sync).
+ * A preview runs the same flow up to the push and leaves the plan on the
+ * shared sync machine; applying it continues with the same callbacks.
  *
  * The pending sync count is read from shared store state, so it stays correct
  * no matter which screen triggers the sync — every consumer sees the same value.
  */
 import { useCallback, useMemo, useRef } from "react"
-import { Alert } from "react-native"
+import { useRouter, type Href } from "expo-router"
 import { useTranslation } from "react-i18next"
 import { useExpenses, useNotifications, useSettings } from "../stores/hooks"
-import { useSyncMachine, TrueConflict, ConflictResolution } from "./use-sync-machine"
+import { useSyncMachine, type SyncParams } from "./use-sync-machine"
 import {
   clearSyncOpsUpTo,
   getSyncOpsSince,
@@ -20,12 +22,21 @@ import {
 } from "../services/sync-queue"
 import { reconcileAfterSync } from "../services/sync-reconcile"
 import { loadDirtyDays, saveDirtyDays } from "../services/expense-dirty-days"
+import { resetSyncTracking } from "../services/sync-config"
 import { hapticSuccess } from "../utils/haptics"
 
 export interface UseSyncActionReturn {
   /** Run a full sync with conflict resolution and post-sync reconciliation. */
   handleSync: () => Promise<void>
-  /** Whether a sync is currently in progress. */
+  /** Work out what a sync would do and show the plan before pushing. */
+  handlePreview: () => Promise<void>
+  /**
+   * Sync every file rather than only the changed days: the tracked days are
+   * distrusted and the upload hashes and cached remote file versions dropped
+   * first.
+   */
+  handleFullResync: () => Promise<void>
+  /** Whether a sync or a preview is currently in progress. */
   isSyncing: boolean
   /** Number of pending local changes that still need to be synced. */
   pendingCount: number
@@ -33,6 +44,7 @@ export interface UseSyncActionReturn {
 
 export function useSyncAction(): UseSyncActionReturn {
   const { t } = useTranslation()
+  const router = useRouter()
 
   const { state, replaceAllExpenses, clearDirtyDaysAfterSync } = useExpenses()
   const { addNotification } = useNotifications()
@@ -45,7 +57,7 @@ export function useSyncAction(): UseSyncActionReturn {
   } = useSettings()
 
   const syncMachine = useSyncMachine()
-  const isSyncing = syncMachine.isSyncing
+  const isSyncing = syncMachine.isSyncing || syncMachine.isPreviewing
 
   const syncQueueWatermarkRef = useRef<number | null>(null)
 
@@ -62,71 +74,8 @@ export function useSyncAction(): UseSyncActionReturn {
     hasUnsyncedSettingsChanges,
   ])
 
-  /**
-   * Show conflict resolution dialog for true conflicts.
-   * Returns user's resolution choices or undefined if cancelled.
-   */
-  const showConflictDialog = useCallback(
-    (conflicts: TrueConflict[]): Promise<ConflictResolution[] | undefined> => {
-      return new Promise((resolve) => {
-        const conflictCount = conflicts.length
-        const conflictSummary = conflicts
-          .slice(0, 3)
-          .map((c) => {
-            const localNote = c.localVersion.note || "Unnamed"
-            const remoteNote = c.remoteVersion.note || "Unnamed"
-            const localAmount = `${c.localVersion.amount}`
-            const remoteAmount = `${c.remoteVersion.amount}`
-
-            return `• Local: ${localNote} (${localAmount})\n  Remote: ${remoteNote} (${remoteAmount})`
-          })
-          .join("\n\n")
-        const moreText = conflictCount > 3 ? `\n\n...and ${conflictCount - 3} more` : ""
-
-        Alert.alert(
-          t("settings.conflicts.title", {
-            count: conflictCount,
-            s: conflictCount > 1 ? "s" : "",
-          }),
-          t("settings.conflicts.message", {
-            s: conflictCount > 1 ? "s" : "",
-            summary: `${conflictSummary}${moreText}`,
-          }),
-          [
-            {
-              text: t("common.cancel"),
-              style: "cancel",
-              onPress: () => resolve(undefined),
-            },
-            {
-              text: t("settings.conflicts.keepLocal"),
-              onPress: () => {
-                const resolutions: ConflictResolution[] = conflicts.map((c) => ({
-                  expenseId: c.expenseId,
-                  choice: "local" as const,
-                }))
-                resolve(resolutions)
-              },
-            },
-            {
-              text: t("settings.conflicts.keepRemote"),
-              onPress: () => {
-                const resolutions: ConflictResolution[] = conflicts.map((c) => ({
-                  expenseId: c.expenseId,
-                  choice: "remote" as const,
-                }))
-                resolve(resolutions)
-              },
-            },
-          ]
-        )
-      })
-    },
-    [t]
-  )
-
-  // Handle sync using XState machine with callbacks
-  const handleSync = useCallback(async () => {
+  // Persist the dirty-day state the sync reads and build the machine input
+  const prepareSync = useCallback(async (): Promise<SyncParams> => {
     const dirtyDaysState = await loadDirtyDays()
     await saveDirtyDays({
       ...dirtyDaysState.state,
@@ -135,23 +84,21 @@ export function useSyncAction(): UseSyncActionReturn {
       updatedAt: new Date().toISOString(),
     })
     syncQueueWatermarkRef.current = await getSyncQueueWatermark()
-    syncMachine.sync({
+    return {
       localExpenses: state.expenses,
       settings: settings.syncSettings ? settings : undefined,
       syncSettingsEnabled: settings.syncSettings,
+      syncAttachments: settings.syncAttachments,
       callbacks: {
         onAuthError: ({ shouldSignOut }) => {
           if (shouldSignOut) {
             clearSyncConfig()
           }
         },
-        onConflict: async (conflicts: TrueConflict[]) => {
-          const resolutions = await showConflictDialog(conflicts)
-          if (resolutions) {
-            syncMachine.resolveConflicts(resolutions)
-          } else {
-            syncMachine.cancel()
-          }
+        onConflict: () => {
+          // The screen reads the conflicts from the shared sync machine and
+          // resolves or cancels the paused sync
+          router.push("/settings/sync-conflicts" as Href)
         },
         onSuccess: async (result) => {
           const localFilesUpdated = result.syncResult?.localFilesUpdated ?? 0
@@ -181,6 +128,7 @@ export function useSyncAction(): UseSyncActionReturn {
             mergedSettings: result.syncResult?.mergedSettings,
             mergedCategories: result.syncResult?.mergedCategories,
             opsAfter,
+            purgedBefore: result.syncResult?.purgedBefore,
           })
 
           if (watermark !== null) {
@@ -211,15 +159,14 @@ export function useSyncAction(): UseSyncActionReturn {
           addNotification(error, "error")
         },
       },
-    })
+    }
   }, [
     state.dirtyDays,
     state.deletedDays,
     state.expenses,
-    syncMachine,
     settings,
     clearSyncConfig,
-    showConflictDialog,
+    router,
     addNotification,
     t,
     clearDirtyDaysAfterSync,
@@ -228,5 +175,20 @@ export function useSyncAction(): UseSyncActionReturn {
     replaceSettings,
   ])
 
-  return { handleSync, isSyncing, pendingCount }
+  // Handle sync using XState machine with callbacks
+  const handleSync = useCallback(async () => {
+    syncMachine.sync(await prepareSync())
+  }, [prepareSync, syncMachine])
+
+  const handlePreview = useCallback(async () => {
+    syncMachine.preview(await prepareSync())
+  }, [prepareSync, syncMachine])
+
+  const handleFullResync = useCallback(async () => {
+    const params = await prepareSync()
+    await resetSyncTracking()
+    syncMachine.sync(params)
+  }, [prepareSync, syncMachine])
+
+  return { handleSync, handlePreview, handleFullResync, isSyncing, pendingCount }
 }
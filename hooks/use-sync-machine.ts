@@ -19,6 +19,7 @@ import {
   MergeResult,
   ConflictResolution,
   GitStyleSyncResult,
+  SyncPreviewPlan,
 } from "../services/sync-machine"
 import { useStoreContext } from "../stores/store-provider"
 
@@ -30,12 +31,15 @@ export type {
   MergeResult,
   ConflictResolution,
   GitStyleSyncResult,
+  SyncPreviewPlan,
 }
 
 export interface SyncParams {
   localExpenses: Expense[]
   settings?: AppSettings
   syncSettingsEnabled: boolean
+  /** Whether receipt attachments are pushed to the repo */
+  syncAttachments?: boolean
   callbacks?: SyncCallbacks
   /** Optional conflict resolver - if not provided, conflicts will pause sync */
   conflictResolver?: ConflictResolver
@@ -46,6 +50,10 @@ export interface UseSyncMachineReturn {
   state: SyncMachineState
   isIdle: boolean
   isSyncing: boolean
+  /** Whether a preview run is fetching and merging */
+  isPreviewing: boolean
+  /** Whether a preview plan is waiting to be applied or cancelled */
+  isPreview: boolean
   isConflict: boolean
   isPushing: boolean
   isSuccess: boolean
@@ -58,13 +66,19 @@ export interface UseSyncMachineReturn {
   mergeResult?: MergeResult
   /** Pending conflicts that need resolution */
   pendingConflicts?: TrueConflict[]
+  /** Plan of the previewed sync */
+  syncPlan?: SyncPreviewPlan
 
   // Actions
   /** Start a sync operation */
   sync: (params: SyncParams) => void
+  /** Work out what a sync would do without pushing */
+  preview: (params: SyncParams) => void
+  /** Run the previewed sync */
+  apply: () => void
   /** Resolve conflicts and continue sync */
   resolveConflicts: (resolutions: ConflictResolution[]) => void
-  /** Cancel sync (from conflict state) */
+  /** Cancel sync (from conflict or preview state) */
   cancel: () => void
   /** Reset to idle state */
   reset: () => void
@@ -82,6 +96,8 @@ export function useSyncMachine(): UseSyncMachineReturn {
   // Derived state flags
   const isIdle = state === "idle"
   const isSyncing = state === "syncing"
+  const isPreviewing = state === "previewing"
+  const isPreview = state === "preview"
   const isConflict = state === "conflict"
   const isPushing = state === "pushing"
   const isSuccess = state === "success"
@@ -96,6 +112,7 @@ export function useSyncMachine(): UseSyncMachineReturn {
         localExpenses: params.localExpenses,
         settings: params.settings,
         syncSettingsEnabled: params.syncSettingsEnabled,
+        syncAttachments: params.syncAttachments,
         callbacks: params.callbacks,
         conflictResolver: params.conflictResolver,
       })
@@ -103,6 +120,25 @@ export function useSyncMachine(): UseSyncMachineReturn {
     [syncActor]
   )
 
+  const preview = useCallback(
+    (params: SyncParams) => {
+      syncActor.send({
+        type: "PREVIEW",
+        localExpenses: params.localExpenses,
+        settings: params.settings,
+        syncSettingsEnabled: params.syncSettingsEnabled,
+        syncAttachments: params.syncAttachments,
+        callbacks: params.callbacks,
+        conflictResolver: params.conflictResolver,
+      })
+    },
+    [syncActor]
+  )
+
+  const apply = useCallback(() => {
+    syncActor.send({ type: "APPLY" })
+  }, [syncActor])
+
   const resolveConflicts = useCallback(
     (resolutions: ConflictResolution[]) => {
       syncActor.send({
@@ -128,6 +164,7 @@ export function useSyncMachine(): UseSyncMachineReturn {
       syncResult: snapshot.context.syncResult,
       mergeResult: snapshot.context.mergeResult,
       pendingConflicts: snapshot.context.pendingConflicts,
+      syncPlan: snapshot.context.syncPlan,
     }),
     [snapshot.context]
   )
@@ -136,6 +173,8 @@ export function useSyncMachine(): UseSyncMachineReturn {
     state,
     isIdle,
     isSyncing,
+    isPreviewing,
+    isPreview,
     isConflict,
     isPushing,
     isSuccess,
@@ -143,6 +182,8 @@ export function useSyncMachine(): UseSyncMachineReturn {
     isInSync,
     ...contextData,
     sync,
+    preview,
+    apply,
     resolveConflicts,
     cancel,
     reset,
@@ -53,6 +53,19 @@ jest.mock("expo-secure-store", () => ({
   deleteItemAsync: jest.fn(() => Promise.resolve()),
 }))
 
+// Mock expo-crypto with Node's generator (the native module isn't available)
+jest.mock("expo-crypto", () => ({
+  getRandomBytes: jest.fn(
+    (byteCount: number) =>
+      new Uint8Array(jest.requireActual("crypto").randomBytes(byteCount))
+  ),
+}))
+
+// Mock expo-sharing (the share sheet is native)
+jest.mock("expo-sharing", () => ({
+  shareAsync: jest.fn(() => Promise.resolve()),
+}))
+
 // Mock React Native
 jest.mock("react-native", () => ({
   Platform: {
@@ -82,3 +95,72 @@ jest.mock("lucide-react-native", () => {
     }
   )
 })
+
+// Mock expo-file-system (its sources are untransformed ESM). Files are kept in
+// memory by URI so attachment storage can be exercised in tests.
+jest.mock("expo-file-system", () => {
+  const mockFiles = new Map<string, Uint8Array>()
+  const toUri = (parts: unknown[]) =>
+    parts
+      .map((part) => (typeof part === "string" ? part : (part as { uri: string }).uri))
+      .join("/")
+
+  class MockDirectory {
+    uri: string
+    constructor(...parts: unknown[]) {
+      this.uri = toUri(parts)
+    }
+    get exists() {
+      return true
+    }
+    create() {}
+  }
+
+  class MockFile {
+    uri: string
+    constructor(...parts: unknown[]) {
+      this.uri = toUri(parts)
+    }
+    get exists() {
+      return mockFiles.has(this.uri)
+    }
+    get name() {
+      return this.uri.split("/").pop() ?? ""
+    }
+    get extension() {
+      const match = /\.[^./]+$/.exec(this.name)
+      return match ? match[0] : ""
+    }
+    write(content: string | Uint8Array) {
+      mockFiles.set(
+        this.uri,
+        typeof content === "string" ? new TextEncoder().encode(content) : content
+      )
+    }
+    async text() {
+      return new TextDecoder().decode(mockFiles.get(this.uri))
+    }
+    async base64() {
+      return Buffer.from(mockFiles.get(this.uri) ?? []).toString("base64")
+    }
+    async copy(destination: MockFile) {
+      mockFiles.set(destination.uri, mockFiles.get(this.uri) ?? new Uint8Array())
+    }
+    create() {
+      mockFiles.set(this.uri, new Uint8Array())
+    }
+    delete() {
+      mockFiles.delete(this.uri)
+    }
+    static pickFileAsync = jest.fn(async () => ({ canceled: true }))
+  }
+
+  return {
+    File: MockFile,
+    Directory: MockDirectory,
+    Paths: {
+      document: new MockDirectory("file:///document"),
+      cache: new MockDirectory("file:///cache"),
+    },
+  }
+})
@@ -350,6 +350,39 @@ describe("CategoryMerger Properties", () => {
         { numRuns: 100 }
       )
     })
+
+    it("budget-only changes SHALL be resolved by timestamp", () => {
+      fc.assert(
+        fc.property(
+          categoryArb,
+          fc.integer({ min: 1, max: 1_000_000 }),
+          (baseCategory, remoteBudget) => {
+            const localCategory: Category = {
+              ...baseCategory,
+              label: "TestCategory",
+              updatedAt: "2024-01-01T00:00:00.000Z",
+            }
+            const remoteCategory: Category = {
+              ...baseCategory,
+              label: "TestCategory",
+              monthlyBudget: remoteBudget,
+              updatedAt: "2024-06-01T00:00:00.000Z",
+            }
+
+            const result = mergeCategories([localCategory], [remoteCategory])
+
+            const merged = result.merged.find(
+              (c) => c.label.toLowerCase() === "testcategory"
+            )
+            return (
+              merged?.monthlyBudget === remoteBudget &&
+              result.updatedFromRemote.includes("TestCategory")
+            )
+          }
+        ),
+        { numRuns: 100 }
+      )
+    })
   })
 
   describe("Other Category Guarantee", () => {
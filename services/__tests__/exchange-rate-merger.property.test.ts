@@ -0,0 +1,69 @@
+/**
+ * Property-based tests for Exchange Rate Merger
+ */
+
+import * as fc from "fast-check"
+import type { ExchangeRate } from "../../types/exchange-rate"
+import { mergeExchangeRates } from "../exchange-rate-merger"
+
+const isoDateArb = fc
+  .integer({ min: 1577836800000, max: 1924905600000 }) // 2020-01-01 to 2030-12-31
+  .map((ts) => new Date(ts).toISOString())
+
+const idArb = fc
+  .string({ minLength: 1, maxLength: 24 })
+  .filter((s) => s.trim().length > 0)
+
+const rateArb: fc.Arbitrary<ExchangeRate> = fc.record({
+  id: idArb,
+  from: fc.constantFrom("USD", "EUR", "GBP"),
+  to: fc.constantFrom("INR", "JPY"),
+  rate: fc.integer({ min: 1, max: 200 }),
+  effectiveDate: isoDateArb.map((iso) => iso.slice(0, 10)),
+  createdAt: isoDateArb,
+  updatedAt: isoDateArb,
+  deletedAt: fc.option(isoDateArb, { nil: undefined }),
+})
+
+function uniqById(list: ExchangeRate[]): ExchangeRate[] {
+  const byId = new Map<string, ExchangeRate>()
+  for (const item of list) {
+    if (!byId.has(item.id)) byId.set(item.id, item)
+  }
+  return Array.from(byId.values())
+}
+
+describe("mergeExchangeRates (properties)", () => {
+  it("merged SHALL include union of ids and be sorted by id", () => {
+    fc.assert(
+      fc.property(
+        fc.array(rateArb, { maxLength: 20 }).map(uniqById),
+        fc.array(rateArb, { maxLength: 20 }).map(uniqById),
+        (local, remote) => {
+          const result = mergeExchangeRates(local, remote)
+
+          const union = new Set([...local, ...remote].map((r) => r.id))
+          expect(new Set(result.merged.map((r) => r.id))).toEqual(union)
+          expect(result.merged.length).toBe(union.size)
+
+          const ids = result.merged.map((r) => r.id)
+          expect(ids).toEqual([...ids].sort((a, b) => a.localeCompare(b)))
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it("overlapping ids SHALL keep the newer updatedAt, preferring remote on ties", () => {
+    fc.assert(
+      fc.property(rateArb, isoDateArb, isoDateArb, (base, localAt, remoteAt) => {
+        const local = { ...base, rate: 1, updatedAt: localAt }
+        const remote = { ...base, rate: 2, updatedAt: remoteAt }
+
+        const [winner] = mergeExchangeRates([local], [remote]).merged
+        expect(winner.rate).toBe(localAt > remoteAt ? 1 : 2)
+      }),
+      { numRuns: 100 }
+    )
+  })
+})
@@ -1,5 +1,9 @@
 import fc from "fast-check"
-import { mergeExpenses, DEFAULT_CONFLICT_THRESHOLD_MS } from "../merge-engine"
+import {
+  mergeExpenses,
+  applyConflictResolutions,
+  DEFAULT_CONFLICT_THRESHOLD_MS,
+} from "../merge-engine"
 import {
   Expense,
   ExpenseCategory,
@@ -575,4 +579,284 @@ describe("MergeEngine Properties", () => {
       )
     })
   })
+
+  describe("Three-Way Field Merge", () => {
+    const at = (ms: number) => new Date(ms).toISOString()
+    const baseTime = 1700000000000
+
+    it("edits to different fields on each side SHALL both be kept without conflict", () => {
+      fc.assert(
+        fc.property(
+          expenseArb,
+          fc.string({ maxLength: 50 }),
+          categoryArb,
+          fc.integer({ min: 0, max: DEFAULT_CONFLICT_THRESHOLD_MS }),
+          (base, note, category, skew) => {
+            fc.pre(note !== base.note && category !== base.category)
+            const baseExpense = { ...base, updatedAt: at(baseTime) }
+            const local = { ...baseExpense, note, updatedAt: at(baseTime + 10000) }
+            const remote = {
+              ...baseExpense,
+              category,
+              updatedAt: at(baseTime + 10000 + skew),
+            }
+
+            const result = mergeExpenses([local], [remote], {
+              base: new Map([[base.id, baseExpense]]),
+            })
+
+            const merged = result.merged.find((e) => e.id === base.id)
+            return (
+              result.trueConflicts.length === 0 &&
+              merged?.note === note &&
+              merged?.category === category &&
+              merged.amount === base.amount
+            )
+          }
+        ),
+        { numRuns: 100 }
+      )
+    })
+
+    it("a field changed on one side only SHALL win even when the other side is newer", () => {
+      fc.assert(
+        fc.property(
+          expenseArb,
+          fc.integer({ min: 1, max: 100000000 }).map((n) => n / 100),
+          (base, amount) => {
+            fc.pre(amount !== base.amount)
+            const baseExpense = { ...base, updatedAt: at(baseTime) }
+            // Remote edited the amount; local only touched its timestamp
+            const remote = { ...baseExpense, amount, updatedAt: at(baseTime + 10000) }
+            const local = { ...baseExpense, updatedAt: at(baseTime + 60000) }
+
+            const result = mergeExpenses([local], [remote], {
+              base: new Map([[base.id, baseExpense]]),
+            })
+
+            const merged = result.merged.find((e) => e.id === base.id)
+            return result.trueConflicts.length === 0 && merged?.amount === amount
+          }
+        ),
+        { numRuns: 100 }
+      )
+    })
+
+    it("the same field changed differently within the threshold SHALL be a true conflict naming it", () => {
+      fc.assert(
+        fc.property(
+          expenseArb,
+          fc.string({ maxLength: 50 }),
+          fc.string({ maxLength: 50 }),
+          categoryArb,
+          (base, localNote, remoteNote, category) => {
+            fc.pre(
+              localNote !== remoteNote &&
+                localNote !== base.note &&
+                remoteNote !== base.note &&
+                category !== base.category
+            )
+            const baseExpense = { ...base, updatedAt: at(baseTime) }
+            const local = {
+              ...baseExpense,
+              note: localNote,
+              category,
+              updatedAt: at(baseTime + 10000),
+            }
+            const remote = {
+              ...baseExpense,
+              note: remoteNote,
+              updatedAt: at(baseTime + 10000),
+            }
+
+            const result = mergeExpenses([local], [remote], {
+              base: new Map([[base.id, baseExpense]]),
+            })
+
+            return (
+              result.trueConflicts.length === 1 &&
+              result.trueConflicts[0].fields?.join() === "note" &&
+              !result.merged.some((e) => e.id === base.id)
+            )
+          }
+        ),
+        { numRuns: 100 }
+      )
+    })
+
+    it("the same field changed differently beyond the threshold SHALL take the newer value and keep other edits", () => {
+      fc.assert(
+        fc.property(
+          expenseArb,
+          fc.string({ maxLength: 50 }),
+          fc.string({ maxLength: 50 }),
+          categoryArb,
+          (base, localNote, remoteNote, category) => {
+            fc.pre(
+              localNote !== remoteNote &&
+                localNote !== base.note &&
+                remoteNote !== base.note &&
+                category !== base.category
+            )
+            const baseExpense = { ...base, updatedAt: at(baseTime) }
+            const local = {
+              ...baseExpense,
+              note: localNote,
+              category,
+              updatedAt: at(baseTime + 10000),
+            }
+            const remote = {
+              ...baseExpense,
+              note: remoteNote,
+              updatedAt: at(baseTime + 10000 + DEFAULT_CONFLICT_THRESHOLD_MS + 1),
+            }
+
+            const result = mergeExpenses([local], [remote], {
+              base: new Map([[base.id, baseExpense]]),
+            })
+
+            const merged = result.merged.find((e) => e.id === base.id)
+            return (
+              result.trueConflicts.length === 0 &&
+              merged?.note === remoteNote &&
+              merged?.category === category &&
+              merged.updatedAt === remote.updatedAt &&
+              result.autoResolved.some((r) => r.winner === "remote")
+            )
+          }
+        ),
+        { numRuns: 100 }
+      )
+    })
+
+    it("a soft delete on one side and an edit on the other SHALL both be kept", () => {
+      fc.assert(
+        fc.property(expenseArb, fc.string({ maxLength: 50 }), (base, note) => {
+          fc.pre(note !== base.note)
+          const baseExpense = { ...base, updatedAt: at(baseTime) }
+          const deletedAt = at(baseTime + 5000)
+          const local = { ...baseExpense, deletedAt, updatedAt: deletedAt }
+          const remote = { ...baseExpense, note, updatedAt: at(baseTime + 5000) }
+
+          const result = mergeExpenses([local], [remote], {
+            base: new Map([[base.id, baseExpense]]),
+          })
+
+          const merged = result.merged.find((e) => e.id === base.id)
+          return merged?.deletedAt === deletedAt && merged.note === note
+        }),
+        { numRuns: 100 }
+      )
+    })
+
+    it("merged edits SHALL be credited to the device whose fields won and keep the base creator", () => {
+      fc.assert(
+        fc.property(
+          expenseArb,
+          fc.string({ maxLength: 50 }),
+          categoryArb,
+          (base, note, category) => {
+            fc.pre(note !== base.note && category !== base.category)
+            const baseExpense = {
+              ...base,
+              createdBy: "aaaa1111",
+              updatedAt: at(baseTime),
+            }
+            const local = {
+              ...baseExpense,
+              createdBy: "bbbb2222",
+              updatedBy: "bbbb2222",
+              note,
+              updatedAt: at(baseTime + 20000),
+            }
+            const remote = {
+              ...baseExpense,
+              updatedBy: "cccc3333",
+              category,
+              updatedAt: at(baseTime + 10000),
+            }
+            // Local only touched its timestamp: the remote edit alone wins
+            const touched = {
+              ...baseExpense,
+              updatedBy: "bbbb2222",
+              updatedAt: at(baseTime + 60000),
+            }
+
+            const both = mergeExpenses([local], [remote], {
+              base: new Map([[base.id, baseExpense]]),
+            }).merged.find((e) => e.id === base.id)
+            const remoteOnly = mergeExpenses([touched], [remote], {
+              base: new Map([[base.id, baseExpense]]),
+            }).merged.find((e) => e.id === base.id)
+
+            return (
+              both?.updatedBy === "bbbb2222" &&
+              both.createdBy === "aaaa1111" &&
+              remoteOnly?.updatedBy === "cccc3333" &&
+              remoteOnly.createdBy === "aaaa1111"
+            )
+          }
+        ),
+        { numRuns: 100 }
+      )
+    })
+  })
+
+  describe("Conflict Resolutions", () => {
+    const conflictingPairArb = fc
+      .tuple(expenseArb, fc.string({ maxLength: 50 }), categoryArb)
+      .filter(
+        ([base, note, category]) => note !== base.note && category !== base.category
+      )
+      .map(([base, note, category]) => ({
+        local: { ...base, note },
+        remote: { ...base, category },
+      }))
+
+    it("per-field choices SHALL combine values from both versions", () => {
+      fc.assert(
+        fc.property(conflictingPairArb, ({ local, remote }) => {
+          const conflicted = mergeExpenses([local], [remote])
+          const result = applyConflictResolutions(
+            conflicted,
+            new Map([[local.id, { fields: { note: "local", category: "remote" } }]])
+          )
+
+          const merged = result.merged.find((e) => e.id === local.id)
+          return (
+            conflicted.trueConflicts.length === 1 &&
+            result.trueConflicts.length === 0 &&
+            merged?.note === local.note &&
+            merged.category === remote.category &&
+            result.updatedFromLocal.includes(merged) &&
+            result.updatedFromRemote.includes(merged)
+          )
+        }),
+        { numRuns: 100 }
+      )
+    })
+
+    it("keeping both SHALL add the local version under a new ID", () => {
+      fc.assert(
+        fc.property(conflictingPairArb, ({ local, remote }) => {
+          const result = applyConflictResolutions(
+            mergeExpenses([local], [remote]),
+            new Map([[local.id, "both" as const]]),
+            () => "copy-id"
+          )
+
+          const original = result.merged.find((e) => e.id === local.id)
+          const copy = result.merged.find((e) => e.id === "copy-id")
+          return (
+            result.merged.length === 2 &&
+            original?.category === remote.category &&
+            copy?.note === local.note &&
+            result.addedFromLocal.includes(copy) &&
+            result.updatedFromRemote.includes(original)
+          )
+        }),
+        { numRuns: 100 }
+      )
+    })
+  })
 })
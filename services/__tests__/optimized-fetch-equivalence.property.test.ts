@@ -96,7 +96,7 @@ function optimizedFetch(
 
   // Reuse local expenses for unchanged files
   for (const file of unchanged) {
-    const dayExpenses = localByDay.get(file.dayKey)
+    const dayExpenses = localByDay.get(file.fileKey)
     if (dayExpenses) {
       result.push(...dayExpenses)
     }
@@ -0,0 +1,94 @@
+/**
+ * Property-based tests for Recurring Template Merger
+ */
+
+import * as fc from "fast-check"
+import type { RecurringExpenseTemplate } from "../../types/recurring-expense"
+import { mergeRecurringTemplates } from "../recurring-template-merger"
+
+const isoDateArb = fc
+  .integer({ min: 1577836800000, max: 1924905600000 }) // 2020-01-01 to 2030-12-31
+  .map((ts) => new Date(ts).toISOString())
+
+const idArb = fc
+  .string({ minLength: 1, maxLength: 24 })
+  .filter((s) => s.trim().length > 0)
+
+const templateArb: fc.Arbitrary<RecurringExpenseTemplate> = fc.record({
+  id: idArb,
+  amount: fc.integer({ min: 1, max: 100000 }),
+  category: fc.constantFrom("Rent", "Food", "Entertainment"),
+  note: fc.string({ maxLength: 20 }),
+  frequency: fc.constantFrom("daily", "weekly", "monthly", "yearly"),
+  interval: fc.constant(1),
+  startDate: isoDateArb,
+  createdAt: isoDateArb,
+  updatedAt: isoDateArb,
+  deletedAt: fc.option(isoDateArb, { nil: undefined }),
+})
+
+function uniqById(list: RecurringExpenseTemplate[]): RecurringExpenseTemplate[] {
+  const byId = new Map<string, RecurringExpenseTemplate>()
+  for (const item of list) {
+    if (!byId.has(item.id)) byId.set(item.id, item)
+  }
+  return Array.from(byId.values())
+}
+
+describe("mergeRecurringTemplates (properties)", () => {
+  it("merged SHALL include union of ids and be sorted by id", () => {
+    fc.assert(
+      fc.property(
+        fc.array(templateArb, { maxLength: 20 }).map(uniqById),
+        fc.array(templateArb, { maxLength: 20 }).map(uniqById),
+        (local, remote) => {
+          const result = mergeRecurringTemplates(local, remote)
+
+          const union = new Set([...local, ...remote].map((t) => t.id))
+          expect(new Set(result.merged.map((t) => t.id))).toEqual(union)
+          expect(result.merged.length).toBe(union.size)
+
+          const ids = result.merged.map((t) => t.id)
+          expect(ids).toEqual([...ids].sort((a, b) => a.localeCompare(b)))
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it("overlapping ids SHALL keep the newer updatedAt, preferring remote on ties", () => {
+    fc.assert(
+      fc.property(templateArb, isoDateArb, isoDateArb, (base, localAt, remoteAt) => {
+        const local = { ...base, note: "local", updatedAt: localAt }
+        const remote = { ...base, note: "remote", updatedAt: remoteAt }
+
+        const [winner] = mergeRecurringTemplates([local], [remote]).merged
+        expect(winner.note).toBe(localAt > remoteAt ? "local" : "remote")
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  it("soft deletions SHALL propagate when they are newer", () => {
+    const local: RecurringExpenseTemplate = {
+      id: "rent",
+      amount: 15000,
+      category: "Rent",
+      note: "",
+      frequency: "monthly",
+      interval: 1,
+      startDate: "2026-01-01T00:00:00.000Z",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    }
+    const remote = {
+      ...local,
+      deletedAt: "2026-02-01T00:00:00.000Z",
+      updatedAt: "2026-02-01T00:00:00.000Z",
+    }
+
+    const result = mergeRecurringTemplates([local], [remote])
+    expect(result.merged[0].deletedAt).toBe(remote.deletedAt)
+    expect(result.updatedFromRemote).toHaveLength(1)
+  })
+})
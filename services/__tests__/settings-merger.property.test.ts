@@ -0,0 +1,159 @@
+/**
+ * Property-based tests for the field-level settings merge
+ */
+
+import * as fc from "fast-check"
+import {
+  DEFAULT_SETTINGS,
+  SYNCED_SETTINGS_FIELDS,
+  type AppSettings,
+  type ThemePreference,
+} from "../settings-manager"
+import { applySettingsPatch, mergeSettings } from "../settings-merger"
+import type { PaymentInstrument } from "../../types/payment-instrument"
+
+const isoDateArb = fc
+  .integer({ min: 1577836800000, max: 1924905600000 }) // 2020-01-01 to 2030-12-31
+  .map((ts) => new Date(ts).toISOString())
+
+const themeArb = fc.constantFrom<ThemePreference>("light", "dark", "system")
+
+function settingsWith(overrides: Partial<AppSettings>): AppSettings {
+  return { ...DEFAULT_SETTINGS, ...overrides }
+}
+
+function instrument(id: string, nickname: string, updatedAt: string): PaymentInstrument {
+  return {
+    id,
+    method: "Credit Card",
+    nickname,
+    lastDigits: "1234",
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt,
+  }
+}
+
+describe("mergeSettings (properties)", () => {
+  it("each synced field SHALL keep the value with the newer timestamp, preferring remote on ties", () => {
+    fc.assert(
+      fc.property(
+        themeArb,
+        themeArb,
+        isoDateArb,
+        isoDateArb,
+        (localTheme, remoteTheme, localAt, remoteAt) => {
+          const local = settingsWith({
+            theme: localTheme,
+            fieldUpdatedAt: { theme: localAt },
+          })
+          const remote = settingsWith({
+            theme: remoteTheme,
+            fieldUpdatedAt: { theme: remoteAt },
+          })
+
+          const { merged } = mergeSettings(local, remote)
+
+          const expected = localAt > remoteAt ? localTheme : remoteTheme
+          expect(merged.theme).toBe(expected)
+          expect(merged.fieldUpdatedAt.theme).toBe(
+            localAt > remoteAt ? localAt : remoteAt
+          )
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  it("SHALL keep edits to different fields from both sides", () => {
+    const local = settingsWith({
+      theme: "dark",
+      fieldUpdatedAt: {
+        theme: "2025-06-02T00:00:00.000Z",
+        defaultCurrency: "2025-01-01T00:00:00.000Z",
+      },
+      paymentInstruments: [
+        instrument("card-a", "Local card", "2025-06-01T00:00:00.000Z"),
+      ],
+    })
+    const remote = settingsWith({
+      theme: "light",
+      defaultCurrency: "JPY",
+      fieldUpdatedAt: {
+        theme: "2025-01-01T00:00:00.000Z",
+        defaultCurrency: "2025-06-03T00:00:00.000Z",
+      },
+      paymentInstruments: [
+        instrument("card-b", "Remote card", "2025-06-01T00:00:00.000Z"),
+      ],
+    })
+
+    const result = mergeSettings(local, remote)
+
+    expect(result.merged.theme).toBe("dark")
+    expect(result.merged.defaultCurrency).toBe("JPY")
+    expect(result.merged.paymentInstruments.map((i) => i.id)).toEqual([
+      "card-a",
+      "card-b",
+    ])
+    expect(result.updatedFromLocal).toEqual(["theme"])
+    expect(result.updatedFromRemote).toEqual(["defaultCurrency"])
+  })
+
+  it("SHALL keep local values when there is no remote copy", () => {
+    fc.assert(
+      fc.property(themeArb, fc.boolean(), (theme, syncAttachments) => {
+        const local = settingsWith({ theme, syncAttachments })
+
+        const result = mergeSettings(local, undefined)
+
+        for (const field of SYNCED_SETTINGS_FIELDS) {
+          expect(result.merged[field]).toEqual(local[field])
+        }
+        expect(result.updatedFromRemote).toEqual([])
+      }),
+      { numRuns: 50 }
+    )
+  })
+})
+
+describe("applySettingsPatch", () => {
+  it("SHALL not let an older queued edit overwrite a newer merged field", () => {
+    const merged = settingsWith({
+      theme: "light",
+      fieldUpdatedAt: { theme: "2025-06-02T00:00:00.000Z" },
+    })
+
+    const result = applySettingsPatch(
+      merged,
+      { theme: "dark", syncAttachments: true },
+      "2025-06-01T00:00:00.000Z"
+    )
+
+    expect(result.theme).toBe("light")
+    expect(result.syncAttachments).toBe(true)
+    expect(result.fieldUpdatedAt).toEqual({
+      theme: "2025-06-02T00:00:00.000Z",
+      syncAttachments: "2025-06-01T00:00:00.000Z",
+    })
+  })
+
+  it("SHALL merge queued instrument lists by id instead of replacing them", () => {
+    const merged = settingsWith({
+      paymentInstruments: [
+        instrument("remote", "Remote card", "2025-06-01T00:00:00.000Z"),
+      ],
+    })
+
+    const result = applySettingsPatch(
+      merged,
+      {
+        paymentInstruments: [
+          instrument("local", "Local card", "2025-06-02T00:00:00.000Z"),
+        ],
+      },
+      "2025-06-02T00:00:00.000Z"
+    )
+
+    expect(result.paymentInstruments.map((i) => i.id)).toEqual(["local", "remote"])
+  })
+})
@@ -6,6 +6,7 @@
  * - State transitions through the unified sync flow
  * - Callback invocation with correct data
  * - Conflict detection and resolution
+ * - Preview, apply and cancel
  * - Error handling
  */
 
@@ -13,7 +14,11 @@ import { createActor } from "xstate"
 import type { SyncCallbacks } from "../sync-machine"
 import type { Expense } from "../../types/expense"
 import type { TrueConflict, MergeResult } from "../merge-engine"
-import type { GitStyleSyncResult, ConflictResolution } from "../sync-manager"
+import type {
+  GitStyleSyncResult,
+  ConflictResolution,
+  SyncPreviewPlan,
+} from "../sync-manager"
 
 // expo-secure-store is ESM in node_modules; mock it before importing sync-machine.
 jest.mock("expo-secure-store", () => ({
@@ -71,6 +76,7 @@ function createMergeResult(overrides: Partial<MergeResult> = {}): MergeResult {
     updatedFromLocal: [],
     autoResolved: [],
     trueConflicts: [],
+    purged: [],
     ...overrides,
   }
 }
@@ -670,4 +676,87 @@ describe("Sync Machine Integration Tests (Git-Style Flow)", () => {
       actor.stop()
     })
   })
+
+  describe("Preview", () => {
+    const plan: SyncPreviewPlan = {
+      uploads: ["expenses-2024-01-01.csv"],
+      deletions: [],
+      attachmentUploads: 0,
+      attachmentDeletions: 0,
+      expensesAdded: 2,
+      expensesUpdated: 0,
+      expensesPushed: 1,
+      conflicts: 0,
+      settingsUploaded: false,
+      settingsChanged: false,
+    }
+    const previewResult: GitStyleSyncResult = {
+      success: true,
+      message: "Preview",
+      mergeResult: createMergeResult(),
+      filesUploaded: 0,
+      filesSkipped: 0,
+      preview: plan,
+    }
+
+    it("should stop in preview with the plan and push only on APPLY", async () => {
+      const pushResult: GitStyleSyncResult = {
+        success: true,
+        message: "Synced",
+        mergeResult: createMergeResult({ addedFromLocal: [createTestExpense()] }),
+        filesUploaded: 1,
+        filesSkipped: 0,
+      }
+      mockGitStyleSync
+        .mockResolvedValueOnce(previewResult)
+        .mockResolvedValueOnce(pushResult)
+      const onPreview = jest.fn()
+      const onSuccess = jest.fn()
+
+      const actor = createActor(syncMachine)
+      actor.start()
+
+      actor.send({
+        type: "PREVIEW",
+        localExpenses: [],
+        syncSettingsEnabled: false,
+        callbacks: { onPreview, onSuccess },
+      })
+
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      expect(actor.getSnapshot().value).toBe("preview")
+      expect(actor.getSnapshot().context.syncPlan).toEqual(plan)
+      expect(onPreview).toHaveBeenCalledWith(plan)
+      expect(mockGitStyleSync).toHaveBeenCalledTimes(1)
+      expect(mockGitStyleSync.mock.calls[0][5]).toBe(true)
+
+      actor.send({ type: "APPLY" })
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      expect(actor.getSnapshot().value).toBe("success")
+      expect(mockGitStyleSync).toHaveBeenCalledTimes(2)
+      expect(mockGitStyleSync.mock.calls[1][5]).toBeUndefined()
+      expect(onSuccess).toHaveBeenCalled()
+
+      actor.stop()
+    })
+
+    it("should return to idle on CANCEL from preview without pushing", async () => {
+      mockGitStyleSync.mockResolvedValue(previewResult)
+
+      const actor = createActor(syncMachine)
+      actor.start()
+
+      actor.send({ type: "PREVIEW", localExpenses: [], syncSettingsEnabled: false })
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      expect(actor.getSnapshot().value).toBe("preview")
+
+      actor.send({ type: "CANCEL" })
+      expect(actor.getSnapshot().value).toBe("idle")
+      expect(actor.getSnapshot().context.syncPlan).toBeUndefined()
+      expect(mockGitStyleSync).toHaveBeenCalledTimes(1)
+
+      actor.stop()
+    })
+  })
 })
@@ -33,6 +33,8 @@ jest.mock("react-native", () => ({
 
 // Import after mocks are set up
 import { AppSettings, computeSettingsHash } from "../settings-manager"
+import type { RecurringExpenseTemplate } from "../../types/recurring-expense"
+import type { ExchangeRate } from "../../types/exchange-rate"
 
 // =============================================================================
 // Arbitraries (Test Data Generators)
@@ -90,13 +92,16 @@ const appSettingsArb = fc.record({
   useMlOnlyForSmsImports: fc.boolean(),
   backgroundSmsImportEnabled: fc.boolean(),
   autoSyncEnabled: fc.boolean(),
-  autoSyncTiming: fc.constantFrom("on_launch", "on_change") as fc.Arbitrary<
-    "on_launch" | "on_change"
-  >,
+  autoSyncTiming: fc.constantFrom("on_launch", "on_change", "interval", "on_reconnect"),
+  autoSyncIntervalMinutes: fc.constantFrom(5, 15, 30, 60),
+  fieldUpdatedAt: fc.constant({}),
   categories: categoryListArb,
   categoriesVersion: fc.constant(1),
   paymentInstruments: fc.constant<PaymentInstrument[]>([]),
   paymentInstrumentsMigrationVersion: fc.constant(0),
+  recurringTemplates: fc.constant<RecurringExpenseTemplate[]>([]),
+  exchangeRates: fc.constant<ExchangeRate[]>([]),
+  syncAttachments: fc.boolean(),
   updatedAt: isoDateArb,
   version: fc.constant(9),
   defaultCurrency: fc.constant("INR"),
@@ -5,6 +5,7 @@ import {
   getSyncOpsSince,
   getSyncQueueWatermark,
   clearSyncOpsUpTo,
+  dropSyncOp,
   SyncQueueOpInput,
 } from "../sync-queue"
 import { Expense } from "../../types/expense"
@@ -69,6 +70,22 @@ describe("sync-queue", () => {
     expect(opsRemaining).toHaveLength(0)
   })
 
+  it("drops a single op and keeps the rest", async () => {
+    const first = await enqueueSyncOp({
+      type: "expense.upsert",
+      expense: createExpense("1", "A"),
+    })
+    const second = await enqueueSyncOp({
+      type: "settings.patch",
+      updates: { theme: "dark" },
+    })
+
+    await dropSyncOp(first.id)
+
+    expect((await getSyncOpsSince(0)).map((op) => op.id)).toEqual([second.id])
+    expect(await getSyncQueueWatermark()).toBe(second.id)
+  })
+
   it("applies queued expense upserts", () => {
     const base = [createExpense("1", "Base")]
     const updated = { ...base[0], note: "Updated" }
@@ -50,6 +50,23 @@ describe("reconcileAfterSync", () => {
     expect(result.hasPendingSettingsOps).toBe(false)
   })
 
+  it("drops tombstones a queued op re-adds from before the purge watermark", () => {
+    const kept = createExpense("1", "Kept")
+    const deleted = {
+      ...createExpense("2", "Deleted"),
+      deletedAt: "2024-01-01T00:00:00.000Z",
+    }
+
+    const result = reconcileAfterSync({
+      baseExpenses: [kept],
+      settings: createSettings([]),
+      opsAfter: [op("expense.upsert", 1, { expense: deleted })],
+      purgedBefore: "2024-06-01T00:00:00.000Z",
+    })
+
+    expect(result.expenses.map((e) => e.id)).toEqual(["1"])
+  })
+
   it("flags pending settings ops for category changes", () => {
     const result = reconcileAfterSync({
       baseExpenses: [],
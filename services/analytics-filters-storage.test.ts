@@ -32,6 +32,7 @@ describe("analytics-filters-storage", () => {
       selectedCategories: ["Food"],
       selectedPaymentMethods: [],
       selectedPaymentInstruments: ["UPI::__others__"],
+      selectedTags: [],
       selectedCurrency: "USD",
       searchQuery: "lunch",
       minAmount: 100,
@@ -47,6 +48,7 @@ describe("analytics-filters-storage", () => {
       selectedCategories: ["Food"],
       selectedPaymentMethods: [],
       selectedPaymentInstruments: [],
+      selectedTags: [],
       selectedCurrency: "USD",
       searchQuery: "lunch",
       minAmount: 100,
@@ -61,6 +63,7 @@ describe("analytics-filters-storage", () => {
       selectedCategories: ["Food", "Travel"],
       selectedPaymentMethods: ["Cash"],
       selectedPaymentInstruments: ["Credit Card::__others__"],
+      selectedTags: ["work", "gift"],
       selectedCurrency: "EUR",
       searchQuery: "dinner",
       minAmount: 50,
@@ -75,6 +78,20 @@ describe("analytics-filters-storage", () => {
     })
   })
 
+  it("loadAnalyticsFilters SHALL default tags for filters saved before tags existed", async () => {
+    const { selectedTags: _, ...stored } = {
+      ...DEFAULT_ANALYTICS_FILTERS,
+      selectedCategories: ["Food"],
+    }
+
+    await setItem(ANALYTICS_FILTERS_KEY, JSON.stringify(stored))
+
+    await expect(loadAnalyticsFilters()).resolves.toEqual({
+      ...DEFAULT_ANALYTICS_FILTERS,
+      selectedCategories: ["Food"],
+    })
+  })
+
   it("loadAnalyticsFilters SHALL clear month when invalid", async () => {
     const stored = {
       timeWindow: "6m",
@@ -82,6 +99,7 @@ describe("analytics-filters-storage", () => {
       selectedCategories: [],
       selectedPaymentMethods: [],
       selectedPaymentInstruments: [],
+      selectedTags: [],
       selectedCurrency: null,
       searchQuery: "",
       minAmount: null,
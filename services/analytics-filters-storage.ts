@@ -6,6 +6,7 @@ import type {
   PaymentMethodSelectionKey,
 } from "../utils/analytics/filters"
 import { PAYMENT_METHOD_COLORS } from "../constants/payment-method-colors"
+import { normalizeTags } from "../utils/tags"
 
 const ANALYTICS_FILTERS_KEY = "analytics_filters_v1"
 
@@ -17,6 +18,7 @@ export const AnalyticsFiltersStateSchema = z
     selectedCategories: z.array(z.string()),
     selectedPaymentMethods: z.array(z.string()),
     selectedPaymentInstruments: z.array(z.string()),
+    selectedTags: z.array(z.string()).default([]),
     selectedCurrency: z.string().nullable(),
     searchQuery: z.string().default(""),
     minAmount: z.number().min(0).nullable(),
@@ -42,6 +44,7 @@ export interface AnalyticsFiltersState {
   selectedCategories: string[]
   selectedPaymentMethods: PaymentMethodSelectionKey[]
   selectedPaymentInstruments: PaymentInstrumentSelectionKey[]
+  selectedTags: string[]
   selectedCurrency: string | null
   searchQuery: string
   minAmount: number | null
@@ -54,6 +57,7 @@ export const DEFAULT_ANALYTICS_FILTERS: AnalyticsFiltersState = {
   selectedCategories: [],
   selectedPaymentMethods: [],
   selectedPaymentInstruments: [],
+  selectedTags: [],
   selectedCurrency: null,
   searchQuery: "",
   minAmount: null,
@@ -95,38 +99,49 @@ function asNumberOrNull(value: unknown): number | null {
   return isNaN(value) ? null : value
 }
 
+/**
+ * Sanitize stored filters (from storage or a backup archive), falling back to
+ * defaults for anything invalid
+ */
+export function parseAnalyticsFilters(raw: unknown): AnalyticsFiltersState {
+  if (!raw || typeof raw !== "object") return { ...DEFAULT_ANALYTICS_FILTERS }
+
+  const parsed = raw as Partial<AnalyticsFiltersState>
+
+  const next: AnalyticsFiltersState = {
+    timeWindow: asTimeWindow(parsed.timeWindow),
+    selectedMonth: asMonthKey(parsed.selectedMonth),
+    selectedCategories: asStringArray(parsed.selectedCategories),
+    selectedPaymentMethods: asPaymentMethodKeys(parsed.selectedPaymentMethods),
+    selectedPaymentInstruments: asStringArray(
+      parsed.selectedPaymentInstruments
+    ) as PaymentInstrumentSelectionKey[],
+    selectedTags: normalizeTags(asStringArray(parsed.selectedTags)),
+    selectedCurrency:
+      typeof parsed.selectedCurrency === "string" ? parsed.selectedCurrency : null,
+    searchQuery: typeof parsed.searchQuery === "string" ? parsed.searchQuery : "",
+    minAmount: asNumberOrNull(parsed.minAmount),
+    maxAmount: asNumberOrNull(parsed.maxAmount),
+  }
+
+  // Normalize: if payment methods are "All", instruments must also be "All".
+  if (next.selectedPaymentMethods.length === 0) {
+    next.selectedPaymentInstruments = []
+  }
+
+  if (next.selectedMonth) {
+    next.timeWindow = "all"
+  }
+
+  return next
+}
+
 export async function loadAnalyticsFilters(): Promise<AnalyticsFiltersState> {
   try {
     const stored = await getItem(ANALYTICS_FILTERS_KEY)
     if (!stored) return { ...DEFAULT_ANALYTICS_FILTERS }
 
-    const parsed = JSON.parse(stored) as Partial<AnalyticsFiltersState>
-
-    const next: AnalyticsFiltersState = {
-      timeWindow: asTimeWindow(parsed.timeWindow),
-      selectedMonth: asMonthKey(parsed.selectedMonth),
-      selectedCategories: asStringArray(parsed.selectedCategories),
-      selectedPaymentMethods: asPaymentMethodKeys(parsed.selectedPaymentMethods),
-      selectedPaymentInstruments: asStringArray(
-        parsed.selectedPaymentInstruments
-      ) as PaymentInstrumentSelectionKey[],
-      selectedCurrency:
-        typeof parsed.selectedCurrency === "string" ? parsed.selectedCurrency : null,
-      searchQuery: typeof parsed.searchQuery === "string" ? parsed.searchQuery : "",
-      minAmount: asNumberOrNull(parsed.minAmount),
-      maxAmount: asNumberOrNull(parsed.maxAmount),
-    }
-
-    // Normalize: if payment methods are "All", instruments must also be "All".
-    if (next.selectedPaymentMethods.length === 0) {
-      next.selectedPaymentInstruments = []
-    }
-
-    if (next.selectedMonth) {
-      next.timeWindow = "all"
-    }
-
-    return next
+    return parseAnalyticsFilters(JSON.parse(stored))
   } catch (error) {
     console.warn("Failed to load analytics filters:", error)
     return { ...DEFAULT_ANALYTICS_FILTERS }
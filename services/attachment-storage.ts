@@ -0,0 +1,97 @@
+/**
+ * On-device storage for receipt attachments
+ *
+ * Files live in the app's document directory under attachments/, named as
+ * referenced by Expense.attachments. Syncing them is handled by git-style-sync
+ * (upload) and remote-fetch (download on demand).
+ */
+
+import { Directory, File, Paths } from "expo-file-system"
+import type { ServiceResult } from "../types/service-result"
+import { createErrorResult, createSuccessResult } from "./error-utils"
+import {
+  ATTACHMENTS_DIRECTORY,
+  ATTACHMENT_MIME_TYPES,
+  createAttachmentName,
+} from "../utils/attachments"
+
+function getAttachmentsDirectory(): Directory {
+  const directory = new Directory(Paths.document, ATTACHMENTS_DIRECTORY)
+  if (!directory.exists) {
+    directory.create({ intermediates: true })
+  }
+  return directory
+}
+
+/**
+ * Local file for an attachment (it may not have been downloaded yet)
+ */
+export function getLocalAttachmentFile(name: string): File {
+  return new File(getAttachmentsDirectory(), name)
+}
+
+/**
+ * Whether an attachment is available on this device
+ */
+export function hasLocalAttachment(name: string): boolean {
+  return getLocalAttachmentFile(name).exists
+}
+
+/**
+ * Let the user pick receipt images and copy them into attachment storage.
+ * Resolves with the new attachment names, or `data: null` when cancelled.
+ */
+export async function pickReceiptImages(): Promise<ServiceResult<string[] | null>> {
+  try {
+    const picked = await File.pickFileAsync({
+      mimeTypes: ATTACHMENT_MIME_TYPES,
+      multipleFiles: true,
+    })
+    if (picked.canceled) {
+      return createSuccessResult(null)
+    }
+
+    const names: string[] = []
+    for (const file of picked.result) {
+      const name = createAttachmentName(file.extension)
+      await file.copy(getLocalAttachmentFile(name))
+      names.push(name)
+    }
+    return createSuccessResult(names)
+  } catch (error) {
+    return createErrorResult("AttachmentStorage", "pickReceiptImages", error)
+  }
+}
+
+/**
+ * Read a local attachment as base64 (for blob uploads)
+ */
+export async function readAttachmentBase64(name: string): Promise<string> {
+  return getLocalAttachmentFile(name).base64()
+}
+
+/**
+ * Store downloaded attachment bytes, returning the local file URI
+ */
+export function saveAttachmentBytes(name: string, bytes: Uint8Array): string {
+  const file = getLocalAttachmentFile(name)
+  file.write(bytes)
+  return file.uri
+}
+
+/**
+ * Remove local attachment files. Missing files are ignored and failures are
+ * only logged, so cleanup never blocks the action that triggered it.
+ */
+export function deleteLocalAttachments(names: readonly string[]): void {
+  for (const name of names) {
+    try {
+      const file = getLocalAttachmentFile(name)
+      if (file.exists) {
+        file.delete()
+      }
+    } catch (error) {
+      console.warn(`[AttachmentStorage] Failed to delete ${name}:`, error)
+    }
+  }
+}
@@ -1,11 +1,141 @@
 import { createActor, waitFor } from "xstate"
 import { Expense } from "../types/expense"
+import type { SyncConfig } from "../types/sync"
 import { loadSyncConfig, SyncNotification, type GitStyleSyncResult } from "./sync-manager"
-import { AppSettings, loadSettings } from "./settings-manager"
+import { AppSettings, AutoSyncTiming, loadSettings } from "./settings-manager"
 import { syncMachine } from "./sync-machine"
 import { reconcileAfterSync } from "./sync-reconcile"
+import { GITHUB_API_BASE_URL } from "./github-sync"
+import { getRateLimitPauseUntil, onRateLimitPauseChange } from "./github-rate-limit"
+import { classifyError } from "./error-utils"
 import i18next from "i18next"
 import { clearSyncOpsUpTo, getSyncOpsSince, getSyncQueueWatermark } from "./sync-queue"
+import { loadDirtyDays } from "./expense-dirty-days"
+
+/** How long a connectivity probe waits for the sync server before giving up */
+const CONNECTIVITY_PROBE_TIMEOUT_MS = 5000
+
+/** How long one background sync may run, not counting rate-limit pauses */
+const AUTO_SYNC_TIMEOUT_MS = 60_000
+
+/**
+ * Connectivity as last observed by a sync or a probe. There is no OS-level
+ * network listener, so the device counts as online until a request to the
+ * sync server fails with a network error.
+ */
+let deviceOnline = true
+const connectivityListeners = new Set<(online: boolean) => void>()
+
+/**
+ * Whether the last sync or probe reached the sync server
+ */
+export function isDeviceOnline(): boolean {
+  return deviceOnline
+}
+
+/**
+ * Record the observed connectivity and notify listeners when it changes
+ */
+export function setDeviceOnline(online: boolean): void {
+  if (online === deviceOnline) {
+    return
+  }
+  deviceOnline = online
+  for (const listener of connectivityListeners) {
+    listener(online)
+  }
+}
+
+/**
+ * Subscribe to connectivity changes
+ * @returns Unsubscribe function
+ */
+export function onConnectivityChange(listener: (online: boolean) => void): () => void {
+  connectivityListeners.add(listener)
+  return () => {
+    connectivityListeners.delete(listener)
+  }
+}
+
+/**
+ * Whether edited or deleted days are waiting to be pushed. Read from the
+ * persisted dirty days, so edits made offline survive an app restart.
+ */
+export async function hasUnsyncedDays(): Promise<boolean> {
+  const { state } = await loadDirtyDays()
+  return state.dirtyDays.length > 0 || state.deletedDays.length > 0
+}
+
+function getSyncServerUrl(config: SyncConfig): string {
+  if (config.backend === "webdav" && config.webdav) {
+    return config.webdav.url
+  }
+  return config.apiBaseUrl ?? GITHUB_API_BASE_URL
+}
+
+/**
+ * Check whether the sync server can be reached and record the result.
+ * Any HTTP response counts as online; only a failed request counts as offline.
+ * Without a sync config the last observed state is returned unchanged.
+ */
+export async function probeConnectivity(): Promise<boolean> {
+  const config = await loadSyncConfig()
+  if (!config) {
+    return deviceOnline
+  }
+
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), CONNECTIVITY_PROBE_TIMEOUT_MS)
+  try {
+    await fetch(getSyncServerUrl(config), { method: "HEAD", signal: controller.signal })
+    setDeviceOnline(true)
+  } catch {
+    setDeviceOnline(false)
+  } finally {
+    clearTimeout(timeout)
+  }
+  return deviceOnline
+}
+
+/**
+ * Abort signal that fires once `ms` have passed outside GitHub rate-limit
+ * pauses. The clock stops while requests wait for a limit to reset, since
+ * the scheduler resumes them by itself.
+ */
+function createSyncTimeout(ms: number): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController()
+  let remaining = ms
+  let startedAt = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const start = () => {
+    if (timer) return
+    startedAt = Date.now()
+    timer = setTimeout(
+      () => controller.abort(new Error("Auto-sync timed out")),
+      Math.max(0, remaining)
+    )
+  }
+  const pause = () => {
+    if (!timer) return
+    clearTimeout(timer)
+    timer = null
+    remaining -= Date.now() - startedAt
+  }
+
+  const unsubscribe = onRateLimitPauseChange((until) => (until ? pause() : start()))
+  if (!getRateLimitPauseUntil()) {
+    start()
+  }
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      pause()
+      unsubscribe()
+    },
+  }
+}
 
 /**
  * Main auto-sync orchestration function
@@ -56,20 +186,27 @@ export async function performAutoSyncIfEnabled(localExpenses: Expense[]): Promis
         localExpenses: currentExpenses,
         settings: appSettings.syncSettings ? appSettings : undefined,
         syncSettingsEnabled: appSettings.syncSettings,
+        syncAttachments: appSettings.syncAttachments,
       })
 
-      // Wait for the machine to reach a final state
-      const finalSnapshot = await waitFor(
-        actor,
-        (snapshot) =>
-          snapshot.matches("success") ||
-          snapshot.matches("inSync") ||
-          snapshot.matches("error") ||
-          snapshot.matches("conflict"),
-        { timeout: 60000 } // 60 second timeout
-      )
-
-      actor.stop()
+      // Wait for the machine to reach a final state; time spent waiting for
+      // a GitHub rate limit to reset does not count towards the timeout
+      const timeout = createSyncTimeout(AUTO_SYNC_TIMEOUT_MS)
+      let finalSnapshot
+      try {
+        finalSnapshot = await waitFor(
+          actor,
+          (snapshot) =>
+            snapshot.matches("success") ||
+            snapshot.matches("inSync") ||
+            snapshot.matches("error") ||
+            snapshot.matches("conflict"),
+          { timeout: Infinity, signal: timeout.signal }
+        )
+      } finally {
+        timeout.clear()
+        actor.stop()
+      }
 
       const context = finalSnapshot.context
       const syncResult = context.syncResult as GitStyleSyncResult | undefined
@@ -82,12 +219,17 @@ export async function performAutoSyncIfEnabled(localExpenses: Expense[]): Promis
       }
 
       if (finalSnapshot.matches("error")) {
+        if (classifyError(context.error) === "network") {
+          setDeviceOnline(false)
+        }
         return {
           synced: false,
           error: context.error || i18next.t("githubSync.manager.syncFailed"),
         }
       }
 
+      setDeviceOnline(true)
+
       const mergeResult = context.mergeResult
       const baseExpenses = mergeResult?.merged ?? currentExpenses
       let opsAfter = await getSyncOpsSince(watermark)
@@ -104,6 +246,7 @@ export async function performAutoSyncIfEnabled(localExpenses: Expense[]): Promis
         mergedSettings: syncResult?.mergedSettings,
         mergedCategories: syncResult?.mergedCategories,
         opsAfter,
+        purgedBefore: syncResult?.purgedBefore,
       })
 
       const hasSettingsOps = reconciled.hasPendingSettingsOps
@@ -160,6 +303,9 @@ export async function performAutoSyncIfEnabled(localExpenses: Expense[]): Promis
     }
   } catch (error) {
     console.error("Auto-sync failed:", error)
+    if (classifyError(error) === "network") {
+      setDeviceOnline(false)
+    }
     return {
       synced: false,
       error: String(error),
@@ -170,9 +316,7 @@ export async function performAutoSyncIfEnabled(localExpenses: Expense[]): Promis
 /**
  * Check if auto-sync should run for the given timing
  */
-export async function shouldAutoSyncForTiming(
-  timing: "on_launch" | "on_change"
-): Promise<boolean> {
+export async function shouldAutoSyncForTiming(timing: AutoSyncTiming): Promise<boolean> {
   const settings = await loadSettings()
   return settings.autoSyncEnabled && settings.autoSyncTiming === timing
 }
@@ -0,0 +1,219 @@
+import { shareAsync } from "expo-sharing"
+import { File } from "expo-file-system"
+import { clear } from "./storage"
+import {
+  BACKUP_FORMAT,
+  BackupContents,
+  createBackupFile,
+  getBackupFileName,
+  mergeBackupSettings,
+  readBackupFile,
+  RestoredBackup,
+  restoreDeviceState,
+  shareBackupFile,
+} from "./backup-archive"
+import { DEFAULT_SETTINGS } from "./settings-manager"
+import {
+  DEFAULT_ANALYTICS_FILTERS,
+  loadAnalyticsFilters,
+} from "./analytics-filters-storage"
+import {
+  CSVMappingProfile,
+  loadMappingProfiles,
+  saveMappingProfile,
+} from "./csv-import/mapping-profiles"
+import { Expense } from "../types/expense"
+import { PaymentInstrument } from "../types/payment-instrument"
+import { PBKDF2_ITERATIONS } from "../utils/crypto"
+
+// Backups only open with a work factor in the supported range
+const ITERATIONS = PBKDF2_ITERATIONS
+
+function makeExpense(id: string, overrides: Partial<Expense> = {}): Expense {
+  return {
+    id,
+    amount: 100,
+    currency: "INR",
+    category: "Food",
+    date: "2024-01-01T12:00:00.000Z",
+    note: `Expense ${id}`,
+    createdAt: "2024-01-01T12:00:00.000Z",
+    updatedAt: "2024-01-01T12:00:00.000Z",
+    ...overrides,
+  }
+}
+
+function makeInstrument(id: string, nickname: string): PaymentInstrument {
+  return {
+    id,
+    method: "Credit Card",
+    nickname,
+    lastDigits: "1234",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  }
+}
+
+function makeProfile(id: string, name: string): CSVMappingProfile {
+  return {
+    id,
+    name,
+    headers: ["Date", "Amount"],
+    mapping: {
+      columns: { date: "Date", amount: "Amount" },
+      dateFormat: "iso",
+      decimalSeparator: ".",
+      categoryMap: {},
+      paymentMap: {},
+    },
+    updatedAt: "2024-01-01T00:00:00.000Z",
+  }
+}
+
+const contents: BackupContents = {
+  settings: {
+    ...DEFAULT_SETTINGS,
+    theme: "dark",
+    paymentInstruments: [makeInstrument("card-1", "Travel card")],
+  },
+  expenses: [
+    makeExpense("a", { tags: ["work"] }),
+    makeExpense("b", { deletedAt: "2024-01-02T00:00:00.000Z" }),
+  ],
+  analyticsFilters: { ...DEFAULT_ANALYTICS_FILTERS, timeWindow: "1m" },
+  uiState: {
+    paymentMethodSectionExpanded: true,
+    paymentInstrumentsSectionExpanded: false,
+  },
+  mappingProfiles: [makeProfile("p1", "Bank")],
+}
+
+describe("backup archive", () => {
+  it("round-trips every part of the backup", async () => {
+    const file = await createBackupFile(
+      contents,
+      "long password",
+      new Date("2024-05-01T00:00:00.000Z"),
+      ITERATIONS
+    )
+
+    expect(file).not.toContain("Travel card")
+    expect(JSON.parse(file)).toMatchObject({
+      format: BACKUP_FORMAT,
+      version: 1,
+      createdAt: "2024-05-01T00:00:00.000Z",
+      encryption: { kdf: "pbkdf2-sha256", iterations: ITERATIONS },
+    })
+
+    const result = await readBackupFile(file, "long password")
+
+    expect(result.success).toBe(true)
+    expect(result.data).toEqual({ ...contents, createdAt: "2024-05-01T00:00:00.000Z" })
+  })
+
+  it("rejects a wrong password", async () => {
+    const file = await createBackupFile(contents, "long password", new Date(), ITERATIONS)
+
+    const result = await readBackupFile(file, "other password")
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe("Wrong password, or the backup is damaged")
+  })
+
+  it("rejects files that are not backups or come from a newer version", async () => {
+    expect((await readBackupFile("date,amount\n", "pw")).error).toBe(
+      "This is not an Expense Buddy backup"
+    )
+
+    const file = JSON.parse(
+      await createBackupFile(contents, "pw", new Date(), ITERATIONS)
+    )
+    expect(
+      (await readBackupFile(JSON.stringify({ ...file, version: 2 }), "pw")).error
+    ).toBe("This backup was made by a newer version of the app")
+  })
+
+  it("migrates settings and drops broken expenses from older backups", async () => {
+    const { syncAttachments: _syncAttachments, ...oldSettings } = contents.settings
+    const file = await createBackupFile(
+      {
+        ...contents,
+        settings: { ...oldSettings, version: 12 } as BackupContents["settings"],
+        expenses: [...contents.expenses, { amount: 5 } as Expense],
+        analyticsFilters: { timeWindow: "bogus" } as never,
+      },
+      "pw",
+      new Date(),
+      ITERATIONS
+    )
+
+    const result = await readBackupFile(file, "pw")
+
+    expect(result.data?.settings.version).toBe(15)
+    expect(result.data?.settings.syncAttachments).toBe(false)
+    expect(result.data?.settings.theme).toBe("dark")
+    expect(result.data?.expenses.map((expense) => expense.id)).toEqual(["a", "b"])
+    expect(result.data?.analyticsFilters).toEqual(DEFAULT_ANALYTICS_FILTERS)
+  })
+
+  it("names files by local day", () => {
+    expect(getBackupFileName(new Date(2024, 4, 1, 12))).toBe(
+      "expense-buddy-backup-2024-05-01.json"
+    )
+  })
+
+  it("shares the backup file rather than its text", async () => {
+    const result = await shareBackupFile(contents, "long password")
+
+    expect(result.success).toBe(true)
+    const [uri, options] = jest.mocked(shareAsync).mock.calls[0]
+    expect(uri).toMatch(/expense-buddy-backup-.*\.json$/)
+    expect(options).toMatchObject({ mimeType: "application/json" })
+    const file = await new File(uri).text()
+    expect((await readBackupFile(file, "long password")).success).toBe(true)
+  })
+})
+
+describe("mergeBackupSettings", () => {
+  it("keeps local preferences and merges synced collections", () => {
+    const local = {
+      ...DEFAULT_SETTINGS,
+      theme: "light" as const,
+      paymentInstruments: [makeInstrument("card-2", "Daily card")],
+    }
+
+    const merged = mergeBackupSettings(local, contents.settings)
+
+    expect(merged.theme).toBe("light")
+    expect(merged.paymentInstruments.map((instrument) => instrument.id).sort()).toEqual([
+      "card-1",
+      "card-2",
+    ])
+  })
+})
+
+describe("restoreDeviceState", () => {
+  const backup: RestoredBackup = { ...contents, createdAt: "2024-05-01T00:00:00.000Z" }
+
+  beforeEach(async () => {
+    await clear()
+    await saveMappingProfile(makeProfile("local", "Card statement"))
+  })
+
+  it("replaces filters and profiles", async () => {
+    await restoreDeviceState(backup, "replace")
+
+    expect((await loadAnalyticsFilters()).timeWindow).toBe("1m")
+    expect((await loadMappingProfiles()).map((profile) => profile.id)).toEqual(["p1"])
+  })
+
+  it("merge keeps local filters and adds missing profiles", async () => {
+    await restoreDeviceState(backup, "merge")
+
+    expect((await loadAnalyticsFilters()).timeWindow).toBe("all")
+    expect((await loadMappingProfiles()).map((profile) => profile.id)).toEqual([
+      "local",
+      "p1",
+    ])
+  })
+})
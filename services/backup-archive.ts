@@ -0,0 +1,264 @@
+/**
+ * Encrypted full backups
+ *
+ * A backup holds the whole ledger (soft-deleted expenses included), all
+ * settings and this device's filters, UI state and CSV mapping profiles,
+ * encrypted with a password. Sync credentials live in secure storage and are
+ * never part of a backup.
+ *
+ * Restoring runs the archive through the same loaders as app start-up
+ * (hydrateSettingsFromJson, parseStoredExpenses), so older backups migrate
+ * forward.
+ */
+
+import i18next from "i18next"
+import { File, Paths } from "expo-file-system"
+import { shareAsync } from "expo-sharing"
+import { z } from "zod"
+import type { Expense } from "../types/expense"
+import type { ServiceResult } from "../types/service-result"
+import { createErrorResult, createSuccessResult } from "./error-utils"
+import { AppSettings, hydrateSettingsFromJson } from "./settings-manager"
+import { parseStoredExpenses } from "./expense-storage"
+import {
+  AnalyticsFiltersState,
+  parseAnalyticsFilters,
+  saveAnalyticsFilters,
+} from "./analytics-filters-storage"
+import {
+  CSVMappingProfile,
+  loadMappingProfiles,
+  parseMappingProfiles,
+  replaceMappingProfiles,
+} from "./csv-import/mapping-profiles"
+import { mergeCategories } from "./category-merger"
+import { mergePaymentInstruments } from "./payment-instrument-merger"
+import { mergeRecurringTemplates } from "./recurring-template-merger"
+import { mergeExchangeRates } from "./exchange-rate-merger"
+import {
+  decryptWithPassword,
+  encryptWithPassword,
+  MAX_PBKDF2_ITERATIONS,
+  PBKDF2_ITERATIONS,
+} from "../utils/crypto"
+import { getLocalDayKey } from "../utils/date"
+
+/** Marks backup files written by this app */
+export const BACKUP_FORMAT = "expense-buddy-backup"
+const BACKUP_VERSION = 1
+
+export const BACKUP_MIME_TYPES = [
+  "application/json",
+  "application/octet-stream",
+  "text/plain",
+]
+
+export const MIN_BACKUP_PASSWORD_LENGTH = 8
+
+/**
+ * How a backup is applied:
+ * - replace: this device ends up exactly as the backup
+ * - merge: the backup is reconciled with local data like a sync
+ */
+export type BackupRestoreMode = "replace" | "merge"
+
+/** Device-local UI preferences (see ui-state-store) */
+export interface BackupUIState {
+  paymentMethodSectionExpanded: boolean
+  paymentInstrumentsSectionExpanded: boolean
+}
+
+export interface BackupContents {
+  settings: AppSettings
+  expenses: Expense[]
+  analyticsFilters: AnalyticsFiltersState
+  uiState: BackupUIState
+  mappingProfiles: CSVMappingProfile[]
+}
+
+export interface RestoredBackup extends BackupContents {
+  createdAt: string
+}
+
+const backupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  createdAt: z.string(),
+  encryption: z.object({
+    kdf: z.literal("pbkdf2-sha256"),
+    iterations: z.number().int().min(PBKDF2_ITERATIONS).max(MAX_PBKDF2_ITERATIONS),
+    salt: z.string(),
+    iv: z.string(),
+    data: z.string(),
+    mac: z.string(),
+  }),
+})
+
+function failure<T>(message: string): ServiceResult<T> {
+  return { success: false, error: message }
+}
+
+/**
+ * Encrypt a backup. The result is the file content.
+ */
+export async function createBackupFile(
+  contents: BackupContents,
+  password: string,
+  now: Date = new Date(),
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<string> {
+  return JSON.stringify(
+    {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: now.toISOString(),
+      encryption: await encryptWithPassword(
+        JSON.stringify(contents),
+        password,
+        iterations
+      ),
+    },
+    null,
+    2
+  )
+}
+
+/**
+ * File name for a backup, e.g. "expense-buddy-backup-2024-05-01.json"
+ */
+export function getBackupFileName(now: Date = new Date()): string {
+  return `expense-buddy-backup-${getLocalDayKey(now.toISOString())}.json`
+}
+
+function parseUIState(raw: unknown): BackupUIState {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Partial<BackupUIState>
+  return {
+    paymentMethodSectionExpanded: value.paymentMethodSectionExpanded === true,
+    paymentInstrumentsSectionExpanded: value.paymentInstrumentsSectionExpanded === true,
+  }
+}
+
+/**
+ * Decrypt and read a backup file
+ */
+export async function readBackupFile(
+  content: string,
+  password: string
+): Promise<ServiceResult<RestoredBackup>> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(content)
+  } catch {
+    raw = null
+  }
+
+  const file = backupFileSchema.safeParse(raw)
+  if (!file.success) {
+    return failure(
+      i18next.t("backup.errors.invalidFile") ?? "This is not an Expense Buddy backup"
+    )
+  }
+  if (file.data.version > BACKUP_VERSION) {
+    return failure(
+      i18next.t("backup.errors.newerVersion") ??
+        "This backup was made by a newer version of the app"
+    )
+  }
+
+  const plaintext = await decryptWithPassword(file.data.encryption, password)
+  if (plaintext === null) {
+    return failure(
+      i18next.t("backup.errors.wrongPassword") ??
+        "Wrong password, or the backup is damaged"
+    )
+  }
+
+  try {
+    const payload = JSON.parse(plaintext) as Record<string, unknown>
+    return createSuccessResult({
+      createdAt: file.data.createdAt,
+      settings: hydrateSettingsFromJson(payload.settings),
+      expenses: parseStoredExpenses(payload.expenses),
+      analyticsFilters: parseAnalyticsFilters(payload.analyticsFilters),
+      uiState: parseUIState(payload.uiState),
+      mappingProfiles: parseMappingProfiles(payload.mappingProfiles),
+    })
+  } catch (error) {
+    return createErrorResult("BackupArchive", "readBackupFile", error)
+  }
+}
+
+/**
+ * Combine local settings with a backup's: local preferences are kept and the
+ * synced collections are merged the same way a settings sync merges them
+ */
+export function mergeBackupSettings(
+  local: AppSettings,
+  backup: AppSettings
+): AppSettings {
+  return {
+    ...local,
+    categories: mergeCategories(local.categories, backup.categories).merged,
+    paymentInstruments: mergePaymentInstruments(
+      local.paymentInstruments,
+      backup.paymentInstruments
+    ).merged,
+    recurringTemplates: mergeRecurringTemplates(
+      local.recurringTemplates,
+      backup.recurringTemplates
+    ).merged,
+    exchangeRates: mergeExchangeRates(local.exchangeRates, backup.exchangeRates).merged,
+    paymentInstrumentsMigrationVersion: Math.max(
+      local.paymentInstrumentsMigrationVersion,
+      backup.paymentInstrumentsMigrationVersion
+    ),
+    categoriesVersion: Math.max(local.categoriesVersion, backup.categoriesVersion),
+  }
+}
+
+/**
+ * Write the device-local parts of a backup (analytics filters and CSV mapping
+ * profiles) to storage. Merging keeps local filters and adds missing profiles.
+ */
+export async function restoreDeviceState(
+  backup: RestoredBackup,
+  mode: BackupRestoreMode
+): Promise<void> {
+  if (mode === "replace") {
+    await saveAnalyticsFilters(backup.analyticsFilters)
+    await replaceMappingProfiles(backup.mappingProfiles)
+    return
+  }
+
+  const local = await loadMappingProfiles()
+  const localIds = new Set(local.map((profile) => profile.id))
+  const localNames = new Set(local.map((profile) => profile.name.trim().toLowerCase()))
+  const missing = backup.mappingProfiles.filter(
+    (profile) =>
+      !localIds.has(profile.id) && !localNames.has(profile.name.trim().toLowerCase())
+  )
+  if (missing.length > 0) {
+    await replaceMappingProfiles([...local, ...missing])
+  }
+}
+
+/**
+ * Encrypt a backup, write it to a file and open the system share sheet with it
+ */
+export async function shareBackupFile(
+  contents: BackupContents,
+  password: string
+): Promise<ServiceResult> {
+  try {
+    const content = await createBackupFile(contents, password)
+    const fileName = getBackupFileName()
+    const file = new File(Paths.cache, fileName)
+    file.create({ overwrite: true })
+    file.write(content)
+
+    await shareAsync(file.uri, { mimeType: "application/json", dialogTitle: fileName })
+    return createSuccessResult()
+  } catch (error) {
+    return createErrorResult("BackupArchive", "shareBackupFile", error)
+  }
+}
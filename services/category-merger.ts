@@ -58,7 +58,8 @@ function categoriesAreIdentical(a: Category, b: Category): boolean {
     a.icon === b.icon &&
     a.color === b.color &&
     a.order === b.order &&
-    a.isDefault === b.isDefault
+    a.isDefault === b.isDefault &&
+    (a.monthlyBudget ?? 0) === (b.monthlyBudget ?? 0)
   )
 }
 
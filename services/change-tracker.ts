@@ -1,4 +1,5 @@
 import { getItem, setItem } from "./storage"
+import { ledgerScopedKey } from "./ledgers"
 
 const PENDING_CHANGES_KEY = "pending_sync_changes"
 
@@ -19,7 +20,7 @@ interface StoredPendingChanges {
  */
 async function loadPendingChanges(): Promise<PendingChanges> {
   try {
-    const stored = await getItem(PENDING_CHANGES_KEY)
+    const stored = await getItem(ledgerScopedKey(PENDING_CHANGES_KEY))
     if (stored) {
       const parsed: StoredPendingChanges = JSON.parse(stored)
       return {
@@ -44,7 +45,7 @@ async function savePendingChanges(changes: PendingChanges): Promise<void> {
       edited: Array.from(changes.edited),
       deleted: Array.from(changes.deleted),
     }
-    await setItem(PENDING_CHANGES_KEY, JSON.stringify(toStore))
+    await setItem(ledgerScopedKey(PENDING_CHANGES_KEY), JSON.stringify(toStore))
   } catch (error) {
     console.warn("Failed to save pending changes:", error)
   }
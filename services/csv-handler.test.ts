@@ -4,7 +4,7 @@
  */
 
 import fc from "fast-check"
-import { exportToCSV, importFromCSV } from "./csv-handler"
+import { exportToCSV, importFromCSV, importFromCSVWithReport } from "./csv-handler"
 import { Expense, ExpenseCategory, PaymentMethodType } from "../types/expense"
 import { format, subDays } from "date-fns"
 import { getFallbackCurrency } from "../utils/currency"
@@ -323,6 +323,249 @@ def456,50.5,Transport,2024-01-16,Bus fare,UPI,1234,2024-01-16T08:00:00.000Z,2024
       expect(imported[1].paymentMethod?.identifier).toBe("1234")
     })
 
+    it("should preserve the recurring template link through round-trip", () => {
+      const now = new Date().toISOString()
+      const expenses: Expense[] = [
+        {
+          id: "recurring_rent_2024-01-01",
+          amount: 15000,
+          category: "Rent",
+          date: "2024-01-01T00:00:00.000Z",
+          note: "Rent",
+          recurringTemplateId: "rent",
+          createdAt: now,
+          updatedAt: now,
+        },
+        {
+          id: "manual",
+          amount: 200,
+          category: "Food",
+          date: "2024-01-02T00:00:00.000Z",
+          note: "",
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]
+
+      const imported = importFromCSV(exportToCSV(expenses))
+
+      expect(imported[0].recurringTemplateId).toBe("rent")
+      expect(imported[1].recurringTemplateId).toBeUndefined()
+    })
+
+    it("should preserve transaction kinds through round-trip", () => {
+      const now = new Date().toISOString()
+      const base = {
+        amount: 500,
+        category: "Other",
+        date: "2024-01-01T00:00:00.000Z",
+        note: "",
+        createdAt: now,
+        updatedAt: now,
+      }
+      const expenses: Expense[] = [
+        { ...base, id: "spend" },
+        { ...base, id: "salary", kind: "income" },
+        { ...base, id: "returned", kind: "refund" },
+        { ...base, id: "savings", kind: "transfer" },
+      ]
+
+      const imported = importFromCSV(exportToCSV(expenses))
+
+      expect(imported.map((expense) => expense.kind)).toEqual([
+        undefined,
+        "income",
+        "refund",
+        "transfer",
+      ])
+    })
+
+    it("should preserve converted amounts through round-trip", () => {
+      const now = new Date().toISOString()
+      const expenses: Expense[] = [
+        {
+          id: "trip",
+          amount: 20,
+          currency: "USD",
+          convertedAmount: 1665,
+          convertedCurrency: "INR",
+          category: "Travel",
+          date: "2024-01-01T00:00:00.000Z",
+          note: "",
+          createdAt: now,
+          updatedAt: now,
+        },
+        {
+          id: "local",
+          amount: 200,
+          category: "Food",
+          date: "2024-01-02T00:00:00.000Z",
+          note: "",
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]
+
+      const imported = importFromCSV(exportToCSV(expenses))
+
+      expect(imported[0].convertedAmount).toBe(1665)
+      expect(imported[0].convertedCurrency).toBe("INR")
+      expect(imported[1].convertedAmount).toBeUndefined()
+      expect(imported[1].convertedCurrency).toBeUndefined()
+    })
+
+    it("should preserve tags through round-trip", () => {
+      const now = new Date().toISOString()
+      const expenses: Expense[] = [
+        {
+          id: "tagged",
+          amount: 120,
+          category: "Food",
+          date: "2024-01-01T00:00:00.000Z",
+          note: "Team lunch",
+          tags: ["work", "lunch"],
+          createdAt: now,
+          updatedAt: now,
+        },
+        {
+          id: "untagged",
+          amount: 40,
+          category: "Food",
+          date: "2024-01-02T00:00:00.000Z",
+          note: "",
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]
+
+      const imported = importFromCSV(exportToCSV(expenses))
+
+      expect(imported[0].tags).toEqual(["work", "lunch"])
+      expect(imported[1].tags).toBeUndefined()
+    })
+
+    it("should import CSVs without a tags column", () => {
+      const csv = `id,amount,category,date,note,paymentMethodType,paymentMethodId,createdAt,updatedAt
+a,100,Food,2024-01-01T00:00:00.000Z,,,,2024-01-01T00:00:00.000Z,2024-01-01T00:00:00.000Z`
+
+      const imported = importFromCSV(csv)
+
+      expect(imported[0].tags).toBeUndefined()
+    })
+
+    it("should preserve attachments through round-trip", () => {
+      const now = new Date().toISOString()
+      const expenses: Expense[] = [
+        {
+          id: "with-receipt",
+          amount: 120,
+          category: "Food",
+          date: "2024-01-01T00:00:00.000Z",
+          note: "",
+          attachments: ["lx2a-abc123.jpg", "lx2a-def456.png"],
+          createdAt: now,
+          updatedAt: now,
+        },
+        {
+          id: "without-receipt",
+          amount: 40,
+          category: "Food",
+          date: "2024-01-02T00:00:00.000Z",
+          note: "",
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]
+
+      const imported = importFromCSV(exportToCSV(expenses))
+
+      expect(imported[0].attachments).toEqual(["lx2a-abc123.jpg", "lx2a-def456.png"])
+      expect(imported[1].attachments).toBeUndefined()
+    })
+
+    it("should preserve device attribution through round-trip", () => {
+      const now = new Date().toISOString()
+      const expenses: Expense[] = [
+        {
+          id: "attributed",
+          amount: 120,
+          category: "Food",
+          date: "2024-01-01T00:00:00.000Z",
+          note: "",
+          createdAt: now,
+          updatedAt: now,
+          createdBy: "a1b2c3d4",
+          updatedBy: "e5f6a7b8",
+        },
+        {
+          id: "unattributed",
+          amount: 40,
+          category: "Food",
+          date: "2024-01-02T00:00:00.000Z",
+          note: "",
+          createdAt: now,
+          updatedAt: now,
+        },
+      ]
+
+      const imported = importFromCSV(exportToCSV(expenses))
+
+      expect(imported[0]).toMatchObject({ createdBy: "a1b2c3d4", updatedBy: "e5f6a7b8" })
+      expect(imported[1].createdBy).toBeUndefined()
+      expect(imported[1].updatedBy).toBeUndefined()
+    })
+
+    it("should report invalid rows by line instead of throwing", () => {
+      const csv = `id,amount,category,date,createdAt,updatedAt
+a,100,Food,2024-01-01T00:00:00.000Z,2024-01-01T00:00:00.000Z,2024-01-01T00:00:00.000Z
+b,abc,Food,2024-01-01T00:00:00.000Z,2024-01-01T00:00:00.000Z,2024-01-01T00:00:00.000Z
+c,5,Food
+d,7,Food,yesterday,2024-01-01T00:00:00.000Z,2024-01-01T00:00:00.000Z`
+
+      const report = importFromCSVWithReport(csv)
+
+      expect(report.expenses.map((expense) => expense.id)).toEqual(["a"])
+      expect(report.errors.map((error) => error.line)).toEqual([3, 4, 5])
+    })
+
+    it("should count skipped blank lines and multiline notes in reported lines", () => {
+      const timestamp = "2024-01-01T00:00:00.000Z"
+      const csv = [
+        "id,amount,category,date,note,createdAt,updatedAt",
+        `a,100,Food,${timestamp},"Lunch`,
+        `with the team",${timestamp},${timestamp}`,
+        "",
+        `b,abc,Food,${timestamp},,${timestamp},${timestamp}`,
+        "",
+        "",
+        "c,5,Food",
+      ].join("\r\n")
+
+      const report = importFromCSVWithReport(csv)
+
+      expect(report.expenses.map((expense) => expense.note)).toEqual([
+        "Lunch\r\nwith the team",
+      ])
+      expect(report.errors.map((error) => error.line)).toEqual([5, 8])
+    })
+
+    it("should report missing required columns", () => {
+      const report = importFromCSVWithReport("id,note\na,hello")
+
+      expect(report.expenses).toEqual([])
+      expect(report.errors).toEqual([{ line: 1, message: expect.any(String) }])
+    })
+
+    it("should import rows without a known kind as expenses", () => {
+      const csv = `id,amount,category,date,note,paymentMethodType,paymentMethodId,createdAt,updatedAt,kind
+a,100,Food,2024-01-01T00:00:00.000Z,,,,2024-01-01T00:00:00.000Z,2024-01-01T00:00:00.000Z,bogus
+b,50,Food,2024-01-02T00:00:00.000Z,,,,2024-01-02T00:00:00.000Z,2024-01-02T00:00:00.000Z,`
+
+      const imported = importFromCSV(csv)
+
+      expect(imported.map((expense) => expense.kind)).toEqual([undefined, undefined])
+    })
+
     it("should preserve soft-deleted expenses through round-trip", () => {
       fc.assert(
         fc.property(
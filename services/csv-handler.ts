@@ -1,6 +1,20 @@
+import i18next from "i18next"
 import Papa from "papaparse"
+import { isValid, parseISO } from "date-fns"
 import { Expense, ExpenseCategory, PaymentMethodType } from "../types/expense"
 import { getFallbackCurrency } from "../utils/currency"
+import {
+  getTransactionKind,
+  isTransactionKind,
+  toStoredTransactionKind,
+} from "../utils/transaction-kind"
+import { TAG_SEPARATOR, getExpenseTags, parseTagList, toStoredTags } from "../utils/tags"
+import {
+  ATTACHMENT_SEPARATOR,
+  getExpenseAttachments,
+  parseAttachmentList,
+  toStoredAttachments,
+} from "../utils/attachments"
 
 export interface CSVRow {
   id: string
@@ -15,13 +29,35 @@ export interface CSVRow {
   createdAt: string
   updatedAt: string
   deletedAt: string
+  recurringTemplateId?: string
+  kind?: string
+  convertedAmount?: string
+  convertedCurrency?: string
+  tags?: string
+  attachments?: string
+  createdBy?: string
+  updatedBy?: string
 }
 
+/** A row that could not be imported */
+export interface CSVRowError {
+  /** 1-based line number (the header is line 1) */
+  line: number
+  message: string
+}
+
+export interface CSVImportReport {
+  expenses: Expense[]
+  errors: CSVRowError[]
+}
+
+const REQUIRED_COLUMNS = ["id", "amount", "category", "date"]
+
 /**
- * Export expenses to CSV format
+ * Convert an expense to its CSV row
  */
-export function exportToCSV(expenses: Expense[]): string {
-  const rows: CSVRow[] = expenses.map((expense) => ({
+export function toCSVRow(expense: Expense): CSVRow {
+  return {
     id: expense.id,
     amount: expense.amount.toString(),
     currency: expense.currency || getFallbackCurrency(),
@@ -34,9 +70,22 @@ export function exportToCSV(expenses: Expense[]): string {
     createdAt: expense.createdAt,
     updatedAt: expense.updatedAt,
     deletedAt: expense.deletedAt || "",
-  }))
+    recurringTemplateId: expense.recurringTemplateId || "",
+    kind: getTransactionKind(expense),
+    convertedAmount: expense.convertedAmount?.toString() ?? "",
+    convertedCurrency: expense.convertedCurrency || "",
+    tags: getExpenseTags(expense).join(TAG_SEPARATOR),
+    attachments: getExpenseAttachments(expense).join(ATTACHMENT_SEPARATOR),
+    createdBy: expense.createdBy || "",
+    updatedBy: expense.updatedBy || "",
+  }
+}
 
-  return Papa.unparse(rows, {
+/**
+ * Export expenses to CSV format
+ */
+export function exportToCSV(expenses: Expense[]): string {
+  return Papa.unparse(expenses.map(toCSVRow), {
     header: true,
     columns: [
       "id",
@@ -51,13 +100,96 @@ export function exportToCSV(expenses: Expense[]): string {
       "createdAt",
       "updatedAt",
       "deletedAt",
+      "recurringTemplateId",
+      "kind",
+      "convertedAmount",
+      "convertedCurrency",
+      "tags",
+      "attachments",
+      "createdBy",
+      "updatedBy",
     ],
   })
 }
 
+/**
+ * Convert a CSV row to an expense
+ * Missing optional columns fall back to their defaults (see importFromCSV)
+ */
+export function fromCSVRow(row: CSVRow, now: string = new Date().toISOString()): Expense {
+  // Build payment method only if type is present
+  const paymentMethod =
+    row.paymentMethodType && row.paymentMethodType.trim()
+      ? {
+          type: row.paymentMethodType as PaymentMethodType,
+          identifier: row.paymentMethodId?.trim() || undefined,
+          instrumentId: row.paymentInstrumentId?.trim() || undefined,
+        }
+      : undefined
+
+  const kind = row.kind?.trim()
+  const convertedAmount = parseFloat(row.convertedAmount ?? "")
+  const convertedCurrency = row.convertedCurrency?.trim()
+  const hasConversion = Number.isFinite(convertedAmount) && !!convertedCurrency
+
+  return {
+    id: row.id,
+    amount: parseFloat(row.amount),
+    kind: isTransactionKind(kind) ? toStoredTransactionKind(kind) : undefined,
+    currency: row.currency?.trim() || getFallbackCurrency(),
+    convertedAmount: hasConversion ? convertedAmount : undefined,
+    convertedCurrency: hasConversion ? convertedCurrency : undefined,
+    category: row.category as ExpenseCategory,
+    date: row.date,
+    note: row.note || "",
+    paymentMethod,
+    tags: toStoredTags(parseTagList(row.tags)),
+    attachments: toStoredAttachments(parseAttachmentList(row.attachments)),
+    // Use timestamps from CSV if available, otherwise default to now
+    createdAt: row.createdAt || now,
+    updatedAt: row.updatedAt || now,
+    // Handle deletedAt - empty string or missing means not deleted (undefined)
+    deletedAt: row.deletedAt?.trim() || undefined,
+    recurringTemplateId: row.recurringTemplateId?.trim() || undefined,
+    createdBy: row.createdBy?.trim() || undefined,
+    updatedBy: row.updatedBy?.trim() || undefined,
+  }
+}
+
+function isValidTimestamp(value: string | undefined): boolean {
+  return !!value && isValid(parseISO(value))
+}
+
+/**
+ * Describe why an imported expense cannot be used, or null when it is valid
+ */
+export function getImportedExpenseError(expense: Expense): string | null {
+  if (!expense.id?.trim()) {
+    return i18next.t("ledgerFile.import.errors.missingId") ?? "Missing id"
+  }
+  if (!Number.isFinite(expense.amount)) {
+    return i18next.t("ledgerFile.import.errors.invalidAmount") ?? "Amount is not a number"
+  }
+  if (!expense.category?.trim()) {
+    return i18next.t("ledgerFile.import.errors.missingCategory") ?? "Missing category"
+  }
+  if (!isValidTimestamp(expense.date)) {
+    return i18next.t("ledgerFile.import.errors.invalidDate") ?? "Date is not valid"
+  }
+  if (!isValidTimestamp(expense.createdAt) || !isValidTimestamp(expense.updatedAt)) {
+    return (
+      i18next.t("ledgerFile.import.errors.invalidTimestamp") ??
+      "Created or updated time is not valid"
+    )
+  }
+  return null
+}
+
 /**
  * Import expenses from CSV format
- * Handles backward compatibility for CSVs without payment method columns or deletedAt column
+ * Handles backward compatibility for CSVs without payment method, deletedAt, recurringTemplateId,
+ * kind, converted amount, tags, attachments or device columns
+ * (rows without a recognised kind are imported as expenses)
  */
 export function importFromCSV(csvString: string): Expense[] {
   const result = Papa.parse<CSVRow>(csvString, {
@@ -71,30 +203,154 @@ export function importFromCSV(csvString: string): Expense[] {
 
   const now = new Date().toISOString()
 
-  return result.data.map((row) => {
-    // Build payment method only if type is present
-    const paymentMethod =
-      row.paymentMethodType && row.paymentMethodType.trim()
-        ? {
-            type: row.paymentMethodType as PaymentMethodType,
-            identifier: row.paymentMethodId?.trim() || undefined,
-            instrumentId: row.paymentInstrumentId?.trim() || undefined,
-          }
-        : undefined
+  return result.data.map((row) => fromCSVRow(row, now))
+}
+
+interface NumberedCSVRow<T> {
+  data: T
+  /** 1-based line the row starts on (the header is line 1) */
+  line: number
+  /** First parse error Papa reported for the row */
+  error?: string
+}
+
+const LINE_BREAK = /\r\n|\r|\n/g
+
+function countLineBreaks(text: string): number {
+  return text.match(LINE_BREAK)?.length ?? 0
+}
+
+/**
+ * Parse a CSV with a header row, numbering each data row by the line it
+ * starts on. Papa only reports where a row ends (its cursor), so line breaks
+ * inside quoted cells are counted back from there; skipped blank lines are
+ * already behind the row.
+ */
+function parseNumberedRows<T extends object>(
+  csvString: string,
+  config: Omit<Papa.ParseConfig<T>, "header" | "step" | "complete">
+): { fields: string[]; rows: NumberedCSVRow<T>[] } {
+  const rows: NumberedCSVRow<T>[] = []
+  let cursor = 0
+  let lineBreaks = 0
+
+  const { meta } = Papa.parse<T>(csvString, {
+    ...config,
+    header: true,
+    step: (result) => {
+      const end = result.meta.cursor
+      lineBreaks += countLineBreaks(csvString.slice(cursor, end))
+      cursor = end
+
+      const endsWithBreak = csvString[end - 1] === "\n" || csvString[end - 1] === "\r"
+      const lastLine = lineBreaks + (endsWithBreak ? 0 : 1)
+      const breaksInRow = Object.values(result.data)
+        .flat()
+        .reduce(
+          (sum: number, value) =>
+            sum + (typeof value === "string" ? countLineBreaks(value) : 0),
+          0
+        )
+
+      rows.push({
+        data: result.data,
+        line: lastLine - breaksInRow,
+        error: result.errors[0]?.message,
+      })
+    },
+  })
+
+  return { fields: meta.fields ?? [], rows }
+}
 
+/**
+ * Import expenses from a user-supplied CSV file
+ *
+ * Unlike importFromCSV, malformed or invalid rows do not abort the import:
+ * they are skipped and reported by line number.
+ */
+export function importFromCSVWithReport(csvString: string): CSVImportReport {
+  const { fields, rows } = parseNumberedRows<CSVRow>(csvString, {
+    skipEmptyLines: true,
+  })
+
+  const missing = REQUIRED_COLUMNS.filter((field) => !fields.includes(field))
+  if (missing.length > 0) {
     return {
-      id: row.id,
-      amount: parseFloat(row.amount),
-      currency: row.currency?.trim() || getFallbackCurrency(),
-      category: row.category as ExpenseCategory,
-      date: row.date,
-      note: row.note || "",
-      paymentMethod,
-      // Use timestamps from CSV if available, otherwise default to now
-      createdAt: row.createdAt || now,
-      updatedAt: row.updatedAt || now,
-      // Handle deletedAt - empty string or missing means not deleted (undefined)
-      deletedAt: row.deletedAt?.trim() || undefined,
+      expenses: [],
+      errors: [
+        {
+          line: 1,
+          message:
+            i18next.t("ledgerFile.import.errors.missingColumns", {
+              columns: missing.join(", "),
+            }) ?? `Missing columns: ${missing.join(", ")}`,
+        },
+      ],
+    }
+  }
+
+  const now = new Date().toISOString()
+  const expenses: Expense[] = []
+  const errors: CSVRowError[] = []
+
+  rows.forEach(({ data: row, line, error: parseError }) => {
+    if (parseError) {
+      errors.push({ line, message: parseError })
+      return
+    }
+
+    const expense = fromCSVRow(row, now)
+    const error = getImportedExpenseError(expense)
+    if (error !== null) {
+      errors.push({ line, message: error })
+    } else {
+      expenses.push(expense)
     }
   })
+
+  return { expenses, errors }
+}
+
+export interface CSVTableRow {
+  /** 1-based line number (the header is line 1) */
+  line: number
+  values: Record<string, string>
+}
+
+export interface CSVTable {
+  /** Column headers in file order (blank headers are dropped) */
+  headers: string[]
+  rows: CSVTableRow[]
+  errors: CSVRowError[]
+}
+
+/**
+ * Read a CSV file with arbitrary columns (e.g. an export from another app).
+ * The delimiter is detected; malformed rows are skipped and reported.
+ */
+export function parseCSVTable(csvString: string): CSVTable {
+  const { fields, rows: parsedRows } = parseNumberedRows<Record<string, string>>(
+    csvString,
+    {
+      skipEmptyLines: "greedy",
+      transformHeader: (header) => header.trim(),
+    }
+  )
+
+  const rows: CSVTableRow[] = []
+  const errors: CSVRowError[] = []
+  for (const { data: values, line, error } of parsedRows) {
+    if (error) {
+      errors.push({ line, message: error })
+    } else {
+      rows.push({ line, values })
+    }
+  }
+
+  return {
+    headers: fields.filter((header) => header.length > 0),
+    rows,
+    errors,
+  }
 }
@@ -0,0 +1,148 @@
+import {
+  CSVImportMapping,
+  detectColumnMapping,
+  detectDateFormat,
+  detectDecimalSeparator,
+  getDistinctColumnValues,
+  mapCSVRows,
+  parseMappedAmount,
+  parseMappedDate,
+  suggestCategoryMap,
+  suggestPaymentMapping,
+} from "./column-mapping"
+import { parseCSVTable } from "../csv-handler"
+import type { PaymentInstrument } from "../../types/payment-instrument"
+
+const card: PaymentInstrument = {
+  id: "card-1",
+  method: "Credit Card",
+  nickname: "Travel Card",
+  lastDigits: "4321",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+}
+
+describe("column-mapping", () => {
+  it("detects columns from common header names", () => {
+    expect(
+      detectColumnMapping([
+        "Transaction Date",
+        "Description",
+        "Debit Amount",
+        "Category",
+        "Account",
+        "Labels",
+      ])
+    ).toEqual({
+      date: "Transaction Date",
+      amount: "Debit Amount",
+      category: "Category",
+      note: "Description",
+      paymentMethod: "Account",
+      tags: "Labels",
+    })
+  })
+
+  it("reads dates in the chosen format", () => {
+    const local = (y: number, m: number, d: number) => new Date(y, m - 1, d).toISOString()
+
+    expect(parseMappedDate("31/01/2024", "dd/MM/yyyy")).toBe(local(2024, 1, 31))
+    expect(parseMappedDate("01/31/2024 10:15", "MM/dd/yyyy")).toBe(local(2024, 1, 31))
+    expect(parseMappedDate("31.1.2024", "dd.MM.yyyy")).toBe(local(2024, 1, 31))
+    expect(parseMappedDate("31/01/2024", "MM/dd/yyyy")).toBeNull()
+    expect(parseMappedDate("", "iso")).toBeNull()
+  })
+
+  it("detects the first date format that reads every sample", () => {
+    expect(detectDateFormat(["2024-01-31", "2024-02-01"])).toBe("iso")
+    expect(detectDateFormat(["12/01/2024", "31/01/2024"])).toBe("dd/MM/yyyy")
+    expect(detectDateFormat(["01/31/2024", "02/28/2024"])).toBe("MM/dd/yyyy")
+  })
+
+  it("reads amounts with either decimal separator", () => {
+    expect(parseMappedAmount("₹1,234.50", ".")).toBe(1234.5)
+    expect(parseMappedAmount("1.234,50 €", ",")).toBe(1234.5)
+    expect(parseMappedAmount("-42.10", ".")).toBe(42.1)
+    expect(parseMappedAmount("(15)", ".")).toBe(15)
+    expect(parseMappedAmount("n/a", ".")).toBeNull()
+  })
+
+  it("detects a comma decimal separator", () => {
+    expect(detectDecimalSeparator(["1.234,56", "12,5"])).toBe(",")
+    expect(detectDecimalSeparator(["1,234.56", "12"])).toBe(".")
+  })
+
+  it("matches foreign categories to existing labels ignoring case", () => {
+    expect(
+      suggestCategoryMap(["FOOD", "Pets"], [{ label: "Food" }, { label: "Other" }])
+    ).toEqual({ food: "Food" })
+  })
+
+  it("suggests saved instruments before payment types", () => {
+    expect(suggestPaymentMapping("Travel card", [card])).toEqual({
+      type: "Credit Card",
+      instrumentId: "card-1",
+    })
+    expect(suggestPaymentMapping("VISA xx4321", [card])).toEqual({
+      type: "Credit Card",
+      instrumentId: "card-1",
+    })
+    expect(suggestPaymentMapping("GPay", [card])).toEqual({ type: "UPI" })
+    expect(suggestPaymentMapping("Cash", [])).toEqual({ type: "Cash" })
+    expect(suggestPaymentMapping("Voucher", [])).toBeUndefined()
+  })
+
+  it("maps rows onto expenses and reports unreadable ones", () => {
+    const table = parseCSVTable(
+      [
+        "Date;Amount;Category;Payee;Paid with;Currency",
+        "31/01/2024;1.200,50;Restaurants;Dinner;Travel card;EUR",
+        "01/02/2024;8,00;Pets;Vet;cash;",
+        "bad;5;Food;;;",
+        "02/02/2024;?;Food;;;",
+      ].join("\n")
+    )
+    const mapping: CSVImportMapping = {
+      columns: {
+        date: "Date",
+        amount: "Amount",
+        category: "Category",
+        note: "Payee",
+        paymentMethod: "Paid with",
+        currency: "Currency",
+      },
+      dateFormat: "dd/MM/yyyy",
+      decimalSeparator: ",",
+      categoryMap: { restaurants: "Food" },
+      paymentMap: {
+        "travel card": { type: "Credit Card", instrumentId: "card-1" },
+        cash: { type: "Cash" },
+      },
+    }
+
+    expect(getDistinctColumnValues(table.rows, "Category")).toEqual([
+      "Restaurants",
+      "Pets",
+      "Food",
+    ])
+
+    const result = mapCSVRows(table.rows, mapping, { category: "Other", currency: "INR" })
+
+    expect(result.expenses).toEqual([
+      expect.objectContaining({
+        amount: 1200.5,
+        currency: "EUR",
+        category: "Food",
+        note: "Dinner",
+        paymentMethod: { type: "Credit Card", instrumentId: "card-1" },
+      }),
+      expect.objectContaining({
+        amount: 8,
+        currency: "INR",
+        category: "Other",
+        paymentMethod: { type: "Cash" },
+      }),
+    ])
+    expect(result.errors.map((error) => error.line)).toEqual([4, 5])
+  })
+})
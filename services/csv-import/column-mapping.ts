@@ -0,0 +1,337 @@
+import i18next from "i18next"
+import { isValid, parse, parseISO } from "date-fns"
+import type { Category } from "../../types/category"
+import type { Expense, PaymentMethod, PaymentMethodType } from "../../types/expense"
+import type { PaymentInstrument } from "../../types/payment-instrument"
+import type { CSVRowError, CSVTableRow } from "../csv-handler"
+import { getActivePaymentInstruments, normalizeNickname } from "../payment-instruments"
+import { parseTagList, toStoredTags } from "../../utils/tags"
+
+/** Expense fields a foreign CSV column can be mapped onto */
+export type MappedField =
+  | "date"
+  | "amount"
+  | "category"
+  | "note"
+  | "paymentMethod"
+  | "currency"
+  | "tags"
+
+export const MAPPED_FIELDS: MappedField[] = [
+  "date",
+  "amount",
+  "category",
+  "note",
+  "paymentMethod",
+  "currency",
+  "tags",
+]
+
+/** Fields without which a row cannot become an expense */
+export const REQUIRED_MAPPED_FIELDS: MappedField[] = ["date", "amount"]
+
+/** Column header for each mapped field */
+export type ColumnMapping = Partial<Record<MappedField, string>>
+
+export const CSV_DATE_FORMATS = [
+  "iso",
+  "dd/MM/yyyy",
+  "MM/dd/yyyy",
+  "dd-MM-yyyy",
+  "dd.MM.yyyy",
+  "yyyy/MM/dd",
+] as const
+
+export type CSVDateFormat = (typeof CSV_DATE_FORMATS)[number]
+
+export type DecimalSeparator = "." | ","
+
+/** Where a foreign payment string ends up */
+export interface PaymentMapping {
+  type: PaymentMethodType
+  instrumentId?: string
+}
+
+/** Everything needed to turn foreign rows into expenses; saved in mapping profiles */
+export interface CSVImportMapping {
+  columns: ColumnMapping
+  dateFormat: CSVDateFormat
+  decimalSeparator: DecimalSeparator
+  /** Foreign category name (see getMappingKey) → category label */
+  categoryMap: Record<string, string>
+  /** Foreign payment string (see getMappingKey) → payment method */
+  paymentMap: Record<string, PaymentMapping>
+}
+
+// Header synonyms, checked in field order; matching is on lowercased,
+// punctuation-free headers
+const COLUMN_PATTERNS: Record<MappedField, RegExp> = {
+  date: /\b(date|day|time|posted|datum|fecha)\b/,
+  amount: /\b(amount|amt|value|debit|withdrawal|spent|sum|total|price|cost|betrag)\b/,
+  category: /\b(category|categories|group|kategorie)\b/,
+  note: /\b(note|notes|description|details|memo|narration|remarks|payee|merchant|title)\b/,
+  paymentMethod: /\b(payment|method|mode|account|card|instrument|paid)\b/,
+  currency: /\b(currency|ccy|curr)\b/,
+  tags: /\b(tags?|labels?)\b/,
+}
+
+const DATE_FORMAT_PATTERNS: Record<Exclude<CSVDateFormat, "iso">, string> = {
+  "dd/MM/yyyy": "d/M/yyyy",
+  "MM/dd/yyyy": "M/d/yyyy",
+  "dd-MM-yyyy": "d-M-yyyy",
+  "dd.MM.yyyy": "d.M.yyyy",
+  "yyyy/MM/dd": "yyyy/M/d",
+}
+
+const PAYMENT_TYPE_PATTERNS: [RegExp, PaymentMethodType][] = [
+  [/amazon\s*pay/i, "Amazon Pay"],
+  [/\bupi\b|gpay|google pay|phonepe|paytm|bhim/i, "UPI"],
+  [/credit/i, "Credit Card"],
+  [/debit|\batm\b/i, "Debit Card"],
+  [/net\s*banking|netbanking|neft|imps|rtgs|bank transfer/i, "Net Banking"],
+  [/\bcash\b/i, "Cash"],
+]
+
+/**
+ * Key used for category and payment maps: foreign values are matched
+ * case-insensitively and ignoring surrounding whitespace
+ */
+export function getMappingKey(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[_\-./()]+/g, " ")
+    .trim()
+}
+
+/**
+ * Guess which column holds each field. Every column is used at most once and
+ * fields without a likely column are left unmapped.
+ */
+export function detectColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+
+  for (const field of MAPPED_FIELDS) {
+    const header = headers.find(
+      (candidate) =>
+        !used.has(candidate) && COLUMN_PATTERNS[field].test(normalizeHeader(candidate))
+    )
+    if (header) {
+      mapping[field] = header
+      used.add(header)
+    }
+  }
+
+  return mapping
+}
+
+/**
+ * Parse a date cell in the given format, returning an ISO timestamp
+ * (local midnight for date-only formats) or null
+ */
+export function parseMappedDate(raw: string, format: CSVDateFormat): string | null {
+  const value = raw.trim()
+  if (!value) return null
+
+  if (format === "iso") {
+    const date = parseISO(value)
+    return isValid(date) ? date.toISOString() : null
+  }
+
+  // Bank exports often append a time; only the date part is used
+  const datePart = value.split(/[\sT]/)[0]
+  const date = parse(datePart, DATE_FORMAT_PATTERNS[format], new Date())
+  return isValid(date) ? date.toISOString() : null
+}
+
+/**
+ * The first date format that reads every sample, or "iso" when none does
+ */
+export function detectDateFormat(samples: string[]): CSVDateFormat {
+  const values = samples.map((sample) => sample.trim()).filter(Boolean)
+  if (values.length === 0) return "iso"
+
+  return (
+    CSV_DATE_FORMATS.find((format) =>
+      values.every((value) => parseMappedDate(value, format) !== null)
+    ) ?? "iso"
+  )
+}
+
+/**
+ * Parse an amount cell. Currency symbols, spaces and thousands separators are
+ * ignored; negative values (debits in bank exports) are read as positive.
+ */
+export function parseMappedAmount(
+  raw: string,
+  decimalSeparator: DecimalSeparator
+): number | null {
+  const thousandsSeparator = decimalSeparator === "," ? "." : ","
+  const cleaned = raw
+    .replace(/[^\d.,\-()]/g, "")
+    .split(thousandsSeparator)
+    .join("")
+    .replace(decimalSeparator, ".")
+    .replace(/[()-]/g, "")
+
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null
+  const value = Number(cleaned)
+  return Number.isFinite(value) ? value : null
+}
+
+/**
+ * Guess the decimal separator: "," when amounts end in a comma followed by one
+ * or two digits (e.g. "1.234,56") and none end in a dot followed by digits
+ */
+export function detectDecimalSeparator(samples: string[]): DecimalSeparator {
+  const values = samples.map((sample) => sample.trim()).filter(Boolean)
+  const commaDecimals = values.some((value) => /,\d{1,2}\)?$/.test(value))
+  const dotDecimals = values.some((value) => /\.\d{1,2}\)?$/.test(value))
+  return commaDecimals && !dotDecimals ? "," : "."
+}
+
+/**
+ * Distinct non-empty values of a column, in first-seen order (first spelling wins)
+ */
+export function getDistinctColumnValues(
+  rows: CSVTableRow[],
+  column: string | undefined
+): string[] {
+  if (!column) return []
+  const seen = new Map<string, string>()
+  for (const row of rows) {
+    const value = row.values[column]?.trim()
+    if (value && !seen.has(getMappingKey(value))) {
+      seen.set(getMappingKey(value), value)
+    }
+  }
+  return Array.from(seen.values())
+}
+
+/**
+ * Map foreign category names onto existing categories with the same label
+ * (ignoring case). Names without a match are left out.
+ */
+export function suggestCategoryMap(
+  foreignNames: string[],
+  categories: Pick<Category, "label">[]
+): Record<string, string> {
+  const byKey = new Map(
+    categories.map((category) => [getMappingKey(category.label), category.label])
+  )
+  const map: Record<string, string> = {}
+  for (const name of foreignNames) {
+    const label = byKey.get(getMappingKey(name))
+    if (label) {
+      map[getMappingKey(name)] = label
+    }
+  }
+  return map
+}
+
+/**
+ * Guess the payment method for a foreign payment string. Saved instruments are
+ * matched by nickname or last digits first, then the method by keyword.
+ */
+export function suggestPaymentMapping(
+  value: string,
+  instruments: PaymentInstrument[]
+): PaymentMapping | undefined {
+  const key = getMappingKey(value)
+  const active = getActivePaymentInstruments(instruments)
+
+  const instrument =
+    active.find((candidate) => {
+      const nickname = getMappingKey(normalizeNickname(candidate.nickname))
+      return nickname.length > 0 && key.includes(nickname)
+    }) ??
+    active.find((candidate) => {
+      const digits = candidate.lastDigits
+      return digits.length > 0 && new RegExp(`(^|\\D)${digits}$`).test(key)
+    })
+  if (instrument) {
+    return { type: instrument.method, instrumentId: instrument.id }
+  }
+
+  const match = PAYMENT_TYPE_PATTERNS.find(([pattern]) => pattern.test(value))
+  return match ? { type: match[1] } : undefined
+}
+
+/** Rows mapped onto new expenses (ids and timestamps are assigned when added) */
+export interface MappedCSVImport {
+  expenses: Omit<Expense, "id" | "createdAt" | "updatedAt">[]
+  /** Rows that could not be read (the header is line 1) */
+  errors: CSVRowError[]
+}
+
+function toPaymentMethod(mapping: PaymentMapping | undefined): PaymentMethod | undefined {
+  if (!mapping) return undefined
+  return mapping.instrumentId
+    ? { type: mapping.type, instrumentId: mapping.instrumentId }
+    : { type: mapping.type }
+}
+
+/**
+ * Turn foreign CSV rows into expenses using a mapping.
+ * Unmapped categories fall back to `defaults.category`; rows without a readable
+ * date or amount are skipped and reported.
+ */
+export function mapCSVRows(
+  rows: CSVTableRow[],
+  mapping: CSVImportMapping,
+  defaults: { category: string; currency: string }
+): MappedCSVImport {
+  const { columns } = mapping
+  const read = (row: CSVTableRow, field: MappedField) => {
+    const column = columns[field]
+    return column ? (row.values[column] ?? "").trim() : ""
+  }
+
+  const expenses: MappedCSVImport["expenses"] = []
+  const errors: CSVRowError[] = []
+
+  for (const row of rows) {
+    const { line } = row
+    const date = parseMappedDate(read(row, "date"), mapping.dateFormat)
+    if (!date) {
+      errors.push({
+        line,
+        message: i18next.t("ledgerFile.import.errors.invalidDate") ?? "Date is not valid",
+      })
+      continue
+    }
+
+    const amount = parseMappedAmount(read(row, "amount"), mapping.decimalSeparator)
+    if (amount === null) {
+      errors.push({
+        line,
+        message:
+          i18next.t("ledgerFile.import.errors.invalidAmount") ?? "Amount is not a number",
+      })
+      continue
+    }
+
+    const category = read(row, "category")
+    const payment = read(row, "paymentMethod")
+    const currency = read(row, "currency").toUpperCase()
+
+    expenses.push({
+      amount,
+      currency: /^[A-Z]{3}$/.test(currency) ? currency : defaults.currency,
+      category:
+        (category && mapping.categoryMap[getMappingKey(category)]) || defaults.category,
+      date,
+      note: read(row, "note"),
+      paymentMethod: payment
+        ? toPaymentMethod(mapping.paymentMap[getMappingKey(payment)])
+        : undefined,
+      tags: toStoredTags(parseTagList(read(row, "tags"))),
+    })
+  }
+
+  return { expenses, errors }
+}
@@ -0,0 +1,64 @@
+import { clear, setItem } from "../storage"
+import {
+  CSVMappingProfile,
+  deleteMappingProfile,
+  findProfileForHeaders,
+  loadMappingProfiles,
+  saveMappingProfile,
+} from "./mapping-profiles"
+
+function makeProfile(id: string, overrides: Partial<CSVMappingProfile> = {}) {
+  return {
+    id,
+    name: `Profile ${id}`,
+    headers: ["Date", "Amount"],
+    mapping: {
+      columns: { date: "Date", amount: "Amount" },
+      dateFormat: "dd/MM/yyyy",
+      decimalSeparator: ".",
+      categoryMap: {},
+      paymentMap: { cash: { type: "Cash" } },
+    },
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  } satisfies CSVMappingProfile
+}
+
+describe("mapping-profiles", () => {
+  beforeEach(async () => {
+    await clear()
+  })
+
+  it("saves and reloads profiles, replacing one with the same name", async () => {
+    await saveMappingProfile(makeProfile("1", { name: "Bank" }))
+    await saveMappingProfile(makeProfile("2", { name: "bank " }))
+
+    const profiles = await loadMappingProfiles()
+
+    expect(profiles.map((profile) => profile.id)).toEqual(["2"])
+    expect(profiles[0].mapping.paymentMap).toEqual({ cash: { type: "Cash" } })
+  })
+
+  it("drops invalid stored entries", async () => {
+    await setItem(
+      "csv_mapping_profiles_v1",
+      JSON.stringify([makeProfile("1"), { id: "broken" }])
+    )
+
+    await expect(loadMappingProfiles()).resolves.toEqual([makeProfile("1")])
+  })
+
+  it("deletes profiles", async () => {
+    await saveMappingProfile(makeProfile("1"))
+
+    await expect(deleteMappingProfile("1")).resolves.toEqual([])
+  })
+
+  it("finds the newest profile for the same columns in any order", () => {
+    const older = makeProfile("1")
+    const newer = makeProfile("2", { updatedAt: "2024-02-01T00:00:00.000Z" })
+
+    expect(findProfileForHeaders([older, newer], [" amount", "DATE"])).toBe(newer)
+    expect(findProfileForHeaders([older], ["Date"])).toBeUndefined()
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Saved column mappings for importing CSVs from other apps
+ *
+ * Profiles are device-local (they describe files on this device, not the
+ * ledger) and are picked automatically when a file has the same columns.
+ */
+
+import { z } from "zod"
+import { getItem, setItem } from "../storage"
+import { CSV_DATE_FORMATS, CSVImportMapping, MAPPED_FIELDS } from "./column-mapping"
+import type { PaymentMethodType } from "../../types/expense"
+
+const MAPPING_PROFILES_KEY = "csv_mapping_profiles_v1"
+
+const PAYMENT_METHOD_TYPES: [PaymentMethodType, ...PaymentMethodType[]] = [
+  "Cash",
+  "Amazon Pay",
+  "UPI",
+  "Credit Card",
+  "Debit Card",
+  "Net Banking",
+  "Other",
+]
+
+export interface CSVMappingProfile {
+  id: string
+  name: string
+  /** Column headers of the file the profile was saved from */
+  headers: string[]
+  mapping: CSVImportMapping
+  updatedAt: string
+}
+
+const mappingProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  headers: z.array(z.string()),
+  mapping: z.object({
+    columns: z.partialRecord(z.enum(MAPPED_FIELDS), z.string()),
+    dateFormat: z.enum(CSV_DATE_FORMATS),
+    decimalSeparator: z.enum([".", ","]),
+    categoryMap: z.record(z.string(), z.string()),
+    paymentMap: z.record(
+      z.string(),
+      z.object({
+        type: z.enum(PAYMENT_METHOD_TYPES),
+        instrumentId: z.string().optional(),
+      })
+    ),
+  }),
+  updatedAt: z.string(),
+})
+
+function getHeaderSignature(headers: string[]): string {
+  return headers
+    .map((header) => header.trim().toLowerCase())
+    .sort()
+    .join("\u0000")
+}
+
+/**
+ * The most recently saved profile for a file with the same columns (in any order)
+ */
+export function findProfileForHeaders(
+  profiles: CSVMappingProfile[],
+  headers: string[]
+): CSVMappingProfile | undefined {
+  const signature = getHeaderSignature(headers)
+  return profiles
+    .filter((profile) => getHeaderSignature(profile.headers) === signature)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
+}
+
+/**
+ * Read stored profiles (from storage or a backup archive), dropping invalid entries
+ */
+export function parseMappingProfiles(raw: unknown): CSVMappingProfile[] {
+  if (!Array.isArray(raw)) return []
+
+  return raw.flatMap((entry) => {
+    const result = mappingProfileSchema.safeParse(entry)
+    return result.success ? [result.data] : []
+  })
+}
+
+/**
+ * Load saved profiles; invalid entries are dropped
+ */
+export async function loadMappingProfiles(): Promise<CSVMappingProfile[]> {
+  try {
+    const stored = await getItem(MAPPING_PROFILES_KEY)
+    if (!stored) return []
+
+    return parseMappingProfiles(JSON.parse(stored))
+  } catch (error) {
+    console.warn("Failed to load CSV mapping profiles:", error)
+    return []
+  }
+}
+
+/**
+ * Save a profile, replacing one with the same id or name.
+ * Resolves with the updated list.
+ */
+export async function saveMappingProfile(
+  profile: CSVMappingProfile
+): Promise<CSVMappingProfile[]> {
+  const profiles = await loadMappingProfiles()
+  const name = profile.name.trim().toLowerCase()
+  const next = [
+    profile,
+    ...profiles.filter(
+      (existing) =>
+        existing.id !== profile.id && existing.name.trim().toLowerCase() !== name
+    ),
+  ]
+
+  try {
+    await setItem(MAPPING_PROFILES_KEY, JSON.stringify(next))
+  } catch (error) {
+    console.warn("Failed to save CSV mapping profile:", error)
+    throw error
+  }
+  return next
+}
+
+/**
+ * Delete a profile. Resolves with the updated list.
+ */
+export async function deleteMappingProfile(id: string): Promise<CSVMappingProfile[]> {
+  const next = (await loadMappingProfiles()).filter((profile) => profile.id !== id)
+
+  try {
+    await setItem(MAPPING_PROFILES_KEY, JSON.stringify(next))
+  } catch (error) {
+    console.warn("Failed to delete CSV mapping profile:", error)
+    throw error
+  }
+  return next
+}
+
+/**
+ * Replace every saved profile (used when restoring a backup)
+ */
+export async function replaceMappingProfiles(
+  profiles: CSVMappingProfile[]
+): Promise<void> {
+  try {
+    await setItem(MAPPING_PROFILES_KEY, JSON.stringify(profiles))
+  } catch (error) {
+    console.warn("Failed to replace CSV mapping profiles:", error)
+    throw error
+  }
+}
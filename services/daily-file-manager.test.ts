@@ -1,4 +1,9 @@
-import { groupExpensesByDay } from "./daily-file-manager"
+import {
+  getFilenameForDay,
+  groupExpensesByDay,
+  groupExpensesByFile,
+  parseExpenseFilename,
+} from "./daily-file-manager"
 import type { Expense } from "../types/expense"
 
 describe("groupExpensesByDay", () => {
@@ -33,3 +38,37 @@ describe("groupExpensesByDay", () => {
     expect(grouped.get("2026-01-02")).toHaveLength(1)
   })
 })
+
+describe("monthly layout", () => {
+  it("groups days of a month into one file and parses both filename forms", () => {
+    const now = new Date().toISOString()
+    const expenses: Expense[] = [
+      "2026-01-01T10:00:00",
+      "2026-01-31T10:00:00",
+      "2026-02-01T10:00:00",
+    ].map((date, index) => ({
+      id: `expense-${index}`,
+      amount: 10,
+      category: "Food",
+      note: "",
+      date,
+      createdAt: now,
+      updatedAt: now,
+    }))
+
+    const grouped = groupExpensesByFile(expenses, "monthly")
+
+    expect(Array.from(grouped.keys()).sort()).toEqual(["2026-01", "2026-02"])
+    expect(grouped.get("2026-01")).toHaveLength(2)
+    expect(getFilenameForDay("2026-01-31", "monthly")).toBe("expenses-2026-01.csv")
+    expect(parseExpenseFilename("expenses-2026-01.csv")).toEqual({
+      fileKey: "2026-01",
+      layout: "monthly",
+    })
+    expect(parseExpenseFilename("expenses-2026-01-31.csv")).toEqual({
+      fileKey: "2026-01-31",
+      layout: "daily",
+    })
+    expect(parseExpenseFilename("settings.json")).toBeNull()
+  })
+})
@@ -1,5 +1,15 @@
 import { Expense } from "../types/expense"
 import { getLocalDayKey } from "../utils/date"
+import type { FileLayout } from "../types/sync"
+
+/** Root file recording a repository's layout; absent means daily */
+export const LAYOUT_FILE = "layout.json"
+
+/** Expense filenames per layout; the captured day or month is the file key */
+const FILENAME_PATTERNS: Record<FileLayout, RegExp> = {
+  daily: /^expenses-(\d{4}-\d{2}-\d{2})\.csv$/,
+  monthly: /^expenses-(\d{4}-\d{2})\.csv$/,
+}
 
 /**
  * Group expenses by day based on their date field
@@ -20,11 +30,49 @@ export function groupExpensesByDay(expenses: Expense[]): Map<string, Expense[]>
   return grouped
 }
 
+/**
+ * Key of the file holding a day's expenses in the given layout
+ */
+export function getFileKeyForDay(dayKey: string, layout: FileLayout = "daily"): string {
+  return layout === "monthly" ? dayKey.slice(0, 7) : dayKey
+}
+
+/**
+ * Group expenses by the file they are stored in
+ */
+export function groupExpensesByFile(
+  expenses: Expense[],
+  layout: FileLayout
+): Map<string, Expense[]> {
+  if (layout === "daily") {
+    return groupExpensesByDay(expenses)
+  }
+
+  const grouped = new Map<string, Expense[]>()
+  for (const expense of expenses) {
+    const fileKey = getFileKeyForDay(getLocalDayKey(expense.date), layout)
+    const existing = grouped.get(fileKey)
+    if (existing) {
+      existing.push(expense)
+    } else {
+      grouped.set(fileKey, [expense])
+    }
+  }
+  return grouped
+}
+
+/**
+ * Generate filename for a file key (a day or a month)
+ */
+export function getFilenameForKey(fileKey: string): string {
+  return `expenses-${fileKey}.csv`
+}
+
 /**
  * Generate filename for a given day
  */
-export function getFilenameForDay(dayKey: string): string {
-  return `expenses-${dayKey}.csv`
+export function getFilenameForDay(dayKey: string, layout: FileLayout = "daily"): string {
+  return getFilenameForKey(getFileKeyForDay(dayKey, layout))
 }
 
 /**
@@ -32,10 +80,36 @@ export function getFilenameForDay(dayKey: string): string {
  * Returns null if filename doesn't match pattern
  */
 export function getDayKeyFromFilename(filename: string): string | null {
-  const match = filename.match(/^expenses-(\d{4}-\d{2}-\d{2})\.csv$/)
+  return getFileKeyFromFilename(filename, "daily")
+}
+
+/**
+ * Extract the file key from an expense filename of the given layout.
+ * Returns null for any other file.
+ */
+export function getFileKeyFromFilename(
+  filename: string,
+  layout: FileLayout
+): string | null {
+  const match = filename.match(FILENAME_PATTERNS[layout])
   return match ? match[1] : null
 }
 
+/**
+ * Parse an expense filename of either layout
+ */
+export function parseExpenseFilename(
+  filename: string
+): { fileKey: string; layout: FileLayout } | null {
+  for (const layout of ["daily", "monthly"] as const) {
+    const fileKey = getFileKeyFromFilename(filename, layout)
+    if (fileKey) {
+      return { fileKey, layout }
+    }
+  }
+  return null
+}
+
 /**
  * Get all unique days from a list of expenses
  */
@@ -0,0 +1,82 @@
+/**
+ * Identity of this device in synced data
+ *
+ * Each install gets a random ID the first time it is asked for and keeps it
+ * for good. Expenses record the IDs of the devices that created and last
+ * changed them, and sync commits carry the ID and name as trailers, so the
+ * sync history can list every device that writes to the repository. The
+ * name defaults to what the OS reports and can be changed in Settings.
+ */
+
+import { Platform } from "react-native"
+import { getItemSync, removeItem, setItem } from "./storage"
+import { randomBytes } from "../utils/crypto"
+
+const DEVICE_ID_KEY = "device_id"
+const DEVICE_NAME_KEY = "device_name"
+
+/** Bytes of randomness in a device ID (16 hex characters) */
+const DEVICE_ID_BYTES = 8
+
+let cachedDeviceId: string | null = null
+
+/**
+ * Stable ID of this install, generated and stored on first use
+ */
+export function getDeviceId(): string {
+  if (cachedDeviceId) {
+    return cachedDeviceId
+  }
+
+  const stored = getItemSync(DEVICE_ID_KEY)
+  if (stored) {
+    cachedDeviceId = stored
+    return stored
+  }
+
+  const id = Array.from(randomBytes(DEVICE_ID_BYTES), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("")
+  cachedDeviceId = id
+  setItem(DEVICE_ID_KEY, id).catch((error) => {
+    console.warn("Failed to save device ID:", error)
+  })
+  return id
+}
+
+/**
+ * Name of this device as the OS reports it (e.g. "Pixel 8"), falling back to
+ * the platform
+ */
+export function getSystemDeviceName(): string {
+  try {
+    const Constants = require("expo-constants").default
+    const name = Constants.deviceName?.trim()
+    if (name) {
+      return name
+    }
+  } catch {
+    // Native module unavailable (tests, web)
+  }
+  return Platform.OS
+}
+
+/**
+ * Name of this device shown to other devices: the name set in Settings, or
+ * the one the OS reports
+ */
+export function getDeviceName(): string {
+  return getItemSync(DEVICE_NAME_KEY)?.trim() || getSystemDeviceName()
+}
+
+/**
+ * Rename this device. An empty name goes back to the one the OS reports.
+ */
+export async function setDeviceName(name: string): Promise<void> {
+  const trimmed = name.trim()
+  if (trimmed) {
+    await setItem(DEVICE_NAME_KEY, trimmed)
+  } else {
+    await removeItem(DEVICE_NAME_KEY)
+  }
+}
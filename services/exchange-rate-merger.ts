@@ -0,0 +1,81 @@
+import type { ExchangeRate } from "../types/exchange-rate"
+
+export interface MergeExchangeRatesResult {
+  merged: ExchangeRate[]
+  addedFromRemote: ExchangeRate[]
+  updatedFromRemote: ExchangeRate[]
+  addedFromLocal: ExchangeRate[]
+  updatedFromLocal: ExchangeRate[]
+}
+
+function isNewerIso(a: string | undefined, b: string | undefined): boolean {
+  if (!a) return false
+  if (!b) return true
+  // ISO timestamps are lexicographically comparable.
+  return a > b
+}
+
+/**
+ * Merge exchange rates by id.
+ *
+ * Strategy (same as payment instruments):
+ * - Union by `id`
+ * - If an id exists in both, keep the entry with the newer `updatedAt`
+ * - Deletions are soft (`deletedAt`) so they win through `updatedAt` as well
+ */
+export function mergeExchangeRates(
+  local: ExchangeRate[] | undefined,
+  remote: ExchangeRate[] | undefined
+): MergeExchangeRatesResult {
+  const localById = new Map((local ?? []).map((t) => [t.id, t]))
+  const remoteById = new Map((remote ?? []).map((t) => [t.id, t]))
+
+  const ids = new Set<string>([...localById.keys(), ...remoteById.keys()])
+
+  const merged: ExchangeRate[] = []
+  const addedFromRemote: ExchangeRate[] = []
+  const updatedFromRemote: ExchangeRate[] = []
+  const addedFromLocal: ExchangeRate[] = []
+  const updatedFromLocal: ExchangeRate[] = []
+
+  for (const id of ids) {
+    const localRate = localById.get(id)
+    const remoteRate = remoteById.get(id)
+
+    if (!localRate && remoteRate) {
+      merged.push(remoteRate)
+      addedFromRemote.push(remoteRate)
+      continue
+    }
+
+    if (localRate && !remoteRate) {
+      merged.push(localRate)
+      addedFromLocal.push(localRate)
+      continue
+    }
+
+    if (!localRate || !remoteRate) continue
+
+    // Prefer newer updatedAt; on ties, prefer remote.
+    if (!isNewerIso(localRate.updatedAt, remoteRate.updatedAt)) {
+      merged.push(remoteRate)
+      if (remoteRate.updatedAt !== localRate.updatedAt) {
+        updatedFromRemote.push(remoteRate)
+      }
+    } else {
+      merged.push(localRate)
+      updatedFromLocal.push(localRate)
+    }
+  }
+
+  // Stable order for hashing/debugging
+  merged.sort((a, b) => a.id.localeCompare(b.id))
+
+  return {
+    merged,
+    addedFromRemote,
+    updatedFromRemote,
+    addedFromLocal,
+    updatedFromLocal,
+  }
+}
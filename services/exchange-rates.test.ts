@@ -0,0 +1,176 @@
+import {
+  convertAmount,
+  findExchangeRate,
+  parseExchangeRatesCSV,
+  upsertExchangeRates,
+  validateExchangeRateInput,
+  withConvertedAmount,
+} from "./exchange-rates"
+import type { ExchangeRate } from "../types/exchange-rate"
+
+function makeRate(overrides: Partial<ExchangeRate> = {}): ExchangeRate {
+  return {
+    id: "usd-inr",
+    from: "USD",
+    to: "INR",
+    rate: 80,
+    effectiveDate: "2024-01-01",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  }
+}
+
+describe("exchange-rates", () => {
+  describe("findExchangeRate", () => {
+    const rates = [
+      makeRate(),
+      makeRate({ id: "usd-inr-2", rate: 83, effectiveDate: "2024-06-01" }),
+    ]
+
+    test("uses the newest rate effective on the day", () => {
+      expect(findExchangeRate(rates, "USD", "INR", "2024-03-15")).toBe(80)
+      expect(findExchangeRate(rates, "USD", "INR", "2024-06-01")).toBe(83)
+      expect(findExchangeRate(rates, "USD", "INR", "2025-01-01")).toBe(83)
+    })
+
+    test("falls back to the oldest rate before the table starts", () => {
+      expect(findExchangeRate(rates, "USD", "INR", "2023-12-31")).toBe(80)
+    })
+
+    test("inverts rates entered in the other direction", () => {
+      expect(findExchangeRate(rates, "INR", "USD", "2024-03-15")).toBeCloseTo(1 / 80)
+    })
+
+    test("ignores deleted rates and unknown pairs", () => {
+      const deleted = [makeRate({ deletedAt: "2024-02-01T00:00:00.000Z" })]
+      expect(findExchangeRate(deleted, "USD", "INR", "2024-03-15")).toBeNull()
+      expect(findExchangeRate(rates, "EUR", "INR", "2024-03-15")).toBeNull()
+    })
+  })
+
+  describe("convertAmount", () => {
+    test("converts with the rate of the expense day and rounds to cents", () => {
+      const date = new Date(2024, 2, 15).toISOString()
+      expect(convertAmount(12.345, "USD", "INR", date, [makeRate()])).toBe(987.6)
+      expect(convertAmount(50, "INR", "INR", date, [])).toBe(50)
+      expect(convertAmount(50, "EUR", "INR", date, [makeRate()])).toBeNull()
+    })
+  })
+
+  describe("withConvertedAmount", () => {
+    const date = new Date(2024, 2, 15).toISOString()
+
+    test("stores the converted amount for foreign currencies", () => {
+      const result = withConvertedAmount({ amount: 10, currency: "USD", date }, "INR", [
+        makeRate(),
+      ])
+      expect(result.convertedAmount).toBe(800)
+      expect(result.convertedCurrency).toBe("INR")
+    })
+
+    test("clears the conversion for the default currency or a missing rate", () => {
+      const stale = { convertedAmount: 1, convertedCurrency: "INR" }
+      const local = withConvertedAmount(
+        { amount: 10, currency: "INR", date, ...stale },
+        "INR",
+        [makeRate()]
+      )
+      const unknown = withConvertedAmount(
+        { amount: 10, currency: "EUR", date, ...stale },
+        "INR",
+        [makeRate()]
+      )
+      expect(local.convertedAmount).toBeUndefined()
+      expect(unknown.convertedAmount).toBeUndefined()
+      expect(unknown.convertedCurrency).toBeUndefined()
+    })
+  })
+
+  describe("upsertExchangeRates", () => {
+    test("replaces the rate for the same pair and day instead of duplicating it", () => {
+      const now = "2024-02-01T00:00:00.000Z"
+      const result = upsertExchangeRates(
+        [makeRate()],
+        [
+          { from: "USD", to: "INR", rate: 81, effectiveDate: "2024-01-01" },
+          { from: "EUR", to: "INR", rate: 90, effectiveDate: "2024-01-01" },
+        ],
+        now
+      )
+
+      expect(result).toHaveLength(2)
+      expect(result[0]).toMatchObject({ id: "usd-inr", rate: 81, updatedAt: now })
+      expect(result[1]).toMatchObject({ from: "EUR", rate: 90, createdAt: now })
+    })
+  })
+
+  describe("validateExchangeRateInput", () => {
+    test("normalizes currency codes and parses the rate", () => {
+      const result = validateExchangeRateInput({
+        from: " usd",
+        to: "inr ",
+        rate: "83.5",
+        effectiveDate: "2024-01-01",
+      })
+      expect(result).toEqual({
+        success: true,
+        values: { from: "USD", to: "INR", rate: 83.5, effectiveDate: "2024-01-01" },
+      })
+    })
+
+    test("reports each invalid field", () => {
+      const result = validateExchangeRateInput({
+        from: "US",
+        to: "INR",
+        rate: "0",
+        effectiveDate: "01/01/2024",
+      })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(Object.keys(result.errors).sort()).toEqual([
+          "effectiveDate",
+          "from",
+          "rate",
+        ])
+      }
+    })
+
+    test("rejects converting a currency into itself", () => {
+      const result = validateExchangeRateInput({
+        from: "INR",
+        to: "INR",
+        rate: "1",
+        effectiveDate: "2024-01-01",
+      })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.errors.to).toBeDefined()
+      }
+    })
+  })
+
+  describe("parseExchangeRatesCSV", () => {
+    test("reads valid rows and reports bad ones by line", () => {
+      const csv = `Date,From,To,Rate
+2024-01-01,USD,INR,83.1
+2024-01-01,EUR,INR,abc
+2024-02-01,eur,inr,90`
+
+      const result = parseExchangeRatesCSV(csv)
+
+      expect(result.rates).toEqual([
+        { from: "USD", to: "INR", rate: 83.1, effectiveDate: "2024-01-01" },
+        { from: "EUR", to: "INR", rate: 90, effectiveDate: "2024-02-01" },
+      ])
+      expect(result.errors.map((error) => error.line)).toEqual([3])
+    })
+
+    test("reports missing columns", () => {
+      const result = parseExchangeRatesCSV("date,from,rate\n2024-01-01,USD,80")
+      expect(result.rates).toEqual([])
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0].line).toBe(1)
+    })
+  })
+})
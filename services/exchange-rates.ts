@@ -0,0 +1,274 @@
+/**
+ * Exchange rates - a locally maintained, dated rate table
+ *
+ * Rates are entered by hand or imported from CSV and stored in AppSettings (so
+ * they sync through settings.json). Nothing here touches the network: a
+ * conversion uses the newest rate that was effective on the expense's day.
+ */
+
+import i18next from "i18next"
+import Papa from "papaparse"
+import { isValid, parseISO } from "date-fns"
+import { Expense } from "../types/expense"
+import { ExchangeRate } from "../types/exchange-rate"
+import { getLocalDayKey } from "../utils/date"
+import { parseAmountInput } from "../utils/amount-input"
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function generateExchangeRateId(): string {
+  return `${Date.now()}_${Math.random().toString(16).slice(2)}`
+}
+
+export function normalizeCurrencyCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+export function isValidCurrencyCode(code: string): boolean {
+  return CURRENCY_CODE_PATTERN.test(code)
+}
+
+export function getActiveExchangeRates(rates: ExchangeRate[]): ExchangeRate[] {
+  return rates.filter((rate) => !rate.deletedAt)
+}
+
+/**
+ * Find the rate converting `from` into `to` on the given day (YYYY-MM-DD).
+ *
+ * Uses the newest rate effective on or before the day; days before the first
+ * known rate fall back to the oldest one. Rates entered in the opposite
+ * direction are inverted. Returns null when the pair is unknown.
+ */
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  dayKey: string
+): number | null {
+  if (from === to) return 1
+
+  let best: { effectiveDate: string; rate: number } | null = null
+  let earliest: { effectiveDate: string; rate: number } | null = null
+
+  for (const entry of rates) {
+    if (entry.deletedAt || !(entry.rate > 0)) continue
+
+    let rate: number
+    if (entry.from === from && entry.to === to) {
+      rate = entry.rate
+    } else if (entry.from === to && entry.to === from) {
+      rate = 1 / entry.rate
+    } else {
+      continue
+    }
+
+    if (entry.effectiveDate <= dayKey) {
+      if (!best || entry.effectiveDate > best.effectiveDate) {
+        best = { effectiveDate: entry.effectiveDate, rate }
+      }
+    } else if (!earliest || entry.effectiveDate < earliest.effectiveDate) {
+      earliest = { effectiveDate: entry.effectiveDate, rate }
+    }
+  }
+
+  return (best ?? earliest)?.rate ?? null
+}
+
+/**
+ * Convert an amount between currencies using the rate effective on `date`
+ * (ISO string). Returns null when no rate is known for the pair.
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  date: string,
+  rates: ExchangeRate[]
+): number | null {
+  if (from === to) return amount
+  const parsed = parseISO(date)
+  const dayKey = isValid(parsed) ? getLocalDayKey(date) : date.slice(0, 10)
+  const rate = findExchangeRate(rates, from, to, dayKey)
+  return rate === null ? null : roundMoney(amount * rate)
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Fill in (or clear) the stored converted amount of an expense for the
+ * default currency. Expenses already in the default currency carry none.
+ */
+export function withConvertedAmount<
+  T extends Pick<Expense, "amount" | "currency" | "date">,
+>(
+  expense: T,
+  defaultCurrency: string,
+  rates: ExchangeRate[]
+): T & Pick<Expense, "convertedAmount" | "convertedCurrency"> {
+  const currency = expense.currency || defaultCurrency
+  const converted =
+    currency === defaultCurrency
+      ? null
+      : convertAmount(expense.amount, currency, defaultCurrency, expense.date, rates)
+
+  return {
+    ...expense,
+    convertedAmount: converted ?? undefined,
+    convertedCurrency: converted === null ? undefined : defaultCurrency,
+  }
+}
+
+/**
+ * Insert rates into the table. An active rate for the same pair and day is
+ * replaced rather than duplicated.
+ */
+export function upsertExchangeRates(
+  existing: ExchangeRate[],
+  incoming: Pick<ExchangeRate, "from" | "to" | "rate" | "effectiveDate">[],
+  now: string = new Date().toISOString()
+): ExchangeRate[] {
+  const next = [...existing]
+
+  for (const entry of incoming) {
+    const index = next.findIndex(
+      (rate) =>
+        !rate.deletedAt &&
+        rate.from === entry.from &&
+        rate.to === entry.to &&
+        rate.effectiveDate === entry.effectiveDate
+    )
+
+    if (index >= 0) {
+      if (next[index].rate !== entry.rate) {
+        next[index] = { ...next[index], rate: entry.rate, updatedAt: now }
+      }
+      continue
+    }
+
+    next.push({
+      ...entry,
+      id: generateExchangeRateId(),
+      createdAt: now,
+      updatedAt: now,
+    })
+  }
+
+  return next
+}
+
+export type ExchangeRateValidationResult =
+  | {
+      success: true
+      values: Pick<ExchangeRate, "from" | "to" | "rate" | "effectiveDate">
+    }
+  | { success: false; errors: Record<string, string> }
+
+/**
+ * Validate one rate as entered in the form or read from a CSV row
+ */
+export function validateExchangeRateInput(input: {
+  from: string
+  to: string
+  rate: string
+  effectiveDate: string
+}): ExchangeRateValidationResult {
+  const errors: Record<string, string> = {}
+  const from = normalizeCurrencyCode(input.from)
+  const to = normalizeCurrencyCode(input.to)
+  const effectiveDate = input.effectiveDate.trim()
+
+  if (!isValidCurrencyCode(from)) {
+    errors.from =
+      i18next.t("exchangeRates.form.currencyInvalid") ?? "Enter a 3-letter currency code"
+  }
+
+  if (!isValidCurrencyCode(to)) {
+    errors.to =
+      i18next.t("exchangeRates.form.currencyInvalid") ?? "Enter a 3-letter currency code"
+  } else if (from === to) {
+    errors.to =
+      i18next.t("exchangeRates.form.sameCurrency") ?? "Pick two different currencies"
+  }
+
+  const parsedRate = parseAmountInput(input.rate, { allowMathExpressions: false })
+  if (!parsedRate.success || parsedRate.value === undefined) {
+    errors.rate =
+      i18next.t("exchangeRates.form.rateInvalid") ?? "Enter a rate greater than 0"
+  }
+
+  if (!DAY_KEY_PATTERN.test(effectiveDate) || !isValid(parseISO(effectiveDate))) {
+    errors.effectiveDate =
+      i18next.t("exchangeRates.form.dateInvalid") ?? "Enter a date as YYYY-MM-DD"
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors }
+  }
+
+  return {
+    success: true,
+    values: { from, to, rate: parsedRate.value!, effectiveDate },
+  }
+}
+
+export interface ExchangeRateImportResult {
+  rates: Pick<ExchangeRate, "from" | "to" | "rate" | "effectiveDate">[]
+  /** Rows that could not be read, with 1-based line numbers (header is line 1) */
+  errors: { line: number; message: string }[]
+}
+
+/**
+ * Parse a rate table from CSV with the columns `date,from,to,rate`
+ */
+export function parseExchangeRatesCSV(csvString: string): ExchangeRateImportResult {
+  const result = Papa.parse<Record<string, string>>(csvString, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim().toLowerCase(),
+  })
+
+  const fields = result.meta.fields ?? []
+  const missing = ["date", "from", "to", "rate"].filter(
+    (field) => !fields.includes(field)
+  )
+  if (missing.length > 0) {
+    return {
+      rates: [],
+      errors: [
+        {
+          line: 1,
+          message:
+            i18next.t("exchangeRates.import.missingColumns", {
+              columns: missing.join(", "),
+            }) ?? `Missing columns: ${missing.join(", ")}`,
+        },
+      ],
+    }
+  }
+
+  const rates: ExchangeRateImportResult["rates"] = []
+  const errors: ExchangeRateImportResult["errors"] = []
+
+  result.data.forEach((row, index) => {
+    const validation = validateExchangeRateInput({
+      from: row.from ?? "",
+      to: row.to ?? "",
+      rate: row.rate ?? "",
+      effectiveDate: row.date ?? "",
+    })
+
+    if (validation.success) {
+      rates.push(validation.values)
+    } else {
+      errors.push({
+        line: index + 2,
+        message: Object.values(validation.errors).join(" "),
+      })
+    }
+  })
+
+  return { rates, errors }
+}
@@ -6,6 +6,7 @@ import {
   loadDirtyDays,
   markDeletedDay,
   markDirtyDay,
+  resetDirtyDays,
 } from "./expense-dirty-days"
 
 const DIRTY_DAYS_KEY = "expense_dirty_days"
@@ -63,4 +64,13 @@ describe("expense-dirty-days", () => {
     expect(parsed.dirtyDays).toEqual([])
     expect(parsed.deletedDays).toEqual([])
   })
+
+  it("resetDirtyDays SHALL make the next load untrusted", async () => {
+    await markDirtyDay("2025-01-05")
+    await resetDirtyDays()
+
+    const result = await loadDirtyDays()
+    expect(result.isTrusted).toBe(false)
+    expect(result.state.dirtyDays).toEqual([])
+  })
 })
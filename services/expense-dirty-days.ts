@@ -1,4 +1,7 @@
-import { getItem, setItem } from "./storage"
+import { getItem, setItem, removeItem } from "./storage"
+import { getFileKeyForDay } from "./daily-file-manager"
+import type { FileLayout } from "../types/sync"
+import { ledgerScopedKey } from "./ledgers"
 
 const DIRTY_DAYS_KEY = "expense_dirty_days"
 const DIRTY_DAYS_VERSION = 1
@@ -45,10 +48,12 @@ function enqueueWrite<T>(operation: () => Promise<T>): Promise<T> {
   return next
 }
 
-async function saveState(state: DirtyDaysState): Promise<void> {
+async function saveState(state: DirtyDaysState, ledgerId?: string): Promise<void> {
+  // Resolve the key now; the write may run after the active ledger changed
+  const key = ledgerScopedKey(DIRTY_DAYS_KEY, ledgerId)
   await enqueueWrite(async () => {
     try {
-      await setItem(DIRTY_DAYS_KEY, JSON.stringify(state))
+      await setItem(key, JSON.stringify(state))
     } catch (error) {
       console.warn("Failed to save dirty days:", error)
     }
@@ -57,7 +62,7 @@ async function saveState(state: DirtyDaysState): Promise<void> {
 
 export async function loadDirtyDays(): Promise<DirtyDaysLoadResult> {
   try {
-    const stored = await getItem(DIRTY_DAYS_KEY)
+    const stored = await getItem(ledgerScopedKey(DIRTY_DAYS_KEY))
     if (!stored) {
       return { state: { ...emptyState }, isTrusted: false }
     }
@@ -89,6 +94,22 @@ export async function saveDirtyDays(state: DirtyDaysState): Promise<void> {
   await saveState(normalizeState(state))
 }
 
+/**
+ * Files holding the given days. In a monthly layout a month file is rewritten
+ * when any of its days is dirty, and may be removed once one of its days was
+ * emptied.
+ */
+export function getDirtyFileKeys(
+  dayKeys: Iterable<string>,
+  layout: FileLayout
+): Set<string> {
+  const fileKeys = new Set<string>()
+  for (const dayKey of dayKeys) {
+    fileKeys.add(getFileKeyForDay(dayKey, layout))
+  }
+  return fileKeys
+}
+
 export async function markDirtyDay(dayKey: string): Promise<DirtyDaysState> {
   return enqueueWrite(async () => {
     const { state } = await loadDirtyDays()
@@ -98,7 +119,7 @@ export async function markDirtyDay(dayKey: string): Promise<DirtyDaysState> {
       updatedAt: new Date().toISOString(),
     })
     try {
-      await setItem(DIRTY_DAYS_KEY, JSON.stringify(nextState))
+      await setItem(ledgerScopedKey(DIRTY_DAYS_KEY), JSON.stringify(nextState))
     } catch (error) {
       console.warn("Failed to save dirty days:", error)
     }
@@ -116,7 +137,7 @@ export async function markDeletedDay(dayKey: string): Promise<DirtyDaysState> {
       updatedAt: new Date().toISOString(),
     })
     try {
-      await setItem(DIRTY_DAYS_KEY, JSON.stringify(nextState))
+      await setItem(ledgerScopedKey(DIRTY_DAYS_KEY), JSON.stringify(nextState))
     } catch (error) {
       console.warn("Failed to save dirty days:", error)
     }
@@ -124,10 +145,30 @@ export async function markDeletedDay(dayKey: string): Promise<DirtyDaysState> {
   })
 }
 
-export async function clearDirtyDays(): Promise<void> {
-  await saveState({
-    ...emptyState,
-    updatedAt: new Date().toISOString(),
+/**
+ * Forget the tracked days of the given ledger, the active one by default
+ */
+export async function clearDirtyDays(ledgerId?: string): Promise<void> {
+  await saveState(
+    {
+      ...emptyState,
+      updatedAt: new Date().toISOString(),
+    },
+    ledgerId
+  )
+}
+
+/**
+ * Forget the tracked days so the next sync distrusts them and compares every
+ * local file with the remote, as after a fresh install
+ */
+export async function resetDirtyDays(): Promise<void> {
+  await enqueueWrite(async () => {
+    try {
+      await removeItem(ledgerScopedKey(DIRTY_DAYS_KEY))
+    } catch (error) {
+      console.warn("Failed to reset dirty days:", error)
+    }
   })
 }
 
@@ -136,7 +177,7 @@ export async function consumeDirtyDays(): Promise<DirtyDaysLoadResult> {
     const result = await loadDirtyDays()
     try {
       await setItem(
-        DIRTY_DAYS_KEY,
+        ledgerScopedKey(DIRTY_DAYS_KEY),
         JSON.stringify({
           ...emptyState,
           updatedAt: new Date().toISOString(),
@@ -1,5 +1,6 @@
 import { getItem, setItem, removeItem, multiGet, multiSet, multiRemove } from "./storage"
 import type { Expense } from "../types/expense"
+import { ledgerScopedKey } from "./ledgers"
 
 export const LEGACY_EXPENSES_KEY = "expenses"
 
@@ -7,7 +8,7 @@ const EXPENSES_INDEX_KEY_V1 = "expenses:index:v1"
 const EXPENSE_ITEM_PREFIX_V1 = "expenses:item:v1:"
 
 function expenseItemKeyV1(id: string): string {
-  return `${EXPENSE_ITEM_PREFIX_V1}${id}`
+  return `${ledgerScopedKey(EXPENSE_ITEM_PREFIX_V1)}${id}`
 }
 
 function safeJsonParse<T>(value: string | null): T | null {
@@ -20,14 +21,14 @@ function safeJsonParse<T>(value: string | null): T | null {
 }
 
 async function loadExpenseIdsV1(): Promise<string[] | null> {
-  const raw = await getItem(EXPENSES_INDEX_KEY_V1)
+  const raw = await getItem(ledgerScopedKey(EXPENSES_INDEX_KEY_V1))
   const parsed = safeJsonParse<unknown>(raw)
   if (!Array.isArray(parsed)) return null
   return parsed.filter((v) => typeof v === "string") as string[]
 }
 
 async function saveExpenseIdsV1(ids: string[]): Promise<void> {
-  await setItem(EXPENSES_INDEX_KEY_V1, JSON.stringify(ids))
+  await setItem(ledgerScopedKey(EXPENSES_INDEX_KEY_V1), JSON.stringify(ids))
 }
 
 async function loadExpensesV1(): Promise<Expense[] | null> {
@@ -57,12 +58,21 @@ async function loadExpensesV1(): Promise<Expense[] | null> {
   return expenses
 }
 
+/**
+ * Read a stored list of expenses (the legacy key or a backup archive),
+ * dropping entries without an id
+ */
+export function parseStoredExpenses(raw: unknown): Expense[] {
+  if (!Array.isArray(raw)) return []
+  return raw.filter(
+    (entry): entry is Expense =>
+      Boolean(entry) && typeof entry === "object" && typeof entry.id === "string"
+  )
+}
+
 async function loadLegacyExpenses(): Promise<Expense[] | null> {
-  const raw = await getItem(LEGACY_EXPENSES_KEY)
-  const parsed = safeJsonParse<unknown>(raw)
-  if (!parsed) return []
-  if (!Array.isArray(parsed)) return []
-  return parsed as Expense[]
+  const raw = await getItem(ledgerScopedKey(LEGACY_EXPENSES_KEY))
+  return parseStoredExpenses(safeJsonParse<unknown>(raw))
 }
 
 export type ExpenseStorageSource = "v1" | "legacy" | "empty"
@@ -96,7 +106,7 @@ export async function migrateLegacyExpensesToV1(expenses: Expense[]): Promise<vo
 }
 
 export async function removeLegacyExpensesKey(): Promise<void> {
-  await removeItem(LEGACY_EXPENSES_KEY)
+  await removeItem(ledgerScopedKey(LEGACY_EXPENSES_KEY))
 }
 
 export async function persistExpenseAdded(expense: Expense): Promise<void> {
@@ -2,16 +2,10 @@ import { loadSyncConfig } from "./sync-config"
 import { saveLastSyncTime } from "./sync-direction"
 import { fetchAllRemoteExpenses } from "./remote-fetch"
 import { exportToCSV } from "./csv-handler"
-import {
-  listFiles,
-  batchCommit,
-  generateCommitMessage,
-  downloadSettingsFile,
-  getLatestCommitTimestamp,
-  GitHubApiError,
-  BatchFileUpload,
-  BatchFileDelete,
-} from "./github-sync"
+import { generateCommitMessage, BatchFileUpload, BatchFileDelete } from "./github-sync"
+import { isSyncAuthError } from "./sync-backends/sync-backend-error"
+import { SyncEncryptionError } from "./sync-backends/encrypted-backend"
+import { openSyncBackend } from "./sync-encryption"
 import {
   AppSettings,
   computeSettingsHash,
@@ -21,9 +15,10 @@ import {
   hydrateSettingsFromJson,
 } from "./settings-manager"
 import {
-  groupExpensesByDay,
-  getFilenameForDay,
-  getDayKeyFromFilename,
+  groupExpensesByFile,
+  getFilenameForKey,
+  getFileKeyForDay,
+  getFileKeyFromFilename,
 } from "./daily-file-manager"
 import {
   computeContentHash,
@@ -31,24 +26,47 @@ import {
   saveFileHashes,
   FileHashMap,
 } from "./hash-storage"
-import { loadDirtyDays } from "./expense-dirty-days"
-import { saveRemoteSHACache } from "./remote-sha-cache"
+import { getDirtyFileKeys, loadDirtyDays } from "./expense-dirty-days"
+import { buildRemoteSHACache, saveRemoteSHACache } from "./remote-sha-cache"
+import { loadMergeBase, saveMergeBase } from "./merge-base"
+import { getDeviceId, getDeviceName } from "./device-identity"
+import {
+  TOMBSTONES_FILE,
+  getPurgeWatermark,
+  getUnsupportedTombstonesMessage,
+  readTombstonePolicy,
+  serializeTombstonePolicy,
+} from "./tombstone-gc"
 import {
   mergeExpenses,
   applyConflictResolutions,
+  ConflictChoice,
   MergeResult,
   TrueConflict,
 } from "./merge-engine"
-import { mergeCategories } from "./category-merger"
-import { mergePaymentInstruments } from "./payment-instrument-merger"
+import { mergeSettings } from "./settings-merger"
+import {
+  deleteLocalAttachments,
+  hasLocalAttachment,
+  readAttachmentBase64,
+} from "./attachment-storage"
 import { getUserFriendlyMessage } from "./error-utils"
+import {
+  ATTACHMENTS_DIRECTORY,
+  findOrphanedAttachments,
+  getReferencedAttachments,
+  getAttachmentNameFromPath,
+  getAttachmentPath,
+  planAttachmentSync,
+} from "../utils/attachments"
+import { getLocalDayKey } from "../utils/date"
 import i18next from "i18next"
 import type { Expense } from "../types/expense"
 import type { Category } from "../types/category"
 
 export interface ConflictResolution {
   expenseId: string
-  choice: "local" | "remote"
+  choice: ConflictChoice
 }
 
 export interface GitStyleSyncResult {
@@ -58,6 +76,8 @@ export interface GitStyleSyncResult {
   filesUploaded: number
   filesSkipped: number
   filesDeleted?: number
+  attachmentsUploaded?: number
+  attachmentsDeleted?: number
   localFilesUpdated?: number
   remoteFilesUpdated?: number
   error?: string
@@ -69,6 +89,37 @@ export interface GitStyleSyncResult {
   settingsError?: string
   mergedCategories?: Category[]
   mergedSettings?: AppSettings
+  /** Purge watermark the sync applied; queued ops are held to it as well */
+  purgedBefore?: string
+  /** What the sync would do, set by a preview run */
+  preview?: SyncPreviewPlan
+}
+
+/**
+ * What a sync would do, worked out by the fetch and merge phases of a
+ * preview run that stops before anything is committed
+ */
+export interface SyncPreviewPlan {
+  /** Expense files that would be written */
+  uploads: string[]
+  /** Remote expense files that would be deleted */
+  deletions: string[]
+  /** Receipt attachments that would be pushed */
+  attachmentUploads: number
+  /** Receipt attachments that would be removed from the repository */
+  attachmentDeletions: number
+  /** Expenses that would come down as new records */
+  expensesAdded: number
+  /** Expenses the remote version would update on this device */
+  expensesUpdated: number
+  /** Local additions and edits the push would carry */
+  expensesPushed: number
+  /** Expenses edited on both sides that will need a choice */
+  conflicts: number
+  /** Whether settings.json would be written */
+  settingsUploaded: boolean
+  /** Whether the merged settings differ from the ones on this device */
+  settingsChanged: boolean
 }
 
 export type OnConflictCallback = (
@@ -80,7 +131,9 @@ function buildSyncMessage(
   filesUploaded: number,
   filesSkipped: number,
   filesDeleted: number,
-  settingsSynced?: boolean
+  settingsSynced?: boolean,
+  attachmentsUploaded = 0,
+  attachmentsDeleted = 0
 ): string {
   const parts: string[] = []
 
@@ -112,6 +165,13 @@ function buildSyncMessage(
     parts.push(`${filesDeleted} file(s) deleted`)
   }
 
+  if (attachmentsUploaded > 0) {
+    parts.push(`${attachmentsUploaded} attachment(s) uploaded`)
+  }
+  if (attachmentsDeleted > 0) {
+    parts.push(`${attachmentsDeleted} attachment(s) deleted`)
+  }
+
   if (settingsSynced) {
     parts.push("settings synced")
   }
@@ -123,11 +183,18 @@ function buildSyncMessage(
   return `Sync complete: ${parts.join(", ")}`
 }
 
+/**
+ * Fetch, merge and push in one pass. With `preview` set, the fetch and merge
+ * run as usual but nothing is committed or saved locally: the result carries
+ * a plan of the push instead, and conflicts are counted rather than resolved.
+ */
 export async function gitStyleSync(
   localExpenses: Expense[],
   onConflict?: OnConflictCallback,
   settings?: AppSettings,
-  syncSettingsEnabled?: boolean
+  syncSettingsEnabled?: boolean,
+  syncAttachments?: boolean,
+  preview?: boolean
 ): Promise<GitStyleSyncResult> {
   try {
     const config = await loadSyncConfig()
@@ -141,6 +208,7 @@ export async function gitStyleSync(
       }
     }
 
+    const backend = await openSyncBackend(config)
     const fetchResult = await fetchAllRemoteExpenses(localExpenses)
 
     if (!fetchResult.success) {
@@ -157,15 +225,34 @@ export async function gitStyleSync(
 
     const remoteExpenses = fetchResult.expenses || []
     const treeEntries = fetchResult.treeEntries
+    const layout = fetchResult.layout ?? "daily"
+
+    const tombstonePolicy = await readTombstonePolicy(
+      backend,
+      treeEntries?.map((entry) => entry.path)
+    )
+    if (!tombstonePolicy) {
+      return {
+        success: false,
+        message: i18next.t("githubSync.manager.syncFailed"),
+        error: getUnsupportedTombstonesMessage(),
+        filesUploaded: 0,
+        filesSkipped: 0,
+      }
+    }
+    const purgedBefore = getPurgeWatermark(tombstonePolicy)
 
     const dirtyDaysResult = await loadDirtyDays()
     const useDirtyDays = dirtyDaysResult.isTrusted
     const dirtyDaySet = new Set(dirtyDaysResult.state.dirtyDays)
     const deletedDaySet = new Set(dirtyDaysResult.state.deletedDays)
 
-    let mergeResult = mergeExpenses(localExpenses, remoteExpenses)
+    let mergeResult = mergeExpenses(localExpenses, remoteExpenses, {
+      base: await loadMergeBase(),
+      purgedBefore,
+    })
 
-    if (mergeResult.trueConflicts.length > 0) {
+    if (mergeResult.trueConflicts.length > 0 && !preview) {
       if (!onConflict) {
         return {
           success: false,
@@ -211,42 +298,81 @@ export async function gitStyleSync(
 
     const mergedExpenses = mergeResult.merged
 
+    // Records the remote must receive can sit on days this device never
+    // edited, e.g. after taking the remote date in a field-level merge
+    for (const expense of [
+      ...mergeResult.addedFromLocal,
+      ...mergeResult.updatedFromLocal,
+    ]) {
+      dirtyDaySet.add(getLocalDayKey(expense.date))
+    }
+
+    // Files still holding purged tombstones are rewritten without them, or
+    // deleted when nothing else is left in them
+    const purgedFileKeys = new Set<string>()
+    for (const expense of mergeResult.purged) {
+      if (expense.deletedAt) {
+        const dayKey = getLocalDayKey(expense.date)
+        dirtyDaySet.add(dayKey)
+        purgedFileKeys.add(getFileKeyForDay(dayKey, layout))
+      }
+    }
+
+    // Receipts deleted or removed from their expense on another device are no
+    // longer needed here
+    if (!preview) {
+      deleteLocalAttachments(
+        findOrphanedAttachments(mergedExpenses, getReferencedAttachments(localExpenses))
+      )
+    }
+
     const storedHashes = await loadFileHashes()
 
-    let existingExpenseFiles: { path: string; name: string; dayKey: string }[]
+    let existingExpenseFiles: { path: string; name: string; fileKey: string }[]
     if (treeEntries) {
       existingExpenseFiles = treeEntries
-        .filter((entry) => getDayKeyFromFilename(entry.path) !== null)
+        .filter((entry) => getFileKeyFromFilename(entry.path, layout) !== null)
         .map((entry) => ({
           path: entry.path,
           name: entry.path,
-          dayKey: getDayKeyFromFilename(entry.path)!,
+          fileKey: getFileKeyFromFilename(entry.path, layout)!,
         }))
     } else {
-      const existingFiles = await listFiles(config.token, config.repo, config.branch)
+      const existingFiles = await backend.listFiles()
       existingExpenseFiles = existingFiles
-        .filter((file) => getDayKeyFromFilename(file.name) !== null)
+        .filter((file) => getFileKeyFromFilename(file.name, layout) !== null)
         .map((file) => ({
           ...file,
-          dayKey: getDayKeyFromFilename(file.name)!,
+          fileKey: getFileKeyFromFilename(file.name, layout)!,
         }))
     }
 
-    const groupedByDay = groupExpensesByDay(mergedExpenses)
-    const localDayKeys = new Set(groupedByDay.keys())
-    const dayKeysToProcess = useDirtyDays
-      ? new Set([...dirtyDaySet].filter((dayKey) => localDayKeys.has(dayKey)))
-      : localDayKeys
+    // Dirty days map onto the files holding them: the day itself, or its month
+    const dirtyFileKeys = getDirtyFileKeys(dirtyDaySet, layout)
+    const deletedFileKeys = getDirtyFileKeys(deletedDaySet, layout)
+
+    const groupedByFile = groupExpensesByFile(mergedExpenses, layout)
+    const localFileKeys = new Set(groupedByFile.keys())
+    // Files the remote does not have are written as well, so a newly
+    // configured repository or folder receives the whole ledger
+    const remoteFileKeys = new Set(existingExpenseFiles.map((file) => file.fileKey))
+    const fileKeysToProcess = useDirtyDays
+      ? new Set(
+          [...localFileKeys].filter(
+            (fileKey) => dirtyFileKeys.has(fileKey) || !remoteFileKeys.has(fileKey)
+          )
+        )
+      : localFileKeys
 
-    let oldestLocalDate: string | null = null
-    let newestLocalDate: string | null = null
+    let oldestLocalKey: string | null = null
+    let newestLocalKey: string | null = null
 
-    for (const dayKey of localDayKeys) {
-      if (!oldestLocalDate || dayKey < oldestLocalDate) {
-        oldestLocalDate = dayKey
+    for (const fileKey of localFileKeys) {
+      if (!oldestLocalKey || fileKey < oldestLocalKey) {
+        oldestLocalKey = fileKey
       }
-      if (!newestLocalDate || dayKey > newestLocalDate) {
-        newestLocalDate = dayKey
+      if (!newestLocalKey || fileKey > newestLocalKey) {
+        newestLocalKey = fileKey
       }
     }
 
@@ -254,14 +380,15 @@ export async function gitStyleSync(
     const uploadedFileHashes: Map<string, string> = new Map()
     let skippedFiles = 0
 
-    for (const dayKey of dayKeysToProcess) {
-      const dayExpenses = groupedByDay.get(dayKey)
-      if (!dayExpenses) continue
-      const filename = getFilenameForDay(dayKey)
-      const csvContent = exportToCSV(dayExpenses)
+    for (const fileKey of fileKeysToProcess) {
+      const fileExpenses = groupedByFile.get(fileKey)
+      if (!fileExpenses) continue
+      const filename = getFilenameForKey(fileKey)
+      const csvContent = exportToCSV(fileExpenses)
       const contentHash = computeContentHash(csvContent)
 
-      if (storedHashes[filename] === contentHash) {
+      // A stored hash only proves the remote is current while the file exists
+      if (storedHashes[filename] === contentHash && remoteFileKeys.has(fileKey)) {
         skippedFiles++
         continue
       }
@@ -275,22 +402,76 @@ export async function gitStyleSync(
 
     const filesToDelete: BatchFileDelete[] = []
     for (const file of existingExpenseFiles) {
-      if (useDirtyDays && !deletedDaySet.has(file.dayKey)) {
+      if (purgedFileKeys.has(file.fileKey) && !localFileKeys.has(file.fileKey)) {
+        filesToDelete.push({ path: file.path })
+        continue
+      }
+      if (useDirtyDays && !deletedFileKeys.has(file.fileKey)) {
         continue
       }
       const isWithinLocalRange =
-        oldestLocalDate &&
-        newestLocalDate &&
-        file.dayKey >= oldestLocalDate &&
-        file.dayKey <= newestLocalDate
+        oldestLocalKey &&
+        newestLocalKey &&
+        file.fileKey >= oldestLocalKey &&
+        file.fileKey <= newestLocalKey
 
-      if (!localDayKeys.has(file.dayKey) && isWithinLocalRange) {
+      if (!localFileKeys.has(file.fileKey) && isWithinLocalRange) {
         filesToDelete.push({
           path: file.path,
         })
       }
     }
 
+    // Receipt attachments ride along in the same commit: new ones are pushed
+    // when enabled, and blobs only deleted expenses pointed at are removed.
+    let remoteAttachmentNames: Set<string>
+    if (treeEntries) {
+      remoteAttachmentNames = new Set(
+        treeEntries
+          .map((entry) => getAttachmentNameFromPath(entry.path))
+          .filter((name): name is string => name !== null)
+      )
+    } else {
+      const attachmentFiles = await backend.listFiles(ATTACHMENTS_DIRECTORY)
+      remoteAttachmentNames = new Set(
+        attachmentFiles
+          .map((file) => getAttachmentNameFromPath(file.path))
+          .filter((name): name is string => name !== null)
+      )
+    }
+
+    const attachmentPlan = planAttachmentSync(
+      mergedExpenses,
+      remoteAttachmentNames,
+      hasLocalAttachment,
+      syncAttachments ?? false
+    )
+    const attachmentPaths = new Set<string>()
+
+    for (const name of attachmentPlan.uploads) {
+      const path = getAttachmentPath(name)
+      filesToUpload.push({
+        path,
+        content: preview ? "" : await readAttachmentBase64(name),
+        encoding: "base64",
+      })
+      attachmentPaths.add(path)
+    }
+    for (const name of attachmentPlan.deletions) {
+      const path = getAttachmentPath(name)
+      filesToDelete.push({ path })
+      attachmentPaths.add(path)
+    }
+
+    // Record the watermark before any purge reaches the repository, so other
+    // devices drop the same records
+    if (purgedFileKeys.size > 0 && purgedBefore !== tombstonePolicy.purgedBefore) {
+      filesToUpload.push({
+        path: TOMBSTONES_FILE,
+        content: serializeTombstonePolicy({ ...tombstonePolicy, purgedBefore }),
+      })
+    }
+
     let shouldSyncSettings = false
     let newSettingsHash: string | undefined
     let mergedCategories: Category[] | undefined
@@ -300,18 +481,18 @@ export async function gitStyleSync(
     if (syncSettingsEnabled && settings) {
       let remoteSettings: AppSettings | undefined
       try {
-        const remoteSettingsResult = await downloadSettingsFile(
-          config.token,
-          config.repo,
-          config.branch
-        )
+        const remoteSettingsResult = await backend.downloadFile("settings.json")
         if (remoteSettingsResult) {
           remoteSettings = hydrateSettingsFromJson(
             JSON.parse(remoteSettingsResult.content)
           )
         }
       } catch (e) {
-        if (e instanceof GitHubApiError && (e.status === 401 || e.status === 403)) {
+        // Merging against settings this device cannot read would overwrite them
+        if (e instanceof SyncEncryptionError) {
+          throw e
+        }
+        if (isSyncAuthError(e)) {
           return {
             success: false,
             message: i18next.t("githubSync.manager.downloadSettingsFailed"),
@@ -326,31 +507,14 @@ export async function gitStyleSync(
         console.warn("Failed to download remote settings for merge:", e)
       }
 
-      const remoteCategories = remoteSettings?.categories
-      const localCategories = settings.categories
-      if (remoteCategories && localCategories) {
-        mergedCategories = mergeCategories(localCategories, remoteCategories).merged
+      const settingsMerge = mergeSettings(settings, remoteSettings)
+      if (remoteSettings) {
+        mergedCategories = settingsMerge.merged.categories
       }
 
-      const instrumentMerge = mergePaymentInstruments(
-        settings.paymentInstruments,
-        remoteSettings?.paymentInstruments
-      )
-
       mergedSettings = {
-        ...settings,
+        ...settingsMerge.merged,
         syncSettings: true,
-        categories: mergedCategories ?? settings.categories,
-        paymentInstruments: instrumentMerge.merged,
-        paymentInstrumentsMigrationVersion: Math.max(
-          settings.paymentInstrumentsMigrationVersion ?? 0,
-          remoteSettings?.paymentInstrumentsMigrationVersion ?? 0
-        ),
-        categoriesVersion: Math.max(
-          settings.categoriesVersion ?? 0,
-          remoteSettings?.categoriesVersion ?? 0
-        ),
-        version: Math.max(settings.version ?? 0, remoteSettings?.version ?? 0),
         updatedAt: new Date().toISOString(),
       }
 
@@ -359,7 +523,7 @@ export async function gitStyleSync(
       newSettingsHash = computeSettingsHash(settingsToSync)
       const storedSettingsHash = await getSettingsHash()
 
-      if (remoteSettings) {
+      if (remoteSettings && !preview) {
         const remoteHash = computeSettingsHash(remoteSettings)
         if (remoteHash === newSettingsHash) {
           await saveSettingsHash(newSettingsHash)
@@ -377,13 +541,43 @@ export async function gitStyleSync(
       }
     }
 
+    if (preview) {
+      return {
+        success: true,
+        message: buildSyncMessage(mergeResult, 0, skippedFiles, 0),
+        mergeResult,
+        filesUploaded: 0,
+        filesSkipped: skippedFiles,
+        mergedCategories,
+        mergedSettings,
+        preview: {
+          uploads: filesToUpload
+            .filter((file) => !attachmentPaths.has(file.path))
+            .filter((file) => file.path !== "settings.json")
+            .filter((file) => file.path !== TOMBSTONES_FILE)
+            .map((file) => file.path),
+          deletions: filesToDelete
+            .filter((file) => !attachmentPaths.has(file.path))
+            .map((file) => file.path),
+          attachmentUploads: attachmentPlan.uploads.length,
+          attachmentDeletions: attachmentPlan.deletions.length,
+          expensesAdded: mergeResult.addedFromRemote.length,
+          expensesUpdated: mergeResult.updatedFromRemote.length,
+          expensesPushed:
+            mergeResult.addedFromLocal.length + mergeResult.updatedFromLocal.length,
+          conflicts: mergeResult.trueConflicts.length,
+          settingsUploaded: shouldSyncSettings,
+          settingsChanged:
+            settings !== undefined &&
+            mergedSettings !== undefined &&
+            computeSettingsHash(settings) !== computeSettingsHash(mergedSettings),
+        },
+      }
+    }
+
     if (filesToUpload.length === 0 && filesToDelete.length === 0) {
       try {
-        const timestampResult = await getLatestCommitTimestamp(
-          config.token,
-          config.repo,
-          config.branch
-        )
+        const timestampResult = await backend.getLatestChangeTimestamp()
         if ("timestamp" in timestampResult) {
           await saveLastSyncTime(timestampResult.timestamp)
         }
@@ -392,14 +586,9 @@ export async function gitStyleSync(
       }
 
       if (treeEntries) {
-        const shaCache: { [filename: string]: string } = {}
-        for (const entry of treeEntries) {
-          if (getDayKeyFromFilename(entry.path) !== null) {
-            shaCache[entry.path] = entry.sha
-          }
-        }
-        await saveRemoteSHACache(shaCache)
+        await saveRemoteSHACache(buildRemoteSHACache(treeEntries, layout))
       }
+      await saveMergeBase(mergedExpenses)
 
       return {
         success: true,
@@ -415,15 +604,17 @@ export async function gitStyleSync(
         settingsSkipped: syncSettingsEnabled && settings ? true : undefined,
         mergedCategories,
         mergedSettings,
+        purgedBefore,
       }
     }
 
     const commitMessage = generateCommitMessage(
       filesToUpload.length,
-      filesToDelete.length
+      filesToDelete.length,
+      { id: getDeviceId(), name: getDeviceName() }
     )
 
-    const batchResult = await batchCommit(config.token, config.repo, config.branch, {
+    const batchResult = await backend.commit({
       uploads: filesToUpload,
       deletions: filesToDelete,
       message: commitMessage,
@@ -467,8 +658,8 @@ export async function gitStyleSync(
         delete updatedHashes[file.path]
       }
     } else {
-      for (const [dayKey] of groupedByDay.entries()) {
-        const filename = getFilenameForDay(dayKey)
+      for (const [fileKey] of groupedByFile.entries()) {
+        const filename = getFilenameForKey(fileKey)
         if (storedHashes[filename] && !uploadedFileHashes.has(filename)) {
           updatedHashes[filename] = storedHashes[filename]
         }
@@ -483,20 +674,19 @@ export async function gitStyleSync(
 
     if (treeEntries) {
       const deletedPaths = new Set(filesToDelete.map((f) => f.path))
-      const shaCache: { [filename: string]: string } = {}
-      for (const entry of treeEntries) {
-        if (getDayKeyFromFilename(entry.path) !== null && !deletedPaths.has(entry.path)) {
-          shaCache[entry.path] = entry.sha
-        }
-      }
-      if (batchResult.blobShas) {
-        for (const [path, sha] of Object.entries(batchResult.blobShas)) {
-          if (getDayKeyFromFilename(path) !== null) {
-            shaCache[path] = sha
-          }
-        }
-      }
-      await saveRemoteSHACache(shaCache)
+      await saveRemoteSHACache({
+        ...buildRemoteSHACache(
+          treeEntries.filter((entry) => !deletedPaths.has(entry.path)),
+          layout
+        ),
+        ...buildRemoteSHACache(
+          Object.entries(batchResult.blobShas ?? {}).map(([path, sha]) => ({
+            path,
+            sha,
+          })),
+          layout
+        ),
+      })
     }
 
     if (shouldSyncSettings && newSettingsHash) {
@@ -506,11 +696,7 @@ export async function gitStyleSync(
 
     let commitTimestamp: string | undefined
     try {
-      const timestampResult = await getLatestCommitTimestamp(
-        config.token,
-        config.repo,
-        config.branch
-      )
+      const timestampResult = await backend.getLatestChangeTimestamp()
       if ("timestamp" in timestampResult) {
         commitTimestamp = timestampResult.timestamp
         await saveLastSyncTime(commitTimestamp)
@@ -520,9 +706,18 @@ export async function gitStyleSync(
     }
 
     const expenseFilesUploaded = filesToUpload.filter(
-      (f) => f.path !== "settings.json"
+      (f) =>
+        f.path !== "settings.json" &&
+        f.path !== TOMBSTONES_FILE &&
+        !attachmentPaths.has(f.path)
     ).length
-    const localFilesUpdated = expenseFilesUploaded + filesToDelete.length
+    const expenseFilesDeleted = filesToDelete.filter(
+      (f) => !attachmentPaths.has(f.path)
+    ).length
+    const localFilesUpdated = expenseFilesUploaded + expenseFilesDeleted
+
+    // Both sides now hold the merged versions; they are the base next time
+    await saveMergeBase(mergedExpenses)
 
     return {
       success: true,
@@ -530,13 +725,17 @@ export async function gitStyleSync(
         mergeResult,
         expenseFilesUploaded,
         skippedFiles,
-        filesToDelete.length,
-        shouldSyncSettings
+        expenseFilesDeleted,
+        shouldSyncSettings,
+        attachmentPlan.uploads.length,
+        attachmentPlan.deletions.length
       ),
       mergeResult,
       filesUploaded: expenseFilesUploaded,
       filesSkipped: skippedFiles,
-      filesDeleted: filesToDelete.length,
+      filesDeleted: expenseFilesDeleted,
+      attachmentsUploaded: attachmentPlan.uploads.length,
+      attachmentsDeleted: attachmentPlan.deletions.length,
       localFilesUpdated,
       remoteFilesUpdated:
         mergeResult.addedFromRemote.length + mergeResult.updatedFromRemote.length,
@@ -545,14 +744,12 @@ export async function gitStyleSync(
       settingsSkipped: syncSettingsEnabled && settings && !shouldSyncSettings,
       mergedCategories,
       mergedSettings,
+      purgedBefore,
     }
   } catch (error) {
     console.warn("[SyncManager] gitStyleSync failed:", error)
 
-    if (
-      error instanceof GitHubApiError &&
-      (error.status === 401 || error.status === 403)
-    ) {
+    if (isSyncAuthError(error)) {
       return {
         success: false,
         message: i18next.t("githubSync.manager.syncFailed"),
@@ -568,7 +765,10 @@ export async function gitStyleSync(
     return {
       success: false,
       message: i18next.t("githubSync.manager.syncFailed"),
-      error: getUserFriendlyMessage(error),
+      error:
+        error instanceof SyncEncryptionError
+          ? error.message
+          : getUserFriendlyMessage(error),
       filesUploaded: 0,
       filesSkipped: 0,
       settingsSynced: false,
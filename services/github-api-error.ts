@@ -1,4 +1,5 @@
 import i18next from "../i18n"
+import { SyncBackendError } from "./sync-backends/sync-backend-error"
 
 export type GitHubErrorCode =
   | "AUTH"
@@ -8,36 +9,54 @@ export type GitHubErrorCode =
   | "RATE_LIMIT"
   | "UNKNOWN"
 
-export class GitHubApiError extends Error {
-  public readonly status: number
-  public readonly shouldSignOut: boolean
-  public readonly isRateLimit: boolean
+/** Git hosting APIs that share this error mapping */
+export type GitProvider = "github" | "gitea" | "gitlab"
 
+const PROVIDER_NAMES: Record<GitProvider, string> = {
+  github: "GitHub",
+  gitea: "Gitea/Forgejo",
+  gitlab: "GitLab",
+}
+
+export class GitHubApiError extends SyncBackendError {
   constructor(params: {
     status: number
     message: string
     shouldSignOut: boolean
     isRateLimit: boolean
   }) {
-    super(params.message)
+    super(params)
     this.name = "GitHubApiError"
-    this.status = params.status
-    this.shouldSignOut = params.shouldSignOut
-    this.isRateLimit = params.isRateLimit
   }
 }
 
-async function readGitHubErrorMessage(response: Response): Promise<string> {
-  const data: { message?: string } = await response.json().catch(() => null)
-  const message =
-    data && typeof data === "object" && "message" in data
-      ? String(data.message || "")
-      : ""
-  return message.trim()
+/**
+ * Read the error text from a response body. GitHub and Gitea send
+ * `{ message }`; GitLab sends `{ message }` (sometimes an object of field
+ * errors) or `{ error }`.
+ */
+async function readApiErrorMessage(response: Response): Promise<string> {
+  const data: { message?: unknown; error?: unknown } | null = await response
+    .json()
+    .catch(() => null)
+  if (!data || typeof data !== "object") return ""
+
+  const raw = data.message ?? data.error
+  if (typeof raw === "string") return raw.trim()
+  if (raw && typeof raw === "object") {
+    return Object.values(raw as Record<string, unknown>)
+      .flat()
+      .map(String)
+      .join(", ")
+      .trim()
+  }
+  return ""
 }
 
 function isRateLimitResponse(response: Response, message: string): boolean {
-  const remaining = response.headers.get("x-ratelimit-remaining")
+  const remaining =
+    response.headers.get("x-ratelimit-remaining") ??
+    response.headers.get("ratelimit-remaining")
   if (remaining === "0") return true
   return message.toLowerCase().includes("rate limit")
 }
@@ -46,24 +65,62 @@ function toFriendlyGitHubAuthMessage(params: {
   status: 401 | 403
   isRateLimit: boolean
   rawMessage?: string
+  provider: GitProvider
 }): string {
-  if (params.status === 401) {
-    return i18next.t("githubSync.errors.sessionExpired")
-  }
-
   if (params.isRateLimit) {
     return i18next.t("githubSync.errors.rateLimit")
   }
 
+  // Self-hosted servers use a pasted access token rather than a GitHub sign-in
+  if (params.provider !== "github") {
+    const provider = PROVIDER_NAMES[params.provider]
+    return params.status === 401
+      ? (i18next.t("gitServerSync.errors.tokenRejected", { provider }) ??
+          `${provider} rejected the access token. Check it and save the configuration again.`)
+      : (i18next.t("gitServerSync.errors.accessDenied", { provider }) ??
+          `${provider} denied access (403). Make sure the token can write to this repository.`)
+  }
+
+  if (params.status === 401) {
+    return i18next.t("githubSync.errors.sessionExpired")
+  }
+
   // 403 (non-rate-limit) typically means insufficient permissions or access restrictions.
   // For our UX, treat it as requiring re-auth so the user can re-authorize/select a different repo.
   return i18next.t("githubSync.errors.accessDenied")
 }
 
-export async function toGitHubApiError(response: Response): Promise<GitHubApiError> {
-  const rawMessage = await readGitHubErrorMessage(response)
+function unknownErrorMessage(provider: GitProvider, status: number): string {
+  if (provider === "github") {
+    return i18next.t("githubSync.errors.unknown", { status })
+  }
+  const name = PROVIDER_NAMES[provider]
+  return (
+    i18next.t("gitServerSync.errors.general", { provider: name, status }) ??
+    `${name} API error (${status})`
+  )
+}
+
+/**
+ * Convert a failed response from GitHub, Gitea/Forgejo or GitLab into a
+ * GitHubApiError with a user-facing message.
+ */
+export async function toGitHubApiError(
+  response: Response,
+  provider: GitProvider = "github"
+): Promise<GitHubApiError> {
+  const rawMessage = await readApiErrorMessage(response)
   const rateLimited = response.status === 403 && isRateLimitResponse(response, rawMessage)
 
+  if (response.status === 429) {
+    return new GitHubApiError({
+      status: 429,
+      isRateLimit: true,
+      shouldSignOut: false,
+      message: i18next.t("githubSync.errors.rateLimit"),
+    })
+  }
+
   if (response.status === 401 || response.status === 403) {
     const status = response.status as 401 | 403
     return new GitHubApiError({
@@ -74,6 +131,7 @@ export async function toGitHubApiError(response: Response): Promise<GitHubApiErr
         status,
         isRateLimit: rateLimited,
         rawMessage,
+        provider,
       }),
     })
   }
@@ -83,17 +141,37 @@ export async function toGitHubApiError(response: Response): Promise<GitHubApiErr
     isRateLimit: false,
     shouldSignOut: false,
     message: rawMessage
-      ? `GitHub API error (${response.status}): ${rawMessage}`
-      : i18next.t("githubSync.errors.unknown", { status: response.status }),
+      ? `${PROVIDER_NAMES[provider]} API error (${response.status}): ${rawMessage}`
+      : unknownErrorMessage(provider, response.status),
   })
 }
 
+/**
+ * Error code for a batch commit that failed with a thrown backend error
+ */
+export function toGitHubErrorCode(error: SyncBackendError): GitHubErrorCode {
+  if (error.isRateLimit) return "RATE_LIMIT"
+  switch (error.status) {
+    case 401:
+      return "AUTH"
+    case 403:
+      return "PERMISSION"
+    case 404:
+      return "NOT_FOUND"
+    case 409:
+      return "CONFLICT"
+    default:
+      return "UNKNOWN"
+  }
+}
+
 /**
  * Map HTTP status codes to user-friendly error messages and codes
  */
 export function mapHttpError(
   status: number,
-  message?: string
+  message?: string,
+  provider: GitProvider = "github"
 ): { error: string; errorCode: GitHubErrorCode } {
   switch (status) {
     case 401:
@@ -129,7 +207,7 @@ export function mapHttpError(
       }
     default:
       return {
-        error: message || i18next.t("githubSync.errors.unknown", { status }),
+        error: message || unknownErrorMessage(provider, status),
         errorCode: "UNKNOWN",
       }
   }
@@ -7,6 +7,7 @@ import {
   GitHubDeviceCode,
 } from "./github-device-flow"
 import i18next from "i18next"
+import { ledgerScopedKey } from "./ledgers"
 
 const TOKEN_KEY = "github_pat"
 
@@ -60,7 +61,7 @@ function safeMessage(error: unknown): string {
 
 async function loadStoredToken(): Promise<string | null> {
   try {
-    const token = await secureStorage.getItem(TOKEN_KEY)
+    const token = await secureStorage.getItem(ledgerScopedKey(TOKEN_KEY))
     return token && token.trim().length > 0 ? token : null
   } catch {
     return null
@@ -69,14 +70,14 @@ async function loadStoredToken(): Promise<string | null> {
 
 async function deleteStoredToken(): Promise<void> {
   try {
-    await secureStorage.deleteItem(TOKEN_KEY)
+    await secureStorage.deleteItem(ledgerScopedKey(TOKEN_KEY))
   } catch {
     // ignore
   }
 }
 
 async function persistToken(token: string): Promise<void> {
-  await secureStorage.setItem(TOKEN_KEY, token)
+  await secureStorage.setItem(ledgerScopedKey(TOKEN_KEY), token)
 }
 
 async function requestDeviceCode(): Promise<GitHubDeviceCode> {
@@ -1,5 +1,12 @@
 import i18next from "i18next"
 
+/** Web origin for github.com; GitHub Enterprise Server uses its own host */
+export const GITHUB_WEB_BASE_URL = "https://github.com"
+
+function resolveWebBaseUrl(baseUrl?: string): string {
+  return baseUrl?.trim().replace(/\/+$/, "") || GITHUB_WEB_BASE_URL
+}
+
 export type GitHubDeviceCode = {
   device_code: string
   user_code: string
@@ -37,6 +44,8 @@ export type GitHubDeviceTokenPollResult =
 export async function requestGitHubDeviceCode(params: {
   clientId: string
   scope: string
+  /** Defaults to GITHUB_WEB_BASE_URL */
+  baseUrl?: string
 }): Promise<GitHubDeviceCode> {
   const clientId = String(params.clientId || "").trim()
 
@@ -45,7 +54,7 @@ export async function requestGitHubDeviceCode(params: {
     scope: params.scope,
   })
 
-  const response = await fetch("https://github.com/login/device/code", {
+  const response = await fetch(`${resolveWebBaseUrl(params.baseUrl)}/login/device/code`, {
     method: "POST",
     headers: {
       Accept: "application/json",
@@ -77,6 +86,8 @@ export async function requestGitHubDeviceCode(params: {
 export async function pollGitHubDeviceAccessTokenOnce(params: {
   clientId: string
   deviceCode: string
+  /** Defaults to GITHUB_WEB_BASE_URL */
+  baseUrl?: string
 }): Promise<GitHubDeviceTokenPollResult> {
   const clientId = String(params.clientId || "").trim()
   const body = new URLSearchParams({
@@ -85,15 +96,18 @@ export async function pollGitHubDeviceAccessTokenOnce(params: {
     grant_type: "urn:ietf:params:oauth:grant-type:device_code",
   })
 
-  const response = await fetch("https://github.com/login/oauth/access_token", {
-    method: "POST",
-    headers: {
-      Accept: "application/json",
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    // React Native fetch does not reliably serialize URLSearchParams.
-    body: body.toString(),
-  })
+  const response = await fetch(
+    `${resolveWebBaseUrl(params.baseUrl)}/login/oauth/access_token`,
+    {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      // React Native fetch does not reliably serialize URLSearchParams.
+      body: body.toString(),
+    }
+  )
 
   if (!response.ok) {
     const text = await response.text().catch(() => "")
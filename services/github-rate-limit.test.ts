@@ -0,0 +1,124 @@
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+type RateLimitModule = typeof import("./github-rate-limit")
+
+function response(
+  status: number,
+  headers: Record<string, string> = {},
+  body: unknown = {}
+): Response {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    json: async () => body,
+    clone() {
+      return this
+    },
+  } as unknown as Response
+}
+
+/** The scheduler keeps state across calls, so every test loads a fresh copy */
+function loadScheduler(): RateLimitModule {
+  let loaded: RateLimitModule | undefined
+  jest.isolateModules(() => {
+    loaded = require("./github-rate-limit")
+  })
+  return loaded!
+}
+
+describe("GitHub request scheduler", () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+    jest.useFakeTimers()
+    jest.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+  })
+
+  it("waits out Retry-After on a secondary rate limit and retries the request", async () => {
+    const { githubFetch, onRateLimitPauseChange } = loadScheduler()
+    const pauses: (string | null)[] = []
+    onRateLimitPauseChange((until) => pauses.push(until))
+    mockFetch
+      .mockResolvedValueOnce(
+        response(403, { "retry-after": "30" }, { message: "secondary rate limit" })
+      )
+      .mockResolvedValueOnce(response(200))
+
+    const pending = githubFetch("https://api.github.com/repos/me/expenses")
+    await jest.advanceTimersByTimeAsync(29_000)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(pauses).toHaveLength(1)
+    expect(pauses[0]).not.toBeNull()
+
+    await jest.advanceTimersByTimeAsync(1000)
+    await expect(pending).resolves.toMatchObject({ status: 200 })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(pauses[1]).toBeNull()
+  })
+
+  it("pauses every request until X-RateLimit-Reset once the quota is used up", async () => {
+    const { githubFetch, getRateLimitPauseUntil } = loadScheduler()
+    const reset = Math.floor(Date.now() / 1000) + 120
+    mockFetch
+      .mockResolvedValueOnce(
+        response(200, { "x-ratelimit-remaining": "0", "x-ratelimit-reset": `${reset}` })
+      )
+      .mockResolvedValue(response(200))
+
+    await githubFetch("https://api.github.com/a")
+    expect(getRateLimitPauseUntil()).toBe(new Date(reset * 1000).toISOString())
+
+    const next = githubFetch("https://api.github.com/b")
+    await jest.advanceTimersByTimeAsync(60_000)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    await jest.advanceTimersByTimeAsync(60_000)
+    await expect(next).resolves.toMatchObject({ status: 200 })
+    expect(getRateLimitPauseUntil()).toBeNull()
+  })
+
+  it("returns permission errors without waiting", async () => {
+    const { githubFetch, getRateLimitPauseUntil } = loadScheduler()
+    mockFetch.mockResolvedValueOnce(
+      response(403, {}, { message: "Resource not accessible by integration" })
+    )
+
+    await expect(githubFetch("https://api.github.com/a")).resolves.toMatchObject({
+      status: 403,
+    })
+    expect(getRateLimitPauseUntil()).toBeNull()
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("runs requests one at a time when the remaining quota is low", async () => {
+    const { githubFetch } = loadScheduler()
+    let inFlight = 0
+    let maxInFlight = 0
+    mockFetch.mockImplementation(async () => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      inFlight--
+      return response(200, { "x-ratelimit-remaining": "20" })
+    })
+
+    const first = githubFetch("https://api.github.com/first")
+    await jest.advanceTimersByTimeAsync(10)
+    await first
+
+    const rest = Promise.all(
+      ["a", "b", "c"].map((path) => githubFetch(`https://api.github.com/${path}`))
+    )
+    await jest.advanceTimersByTimeAsync(30)
+    await rest
+
+    expect(maxInFlight).toBe(1)
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+  })
+})
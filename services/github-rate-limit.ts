@@ -0,0 +1,226 @@
+/**
+ * Shared scheduler for GitHub API requests
+ *
+ * Every request in `github-sync.ts` goes through `githubFetch`, which caps how
+ * many run at once and reads GitHub's rate-limit headers. Concurrency drops
+ * when the remaining quota runs low or a limit is hit, and creeps back up
+ * while requests succeed. A rate-limited request pauses every request until
+ * `Retry-After` or `X-RateLimit-Reset`, then runs again, so the sync in
+ * progress waits instead of failing. Listeners are told when a pause starts
+ * and ends so the UI can show it.
+ */
+
+const MAX_CONCURRENCY = 6
+const MIN_CONCURRENCY = 1
+
+/** Remaining quota below which requests run one at a time */
+const LOW_REMAINING = 100
+
+/** Successful responses before one more request may run at once */
+const SUCCESSES_PER_STEP = 10
+
+/** Wait for a secondary rate limit that does not say when to retry */
+const DEFAULT_RATE_LIMIT_WAIT_MS = 60_000
+
+/** Shortest pause, so a reset time in the past still backs off */
+const MIN_RATE_LIMIT_WAIT_MS = 1000
+
+/** Longest pause; a later reset fails the request instead */
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 60_000
+
+/** Times one request is retried after a rate limit */
+const MAX_RATE_LIMIT_RETRIES = 3
+
+let concurrency = MAX_CONCURRENCY
+let active = 0
+let successes = 0
+let pausedUntil: number | null = null
+let resumeTimer: ReturnType<typeof setTimeout> | null = null
+let resumePromise: Promise<void> | null = null
+let resolveResume: (() => void) | null = null
+const waiting: (() => void)[] = []
+const listeners = new Set<(until: string | null) => void>()
+
+function notify(): void {
+  const until = pausedUntil === null ? null : new Date(pausedUntil).toISOString()
+  for (const listener of listeners) {
+    listener(until)
+  }
+}
+
+function wakeAll(): void {
+  for (const wake of waiting.splice(0)) {
+    wake()
+  }
+}
+
+function resume(): void {
+  pausedUntil = null
+  resumeTimer = null
+  resumePromise = null
+  resolveResume?.()
+  resolveResume = null
+  notify()
+  wakeAll()
+}
+
+/**
+ * Hold every request until the given time. An earlier pause is extended,
+ * never shortened.
+ */
+function pauseUntil(time: number): void {
+  if (pausedUntil !== null && time <= pausedUntil) {
+    return
+  }
+  pausedUntil = time
+  if (!resumePromise) {
+    resumePromise = new Promise((resolve) => {
+      resolveResume = resolve
+    })
+  }
+  if (resumeTimer) {
+    clearTimeout(resumeTimer)
+  }
+  resumeTimer = setTimeout(resume, Math.max(0, time - Date.now()))
+  notify()
+}
+
+async function acquire(): Promise<void> {
+  for (;;) {
+    if (resumePromise) {
+      await resumePromise
+      continue
+    }
+    if (active < concurrency) {
+      active++
+      return
+    }
+    await new Promise<void>((resolve) => waiting.push(resolve))
+  }
+}
+
+function release(): void {
+  active--
+  waiting.shift()?.()
+}
+
+function readNumber(response: Response, header: string): number | null {
+  const value = response.headers?.get(header)
+  if (value === null || value === undefined || value.trim() === "") {
+    return null
+  }
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+/**
+ * Time to wait before retrying a rate-limited response, or null when the
+ * response was not rate limited. A 403 without rate-limit headers counts
+ * only when its message says so; otherwise it is a permission error.
+ */
+async function getRateLimitWait(response: Response): Promise<number | null> {
+  if (response.status !== 403 && response.status !== 429) {
+    return null
+  }
+
+  const retryAfter = readNumber(response, "retry-after")
+  if (retryAfter !== null) {
+    return Math.max(retryAfter * 1000, MIN_RATE_LIMIT_WAIT_MS)
+  }
+
+  const reset = readNumber(response, "x-ratelimit-reset")
+  if (readNumber(response, "x-ratelimit-remaining") === 0 && reset !== null) {
+    return Math.max(reset * 1000 - Date.now(), MIN_RATE_LIMIT_WAIT_MS)
+  }
+
+  if (response.status === 429) {
+    return DEFAULT_RATE_LIMIT_WAIT_MS
+  }
+  let body: { message?: unknown } | null = null
+  try {
+    body = await response.clone().json()
+  } catch {
+    // Not JSON
+  }
+  return typeof body?.message === "string" &&
+    body.message.toLowerCase().includes("rate limit")
+    ? DEFAULT_RATE_LIMIT_WAIT_MS
+    : null
+}
+
+/**
+ * Adjust concurrency from the quota a successful response reports, and
+ * pause until the reset when it is used up
+ */
+function recordSuccess(response: Response): void {
+  const remaining = readNumber(response, "x-ratelimit-remaining")
+  if (remaining !== null && remaining < LOW_REMAINING) {
+    concurrency = MIN_CONCURRENCY
+    successes = 0
+    const reset = readNumber(response, "x-ratelimit-reset")
+    if (remaining === 0 && reset !== null) {
+      pauseUntil(Math.max(reset * 1000, Date.now() + MIN_RATE_LIMIT_WAIT_MS))
+    }
+    return
+  }
+
+  successes++
+  if (successes >= SUCCESSES_PER_STEP && concurrency < MAX_CONCURRENCY) {
+    concurrency++
+    successes = 0
+    wakeAll()
+  }
+}
+
+/**
+ * `fetch` for GitHub API requests. Waits for a free slot and for any rate
+ * limit pause, and retries a rate-limited request once the limit resets.
+ * When the limit will not reset in time, the rate-limited response is
+ * returned for the caller to report.
+ */
+export async function githubFetch(input: string, init?: RequestInit): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    await acquire()
+    let response: Response
+    try {
+      response = await fetch(input, init)
+    } finally {
+      release()
+    }
+
+    const wait = await getRateLimitWait(response)
+    if (wait === null) {
+      recordSuccess(response)
+      return response
+    }
+
+    concurrency = Math.max(MIN_CONCURRENCY, Math.floor(concurrency / 2))
+    successes = 0
+    if (attempt >= MAX_RATE_LIMIT_RETRIES || wait > MAX_RATE_LIMIT_WAIT_MS) {
+      return response
+    }
+    console.warn(`[GitHubRateLimit] Rate limited, waiting ${Math.round(wait / 1000)}s`)
+    pauseUntil(Date.now() + wait)
+  }
+}
+
+/**
+ * When GitHub requests resume, while they are paused for a rate limit
+ */
+export function getRateLimitPauseUntil(): string | null {
+  return pausedUntil === null ? null : new Date(pausedUntil).toISOString()
+}
+
+/**
+ * Subscribe to rate limit pauses starting (with the resume time) and ending
+ * (with null)
+ * @returns Unsubscribe function
+ */
+export function onRateLimitPauseChange(
+  listener: (until: string | null) => void
+): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
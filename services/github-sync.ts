@@ -4,6 +4,7 @@
 
 import i18next from "../i18n"
 import { withRetry } from "./retry"
+import { githubFetch } from "./github-rate-limit"
 import {
   GitHubApiError,
   toGitHubApiError,
@@ -14,6 +15,9 @@ import {
 export { GitHubApiError }
 export type { GitHubErrorCode }
 
+/** API root for github.com; GitHub Enterprise Server uses https://HOST/api/v3 */
+export const GITHUB_API_BASE_URL = "https://api.github.com"
+
 interface GitHubFileResponse {
   content: string
   sha: string
@@ -24,7 +28,8 @@ interface GitHubFileResponse {
 /** File to be uploaded in a batch commit */
 export interface BatchFileUpload {
   path: string // e.g., "expenses-2024-01-15.csv"
-  content: string // CSV content
+  content: string // CSV content, or base64 data when encoding is "base64"
+  encoding?: "utf-8" | "base64" // Defaults to "utf-8"; binary files are sent as base64
 }
 
 /** File to be deleted in a batch commit */
@@ -49,13 +54,28 @@ export interface BatchCommitResult {
   errorCode?: GitHubErrorCode
 }
 
+/** Git trailers naming the device that made a sync commit */
+const DEVICE_TRAILER = "Device"
+const DEVICE_ID_TRAILER = "Device-Id"
+
+/** Device recorded in a sync commit */
+export interface CommitDevice {
+  id: string
+  name: string
+}
+
 /**
  * Generate a commit message for batch operations
  * @param uploads Number of files being uploaded
  * @param deletions Number of files being deleted
+ * @param device Device making the commit, recorded as trailers
  * @returns Formatted commit message
  */
-export function generateCommitMessage(uploads: number, deletions: number): string {
+export function generateCommitMessage(
+  uploads: number,
+  deletions: number,
+  device?: CommitDevice
+): string {
   const parts: string[] = []
 
   if (uploads > 0) {
@@ -66,12 +86,35 @@ export function generateCommitMessage(uploads: number, deletions: number): strin
     parts.push(`${deletions} file${deletions > 1 ? "s" : ""} deleted`)
   }
 
-  if (parts.length === 0) {
-    return `Sync expenses - ${new Date().toISOString()}`
-  }
-
   const timestamp = new Date().toISOString()
-  return `Sync expenses: ${parts.join(", ")} - ${timestamp}`
+  const subject =
+    parts.length === 0
+      ? `Sync expenses - ${timestamp}`
+      : `Sync expenses: ${parts.join(", ")} - ${timestamp}`
+
+  return device
+    ? `${subject}\n\n${DEVICE_TRAILER}: ${device.name}\n${DEVICE_ID_TRAILER}: ${device.id}`
+    : subject
+}
+
+function getTrailer(message: string, trailer: string): string | undefined {
+  const match = message.match(new RegExp(`^${trailer}: (.+)$`, "m"))
+  return match?.[1].trim() || undefined
+}
+
+/**
+ * Device named in a commit message's trailer, if any
+ */
+export function getCommitDeviceName(message: string): string | undefined {
+  return getTrailer(message, DEVICE_TRAILER)
+}
+
+/**
+ * Device ID in a commit message's trailer, if any. Commits made before
+ * devices had IDs only carry the name.
+ */
+export function getCommitDeviceId(message: string): string | undefined {
+  return getTrailer(message, DEVICE_ID_TRAILER)
 }
 
 // ============================================================================
@@ -153,12 +196,14 @@ export type RepositoryTreeResult =
  * @param token GitHub Personal Access Token
  * @param repo Repository in format "owner/repo"
  * @param branch Branch name
+ * @param apiBaseUrl API root, e.g. GITHUB_API_BASE_URL
  * @returns The SHA of the current commit on the branch, or error
  */
 async function getBranchRef(
   token: string,
   repo: string,
-  branch: string
+  branch: string,
+  apiBaseUrl: string
 ): Promise<
   { sha: string } | { error: string; errorCode: BatchCommitResult["errorCode"] }
 > {
@@ -171,8 +216,8 @@ async function getBranchRef(
       }
     }
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/ref/heads/${branch}`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/git/ref/heads/${branch}`,
       {
         headers: {
           Authorization: `Bearer ${token}`,
@@ -204,12 +249,14 @@ async function getBranchRef(
  * @param token GitHub Personal Access Token
  * @param repo Repository in format "owner/repo"
  * @param commitSha The SHA of the commit
+ * @param apiBaseUrl API root, e.g. GITHUB_API_BASE_URL
  * @returns The SHA of the tree associated with the commit, or error
  */
 async function getCommitTree(
   token: string,
   repo: string,
-  commitSha: string
+  commitSha: string,
+  apiBaseUrl: string
 ): Promise<
   { treeSha: string } | { error: string; errorCode: BatchCommitResult["errorCode"] }
 > {
@@ -222,8 +269,8 @@ async function getCommitTree(
       }
     }
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/commits/${commitSha}`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/git/commits/${commitSha}`,
       {
         headers: {
           Authorization: `Bearer ${token}`,
@@ -258,10 +305,11 @@ async function getCommitTree(
 export async function getRepositoryTree(
   token: string,
   repo: string,
-  branch: string
+  branch: string,
+  apiBaseUrl: string = GITHUB_API_BASE_URL
 ): Promise<RepositoryTreeResult> {
   // Step 1: Get branch ref
-  const refResult = await getBranchRef(token, repo, branch)
+  const refResult = await getBranchRef(token, repo, branch, apiBaseUrl)
   if ("error" in refResult) {
     const code = refResult.errorCode
     if (code === "AUTH") {
@@ -291,8 +339,21 @@ export async function getRepositoryTree(
     return { success: false, error: refResult.error }
   }
 
+  return getRepositoryTreeAtCommit(token, repo, refResult.sha, apiBaseUrl)
+}
+
+/**
+ * Fetch the repository tree as of a commit, for reading past states of the
+ * ledger. Uses: getCommitTree → GET /git/trees/{sha}?recursive=1
+ */
+export async function getRepositoryTreeAtCommit(
+  token: string,
+  repo: string,
+  commitSha: string,
+  apiBaseUrl: string = GITHUB_API_BASE_URL
+): Promise<RepositoryTreeResult> {
   // Step 2: Get commit tree SHA
-  const commitResult = await getCommitTree(token, repo, refResult.sha)
+  const commitResult = await getCommitTree(token, repo, commitSha, apiBaseUrl)
   if ("error" in commitResult) {
     const code = commitResult.errorCode
     if (code === "AUTH") {
@@ -329,8 +390,8 @@ export async function getRepositoryTree(
       return { success: false, error: i18next.t("githubSync.errors.repoFormat") }
     }
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/trees/${commitResult.treeSha}?recursive=1`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/git/trees/${commitResult.treeSha}?recursive=1`,
       {
         headers: {
           Authorization: `Bearer ${token}`,
@@ -409,13 +470,17 @@ export async function getRepositoryTree(
  *
  * @param token GitHub Personal Access Token
  * @param repo Repository in format "owner/repo"
- * @param content The file content (will be base64 encoded)
+ * @param content The file content (text is base64 encoded; base64 data is sent as-is)
+ * @param encoding Encoding of `content` (utf-8 when unset)
+ * @param apiBaseUrl API root, e.g. GITHUB_API_BASE_URL
  * @returns The SHA of the created blob, or error
  */
 async function createBlob(
   token: string,
   repo: string,
-  content: string
+  content: string,
+  encoding: BatchFileUpload["encoding"],
+  apiBaseUrl: string
 ): Promise<
   { sha: string } | { error: string; errorCode: BatchCommitResult["errorCode"] }
 > {
@@ -428,11 +493,12 @@ async function createBlob(
       }
     }
 
-    // Base64 encode the content
-    const encodedContent = btoa(unescape(encodeURIComponent(content)))
+    // Base64 encode text content; binary uploads are already base64
+    const encodedContent =
+      encoding === "base64" ? content : btoa(unescape(encodeURIComponent(content)))
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/blobs`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/git/blobs`,
       {
         method: "POST",
         headers: {
@@ -471,13 +537,15 @@ async function createBlob(
  * @param repo Repository in format "owner/repo"
  * @param baseTreeSha The SHA of the base tree to build upon
  * @param entries Array of tree entries (uploads with blob SHA, deletions with sha: null)
+ * @param apiBaseUrl API root, e.g. GITHUB_API_BASE_URL
  * @returns The SHA of the created tree, or error
  */
 async function createTree(
   token: string,
   repo: string,
   baseTreeSha: string,
-  entries: { path: string; sha: string | null }[]
+  entries: { path: string; sha: string | null }[],
+  apiBaseUrl: string
 ): Promise<
   { sha: string } | { error: string; errorCode: BatchCommitResult["errorCode"] }
 > {
@@ -498,8 +566,8 @@ async function createTree(
       sha: entry.sha, // null for deletions, blob SHA for uploads
     }))
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/trees`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/git/trees`,
       {
         method: "POST",
         headers: {
@@ -539,6 +607,7 @@ async function createTree(
  * @param message Commit message
  * @param treeSha The SHA of the tree for this commit
  * @param parentSha The SHA of the parent commit
+ * @param apiBaseUrl API root, e.g. GITHUB_API_BASE_URL
  * @returns The SHA of the created commit, or error
  */
 async function createCommit(
@@ -546,7 +615,8 @@ async function createCommit(
   repo: string,
   message: string,
   treeSha: string,
-  parentSha: string
+  parentSha: string,
+  apiBaseUrl: string
 ): Promise<
   { sha: string } | { error: string; errorCode: BatchCommitResult["errorCode"] }
 > {
@@ -559,8 +629,8 @@ async function createCommit(
       }
     }
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/commits`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/git/commits`,
       {
         method: "POST",
         headers: {
@@ -600,13 +670,15 @@ async function createCommit(
  * @param repo Repository in format "owner/repo"
  * @param branch Branch name
  * @param commitSha The SHA of the commit to point to
+ * @param apiBaseUrl API root, e.g. GITHUB_API_BASE_URL
  * @returns Success or error
  */
 async function updateRef(
   token: string,
   repo: string,
   branch: string,
-  commitSha: string
+  commitSha: string,
+  apiBaseUrl: string
 ): Promise<
   { success: true } | { error: string; errorCode: BatchCommitResult["errorCode"] }
 > {
@@ -619,8 +691,8 @@ async function updateRef(
       }
     }
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/git/refs/heads/${branch}`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/git/refs/heads/${branch}`,
       {
         method: "PATCH",
         headers: {
@@ -661,13 +733,15 @@ async function updateRef(
  * @param repo Repository in format "owner/repo"
  * @param branch Branch name
  * @param request Batch commit request containing uploads and deletions
+ * @param apiBaseUrl API root, e.g. GITHUB_API_BASE_URL
  * @returns Result with success status and commit SHA or error
  */
 export async function batchCommit(
   token: string,
   repo: string,
   branch: string,
-  request: BatchCommitRequest
+  request: BatchCommitRequest,
+  apiBaseUrl: string = GITHUB_API_BASE_URL
 ): Promise<BatchCommitResult> {
   const { uploads, deletions, message } = request
 
@@ -696,7 +770,7 @@ export async function batchCommit(
 
   const executeBatch = async (): Promise<BatchCommitResult> => {
     // Step 1: Get current branch ref (HEAD SHA)
-    const refResult = await getBranchRef(token, repo, branch)
+    const refResult = await getBranchRef(token, repo, branch, apiBaseUrl)
     if ("error" in refResult) {
       throwIfRetryable(refResult)
       return {
@@ -708,7 +782,7 @@ export async function batchCommit(
     const headSha = refResult.sha
 
     // Step 2: Get base tree SHA from commit
-    const treeResult = await getCommitTree(token, repo, headSha)
+    const treeResult = await getCommitTree(token, repo, headSha, apiBaseUrl)
     if ("error" in treeResult) {
       throwIfRetryable(treeResult)
       return {
@@ -728,7 +802,13 @@ export async function batchCommit(
     const blobShas: { [path: string]: string } = {}
 
     for (const upload of uploads) {
-      const blobResult = await createBlob(token, repo, upload.content)
+      const blobResult = await createBlob(
+        token,
+        repo,
+        upload.content,
+        upload.encoding,
+        apiBaseUrl
+      )
       if ("error" in blobResult) {
         throwIfRetryable(blobResult)
         return {
@@ -751,7 +831,13 @@ export async function batchCommit(
     }
 
     // Step 5: Create new tree with all changes
-    const newTreeResult = await createTree(token, repo, baseTreeSha, treeEntries)
+    const newTreeResult = await createTree(
+      token,
+      repo,
+      baseTreeSha,
+      treeEntries,
+      apiBaseUrl
+    )
     if ("error" in newTreeResult) {
       throwIfRetryable(newTreeResult)
       return {
@@ -763,7 +849,14 @@ export async function batchCommit(
     const newTreeSha = newTreeResult.sha
 
     // Step 6: Create commit pointing to new tree
-    const commitResult = await createCommit(token, repo, message, newTreeSha, headSha)
+    const commitResult = await createCommit(
+      token,
+      repo,
+      message,
+      newTreeSha,
+      headSha,
+      apiBaseUrl
+    )
     if ("error" in commitResult) {
       throwIfRetryable(commitResult)
       return {
@@ -775,7 +868,7 @@ export async function batchCommit(
     const newCommitSha = commitResult.sha
 
     // Step 7: Update branch ref to new commit
-    const updateResult = await updateRef(token, repo, branch, newCommitSha)
+    const updateResult = await updateRef(token, repo, branch, newCommitSha, apiBaseUrl)
     if ("error" in updateResult) {
       throwIfRetryable(updateResult)
       return {
@@ -817,12 +910,14 @@ export async function batchCommit(
  * @param token GitHub Personal Access Token
  * @param repo Repository in format "owner/repo"
  * @param branch Branch name
+ * @param apiBaseUrl API root, e.g. GITHUB_API_BASE_URL
  * @returns The ISO timestamp of the latest commit, or null if unable to fetch
  */
 export async function getLatestCommitTimestamp(
   token: string,
   repo: string,
-  branch: string
+  branch: string,
+  apiBaseUrl: string = GITHUB_API_BASE_URL
 ): Promise<{ timestamp: string } | { error: string }> {
   const execute = async (): Promise<{ timestamp: string } | { error: string }> => {
     const [owner, repoName] = repo.split("/")
@@ -830,8 +925,8 @@ export async function getLatestCommitTimestamp(
       return { error: i18next.t("githubSync.errors.repoFormat") }
     }
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/commits?sha=${branch}&per_page=1`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/commits?sha=${branch}&per_page=1`,
       {
         headers: {
           Authorization: `Bearer ${token}`,
@@ -892,6 +987,153 @@ export async function getLatestCommitTimestamp(
   }
 }
 
+// ============================================================================
+// Commit History
+// ============================================================================
+
+/** A commit on the sync branch */
+export interface CommitSummary {
+  sha: string
+  message: string
+  /** Git author name */
+  authorName?: string
+  /** ISO timestamp of the commit */
+  timestamp: string
+  parentShas: string[]
+}
+
+/** How a commit touched a file */
+export interface CommitFileChange {
+  path: string
+  status: "added" | "modified" | "removed"
+  /** Path before a rename; the old path counts as removed */
+  previousPath?: string
+}
+
+interface GitHubCommitListItem {
+  sha: string
+  commit?: {
+    message?: string
+    author?: { name?: string; date?: string }
+    committer?: { date?: string }
+  }
+  parents?: { sha: string }[]
+}
+
+interface GitHubCommitDetail extends GitHubCommitListItem {
+  files?: { filename: string; status: string; previous_filename?: string }[]
+}
+
+/**
+ * List the most recent commits on the branch, newest first
+ * GET /repos/{owner}/{repo}/commits?sha={branch}
+ *
+ * @param perPage Number of commits to return (GitHub allows up to 100)
+ */
+export async function listCommits(
+  token: string,
+  repo: string,
+  branch: string,
+  perPage: number = 30,
+  apiBaseUrl: string = GITHUB_API_BASE_URL
+): Promise<CommitSummary[]> {
+  const execute = async (): Promise<CommitSummary[]> => {
+    const [owner, repoName] = repo.split("/")
+
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/commits?sha=${branch}&per_page=${perPage}`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: "application/vnd.github+json",
+          "X-GitHub-Api-Version": "2022-11-28",
+        },
+      }
+    )
+
+    // An empty repository has no commits to list
+    if (response.status === 404 || response.status === 409) {
+      return []
+    }
+
+    if (!response.ok) {
+      throw await toGitHubApiError(response)
+    }
+
+    const commits: GitHubCommitListItem[] = await response.json()
+    return Array.isArray(commits) ? commits.map(toCommitSummary) : []
+  }
+
+  try {
+    return await withRetry(execute, { maxRetries: 2, baseDelayMs: 500 })
+  } catch (error) {
+    console.error("List commits error:", error)
+    throw error
+  }
+}
+
+/**
+ * Files a commit added, modified or removed
+ * GET /repos/{owner}/{repo}/commits/{sha}
+ */
+export async function getCommitFileChanges(
+  token: string,
+  repo: string,
+  commitSha: string,
+  apiBaseUrl: string = GITHUB_API_BASE_URL
+): Promise<CommitFileChange[]> {
+  const execute = async (): Promise<CommitFileChange[]> => {
+    const [owner, repoName] = repo.split("/")
+
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/commits/${commitSha}`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: "application/vnd.github+json",
+          "X-GitHub-Api-Version": "2022-11-28",
+        },
+      }
+    )
+
+    if (!response.ok) {
+      throw await toGitHubApiError(response)
+    }
+
+    const data: GitHubCommitDetail = await response.json()
+    return (data.files ?? []).map((file) => ({
+      path: file.filename,
+      status:
+        file.status === "removed"
+          ? "removed"
+          : ["added", "copied", "renamed"].includes(file.status)
+            ? "added"
+            : "modified",
+      previousPath: file.status === "renamed" ? file.previous_filename : undefined,
+    }))
+  }
+
+  try {
+    return await withRetry(execute, { maxRetries: 2, baseDelayMs: 500 })
+  } catch (error) {
+    console.error("Get commit changes error:", error)
+    throw error
+  }
+}
+
+function toCommitSummary(item: GitHubCommitListItem): CommitSummary {
+  return {
+    sha: item.sha,
+    message: item.commit?.message ?? "",
+    authorName: item.commit?.author?.name,
+    timestamp:
+      item.commit?.author?.date ??
+      item.commit?.committer?.date ??
+      new Date(0).toISOString(),
+    parentShas: (item.parents ?? []).map((parent) => parent.sha),
+  }
+}
+
 /**
  * Validate GitHub token and repository access.
  *
@@ -901,7 +1143,8 @@ export async function getLatestCommitTimestamp(
  */
 export async function validatePAT(
   token: string,
-  repo: string
+  repo: string,
+  apiBaseUrl: string = GITHUB_API_BASE_URL
 ): Promise<{
   valid: boolean
   error?: string
@@ -924,7 +1167,7 @@ export async function validatePAT(
     }
 
     // 1) Validate token + determine viewer login (used to enforce personal-only repos)
-    const userResponse = await fetch("https://api.github.com/user", {
+    const userResponse = await githubFetch(`${apiBaseUrl}/user`, {
       headers: commonHeaders,
     })
 
@@ -962,7 +1205,7 @@ export async function validatePAT(
       }
     }
 
-    const response = await fetch(`https://api.github.com/repos/${owner}/${repoName}`, {
+    const response = await githubFetch(`${apiBaseUrl}/repos/${owner}/${repoName}`, {
       headers: commonHeaders,
     })
 
@@ -1005,8 +1248,8 @@ export async function validatePAT(
 
     if (!hasPushViaRepo) {
       // Fallback: collaborator permission endpoint (more explicit)
-      const permissionResponse = await fetch(
-        `https://api.github.com/repos/${owner}/${repoName}/collaborators/${encodeURIComponent(
+      const permissionResponse = await githubFetch(
+        `${apiBaseUrl}/repos/${owner}/${repoName}/collaborators/${encodeURIComponent(
           viewerLogin
         )}/permission`,
         { headers: commonHeaders }
@@ -1048,13 +1291,14 @@ export async function downloadCSV(
   token: string,
   repo: string,
   branch: string,
-  filePath: string = "expenses.csv"
+  filePath: string = "expenses.csv",
+  apiBaseUrl: string = GITHUB_API_BASE_URL
 ): Promise<{ content: string; sha: string } | null> {
   const execute = async (): Promise<{ content: string; sha: string } | null> => {
     const [owner, repoName] = repo.split("/")
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/contents/${filePath}?ref=${branch}`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/contents/${filePath}?ref=${branch}`,
       {
         headers: {
           Authorization: `Bearer ${token}`,
@@ -1090,6 +1334,100 @@ export async function downloadCSV(
   }
 }
 
+/**
+ * Download a text blob by its SHA, e.g. a day file listed in a past tree
+ * GET /repos/{owner}/{repo}/git/blobs/{sha}
+ *
+ * @returns The decoded content, or null when the blob does not exist
+ */
+export async function downloadBlob(
+  token: string,
+  repo: string,
+  blobSha: string,
+  apiBaseUrl: string = GITHUB_API_BASE_URL
+): Promise<{ content: string; sha: string } | null> {
+  const execute = async (): Promise<{ content: string; sha: string } | null> => {
+    const [owner, repoName] = repo.split("/")
+
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/git/blobs/${blobSha}`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: "application/vnd.github+json",
+          "X-GitHub-Api-Version": "2022-11-28",
+        },
+      }
+    )
+
+    if (response.status === 404) {
+      return null
+    }
+
+    if (!response.ok) {
+      throw await toGitHubApiError(response)
+    }
+
+    const data: GitHubFileResponse = await response.json()
+    return {
+      content: decodeURIComponent(escape(atob(data.content.replace(/\n/g, "")))),
+      sha: data.sha,
+    }
+  }
+
+  try {
+    return await withRetry(execute, { maxRetries: 2, baseDelayMs: 500 })
+  } catch (error) {
+    console.error("Download blob error:", error)
+    throw error
+  }
+}
+
+/**
+ * Download a binary file (e.g. a receipt image) from GitHub repository.
+ * Uses the raw media type so files larger than the 1 MB JSON limit download too.
+ *
+ * @returns The file bytes, or null when the file does not exist
+ */
+export async function downloadBinaryFile(
+  token: string,
+  repo: string,
+  branch: string,
+  filePath: string,
+  apiBaseUrl: string = GITHUB_API_BASE_URL
+): Promise<Uint8Array | null> {
+  const execute = async (): Promise<Uint8Array | null> => {
+    const [owner, repoName] = repo.split("/")
+
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/contents/${filePath}?ref=${branch}`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: "application/vnd.github.raw+json",
+        },
+      }
+    )
+
+    if (response.status === 404) {
+      return null
+    }
+
+    if (!response.ok) {
+      throw await toGitHubApiError(response)
+    }
+
+    return new Uint8Array(await response.arrayBuffer())
+  }
+
+  try {
+    return await withRetry(execute, { maxRetries: 2, baseDelayMs: 500 })
+  } catch (error) {
+    console.error("Download file error:", error)
+    throw error
+  }
+}
+
 /**
  * List all files in a directory in the GitHub repository
  */
@@ -1097,13 +1435,14 @@ export async function listFiles(
   token: string,
   repo: string,
   branch: string,
-  path: string = ""
+  path: string = "",
+  apiBaseUrl: string = GITHUB_API_BASE_URL
 ): Promise<{ name: string; path: string; sha: string }[]> {
   const execute = async (): Promise<{ name: string; path: string; sha: string }[]> => {
     const [owner, repoName] = repo.split("/")
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/contents/${path}?ref=${branch}`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/contents/${path}?ref=${branch}`,
       {
         headers: {
           Authorization: `Bearer ${token}`,
@@ -1154,12 +1493,14 @@ const SETTINGS_FILE_PATH = "settings.json"
  * @param token GitHub Personal Access Token
  * @param repo Repository in format "owner/repo"
  * @param branch Branch name
+ * @param apiBaseUrl API root, e.g. GITHUB_API_BASE_URL
  * @returns Settings content and SHA, or null if file doesn't exist
  */
 export async function downloadSettingsFile(
   token: string,
   repo: string,
-  branch: string
+  branch: string,
+  apiBaseUrl: string = GITHUB_API_BASE_URL
 ): Promise<{ content: string; sha: string } | null> {
   const execute = async (): Promise<{ content: string; sha: string } | null> => {
     const [owner, repoName] = repo.split("/")
@@ -1167,8 +1508,8 @@ export async function downloadSettingsFile(
       throw new Error(i18next.t("githubSync.errors.repoFormat"))
     }
 
-    const response = await fetch(
-      `https://api.github.com/repos/${owner}/${repoName}/contents/${SETTINGS_FILE_PATH}?ref=${branch}`,
+    const response = await githubFetch(
+      `${apiBaseUrl}/repos/${owner}/${repoName}/contents/${SETTINGS_FILE_PATH}?ref=${branch}`,
       {
         headers: {
           Authorization: `Bearer ${token}`,
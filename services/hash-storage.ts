@@ -1,4 +1,5 @@
 import { getItem, setItem } from "./storage"
+import { ledgerScopedKey } from "./ledgers"
 
 const FILE_HASHES_KEY = "file_content_hashes"
 
@@ -28,7 +29,7 @@ export function computeContentHash(content: string): string {
  */
 export async function saveFileHashes(hashes: FileHashMap): Promise<void> {
   try {
-    await setItem(FILE_HASHES_KEY, JSON.stringify(hashes))
+    await setItem(ledgerScopedKey(FILE_HASHES_KEY), JSON.stringify(hashes))
   } catch (error) {
     console.warn("Failed to save file hashes:", error)
   }
@@ -39,7 +40,7 @@ export async function saveFileHashes(hashes: FileHashMap): Promise<void> {
  */
 export async function loadFileHashes(): Promise<FileHashMap> {
   try {
-    const stored = await getItem(FILE_HASHES_KEY)
+    const stored = await getItem(ledgerScopedKey(FILE_HASHES_KEY))
     if (stored) {
       return JSON.parse(stored)
     }
@@ -0,0 +1,143 @@
+import { shareAsync } from "expo-sharing"
+import { File } from "expo-file-system"
+import {
+  LEDGER_JSON_FORMAT,
+  getLedgerFileName,
+  parseLedgerFile,
+  previewLedgerImport,
+  serializeLedger,
+  shareLedgerFile,
+} from "./ledger-file"
+import { Expense } from "../types/expense"
+
+function makeExpense(id: string, overrides: Partial<Expense> = {}): Expense {
+  return {
+    id,
+    amount: 100,
+    currency: "INR",
+    category: "Food",
+    date: "2024-01-01T12:00:00.000Z",
+    note: `Expense ${id}`,
+    createdAt: "2024-01-01T12:00:00.000Z",
+    updatedAt: "2024-01-01T12:00:00.000Z",
+    ...overrides,
+  }
+}
+
+const ledger: Expense[] = [
+  makeExpense("a", { tags: ["work"] }),
+  makeExpense("b", {
+    deletedAt: "2024-01-02T00:00:00.000Z",
+    updatedAt: "2024-01-02T00:00:00.000Z",
+  }),
+]
+
+describe("ledger-file", () => {
+  describe("serializeLedger", () => {
+    it("leaves out deleted expenses unless asked to include them", () => {
+      const json = JSON.parse(
+        serializeLedger(ledger, { format: "json", includeDeleted: false })
+      )
+      expect(json.format).toBe(LEDGER_JSON_FORMAT)
+      expect(json.expenses.map((e: Expense) => e.id)).toEqual(["a"])
+
+      const csv = serializeLedger(ledger, { format: "csv", includeDeleted: true })
+      expect(parseLedgerFile("ledger.csv", csv).expenses.map((e) => e.id)).toEqual([
+        "a",
+        "b",
+      ])
+    })
+
+    it("names files by local date and format", () => {
+      expect(getLedgerFileName("json", new Date(2024, 4, 1, 9))).toBe(
+        "expense-buddy-2024-05-01.json"
+      )
+    })
+  })
+
+  describe("parseLedgerFile", () => {
+    it.each(["csv", "json"] as const)("round-trips a %s export", (format) => {
+      const content = serializeLedger(ledger, { format, includeDeleted: true })
+      const { expenses, errors } = parseLedgerFile(`ledger.${format}`, content)
+
+      expect(errors).toEqual([])
+      expect(expenses).toEqual([
+        expect.objectContaining({ id: "a", tags: ["work"] }),
+        expect.objectContaining({ id: "b", deletedAt: "2024-01-02T00:00:00.000Z" }),
+      ])
+    })
+
+    it("reports invalid JSON entries by number and keeps the rest", () => {
+      const content = JSON.stringify([
+        makeExpense("a"),
+        { ...makeExpense("b"), amount: "lots" },
+        { ...makeExpense("c"), date: "not a date" },
+      ])
+
+      const { expenses, errors } = parseLedgerFile("backup.json", content)
+
+      expect(expenses.map((e) => e.id)).toEqual(["a"])
+      expect(errors.map((e) => e.line)).toEqual([2, 3])
+    })
+
+    it("reports a file that is not a ledger", () => {
+      expect(parseLedgerFile("backup.json", "{ nope").errors).toHaveLength(1)
+      expect(parseLedgerFile("backup.json", '{"foo":1}').errors).toHaveLength(1)
+    })
+  })
+
+  describe("previewLedgerImport", () => {
+    it("counts added, updated, conflicting and unchanged rows", () => {
+      const local = [
+        makeExpense("same"),
+        makeExpense("older-here"),
+        makeExpense("clash", { note: "mine" }),
+      ]
+      const imported = [
+        makeExpense("same"),
+        makeExpense("older-here", {
+          note: "newer",
+          updatedAt: "2024-02-01T00:00:00.000Z",
+        }),
+        makeExpense("clash", { note: "theirs" }),
+        makeExpense("new"),
+      ]
+
+      const preview = previewLedgerImport(local, imported)
+
+      expect(preview.added.map((e) => e.id)).toEqual(["new"])
+      expect(preview.updated.map((e) => e.id)).toEqual(["older-here"])
+      expect(preview.conflicts.map((c) => c.expenseId)).toEqual(["clash"])
+      expect(preview.unchangedCount).toBe(1)
+    })
+
+    it("is idempotent once the file has been applied", () => {
+      const imported = parseLedgerFile(
+        "ledger.csv",
+        serializeLedger(ledger, { format: "csv", includeDeleted: true })
+      ).expenses
+
+      const preview = previewLedgerImport(ledger, imported)
+
+      expect(preview.added).toEqual([])
+      expect(preview.updated).toEqual([])
+      expect(preview.conflicts).toEqual([])
+      expect(preview.unchangedCount).toBe(2)
+    })
+  })
+
+  describe("shareLedgerFile", () => {
+    it("shares the written file rather than its text", async () => {
+      const result = await shareLedgerFile(ledger, {
+        format: "csv",
+        includeDeleted: false,
+      })
+
+      expect(result.success).toBe(true)
+      const [uri, options] = jest.mocked(shareAsync).mock.calls[0]
+      expect(uri).toMatch(/expense-buddy-.*\.csv$/)
+      expect(options).toMatchObject({ mimeType: "text/csv" })
+      expect(await new File(uri).text()).toContain("Expense a")
+    })
+  })
+})
@@ -0,0 +1,243 @@
+/**
+ * Ledger file export and import
+ *
+ * Gives people without GitHub sync a way to get their data out and back in.
+ * Exports are written to the cache directory and handed to the system share
+ * sheet; imports are reconciled with mergeExpenses, so importing the same file
+ * twice changes nothing.
+ */
+
+import i18next from "i18next"
+import { File, Paths } from "expo-file-system"
+import { shareAsync } from "expo-sharing"
+import { z } from "zod"
+import { Expense } from "../types/expense"
+import type { ServiceResult } from "../types/service-result"
+import { createErrorResult, createSuccessResult } from "./error-utils"
+import {
+  CSVRowError,
+  exportToCSV,
+  fromCSVRow,
+  getImportedExpenseError,
+  importFromCSVWithReport,
+  toCSVRow,
+} from "./csv-handler"
+import { mergeExpenses, TrueConflict } from "./merge-engine"
+import { getLocalDayKey } from "../utils/date"
+
+export type LedgerFileFormat = "csv" | "json"
+
+/** Marks JSON files written by this app */
+export const LEDGER_JSON_FORMAT = "expense-buddy-ledger"
+const LEDGER_JSON_VERSION = 1
+
+export const LEDGER_MIME_TYPES = [
+  "text/csv",
+  "text/comma-separated-values",
+  "text/plain",
+  "application/json",
+]
+
+export interface LedgerExportOptions {
+  format: LedgerFileFormat
+  /** Include soft-deleted expenses, so deletions carry over on import */
+  includeDeleted: boolean
+}
+
+export interface LedgerParseResult {
+  expenses: Expense[]
+  /** Rows that could not be read: CSV line numbers (header is line 1) or JSON entry numbers */
+  errors: CSVRowError[]
+}
+
+export interface LedgerImportPreview {
+  /** Expenses not in the ledger yet */
+  added: Expense[]
+  /** Expenses the file has a newer version of */
+  updated: Expense[]
+  /** Expenses edited at the same time on both sides; the ledger version is kept */
+  conflicts: TrueConflict[]
+  /** Rows that already match the ledger (or are older than it) */
+  unchangedCount: number
+}
+
+const ledgerEntrySchema = z.object({
+  id: z.string(),
+  amount: z.number(),
+  category: z.string(),
+  date: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  note: z.string().optional().default(""),
+})
+
+/**
+ * Serialize expenses for export
+ */
+export function serializeLedger(
+  expenses: Expense[],
+  options: LedgerExportOptions,
+  now: Date = new Date()
+): string {
+  const selected = options.includeDeleted
+    ? expenses
+    : expenses.filter((expense) => !expense.deletedAt)
+
+  if (options.format === "csv") {
+    return exportToCSV(selected)
+  }
+
+  return JSON.stringify(
+    {
+      format: LEDGER_JSON_FORMAT,
+      version: LEDGER_JSON_VERSION,
+      exportedAt: now.toISOString(),
+      expenses: selected,
+    },
+    null,
+    2
+  )
+}
+
+/**
+ * File name for an export, e.g. "expense-buddy-2024-05-01.csv"
+ */
+export function getLedgerFileName(
+  format: LedgerFileFormat,
+  now: Date = new Date()
+): string {
+  return `expense-buddy-${getLocalDayKey(now.toISOString())}.${format}`
+}
+
+function parseLedgerJSON(content: string): LedgerParseResult {
+  let data: unknown
+  try {
+    data = JSON.parse(content)
+  } catch {
+    return {
+      expenses: [],
+      errors: [
+        {
+          line: 1,
+          message:
+            i18next.t("ledgerFile.import.errors.invalidJson") ??
+            "Not a valid ledger JSON file",
+        },
+      ],
+    }
+  }
+
+  // Accept our own export format as well as a bare array of expenses
+  const entries = Array.isArray(data)
+    ? data
+    : data &&
+        typeof data === "object" &&
+        Array.isArray((data as { expenses?: unknown }).expenses)
+      ? (data as { expenses: unknown[] }).expenses
+      : null
+  if (!entries) {
+    return {
+      expenses: [],
+      errors: [
+        {
+          line: 1,
+          message:
+            i18next.t("ledgerFile.import.errors.invalidJson") ??
+            "Not a valid ledger JSON file",
+        },
+      ],
+    }
+  }
+
+  const expenses: Expense[] = []
+  const errors: CSVRowError[] = []
+
+  entries.forEach((entry, index) => {
+    const line = index + 1
+    const parsed = ledgerEntrySchema.safeParse(entry)
+    if (!parsed.success) {
+      const field = parsed.error.issues[0]?.path.join(".") ?? ""
+      errors.push({
+        line,
+        message:
+          i18next.t("ledgerFile.import.errors.invalidField", { field }) ??
+          `Missing or invalid field: ${field}`,
+      })
+      return
+    }
+
+    // Round-trip through the CSV row so both formats normalize the same way
+    const expense = fromCSVRow(toCSVRow({ ...(entry as Expense), ...parsed.data }))
+    const error = getImportedExpenseError(expense)
+    if (error !== null) {
+      errors.push({ line, message: error })
+    } else {
+      expenses.push(expense)
+    }
+  })
+
+  return { expenses, errors }
+}
+
+/**
+ * Parse an exported ledger file. JSON is detected by extension or content;
+ * anything else is read as CSV.
+ */
+export function parseLedgerFile(name: string, content: string): LedgerParseResult {
+  const trimmed = content.trimStart()
+  const isJson =
+    name.toLowerCase().endsWith(".json") ||
+    trimmed.startsWith("{") ||
+    trimmed.startsWith("[")
+
+  return isJson ? parseLedgerJSON(content) : importFromCSVWithReport(content)
+}
+
+/**
+ * Work out what importing a file would change, without changing anything.
+ * Same-id rows are reconciled like a sync: the newer version wins.
+ */
+export function previewLedgerImport(
+  local: Expense[],
+  imported: Expense[]
+): LedgerImportPreview {
+  const result = mergeExpenses(local, imported)
+  const added = result.addedFromRemote
+  const updated = result.updatedFromRemote
+  const conflicts = result.trueConflicts
+  // A file may repeat an id; count every row that does not change the ledger
+  const changedIds = new Set(
+    [...added, ...updated, ...conflicts.map((c) => c.localVersion)].map((e) => e.id)
+  )
+
+  return {
+    added,
+    updated,
+    conflicts,
+    unchangedCount: imported.filter((expense) => !changedIds.has(expense.id)).length,
+  }
+}
+
+/**
+ * Write the ledger to a file and open the system share sheet with it
+ */
+export async function shareLedgerFile(
+  expenses: Expense[],
+  options: LedgerExportOptions
+): Promise<ServiceResult> {
+  try {
+    const content = serializeLedger(expenses, options)
+    const fileName = getLedgerFileName(options.format)
+    const file = new File(Paths.cache, fileName)
+    file.create({ overwrite: true })
+    file.write(content)
+
+    await shareAsync(file.uri, {
+      mimeType: options.format === "csv" ? "text/csv" : "application/json",
+      dialogTitle: fileName,
+    })
+    return createSuccessResult()
+  } catch (error) {
+    return createErrorResult("LedgerFile", "shareLedgerFile", error)
+  }
+}
@@ -0,0 +1,125 @@
+const mockSecureStore = new Map<string, string>()
+jest.mock("expo-secure-store", () => ({
+  setItemAsync: jest.fn(async (key: string, value: string) => {
+    mockSecureStore.set(key, value)
+  }),
+  getItemAsync: jest.fn(async (key: string) => mockSecureStore.get(key) ?? null),
+  deleteItemAsync: jest.fn(async (key: string) => {
+    mockSecureStore.delete(key)
+  }),
+}))
+
+import { clear, getItem } from "./storage"
+import {
+  DEFAULT_LEDGER_ID,
+  createLedger,
+  getActiveLedgerId,
+  ledgerScopedKey,
+  loadLedgers,
+  renameLedger,
+  setActiveLedger,
+} from "./ledgers"
+import { loadAllExpensesFromStorage, persistExpensesAdded } from "./expense-storage"
+import { loadDirtyDays, markDirtyDay } from "./expense-dirty-days"
+import { loadRemoteSHACache, saveRemoteSHACache } from "./remote-sha-cache"
+import { getSyncOpsSince, enqueueSyncOp } from "./sync-queue"
+import { loadSyncConfig, saveSyncConfig } from "./sync-config"
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from "./settings-manager"
+import type { Expense } from "../types/expense"
+
+function createExpense(id: string): Expense {
+  return {
+    id,
+    amount: 100,
+    currency: "INR",
+    category: "Food",
+    date: "2026-04-11",
+    note: `Expense ${id}`,
+    createdAt: "2026-04-11T10:00:00.000Z",
+    updatedAt: "2026-04-11T10:00:00.000Z",
+  }
+}
+
+describe("ledgers", () => {
+  beforeEach(async () => {
+    mockSecureStore.clear()
+    await clear()
+  })
+
+  it("starts with the default ledger, which keeps the existing keys", async () => {
+    expect(loadLedgers().ledgers.map((ledger) => ledger.id)).toEqual([DEFAULT_LEDGER_ID])
+    expect(getActiveLedgerId()).toBe(DEFAULT_LEDGER_ID)
+    expect(ledgerScopedKey("remote_sha_cache")).toBe("remote_sha_cache")
+
+    await persistExpensesAdded([createExpense("lunch")])
+    expect(JSON.parse((await getItem("expenses:index:v1"))!)).toEqual(["lunch"])
+  })
+
+  it("keeps expenses, dirty days, caches, the queue and sync config apart per ledger", async () => {
+    await persistExpensesAdded([createExpense("personal")])
+    await markDirtyDay("2026-04-11")
+    await saveRemoteSHACache({ "expenses-2026-04-11.csv": "sha-personal" })
+    await enqueueSyncOp({ type: "category.delete", label: "Food" })
+    await saveSyncConfig({ token: "ghp_me", repo: "me/personal", branch: "main" })
+
+    const household = await createLedger("  Household ")
+    expect(household.name).toBe("Household")
+    await setActiveLedger(household.id)
+
+    expect(getActiveLedgerId()).toBe(household.id)
+    expect((await loadAllExpensesFromStorage()).expenses).toEqual([])
+    expect((await loadDirtyDays()).state.dirtyDays).toEqual([])
+    expect(await loadRemoteSHACache()).toEqual({})
+    expect(await getSyncOpsSince(0)).toEqual([])
+    expect(await loadSyncConfig()).toBeNull()
+
+    await persistExpensesAdded([createExpense("groceries")])
+    await saveSyncConfig({ token: "ghp_home", repo: "us/household", branch: "main" })
+
+    await setActiveLedger(DEFAULT_LEDGER_ID)
+    expect(
+      (await loadAllExpensesFromStorage()).expenses.map((expense) => expense.id)
+    ).toEqual(["personal"])
+    expect((await loadDirtyDays()).state.dirtyDays).toEqual(["2026-04-11"])
+    expect(await getSyncOpsSince(0)).toHaveLength(1)
+    expect((await loadSyncConfig())?.repo).toBe("me/personal")
+
+    await setActiveLedger(household.id)
+    expect(
+      (await loadAllExpensesFromStorage()).expenses.map((expense) => expense.id)
+    ).toEqual(["groceries"])
+    expect((await loadSyncConfig())?.repo).toBe("us/household")
+  })
+
+  it("shares device preferences between ledgers and keeps ledger settings apart", async () => {
+    await saveSettings({ ...DEFAULT_SETTINGS, theme: "dark", defaultCurrency: "EUR" })
+
+    const household = await createLedger("Household")
+    await setActiveLedger(household.id)
+    const householdSettings = await loadSettings()
+    expect(householdSettings.theme).toBe("dark")
+    await saveSettings({
+      ...householdSettings,
+      defaultCurrency: "USD",
+      backgroundSmsImportEnabled: true,
+    })
+
+    await setActiveLedger(DEFAULT_LEDGER_ID)
+    expect(await loadSettings()).toMatchObject({
+      theme: "dark",
+      backgroundSmsImportEnabled: true,
+      defaultCurrency: "EUR",
+    })
+  })
+
+  it("renames ledgers and refuses to activate unknown ones", async () => {
+    const ledger = await createLedger("Trip")
+    await renameLedger(ledger.id, "Japan trip")
+
+    expect(loadLedgers().ledgers.find((entry) => entry.id === ledger.id)?.name).toBe(
+      "Japan trip"
+    )
+    await expect(setActiveLedger("missing")).rejects.toThrow("Unknown ledger")
+    expect(getActiveLedgerId()).toBe(DEFAULT_LEDGER_ID)
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Ledger profiles
+ *
+ * A ledger is an independent set of expenses with its own categories,
+ * payment instruments, settings and sync configuration (repository and
+ * branch). Everything a ledger owns is stored under keys passed through
+ * `ledgerScopedKey`, so only the active ledger's data is loaded. The default
+ * ledger uses the unprefixed keys the app has always used, so existing data
+ * needs no migration.
+ */
+
+import { getItemSync, setItem } from "./storage"
+import { randomBytes } from "../utils/crypto"
+
+const LEDGERS_KEY = "ledgers_v1"
+
+export const DEFAULT_LEDGER_ID = "default"
+
+/** Bytes of randomness in a ledger ID (12 hex characters) */
+const LEDGER_ID_BYTES = 6
+
+export interface Ledger {
+  id: string
+  /** Name chosen by the user; empty for the default ledger until renamed */
+  name: string
+  createdAt: string
+}
+
+export interface LedgerRegistry {
+  activeId: string
+  ledgers: Ledger[]
+}
+
+const DEFAULT_REGISTRY: LedgerRegistry = {
+  activeId: DEFAULT_LEDGER_ID,
+  ledgers: [{ id: DEFAULT_LEDGER_ID, name: "", createdAt: new Date(0).toISOString() }],
+}
+
+let cached: { raw: string | null; registry: LedgerRegistry } | null = null
+
+function parseRegistry(raw: string | null): LedgerRegistry {
+  if (!raw) return DEFAULT_REGISTRY
+  try {
+    const parsed = JSON.parse(raw) as Partial<LedgerRegistry>
+    const ledgers = Array.isArray(parsed.ledgers)
+      ? parsed.ledgers.filter(
+          (ledger): ledger is Ledger =>
+            Boolean(ledger) &&
+            typeof ledger.id === "string" &&
+            typeof ledger.name === "string"
+        )
+      : []
+    if (!ledgers.some((ledger) => ledger.id === DEFAULT_LEDGER_ID)) {
+      ledgers.unshift(DEFAULT_REGISTRY.ledgers[0])
+    }
+    const activeId = ledgers.some((ledger) => ledger.id === parsed.activeId)
+      ? (parsed.activeId as string)
+      : DEFAULT_LEDGER_ID
+    return { activeId, ledgers }
+  } catch {
+    console.warn("Ledger registry is corrupted, falling back to the default ledger")
+    return DEFAULT_REGISTRY
+  }
+}
+
+/**
+ * Ledgers on this device and which one is active. Read synchronously so
+ * storage keys can be scoped without awaiting.
+ */
+export function loadLedgers(): LedgerRegistry {
+  const raw = getItemSync(LEDGERS_KEY)
+  if (cached?.raw !== raw) {
+    cached = { raw, registry: parseRegistry(raw) }
+  }
+  return cached.registry
+}
+
+async function saveLedgers(registry: LedgerRegistry): Promise<void> {
+  await setItem(LEDGERS_KEY, JSON.stringify(registry))
+}
+
+export function getActiveLedgerId(): string {
+  return loadLedgers().activeId
+}
+
+/**
+ * Storage key for data owned by a ledger. The default ledger keeps the
+ * plain key; other ledgers prefix it with their ID.
+ *
+ * The result only uses characters secure storage accepts, as long as the
+ * key itself does.
+ */
+export function ledgerScopedKey(key: string, ledgerId = getActiveLedgerId()): string {
+  return ledgerId === DEFAULT_LEDGER_ID ? key : `ledger.${ledgerId}.${key}`
+}
+
+/**
+ * Add a ledger. It is not made active; call `setActiveLedger` to switch.
+ */
+export async function createLedger(name: string): Promise<Ledger> {
+  const registry = loadLedgers()
+  const ledger: Ledger = {
+    id: Array.from(randomBytes(LEDGER_ID_BYTES), (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join(""),
+    name: name.trim(),
+    createdAt: new Date().toISOString(),
+  }
+  await saveLedgers({ ...registry, ledgers: [...registry.ledgers, ledger] })
+  return ledger
+}
+
+export async function renameLedger(id: string, name: string): Promise<void> {
+  const registry = loadLedgers()
+  await saveLedgers({
+    ...registry,
+    ledgers: registry.ledgers.map((ledger) =>
+      ledger.id === id ? { ...ledger, name: name.trim() } : ledger
+    ),
+  })
+}
+
+/**
+ * Make a ledger active. Stores holding the previous ledger's data must be
+ * reloaded afterwards.
+ */
+export async function setActiveLedger(id: string): Promise<void> {
+  const registry = loadLedgers()
+  if (!registry.ledgers.some((ledger) => ledger.id === id)) {
+    throw new Error(`Unknown ledger: ${id}`)
+  }
+  await saveLedgers({ ...registry, activeId: id })
+}
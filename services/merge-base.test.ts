@@ -0,0 +1,38 @@
+import { clear, setItem } from "./storage"
+import { clearMergeBase, loadMergeBase, saveMergeBase } from "./merge-base"
+import type { Expense } from "../types/expense"
+
+const expense: Expense = {
+  id: "e1",
+  amount: 120,
+  category: "Food",
+  date: "2024-01-01",
+  note: "Lunch",
+  createdAt: "2024-01-01T12:00:00.000Z",
+  updatedAt: "2024-01-01T12:00:00.000Z",
+}
+
+describe("merge base", () => {
+  beforeEach(async () => {
+    await clear()
+  })
+
+  it("round-trips the last-synced expenses keyed by id", async () => {
+    await saveMergeBase([expense, { ...expense, id: "e2", deletedAt: expense.updatedAt }])
+
+    const base = await loadMergeBase()
+    expect([...base.keys()]).toEqual(["e1", "e2"])
+    expect(base.get("e1")).toEqual(expense)
+  })
+
+  it("starts empty when missing, corrupted or cleared", async () => {
+    await expect(loadMergeBase()).resolves.toEqual(new Map())
+
+    await setItem("merge_base_snapshot", "{not json")
+    await expect(loadMergeBase()).resolves.toEqual(new Map())
+
+    await saveMergeBase([expense])
+    await clearMergeBase()
+    await expect(loadMergeBase()).resolves.toEqual(new Map())
+  })
+})
@@ -0,0 +1,48 @@
+import { getItem, setItem, removeItem } from "./storage"
+import { parseStoredExpenses } from "./expense-storage"
+import type { Expense } from "../types/expense"
+import { ledgerScopedKey } from "./ledgers"
+
+const MERGE_BASE_KEY = "merge_base_snapshot"
+
+/**
+ * Load the version of each expense as of the last successful sync, keyed by
+ * ID. mergeExpenses uses it as the common ancestor for field-level merges.
+ * Returns an empty map on missing or corrupted data, which falls back to
+ * whole-record merging.
+ */
+export async function loadMergeBase(): Promise<Map<string, Expense>> {
+  try {
+    const stored = await getItem(ledgerScopedKey(MERGE_BASE_KEY))
+    if (stored) {
+      return new Map(
+        parseStoredExpenses(JSON.parse(stored)).map((expense) => [expense.id, expense])
+      )
+    }
+  } catch (error) {
+    console.warn("Failed to load merge base:", error)
+  }
+  return new Map()
+}
+
+/**
+ * Save the expenses both sides agree on after a sync
+ */
+export async function saveMergeBase(expenses: Expense[]): Promise<void> {
+  try {
+    await setItem(ledgerScopedKey(MERGE_BASE_KEY), JSON.stringify(expenses))
+  } catch (error) {
+    console.warn("Failed to save merge base:", error)
+  }
+}
+
+/**
+ * Clear the merge base (when sync points at a different remote)
+ */
+export async function clearMergeBase(): Promise<void> {
+  try {
+    await removeItem(ledgerScopedKey(MERGE_BASE_KEY))
+  } catch (error) {
+    console.warn("Failed to clear merge base:", error)
+  }
+}
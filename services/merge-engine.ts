@@ -6,9 +6,17 @@
  * 2. Conflicts are resolved by timestamp (newer wins)
  * 3. True conflicts (equal timestamps) require user intervention
  * 4. Deletions are handled via soft delete (deletedAt field)
+ *
+ * When the last-synced version of an expense (the merge base) is known, the
+ * two sides are merged field by field against it instead, like a git
+ * three-way merge: edits to different fields are combined, and only a field
+ * changed on both sides falls back to the timestamp rules above.
  */
 
 import { Expense } from "../types/expense"
+import { getTransactionKind } from "../utils/transaction-kind"
+import { TAG_SEPARATOR, getExpenseTags } from "../utils/tags"
+import { ATTACHMENT_SEPARATOR, getExpenseAttachments } from "../utils/attachments"
 
 /**
  * Represents an automatically resolved conflict where timestamps determined the winner
@@ -29,8 +37,25 @@ export interface TrueConflict {
   localVersion: Expense
   remoteVersion: Expense
   reason: "equal_timestamps" | "within_threshold"
+  /** Fields changed differently on both sides, when a merge base was known */
+  fields?: ExpenseMergeField[]
+  /** Last-synced version both sides started from, when known */
+  baseVersion?: Expense
 }
 
+/** Side picked for each field of a conflicting expense */
+export type ConflictFieldChoices = Partial<Record<ExpenseMergeField, "local" | "remote">>
+
+/**
+ * How the user resolved a true conflict: keep one whole version, pick field
+ * by field, or keep both versions as separate expenses.
+ */
+export type ConflictChoice =
+  | "local"
+  | "remote"
+  | "both"
+  | { fields: ConflictFieldChoices }
+
 /**
  * The complete result of merging local and remote expenses
  */
@@ -49,6 +74,8 @@ export interface MergeResult {
   autoResolved: AutoResolvedConflict[]
   /** True conflicts that require user intervention */
   trueConflicts: TrueConflict[]
+  /** Records dropped because they were deleted before the purge watermark */
+  purged: Expense[]
 }
 
 /**
@@ -57,30 +84,96 @@ export interface MergeResult {
 export interface MergeOptions {
   /** Threshold in milliseconds for considering timestamps as "equal" (default: 1000ms) */
   conflictThresholdMs?: number
+  /** Last-synced version of each expense by ID, enabling field-level merges */
+  base?: ReadonlyMap<string, Expense>
+  /**
+   * The repository's "purged before" watermark. Tombstones deleted before it
+   * are dropped, and so are synced records the remote no longer has that
+   * were last changed before it: they were deleted and purged elsewhere.
+   */
+  purgedBefore?: string
 }
 
 /** Default conflict threshold in milliseconds */
 export const DEFAULT_CONFLICT_THRESHOLD_MS = 1000
 
+/**
+ * Unit of a field-level merge. The amount moves together with its currency
+ * and conversion, since one is meaningless without the others.
+ */
+export type ExpenseMergeField =
+  | "amount"
+  | "kind"
+  | "category"
+  | "date"
+  | "note"
+  | "tags"
+  | "attachments"
+  | "paymentMethod"
+  | "recurringTemplateId"
+  | "deletedAt"
+
+interface MergeFieldSpec {
+  field: ExpenseMergeField
+  /** Properties copied when this field is taken from one side */
+  keys: (keyof Expense)[]
+  /** Values compared to decide whether the field differs */
+  values: (expense: Expense) => unknown[]
+}
+
+const MERGE_FIELDS: MergeFieldSpec[] = [
+  {
+    field: "amount",
+    keys: ["amount", "currency", "convertedAmount", "convertedCurrency"],
+    values: (e) => [e.amount, e.currency, e.convertedAmount, e.convertedCurrency],
+  },
+  { field: "kind", keys: ["kind"], values: (e) => [getTransactionKind(e)] },
+  { field: "category", keys: ["category"], values: (e) => [e.category] },
+  { field: "date", keys: ["date"], values: (e) => [e.date] },
+  { field: "note", keys: ["note"], values: (e) => [e.note] },
+  {
+    field: "tags",
+    keys: ["tags"],
+    values: (e) => [getExpenseTags(e).join(TAG_SEPARATOR)],
+  },
+  {
+    field: "attachments",
+    keys: ["attachments"],
+    values: (e) => [getExpenseAttachments(e).join(ATTACHMENT_SEPARATOR)],
+  },
+  {
+    field: "paymentMethod",
+    keys: ["paymentMethod"],
+    values: (e) => [e.paymentMethod?.type, e.paymentMethod?.identifier],
+  },
+  {
+    field: "recurringTemplateId",
+    keys: ["recurringTemplateId"],
+    values: (e) => [e.recurringTemplateId],
+  },
+  { field: "deletedAt", keys: ["deletedAt"], values: (e) => [e.deletedAt] },
+]
+
+function fieldIsEqual(spec: MergeFieldSpec, a: Expense, b: Expense): boolean {
+  const bValues = spec.values(b)
+  return spec.values(a).every((value, index) => value === bValues[index])
+}
+
+/**
+ * Fields whose values differ between two versions of an expense
+ */
+export function getDifferingFields(a: Expense, b: Expense): ExpenseMergeField[] {
+  return MERGE_FIELDS.filter((spec) => !fieldIsEqual(spec, a, b)).map(
+    (spec) => spec.field
+  )
+}
+
 /**
  * Check if two expenses have identical content (excluding timestamps for comparison purposes)
  * Includes deletedAt in the comparison since soft delete state is part of content
  */
 function expensesAreIdentical(a: Expense, b: Expense): boolean {
-  // Cast to access optional deletedAt field (will be added in Task 2)
-  const aDeleted = (a as Expense & { deletedAt?: string }).deletedAt
-  const bDeleted = (b as Expense & { deletedAt?: string }).deletedAt
-
-  return (
-    a.amount === b.amount &&
-    a.currency === b.currency &&
-    a.category === b.category &&
-    a.date === b.date &&
-    a.note === b.note &&
-    a.paymentMethod?.type === b.paymentMethod?.type &&
-    a.paymentMethod?.identifier === b.paymentMethod?.identifier &&
-    aDeleted === bDeleted
-  )
+  return MERGE_FIELDS.every((spec) => fieldIsEqual(spec, a, b))
 }
 
 /**
@@ -97,6 +190,14 @@ function expensesAreIdentical(a: Expense, b: Expense): boolean {
  * - They participate in merge and conflict resolution like normal expenses
  * - The newer version wins, including soft-delete state changes
  *
+ * Tombstone purging:
+ * - With a `purgedBefore` watermark, records deleted before it leave the result
+ * - A local-only record that was synced before (it is in the base) and last
+ *   changed before the watermark is dropped rather than pushed back. Without
+ *   a base (first sync after an upgrade or a reset) every local-only record
+ *   last changed before the watermark is taken to have been synced and purged
+ * - Recurring occurrences are kept either way, see `isPurgedTombstone`
+ *
  * @param local - Array of local expenses (including soft-deleted)
  * @param remote - Array of remote expenses (including soft-deleted)
  * @param options - Optional merge configuration
@@ -107,7 +208,14 @@ export function mergeExpenses(
   remote: Expense[],
   options: MergeOptions = {}
 ): MergeResult {
-  const { conflictThresholdMs = DEFAULT_CONFLICT_THRESHOLD_MS } = options
+  const {
+    conflictThresholdMs = DEFAULT_CONFLICT_THRESHOLD_MS,
+    base,
+    purgedBefore,
+  } = options
+
+  // An empty base means it was never saved or has been cleared
+  const hasBase = base !== undefined && base.size > 0
 
   // Create maps for O(1) lookup by ID
   const localMap = new Map(local.map((e) => [e.id, e]))
@@ -121,6 +229,7 @@ export function mergeExpenses(
   const updatedFromLocal: Expense[] = []
   const autoResolved: AutoResolvedConflict[] = []
   const trueConflicts: TrueConflict[] = []
+  const purged: Expense[] = []
 
   // Get all unique IDs from both sets
   const allIds = new Set([...localMap.keys(), ...remoteMap.keys()])
@@ -134,6 +243,7 @@ export function mergeExpenses(
       handleBothExist(
         localItem,
         remoteItem,
+        base?.get(id),
         conflictThresholdMs,
         merged,
         updatedFromRemote,
@@ -143,6 +253,16 @@ export function mergeExpenses(
       )
     } else if (localItem) {
       // Case: Expense only exists locally
+      if (
+        purgedBefore &&
+        (!hasBase || base.has(id)) &&
+        !localItem.recurringTemplateId &&
+        new Date(localItem.updatedAt).getTime() < new Date(purgedBefore).getTime()
+      ) {
+        // Synced before and gone from the remote: purged by another device
+        purged.push(localItem)
+        continue
+      }
       handleLocalOnly(localItem, merged, addedFromLocal)
     } else if (remoteItem) {
       // Case: Expense only exists remotely
@@ -153,7 +273,7 @@ export function mergeExpenses(
   // Sort merged expenses by creation date (newest first)
   merged.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
 
-  return {
+  const result = {
     merged,
     addedFromRemote,
     updatedFromRemote,
@@ -161,6 +281,38 @@ export function mergeExpenses(
     updatedFromLocal,
     autoResolved,
     trueConflicts,
+    purged,
+  }
+  return purgedBefore ? dropPurgedTombstones(result, purgedBefore) : result
+}
+
+/**
+ * Whether an expense is a tombstone deleted before the purge watermark.
+ *
+ * Recurring occurrences are never purged: their IDs are derived from the
+ * template and day, so without the tombstone the next materialization would
+ * create the deleted occurrence again.
+ */
+export function isPurgedTombstone(expense: Expense, purgedBefore: string): boolean {
+  if (!expense.deletedAt || expense.recurringTemplateId) {
+    return false
+  }
+  return new Date(expense.deletedAt).getTime() < new Date(purgedBefore).getTime()
+}
+
+/**
+ * Move tombstones deleted before the watermark out of a merge result
+ */
+function dropPurgedTombstones(result: MergeResult, purgedBefore: string): MergeResult {
+  const isKept = (expense: Expense) => !isPurgedTombstone(expense, purgedBefore)
+  return {
+    ...result,
+    merged: result.merged.filter(isKept),
+    addedFromRemote: result.addedFromRemote.filter(isKept),
+    updatedFromRemote: result.updatedFromRemote.filter(isKept),
+    addedFromLocal: result.addedFromLocal.filter(isKept),
+    updatedFromLocal: result.updatedFromLocal.filter(isKept),
+    purged: [...result.purged, ...result.merged.filter((e) => !isKept(e))],
   }
 }
 
@@ -170,6 +322,7 @@ export function mergeExpenses(
 function handleBothExist(
   localItem: Expense,
   remoteItem: Expense,
+  baseItem: Expense | undefined,
   conflictThresholdMs: number,
   merged: Expense[],
   updatedFromRemote: Expense[],
@@ -186,6 +339,21 @@ function handleBothExist(
     return
   }
 
+  if (baseItem) {
+    mergeFields(
+      localItem,
+      remoteItem,
+      baseItem,
+      conflictThresholdMs,
+      merged,
+      updatedFromRemote,
+      updatedFromLocal,
+      autoResolved,
+      trueConflicts
+    )
+    return
+  }
+
   // Content differs - need to resolve conflict
   resolveConflict(
     localItem,
@@ -288,21 +456,193 @@ function resolveConflict(
   }
 }
 
+/**
+ * Three-way merge of an expense changed on both sides since the last sync.
+ *
+ * Each field is taken from the side that changed it. A field changed to
+ * different values on both sides is decided by the newer timestamp, or
+ * becomes a true conflict when the timestamps are within the threshold.
+ */
+function mergeFields(
+  localItem: Expense,
+  remoteItem: Expense,
+  baseItem: Expense,
+  conflictThresholdMs: number,
+  merged: Expense[],
+  updatedFromRemote: Expense[],
+  updatedFromLocal: Expense[],
+  autoResolved: AutoResolvedConflict[],
+  trueConflicts: TrueConflict[]
+): void {
+  const localTime = new Date(localItem.updatedAt).getTime()
+  const remoteTime = new Date(remoteItem.updatedAt).getTime()
+  const timeDiff = Math.abs(localTime - remoteTime)
+
+  const conflicting = MERGE_FIELDS.filter(
+    (spec) =>
+      !fieldIsEqual(spec, localItem, baseItem) &&
+      !fieldIsEqual(spec, remoteItem, baseItem) &&
+      !fieldIsEqual(spec, localItem, remoteItem)
+  )
+
+  if (conflicting.length > 0 && timeDiff <= conflictThresholdMs) {
+    trueConflicts.push({
+      expenseId: localItem.id,
+      localVersion: localItem,
+      remoteVersion: remoteItem,
+      reason: timeDiff === 0 ? "equal_timestamps" : "within_threshold",
+      fields: conflicting.map((spec) => spec.field),
+      baseVersion: baseItem,
+    })
+    return
+  }
+
+  const newer = remoteTime > localTime ? remoteItem : localItem
+  const result = combineFields(localItem, remoteItem, baseItem, (spec) =>
+    conflicting.includes(spec)
+      ? newer
+      : fieldIsEqual(spec, localItem, baseItem)
+        ? remoteItem
+        : localItem
+  )
+
+  if (conflicting.length > 0) {
+    autoResolved.push({
+      expenseId: localItem.id,
+      winner: newer === remoteItem ? "remote" : "local",
+      localVersion: localItem,
+      remoteVersion: remoteItem,
+      reason: "newer_timestamp",
+    })
+  }
+
+  pushCombined(result, localItem, remoteItem, merged, updatedFromRemote, updatedFromLocal)
+}
+
+function setOptional<K extends keyof Expense>(
+  expense: Expense,
+  key: K,
+  value: Expense[K] | undefined
+): void {
+  if (value === undefined) {
+    delete expense[key]
+  } else {
+    expense[key] = value
+  }
+}
+
+/**
+ * Build an expense from local and remote versions, taking each field from
+ * the version `pick` returns. The edit time comes from the newer version.
+ * The edit is credited to the device whose fields won, or to the newer
+ * version when both contributed; the creator is kept from the base.
+ */
+function combineFields(
+  localItem: Expense,
+  remoteItem: Expense,
+  baseItem: Expense | undefined,
+  pick: (spec: MergeFieldSpec) => Expense
+): Expense {
+  const newer =
+    new Date(remoteItem.updatedAt).getTime() > new Date(localItem.updatedAt).getTime()
+      ? remoteItem
+      : localItem
+  const result: Expense = { ...localItem, updatedAt: newer.updatedAt }
+  const winners = new Set<Expense>()
+  for (const spec of MERGE_FIELDS) {
+    const source = pick(spec)
+    if (!fieldIsEqual(spec, localItem, remoteItem)) {
+      winners.add(source)
+    }
+    for (const key of spec.keys) {
+      setOptional(result, key, source[key])
+    }
+  }
+
+  const editor = winners.size === 1 ? [...winners][0] : newer
+  setOptional(result, "updatedBy", editor.updatedBy)
+  setOptional(
+    result,
+    "createdBy",
+    baseItem ? baseItem.createdBy : (localItem.createdBy ?? remoteItem.createdBy)
+  )
+  return result
+}
+
+/**
+ * Record a combined expense, reusing whichever side it turned out to equal
+ */
+function pushCombined(
+  result: Expense,
+  localItem: Expense,
+  remoteItem: Expense,
+  merged: Expense[],
+  updatedFromRemote: Expense[],
+  updatedFromLocal: Expense[]
+): void {
+  if (expensesAreIdentical(result, remoteItem)) {
+    merged.push(remoteItem)
+    updatedFromRemote.push(remoteItem)
+  } else if (expensesAreIdentical(result, localItem)) {
+    merged.push(localItem)
+    updatedFromLocal.push(localItem)
+  } else {
+    // Edits from both sides: this device takes the remote ones and the
+    // remote receives the local ones
+    merged.push(result)
+    updatedFromRemote.push(result)
+    updatedFromLocal.push(result)
+  }
+}
+
+/**
+ * Build the expense a field-by-field resolution describes. Fields without a
+ * choice come from the side that changed them since the merge base, or from
+ * the local version when there is no base.
+ */
+export function resolveConflictFields(
+  conflict: TrueConflict,
+  choices: ConflictFieldChoices
+): Expense {
+  const { localVersion, remoteVersion, baseVersion } = conflict
+  return combineFields(localVersion, remoteVersion, baseVersion, (spec) => {
+    const choice = choices[spec.field]
+    if (choice) {
+      return choice === "local" ? localVersion : remoteVersion
+    }
+    return baseVersion && fieldIsEqual(spec, localVersion, baseVersion)
+      ? remoteVersion
+      : localVersion
+  })
+}
+
+/** ID for the local copy when both versions of a conflict are kept */
+function generateConflictCopyId(): string {
+  return `${Date.now()}_${Math.random().toString(16).slice(2)}`
+}
+
 /**
  * Apply conflict resolutions to a merge result.
  * This is called after the user has resolved true conflicts.
  *
+ * Keeping both versions leaves the remote one under the original ID and
+ * adds the local one as a new expense, so other devices only receive an
+ * addition.
+ *
  * @param mergeResult - The original merge result with unresolved conflicts
- * @param resolutions - Map of expense ID to chosen version ("local" or "remote")
+ * @param resolutions - Map of expense ID to the user's choice
+ * @param createId - ID generator for copies made by "both"
  * @returns Updated merge result with conflicts resolved
  */
 export function applyConflictResolutions(
   mergeResult: MergeResult,
-  resolutions: Map<string, "local" | "remote">
+  resolutions: Map<string, ConflictChoice>,
+  createId: () => string = generateConflictCopyId
 ): MergeResult {
   const updatedMerged = [...mergeResult.merged]
   const updatedFromRemote = [...mergeResult.updatedFromRemote]
   const updatedFromLocal = [...mergeResult.updatedFromLocal]
+  const addedFromLocal = [...mergeResult.addedFromLocal]
   const remainingConflicts: TrueConflict[] = []
 
   for (const conflict of mergeResult.trueConflicts) {
@@ -317,9 +657,25 @@ export function applyConflictResolutions(
     if (choice === "local") {
       updatedMerged.push(conflict.localVersion)
       updatedFromLocal.push(conflict.localVersion)
-    } else {
+    } else if (choice === "remote") {
       updatedMerged.push(conflict.remoteVersion)
       updatedFromRemote.push(conflict.remoteVersion)
+    } else if (choice === "both") {
+      // The copy is a one-off expense, not another occurrence of a template
+      const copy: Expense = { ...conflict.localVersion, id: createId() }
+      delete copy.recurringTemplateId
+      updatedMerged.push(conflict.remoteVersion, copy)
+      updatedFromRemote.push(conflict.remoteVersion)
+      addedFromLocal.push(copy)
+    } else {
+      pushCombined(
+        resolveConflictFields(conflict, choice.fields),
+        conflict.localVersion,
+        conflict.remoteVersion,
+        updatedMerged,
+        updatedFromRemote,
+        updatedFromLocal
+      )
     }
   }
 
@@ -332,6 +688,7 @@ export function applyConflictResolutions(
     ...mergeResult,
     merged: updatedMerged,
     updatedFromRemote,
+    addedFromLocal,
     updatedFromLocal,
     trueConflicts: remainingConflicts,
   }
@@ -0,0 +1,125 @@
+const mockBlobs: Record<string, string> = {}
+const mockTrees: Record<string, { path: string; sha: string }[]> = {}
+const mockDownloadBlob = jest.fn(async (_path: string, sha: string) =>
+  mockBlobs[sha] !== undefined ? { content: mockBlobs[sha], sha } : null
+)
+jest.mock("./sync-backends/sync-backend", () => ({
+  createSyncBackend: () => ({
+    kind: "github",
+    history: {
+      getTreeAt: async (ref: string) =>
+        mockTrees[ref]
+          ? { success: true, entries: mockTrees[ref] }
+          : { success: false, error: "Commit not found" },
+      downloadBlob: mockDownloadBlob,
+    },
+  }),
+}))
+
+import {
+  findCommitAtDate,
+  loadExpensesAtCommit,
+  planPointInTimeRestore,
+} from "./point-in-time-restore"
+import { exportToCSV } from "./csv-handler"
+import type { Expense } from "../types/expense"
+import type { SyncConfig } from "../types/sync"
+
+const config: SyncConfig = { token: "ghp_token", repo: "me/expenses", branch: "main" }
+const NOW = "2024-02-01T00:00:00.000Z"
+
+const lunch: Expense = {
+  id: "lunch",
+  amount: 120,
+  category: "Food",
+  date: "2024-01-01T12:00:00.000Z",
+  note: "Lunch",
+  createdAt: "2024-01-01T12:00:00.000Z",
+  updatedAt: "2024-01-01T12:00:00.000Z",
+}
+const taxi: Expense = {
+  ...lunch,
+  id: "taxi",
+  category: "Transport",
+  date: "2024-01-02T09:00:00.000Z",
+  note: "Taxi",
+}
+
+describe("point-in-time restore", () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    for (const record of [mockBlobs, mockTrees]) {
+      for (const key of Object.keys(record)) {
+        delete record[key]
+      }
+    }
+  })
+
+  it("reads day files of a commit by blob SHA, optionally for one day", async () => {
+    mockBlobs.b1 = exportToCSV([lunch])
+    mockBlobs.b2 = exportToCSV([taxi])
+    mockTrees.c1 = [
+      { path: "expenses-2024-01-01.csv", sha: "b1" },
+      { path: "expenses-2024-01-02.csv", sha: "b2" },
+      { path: "settings.json", sha: "s1" },
+    ]
+
+    const all = await loadExpensesAtCommit(config, "c1")
+    expect(all.data?.map((expense) => expense.id).sort()).toEqual(["lunch", "taxi"])
+    expect(mockDownloadBlob).toHaveBeenCalledTimes(2)
+
+    const day = await loadExpensesAtCommit(config, "c1", "2024-01-02")
+    expect(day.data?.map((expense) => expense.id)).toEqual(["taxi"])
+
+    await expect(loadExpensesAtCommit(config, "missing")).resolves.toEqual({
+      success: false,
+      error: "Commit not found",
+    })
+  })
+
+  it("reverts edits, brings back deleted records and removes later ones", () => {
+    const local: Expense[] = [
+      { ...lunch, amount: 200, updatedAt: "2024-01-10T00:00:00.000Z" },
+      { ...taxi, deletedAt: "2024-01-11T00:00:00.000Z" },
+      { ...lunch, id: "coffee", note: "Coffee", createdAt: "2024-01-12T00:00:00.000Z" },
+    ]
+
+    const plan = planPointInTimeRestore(local, [lunch, taxi], undefined, NOW)
+
+    const byId = new Map(plan.expenses.map((expense) => [expense.id, expense]))
+    expect(byId.get("lunch")).toMatchObject({ amount: 120, updatedAt: NOW })
+    expect(byId.get("taxi")?.deletedAt).toBeUndefined()
+    expect(byId.get("coffee")?.deletedAt).toBe(NOW)
+    expect(plan.restored.map((expense) => expense.id).sort()).toEqual(["lunch", "taxi"])
+    expect(plan.removed.map((expense) => expense.id)).toEqual(["coffee"])
+  })
+
+  it("leaves other days and unchanged records alone when restoring one day", () => {
+    const edited = { ...taxi, amount: 999, updatedAt: "2024-01-10T00:00:00.000Z" }
+
+    const plan = planPointInTimeRestore([lunch, edited], [lunch], "2024-01-01", NOW)
+
+    expect(plan.restored).toEqual([])
+    expect(plan.removed).toEqual([])
+    expect(plan.expenses.find((expense) => expense.id === "taxi")).toEqual(edited)
+    expect(plan.expenses.find((expense) => expense.id === "lunch")).toEqual(lunch)
+  })
+
+  it("finds the latest commit on or before a day", () => {
+    const entry = (sha: string, timestamp: string) => ({
+      sha,
+      summary: "Sync",
+      timestamp,
+      days: [],
+      settingsChanged: false,
+    })
+    const entries = [
+      entry("c3", "2024-01-05T10:00:00.000Z"),
+      entry("c2", "2024-01-03T18:00:00.000Z"),
+      entry("c1", "2024-01-03T08:00:00.000Z"),
+    ]
+
+    expect(findCommitAtDate(entries, "2024-01-04")?.sha).toBe("c2")
+    expect(findCommitAtDate(entries, "2024-01-02")).toBeUndefined()
+  })
+})
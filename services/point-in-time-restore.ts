@@ -0,0 +1,182 @@
+/**
+ * Point-in-time restore from the sync history
+ *
+ * Reads the day files of a past commit by blob SHA and brings the ledger, or
+ * a single day, back to that state. Restored records are merged in as the
+ * newer side and pushed by the next sync as a new commit, so the history is
+ * never rewritten.
+ */
+
+import i18next from "i18next"
+import { openSyncBackend } from "./sync-encryption"
+import { parseExpenseFilename } from "./daily-file-manager"
+import { importFromCSV } from "./csv-handler"
+import {
+  applyConflictResolutions,
+  getDifferingFields,
+  mergeExpenses,
+  type ConflictChoice,
+} from "./merge-engine"
+import { SyncEncryptionError } from "./sync-backends/encrypted-backend"
+import { createErrorResult, createSuccessResult } from "./error-utils"
+import { pMap } from "./retry"
+import { getLocalDayKey } from "../utils/date"
+import type { SyncHistoryEntry } from "./sync-history"
+import type { Expense } from "../types/expense"
+import type { ServiceResult } from "../types/service-result"
+import type { SyncConfig } from "../types/sync"
+
+/** Result of planning a restore against the local ledger */
+export interface PointInTimeRestorePlan {
+  /** The full ledger after the restore */
+  expenses: Expense[]
+  /** Records brought back or reverted to their past version */
+  restored: Expense[]
+  /** Records created after the restore point, now soft-deleted */
+  removed: Expense[]
+}
+
+/**
+ * Whether an expense falls in a restore scope: a day (YYYY-MM-DD) or a
+ * month (YYYY-MM) key, or the whole ledger when there is none
+ */
+function isInScope(expense: Expense, scopeKey?: string): boolean {
+  return scopeKey === undefined || getLocalDayKey(expense.date).startsWith(scopeKey)
+}
+
+/**
+ * Expenses as of a commit, read from its expense files in either layout.
+ * Pass a day or month key to read only that part of the ledger.
+ */
+export async function loadExpensesAtCommit(
+  config: SyncConfig,
+  commitSha: string,
+  scopeKey?: string
+): Promise<ServiceResult<Expense[]>> {
+  try {
+    const history = (await openSyncBackend(config)).history
+    if (!history) {
+      return {
+        success: false,
+        error:
+          i18next.t("syncHistory.errors.unsupported") ??
+          "This sync backend does not keep a commit history",
+      }
+    }
+
+    const tree = await history.getTreeAt(commitSha)
+    if (!tree.success) {
+      return { success: false, error: tree.error }
+    }
+
+    // A day sits in a month file, and a month spans many day files
+    const expenseFiles = tree.entries.filter((entry) => {
+      const fileKey = parseExpenseFilename(entry.path)?.fileKey
+      return (
+        fileKey !== undefined &&
+        (scopeKey === undefined ||
+          fileKey.startsWith(scopeKey) ||
+          scopeKey.startsWith(fileKey))
+      )
+    })
+    const files = await pMap(
+      expenseFiles,
+      async (entry) => {
+        const file = await history.downloadBlob(entry.path, entry.sha)
+        return file ? importFromCSV(file.content) : []
+      },
+      3
+    )
+
+    return createSuccessResult(
+      files.flat().filter((expense) => isInScope(expense, scopeKey))
+    )
+  } catch (error) {
+    if (error instanceof SyncEncryptionError) {
+      return { success: false, error: error.message }
+    }
+    return createErrorResult("PointInTimeRestore", "loadExpensesAtCommit", error)
+  }
+}
+
+/**
+ * Work out the ledger after restoring a snapshot. Snapshot records that
+ * differ from the local copy are stamped with `now` and merged as the newer
+ * side; local records in scope that the snapshot does not have are
+ * soft-deleted the same way. With a day or month key, only records dated
+ * then are in scope.
+ */
+export function planPointInTimeRestore(
+  local: Expense[],
+  snapshot: Expense[],
+  scopeKey?: string,
+  now: string = new Date().toISOString()
+): PointInTimeRestorePlan {
+  const localMap = new Map(local.map((expense) => [expense.id, expense]))
+  const snapshotIds = new Set(snapshot.map((expense) => expense.id))
+
+  const restoredSide: Expense[] = []
+  for (const record of snapshot) {
+    const current = localMap.get(record.id)
+    if (!current || getDifferingFields(current, record).length > 0) {
+      restoredSide.push({ ...record, updatedAt: now })
+    }
+  }
+  for (const current of local) {
+    if (
+      isInScope(current, scopeKey) &&
+      !snapshotIds.has(current.id) &&
+      !current.deletedAt
+    ) {
+      restoredSide.push({ ...current, deletedAt: now, updatedAt: now })
+    }
+  }
+
+  let result = mergeExpenses(local, restoredSide)
+  if (result.trueConflicts.length > 0) {
+    result = applyConflictResolutions(
+      result,
+      new Map<string, ConflictChoice>(
+        result.trueConflicts.map((conflict) => [conflict.expenseId, "remote"])
+      )
+    )
+  }
+
+  const changed = [...result.addedFromRemote, ...result.updatedFromRemote]
+  return {
+    expenses: result.merged,
+    restored: changed.filter(
+      (expense) => !expense.deletedAt || snapshotIds.has(expense.id)
+    ),
+    removed: changed.filter(
+      (expense) => expense.deletedAt && !snapshotIds.has(expense.id)
+    ),
+  }
+}
+
+/**
+ * Load a commit's expenses and plan restoring them over the local ledger
+ */
+export async function preparePointInTimeRestore(
+  config: SyncConfig,
+  local: Expense[],
+  commitSha: string,
+  scopeKey?: string
+): Promise<ServiceResult<PointInTimeRestorePlan>> {
+  const snapshot = await loadExpensesAtCommit(config, commitSha, scopeKey)
+  if (!snapshot.success || !snapshot.data) {
+    return { success: false, error: snapshot.error }
+  }
+  return createSuccessResult(planPointInTimeRestore(local, snapshot.data, scopeKey))
+}
+
+/**
+ * Latest history entry made on or before the given local day. Entries are
+ * newest first, as loadSyncHistory returns them.
+ */
+export function findCommitAtDate(
+  entries: SyncHistoryEntry[],
+  dayKey: string
+): SyncHistoryEntry | undefined {
+  return entries.find((entry) => getLocalDayKey(entry.timestamp) <= dayKey)
+}
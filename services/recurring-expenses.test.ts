@@ -0,0 +1,262 @@
+import {
+  applyTemplateToExpense,
+  getDueRecurringExpenses,
+  getNextOccurrenceDate,
+  getOccurrenceDates,
+  getRecurringExpenseId,
+  reassignTemplateCategory,
+  validateRecurringTemplateInput,
+} from "./recurring-expenses"
+import type { RecurringExpenseTemplate } from "../types/recurring-expense"
+import type { Expense } from "../types/expense"
+import { getLocalDayKey } from "../utils/date"
+
+function makeTemplate(
+  overrides: Partial<RecurringExpenseTemplate> = {}
+): RecurringExpenseTemplate {
+  return {
+    id: "rent",
+    amount: 15000,
+    currency: "INR",
+    category: "Rent",
+    note: "Flat rent",
+    frequency: "monthly",
+    interval: 1,
+    startDate: new Date(2026, 0, 31).toISOString(),
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  }
+}
+
+function dayKeys(dates: Date[]): string[] {
+  return dates.map((date) => getLocalDayKey(date.toISOString()))
+}
+
+describe("recurring-expenses", () => {
+  describe("getOccurrenceDates", () => {
+    test("monthly occurrences keep the start day without drifting", () => {
+      const dates = getOccurrenceDates(makeTemplate(), new Date(2026, 3, 30))
+      expect(dayKeys(dates)).toEqual([
+        "2026-01-31",
+        "2026-02-28",
+        "2026-03-31",
+        "2026-04-30",
+      ])
+    })
+
+    test("custom intervals step by the chosen unit", () => {
+      const template = makeTemplate({
+        frequency: "custom",
+        interval: 2,
+        customUnit: "week",
+        startDate: new Date(2026, 0, 1).toISOString(),
+      })
+      const dates = getOccurrenceDates(template, new Date(2026, 1, 1))
+      expect(dayKeys(dates)).toEqual(["2026-01-01", "2026-01-15", "2026-01-29"])
+    })
+
+    test("stops at the end date and after the maximum occurrences", () => {
+      const start = new Date(2026, 0, 1).toISOString()
+      const until = new Date(2026, 11, 31)
+
+      const byDate = makeTemplate({
+        frequency: "daily",
+        startDate: start,
+        endDate: new Date(2026, 0, 3).toISOString(),
+      })
+      expect(getOccurrenceDates(byDate, until)).toHaveLength(3)
+
+      const byCount = makeTemplate({
+        frequency: "weekly",
+        startDate: start,
+        maxOccurrences: 4,
+      })
+      expect(getOccurrenceDates(byCount, until)).toHaveLength(4)
+    })
+
+    test("returns nothing before the start date", () => {
+      const template = makeTemplate({ startDate: new Date(2026, 5, 1).toISOString() })
+      expect(getOccurrenceDates(template, new Date(2026, 4, 31))).toEqual([])
+    })
+  })
+
+  describe("getNextOccurrenceDate", () => {
+    test("returns the first occurrence after the given date", () => {
+      const next = getNextOccurrenceDate(makeTemplate(), new Date(2026, 1, 10))
+      expect(next && getLocalDayKey(next.toISOString())).toBe("2026-02-28")
+    })
+
+    test("returns null once the template has ended", () => {
+      const template = makeTemplate({ maxOccurrences: 2 })
+      expect(getNextOccurrenceDate(template, new Date(2026, 5, 1))).toBeNull()
+    })
+  })
+
+  describe("getDueRecurringExpenses", () => {
+    const now = new Date(2026, 2, 31, 12)
+
+    test("materializes each due occurrence with a deterministic id", () => {
+      const due = getDueRecurringExpenses([makeTemplate()], [], now)
+
+      expect(due.map((expense) => expense.id)).toEqual([
+        getRecurringExpenseId("rent", "2026-01-31"),
+        getRecurringExpenseId("rent", "2026-02-28"),
+        getRecurringExpenseId("rent", "2026-03-31"),
+      ])
+      expect(due.every((expense) => expense.recurringTemplateId === "rent")).toBe(true)
+      expect(due[0]).toMatchObject({ amount: 15000, category: "Rent", note: "Flat rent" })
+    })
+
+    test("does not duplicate existing or deleted occurrences", () => {
+      const [first, second] = getDueRecurringExpenses([makeTemplate()], [], now)
+      const existing: Expense[] = [
+        first,
+        { ...second, deletedAt: "2026-03-01T00:00:00.000Z" },
+      ]
+
+      const due = getDueRecurringExpenses([makeTemplate()], existing, now)
+      expect(due.map((expense) => expense.id)).toEqual([
+        getRecurringExpenseId("rent", "2026-03-31"),
+      ])
+    })
+
+    test("generates the same occurrences in every timezone", () => {
+      const template = makeTemplate({ startDate: "2024-04-30" })
+      const now = new Date("2024-07-15T12:00:00.000Z")
+      const originalTimeZone = process.env.TZ
+
+      const idsIn = (timeZone: string) => {
+        process.env.TZ = timeZone
+        return getDueRecurringExpenses([template], [], now).map((expense) => expense.id)
+      }
+
+      try {
+        const expected = ["2024-04-30", "2024-05-30", "2024-06-30"].map((dayKey) =>
+          getRecurringExpenseId("rent", dayKey)
+        )
+        expect(idsIn("Asia/Kolkata")).toEqual(expected)
+        expect(idsIn("America/New_York")).toEqual(expected)
+      } finally {
+        process.env.TZ = originalTimeZone
+      }
+    })
+
+    test("skips deleted templates", () => {
+      const template = makeTemplate({ deletedAt: "2026-02-01T00:00:00.000Z" })
+      expect(getDueRecurringExpenses([template], [], now)).toEqual([])
+    })
+  })
+
+  describe("applyTemplateToExpense", () => {
+    test("copies template values but keeps the occurrence date", () => {
+      const [expense] = getDueRecurringExpenses(
+        [makeTemplate()],
+        [],
+        new Date(2026, 1, 1)
+      )
+      const now = new Date(2026, 0, 31, 9).toISOString()
+      const updated = applyTemplateToExpense(
+        makeTemplate({ amount: 16000, note: "Rent (revised)" }),
+        expense,
+        now
+      )
+
+      expect(updated).toMatchObject({
+        id: expense.id,
+        date: expense.date,
+        amount: 16000,
+        note: "Rent (revised)",
+        updatedAt: now,
+      })
+    })
+
+    test("leaves occurrences before today as they were", () => {
+      const [past, current] = getDueRecurringExpenses(
+        [makeTemplate()],
+        [],
+        new Date(2026, 1, 28)
+      )
+      const template = makeTemplate({ amount: 16000 })
+      const now = new Date(2026, 1, 28, 9).toISOString()
+
+      expect(applyTemplateToExpense(template, past, now)).toBe(past)
+      expect(applyTemplateToExpense(template, current, now).amount).toBe(16000)
+    })
+
+    test("returns the same expense when nothing changed", () => {
+      const [expense] = getDueRecurringExpenses(
+        [makeTemplate()],
+        [],
+        new Date(2026, 1, 1)
+      )
+      expect(applyTemplateToExpense(makeTemplate(), expense)).toBe(expense)
+    })
+  })
+
+  describe("reassignTemplateCategory", () => {
+    test("moves active templates to the new category", () => {
+      const templates = [
+        makeTemplate(),
+        makeTemplate({ id: "old", deletedAt: "2026-02-01T00:00:00.000Z" }),
+        makeTemplate({ id: "gym", category: "Health" }),
+      ]
+
+      const next = reassignTemplateCategory(templates, "Rent", "Housing", "now")
+
+      expect(next?.map((template) => template.category)).toEqual([
+        "Housing",
+        "Rent",
+        "Health",
+      ])
+      expect(next?.[0].updatedAt).toBe("now")
+    })
+
+    test("returns null when no template uses the category", () => {
+      expect(reassignTemplateCategory([makeTemplate()], "Food", "Other")).toBeNull()
+    })
+  })
+
+  describe("validateRecurringTemplateInput", () => {
+    const base = {
+      amount: "499",
+      category: "Entertainment",
+      frequency: "monthly" as const,
+      interval: "",
+      startDate: new Date(2026, 0, 1).toISOString(),
+    }
+
+    test("accepts valid input and parses numbers", () => {
+      const result = validateRecurringTemplateInput({
+        ...base,
+        frequency: "custom",
+        interval: "3",
+        maxOccurrences: "6",
+      })
+      expect(result).toEqual({
+        success: true,
+        values: { amount: 499, interval: 3, maxOccurrences: 6 },
+      })
+    })
+
+    test("rejects invalid amount, interval, count and end date", () => {
+      const result = validateRecurringTemplateInput({
+        ...base,
+        amount: "0",
+        frequency: "custom",
+        interval: "1.5",
+        endDate: new Date(2025, 11, 31).toISOString(),
+        maxOccurrences: "0",
+      })
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(Object.keys(result.errors).sort()).toEqual([
+          "amount",
+          "endDate",
+          "interval",
+          "maxOccurrences",
+        ])
+      }
+    })
+  })
+})
@@ -0,0 +1,353 @@
+/**
+ * Recurring expenses - occurrence scheduling and materialization
+ *
+ * Templates are stored in AppSettings (and therefore sync through settings.json).
+ * Each due occurrence becomes a regular Expense whose ID is derived from the
+ * template ID and the occurrence day, so materializing twice (or on two
+ * devices) always produces the same ID and never creates duplicates.
+ */
+
+import i18next from "i18next"
+import { format, isValid, parseISO, startOfDay } from "date-fns"
+import { Expense } from "../types/expense"
+import {
+  RecurrenceFrequency,
+  RecurrenceUnit,
+  RecurringExpenseTemplate,
+} from "../types/recurring-expense"
+import { getLocalDayKey } from "../utils/date"
+import { parseAmountInput } from "../utils/amount-input"
+
+/** Safety bound on occurrences computed for a single template */
+const MAX_OCCURRENCES_PER_TEMPLATE = 5000
+
+const RECURRING_ID_PREFIX = "recurring_"
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function generateRecurringTemplateId(): string {
+  return `${Date.now()}_${Math.random().toString(16).slice(2)}`
+}
+
+/**
+ * Deterministic expense ID for one occurrence of a template
+ */
+export function getRecurringExpenseId(templateId: string, dayKey: string): string {
+  return `${RECURRING_ID_PREFIX}${templateId}_${dayKey}`
+}
+
+export function getActiveRecurringTemplates(
+  templates: RecurringExpenseTemplate[]
+): RecurringExpenseTemplate[] {
+  return templates.filter((template) => !template.deletedAt)
+}
+
+/**
+ * Resolve the unit and step size a template advances by
+ */
+export function getRecurrenceStep(template: RecurringExpenseTemplate): {
+  unit: RecurrenceUnit
+  step: number
+} {
+  switch (template.frequency) {
+    case "daily":
+      return { unit: "day", step: 1 }
+    case "weekly":
+      return { unit: "week", step: 1 }
+    case "monthly":
+      return { unit: "month", step: 1 }
+    case "yearly":
+      return { unit: "year", step: 1 }
+    case "custom":
+    default:
+      return {
+        unit: template.customUnit ?? "day",
+        step: Math.max(1, Math.floor(template.interval || 1)),
+      }
+  }
+}
+
+/**
+ * Calendar day (yyyy-MM-dd) of a template start or end date. Templates saved
+ * before these were day keys hold an ISO timestamp, read in this device's
+ * timezone. Returns null for invalid values.
+ */
+export function getTemplateDayKey(value: string): string | null {
+  const date = parseISO(value)
+  if (!isValid(date)) return null
+  return DAY_KEY_PATTERN.test(value) ? value : format(date, "yyyy-MM-dd")
+}
+
+function toDayKey(utcDate: Date): string {
+  return utcDate.toISOString().slice(0, 10)
+}
+
+/**
+ * Move a day key by whole units. Works on the calendar in UTC so every
+ * device gets the same days whatever its timezone; month and year steps
+ * clamp to the end of shorter months.
+ */
+function addUnitsToDayKey(dayKey: string, unit: RecurrenceUnit, amount: number): string {
+  const [year, month, day] = dayKey.split("-").map(Number)
+  switch (unit) {
+    case "day":
+      return toDayKey(new Date(Date.UTC(year, month - 1, day + amount)))
+    case "week":
+      return toDayKey(new Date(Date.UTC(year, month - 1, day + amount * 7)))
+    case "month":
+    case "year": {
+      const monthIndex = month - 1 + (unit === "year" ? amount * 12 : amount)
+      const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate()
+      return toDayKey(new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay))))
+    }
+  }
+}
+
+/**
+ * List occurrence days (yyyy-MM-dd) of a template up to (and including) the
+ * day of `until`.
+ *
+ * Offsets are always computed from the start day rather than the previous
+ * occurrence so month-end dates don't drift (Jan 31 -> Feb 28 -> Mar 31).
+ */
+export function getOccurrenceDayKeys(
+  template: RecurringExpenseTemplate,
+  until: Date
+): string[] {
+  const start = getTemplateDayKey(template.startDate)
+  if (!start) return []
+
+  let limit = format(until, "yyyy-MM-dd")
+  const end = template.endDate ? getTemplateDayKey(template.endDate) : null
+  if (end && end < limit) {
+    limit = end
+  }
+
+  const { unit, step } = getRecurrenceStep(template)
+  const maxCount = Math.min(
+    template.maxOccurrences && template.maxOccurrences > 0
+      ? template.maxOccurrences
+      : MAX_OCCURRENCES_PER_TEMPLATE,
+    MAX_OCCURRENCES_PER_TEMPLATE
+  )
+
+  const dayKeys: string[] = []
+  for (let index = 0; index < maxCount; index++) {
+    const dayKey = addUnitsToDayKey(start, unit, index * step)
+    if (dayKey > limit) break
+    dayKeys.push(dayKey)
+  }
+  return dayKeys
+}
+
+/**
+ * Occurrences of a template up to the day of `until`, at local midnight
+ */
+export function getOccurrenceDates(
+  template: RecurringExpenseTemplate,
+  until: Date
+): Date[] {
+  return getOccurrenceDayKeys(template, until).map((dayKey) => parseISO(dayKey))
+}
+
+/**
+ * Next occurrence strictly after `after`, or null when the template has ended
+ */
+export function getNextOccurrenceDate(
+  template: RecurringExpenseTemplate,
+  after: Date = new Date()
+): Date | null {
+  const startKey = getTemplateDayKey(template.startDate)
+  if (!startKey) return null
+  const start = parseISO(startKey)
+  if (start > after) {
+    return getOccurrenceDates(template, start).length > 0 ? start : null
+  }
+
+  const elapsed = getOccurrenceDates(template, after).length
+  const { unit, step } = getRecurrenceStep(template)
+  const candidate = parseISO(addUnitsToDayKey(startKey, unit, elapsed * step))
+  const upcoming = getOccurrenceDates(template, candidate)
+  return upcoming.length > elapsed ? candidate : null
+}
+
+/**
+ * Build the expense for a single occurrence of a template
+ */
+export function buildRecurringExpense(
+  template: RecurringExpenseTemplate,
+  date: Date,
+  now: string = new Date().toISOString()
+): Expense {
+  const isoDate = date.toISOString()
+  return {
+    id: getRecurringExpenseId(template.id, getLocalDayKey(isoDate)),
+    amount: template.amount,
+    currency: template.currency,
+    category: template.category,
+    date: isoDate,
+    note: template.note,
+    paymentMethod: template.paymentMethod,
+    recurringTemplateId: template.id,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Compute the expenses that are due but not yet materialized.
+ *
+ * Existing expenses (including soft-deleted ones) are matched by ID, so an
+ * occurrence the user deleted is not regenerated.
+ */
+export function getDueRecurringExpenses(
+  templates: RecurringExpenseTemplate[],
+  existingExpenses: Expense[],
+  now: Date = new Date()
+): Expense[] {
+  const existingIds = new Set(existingExpenses.map((expense) => expense.id))
+  const timestamp = now.toISOString()
+  const due: Expense[] = []
+
+  for (const template of getActiveRecurringTemplates(templates)) {
+    for (const date of getOccurrenceDates(template, now)) {
+      const expense = buildRecurringExpense(template, date, timestamp)
+      if (existingIds.has(expense.id)) continue
+      existingIds.add(expense.id)
+      due.push(expense)
+    }
+  }
+
+  return due
+}
+
+/**
+ * Point templates using `fromCategory` at `toCategory` (category rename/delete).
+ * Returns null when no active template uses the category.
+ */
+export function reassignTemplateCategory(
+  templates: RecurringExpenseTemplate[],
+  fromCategory: string,
+  toCategory: string,
+  now: string = new Date().toISOString()
+): RecurringExpenseTemplate[] | null {
+  let changed = false
+  const next = templates.map((template) => {
+    if (template.deletedAt || template.category !== fromCategory) return template
+    changed = true
+    return { ...template, category: toCategory, updatedAt: now }
+  })
+  return changed ? next : null
+}
+
+/**
+ * Apply a template's current values to an expense generated from it.
+ * Occurrences dated before today keep what was actually spent. The
+ * occurrence date is kept; returns the expense unchanged when nothing differs.
+ */
+export function applyTemplateToExpense(
+  template: RecurringExpenseTemplate,
+  expense: Expense,
+  now: string = new Date().toISOString()
+): Expense {
+  if (getLocalDayKey(expense.date) < getLocalDayKey(now)) return expense
+
+  const unchanged =
+    expense.amount === template.amount &&
+    expense.currency === template.currency &&
+    expense.category === template.category &&
+    expense.note === template.note &&
+    expense.paymentMethod?.type === template.paymentMethod?.type &&
+    expense.paymentMethod?.identifier === template.paymentMethod?.identifier &&
+    expense.paymentMethod?.instrumentId === template.paymentMethod?.instrumentId
+
+  if (unchanged) return expense
+
+  return {
+    ...expense,
+    amount: template.amount,
+    currency: template.currency,
+    category: template.category,
+    note: template.note,
+    paymentMethod: template.paymentMethod,
+    updatedAt: now,
+  }
+}
+
+export type RecurringTemplateValidationResult =
+  | {
+      success: true
+      values: { amount: number; interval: number; maxOccurrences?: number }
+    }
+  | { success: false; errors: Record<string, string> }
+
+function parsePositiveInteger(value: string): number | undefined {
+  const trimmed = value.trim()
+  if (!/^\d+$/.test(trimmed)) return undefined
+  const parsed = parseInt(trimmed, 10)
+  return parsed > 0 ? parsed : undefined
+}
+
+/**
+ * Validate the raw form input of a recurring template
+ */
+export function validateRecurringTemplateInput(input: {
+  amount: string
+  category: string
+  frequency: RecurrenceFrequency
+  interval: string
+  startDate: string
+  endDate?: string
+  maxOccurrences?: string
+}): RecurringTemplateValidationResult {
+  const errors: Record<string, string> = {}
+
+  const parsedAmount = parseAmountInput(input.amount, { allowMathExpressions: false })
+  if (!parsedAmount.success || parsedAmount.value === undefined) {
+    errors.amount =
+      i18next.t("recurring.form.amountInvalid") ?? "Enter an amount greater than 0"
+  }
+
+  if (!input.category.trim()) {
+    errors.category = i18next.t("recurring.form.categoryRequired") ?? "Pick a category"
+  }
+
+  let interval = 1
+  if (input.frequency === "custom") {
+    const parsedInterval = parsePositiveInteger(input.interval)
+    if (parsedInterval === undefined) {
+      errors.interval =
+        i18next.t("recurring.form.intervalInvalid") ?? "Enter a whole number above 0"
+    } else {
+      interval = parsedInterval
+    }
+  }
+
+  if (input.endDate) {
+    const start = parseISO(input.startDate)
+    const end = parseISO(input.endDate)
+    if (isValid(start) && isValid(end) && startOfDay(end) < startOfDay(start)) {
+      errors.endDate =
+        i18next.t("recurring.form.endBeforeStart") ??
+        "End date must be on or after the start date"
+    }
+  }
+
+  let maxOccurrences: number | undefined
+  if (input.maxOccurrences !== undefined) {
+    maxOccurrences = parsePositiveInteger(input.maxOccurrences)
+    if (maxOccurrences === undefined) {
+      errors.maxOccurrences =
+        i18next.t("recurring.form.occurrencesInvalid") ?? "Enter a whole number above 0"
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors }
+  }
+
+  return {
+    success: true,
+    values: { amount: parsedAmount.value!, interval, maxOccurrences },
+  }
+}
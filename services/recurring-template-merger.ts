@@ -0,0 +1,81 @@
+import type { RecurringExpenseTemplate } from "../types/recurring-expense"
+
+export interface MergeRecurringTemplatesResult {
+  merged: RecurringExpenseTemplate[]
+  addedFromRemote: RecurringExpenseTemplate[]
+  updatedFromRemote: RecurringExpenseTemplate[]
+  addedFromLocal: RecurringExpenseTemplate[]
+  updatedFromLocal: RecurringExpenseTemplate[]
+}
+
+function isNewerIso(a: string | undefined, b: string | undefined): boolean {
+  if (!a) return false
+  if (!b) return true
+  // ISO timestamps are lexicographically comparable.
+  return a > b
+}
+
+/**
+ * Merge recurring expense templates by id.
+ *
+ * Strategy (same as payment instruments):
+ * - Union by `id`
+ * - If an id exists in both, keep the entry with the newer `updatedAt`
+ * - Deletions are soft (`deletedAt`) so they win through `updatedAt` as well
+ */
+export function mergeRecurringTemplates(
+  local: RecurringExpenseTemplate[] | undefined,
+  remote: RecurringExpenseTemplate[] | undefined
+): MergeRecurringTemplatesResult {
+  const localById = new Map((local ?? []).map((t) => [t.id, t]))
+  const remoteById = new Map((remote ?? []).map((t) => [t.id, t]))
+
+  const ids = new Set<string>([...localById.keys(), ...remoteById.keys()])
+
+  const merged: RecurringExpenseTemplate[] = []
+  const addedFromRemote: RecurringExpenseTemplate[] = []
+  const updatedFromRemote: RecurringExpenseTemplate[] = []
+  const addedFromLocal: RecurringExpenseTemplate[] = []
+  const updatedFromLocal: RecurringExpenseTemplate[] = []
+
+  for (const id of ids) {
+    const localTemplate = localById.get(id)
+    const remoteTemplate = remoteById.get(id)
+
+    if (!localTemplate && remoteTemplate) {
+      merged.push(remoteTemplate)
+      addedFromRemote.push(remoteTemplate)
+      continue
+    }
+
+    if (localTemplate && !remoteTemplate) {
+      merged.push(localTemplate)
+      addedFromLocal.push(localTemplate)
+      continue
+    }
+
+    if (!localTemplate || !remoteTemplate) continue
+
+    // Prefer newer updatedAt; on ties, prefer remote.
+    if (!isNewerIso(localTemplate.updatedAt, remoteTemplate.updatedAt)) {
+      merged.push(remoteTemplate)
+      if (remoteTemplate.updatedAt !== localTemplate.updatedAt) {
+        updatedFromRemote.push(remoteTemplate)
+      }
+    } else {
+      merged.push(localTemplate)
+      updatedFromLocal.push(localTemplate)
+    }
+  }
+
+  // Stable order for hashing/debugging
+  merged.sort((a, b) => a.id.localeCompare(b.id))
+
+  return {
+    merged,
+    addedFromRemote,
+    updatedFromRemote,
+    addedFromLocal,
+    updatedFromLocal,
+  }
+}
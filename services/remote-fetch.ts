@@ -1,29 +1,49 @@
 import { loadSyncConfig } from "./sync-config"
-import { getRepositoryTree, listFiles, downloadCSV, GitHubApiError } from "./github-sync"
+import type { SyncBackend } from "./sync-backends/sync-backend"
+import { isSyncAuthError, SyncBackendError } from "./sync-backends/sync-backend-error"
+import { SyncEncryptionError } from "./sync-backends/encrypted-backend"
+import { openSyncBackend } from "./sync-encryption"
 import { loadRemoteSHACache } from "./remote-sha-cache"
-import { groupExpensesByDay, getDayKeyFromFilename } from "./daily-file-manager"
+import { groupExpensesByFile, getFileKeyFromFilename } from "./daily-file-manager"
+import { getUnsupportedLayoutMessage, readRepoLayout } from "./repo-layout"
 import { importFromCSV } from "./csv-handler"
-import { getUserFriendlyMessage } from "./error-utils"
+import {
+  createErrorResult,
+  createSuccessResult,
+  getUserFriendlyMessage,
+} from "./error-utils"
+import {
+  getLocalAttachmentFile,
+  hasLocalAttachment,
+  saveAttachmentBytes,
+} from "./attachment-storage"
+import { getAttachmentPath } from "../utils/attachments"
 import { pMap } from "./retry"
 import type { Expense } from "../types/expense"
-import type { SyncConfig, FetchAllRemoteResult } from "../types/sync"
+import type { FetchAllRemoteResult, FileLayout } from "../types/sync"
+import type { ServiceResult } from "../types/service-result"
 import i18next from "i18next"
 
+/**
+ * Split expense files into those to download and those whose cached version
+ * tag still matches and whose expenses this device already holds
+ */
 export function classifyTreeEntries(
   expenseEntries: { path: string; sha: string }[],
   shaCache: { [filename: string]: string },
-  localDayKeys: Set<string>
+  localFileKeys: Set<string>,
+  layout: FileLayout = "daily"
 ): {
   changed: { path: string; sha: string }[]
-  unchanged: { path: string; sha: string; dayKey: string }[]
+  unchanged: { path: string; sha: string; fileKey: string }[]
 } {
   const changed: { path: string; sha: string }[] = []
-  const unchanged: { path: string; sha: string; dayKey: string }[] = []
+  const unchanged: { path: string; sha: string; fileKey: string }[] = []
 
   for (const entry of expenseEntries) {
-    const dayKey = getDayKeyFromFilename(entry.path)!
-    if (shaCache[entry.path] === entry.sha && localDayKeys.has(dayKey)) {
-      unchanged.push({ ...entry, dayKey })
+    const fileKey = getFileKeyFromFilename(entry.path, layout)!
+    if (shaCache[entry.path] === entry.sha && localFileKeys.has(fileKey)) {
+      unchanged.push({ ...entry, fileKey })
     } else {
       changed.push(entry)
     }
@@ -33,12 +53,13 @@ export function classifyTreeEntries(
 }
 
 async function fetchWithTree(
-  config: SyncConfig,
+  backend: SyncBackend,
   entries: { path: string; sha: string }[],
+  layout: FileLayout,
   localExpenses?: Expense[]
 ): Promise<FetchAllRemoteResult> {
   const expenseEntries = entries.filter(
-    (entry) => getDayKeyFromFilename(entry.path) !== null
+    (entry) => getFileKeyFromFilename(entry.path, layout) !== null
   )
 
   if (expenseEntries.length === 0) {
@@ -52,14 +73,15 @@ async function fetchWithTree(
 
   const shaCache = await loadRemoteSHACache()
 
-  const localByDay = localExpenses
-    ? groupExpensesByDay(localExpenses)
+  const localByFile = localExpenses
+    ? groupExpensesByFile(localExpenses, layout)
     : new Map<string, Expense[]>()
 
   const { changed: changedFiles, unchanged: unchangedFiles } = classifyTreeEntries(
     expenseEntries,
     shaCache,
-    new Set(localByDay.keys())
+    new Set(localByFile.keys()),
+    layout
   )
 
   const allExpenses: Expense[] = []
@@ -67,9 +89,9 @@ async function fetchWithTree(
   const downloadErrors: string[] = []
 
   for (const file of unchangedFiles) {
-    const dayExpenses = localByDay.get(file.dayKey)
-    if (dayExpenses) {
-      allExpenses.push(...dayExpenses)
+    const fileExpenses = localByFile.get(file.fileKey)
+    if (fileExpenses) {
+      allExpenses.push(...fileExpenses)
     }
   }
 
@@ -77,22 +99,14 @@ async function fetchWithTree(
     changedFiles,
     async (file) => {
       try {
-        const fileData = await downloadCSV(
-          config.token,
-          config.repo,
-          config.branch,
-          file.path
-        )
+        const fileData = await backend.downloadFile(file.path)
         if (fileData) {
           const expenses = importFromCSV(fileData.content)
           return { expenses, ok: true as const }
         }
         return { expenses: [] as Expense[], ok: true as const }
       } catch (fileError) {
-        if (
-          fileError instanceof GitHubApiError &&
-          (fileError.status === 401 || fileError.status === 403)
-        ) {
+        if (isSyncAuthError(fileError) || fileError instanceof SyncEncryptionError) {
           return { error: fileError, fatal: true as const, path: file.path }
         }
         console.warn(`Failed to download ${file.path}:`, fileError)
@@ -104,7 +118,10 @@ async function fetchWithTree(
 
   const fatalError = downloadResults.find((r) => "fatal" in r && r.fatal)
   if (fatalError && "error" in fatalError) {
-    const err = fatalError.error as GitHubApiError
+    if (fatalError.error instanceof SyncEncryptionError) {
+      return { success: false, error: fatalError.error.message }
+    }
+    const err = fatalError.error as SyncBackendError
     return {
       success: false,
       error: err.message,
@@ -139,15 +156,18 @@ async function fetchWithTree(
   }
 }
 
-async function fetchWithContentsApi(config: SyncConfig): Promise<FetchAllRemoteResult> {
+async function fetchWithFileList(
+  backend: SyncBackend,
+  layout: FileLayout
+): Promise<FetchAllRemoteResult> {
   let files: { name: string; path: string; sha: string }[]
   try {
-    files = await listFiles(config.token, config.repo, config.branch)
+    files = await backend.listFiles()
   } catch (listError) {
-    if (
-      listError instanceof GitHubApiError &&
-      (listError.status === 401 || listError.status === 403)
-    ) {
+    if (listError instanceof SyncEncryptionError) {
+      return { success: false, error: listError.message }
+    }
+    if (isSyncAuthError(listError)) {
       return {
         success: false,
         error: listError.message,
@@ -175,7 +195,9 @@ async function fetchWithContentsApi(config: SyncConfig): Promise<FetchAllRemoteR
     }
   }
 
-  const expenseFiles = files.filter((file) => getDayKeyFromFilename(file.name) !== null)
+  const expenseFiles = files.filter(
+    (file) => getFileKeyFromFilename(file.name, layout) !== null
+  )
 
   if (expenseFiles.length === 0) {
     return {
@@ -189,22 +211,14 @@ async function fetchWithContentsApi(config: SyncConfig): Promise<FetchAllRemoteR
     expenseFiles,
     async (file) => {
       try {
-        const fileData = await downloadCSV(
-          config.token,
-          config.repo,
-          config.branch,
-          file.path
-        )
+        const fileData = await backend.downloadFile(file.path)
         if (fileData) {
           const expenses = importFromCSV(fileData.content)
           return { expenses, ok: true as const }
         }
         return { expenses: [] as Expense[], ok: true as const }
       } catch (fileError) {
-        if (
-          fileError instanceof GitHubApiError &&
-          (fileError.status === 401 || fileError.status === 403)
-        ) {
+        if (isSyncAuthError(fileError) || fileError instanceof SyncEncryptionError) {
           return { error: fileError, fatal: true as const }
         }
         console.warn(`Failed to download ${file.path}:`, fileError)
@@ -216,7 +230,10 @@ async function fetchWithContentsApi(config: SyncConfig): Promise<FetchAllRemoteR
 
   const fatalError = downloadResults.find((r) => "fatal" in r && r.fatal)
   if (fatalError && "error" in fatalError) {
-    const err = fatalError.error as GitHubApiError
+    if (fatalError.error instanceof SyncEncryptionError) {
+      return { success: false, error: fatalError.error.message }
+    }
+    const err = fatalError.error as SyncBackendError
     return {
       success: false,
       error: err.message,
@@ -264,7 +281,8 @@ export async function fetchAllRemoteExpenses(
       }
     }
 
-    const treeResult = await getRepositoryTree(config.token, config.repo, config.branch)
+    const backend = await openSyncBackend(config)
+    const treeResult = await backend.getTree()
 
     if (!treeResult.success && treeResult.authStatus) {
       return {
@@ -275,16 +293,63 @@ export async function fetchAllRemoteExpenses(
       }
     }
 
-    if (treeResult.success) {
-      return await fetchWithTree(config, treeResult.entries, localExpenses)
+    const layout = await readRepoLayout(
+      backend,
+      treeResult.success ? treeResult.entries.map((entry) => entry.path) : undefined
+    )
+    if (!layout) {
+      return { success: false, error: getUnsupportedLayoutMessage() }
     }
 
-    return await fetchWithContentsApi(config)
+    const result = treeResult.success
+      ? await fetchWithTree(backend, treeResult.entries, layout, localExpenses)
+      : await fetchWithFileList(backend, layout)
+    return { ...result, layout }
   } catch (error) {
     console.warn("[SyncManager] fetchAllRemoteExpenses failed:", error)
     return {
       success: false,
-      error: getUserFriendlyMessage(error),
+      error:
+        error instanceof SyncEncryptionError
+          ? error.message
+          : getUserFriendlyMessage(error),
     }
   }
 }
+
+/**
+ * Get a receipt attachment, downloading it from the remote when it is not on
+ * this device yet. Attachments are never pulled during a regular sync, only
+ * when a receipt is opened.
+ *
+ * @returns The local file URI of the attachment
+ */
+export async function downloadAttachment(name: string): Promise<ServiceResult<string>> {
+  try {
+    if (hasLocalAttachment(name)) {
+      return createSuccessResult(getLocalAttachmentFile(name).uri)
+    }
+
+    const config = await loadSyncConfig()
+    if (!config) {
+      return {
+        success: false,
+        error: i18next.t("githubSync.manager.noConfigFound"),
+      }
+    }
+
+    const bytes = await (
+      await openSyncBackend(config)
+    ).downloadBinaryFile(getAttachmentPath(name))
+    if (!bytes) {
+      return {
+        success: false,
+        error: i18next.t("attachments.errors.notFound"),
+      }
+    }
+
+    return createSuccessResult(saveAttachmentBytes(name, bytes))
+  } catch (error) {
+    return createErrorResult("RemoteFetch", "downloadAttachment", error)
+  }
+}
@@ -1,4 +1,7 @@
 import { getItem, setItem, removeItem } from "./storage"
+import { getFileKeyFromFilename } from "./daily-file-manager"
+import type { FileLayout } from "../types/sync"
+import { ledgerScopedKey } from "./ledgers"
 
 const REMOTE_SHA_CACHE_KEY = "remote_sha_cache"
 
@@ -9,13 +12,30 @@ export interface RemoteSHACache {
   [filename: string]: string
 }
 
+/**
+ * Build a cache from remote files, keeping the expense files of the
+ * repository's layout
+ */
+export function buildRemoteSHACache(
+  entries: { path: string; sha: string }[],
+  layout: FileLayout
+): RemoteSHACache {
+  const cache: RemoteSHACache = {}
+  for (const entry of entries) {
+    if (getFileKeyFromFilename(entry.path, layout) !== null) {
+      cache[entry.path] = entry.sha
+    }
+  }
+  return cache
+}
+
 /**
  * Load the remote SHA cache from AsyncStorage.
  * Returns empty cache on missing or corrupted data.
  */
 export async function loadRemoteSHACache(): Promise<RemoteSHACache> {
   try {
-    const stored = await getItem(REMOTE_SHA_CACHE_KEY)
+    const stored = await getItem(ledgerScopedKey(REMOTE_SHA_CACHE_KEY))
     if (stored) {
       const parsed = JSON.parse(stored)
       // Validate shape: must be a plain object with string values
@@ -36,7 +56,7 @@ export async function loadRemoteSHACache(): Promise<RemoteSHACache> {
  */
 export async function saveRemoteSHACache(cache: RemoteSHACache): Promise<void> {
   try {
-    await setItem(REMOTE_SHA_CACHE_KEY, JSON.stringify(cache))
+    await setItem(ledgerScopedKey(REMOTE_SHA_CACHE_KEY), JSON.stringify(cache))
   } catch (error) {
     console.warn("Failed to save remote SHA cache:", error)
   }
@@ -47,7 +67,7 @@ export async function saveRemoteSHACache(cache: RemoteSHACache): Promise<void> {
  */
 export async function clearRemoteSHACache(): Promise<void> {
   try {
-    await removeItem(REMOTE_SHA_CACHE_KEY)
+    await removeItem(ledgerScopedKey(REMOTE_SHA_CACHE_KEY))
   } catch (error) {
     console.warn("Failed to clear remote SHA cache:", error)
   }
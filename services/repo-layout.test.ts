@@ -0,0 +1,153 @@
+import type { BatchCommitRequest } from "./github-sync"
+
+const mockFiles = new Map<string, string>()
+const mockCommits: BatchCommitRequest[] = []
+jest.mock("./sync-backends/sync-backend", () => ({
+  createSyncBackend: () => ({
+    kind: "github",
+    getTree: async () => ({
+      success: true,
+      entries: [...mockFiles].map(([path, content]) => ({
+        path,
+        sha: `${path}@${content.length}`,
+      })),
+    }),
+    listFiles: async () => [],
+    downloadFile: async (path: string) =>
+      mockFiles.has(path) ? { content: mockFiles.get(path)!, sha: path } : null,
+    commit: async (request: BatchCommitRequest) => {
+      mockCommits.push(request)
+      for (const upload of request.uploads) {
+        mockFiles.set(upload.path, upload.content)
+      }
+      for (const deletion of request.deletions) {
+        mockFiles.delete(deletion.path)
+      }
+      return { success: true }
+    },
+    getLatestChangeTimestamp: async () => ({ timestamp: "2024-02-01T00:00:00Z" }),
+  }),
+}))
+
+import { clear } from "./storage"
+import { loadRepoLayout, migrateRepoLayout } from "./repo-layout"
+import { gitStyleSync } from "./git-style-sync"
+import { exportToCSV, importFromCSV } from "./csv-handler"
+import type { Expense } from "../types/expense"
+import type { SyncConfig } from "../types/sync"
+
+const config: SyncConfig = { token: "ghp_token", repo: "me/expenses", branch: "main" }
+
+function makeExpense(id: string, day: string, amount = 10): Expense {
+  return {
+    id,
+    amount,
+    category: "Food",
+    date: `${day}T12:00:00.000Z`,
+    note: id,
+    createdAt: `${day}T12:00:00.000Z`,
+    updatedAt: `${day}T12:00:00.000Z`,
+  }
+}
+
+describe("repository file layout", () => {
+  beforeEach(async () => {
+    await clear()
+    mockFiles.clear()
+    mockCommits.length = 0
+    const secureStore = require("expo-secure-store")
+    secureStore.getItemAsync.mockImplementation(async (key: string) => {
+      if (key === "github_pat") return config.token
+      if (key === "github_repo") return config.repo
+      if (key === "github_branch") return config.branch
+      return null
+    })
+  })
+
+  it("rewrites a daily repository into monthly files in one commit", async () => {
+    mockFiles.set(
+      "expenses-2024-01-01.csv",
+      exportToCSV([makeExpense("a", "2024-01-01")])
+    )
+    mockFiles.set(
+      "expenses-2024-01-20.csv",
+      exportToCSV([makeExpense("b", "2024-01-20")])
+    )
+    mockFiles.set(
+      "expenses-2024-02-03.csv",
+      exportToCSV([makeExpense("c", "2024-02-03")])
+    )
+    mockFiles.set("settings.json", "{}")
+
+    await expect(loadRepoLayout(config)).resolves.toEqual({
+      success: true,
+      data: "daily",
+    })
+
+    const result = await migrateRepoLayout(config, "monthly")
+
+    expect(result).toEqual({ success: true, data: 2 })
+    expect(mockCommits).toHaveLength(1)
+    expect([...mockFiles.keys()].sort()).toEqual([
+      "expenses-2024-01.csv",
+      "expenses-2024-02.csv",
+      "layout.json",
+      "settings.json",
+    ])
+    expect(
+      importFromCSV(mockFiles.get("expenses-2024-01.csv")!).map((expense) => expense.id)
+    ).toEqual(["a", "b"])
+    await expect(loadRepoLayout(config)).resolves.toEqual({
+      success: true,
+      data: "monthly",
+    })
+
+    await migrateRepoLayout(config, "daily")
+    expect([...mockFiles.keys()].sort()).toEqual([
+      "expenses-2024-01-01.csv",
+      "expenses-2024-01-20.csv",
+      "expenses-2024-02-03.csv",
+      "settings.json",
+    ])
+  })
+
+  it("syncs into the month file of a monthly repository", async () => {
+    const existing = makeExpense("a", "2024-01-01")
+    mockFiles.set("expenses-2024-01-01.csv", exportToCSV([existing]))
+    await migrateRepoLayout(config, "monthly")
+
+    const result = await gitStyleSync([
+      { ...existing, amount: 25, updatedAt: "2024-01-05T00:00:00.000Z" },
+      makeExpense("b", "2024-01-15"),
+    ])
+
+    expect(result.success).toBe(true)
+    expect([...mockFiles.keys()].sort()).toEqual(["expenses-2024-01.csv", "layout.json"])
+    expect(
+      importFromCSV(mockFiles.get("expenses-2024-01.csv")!).map((expense) => [
+        expense.id,
+        expense.amount,
+      ])
+    ).toEqual(
+      expect.arrayContaining([
+        ["a", 25],
+        ["b", 10],
+      ])
+    )
+  })
+
+  it("refuses to sync a repository with an unknown layout", async () => {
+    mockFiles.set(
+      "layout.json",
+      JSON.stringify({ format: "expense-buddy-layout", version: 1, layout: "yearly" })
+    )
+
+    const result = await gitStyleSync([makeExpense("a", "2024-01-01")])
+
+    expect(result.success).toBe(false)
+    expect(mockCommits).toHaveLength(0)
+    await expect(migrateRepoLayout(config, "monthly")).resolves.toMatchObject({
+      success: false,
+    })
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Repository file layout
+ *
+ * Expenses are stored one CSV per day unless the repository's `layout.json`
+ * says it keeps one CSV per month. The file lives in the repository so every
+ * device reads and writes the same files. Switching layouts rewrites every
+ * expense file together with `layout.json` in one commit, so other devices
+ * never see a repository that is half one way and half the other.
+ */
+
+import i18next from "i18next"
+import { z } from "zod"
+import { openSyncBackend } from "./sync-encryption"
+import {
+  getFileKeyFromFilename,
+  getFilenameForKey,
+  groupExpensesByFile,
+  LAYOUT_FILE,
+} from "./daily-file-manager"
+import { exportToCSV, importFromCSV } from "./csv-handler"
+import { clearRemoteSHACache } from "./remote-sha-cache"
+import { saveFileHashes } from "./hash-storage"
+import { SyncEncryptionError } from "./sync-backends/encrypted-backend"
+import { createErrorResult, createSuccessResult } from "./error-utils"
+import { pMap } from "./retry"
+import type { SyncBackend } from "./sync-backends/sync-backend"
+import type { ServiceResult } from "../types/service-result"
+import type { FileLayout, SyncConfig } from "../types/sync"
+
+const LAYOUT_FILE_FORMAT = "expense-buddy-layout"
+const LAYOUT_FILE_VERSION = 1
+
+const layoutFileSchema = z.object({
+  format: z.literal(LAYOUT_FILE_FORMAT),
+  version: z.number().int().positive(),
+  layout: z.enum(["daily", "monthly"]),
+})
+
+function failure<T>(message: string): ServiceResult<T> {
+  return { success: false, error: message }
+}
+
+/**
+ * Message for a `layout.json` this version of the app cannot read
+ */
+export function getUnsupportedLayoutMessage(): string {
+  return (
+    i18next.t("repoLayout.errors.unsupported") ??
+    "This repository uses a file layout this version of the app does not support"
+  )
+}
+
+/**
+ * Layout of the repository behind a backend. Pass the listed paths to skip
+ * the download when there is no layout file.
+ *
+ * @returns The layout, or null when `layout.json` cannot be read
+ */
+export async function readRepoLayout(
+  backend: SyncBackend,
+  paths?: string[]
+): Promise<FileLayout | null> {
+  if (paths && !paths.includes(LAYOUT_FILE)) {
+    return "daily"
+  }
+
+  const file = await backend.downloadFile(LAYOUT_FILE)
+  if (!file) {
+    return "daily"
+  }
+  try {
+    return layoutFileSchema.parse(JSON.parse(file.content)).layout
+  } catch (error) {
+    console.warn("[RepoLayout] Unreadable layout file:", error)
+    return null
+  }
+}
+
+/**
+ * Layout of the configured repository
+ */
+export async function loadRepoLayout(
+  config: SyncConfig
+): Promise<ServiceResult<FileLayout>> {
+  try {
+    const layout = await readRepoLayout(await openSyncBackend(config))
+    return layout ? createSuccessResult(layout) : failure(getUnsupportedLayoutMessage())
+  } catch (error) {
+    if (error instanceof SyncEncryptionError) {
+      return failure(error.message)
+    }
+    return createErrorResult("RepoLayout", "loadRepoLayout", error)
+  }
+}
+
+/**
+ * Rewrite every expense file of the repository into the given layout and
+ * record it in `layout.json`, all in one commit. A daily repository has no
+ * layout file.
+ *
+ * @returns Number of expense files written
+ */
+export async function migrateRepoLayout(
+  config: SyncConfig,
+  layout: FileLayout
+): Promise<ServiceResult<number>> {
+  try {
+    const backend = await openSyncBackend(config)
+
+    const tree = await backend.getTree()
+    if (!tree.success && tree.authStatus) {
+      return failure(tree.error)
+    }
+    const paths = tree.success
+      ? tree.entries.map((entry) => entry.path)
+      : (await backend.listFiles()).map((file) => file.path)
+
+    const current = await readRepoLayout(backend, paths)
+    if (!current) {
+      return failure(getUnsupportedLayoutMessage())
+    }
+    if (current === layout) {
+      return createSuccessResult(0)
+    }
+
+    const expensePaths = paths.filter(
+      (path) => getFileKeyFromFilename(path, current) !== null
+    )
+    const files = await pMap(
+      expensePaths,
+      async (path) => {
+        const file = await backend.downloadFile(path)
+        return file ? importFromCSV(file.content) : []
+      },
+      5
+    )
+
+    const uploads = [...groupExpensesByFile(files.flat(), layout)].map(
+      ([fileKey, expenses]) => ({
+        path: getFilenameForKey(fileKey),
+        content: exportToCSV(expenses),
+      })
+    )
+    const deletions = expensePaths.map((path) => ({ path }))
+
+    const result = await backend.commit({
+      uploads:
+        layout === "daily"
+          ? uploads
+          : [
+              ...uploads,
+              {
+                path: LAYOUT_FILE,
+                content: JSON.stringify(
+                  { format: LAYOUT_FILE_FORMAT, version: LAYOUT_FILE_VERSION, layout },
+                  null,
+                  2
+                ),
+              },
+            ],
+      deletions:
+        layout === "daily" && paths.includes(LAYOUT_FILE)
+          ? [...deletions, { path: LAYOUT_FILE }]
+          : deletions,
+      message:
+        layout === "monthly"
+          ? "Move expenses to monthly files"
+          : "Move expenses to daily files",
+    })
+    if (!result.success) {
+      return failure(
+        result.error ??
+          i18next.t("repoLayout.errors.migrateFailed") ??
+          "Could not rewrite the expense files"
+      )
+    }
+
+    // Cached version tags and upload hashes name the old files
+    await clearRemoteSHACache()
+    await saveFileHashes({})
+
+    return createSuccessResult(uploads.length)
+  } catch (error) {
+    if (error instanceof SyncEncryptionError) {
+      return failure(error.message)
+    }
+    return createErrorResult("RepoLayout", "migrateRepoLayout", error)
+  }
+}
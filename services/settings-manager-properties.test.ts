@@ -19,6 +19,8 @@ import {
   computeSettingsHash,
   AutoSyncTiming,
 } from "./settings-manager"
+import type { RecurringExpenseTemplate } from "../types/recurring-expense"
+import type { ExchangeRate } from "../types/exchange-rate"
 
 // Clear storage before each test
 beforeEach(async () => {
@@ -28,7 +30,12 @@ beforeEach(async () => {
 // Arbitrary generators for settings types
 const themePreferenceArb = fc.constantFrom<ThemePreference>("light", "dark", "system")
 
-const autoSyncTimingArb = fc.constantFrom<AutoSyncTiming>("on_launch", "on_change")
+const autoSyncTimingArb = fc.constantFrom<AutoSyncTiming>(
+  "on_launch",
+  "on_change",
+  "interval",
+  "on_reconnect"
+)
 
 const appSettingsArb: fc.Arbitrary<AppSettings> = fc.record({
   theme: themePreferenceArb,
@@ -40,10 +47,15 @@ const appSettingsArb: fc.Arbitrary<AppSettings> = fc.record({
   backgroundSmsImportEnabled: fc.boolean(),
   autoSyncEnabled: fc.boolean(),
   autoSyncTiming: autoSyncTimingArb,
+  autoSyncIntervalMinutes: fc.constantFrom(5, 15, 30, 60),
+  fieldUpdatedAt: fc.constant({}),
   categories: fc.constant(DEFAULT_CATEGORIES),
   categoriesVersion: fc.constant(1),
   paymentInstruments: fc.constant([]),
   paymentInstrumentsMigrationVersion: fc.integer({ min: 0, max: 10 }),
+  recurringTemplates: fc.constant<RecurringExpenseTemplate[]>([]),
+  exchangeRates: fc.constant<ExchangeRate[]>([]),
+  syncAttachments: fc.boolean(),
   updatedAt: fc
     .integer({ min: 1577836800000, max: 1924905600000 }) // 2020-01-01 to 2030-12-31 in ms
     .map((ms) => new Date(ms).toISOString()),
@@ -8,7 +8,9 @@ import fc from "fast-check"
 import {
   ThemePreference,
   AppSettings,
+  AutoSyncTiming,
   DEFAULT_SETTINGS,
+  applySettingsUpdates,
   loadSettings,
   saveSettings,
   markSettingsChanged,
@@ -22,6 +24,8 @@ import { PaymentMethodType } from "../types/expense"
 import { DEFAULT_CATEGORIES } from "../constants/default-categories"
 import type { PaymentInstrument } from "../types/payment-instrument"
 import { clear, setItem } from "./storage"
+import type { RecurringExpenseTemplate } from "../types/recurring-expense"
+import type { ExchangeRate } from "../types/exchange-rate"
 
 const mockSecureStorage: Map<string, string> = new Map()
 
@@ -60,9 +64,11 @@ const paymentMethodTypeArb = fc.constantFrom<PaymentMethodType>(
 
 const optionalPaymentMethodTypeArb = fc.option(paymentMethodTypeArb, { nil: undefined })
 
-const autoSyncTimingArb = fc.constantFrom<"on_launch" | "on_change">(
+const autoSyncTimingArb = fc.constantFrom<AutoSyncTiming>(
   "on_launch",
-  "on_change"
+  "on_change",
+  "interval",
+  "on_reconnect"
 )
 
 const appSettingsArb = fc.record({
@@ -76,14 +82,19 @@ const appSettingsArb = fc.record({
   backgroundSmsImportEnabled: fc.boolean(),
   autoSyncEnabled: fc.boolean(),
   autoSyncTiming: autoSyncTimingArb,
+  autoSyncIntervalMinutes: fc.constantFrom(5, 15, 30, 60),
+  fieldUpdatedAt: fc.constant({}),
   categories: fc.constant(DEFAULT_CATEGORIES),
   categoriesVersion: fc.constant(1),
   paymentInstruments: fc.constant<PaymentInstrument[]>([]),
   paymentInstrumentsMigrationVersion: fc.constant(0),
+  recurringTemplates: fc.constant<RecurringExpenseTemplate[]>([]),
+  exchangeRates: fc.constant<ExchangeRate[]>([]),
+  syncAttachments: fc.boolean(),
   updatedAt: fc
     .integer({ min: 1577836800000, max: 1924905600000 }) // 2020-01-01 to 2030-12-31 in ms
     .map((ms) => new Date(ms).toISOString()),
-  version: fc.constant(9), // Always use latest version to avoid migration in tests
+  version: fc.constant(15), // Always use latest version to avoid migration in tests
 })
 
 describe("Settings Manager Properties", () => {
@@ -372,7 +383,7 @@ describe("Settings Manager Properties", () => {
       expect(loaded.paymentInstruments).toEqual([])
       expect(loaded.paymentInstrumentsMigrationVersion).toBe(0)
       expect(loaded.language).toBe("system")
-      expect(loaded.version).toBe(9)
+      expect(loaded.version).toBe(15)
     })
   })
 
@@ -452,6 +463,221 @@ describe("Settings Manager Properties", () => {
     })
   })
 
+  describe("Category budgets", () => {
+    it("should compute different hashes when a category budget differs", () => {
+      const withBudget: AppSettings = {
+        ...DEFAULT_SETTINGS,
+        categories: DEFAULT_CATEGORIES.map((c) =>
+          c.label === "Food" ? { ...c, monthlyBudget: 8000 } : c
+        ),
+      }
+
+      expect(computeSettingsHash(withBudget)).not.toBe(
+        computeSettingsHash(DEFAULT_SETTINGS)
+      )
+    })
+
+    it("should treat a cleared (0) budget the same as no budget when hashing", () => {
+      const cleared: AppSettings = {
+        ...DEFAULT_SETTINGS,
+        categories: DEFAULT_CATEGORIES.map((c) => ({ ...c, monthlyBudget: 0 })),
+      }
+
+      expect(computeSettingsHash(cleared)).toBe(computeSettingsHash(DEFAULT_SETTINGS))
+    })
+
+    it("should keep valid budgets and drop invalid ones when migrating v9 settings", async () => {
+      await clear()
+
+      const v9Settings = {
+        ...DEFAULT_SETTINGS,
+        categories: DEFAULT_CATEGORIES.map((c) =>
+          c.label === "Food"
+            ? { ...c, monthlyBudget: 8000 }
+            : c.label === "Transport"
+              ? { ...c, monthlyBudget: -5 }
+              : c
+        ),
+        version: 9,
+      }
+      await setItem("app_settings", JSON.stringify(v9Settings))
+
+      const loaded = await loadSettings()
+
+      expect(loaded.version).toBe(15)
+      expect(loaded.categories.find((c) => c.label === "Food")?.monthlyBudget).toBe(8000)
+      expect(
+        loaded.categories.find((c) => c.label === "Transport")?.monthlyBudget
+      ).toBeUndefined()
+    })
+  })
+
+  describe("Recurring templates", () => {
+    const template = {
+      id: "rent",
+      amount: 15000,
+      category: "Rent",
+      note: "",
+      frequency: "monthly" as const,
+      interval: 1,
+      startDate: "2026-01-01T00:00:00.000Z",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    }
+
+    it("should compute different hashes when recurring templates differ", () => {
+      const withTemplate: AppSettings = {
+        ...DEFAULT_SETTINGS,
+        recurringTemplates: [template],
+      }
+
+      expect(computeSettingsHash(withTemplate)).not.toBe(
+        computeSettingsHash(DEFAULT_SETTINGS)
+      )
+    })
+
+    it("should ignore template timestamps when hashing", () => {
+      const a: AppSettings = { ...DEFAULT_SETTINGS, recurringTemplates: [template] }
+      const b: AppSettings = {
+        ...DEFAULT_SETTINGS,
+        recurringTemplates: [{ ...template, updatedAt: "2026-03-01T00:00:00.000Z" }],
+      }
+
+      expect(computeSettingsHash(a)).toBe(computeSettingsHash(b))
+    })
+
+    it("should add an empty template list when migrating v10 settings", async () => {
+      await clear()
+
+      const { recurringTemplates: _omit, ...v10Settings } = DEFAULT_SETTINGS
+      await setItem("app_settings", JSON.stringify({ ...v10Settings, version: 10 }))
+
+      const loaded = await loadSettings()
+
+      expect(loaded.version).toBe(15)
+      expect(loaded.recurringTemplates).toEqual([])
+    })
+  })
+
+  describe("Exchange rates", () => {
+    const rate = {
+      id: "usd-inr",
+      from: "USD",
+      to: "INR",
+      rate: 83.2,
+      effectiveDate: "2026-01-01",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+    }
+
+    it("should compute different hashes when exchange rates differ", () => {
+      const withRate: AppSettings = { ...DEFAULT_SETTINGS, exchangeRates: [rate] }
+
+      expect(computeSettingsHash(withRate)).not.toBe(
+        computeSettingsHash(DEFAULT_SETTINGS)
+      )
+    })
+
+    it("should ignore rate timestamps when hashing", () => {
+      const a: AppSettings = { ...DEFAULT_SETTINGS, exchangeRates: [rate] }
+      const b: AppSettings = {
+        ...DEFAULT_SETTINGS,
+        exchangeRates: [{ ...rate, updatedAt: "2026-03-01T00:00:00.000Z" }],
+      }
+
+      expect(computeSettingsHash(a)).toBe(computeSettingsHash(b))
+    })
+
+    it("should add an empty rate table when migrating v11 settings", async () => {
+      await clear()
+
+      const { exchangeRates: _omit, ...v11Settings } = DEFAULT_SETTINGS
+      await setItem("app_settings", JSON.stringify({ ...v11Settings, version: 11 }))
+
+      const loaded = await loadSettings()
+
+      expect(loaded.version).toBe(15)
+      expect(loaded.exchangeRates).toEqual([])
+    })
+  })
+
+  describe("Receipt sync setting", () => {
+    it("should compute different hashes when syncAttachments differs", () => {
+      const enabled: AppSettings = { ...DEFAULT_SETTINGS, syncAttachments: true }
+
+      expect(computeSettingsHash(enabled)).not.toBe(computeSettingsHash(DEFAULT_SETTINGS))
+    })
+
+    it("should default syncAttachments to false when migrating v12 settings", async () => {
+      await clear()
+
+      const { syncAttachments: _omit, ...v12Settings } = DEFAULT_SETTINGS
+      await setItem("app_settings", JSON.stringify({ ...v12Settings, version: 12 }))
+
+      const loaded = await loadSettings()
+
+      expect(loaded.version).toBe(15)
+      expect(loaded.syncAttachments).toBe(false)
+    })
+  })
+
+  describe("Auto-sync interval setting", () => {
+    it("should default autoSyncIntervalMinutes when migrating v13 settings", async () => {
+      await clear()
+
+      const { autoSyncIntervalMinutes: _omit, ...v13Settings } = DEFAULT_SETTINGS
+      await setItem(
+        "app_settings",
+        JSON.stringify({ ...v13Settings, autoSyncTiming: "on_change", version: 13 })
+      )
+
+      const loaded = await loadSettings()
+
+      expect(loaded.version).toBe(15)
+      expect(loaded.autoSyncTiming).toBe("on_change")
+      expect(loaded.autoSyncIntervalMinutes).toBe(15)
+    })
+  })
+
+  describe("Per-field settings timestamps", () => {
+    it("should date every synced field to the last save when migrating v14 settings", async () => {
+      await clear()
+
+      const { fieldUpdatedAt: _omit, ...v14Settings } = DEFAULT_SETTINGS
+      const updatedAt = "2025-03-01T10:00:00.000Z"
+      await setItem(
+        "app_settings",
+        JSON.stringify({ ...v14Settings, theme: "dark", updatedAt, version: 14 })
+      )
+
+      const loaded = await loadSettings()
+
+      expect(loaded.version).toBe(15)
+      expect(loaded.theme).toBe("dark")
+      expect(loaded.fieldUpdatedAt.theme).toBe(updatedAt)
+      expect(loaded.fieldUpdatedAt.autoSyncIntervalMinutes).toBe(updatedAt)
+    })
+
+    it("should stamp only the fields an update touches", () => {
+      const settings: AppSettings = {
+        ...DEFAULT_SETTINGS,
+        fieldUpdatedAt: { language: "2025-01-01T00:00:00.000Z" },
+      }
+
+      const updated = applySettingsUpdates(
+        settings,
+        { theme: "light", paymentInstruments: [] },
+        "2025-06-01T00:00:00.000Z"
+      )
+
+      expect(updated.theme).toBe("light")
+      expect(updated.fieldUpdatedAt).toEqual({
+        language: "2025-01-01T00:00:00.000Z",
+        theme: "2025-06-01T00:00:00.000Z",
+      })
+    })
+  })
+
   describe("Math entry setting", () => {
     it("should compute different hashes when enableMathExpressions differs", () => {
       const settings1: AppSettings = { ...DEFAULT_SETTINGS, enableMathExpressions: true }
@@ -563,8 +789,8 @@ describe("Settings Manager Properties", () => {
             loaded.enableMathExpressions === true &&
             loaded.useMlOnlyForSmsImports === false &&
             loaded.backgroundSmsImportEnabled === false &&
-            // Version should be upgraded to 9 (v2 -> v3 -> v4 -> v5 -> v6 -> v7 -> v8 -> v9)
-            loaded.version === 9
+            // Version should be upgraded to 15 (v2 -> v3 -> ... -> v14 -> v15)
+            loaded.version === 15
           )
         }),
         { numRuns: 100 }
@@ -5,12 +5,17 @@ import { PaymentMethodType } from "../types/expense"
 import { Category } from "../types/category"
 import { DEFAULT_CATEGORIES } from "../constants/default-categories"
 import { PaymentInstrument } from "../types/payment-instrument"
+import { RecurringExpenseTemplate } from "../types/recurring-expense"
+import { ExchangeRate } from "../types/exchange-rate"
 import { getSystemCurrency } from "../utils/currency"
+import { ledgerScopedKey } from "./ledgers"
 
 // Storage keys
 const SETTINGS_KEY = "app_settings"
 const SETTINGS_HASH_KEY = "settings_sync_hash"
 const SETTINGS_CHANGED_KEY = "settings_changed"
+/** Shared by every ledger, unlike the keys above */
+const DEVICE_PREFERENCES_KEY = "device_preferences"
 
 // Old auto-sync storage keys (for migration from v2 to v3)
 const OLD_AUTO_SYNC_ENABLED_KEY = "auto_sync_enabled"
@@ -23,8 +28,47 @@ export type ThemePreference = "light" | "dark" | "system"
 
 /**
  * Auto-sync timing options
+ * - "interval": every autoSyncIntervalMinutes while the app is in the foreground
+ * - "on_reconnect": after each change while online, and for days left dirty
+ *   offline once the sync server can be reached again
  */
-export type AutoSyncTiming = "on_launch" | "on_change"
+export type AutoSyncTiming = "on_launch" | "on_change" | "interval" | "on_reconnect"
+
+/**
+ * Settings that sync as single values. Each has its own timestamp in
+ * `fieldUpdatedAt`, so edits to different fields on different devices both
+ * survive a sync. List settings (categories, payment instruments, recurring
+ * templates, exchange rates) are merged per item instead.
+ */
+export const SYNCED_SETTINGS_FIELDS = [
+  "theme",
+  "defaultPaymentMethod",
+  "defaultCurrency",
+  "language",
+  "enableMathExpressions",
+  "useMlOnlyForSmsImports",
+  "backgroundSmsImportEnabled",
+  "autoSyncEnabled",
+  "autoSyncTiming",
+  "autoSyncIntervalMinutes",
+  "syncAttachments",
+] as const
+
+export type SyncedSettingsField = (typeof SYNCED_SETTINGS_FIELDS)[number]
+
+/**
+ * Preferences of this device rather than of a ledger. They are also kept
+ * outside the ledger-scoped settings, so every ledger uses the same ones.
+ */
+export const DEVICE_PREFERENCE_FIELDS = [
+  "theme",
+  "language",
+  "enableMathExpressions",
+  "useMlOnlyForSmsImports",
+  "backgroundSmsImportEnabled",
+] as const
+
+type DevicePreferences = Pick<AppSettings, (typeof DEVICE_PREFERENCE_FIELDS)[number]>
 
 /**
  * Application settings interface
@@ -40,10 +84,15 @@ export interface AppSettings {
   backgroundSmsImportEnabled: boolean // Whether background SMS transaction alerts are enabled on Android
   autoSyncEnabled: boolean // Whether auto-sync is enabled
   autoSyncTiming: AutoSyncTiming // When to trigger auto-sync
+  autoSyncIntervalMinutes: number // Minutes between syncs for the "interval" timing
+  syncAttachments: boolean // Whether receipt attachments are pushed to the sync repo
   categories: Category[] // User-defined expense categories
   categoriesVersion: number // Schema version for category migrations
   paymentInstruments: PaymentInstrument[] // Saved card/UPI instruments (synced if syncSettings is enabled)
   paymentInstrumentsMigrationVersion: number // One-time migration state for instrument linking
+  recurringTemplates: RecurringExpenseTemplate[] // Recurring expense templates (synced if syncSettings is enabled)
+  exchangeRates: ExchangeRate[] // Manually maintained exchange rates (synced if syncSettings is enabled)
+  fieldUpdatedAt: Partial<Record<SyncedSettingsField, string>> // When each synced field last changed
   updatedAt: string // ISO timestamp
   version: number // Schema version for migrations
 }
@@ -62,12 +111,17 @@ export const DEFAULT_SETTINGS: AppSettings = {
   backgroundSmsImportEnabled: false,
   autoSyncEnabled: false,
   autoSyncTiming: "on_launch",
+  autoSyncIntervalMinutes: 15,
+  syncAttachments: false,
   categories: DEFAULT_CATEGORIES,
   categoriesVersion: 1,
   paymentInstruments: [],
   paymentInstrumentsMigrationVersion: 0,
+  recurringTemplates: [],
+  exchangeRates: [],
+  fieldUpdatedAt: {},
   updatedAt: new Date().toISOString(),
-  version: 9,
+  version: 15,
 }
 
 /**
@@ -110,6 +164,30 @@ export function hydrateSettingsFromJson(raw: unknown): AppSettings {
     migrated = migrateV8ToV9(migrated as AppSettings)
   }
 
+  if ((typeof migrated.version === "number" ? migrated.version : version) < 10) {
+    migrated = migrateV9ToV10(migrated as AppSettings)
+  }
+
+  if ((typeof migrated.version === "number" ? migrated.version : version) < 11) {
+    migrated = migrateV10ToV11(migrated as AppSettings)
+  }
+
+  if ((typeof migrated.version === "number" ? migrated.version : version) < 12) {
+    migrated = migrateV11ToV12(migrated as AppSettings)
+  }
+
+  if ((typeof migrated.version === "number" ? migrated.version : version) < 13) {
+    migrated = migrateV12ToV13(migrated as AppSettings)
+  }
+
+  if ((typeof migrated.version === "number" ? migrated.version : version) < 14) {
+    migrated = migrateV13ToV14(migrated as AppSettings)
+  }
+
+  if ((typeof migrated.version === "number" ? migrated.version : version) < 15) {
+    migrated = migrateV14ToV15(migrated as AppSettings)
+  }
+
   return {
     theme: migrated.theme ?? DEFAULT_SETTINGS.theme,
     syncSettings: migrated.syncSettings ?? DEFAULT_SETTINGS.syncSettings,
@@ -125,12 +203,18 @@ export function hydrateSettingsFromJson(raw: unknown): AppSettings {
       migrated.backgroundSmsImportEnabled ?? DEFAULT_SETTINGS.backgroundSmsImportEnabled,
     autoSyncEnabled: migrated.autoSyncEnabled ?? DEFAULT_SETTINGS.autoSyncEnabled,
     autoSyncTiming: migrated.autoSyncTiming ?? DEFAULT_SETTINGS.autoSyncTiming,
+    autoSyncIntervalMinutes:
+      migrated.autoSyncIntervalMinutes ?? DEFAULT_SETTINGS.autoSyncIntervalMinutes,
+    syncAttachments: migrated.syncAttachments ?? DEFAULT_SETTINGS.syncAttachments,
     categories: migrated.categories ?? DEFAULT_CATEGORIES,
     categoriesVersion: migrated.categoriesVersion ?? DEFAULT_SETTINGS.categoriesVersion,
     paymentInstruments: migrated.paymentInstruments ?? [],
     paymentInstrumentsMigrationVersion:
       migrated.paymentInstrumentsMigrationVersion ??
       DEFAULT_SETTINGS.paymentInstrumentsMigrationVersion,
+    recurringTemplates: migrated.recurringTemplates ?? [],
+    exchangeRates: migrated.exchangeRates ?? [],
+    fieldUpdatedAt: migrated.fieldUpdatedAt ?? {},
     updatedAt: migrated.updatedAt ?? new Date().toISOString(),
     version:
       typeof migrated.version === "number"
@@ -259,6 +343,164 @@ function migrateV8ToV9(settings: AppSettings): AppSettings {
   }
 }
 
+/**
+ * Migrate settings from version 9 to version 10
+ * Adds optional per-category monthly budgets, dropping any invalid values
+ */
+function migrateV9ToV10(settings: AppSettings): AppSettings {
+  const categories = settings.categories?.map((category) => {
+    const budget = category.monthlyBudget
+    if (budget === undefined || (Number.isFinite(budget) && budget >= 0)) {
+      return category
+    }
+    const { monthlyBudget: _, ...rest } = category
+    return rest
+  })
+
+  return {
+    ...settings,
+    ...(categories ? { categories } : {}),
+    version: 10,
+  }
+}
+
+/**
+ * Migrate settings from version 10 to version 11
+ * Adds recurring expense templates
+ */
+function migrateV10ToV11(settings: AppSettings): AppSettings {
+  return {
+    ...settings,
+    recurringTemplates: settings.recurringTemplates ?? [],
+    version: 11,
+  }
+}
+
+/**
+ * Migrate settings from version 11 to version 12
+ * Adds the exchange rate table
+ */
+function migrateV11ToV12(settings: AppSettings): AppSettings {
+  return {
+    ...settings,
+    exchangeRates: settings.exchangeRates ?? [],
+    version: 12,
+  }
+}
+
+/**
+ * Migrate settings from version 12 to version 13
+ * Adds the receipt attachment sync toggle (off by default)
+ */
+function migrateV12ToV13(settings: AppSettings): AppSettings {
+  return {
+    ...settings,
+    syncAttachments: settings.syncAttachments ?? false,
+    version: 13,
+  }
+}
+
+/**
+ * Migrate settings from version 13 to version 14
+ * Adds the interval for the "interval" auto-sync timing
+ */
+function migrateV13ToV14(settings: AppSettings): AppSettings {
+  return {
+    ...settings,
+    autoSyncIntervalMinutes:
+      settings.autoSyncIntervalMinutes ?? DEFAULT_SETTINGS.autoSyncIntervalMinutes,
+    version: 14,
+  }
+}
+
+/**
+ * Migrate settings from version 14 to version 15
+ * Adds per-field timestamps, dated to the last save of the whole settings
+ */
+function migrateV14ToV15(settings: AppSettings): AppSettings {
+  const fieldUpdatedAt: Partial<Record<SyncedSettingsField, string>> = {}
+  if (settings.updatedAt) {
+    for (const field of SYNCED_SETTINGS_FIELDS) {
+      fieldUpdatedAt[field] = settings.updatedAt
+    }
+  }
+  return {
+    ...settings,
+    fieldUpdatedAt: settings.fieldUpdatedAt ?? fieldUpdatedAt,
+    version: 15,
+  }
+}
+
+/**
+ * Apply updates to settings, stamping each synced field they touch with the
+ * time of the change
+ */
+export function applySettingsUpdates(
+  settings: AppSettings,
+  updates: Partial<AppSettings>,
+  timestamp: string = new Date().toISOString()
+): AppSettings {
+  const fieldUpdatedAt = { ...settings.fieldUpdatedAt }
+  for (const field of SYNCED_SETTINGS_FIELDS) {
+    if (Object.hasOwn(updates, field)) {
+      fieldUpdatedAt[field] = timestamp
+    }
+  }
+  return { ...settings, ...updates, fieldUpdatedAt }
+}
+
+/**
+ * Apply the stored device preferences over a ledger's settings. Before they
+ * were stored separately, the ledger's own values are kept.
+ */
+function withDevicePreferences(
+  settings: AppSettings,
+  stored: string | null
+): AppSettings {
+  if (!stored) return settings
+  try {
+    const preferences = JSON.parse(stored) as Partial<DevicePreferences>
+    return {
+      ...settings,
+      ...Object.fromEntries(
+        DEVICE_PREFERENCE_FIELDS.filter((field) => preferences[field] !== undefined).map(
+          (field) => [field, preferences[field]]
+        )
+      ),
+    }
+  } catch {
+    return settings
+  }
+}
+
+function pickDevicePreferences(settings: AppSettings): DevicePreferences {
+  return Object.fromEntries(
+    DEVICE_PREFERENCE_FIELDS.map((field) => [field, settings[field]])
+  ) as DevicePreferences
+}
+
+/**
+ * Settings for a newly created ledger. This device's default currency
+ * carries over, and its device preferences apply to every ledger anyway;
+ * categories, payment instruments, recurring templates, exchange rates and
+ * sync options start from the defaults. No field has a timestamp yet, so the
+ * settings in the ledger's repository win on its first sync.
+ */
+export function createLedgerSettings(from: AppSettings): AppSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    theme: from.theme,
+    defaultCurrency: from.defaultCurrency,
+    language: from.language,
+    enableMathExpressions: from.enableMathExpressions,
+    useMlOnlyForSmsImports: from.useMlOnlyForSmsImports,
+    backgroundSmsImportEnabled: from.backgroundSmsImportEnabled,
+    paymentInstrumentsMigrationVersion: from.paymentInstrumentsMigrationVersion,
+    fieldUpdatedAt: {},
+    updatedAt: new Date().toISOString(),
+  }
+}
+
 /**
  * Synchronous fast-path load for the initial app theme.
  * Uses MMKV's sync API so the persisted theme is available before the first
@@ -271,14 +513,17 @@ function migrateV8ToV9(settings: AppSettings): AppSettings {
  */
 export function loadSettingsSync(): AppSettings | null {
   try {
-    const stored = getItemSync(SETTINGS_KEY)
+    const stored = getItemSync(ledgerScopedKey(SETTINGS_KEY))
     if (!stored) return null
     const parsed = JSON.parse(stored) as AppSettings
     // Don't run async migrations here; hydrate covers the common case.
     // If the stored version is very old (e.g. <3) the async load will
     // correct it on the next tick, but the splash gate will keep the splash
     // visible so no flash is shown.
-    return hydrateSettingsFromJson(parsed)
+    return withDevicePreferences(
+      hydrateSettingsFromJson(parsed),
+      getItemSync(DEVICE_PREFERENCES_KEY)
+    )
   } catch {
     return null
   }
@@ -291,9 +536,17 @@ export function loadSettingsSync(): AppSettings | null {
  */
 export async function loadSettings(): Promise<AppSettings> {
   try {
-    const stored = await getItem(SETTINGS_KEY)
+    const [stored, devicePreferences] = await Promise.all([
+      getItem(ledgerScopedKey(SETTINGS_KEY)),
+      getItem(DEVICE_PREFERENCES_KEY),
+    ])
     if (stored) {
-      let parsed = JSON.parse(stored) as AppSettings
+      // Migrations save as they go, so they must not overwrite the device
+      // preferences with the ledger's older copy
+      let parsed = withDevicePreferences(
+        JSON.parse(stored) as AppSettings,
+        devicePreferences
+      )
 
       // Migrate if needed (version < 3)
       if (!parsed.version || parsed.version < 3) {
@@ -337,8 +590,48 @@ export async function loadSettings(): Promise<AppSettings> {
         await saveSettings(parsed)
       }
 
+      // Migrate from v9 to v10 (add per-category monthly budgets)
+      if (parsed.version < 10) {
+        parsed = migrateV9ToV10(parsed)
+        await saveSettings(parsed)
+      }
+
+      // Migrate from v10 to v11 (add recurring expense templates)
+      if (parsed.version < 11) {
+        parsed = migrateV10ToV11(parsed)
+        await saveSettings(parsed)
+      }
+
+      // Migrate from v11 to v12 (add exchange rates)
+      if (parsed.version < 12) {
+        parsed = migrateV11ToV12(parsed)
+        await saveSettings(parsed)
+      }
+
+      // Migrate from v12 to v13 (add attachment sync toggle)
+      if (parsed.version < 13) {
+        parsed = migrateV12ToV13(parsed)
+        await saveSettings(parsed)
+      }
+
+      // Migrate from v13 to v14 (add auto-sync interval)
+      if (parsed.version < 14) {
+        parsed = migrateV13ToV14(parsed)
+        await saveSettings(parsed)
+      }
+
+      // Migrate from v14 to v15 (add per-field timestamps)
+      if (parsed.version < 15) {
+        parsed = migrateV14ToV15(parsed)
+        await saveSettings(parsed)
+      }
+
       return hydrateSettingsFromJson(parsed)
     }
+    return withDevicePreferences(
+      { ...DEFAULT_SETTINGS, updatedAt: new Date().toISOString() },
+      devicePreferences
+    )
   } catch (error) {
     console.warn("Failed to load settings:", error)
   }
@@ -347,7 +640,8 @@ export async function loadSettings(): Promise<AppSettings> {
 
 /**
  * Save settings to AsyncStorage
- * Automatically updates the updatedAt timestamp
+ * Automatically updates the updatedAt timestamp. Device preferences are
+ * also saved for every ledger.
  */
 export async function saveSettings(settings: AppSettings): Promise<void> {
   try {
@@ -355,7 +649,10 @@ export async function saveSettings(settings: AppSettings): Promise<void> {
       ...settings,
       updatedAt: new Date().toISOString(),
     }
-    await setItem(SETTINGS_KEY, JSON.stringify(settingsToSave))
+    await Promise.all([
+      setItem(ledgerScopedKey(SETTINGS_KEY), JSON.stringify(settingsToSave)),
+      setItem(DEVICE_PREFERENCES_KEY, JSON.stringify(pickDevicePreferences(settings))),
+    ])
   } catch (error) {
     console.warn("Failed to save settings:", error)
     throw error
@@ -367,7 +664,7 @@ export async function saveSettings(settings: AppSettings): Promise<void> {
  */
 export async function markSettingsChanged(): Promise<void> {
   try {
-    await setItem(SETTINGS_CHANGED_KEY, "true")
+    await setItem(ledgerScopedKey(SETTINGS_CHANGED_KEY), "true")
   } catch (error) {
     console.warn("Failed to mark settings changed:", error)
   }
@@ -378,7 +675,7 @@ export async function markSettingsChanged(): Promise<void> {
  */
 export async function clearSettingsChanged(): Promise<void> {
   try {
-    await removeItem(SETTINGS_CHANGED_KEY)
+    await removeItem(ledgerScopedKey(SETTINGS_CHANGED_KEY))
   } catch (error) {
     console.warn("Failed to clear settings changed flag:", error)
   }
@@ -389,7 +686,7 @@ export async function clearSettingsChanged(): Promise<void> {
  */
 export async function hasSettingsChanged(): Promise<boolean> {
   try {
-    const value = await getItem(SETTINGS_CHANGED_KEY)
+    const value = await getItem(ledgerScopedKey(SETTINGS_CHANGED_KEY))
     return value === "true"
   } catch (error) {
     console.warn("Failed to check settings changed:", error)
@@ -402,7 +699,7 @@ export async function hasSettingsChanged(): Promise<boolean> {
  */
 export async function getSettingsHash(): Promise<string | null> {
   try {
-    return await getItem(SETTINGS_HASH_KEY)
+    return await getItem(ledgerScopedKey(SETTINGS_HASH_KEY))
   } catch (error) {
     console.warn("Failed to get settings hash:", error)
     return null
@@ -414,7 +711,7 @@ export async function getSettingsHash(): Promise<string | null> {
  */
 export async function saveSettingsHash(hash: string): Promise<void> {
   try {
-    await setItem(SETTINGS_HASH_KEY, hash)
+    await setItem(ledgerScopedKey(SETTINGS_HASH_KEY), hash)
   } catch (error) {
     console.warn("Failed to save settings hash:", error)
   }
@@ -440,15 +737,46 @@ export function computeSettingsHash(settings: AppSettings): string {
       deletedAt: inst.deletedAt,
       // Note: createdAt/updatedAt intentionally excluded from hash
     }))
+  const sortedTemplates = [...(settings.recurringTemplates ?? [])]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((template) => ({
+      id: template.id,
+      amount: template.amount,
+      currency: template.currency,
+      category: template.category,
+      note: template.note,
+      paymentMethod: template.paymentMethod,
+      frequency: template.frequency,
+      interval: template.interval,
+      customUnit: template.customUnit,
+      startDate: template.startDate,
+      endDate: template.endDate,
+      maxOccurrences: template.maxOccurrences,
+      deletedAt: template.deletedAt,
+      // Note: createdAt/updatedAt intentionally excluded from hash
+    }))
+  const sortedRates = [...(settings.exchangeRates ?? [])]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((rate) => ({
+      id: rate.id,
+      from: rate.from,
+      to: rate.to,
+      rate: rate.rate,
+      effectiveDate: rate.effectiveDate,
+      deletedAt: rate.deletedAt,
+      // Note: createdAt/updatedAt intentionally excluded from hash
+    }))
 
   const stableJson = JSON.stringify({
     autoSyncEnabled: settings.autoSyncEnabled,
+    autoSyncIntervalMinutes: settings.autoSyncIntervalMinutes,
     autoSyncTiming: settings.autoSyncTiming,
     categories: sortedCategories.map((c) => ({
       color: c.color,
       icon: c.icon,
       isDefault: c.isDefault,
       label: c.label,
+      monthlyBudget: c.monthlyBudget || undefined,
       order: c.order,
       // Note: updatedAt is intentionally excluded from hash
       // so that timestamp changes alone don't trigger re-sync
@@ -457,14 +785,17 @@ export function computeSettingsHash(settings: AppSettings): string {
     defaultPaymentMethod: settings.defaultPaymentMethod,
     defaultCurrency: settings.defaultCurrency,
     enableMathExpressions: settings.enableMathExpressions,
+    exchangeRates: sortedRates,
     backgroundSmsImportEnabled: settings.backgroundSmsImportEnabled,
     language: settings.language,
     paymentInstruments: sortedInstruments,
+    recurringTemplates: sortedTemplates,
+    syncAttachments: settings.syncAttachments,
     syncSettings: settings.syncSettings,
     theme: settings.theme,
     useMlOnlyForSmsImports: settings.useMlOnlyForSmsImports,
     version: settings.version,
-    // Note: updatedAt is intentionally excluded from hash
+    // Note: updatedAt and fieldUpdatedAt are intentionally excluded from hash
     // so that timestamp changes alone don't trigger re-sync
   })
   return computeContentHash(stableJson)
@@ -0,0 +1,157 @@
+import {
+  SYNCED_SETTINGS_FIELDS,
+  type AppSettings,
+  type SyncedSettingsField,
+} from "./settings-manager"
+import { mergeCategories } from "./category-merger"
+import { mergePaymentInstruments } from "./payment-instrument-merger"
+import { mergeRecurringTemplates } from "./recurring-template-merger"
+import { mergeExchangeRates } from "./exchange-rate-merger"
+
+export interface MergeSettingsResult {
+  merged: AppSettings
+  /** Synced fields whose remote value won */
+  updatedFromRemote: SyncedSettingsField[]
+  /** Synced fields whose local value won over a different remote value */
+  updatedFromLocal: SyncedSettingsField[]
+}
+
+function isNewerIso(a: string | undefined, b: string | undefined): boolean {
+  if (!a) return false
+  if (!b) return true
+  // ISO timestamps are lexicographically comparable.
+  return a > b
+}
+
+function assignField<K extends SyncedSettingsField>(
+  target: AppSettings,
+  source: AppSettings,
+  field: K
+): void {
+  target[field] = source[field]
+}
+
+/**
+ * Merge local settings with the remote `settings.json`, field by field.
+ *
+ * Strategy:
+ * - Each synced field keeps the value with the newer `fieldUpdatedAt` entry;
+ *   on ties (including both missing), prefer remote, as the list mergers do
+ * - Categories, payment instruments, recurring templates and exchange rates
+ *   are merged per item by their own mergers
+ * - Schema and migration versions take the higher of the two
+ * - Device-only fields (`syncSettings`, `updatedAt`) stay local
+ */
+export function mergeSettings(
+  local: AppSettings,
+  remote: AppSettings | undefined
+): MergeSettingsResult {
+  const merged: AppSettings = { ...local, fieldUpdatedAt: { ...local.fieldUpdatedAt } }
+  const updatedFromRemote: SyncedSettingsField[] = []
+  const updatedFromLocal: SyncedSettingsField[] = []
+
+  if (remote) {
+    for (const field of SYNCED_SETTINGS_FIELDS) {
+      const localAt = local.fieldUpdatedAt?.[field]
+      const remoteAt = remote.fieldUpdatedAt?.[field]
+      const chooseRemote = isNewerIso(remoteAt, localAt) || !isNewerIso(localAt, remoteAt)
+      const differs = local[field] !== remote[field]
+
+      if (chooseRemote) {
+        assignField(merged, remote, field)
+        if (remoteAt) {
+          merged.fieldUpdatedAt[field] = remoteAt
+        }
+        if (differs) {
+          updatedFromRemote.push(field)
+        }
+      } else if (differs) {
+        updatedFromLocal.push(field)
+      }
+    }
+
+    merged.categories = mergeCategories(local.categories, remote.categories).merged
+  }
+
+  merged.paymentInstruments = mergePaymentInstruments(
+    local.paymentInstruments,
+    remote?.paymentInstruments
+  ).merged
+  merged.recurringTemplates = mergeRecurringTemplates(
+    local.recurringTemplates,
+    remote?.recurringTemplates
+  ).merged
+  merged.exchangeRates = mergeExchangeRates(
+    local.exchangeRates,
+    remote?.exchangeRates
+  ).merged
+  merged.paymentInstrumentsMigrationVersion = Math.max(
+    local.paymentInstrumentsMigrationVersion ?? 0,
+    remote?.paymentInstrumentsMigrationVersion ?? 0
+  )
+  merged.categoriesVersion = Math.max(
+    local.categoriesVersion ?? 0,
+    remote?.categoriesVersion ?? 0
+  )
+  merged.version = Math.max(local.version ?? 0, remote?.version ?? 0)
+
+  return { merged, updatedFromRemote, updatedFromLocal }
+}
+
+/**
+ * Replay a queued `settings.patch` on top of merged settings.
+ *
+ * A synced field is only set when the patch is at least as new as the
+ * field's current timestamp, so an older local edit does not overwrite a
+ * newer remote one. Item lists are merged by id rather than replaced. Other
+ * fields, categories included, are applied as they are.
+ */
+export function applySettingsPatch(
+  settings: AppSettings,
+  updates: Partial<AppSettings>,
+  timestamp: string
+): AppSettings {
+  const next: AppSettings = {
+    ...settings,
+    fieldUpdatedAt: { ...settings.fieldUpdatedAt },
+  }
+  const synced = new Set<string>(SYNCED_SETTINGS_FIELDS)
+
+  for (const key of Object.keys(updates) as (keyof AppSettings)[]) {
+    if (synced.has(key)) {
+      const field = key as SyncedSettingsField
+      if (!isNewerIso(next.fieldUpdatedAt[field], timestamp)) {
+        Object.assign(next, { [field]: updates[field] })
+        next.fieldUpdatedAt[field] = timestamp
+      }
+      continue
+    }
+
+    switch (key) {
+      case "paymentInstruments":
+        next.paymentInstruments = mergePaymentInstruments(
+          updates.paymentInstruments,
+          next.paymentInstruments
+        ).merged
+        break
+      case "recurringTemplates":
+        next.recurringTemplates = mergeRecurringTemplates(
+          updates.recurringTemplates,
+          next.recurringTemplates
+        ).merged
+        break
+      case "exchangeRates":
+        next.exchangeRates = mergeExchangeRates(
+          updates.exchangeRates,
+          next.exchangeRates
+        ).merged
+        break
+      case "fieldUpdatedAt":
+        break
+      default:
+        Object.assign(next, { [key]: updates[key] })
+    }
+  }
+
+  return next
+}
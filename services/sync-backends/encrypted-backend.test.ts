@@ -0,0 +1,207 @@
+import {
+  decryptFileContent,
+  ENCRYPTION_KEY_FILE,
+  isEncryptedContent,
+  SyncEncryptionError,
+  withSyncEncryption,
+} from "./encrypted-backend"
+import type { SyncBackend } from "./sync-backend"
+import type { BatchCommitRequest } from "../github-sync"
+import {
+  deriveKeysFromPassword,
+  encryptWithKeys,
+  type DerivedKeys,
+} from "../../utils/crypto"
+
+let keys: DerivedKeys
+let otherKeys: DerivedKeys
+
+beforeAll(async () => {
+  keys = await deriveKeysFromPassword("correct horse", new Uint8Array(16), 10)
+  otherKeys = await deriveKeysFromPassword("battery staple", new Uint8Array(16), 10)
+})
+
+/** Backend holding files in memory; commits are recorded */
+function createMemoryBackend(files: Record<string, string>) {
+  const commits: BatchCommitRequest[] = []
+  const backend: SyncBackend = {
+    kind: "github",
+    getTree: async () => ({
+      success: true,
+      entries: Object.keys(files).map((path) => ({ path, sha: `sha-${path}` })),
+    }),
+    listFiles: async () =>
+      Object.keys(files).map((path) => ({ name: path, path, sha: `sha-${path}` })),
+    downloadFile: async (path) =>
+      path in files ? { content: files[path], sha: `sha-${path}` } : null,
+    downloadBinaryFile: async (path) =>
+      path in files ? new Uint8Array(Buffer.from(files[path], "base64")) : null,
+    commit: async (request) => {
+      commits.push(request)
+      for (const upload of request.uploads) {
+        files[upload.path] = upload.content
+      }
+      return { success: true }
+    },
+    getLatestChangeTimestamp: async () => ({ timestamp: new Date(0).toISOString() }),
+    validate: async () => ({ valid: true }),
+  }
+  return { backend, files, commits }
+}
+
+describe("encrypted backend", () => {
+  it("encrypts text uploads and attachments and leaves the key file alone", async () => {
+    const memory = createMemoryBackend({ [ENCRYPTION_KEY_FILE]: "{}" })
+    const backend = withSyncEncryption(memory.backend, keys)
+
+    await backend.commit({
+      uploads: [
+        { path: "expenses-2024-01-01.csv", content: "id,amount\n1,20" },
+        { path: "attachments/r.jpg", content: "AAEC", encoding: "base64" },
+        { path: ENCRYPTION_KEY_FILE, content: '{"salt":"x"}' },
+      ],
+      deletions: [],
+      message: "Sync",
+    })
+
+    expect(isEncryptedContent(memory.files["expenses-2024-01-01.csv"])).toBe(true)
+    expect(memory.files["expenses-2024-01-01.csv"]).not.toContain("amount")
+    expect(memory.files["attachments/r.jpg"]).not.toBe("AAEC")
+    expect(memory.files[ENCRYPTION_KEY_FILE]).toBe('{"salt":"x"}')
+
+    await expect(backend.downloadFile("expenses-2024-01-01.csv")).resolves.toEqual({
+      content: "id,amount\n1,20",
+      sha: "sha-expenses-2024-01-01.csv",
+    })
+    await expect(backend.downloadBinaryFile("attachments/r.jpg")).resolves.toEqual(
+      new Uint8Array([0, 1, 2])
+    )
+    await expect(
+      withSyncEncryption(memory.backend, otherKeys).downloadBinaryFile(
+        "attachments/r.jpg"
+      )
+    ).rejects.toMatchObject({ code: "WRONG_KEY" })
+  })
+
+  it("reads plaintext files unchanged without keys", () => {
+    expect(decryptFileContent("id,amount\n", null, "settings.json")).toBe("id,amount\n")
+    expect(
+      decryptFileContent("id,amount\n", keys, "settings.json", { allowPlaintext: true })
+    ).toBe("id,amount\n")
+  })
+
+  it("refuses plaintext day files and settings once the repository is encrypted", async () => {
+    const memory = createMemoryBackend({
+      [ENCRYPTION_KEY_FILE]: "{}",
+      "expenses-2024-01-01.csv": "id,amount\n1,20",
+      "settings.json": "{}",
+      "attachments/r.jpg": "AAEC",
+    })
+    const backend = withSyncEncryption(memory.backend, keys)
+
+    expect(() => decryptFileContent("id,amount\n", keys, "settings.json")).toThrow(
+      SyncEncryptionError
+    )
+    await expect(backend.downloadFile("expenses-2024-01-01.csv")).rejects.toMatchObject({
+      code: "UNENCRYPTED_FILE",
+    })
+    await expect(backend.downloadFile("settings.json")).rejects.toMatchObject({
+      code: "UNENCRYPTED_FILE",
+    })
+    await expect(backend.downloadFile(ENCRYPTION_KEY_FILE)).resolves.toMatchObject({
+      content: "{}",
+    })
+    // Receipts uploaded before encryption covered them still open
+    await expect(backend.downloadBinaryFile("attachments/r.jpg")).resolves.toEqual(
+      new Uint8Array([0, 1, 2])
+    )
+  })
+
+  it("refuses encrypted files moved to another path", async () => {
+    const memory = createMemoryBackend({ [ENCRYPTION_KEY_FILE]: "{}" })
+    const backend = withSyncEncryption(memory.backend, keys)
+    await backend.commit({
+      uploads: [
+        { path: "expenses-2024-01-01.csv", content: "id,amount\n1,20" },
+        { path: "expenses-2024-01-02.csv", content: "id,amount\n2,30" },
+        { path: "attachments/a.jpg", content: "AAEC", encoding: "base64" },
+        { path: "attachments/b.jpg", content: "AwQF", encoding: "base64" },
+      ],
+      deletions: [],
+      message: "Sync",
+    })
+
+    const { files } = memory
+    ;[files["expenses-2024-01-01.csv"], files["expenses-2024-01-02.csv"]] = [
+      files["expenses-2024-01-02.csv"],
+      files["expenses-2024-01-01.csv"],
+    ]
+    ;[files["attachments/a.jpg"], files["attachments/b.jpg"]] = [
+      files["attachments/b.jpg"],
+      files["attachments/a.jpg"],
+    ]
+
+    await expect(backend.downloadFile("expenses-2024-01-01.csv")).rejects.toMatchObject({
+      code: "WRONG_KEY",
+    })
+    await expect(backend.downloadBinaryFile("attachments/a.jpg")).rejects.toMatchObject({
+      code: "WRONG_KEY",
+    })
+  })
+
+  it("opens files in the format without path binding only when rewriting", async () => {
+    const legacy = `#expense-buddy-encrypted v1\n${JSON.stringify(
+      encryptWithKeys("id,amount\n1,20", keys)
+    )}\n`
+    const memory = createMemoryBackend({
+      [ENCRYPTION_KEY_FILE]: "{}",
+      "expenses-2024-01-01.csv": legacy,
+    })
+
+    await expect(
+      withSyncEncryption(memory.backend, keys).downloadFile("expenses-2024-01-01.csv")
+    ).rejects.toMatchObject({ code: "LEGACY_FILE" })
+    expect(
+      decryptFileContent(legacy, keys, "expenses-2024-01-01.csv", {
+        allowPlaintext: true,
+      })
+    ).toBe("id,amount\n1,20")
+  })
+
+  it("refuses to sync an encrypted repository without the key", async () => {
+    const memory = createMemoryBackend({
+      [ENCRYPTION_KEY_FILE]: "{}",
+      "expenses-2024-01-01.csv": "",
+    })
+    await withSyncEncryption(memory.backend, keys).commit({
+      uploads: [{ path: "expenses-2024-01-01.csv", content: "id\n" }],
+      deletions: [],
+      message: "Sync",
+    })
+
+    const withoutKey = withSyncEncryption(memory.backend, null)
+    await expect(withoutKey.getTree()).rejects.toMatchObject({ code: "KEY_REQUIRED" })
+    await expect(withoutKey.listFiles()).rejects.toBeInstanceOf(SyncEncryptionError)
+    await expect(withoutKey.downloadFile("expenses-2024-01-01.csv")).rejects.toThrow(
+      "This repository is end-to-end encrypted"
+    )
+
+    const wrongKey = withSyncEncryption(memory.backend, otherKeys)
+    await expect(wrongKey.downloadFile("expenses-2024-01-01.csv")).rejects.toMatchObject({
+      code: "WRONG_KEY",
+    })
+  })
+
+  it("stops a device with a key from writing to a plaintext repository", async () => {
+    const memory = createMemoryBackend({ "expenses-2024-01-01.csv": "id\n" })
+
+    await expect(
+      withSyncEncryption(memory.backend, keys).getTree()
+    ).rejects.toMatchObject({
+      code: "NOT_ENCRYPTED",
+    })
+    await expect(
+      withSyncEncryption(memory.backend, null).getTree()
+    ).resolves.toMatchObject({ success: true })
+  })
+})
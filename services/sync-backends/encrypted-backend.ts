@@ -0,0 +1,361 @@
+/**
+ * End-to-end encryption of synced text files
+ *
+ * Wraps any SyncBackend so day CSVs, settings.json and receipt attachments
+ * are encrypted on the way up and decrypted on the way down. Paths are
+ * unchanged, so dirty days, upload hashes (taken over the plaintext) and the
+ * remote SHA cache work as before. Only the key file that marks a repository
+ * as encrypted and the layout file stay plaintext.
+ *
+ * With keys, a day CSV or settings.json without the encryption header is
+ * refused: anyone with write access could otherwise slip in plaintext
+ * records the MAC never covered.
+ */
+
+import i18next from "i18next"
+import type { BatchCommitRequest } from "../github-sync"
+import type { SyncBackend } from "./sync-backend"
+import { LAYOUT_FILE, parseExpenseFilename } from "../daily-file-manager"
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decryptBytesWithKeys,
+  decryptWithKeys,
+  encryptBytesWithKeys,
+  encryptWithKeys,
+  utf8Encode,
+  type DerivedKeys,
+  type KeyEnvelope,
+} from "../../utils/crypto"
+
+/** Repository root file holding the salt and a passphrase check */
+export const ENCRYPTION_KEY_FILE = "encryption.json"
+
+/**
+ * First line of every encrypted file; the envelope JSON follows. The MAC
+ * covers the file's path, so contents cannot be swapped between files.
+ */
+const ENCRYPTED_FILE_HEADER = "#expense-buddy-encrypted v2"
+
+/** First line of files encrypted before the MAC covered the path */
+const LEGACY_FILE_HEADER = "#expense-buddy-encrypted v1"
+
+/** Start of every encrypted attachment; the IV, ciphertext and MAC follow */
+const ENCRYPTED_BINARY_HEADER = utf8Encode(ENCRYPTED_FILE_HEADER + "\n")
+
+const LEGACY_BINARY_HEADER = utf8Encode(LEGACY_FILE_HEADER + "\n")
+
+export type SyncEncryptionErrorCode =
+  | "KEY_REQUIRED"
+  | "WRONG_KEY"
+  | "NOT_ENCRYPTED"
+  | "UNENCRYPTED_FILE"
+  | "LEGACY_FILE"
+
+/**
+ * Sync cannot go on with this device's key: the repository is encrypted and
+ * no key is saved, the saved key does not open its files, a key is saved for
+ * a repository that is no longer encrypted, or a file of an encrypted
+ * repository is plaintext or in the format without path binding.
+ */
+export class SyncEncryptionError extends Error {
+  public readonly code: SyncEncryptionErrorCode
+
+  constructor(code: SyncEncryptionErrorCode) {
+    super(getSyncEncryptionMessage(code))
+    this.name = "SyncEncryptionError"
+    this.code = code
+  }
+}
+
+function getSyncEncryptionMessage(code: SyncEncryptionErrorCode): string {
+  switch (code) {
+    case "KEY_REQUIRED":
+      return (
+        i18next.t("syncEncryption.errors.keyRequired") ??
+        "This repository is end-to-end encrypted. Enter its passphrase in Settings → Sync encryption to sync on this device."
+      )
+    case "WRONG_KEY":
+      return (
+        i18next.t("syncEncryption.errors.wrongKey") ??
+        "The passphrase saved on this device no longer opens the synced files. Enter the current passphrase in Settings → Sync encryption."
+      )
+    case "NOT_ENCRYPTED":
+      return (
+        i18next.t("syncEncryption.errors.notEncrypted") ??
+        "Encryption was turned off for this repository on another device. Forget the passphrase in Settings → Sync encryption to keep syncing."
+      )
+    case "UNENCRYPTED_FILE":
+      return (
+        i18next.t("syncEncryption.errors.unencryptedFile") ??
+        "A synced file is not encrypted although this repository is. Change the passphrase in Settings → Sync encryption to encrypt every file again."
+      )
+    case "LEGACY_FILE":
+      return (
+        i18next.t("syncEncryption.errors.legacyFile") ??
+        "A synced file uses an older encryption format. Change the passphrase in Settings → Sync encryption to encrypt every file again."
+      )
+  }
+}
+
+export function isEncryptedContent(content: string): boolean {
+  return content.startsWith(ENCRYPTED_FILE_HEADER + "\n")
+}
+
+function isLegacyContent(content: string): boolean {
+  return content.startsWith(LEGACY_FILE_HEADER + "\n")
+}
+
+/** Encrypted form of the file at `path`; it only decrypts for that path */
+export function encryptFileContent(
+  content: string,
+  keys: DerivedKeys,
+  path: string
+): string {
+  const envelope = encryptWithKeys(content, keys, normalizePath(path))
+  return `${ENCRYPTED_FILE_HEADER}\n${JSON.stringify(envelope)}\n`
+}
+
+export interface DecryptOptions {
+  /**
+   * Return files without the header as is even though keys are given, and
+   * open files in the format without path binding. For rewriting a
+   * repository part-way through being encrypted, and for history from
+   * before it was.
+   */
+  allowPlaintext?: boolean
+}
+
+/**
+ * Plaintext of the synced file at `path`. Without keys, files without the
+ * header are returned as is.
+ *
+ * @throws SyncEncryptionError when the file is encrypted and the keys are
+ * missing or do not open it at this path, or when keys are given and the
+ * file is plaintext or in the legacy format unless `allowPlaintext` is set
+ */
+export function decryptFileContent(
+  content: string,
+  keys: DerivedKeys | null,
+  path: string,
+  { allowPlaintext = false }: DecryptOptions = {}
+): string {
+  const legacy = isLegacyContent(content)
+  if (!legacy && !isEncryptedContent(content)) {
+    if (keys && !allowPlaintext) {
+      throw new SyncEncryptionError("UNENCRYPTED_FILE")
+    }
+    return content
+  }
+  if (!keys) {
+    throw new SyncEncryptionError("KEY_REQUIRED")
+  }
+  if (legacy && !allowPlaintext) {
+    throw new SyncEncryptionError("LEGACY_FILE")
+  }
+
+  const header = legacy ? LEGACY_FILE_HEADER : ENCRYPTED_FILE_HEADER
+  let envelope: KeyEnvelope
+  try {
+    envelope = JSON.parse(content.slice(header.length + 1))
+  } catch {
+    throw new SyncEncryptionError("WRONG_KEY")
+  }
+  const plaintext = decryptWithKeys(
+    envelope,
+    keys,
+    legacy ? undefined : normalizePath(path)
+  )
+  if (plaintext === null) {
+    throw new SyncEncryptionError("WRONG_KEY")
+  }
+  return plaintext
+}
+
+function hasBinaryHeader(bytes: Uint8Array, header: Uint8Array): boolean {
+  return (
+    bytes.length >= header.length && header.every((byte, index) => bytes[index] === byte)
+  )
+}
+
+/** Encrypted form of the attachment at `path`; it only decrypts for that path */
+export function encryptBinaryContent(
+  bytes: Uint8Array,
+  keys: DerivedKeys,
+  path: string
+): Uint8Array {
+  const sealed = encryptBytesWithKeys(bytes, keys, normalizePath(path))
+  const result = new Uint8Array(ENCRYPTED_BINARY_HEADER.length + sealed.length)
+  result.set(ENCRYPTED_BINARY_HEADER)
+  result.set(sealed, ENCRYPTED_BINARY_HEADER.length)
+  return result
+}
+
+/**
+ * Bytes of the synced attachment at `path`. Attachments without the header
+ * are returned as is, so receipts uploaded before encryption covered them
+ * still open; for the same reason the legacy format opens without checking
+ * the path.
+ *
+ * @throws SyncEncryptionError when the attachment is encrypted and the keys
+ * are missing or do not open it at this path
+ */
+export function decryptBinaryContent(
+  bytes: Uint8Array,
+  keys: DerivedKeys | null,
+  path: string
+): Uint8Array {
+  const legacy = hasBinaryHeader(bytes, LEGACY_BINARY_HEADER)
+  if (!legacy && !hasBinaryHeader(bytes, ENCRYPTED_BINARY_HEADER)) {
+    return bytes
+  }
+  if (!keys) {
+    throw new SyncEncryptionError("KEY_REQUIRED")
+  }
+  const plaintext = decryptBytesWithKeys(
+    bytes.subarray(ENCRYPTED_BINARY_HEADER.length),
+    keys,
+    legacy ? undefined : normalizePath(path)
+  )
+  if (plaintext === null) {
+    throw new SyncEncryptionError("WRONG_KEY")
+  }
+  return plaintext
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^\/+/, "")
+}
+
+function isEncryptedPath(path: string): boolean {
+  const normalized = normalizePath(path)
+  return normalized !== ENCRYPTION_KEY_FILE && normalized !== LAYOUT_FILE
+}
+
+/** Files an encrypted repository must never hold as plaintext */
+function requiresEncryption(path: string): boolean {
+  const normalized = normalizePath(path)
+  return parseExpenseFilename(normalized) !== null || normalized === "settings.json"
+}
+
+/**
+ * Backend that encrypts with `keys`, or stays plaintext when keys is null.
+ *
+ * Listing the repository root also checks that this device's key state
+ * matches the remote: a key file without local keys, or local keys without
+ * a key file, stops the sync before anything is written.
+ */
+export function withSyncEncryption(
+  backend: SyncBackend,
+  keys: DerivedKeys | null
+): SyncBackend {
+  const checkKeyFile = (paths: string[]) => {
+    const hasKeyFile = paths.includes(ENCRYPTION_KEY_FILE)
+    if (hasKeyFile && !keys) {
+      throw new SyncEncryptionError("KEY_REQUIRED")
+    }
+    if (!hasKeyFile && keys) {
+      throw new SyncEncryptionError("NOT_ENCRYPTED")
+    }
+  }
+
+  const history = backend.history
+
+  return {
+    kind: backend.kind,
+
+    async getTree() {
+      const result = await backend.getTree()
+      if (result.success) {
+        checkKeyFile(result.entries.map((entry) => entry.path))
+      }
+      return result
+    },
+
+    async listFiles(path = "") {
+      const files = await backend.listFiles(path)
+      if (!path) {
+        checkKeyFile(files.map((file) => file.path.replace(/^\/+/, "")))
+      }
+      return files
+    },
+
+    async downloadFile(path) {
+      const file = await backend.downloadFile(path)
+      if (!file || !isEncryptedPath(path)) {
+        return file
+      }
+      return {
+        content: decryptFileContent(file.content, keys, path, {
+          allowPlaintext: !requiresEncryption(path),
+        }),
+        sha: file.sha,
+      }
+    },
+
+    async downloadBinaryFile(path) {
+      const bytes = await backend.downloadBinaryFile(path)
+      return bytes && decryptBinaryContent(bytes, keys, path)
+    },
+
+    commit(request: BatchCommitRequest) {
+      if (!keys) {
+        return backend.commit(request)
+      }
+      return backend.commit({
+        ...request,
+        uploads: request.uploads.map((upload) => {
+          if (!isEncryptedPath(upload.path)) {
+            return upload
+          }
+          return upload.encoding === "base64"
+            ? {
+                ...upload,
+                content: bytesToBase64(
+                  encryptBinaryContent(base64ToBytes(upload.content), keys, upload.path)
+                ),
+              }
+            : {
+                ...upload,
+                content: encryptFileContent(upload.content, keys, upload.path),
+              }
+        }),
+      })
+    },
+
+    getLatestChangeTimestamp: () => backend.getLatestChangeTimestamp(),
+
+    validate: () => backend.validate(),
+
+    // Commits from before the repository was encrypted hold plaintext
+    history: history && {
+      listCommits: (limit) => history.listCommits(limit),
+      getCommitChanges: (sha) => history.getCommitChanges(sha),
+      async downloadFileAt(path, ref) {
+        const file = await history.downloadFileAt(path, ref)
+        if (!file || !isEncryptedPath(path)) {
+          return file
+        }
+        return {
+          content: decryptFileContent(file.content, keys, path, {
+            allowPlaintext: true,
+          }),
+          sha: file.sha,
+        }
+      },
+      getTreeAt: (ref) => history.getTreeAt(ref),
+      async downloadBlob(path, sha) {
+        const file = await history.downloadBlob(path, sha)
+        if (!file || !isEncryptedPath(path)) {
+          return file
+        }
+        return {
+          content: decryptFileContent(file.content, keys, path, {
+            allowPlaintext: true,
+          }),
+          sha: file.sha,
+        }
+      },
+    },
+  }
+}
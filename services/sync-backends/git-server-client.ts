@@ -0,0 +1,124 @@
+/**
+ * HTTP plumbing shared by the self-hosted git backends (Gitea/Forgejo and
+ * GitLab). Failed responses are mapped through github-api-error.ts so every
+ * git host reports auth, permission and rate-limit failures the same way.
+ */
+
+import i18next from "i18next"
+import type { BatchCommitResult, BatchFileUpload } from "../github-sync"
+import {
+  toGitHubApiError,
+  toGitHubErrorCode,
+  type GitProvider,
+} from "../github-api-error"
+import { isSyncAuthError, SyncBackendError } from "./sync-backend-error"
+import type { RemoteTreeResult, ValidateBackendResult } from "./sync-backend"
+import { getUserFriendlyMessage } from "../error-utils"
+import { withRetry } from "../retry"
+import { bytesToBase64, utf8Encode } from "../../utils/crypto"
+
+const RETRY_OPTIONS = { maxRetries: 2, baseDelayMs: 500 }
+
+export interface GitServerClient {
+  /**
+   * Send a request to a path under the API root. JSON bodies are serialised;
+   * statuses in `allow` are returned instead of thrown. Only GET is retried,
+   * so a write is never applied twice.
+   */
+  request(
+    path: string,
+    init?: { method?: string; body?: unknown },
+    allow?: number[]
+  ): Promise<Response>
+}
+
+/**
+ * API root for a server address. Users paste the address they browse to;
+ * an address that already ends in the API path is kept as is.
+ */
+export function resolveApiBaseUrl(serverUrl: string, apiPath: string): string {
+  const base = serverUrl.trim().replace(/\/+$/, "")
+  return base.endsWith(apiPath) ? base : base + apiPath
+}
+
+export function createGitServerClient(params: {
+  provider: GitProvider
+  baseUrl: string
+  headers: Record<string, string>
+}): GitServerClient {
+  return {
+    async request(path, init = {}, allow = []) {
+      const method = init.method ?? "GET"
+      const send = async () => {
+        const response = await fetch(params.baseUrl + path, {
+          method,
+          headers: {
+            Accept: "application/json",
+            ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}),
+            ...params.headers,
+          },
+          body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+        })
+        if (response.ok || allow.includes(response.status)) {
+          return response
+        }
+        throw await toGitHubApiError(response, params.provider)
+      }
+      return method === "GET" ? withRetry(send, RETRY_OPTIONS) : send()
+    },
+  }
+}
+
+/** Repository paths keep their slashes; each segment is escaped */
+export function encodeRepoPath(path: string): string {
+  return path.replace(/^\/+/, "").split("/").map(encodeURIComponent).join("/")
+}
+
+/** Upload content as base64, which both APIs accept for text and binary files */
+export function toBase64Content(upload: BatchFileUpload): string {
+  return upload.encoding === "base64"
+    ? upload.content
+    : bytesToBase64(utf8Encode(upload.content))
+}
+
+export function describeError(error: unknown): string {
+  return error instanceof SyncBackendError ? error.message : getUserFriendlyMessage(error)
+}
+
+export function repoFormatError(): string {
+  return (
+    i18next.t("githubSync.errors.repoFormat") ??
+    "Invalid repository format. Use: username/repo"
+  )
+}
+
+export function toTreeFailure(error: unknown): RemoteTreeResult {
+  if (isSyncAuthError(error)) {
+    return {
+      success: false,
+      error: error.message,
+      authStatus: error.status,
+      shouldSignOut: error.shouldSignOut,
+    }
+  }
+  return { success: false, error: describeError(error) }
+}
+
+export function toCommitFailure(error: unknown): BatchCommitResult {
+  if (error instanceof SyncBackendError) {
+    return { success: false, error: error.message, errorCode: toGitHubErrorCode(error) }
+  }
+  return { success: false, error: describeError(error), errorCode: "UNKNOWN" }
+}
+
+export function toValidateFailure(error: unknown): ValidateBackendResult {
+  if (isSyncAuthError(error)) {
+    return {
+      valid: false,
+      error: error.message,
+      authStatus: error.status,
+      shouldSignOut: error.shouldSignOut,
+    }
+  }
+  return { valid: false, error: describeError(error) }
+}
@@ -0,0 +1,165 @@
+import { createGiteaBackend } from "./gitea-backend"
+import { SyncBackendError } from "./sync-backend-error"
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+const API = "https://git.example.com/api/v1"
+const REPO = `${API}/repos/finance/expenses`
+
+const backend = createGiteaBackend({
+  backend: "gitea",
+  token: "gitea-token",
+  repo: "finance/expenses",
+  branch: "main",
+  apiBaseUrl: "https://git.example.com/",
+})
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  })
+}
+
+/** Answer the branch and tree lookups that precede every commit */
+function mockTree(tree: { path: string; sha: string }[]) {
+  return (url: string) => {
+    if (url === `${REPO}/branches/main`) {
+      return json(200, { commit: { id: "c1" } })
+    }
+    if (url.startsWith(`${REPO}/git/trees/c1`)) {
+      return json(200, {
+        tree: tree.map((entry) => ({ ...entry, type: "blob" })),
+        truncated: false,
+        total_count: tree.length,
+      })
+    }
+    return undefined
+  }
+}
+
+describe("Gitea backend", () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it("reads the branch tree with blob SHAs from the configured server", async () => {
+    const tree = mockTree([{ path: "expenses-2024-01-01.csv", sha: "b1" }])
+    mockFetch.mockImplementation(async (url: string) => tree(url))
+
+    await expect(backend.getTree()).resolves.toEqual({
+      success: true,
+      entries: [{ path: "expenses-2024-01-01.csv", sha: "b1" }],
+    })
+    const [url, init] = mockFetch.mock.calls[1]
+    expect(url).toBe(`${REPO}/git/trees/c1?recursive=true&per_page=1000&page=1`)
+    expect(init.headers.Authorization).toBe("token gitea-token")
+  })
+
+  it("commits creates, updates and deletes in one change-files request", async () => {
+    const tree = mockTree([
+      { path: "expenses-2024-01-01.csv", sha: "old" },
+      { path: "expenses-2023-12-31.csv", sha: "gone" },
+    ])
+    mockFetch.mockImplementation(
+      async (url: string, init: RequestInit) =>
+        tree(url) ??
+        (init.method === "POST"
+          ? json(201, {
+              commit: { sha: "c2" },
+              files: [
+                { path: "expenses-2024-01-01.csv", sha: "new1" },
+                { path: "expenses-2024-01-02.csv", sha: "new2" },
+                null,
+              ],
+            })
+          : json(500, {}))
+    )
+
+    const result = await backend.commit({
+      uploads: [
+        { path: "expenses-2024-01-01.csv", content: "id\n" },
+        { path: "expenses-2024-01-02.csv", content: "id\n" },
+      ],
+      deletions: [{ path: "expenses-2023-12-31.csv" }, { path: "already-gone.csv" }],
+      message: "Sync",
+    })
+
+    expect(result).toEqual({
+      success: true,
+      commitSha: "c2",
+      blobShas: { "expenses-2024-01-01.csv": "new1", "expenses-2024-01-02.csv": "new2" },
+    })
+    const post = mockFetch.mock.calls.find(([, init]) => init.method === "POST")
+    expect(post?.[0]).toBe(`${REPO}/contents`)
+    expect(JSON.parse(post?.[1].body)).toEqual({
+      branch: "main",
+      message: "Sync",
+      files: [
+        {
+          operation: "update",
+          path: "expenses-2024-01-01.csv",
+          content: "aWQK",
+          sha: "old",
+        },
+        { operation: "create", path: "expenses-2024-01-02.csv", content: "aWQK" },
+        { operation: "delete", path: "expenses-2023-12-31.csv", sha: "gone" },
+      ],
+    })
+  })
+
+  it("maps a rejected token through the shared error mapping", async () => {
+    mockFetch.mockImplementation(async () => json(401, { message: "token is required" }))
+
+    await expect(backend.getTree()).resolves.toMatchObject({
+      success: false,
+      authStatus: 401,
+      shouldSignOut: true,
+    })
+    await expect(backend.downloadFile("settings.json")).rejects.toBeInstanceOf(
+      SyncBackendError
+    )
+    await expect(
+      backend.commit({
+        uploads: [{ path: "a.csv", content: "" }],
+        deletions: [],
+        message: "",
+      })
+    ).resolves.toMatchObject({ success: false, errorCode: "AUTH" })
+  })
+
+  it("decodes downloaded files and treats 404 as missing", async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        json(200, { type: "file", content: "aWQs4oK5Cg==", sha: "s1" })
+      )
+      .mockResolvedValueOnce(json(404, { message: "not found" }))
+
+    await expect(backend.downloadFile("expenses-2024-01-01.csv")).resolves.toEqual({
+      content: "id,₹\n",
+      sha: "s1",
+    })
+    await expect(backend.downloadFile("missing.csv")).resolves.toBeNull()
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      `${REPO}/contents/expenses-2024-01-01.csv?ref=main`
+    )
+  })
+
+  it("validates the token and requires push access", async () => {
+    mockFetch
+      .mockResolvedValueOnce(json(200, { login: "me" }))
+      .mockResolvedValueOnce(json(200, { permissions: { push: true } }))
+      .mockResolvedValueOnce(json(200, { login: "me" }))
+      .mockResolvedValueOnce(json(200, { permissions: { pull: true } }))
+
+    await expect(backend.validate()).resolves.toEqual({ valid: true })
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([`${API}/user`, REPO])
+
+    const readOnly = await backend.validate()
+    expect(readOnly.valid).toBe(false)
+    expect(readOnly.error).toBe(
+      "No write access to this repository. Please choose a repo you can push to."
+    )
+  })
+})
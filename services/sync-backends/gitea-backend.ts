@@ -0,0 +1,287 @@
+/**
+ * Gitea / Forgejo backend
+ *
+ * Gitea has no endpoints for creating blobs, trees and commits one by one,
+ * so a sync is written with the "change files" endpoint
+ * (POST /repos/{owner}/{repo}/contents), which applies every create, update
+ * and delete in one commit. Updates and deletes must name the blob SHA they
+ * replace; it is read from the branch tree just before committing.
+ */
+
+import i18next from "i18next"
+import type { BatchCommitRequest, BatchCommitResult } from "../github-sync"
+import type { SyncConfig } from "../../types/sync"
+import type {
+  RemoteFile,
+  RemoteFileEntry,
+  SyncBackend,
+  ValidateBackendResult,
+} from "./sync-backend"
+import {
+  createGitServerClient,
+  describeError,
+  encodeRepoPath,
+  repoFormatError,
+  resolveApiBaseUrl,
+  toBase64Content,
+  toCommitFailure,
+  toTreeFailure,
+  toValidateFailure,
+} from "./git-server-client"
+import { base64ToBytes, utf8Decode } from "../../utils/crypto"
+
+const API_PATH = "/api/v1"
+/** Gitea's default maximum page size for the trees endpoint */
+const TREE_PAGE_SIZE = 1000
+
+interface GiteaTreeResponse {
+  tree?: { path: string; type: string; sha: string }[]
+  truncated?: boolean
+  total_count?: number
+}
+
+interface GiteaContentResponse {
+  name: string
+  path: string
+  sha: string
+  type: "file" | "dir" | "symlink" | "submodule"
+  content?: string | null
+}
+
+interface GiteaChangeFilesResponse {
+  commit?: { sha?: string }
+  /** One entry per change, null for deletions */
+  files?: ({ path?: string; sha?: string } | null)[]
+}
+
+interface GiteaCommitResponse {
+  created?: string
+  commit?: { author?: { date?: string }; committer?: { date?: string } }
+}
+
+export function createGiteaBackend(config: SyncConfig): SyncBackend {
+  const { token, repo, branch } = config
+  const [owner, repoName, ...rest] = repo.split("/")
+  const hasValidRepo = Boolean(owner && repoName) && rest.length === 0
+
+  const client = createGitServerClient({
+    provider: "gitea",
+    baseUrl: resolveApiBaseUrl(config.apiBaseUrl ?? "", API_PATH),
+    headers: { Authorization: `token ${token}` },
+  })
+
+  const repoPath = `/repos/${encodeURIComponent(owner ?? "")}/${encodeURIComponent(
+    repoName ?? ""
+  )}`
+  const ref = encodeURIComponent(branch)
+  const contentsPath = (path: string) =>
+    path ? `${repoPath}/contents/${encodeRepoPath(path)}` : `${repoPath}/contents`
+
+  /** Every file on the branch with its blob SHA */
+  const readTree = async (): Promise<RemoteFileEntry[]> => {
+    const branchResponse = await client.request(`${repoPath}/branches/${ref}`)
+    const { commit } = (await branchResponse.json()) as { commit: { id: string } }
+
+    const entries: RemoteFileEntry[] = []
+    let seen = 0
+    for (let page = 1; ; page++) {
+      const response = await client.request(
+        `${repoPath}/git/trees/${commit.id}?recursive=true&per_page=${TREE_PAGE_SIZE}&page=${page}`
+      )
+      const data = (await response.json()) as GiteaTreeResponse
+      const tree = data.tree ?? []
+      for (const entry of tree) {
+        if (entry.type === "blob") {
+          entries.push({ path: entry.path, sha: entry.sha })
+        }
+      }
+      seen += tree.length
+      if (tree.length === 0 || !data.truncated || seen >= (data.total_count ?? 0)) {
+        return entries
+      }
+    }
+  }
+
+  return {
+    kind: "gitea",
+
+    async getTree() {
+      if (!hasValidRepo) {
+        return { success: false, error: repoFormatError() }
+      }
+      try {
+        return { success: true, entries: await readTree() }
+      } catch (error) {
+        return toTreeFailure(error)
+      }
+    },
+
+    async listFiles(path = ""): Promise<RemoteFile[]> {
+      const response = await client.request(`${contentsPath(path)}?ref=${ref}`, {}, [404])
+      if (response.status === 404) {
+        return []
+      }
+      const data = (await response.json()) as
+        | GiteaContentResponse[]
+        | GiteaContentResponse
+      if (!Array.isArray(data)) {
+        return []
+      }
+      return data
+        .filter((item) => item.type === "file")
+        .map((item) => ({ name: item.name, path: item.path, sha: item.sha }))
+    },
+
+    async downloadFile(path) {
+      const response = await client.request(`${contentsPath(path)}?ref=${ref}`, {}, [404])
+      if (response.status === 404) {
+        return null
+      }
+      const data = (await response.json()) as GiteaContentResponse
+      return {
+        content: utf8Decode(base64ToBytes((data.content ?? "").replace(/\s/g, ""))),
+        sha: data.sha,
+      }
+    },
+
+    async downloadBinaryFile(path) {
+      const response = await client.request(
+        `${repoPath}/raw/${encodeRepoPath(path)}?ref=${ref}`,
+        {},
+        [404]
+      )
+      if (response.status === 404) {
+        return null
+      }
+      return new Uint8Array(await response.arrayBuffer())
+    },
+
+    async commit(request: BatchCommitRequest): Promise<BatchCommitResult> {
+      if (request.uploads.length === 0 && request.deletions.length === 0) {
+        return { success: true }
+      }
+
+      try {
+        const existing = new Map(
+          (await readTree()).map((entry) => [entry.path, entry.sha] as const)
+        )
+        const files = [
+          ...request.uploads.map((upload) => {
+            const path = upload.path.replace(/^\/+/, "")
+            const sha = existing.get(path)
+            return {
+              operation: sha ? "update" : "create",
+              path,
+              content: toBase64Content(upload),
+              ...(sha ? { sha } : {}),
+            }
+          }),
+          // Deleting a file that is already gone would fail the whole commit
+          ...request.deletions
+            .map((deletion) => deletion.path.replace(/^\/+/, ""))
+            .filter((path) => existing.has(path))
+            .map((path) => ({ operation: "delete", path, sha: existing.get(path) })),
+        ]
+
+        if (files.length === 0) {
+          return { success: true }
+        }
+
+        const response = await client.request(`${repoPath}/contents`, {
+          method: "POST",
+          body: { branch, message: request.message, files },
+        })
+        const data = (await response.json()) as GiteaChangeFilesResponse
+
+        const blobShas: { [path: string]: string } = {}
+        for (const file of data.files ?? []) {
+          if (file?.path && file.sha) {
+            blobShas[file.path] = file.sha
+          }
+        }
+        return { success: true, commitSha: data.commit?.sha, blobShas }
+      } catch (error) {
+        console.warn("[Gitea] commit failed:", error)
+        return toCommitFailure(error)
+      }
+    },
+
+    async getLatestChangeTimestamp() {
+      try {
+        const response = await client.request(
+          `${repoPath}/commits?sha=${ref}&limit=1&stat=false&verification=false&files=false`
+        )
+        const commits = (await response.json()) as GiteaCommitResponse[]
+        if (!Array.isArray(commits) || commits.length === 0) {
+          return { timestamp: new Date(0).toISOString() }
+        }
+        const latest = commits[0]
+        const timestamp =
+          latest.commit?.author?.date || latest.commit?.committer?.date || latest.created
+        if (!timestamp) {
+          return {
+            error:
+              i18next.t("githubSync.errors.timestamp") ??
+              "Could not extract timestamp from commit",
+          }
+        }
+        return { timestamp }
+      } catch (error) {
+        return { error: describeError(error) }
+      }
+    },
+
+    /**
+     * Same checks as validatePAT on GitHub: the token identifies a user and
+     * that user can push to the repository. Organisation repositories are
+     * allowed, since self-hosted servers are usually shared by a team.
+     */
+    async validate(): Promise<ValidateBackendResult> {
+      if (!hasValidRepo) {
+        return { valid: false, error: repoFormatError() }
+      }
+
+      try {
+        const userResponse = await client.request("/user")
+        const user = (await userResponse.json().catch(() => null)) as {
+          login?: string
+        } | null
+        if (!String(user?.login ?? "").trim()) {
+          return {
+            valid: false,
+            error:
+              i18next.t("gitServerSync.errors.couldNotDetermineUser", {
+                provider: "Gitea/Forgejo",
+              }) ?? "Could not determine the Gitea/Forgejo user for this token",
+          }
+        }
+
+        const repoResponse = await client.request(repoPath, {}, [404])
+        if (repoResponse.status === 404) {
+          return {
+            valid: false,
+            error:
+              i18next.t("githubSync.errors.notFound") ?? "Repository or branch not found",
+          }
+        }
+
+        const repoData = (await repoResponse.json().catch(() => null)) as {
+          permissions?: { admin?: boolean; push?: boolean }
+        } | null
+        if (!repoData?.permissions?.push && !repoData?.permissions?.admin) {
+          return {
+            valid: false,
+            error:
+              i18next.t("githubSync.errors.noWriteAccess") ??
+              "No write access to this repository. Please choose a repo you can push to.",
+          }
+        }
+
+        return { valid: true }
+      } catch (error) {
+        console.warn("[Gitea] validate failed:", error)
+        return toValidateFailure(error)
+      }
+    },
+  }
+}
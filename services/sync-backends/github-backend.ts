@@ -0,0 +1,46 @@
+import {
+  GITHUB_API_BASE_URL,
+  batchCommit,
+  downloadBinaryFile,
+  downloadBlob,
+  downloadCSV,
+  getCommitFileChanges,
+  getLatestCommitTimestamp,
+  getRepositoryTree,
+  getRepositoryTreeAtCommit,
+  listCommits,
+  listFiles,
+  validatePAT,
+} from "../github-sync"
+import type { SyncConfig } from "../../types/sync"
+import type { SyncBackend } from "./sync-backend"
+
+/**
+ * GitHub repository backend. Every upload and deletion of a sync lands in a
+ * single commit, and files are versioned by their git blob SHA.
+ */
+export function createGitHubBackend({
+  token,
+  repo,
+  branch,
+  apiBaseUrl,
+}: SyncConfig): SyncBackend {
+  const api = apiBaseUrl?.trim().replace(/\/+$/, "") || GITHUB_API_BASE_URL
+  return {
+    kind: "github",
+    getTree: () => getRepositoryTree(token, repo, branch, api),
+    listFiles: (path = "") => listFiles(token, repo, branch, path, api),
+    downloadFile: (path) => downloadCSV(token, repo, branch, path, api),
+    downloadBinaryFile: (path) => downloadBinaryFile(token, repo, branch, path, api),
+    commit: (request) => batchCommit(token, repo, branch, request, api),
+    getLatestChangeTimestamp: () => getLatestCommitTimestamp(token, repo, branch, api),
+    validate: () => validatePAT(token, repo, api),
+    history: {
+      listCommits: (limit) => listCommits(token, repo, branch, limit, api),
+      getCommitChanges: (sha) => getCommitFileChanges(token, repo, sha, api),
+      downloadFileAt: (path, ref) => downloadCSV(token, repo, ref, path, api),
+      getTreeAt: (ref) => getRepositoryTreeAtCommit(token, repo, ref, api),
+      downloadBlob: (_path, sha) => downloadBlob(token, repo, sha, api),
+    },
+  }
+}
@@ -0,0 +1,151 @@
+import { createGitLabBackend } from "./gitlab-backend"
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+const API = "https://gitlab.example.com/api/v4"
+const PROJECT = `${API}/projects/team%2Ffinance%2Fexpenses`
+
+const backend = createGitLabBackend({
+  backend: "gitlab",
+  token: "glpat-token",
+  repo: "team/finance/expenses",
+  branch: "main",
+  apiBaseUrl: "https://gitlab.example.com/api/v4",
+})
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  })
+}
+
+function blob(path: string, id: string) {
+  return { id, name: path.split("/").pop(), type: "blob", path }
+}
+
+describe("GitLab backend", () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it("follows tree pagination and keeps only files", async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        json(
+          200,
+          [
+            blob("expenses-2024-01-01.csv", "b1"),
+            { id: "t1", name: "attachments", type: "tree", path: "attachments" },
+          ],
+          { "x-next-page": "2" }
+        )
+      )
+      .mockResolvedValueOnce(json(200, [blob("attachments/r.jpg", "b2")]))
+
+    await expect(backend.getTree()).resolves.toEqual({
+      success: true,
+      entries: [
+        { path: "expenses-2024-01-01.csv", sha: "b1" },
+        { path: "attachments/r.jpg", sha: "b2" },
+      ],
+    })
+    const [url, init] = mockFetch.mock.calls[1]
+    expect(url).toBe(
+      `${PROJECT}/repository/tree?ref=main&per_page=100&page=2&recursive=true`
+    )
+    expect(init.headers["PRIVATE-TOKEN"]).toBe("glpat-token")
+  })
+
+  it("commits actions and reads the new blob ids back", async () => {
+    mockFetch
+      .mockResolvedValueOnce(json(200, [blob("expenses-2024-01-01.csv", "old")]))
+      .mockResolvedValueOnce(json(201, { id: "c2" }))
+      .mockResolvedValueOnce(
+        json(200, [
+          blob("expenses-2024-01-01.csv", "new1"),
+          blob("settings.json", "new2"),
+        ])
+      )
+
+    const result = await backend.commit({
+      uploads: [
+        { path: "expenses-2024-01-01.csv", content: "id\n" },
+        { path: "settings.json", content: "{}" },
+      ],
+      deletions: [{ path: "expenses-2023-12-31.csv" }],
+      message: "Sync",
+    })
+
+    expect(result).toEqual({
+      success: true,
+      commitSha: "c2",
+      blobShas: { "expenses-2024-01-01.csv": "new1", "settings.json": "new2" },
+    })
+    const [url, init] = mockFetch.mock.calls[1]
+    expect(url).toBe(`${PROJECT}/repository/commits`)
+    expect(JSON.parse(init.body)).toEqual({
+      branch: "main",
+      commit_message: "Sync",
+      actions: [
+        {
+          action: "update",
+          file_path: "expenses-2024-01-01.csv",
+          content: "aWQK",
+          encoding: "base64",
+        },
+        {
+          action: "create",
+          file_path: "settings.json",
+          content: "e30=",
+          encoding: "base64",
+        },
+      ],
+    })
+  })
+
+  it("reports GitLab rate limiting as retryable rather than an auth failure", async () => {
+    mockFetch.mockResolvedValue(json(429, { message: "Retry later" }))
+
+    const result = await backend.commit({
+      uploads: [{ path: "a.csv", content: "" }],
+      deletions: [],
+      message: "Sync",
+    })
+
+    expect(result).toMatchObject({ success: false, errorCode: "RATE_LIMIT" })
+  }, 10000)
+
+  it("downloads files by encoded path", async () => {
+    mockFetch
+      .mockResolvedValueOnce(json(200, { content: "aWQK", blob_id: "b1" }))
+      .mockResolvedValueOnce(json(404, { message: "404 File Not Found" }))
+
+    await expect(backend.downloadFile("attachments/r.csv")).resolves.toEqual({
+      content: "id\n",
+      sha: "b1",
+    })
+    await expect(backend.downloadFile("missing.csv")).resolves.toBeNull()
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      `${PROJECT}/repository/files/attachments%2Fr.csv?ref=main`
+    )
+  })
+
+  it("requires the Developer role or higher to validate", async () => {
+    mockFetch
+      .mockResolvedValueOnce(json(200, { username: "me" }))
+      .mockResolvedValueOnce(
+        json(200, {
+          permissions: { project_access: null, group_access: { access_level: 30 } },
+        })
+      )
+      .mockResolvedValueOnce(json(200, { username: "me" }))
+      .mockResolvedValueOnce(
+        json(200, { permissions: { project_access: { access_level: 20 } } })
+      )
+
+    await expect(backend.validate()).resolves.toEqual({ valid: true })
+    await expect(backend.validate()).resolves.toMatchObject({ valid: false })
+  })
+})
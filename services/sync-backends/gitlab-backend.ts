@@ -0,0 +1,300 @@
+/**
+ * GitLab backend (gitlab.com or self-managed)
+ *
+ * A sync is one commit made with the commits API, whose actions create,
+ * update and delete files together. GitLab rejects creating a file that
+ * exists or updating one that does not, so the branch tree is read first.
+ * The commit response carries no blob ids; they are read back from the tree
+ * afterwards so the remote SHA cache stays warm.
+ */
+
+import i18next from "i18next"
+import type { BatchCommitRequest, BatchCommitResult } from "../github-sync"
+import type { SyncConfig } from "../../types/sync"
+import type {
+  RemoteFile,
+  RemoteFileEntry,
+  SyncBackend,
+  ValidateBackendResult,
+} from "./sync-backend"
+import {
+  createGitServerClient,
+  describeError,
+  repoFormatError,
+  resolveApiBaseUrl,
+  toBase64Content,
+  toCommitFailure,
+  toTreeFailure,
+  toValidateFailure,
+} from "./git-server-client"
+import { base64ToBytes, utf8Decode } from "../../utils/crypto"
+
+const API_PATH = "/api/v4"
+const TREE_PAGE_SIZE = 100
+/** Developer role, the lowest that can push */
+const DEVELOPER_ACCESS_LEVEL = 30
+
+interface GitLabTreeEntry {
+  id: string
+  name: string
+  type: "blob" | "tree" | "commit"
+  path: string
+}
+
+interface GitLabFileResponse {
+  content: string
+  blob_id: string
+}
+
+interface GitLabProjectResponse {
+  permissions?: {
+    project_access?: { access_level?: number } | null
+    group_access?: { access_level?: number } | null
+  }
+}
+
+export function createGitLabBackend(config: SyncConfig): SyncBackend {
+  const { token, repo, branch } = config
+  const segments = repo.split("/")
+  const hasValidRepo = segments.length >= 2 && segments.every(Boolean)
+
+  const client = createGitServerClient({
+    provider: "gitlab",
+    baseUrl: resolveApiBaseUrl(config.apiBaseUrl ?? "", API_PATH),
+    headers: { "PRIVATE-TOKEN": token },
+  })
+
+  // Projects are addressed by their URL-encoded full path
+  const projectPath = `/projects/${encodeURIComponent(repo)}`
+  const ref = encodeURIComponent(branch)
+  const filePath = (path: string) =>
+    `${projectPath}/repository/files/${encodeURIComponent(path.replace(/^\/+/, ""))}`
+
+  /** Tree entries of the branch; null when the folder or branch does not exist */
+  const readTree = async (
+    path: string,
+    recursive: boolean
+  ): Promise<GitLabTreeEntry[] | null> => {
+    const entries: GitLabTreeEntry[] = []
+    for (let page = 1; ; ) {
+      const query =
+        `ref=${ref}&per_page=${TREE_PAGE_SIZE}&page=${page}` +
+        (recursive ? "&recursive=true" : "") +
+        (path ? `&path=${encodeURIComponent(path)}` : "")
+      const response = await client.request(
+        `${projectPath}/repository/tree?${query}`,
+        {},
+        [404]
+      )
+      if (response.status === 404) {
+        return null
+      }
+      entries.push(...((await response.json()) as GitLabTreeEntry[]))
+
+      const nextPage = Number(response.headers.get("x-next-page"))
+      if (!nextPage) {
+        return entries
+      }
+      page = nextPage
+    }
+  }
+
+  const readFileTree = async (): Promise<RemoteFileEntry[] | null> => {
+    const tree = await readTree("", true)
+    return tree
+      ? tree
+          .filter((entry) => entry.type === "blob")
+          .map((entry) => ({ path: entry.path, sha: entry.id }))
+      : null
+  }
+
+  return {
+    kind: "gitlab",
+
+    async getTree() {
+      if (!hasValidRepo) {
+        return { success: false, error: repoFormatError() }
+      }
+      try {
+        const entries = await readFileTree()
+        if (!entries) {
+          return {
+            success: false,
+            error:
+              i18next.t("githubSync.errors.notFound") ?? "Repository or branch not found",
+          }
+        }
+        return { success: true, entries }
+      } catch (error) {
+        return toTreeFailure(error)
+      }
+    },
+
+    async listFiles(path = ""): Promise<RemoteFile[]> {
+      const tree = (await readTree(path, false)) ?? []
+      return tree
+        .filter((entry) => entry.type === "blob")
+        .map((entry) => ({ name: entry.name, path: entry.path, sha: entry.id }))
+    },
+
+    async downloadFile(path) {
+      const response = await client.request(`${filePath(path)}?ref=${ref}`, {}, [404])
+      if (response.status === 404) {
+        return null
+      }
+      const data = (await response.json()) as GitLabFileResponse
+      return {
+        content: utf8Decode(base64ToBytes(data.content.replace(/\s/g, ""))),
+        sha: data.blob_id,
+      }
+    },
+
+    async downloadBinaryFile(path) {
+      const response = await client.request(`${filePath(path)}/raw?ref=${ref}`, {}, [404])
+      if (response.status === 404) {
+        return null
+      }
+      return new Uint8Array(await response.arrayBuffer())
+    },
+
+    async commit(request: BatchCommitRequest): Promise<BatchCommitResult> {
+      if (request.uploads.length === 0 && request.deletions.length === 0) {
+        return { success: true }
+      }
+
+      try {
+        const existing = new Set(
+          ((await readFileTree()) ?? []).map((entry) => entry.path)
+        )
+        const uploadPaths = request.uploads.map((upload) =>
+          upload.path.replace(/^\/+/, "")
+        )
+        const actions = [
+          ...request.uploads.map((upload, index) => ({
+            action: existing.has(uploadPaths[index]) ? "update" : "create",
+            file_path: uploadPaths[index],
+            content: toBase64Content(upload),
+            encoding: "base64",
+          })),
+          // Deleting a file that is already gone would fail the whole commit
+          ...request.deletions
+            .map((deletion) => deletion.path.replace(/^\/+/, ""))
+            .filter((path) => existing.has(path))
+            .map((path) => ({ action: "delete", file_path: path })),
+        ]
+
+        if (actions.length === 0) {
+          return { success: true }
+        }
+
+        const response = await client.request(`${projectPath}/repository/commits`, {
+          method: "POST",
+          body: { branch, commit_message: request.message, actions },
+        })
+        const commit = (await response.json()) as { id?: string }
+
+        const blobShas: { [path: string]: string } = {}
+        try {
+          const written = new Set(uploadPaths)
+          for (const entry of (await readFileTree()) ?? []) {
+            if (written.has(entry.path)) {
+              blobShas[entry.path] = entry.sha
+            }
+          }
+        } catch (error) {
+          // The commit landed; the next sync re-reads these files once
+          console.warn("[GitLab] could not read blob ids after commit:", error)
+        }
+
+        return { success: true, commitSha: commit.id, blobShas }
+      } catch (error) {
+        console.warn("[GitLab] commit failed:", error)
+        return toCommitFailure(error)
+      }
+    },
+
+    async getLatestChangeTimestamp() {
+      try {
+        const response = await client.request(
+          `${projectPath}/repository/commits?ref_name=${ref}&per_page=1`
+        )
+        const commits = (await response.json()) as {
+          committed_date?: string
+          authored_date?: string
+        }[]
+        if (!Array.isArray(commits) || commits.length === 0) {
+          return { timestamp: new Date(0).toISOString() }
+        }
+        const timestamp = commits[0].committed_date || commits[0].authored_date
+        if (!timestamp) {
+          return {
+            error:
+              i18next.t("githubSync.errors.timestamp") ??
+              "Could not extract timestamp from commit",
+          }
+        }
+        return { timestamp }
+      } catch (error) {
+        return { error: describeError(error) }
+      }
+    },
+
+    /**
+     * Same checks as validatePAT on GitHub: the token identifies a user and
+     * that user can push to the project (Developer role or above). Group
+     * projects are allowed, since self-hosted servers are usually shared by
+     * a team.
+     */
+    async validate(): Promise<ValidateBackendResult> {
+      if (!hasValidRepo) {
+        return { valid: false, error: repoFormatError() }
+      }
+
+      try {
+        const userResponse = await client.request("/user")
+        const user = (await userResponse.json().catch(() => null)) as {
+          username?: string
+        } | null
+        if (!String(user?.username ?? "").trim()) {
+          return {
+            valid: false,
+            error:
+              i18next.t("gitServerSync.errors.couldNotDetermineUser", {
+                provider: "GitLab",
+              }) ?? "Could not determine the GitLab user for this token",
+          }
+        }
+
+        const projectResponse = await client.request(projectPath, {}, [404])
+        if (projectResponse.status === 404) {
+          return {
+            valid: false,
+            error:
+              i18next.t("githubSync.errors.notFound") ?? "Repository or branch not found",
+          }
+        }
+
+        const project = (await projectResponse
+          .json()
+          .catch(() => null)) as GitLabProjectResponse | null
+        const accessLevel = Math.max(
+          project?.permissions?.project_access?.access_level ?? 0,
+          project?.permissions?.group_access?.access_level ?? 0
+        )
+        if (accessLevel < DEVELOPER_ACCESS_LEVEL) {
+          return {
+            valid: false,
+            error:
+              i18next.t("githubSync.errors.noWriteAccess") ??
+              "No write access to this repository. Please choose a repo you can push to.",
+          }
+        }
+
+        return { valid: true }
+      } catch (error) {
+        console.warn("[GitLab] validate failed:", error)
+        return toValidateFailure(error)
+      }
+    },
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Error thrown by a sync backend when the remote rejects a request.
+ *
+ * Rejected credentials set shouldSignOut so the app can drop them and ask
+ * the user to reconnect, whichever backend is in use. Git hosts treat 403 the
+ * same way; WebDAV only signs out on 401, as its 403 means the folder is off
+ * limits to working credentials.
+ */
+export class SyncBackendError extends Error {
+  public readonly status: number
+  public readonly shouldSignOut: boolean
+  public readonly isRateLimit: boolean
+
+  constructor(params: {
+    status: number
+    message: string
+    shouldSignOut: boolean
+    isRateLimit: boolean
+  }) {
+    super(params.message)
+    this.name = "SyncBackendError"
+    this.status = params.status
+    this.shouldSignOut = params.shouldSignOut
+    this.isRateLimit = params.isRateLimit
+  }
+}
+
+/**
+ * Whether an error means the saved credentials were rejected
+ */
+export function isSyncAuthError(
+  error: unknown
+): error is SyncBackendError & { status: 401 | 403 } {
+  return (
+    error instanceof SyncBackendError && (error.status === 401 || error.status === 403)
+  )
+}
@@ -0,0 +1,135 @@
+/**
+ * Storage backends for sync
+ *
+ * The sync engine (remote-fetch, sync-download, git-style-sync) only talks to
+ * a SyncBackend, so every backend stores the same layout: one
+ * `expenses-YYYY-MM-DD.csv` per day, an optional `settings.json` and receipts
+ * under `attachments/`. Each file carries a version tag that changes whenever
+ * its content does (a git blob SHA on GitHub, Gitea/Forgejo and GitLab, an
+ * ETag on WebDAV); the remote
+ * SHA cache keeps these tags to skip downloading unchanged days.
+ */
+
+import type {
+  BatchCommitRequest,
+  BatchCommitResult,
+  CommitFileChange,
+  CommitSummary,
+} from "../github-sync"
+import type { SyncBackendKind, SyncConfig } from "../../types/sync"
+import { createGitHubBackend } from "./github-backend"
+import { createGiteaBackend } from "./gitea-backend"
+import { createGitLabBackend } from "./gitlab-backend"
+import { createWebDAVBackend } from "./webdav-backend"
+
+/** A remote file and its version tag */
+export interface RemoteFileEntry {
+  path: string
+  sha: string
+}
+
+export interface RemoteFile extends RemoteFileEntry {
+  name: string
+}
+
+export type RemoteTreeResult =
+  | { success: true; entries: RemoteFileEntry[] }
+  | {
+      success: false
+      error: string
+      authStatus?: 401 | 403
+      shouldSignOut?: boolean
+    }
+
+export interface ValidateBackendResult {
+  valid: boolean
+  error?: string
+  authStatus?: 401 | 403
+  shouldSignOut?: boolean
+}
+
+/**
+ * Read access to the commits a git backend keeps for every sync
+ */
+export interface SyncBackendHistory {
+  /** Most recent commits on the sync branch, newest first */
+  listCommits(limit: number): Promise<CommitSummary[]>
+
+  /** Files a commit added, modified or removed */
+  getCommitChanges(sha: string): Promise<CommitFileChange[]>
+
+  /** Text content of a file as of a commit, or null when it did not exist */
+  downloadFileAt(
+    path: string,
+    ref: string
+  ): Promise<{ content: string; sha: string } | null>
+
+  /** Every file as of a commit with its blob SHA */
+  getTreeAt(ref: string): Promise<RemoteTreeResult>
+
+  /** Text content of a blob listed by getTreeAt; `path` is where it was listed */
+  downloadBlob(
+    path: string,
+    sha: string
+  ): Promise<{ content: string; sha: string } | null>
+}
+
+/**
+ * Remote file store used by sync. Methods throw SyncBackendError when the
+ * remote rejects a request; missing files resolve to null or an empty list.
+ */
+export interface SyncBackend {
+  readonly kind: SyncBackendKind
+
+  /**
+   * Every synced file with its version tag, in as few requests as the backend
+   * allows. A failure without authStatus makes callers fall back to listFiles.
+   */
+  getTree(): Promise<RemoteTreeResult>
+
+  /** Files (not folders) directly inside a folder; "" is the root */
+  listFiles(path?: string): Promise<RemoteFile[]>
+
+  /** Text content of a file, or null when it does not exist */
+  downloadFile(path: string): Promise<{ content: string; sha: string } | null>
+
+  /** Bytes of a file, or null when it does not exist */
+  downloadBinaryFile(path: string): Promise<Uint8Array | null>
+
+  /**
+   * Write and delete files. blobShas in the result holds the new version tag
+   * of each upload when the backend reports it.
+   */
+  commit(request: BatchCommitRequest): Promise<BatchCommitResult>
+
+  /** When the remote last changed, as an ISO timestamp */
+  getLatestChangeTimestamp(): Promise<{ timestamp: string } | { error: string }>
+
+  /** Check that the credentials work and the target can be written */
+  validate(): Promise<ValidateBackendResult>
+
+  /** Commit history, on backends that expose it */
+  readonly history?: SyncBackendHistory
+}
+
+export function getSyncBackendKind(config: SyncConfig): SyncBackendKind {
+  return config.backend ?? "github"
+}
+
+/**
+ * Create the backend a saved sync configuration points at
+ */
+export function createSyncBackend(config: SyncConfig): SyncBackend {
+  switch (getSyncBackendKind(config)) {
+    case "gitea":
+      return createGiteaBackend(config)
+    case "gitlab":
+      return createGitLabBackend(config)
+    case "webdav":
+      return config.webdav
+        ? createWebDAVBackend(config.webdav)
+        : createGitHubBackend(config)
+    default:
+      return createGitHubBackend(config)
+  }
+}
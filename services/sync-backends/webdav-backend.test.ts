@@ -0,0 +1,293 @@
+import { createWebDAVBackend } from "./webdav-backend"
+import { SyncBackendError } from "./sync-backend-error"
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+const BASE = "https://dav.example.com/files/me/Expense Buddy"
+const BASE_URL = "https://dav.example.com/files/me/Expense Buddy/"
+
+const backend = createWebDAVBackend({ url: BASE, username: "me", password: "pässword" })
+
+function davResponse(status: number, body = "", headers: Record<string, string> = {}) {
+  return new Response(status === 204 ? null : body, { status, headers })
+}
+
+/** Nextcloud-style listing: prefixed namespaces, quoted ETags, an empty prop */
+function multiStatus(files: { name: string; etag: string; modified: string }[]) {
+  const folder = `<d:response><d:href>/files/me/Expense%20Buddy/</d:href><d:propstat><d:prop>
+    <d:resourcetype><d:collection/></d:resourcetype><d:getetag>"root"</d:getetag>
+    </d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`
+  const entries = files.map(
+    (file) => `<d:response><d:href>/files/me/Expense%20Buddy/${encodeURIComponent(
+      file.name
+    )}</d:href>
+    <d:propstat><d:prop><d:resourcetype/><d:getetag>&quot;${file.etag}&quot;</d:getetag>
+    <d:getlastmodified>${file.modified}</d:getlastmodified></d:prop>
+    <d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`
+  )
+  return `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:">${folder}${entries.join("")}</d:multistatus>`
+}
+
+describe("WebDAV backend", () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it("lists files with their ETags using basic auth", async () => {
+    mockFetch.mockResolvedValueOnce(
+      davResponse(
+        207,
+        multiStatus([
+          {
+            name: "expenses-2024-01-01.csv",
+            etag: "abc",
+            modified: "Mon, 01 Jan 2024 10:00:00 GMT",
+          },
+          {
+            name: "settings.json",
+            etag: "def",
+            modified: "Tue, 02 Jan 2024 10:00:00 GMT",
+          },
+        ])
+      )
+    )
+
+    const files = await backend.listFiles()
+
+    expect(files).toEqual([
+      { name: "expenses-2024-01-01.csv", path: "expenses-2024-01-01.csv", sha: "abc" },
+      { name: "settings.json", path: "settings.json", sha: "def" },
+    ])
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe(BASE_URL)
+    expect(init.method).toBe("PROPFIND")
+    expect(init.headers.Depth).toBe("1")
+    expect(init.headers.Authorization).toBe(
+      `Basic ${Buffer.from("me:pässword").toString("base64")}`
+    )
+  })
+
+  it("builds the tree from the root and attachments folders", async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.endsWith("/attachments/")
+        ? davResponse(404)
+        : davResponse(
+            207,
+            multiStatus([
+              {
+                name: "expenses-2024-01-01.csv",
+                etag: "abc",
+                modified: "Mon, 01 Jan 2024 10:00:00 GMT",
+              },
+            ])
+          )
+    )
+
+    const tree = await backend.getTree()
+
+    expect(tree).toEqual({
+      success: true,
+      entries: [{ path: "expenses-2024-01-01.csv", sha: "abc" }],
+    })
+  })
+
+  it("reports rejected credentials as an auth failure", async () => {
+    mockFetch.mockResolvedValue(davResponse(401))
+
+    const tree = await backend.getTree()
+
+    expect(tree).toMatchObject({ success: false, authStatus: 401, shouldSignOut: true })
+    await expect(backend.downloadFile("settings.json")).rejects.toBeInstanceOf(
+      SyncBackendError
+    )
+  })
+
+  it("downloads text with its ETag and treats 404 as missing", async () => {
+    mockFetch
+      .mockResolvedValueOnce(davResponse(200, "id,amount\n", { ETag: 'W/"v1"' }))
+      .mockResolvedValueOnce(davResponse(404))
+
+    await expect(backend.downloadFile("expenses-2024-01-01.csv")).resolves.toEqual({
+      content: "id,amount\n",
+      sha: "v1",
+    })
+    await expect(backend.downloadFile("expenses-2024-01-02.csv")).resolves.toBeNull()
+    expect(mockFetch.mock.calls[0][0]).toBe(`${BASE_URL}expenses-2024-01-01.csv`)
+  })
+
+  it("commits uploads and deletions and returns the new ETags", async () => {
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+      switch (init.method) {
+        case "MKCOL":
+          return davResponse(405)
+        case "PUT":
+          return davResponse(201, "", { ETag: '"new"' })
+        default:
+          return davResponse(404)
+      }
+    })
+
+    const result = await backend.commit({
+      uploads: [
+        { path: "expenses-2024-01-01.csv", content: "id\n" },
+        { path: "attachments/receipt.jpg", content: "AQID", encoding: "base64" },
+      ],
+      deletions: [{ path: "expenses-2023-12-31.csv" }],
+      message: "Sync",
+    })
+
+    expect(result).toEqual({
+      success: true,
+      blobShas: { "expenses-2024-01-01.csv": "new", "attachments/receipt.jpg": "new" },
+    })
+    const calls = mockFetch.mock.calls.map(([url, init]) => [init.method, url])
+    expect(calls).toEqual([
+      ["MKCOL", `${BASE_URL}attachments/`],
+      ["PUT", `${BASE_URL}expenses-2024-01-01.csv`],
+      ["PUT", `${BASE_URL}attachments/receipt.jpg`],
+      ["DELETE", `${BASE_URL}expenses-2023-12-31.csv`],
+    ])
+    const binaryBody = mockFetch.mock.calls[2][1].body as Uint8Array
+    expect(Array.from(binaryBody)).toEqual([1, 2, 3])
+  })
+
+  it("maps a rejected upload to an auth error code", async () => {
+    mockFetch.mockResolvedValue(davResponse(401))
+
+    const result = await backend.commit({
+      uploads: [{ path: "settings.json", content: "{}" }],
+      deletions: [],
+      message: "Sync",
+    })
+
+    expect(result).toMatchObject({ success: false, errorCode: "AUTH" })
+  })
+
+  it("keeps the sign-in when the folder is forbidden", async () => {
+    mockFetch.mockResolvedValue(davResponse(403))
+
+    const tree = await backend.getTree()
+    const result = await backend.commit({
+      uploads: [{ path: "settings.json", content: "{}" }],
+      deletions: [],
+      message: "Sync",
+    })
+
+    expect(tree).toMatchObject({ success: false, authStatus: 403, shouldSignOut: false })
+    expect(result).toMatchObject({
+      success: false,
+      errorCode: "UNKNOWN",
+      error: "The WebDAV server denied access to this folder",
+    })
+  })
+
+  it("only overwrites or deletes files that are as the sync read them", async () => {
+    const fresh = createWebDAVBackend({ url: BASE, username: "me", password: "pw" })
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+      switch (init.method) {
+        case "PROPFIND":
+          return davResponse(
+            207,
+            multiStatus([
+              {
+                name: "expenses-2024-01-01.csv",
+                etag: "abc",
+                modified: "Mon, 01 Jan 2024 10:00:00 GMT",
+              },
+              {
+                name: "expenses-2023-12-31.csv",
+                etag: "old",
+                modified: "Sun, 31 Dec 2023 10:00:00 GMT",
+              },
+            ])
+          )
+        case "PUT":
+          return davResponse(201, "", { ETag: '"new"' })
+        default:
+          return davResponse(204)
+      }
+    })
+
+    await fresh.listFiles()
+    await fresh.commit({
+      uploads: [
+        { path: "expenses-2024-01-01.csv", content: "id\n" },
+        { path: "expenses-2024-01-02.csv", content: "id\n" },
+      ],
+      deletions: [{ path: "expenses-2023-12-31.csv" }],
+      message: "Sync",
+    })
+
+    const headers = Object.fromEntries(
+      mockFetch.mock.calls
+        .filter(([, init]) => init.method !== "PROPFIND")
+        .map(([url, init]) => [
+          `${init.method} ${url.slice(BASE_URL.length)}`,
+          {
+            ifMatch: init.headers["If-Match"],
+            ifNoneMatch: init.headers["If-None-Match"],
+          },
+        ])
+    )
+    expect(headers).toEqual({
+      "PUT expenses-2024-01-01.csv": { ifMatch: '"abc"', ifNoneMatch: undefined },
+      "PUT expenses-2024-01-02.csv": { ifMatch: undefined, ifNoneMatch: "*" },
+      "DELETE expenses-2023-12-31.csv": { ifMatch: '"old"', ifNoneMatch: undefined },
+    })
+  })
+
+  it("reports a file changed by another device as a conflict", async () => {
+    mockFetch.mockResolvedValue(davResponse(412))
+
+    const result = await backend.commit({
+      uploads: [{ path: "settings.json", content: "{}" }],
+      deletions: [],
+      message: "Sync",
+    })
+
+    expect(result).toMatchObject({
+      success: false,
+      errorCode: "CONFLICT",
+      error: "A file changed on the WebDAV server during sync. Sync again to merge it.",
+    })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("uses the newest modification time as the latest change", async () => {
+    mockFetch.mockResolvedValueOnce(
+      davResponse(
+        207,
+        multiStatus([
+          { name: "a.csv", etag: "1", modified: "Mon, 01 Jan 2024 10:00:00 GMT" },
+          { name: "b.csv", etag: "2", modified: "Wed, 03 Jan 2024 08:30:00 GMT" },
+        ])
+      )
+    )
+
+    await expect(backend.getLatestChangeTimestamp()).resolves.toEqual({
+      timestamp: "2024-01-03T08:30:00.000Z",
+    })
+  })
+
+  it("validates by listing the folder and writing a check file", async () => {
+    mockFetch
+      .mockResolvedValueOnce(davResponse(207, multiStatus([])))
+      .mockResolvedValueOnce(davResponse(201))
+      .mockResolvedValueOnce(davResponse(204))
+
+    await expect(backend.validate()).resolves.toEqual({ valid: true })
+    expect(mockFetch.mock.calls.map(([, init]) => init.method)).toEqual([
+      "PROPFIND",
+      "PUT",
+      "DELETE",
+    ])
+
+    mockFetch.mockResolvedValueOnce(davResponse(404))
+    const missing = await backend.validate()
+    expect(missing.valid).toBe(false)
+    expect(missing.error).toBe(
+      "Folder not found. Check the URL or create the folder first."
+    )
+  })
+})
@@ -0,0 +1,465 @@
+/**
+ * WebDAV backend (Nextcloud, ownCloud, Synology, Apache mod_dav, ...)
+ *
+ * Files sit directly in the configured folder, the same layout as the GitHub
+ * repository. ETags stand in for blob SHAs. There is no commit: uploads and
+ * deletions are applied one request at a time, so an interrupted sync can
+ * leave some days written and others not. The next sync repairs that, since
+ * unconfirmed days stay dirty and unchanged files are detected by ETag.
+ *
+ * Writes are conditional on the ETags seen when the sync read the folder
+ * (If-Match, or If-None-Match for new files), so a file another device
+ * changed in the meantime is not overwritten: the server answers 412 and the
+ * commit fails as a conflict for the next sync to merge.
+ */
+
+import i18next from "i18next"
+import type {
+  BatchCommitRequest,
+  BatchCommitResult,
+  BatchFileUpload,
+} from "../github-sync"
+import type { WebDAVConfig } from "../../types/sync"
+import type { RemoteFile, SyncBackend, ValidateBackendResult } from "./sync-backend"
+import { isSyncAuthError, SyncBackendError } from "./sync-backend-error"
+import { getUserFriendlyMessage } from "../error-utils"
+import { pMap, withRetry } from "../retry"
+import { ATTACHMENTS_DIRECTORY } from "../../utils/attachments"
+import { base64ToBytes, bytesToBase64, utf8Encode } from "../../utils/crypto"
+
+const RETRY_OPTIONS = { maxRetries: 2, baseDelayMs: 500 }
+const REQUEST_CONCURRENCY = 4
+
+/** Written and removed again by validate() to prove the folder is writable */
+const WRITE_CHECK_FILE = ".expense-buddy-write-check"
+
+const PROPFIND_BODY =
+  '<?xml version="1.0" encoding="utf-8"?>' +
+  '<d:propfind xmlns:d="DAV:"><d:prop>' +
+  "<d:resourcetype/><d:getetag/><d:getlastmodified/>" +
+  "</d:prop></d:propfind>"
+
+interface DavEntry {
+  name: string
+  etag: string
+  /** Strong ETag usable in If-Match; null when the server sent a weak one */
+  strongETag: string | null
+  lastModified: string | null
+  isCollection: boolean
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10)
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value)
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+/** Text of the first element with this local name, whatever its namespace prefix */
+function elementText(xml: string, name: string): string | null {
+  const match = new RegExp(
+    `<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`,
+    "i"
+  ).exec(xml)
+  return match ? decodeXml(match[1].trim()) : null
+}
+
+function nameFromHref(href: string): string {
+  const segments = href.split("/").filter((segment) => segment.length > 0)
+  const last = segments[segments.length - 1] ?? ""
+  try {
+    return decodeURIComponent(last)
+  } catch {
+    return last
+  }
+}
+
+/**
+ * Read a 207 Multi-Status PROPFIND response. Servers pick their own namespace
+ * prefixes, so elements are matched by local name.
+ */
+function parseMultiStatus(xml: string): DavEntry[] {
+  const entries: DavEntry[] = []
+  const responsePattern =
+    /<(?:[\w-]+:)?response\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?response>/gi
+
+  for (const match of xml.matchAll(responsePattern)) {
+    const body = match[1]
+    const href = elementText(body, "href")
+    if (!href) continue
+
+    const isCollection = /<(?:[\w-]+:)?collection\b/i.test(body)
+    // Empty properties (<d:getetag/>) would otherwise swallow the next element
+    const properties = body.replace(/<[^>]*\/>/g, "")
+
+    const etag = elementText(properties, "getetag") ?? ""
+    entries.push({
+      name: nameFromHref(href),
+      etag: normalizeETag(etag),
+      strongETag: toStrongETag(etag),
+      lastModified: elementText(properties, "getlastmodified"),
+      isCollection,
+    })
+  }
+
+  return entries
+}
+
+/** Servers differ on quoting and weak markers between PROPFIND and PUT */
+function normalizeETag(etag: string): string {
+  return etag
+    .trim()
+    .replace(/^W\//, "")
+    .replace(/^"(.*)"$/, "$1")
+}
+
+/** The ETag as If-Match expects it, or null for weak or missing ETags */
+function toStrongETag(etag: string): string | null {
+  const trimmed = etag.trim()
+  if (!trimmed || trimmed.startsWith("W/")) return null
+  return trimmed.startsWith('"') ? trimmed : `"${trimmed}"`
+}
+
+function toWebDAVError(status: number): SyncBackendError {
+  switch (status) {
+    case 401:
+      return new SyncBackendError({
+        status,
+        shouldSignOut: true,
+        isRateLimit: false,
+        message:
+          i18next.t("webdavSync.errors.authFailed") ??
+          "The WebDAV server rejected the username or password",
+      })
+    // The credentials work; the folder's permissions are the problem
+    case 403:
+      return new SyncBackendError({
+        status,
+        shouldSignOut: false,
+        isRateLimit: false,
+        message:
+          i18next.t("webdavSync.errors.accessDenied") ??
+          "The WebDAV server denied access to this folder",
+      })
+    case 412:
+      return new SyncBackendError({
+        status,
+        shouldSignOut: false,
+        isRateLimit: false,
+        message:
+          i18next.t("webdavSync.errors.changedDuringSync") ??
+          "A file changed on the WebDAV server during sync. Sync again to merge it.",
+      })
+    case 429:
+      return new SyncBackendError({
+        status,
+        shouldSignOut: false,
+        isRateLimit: true,
+        message:
+          i18next.t("webdavSync.errors.rateLimit") ??
+          "The WebDAV server is busy. Try again later.",
+      })
+    default:
+      return new SyncBackendError({
+        status,
+        shouldSignOut: false,
+        isRateLimit: false,
+        message:
+          i18next.t("webdavSync.errors.general", { status }) ??
+          `WebDAV request failed (${status})`,
+      })
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof SyncBackendError ? error.message : getUserFriendlyMessage(error)
+}
+
+function getContentType(upload: BatchFileUpload): string {
+  if (upload.encoding === "base64") return "application/octet-stream"
+  return upload.path.endsWith(".json") ? "application/json" : "text/csv"
+}
+
+export function createWebDAVBackend(config: WebDAVConfig): SyncBackend {
+  const baseUrl = config.url.trim().replace(/\/+$/, "") + "/"
+  const authorization = `Basic ${bytesToBase64(
+    utf8Encode(`${config.username}:${config.password}`)
+  )}`
+
+  const fileUrl = (path: string) =>
+    baseUrl + path.split("/").map(encodeURIComponent).join("/")
+  const folderUrl = (path: string) => (path ? `${fileUrl(path)}/` : baseUrl)
+
+  /**
+   * What this backend last saw of each file (strong ETag, or null when the
+   * file exists without one) and which folders it listed, for conditional
+   * writes
+   */
+  const knownETags = new Map<string, string | null>()
+  const listedFolders = new Set<string>()
+
+  const folderOf = (path: string) =>
+    path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : ""
+
+  /** Precondition for writing a file, so a concurrent change is not lost */
+  const preconditionFor = (path: string): Record<string, string> => {
+    const etag = knownETags.get(path)
+    if (etag) return { "If-Match": etag }
+    if (etag === undefined && listedFolders.has(folderOf(path))) {
+      return { "If-None-Match": "*" }
+    }
+    return {}
+  }
+
+  /** Send a request; statuses in `allow` are returned instead of thrown */
+  const send = async (
+    method: string,
+    url: string,
+    init: { headers?: Record<string, string>; body?: string | Uint8Array } = {},
+    allow: number[] = []
+  ): Promise<Response> => {
+    const response = await fetch(url, {
+      method,
+      headers: { Authorization: authorization, ...init.headers },
+      body: init.body as BodyInit | undefined,
+    })
+    if (response.ok || allow.includes(response.status)) {
+      return response
+    }
+    throw toWebDAVError(response.status)
+  }
+
+  /** Files directly inside a folder, or null when the folder does not exist */
+  const propfind = async (path: string): Promise<DavEntry[] | null> => {
+    const response = await withRetry(
+      () =>
+        send(
+          "PROPFIND",
+          folderUrl(path),
+          {
+            headers: { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+            body: PROPFIND_BODY,
+          },
+          [404]
+        ),
+      RETRY_OPTIONS
+    )
+    if (response.status === 404) {
+      return null
+    }
+    return parseMultiStatus(await response.text()).filter((entry) => !entry.isCollection)
+  }
+
+  const listFiles = async (path = ""): Promise<RemoteFile[]> => {
+    const entries = (await propfind(path)) ?? []
+    listedFolders.add(path)
+    for (const entry of entries) {
+      knownETags.set(path ? `${path}/${entry.name}` : entry.name, entry.strongETag)
+    }
+    return entries.map((entry) => ({
+      name: entry.name,
+      path: path ? `${path}/${entry.name}` : entry.name,
+      sha: entry.etag,
+    }))
+  }
+
+  return {
+    kind: "webdav",
+
+    async getTree() {
+      try {
+        const [rootFiles, attachmentFiles] = await Promise.all([
+          listFiles(),
+          listFiles(ATTACHMENTS_DIRECTORY),
+        ])
+        return {
+          success: true,
+          entries: [...rootFiles, ...attachmentFiles].map(({ path, sha }) => ({
+            path,
+            sha,
+          })),
+        }
+      } catch (error) {
+        if (isSyncAuthError(error)) {
+          return {
+            success: false,
+            error: error.message,
+            authStatus: error.status,
+            shouldSignOut: error.shouldSignOut,
+          }
+        }
+        return { success: false, error: describeError(error) }
+      }
+    },
+
+    listFiles,
+
+    async downloadFile(path) {
+      const response = await withRetry(
+        () => send("GET", fileUrl(path), {}, [404]),
+        RETRY_OPTIONS
+      )
+      if (response.status === 404) {
+        return null
+      }
+      const etag = response.headers.get("etag") ?? ""
+      knownETags.set(path, toStrongETag(etag))
+      return {
+        content: await response.text(),
+        sha: normalizeETag(etag),
+      }
+    },
+
+    async downloadBinaryFile(path) {
+      const response = await withRetry(
+        () => send("GET", fileUrl(path), {}, [404]),
+        RETRY_OPTIONS
+      )
+      if (response.status === 404) {
+        return null
+      }
+      return new Uint8Array(await response.arrayBuffer())
+    },
+
+    async commit(request: BatchCommitRequest): Promise<BatchCommitResult> {
+      try {
+        const folders = new Set(
+          request.uploads
+            .filter((upload) => upload.path.includes("/"))
+            .map((upload) => upload.path.slice(0, upload.path.lastIndexOf("/")))
+        )
+        for (const folder of folders) {
+          // 405 means the folder already exists
+          await withRetry(
+            () => send("MKCOL", folderUrl(folder), {}, [405]),
+            RETRY_OPTIONS
+          )
+        }
+
+        const blobShas: { [path: string]: string } = {}
+        await pMap(
+          request.uploads,
+          async (upload) => {
+            const response = await withRetry(
+              () =>
+                send("PUT", fileUrl(upload.path), {
+                  headers: {
+                    "Content-Type": getContentType(upload),
+                    ...preconditionFor(upload.path),
+                  },
+                  body:
+                    upload.encoding === "base64"
+                      ? base64ToBytes(upload.content)
+                      : upload.content,
+                }),
+              RETRY_OPTIONS
+            )
+            const etag = response.headers.get("etag")
+            knownETags.set(upload.path, etag ? toStrongETag(etag) : null)
+            if (etag) {
+              blobShas[upload.path] = normalizeETag(etag)
+            }
+          },
+          REQUEST_CONCURRENCY
+        )
+
+        await pMap(
+          request.deletions,
+          async (deletion) => {
+            await withRetry(
+              () =>
+                send(
+                  "DELETE",
+                  fileUrl(deletion.path),
+                  { headers: preconditionFor(deletion.path) },
+                  [404]
+                ),
+              RETRY_OPTIONS
+            )
+            knownETags.delete(deletion.path)
+          },
+          REQUEST_CONCURRENCY
+        )
+
+        return { success: true, blobShas }
+      } catch (error) {
+        console.warn("[WebDAV] commit failed:", error)
+        if (error instanceof SyncBackendError) {
+          return {
+            success: false,
+            error: error.message,
+            // Only rejected credentials sign out; a 403 is about the folder
+            errorCode:
+              error.status === 401
+                ? "AUTH"
+                : error.status === 412
+                  ? "CONFLICT"
+                  : error.isRateLimit
+                    ? "RATE_LIMIT"
+                    : "UNKNOWN",
+          }
+        }
+        return { success: false, error: describeError(error), errorCode: "UNKNOWN" }
+      }
+    },
+
+    async getLatestChangeTimestamp() {
+      try {
+        const entries = (await propfind("")) ?? []
+        const latest = entries.reduce((max, entry) => {
+          const time = entry.lastModified ? Date.parse(entry.lastModified) : NaN
+          return Number.isNaN(time) ? max : Math.max(max, time)
+        }, 0)
+        return { timestamp: new Date(latest).toISOString() }
+      } catch (error) {
+        return { error: describeError(error) }
+      }
+    },
+
+    async validate(): Promise<ValidateBackendResult> {
+      try {
+        const entries = await propfind("")
+        if (entries === null) {
+          return {
+            valid: false,
+            error:
+              i18next.t("webdavSync.errors.folderNotFound") ??
+              "Folder not found. Check the URL or create the folder first.",
+          }
+        }
+
+        await send("PUT", fileUrl(WRITE_CHECK_FILE), {
+          headers: { "Content-Type": "text/plain" },
+          body: new Date().toISOString(),
+        })
+        await send("DELETE", fileUrl(WRITE_CHECK_FILE), {}, [404])
+        return { valid: true }
+      } catch (error) {
+        console.warn("[WebDAV] validate failed:", error)
+        if (isSyncAuthError(error)) {
+          return {
+            valid: false,
+            error: error.message,
+            authStatus: error.status,
+            shouldSignOut: error.shouldSignOut,
+          }
+        }
+        return { valid: false, error: describeError(error) }
+      }
+    },
+  }
+}
@@ -0,0 +1,96 @@
+const mockSecureStore = new Map<string, string>()
+jest.mock("expo-secure-store", () => ({
+  setItemAsync: jest.fn(async (key: string, value: string) => {
+    mockSecureStore.set(key, value)
+  }),
+  getItemAsync: jest.fn(async (key: string) => mockSecureStore.get(key) ?? null),
+  deleteItemAsync: jest.fn(async (key: string) => {
+    mockSecureStore.delete(key)
+  }),
+}))
+
+import { clear } from "./storage"
+import {
+  clearSyncConfig,
+  loadSyncConfig,
+  resetSyncTracking,
+  saveSyncConfig,
+} from "./sync-config"
+import { loadRemoteSHACache, saveRemoteSHACache } from "./remote-sha-cache"
+import { loadFileHashes, saveFileHashes } from "./hash-storage"
+import { loadDirtyDays, markDirtyDay } from "./expense-dirty-days"
+import type { SyncConfig } from "../types/sync"
+
+const github: SyncConfig = { token: "ghp_token", repo: "me/expenses", branch: "main" }
+const webdav: SyncConfig = {
+  backend: "webdav",
+  token: "",
+  repo: "",
+  branch: "",
+  webdav: { url: "https://dav.example.com/expenses", username: "me", password: "pw" },
+}
+const forgejo: SyncConfig = {
+  backend: "gitea",
+  token: "forgejo-token",
+  repo: "finance/expenses",
+  branch: "main",
+  apiBaseUrl: "https://git.example.com",
+}
+
+describe("sync config", () => {
+  beforeEach(async () => {
+    mockSecureStore.clear()
+    await clear()
+  })
+
+  it("treats configs saved before backends existed as GitHub", async () => {
+    mockSecureStore.set("github_pat", "ghp_token")
+    mockSecureStore.set("github_repo", "me/expenses")
+    mockSecureStore.set("github_branch", "main")
+
+    await expect(loadSyncConfig()).resolves.toEqual(github)
+  })
+
+  it("round-trips a WebDAV config and clears it", async () => {
+    await saveSyncConfig(webdav)
+    await expect(loadSyncConfig()).resolves.toEqual(webdav)
+
+    await clearSyncConfig()
+    await expect(loadSyncConfig()).resolves.toBeNull()
+    expect(mockSecureStore.size).toBe(0)
+  })
+
+  it("keeps a self-hosted git token apart from the GitHub sign-in", async () => {
+    mockSecureStore.set("github_pat", "ghp_token")
+
+    await saveSyncConfig(forgejo)
+
+    await expect(loadSyncConfig()).resolves.toEqual(forgejo)
+    expect(mockSecureStore.get("github_pat")).toBe("ghp_token")
+  })
+
+  it("forgets remote caches when sync points somewhere else", async () => {
+    await saveSyncConfig(github)
+    await saveRemoteSHACache({ "expenses-2024-01-01.csv": "sha" })
+    await saveFileHashes({ "expenses-2024-01-01.csv": "hash" })
+
+    await saveSyncConfig(github)
+    expect(await loadFileHashes()).toEqual({ "expenses-2024-01-01.csv": "hash" })
+
+    await saveSyncConfig(webdav)
+    expect(await loadRemoteSHACache()).toEqual({})
+    expect(await loadFileHashes()).toEqual({})
+  })
+
+  it("forgets upload hashes and cached versions for a full resync", async () => {
+    await markDirtyDay("2024-01-02")
+    await saveRemoteSHACache({ "expenses-2024-01-01.csv": "sha" })
+    await saveFileHashes({ "expenses-2024-01-01.csv": "hash" })
+
+    await resetSyncTracking()
+
+    expect((await loadDirtyDays()).isTrusted).toBe(false)
+    expect(await loadRemoteSHACache()).toEqual({})
+    expect(await loadFileHashes()).toEqual({})
+  })
+})
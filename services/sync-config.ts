@@ -1,23 +1,139 @@
 import { secureStorage } from "./secure-storage"
-import { validatePAT, GitHubApiError } from "./github-sync"
+import { createSyncBackend, getSyncBackendKind } from "./sync-backends/sync-backend"
+import { isSyncAuthError } from "./sync-backends/sync-backend-error"
+import { clearRemoteSHACache } from "./remote-sha-cache"
+import { saveFileHashes } from "./hash-storage"
+import { resetDirtyDays } from "./expense-dirty-days"
+import { clearSyncEncryptionKeys } from "./sync-encryption"
+import { clearMergeBase } from "./merge-base"
+import { clearSyncHistory } from "./sync-history"
 import { getUserFriendlyMessage } from "./error-utils"
 import i18next from "i18next"
 import type { SyncConfig, SyncResult } from "../types/sync"
+import { ledgerScopedKey } from "./ledgers"
 
+const SYNC_BACKEND_KEY = "sync_backend"
 const GITHUB_TOKEN_KEY = "github_pat"
 const GITHUB_REPO_KEY = "github_repo"
 const GITHUB_BRANCH_KEY = "github_branch"
+const WEBDAV_URL_KEY = "webdav_url"
+const WEBDAV_USERNAME_KEY = "webdav_username"
+const WEBDAV_PASSWORD_KEY = "webdav_password"
+// Gitea/Forgejo and GitLab keep their own token so the GitHub sign-in is untouched
+const GIT_SERVER_URL_KEY = "git_server_url"
+const GIT_SERVER_TOKEN_KEY = "git_server_token"
+const GIT_SERVER_REPO_KEY = "git_server_repo"
+const GIT_SERVER_BRANCH_KEY = "git_server_branch"
+
+/** Identifies where files are stored, to notice when the user points sync elsewhere */
+function getSyncTarget(config: SyncConfig): string {
+  const backend = getSyncBackendKind(config)
+  switch (backend) {
+    case "webdav":
+      return `webdav:${config.webdav?.url.trim() ?? ""}`
+    case "gitea":
+    case "gitlab":
+      return `${backend}:${config.apiBaseUrl?.trim() ?? ""}/${config.repo.trim()}@${config.branch.trim()}`
+    default:
+      return `github:${config.repo.trim()}@${config.branch.trim()}`
+  }
+}
+
+function isGitServer(backend: string | null): backend is "gitea" | "gitlab" {
+  return backend === "gitea" || backend === "gitlab"
+}
 
 export async function saveSyncConfig(config: SyncConfig): Promise<void> {
-  await secureStorage.setItem(GITHUB_TOKEN_KEY, config.token.trim())
-  await secureStorage.setItem(GITHUB_REPO_KEY, config.repo.trim())
-  await secureStorage.setItem(GITHUB_BRANCH_KEY, config.branch.trim())
+  const previous = await loadSyncConfig()
+  const backend = getSyncBackendKind(config)
+
+  await secureStorage.setItem(ledgerScopedKey(SYNC_BACKEND_KEY), backend)
+  if (backend === "webdav" && config.webdav) {
+    await secureStorage.setItem(ledgerScopedKey(WEBDAV_URL_KEY), config.webdav.url.trim())
+    await secureStorage.setItem(
+      ledgerScopedKey(WEBDAV_USERNAME_KEY),
+      config.webdav.username.trim()
+    )
+    await secureStorage.setItem(
+      ledgerScopedKey(WEBDAV_PASSWORD_KEY),
+      config.webdav.password
+    )
+  } else if (isGitServer(backend)) {
+    await secureStorage.setItem(
+      ledgerScopedKey(GIT_SERVER_URL_KEY),
+      config.apiBaseUrl?.trim() ?? ""
+    )
+    await secureStorage.setItem(
+      ledgerScopedKey(GIT_SERVER_TOKEN_KEY),
+      config.token.trim()
+    )
+    await secureStorage.setItem(ledgerScopedKey(GIT_SERVER_REPO_KEY), config.repo.trim())
+    await secureStorage.setItem(
+      ledgerScopedKey(GIT_SERVER_BRANCH_KEY),
+      config.branch.trim()
+    )
+  } else {
+    await secureStorage.setItem(ledgerScopedKey(GITHUB_TOKEN_KEY), config.token.trim())
+    await secureStorage.setItem(ledgerScopedKey(GITHUB_REPO_KEY), config.repo.trim())
+    await secureStorage.setItem(ledgerScopedKey(GITHUB_BRANCH_KEY), config.branch.trim())
+  }
+
+  // Upload hashes, cached version tags, the merge base, cached history and
+  // encryption keys describe the old target; forget them so the first sync to a new one
+  // writes every day it is missing
+  if (previous && getSyncTarget(previous) !== getSyncTarget(config)) {
+    await clearRemoteSHACache()
+    await saveFileHashes({})
+    await clearMergeBase()
+    await clearSyncHistory()
+    await clearSyncEncryptionKeys()
+  }
+}
+
+/**
+ * Make the next sync compare every day with the remote, as after a fresh
+ * install: dirty days become untrusted and the upload hashes and cached
+ * version tags are forgotten, so no file is skipped as already uploaded
+ */
+export async function resetSyncTracking(): Promise<void> {
+  await resetDirtyDays()
+  await clearRemoteSHACache()
+  await saveFileHashes({})
 }
 
 export async function loadSyncConfig(): Promise<SyncConfig | null> {
-  const token = await secureStorage.getItem(GITHUB_TOKEN_KEY)
-  const repo = await secureStorage.getItem(GITHUB_REPO_KEY)
-  const branch = await secureStorage.getItem(GITHUB_BRANCH_KEY)
+  const backend = await secureStorage.getItem(ledgerScopedKey(SYNC_BACKEND_KEY))
+
+  if (backend === "webdav") {
+    const url = await secureStorage.getItem(ledgerScopedKey(WEBDAV_URL_KEY))
+    if (!url) {
+      return null
+    }
+    const username = await secureStorage.getItem(ledgerScopedKey(WEBDAV_USERNAME_KEY))
+    const password = await secureStorage.getItem(ledgerScopedKey(WEBDAV_PASSWORD_KEY))
+    return {
+      backend: "webdav",
+      token: "",
+      repo: "",
+      branch: "",
+      webdav: { url, username: username ?? "", password: password ?? "" },
+    }
+  }
+
+  if (isGitServer(backend)) {
+    const apiBaseUrl = await secureStorage.getItem(ledgerScopedKey(GIT_SERVER_URL_KEY))
+    const token = await secureStorage.getItem(ledgerScopedKey(GIT_SERVER_TOKEN_KEY))
+    const repo = await secureStorage.getItem(ledgerScopedKey(GIT_SERVER_REPO_KEY))
+    const branch = await secureStorage.getItem(ledgerScopedKey(GIT_SERVER_BRANCH_KEY))
+    if (!apiBaseUrl || !token || !repo || !branch) {
+      return null
+    }
+    return { backend, token, repo, branch, apiBaseUrl }
+  }
+
+  const token = await secureStorage.getItem(ledgerScopedKey(GITHUB_TOKEN_KEY))
+  const repo = await secureStorage.getItem(ledgerScopedKey(GITHUB_REPO_KEY))
+  const branch = await secureStorage.getItem(ledgerScopedKey(GITHUB_BRANCH_KEY))
 
   if (!token || !repo || !branch) {
     return null
@@ -27,9 +143,18 @@ export async function loadSyncConfig(): Promise<SyncConfig | null> {
 }
 
 export async function clearSyncConfig(): Promise<void> {
-  await secureStorage.deleteItem(GITHUB_TOKEN_KEY)
-  await secureStorage.deleteItem(GITHUB_REPO_KEY)
-  await secureStorage.deleteItem(GITHUB_BRANCH_KEY)
+  await secureStorage.deleteItem(ledgerScopedKey(SYNC_BACKEND_KEY))
+  await secureStorage.deleteItem(ledgerScopedKey(GITHUB_TOKEN_KEY))
+  await secureStorage.deleteItem(ledgerScopedKey(GITHUB_REPO_KEY))
+  await secureStorage.deleteItem(ledgerScopedKey(GITHUB_BRANCH_KEY))
+  await secureStorage.deleteItem(ledgerScopedKey(WEBDAV_URL_KEY))
+  await secureStorage.deleteItem(ledgerScopedKey(WEBDAV_USERNAME_KEY))
+  await secureStorage.deleteItem(ledgerScopedKey(WEBDAV_PASSWORD_KEY))
+  await secureStorage.deleteItem(ledgerScopedKey(GIT_SERVER_URL_KEY))
+  await secureStorage.deleteItem(ledgerScopedKey(GIT_SERVER_TOKEN_KEY))
+  await secureStorage.deleteItem(ledgerScopedKey(GIT_SERVER_REPO_KEY))
+  await secureStorage.deleteItem(ledgerScopedKey(GIT_SERVER_BRANCH_KEY))
+  await clearSyncEncryptionKeys()
 }
 
 export async function testConnection(): Promise<SyncResult> {
@@ -44,7 +169,7 @@ export async function testConnection(): Promise<SyncResult> {
   }
 
   try {
-    const result = await validatePAT(config.token, config.repo)
+    const result = await createSyncBackend(config).validate()
     if (result.valid) {
       return { success: true, message: i18next.t("githubSync.manager.connectionSuccess") }
     } else {
@@ -69,10 +194,7 @@ export async function testConnection(): Promise<SyncResult> {
   } catch (error) {
     console.warn("[SyncManager] testConnection failed:", error)
 
-    if (
-      error instanceof GitHubApiError &&
-      (error.status === 401 || error.status === 403)
-    ) {
+    if (isSyncAuthError(error)) {
       return {
         success: false,
         message: i18next.t("githubSync.manager.connectionFailed"),
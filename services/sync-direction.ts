@@ -1,7 +1,8 @@
 import { secureStorage } from "./secure-storage"
+import { ledgerScopedKey } from "./ledgers"
 
 const LAST_SYNC_TIME_KEY = "last_sync_time"
 
 export async function saveLastSyncTime(timestamp: string): Promise<void> {
-  await secureStorage.setItem(LAST_SYNC_TIME_KEY, timestamp)
+  await secureStorage.setItem(ledgerScopedKey(LAST_SYNC_TIME_KEY), timestamp)
 }
@@ -1,14 +1,10 @@
 import { loadSyncConfig } from "./sync-config"
 import { saveLastSyncTime } from "./sync-direction"
-import {
-  listFiles,
-  downloadCSV,
-  downloadSettingsFile,
-  getLatestCommitTimestamp,
-  GitHubApiError,
-} from "./github-sync"
+import { isSyncAuthError } from "./sync-backends/sync-backend-error"
+import { SyncEncryptionError } from "./sync-backends/encrypted-backend"
+import { openSyncBackend } from "./sync-encryption"
 import { AppSettings, hydrateSettingsFromJson } from "./settings-manager"
-import { getDayKeyFromFilename } from "./daily-file-manager"
+import { getFileKeyForDay, parseExpenseFilename } from "./daily-file-manager"
 import { importFromCSV } from "./csv-handler"
 import { getUserFriendlyMessage } from "./error-utils"
 import { format } from "date-fns"
@@ -41,15 +37,16 @@ export async function syncDown(
       }
     }
 
-    const files = await listFiles(config.token, config.repo, config.branch)
+    const backend = await openSyncBackend(config)
+    const files = await backend.listFiles()
 
     const expenseFiles = files
-      .filter((file) => getDayKeyFromFilename(file.name) !== null)
+      .filter((file) => parseExpenseFilename(file.name) !== null)
       .map((file) => ({
         ...file,
-        dayKey: getDayKeyFromFilename(file.name)!,
+        ...parseExpenseFilename(file.name)!,
       }))
-      .sort((a, b) => b.dayKey.localeCompare(a.dayKey))
+      .sort((a, b) => b.fileKey.localeCompare(a.fileKey))
 
     if (expenseFiles.length === 0) {
       let downloadedSettings: AppSettings | undefined
@@ -57,11 +54,7 @@ export async function syncDown(
 
       if (syncSettingsEnabled) {
         try {
-          const settingsResult = await downloadSettingsFile(
-            config.token,
-            config.repo,
-            config.branch
-          )
+          const settingsResult = await backend.downloadFile("settings.json")
           if (settingsResult) {
             downloadedSettings = hydrateSettingsFromJson(
               JSON.parse(settingsResult.content)
@@ -70,8 +63,8 @@ export async function syncDown(
           }
         } catch (settingsError) {
           if (
-            settingsError instanceof GitHubApiError &&
-            (settingsError.status === 401 || settingsError.status === 403)
+            isSyncAuthError(settingsError) ||
+            settingsError instanceof SyncEncryptionError
           ) {
             throw settingsError
           }
@@ -95,12 +88,7 @@ export async function syncDown(
     const downloadResults = await pMap(
       filesToDownload,
       async (file) => {
-        const fileData = await downloadCSV(
-          config.token,
-          config.repo,
-          config.branch,
-          file.path
-        )
+        const fileData = await backend.downloadFile(file.path)
 
         if (fileData) {
           const expenses = importFromCSV(fileData.content)
@@ -119,19 +107,15 @@ export async function syncDown(
 
     if (syncSettingsEnabled) {
       try {
-        const settingsResult = await downloadSettingsFile(
-          config.token,
-          config.repo,
-          config.branch
-        )
+        const settingsResult = await backend.downloadFile("settings.json")
         if (settingsResult) {
           downloadedSettings = hydrateSettingsFromJson(JSON.parse(settingsResult.content))
           settingsDownloaded = true
         }
       } catch (settingsError) {
         if (
-          settingsError instanceof GitHubApiError &&
-          (settingsError.status === 401 || settingsError.status === 403)
+          isSyncAuthError(settingsError) ||
+          settingsError instanceof SyncEncryptionError
         ) {
           throw settingsError
         }
@@ -150,11 +134,7 @@ export async function syncDown(
     }
 
     try {
-      const timestampResult = await getLatestCommitTimestamp(
-        config.token,
-        config.repo,
-        config.branch
-      )
+      const timestampResult = await backend.getLatestChangeTimestamp()
       if ("timestamp" in timestampResult) {
         await saveLastSyncTime(timestampResult.timestamp)
       }
@@ -174,10 +154,7 @@ export async function syncDown(
   } catch (error) {
     console.warn("[SyncManager] syncDown failed:", error)
 
-    if (
-      error instanceof GitHubApiError &&
-      (error.status === 401 || error.status === 403)
-    ) {
+    if (isSyncAuthError(error)) {
       return {
         success: false,
         message: i18next.t("githubSync.manager.downloadFailed"),
@@ -190,7 +167,10 @@ export async function syncDown(
     return {
       success: false,
       message: i18next.t("githubSync.manager.downloadFailed"),
-      error: getUserFriendlyMessage(error),
+      error:
+        error instanceof SyncEncryptionError
+          ? error.message
+          : getUserFriendlyMessage(error),
     }
   }
 }
@@ -223,16 +203,20 @@ export async function syncDownMore(
       return expenseDate < oldest ? expenseDate : oldest
     }, new Date())
 
-    const files = await listFiles(config.token, config.repo, config.branch)
+    const backend = await openSyncBackend(config)
+    const files = await backend.listFiles()
 
+    // Files before the one holding the oldest loaded day (a month file is
+    // always loaded whole)
+    const oldestDayKey = format(oldestDate, "yyyy-MM-dd")
     const expenseFiles = files
-      .filter((file) => getDayKeyFromFilename(file.name) !== null)
+      .filter((file) => parseExpenseFilename(file.name) !== null)
       .map((file) => ({
         ...file,
-        dayKey: getDayKeyFromFilename(file.name)!,
+        ...parseExpenseFilename(file.name)!,
       }))
-      .filter((file) => file.dayKey < format(oldestDate, "yyyy-MM-dd"))
-      .sort((a, b) => b.dayKey.localeCompare(a.dayKey))
+      .filter((file) => file.fileKey < getFileKeyForDay(oldestDayKey, file.layout))
+      .sort((a, b) => b.fileKey.localeCompare(a.fileKey))
 
     if (expenseFiles.length === 0) {
       return {
@@ -250,12 +234,7 @@ export async function syncDownMore(
     const downloadResults = await pMap(
       filesToDownload,
       async (file) => {
-        const fileData = await downloadCSV(
-          config.token,
-          config.repo,
-          config.branch,
-          file.path
-        )
+        const fileData = await backend.downloadFile(file.path)
 
         if (fileData) {
           const expenses = importFromCSV(fileData.content)
@@ -283,10 +262,7 @@ export async function syncDownMore(
   } catch (error) {
     console.warn("[SyncManager] syncDownMore failed:", error)
 
-    if (
-      error instanceof GitHubApiError &&
-      (error.status === 401 || error.status === 403)
-    ) {
+    if (isSyncAuthError(error)) {
       return {
         success: false,
         message: i18next.t("githubSync.manager.loadMoreFailed"),
@@ -299,7 +275,10 @@ export async function syncDownMore(
     return {
       success: false,
       message: i18next.t("githubSync.manager.loadMoreFailed"),
-      error: getUserFriendlyMessage(error),
+      error:
+        error instanceof SyncEncryptionError
+          ? error.message
+          : getUserFriendlyMessage(error),
     }
   }
 }
@@ -0,0 +1,153 @@
+const mockSecureStore = new Map<string, string>()
+jest.mock("expo-secure-store", () => ({
+  setItemAsync: jest.fn(async (key: string, value: string) => {
+    mockSecureStore.set(key, value)
+  }),
+  getItemAsync: jest.fn(async (key: string) => mockSecureStore.get(key) ?? null),
+  deleteItemAsync: jest.fn(async (key: string) => {
+    mockSecureStore.delete(key)
+  }),
+}))
+
+const mockFiles: Record<string, string> = {}
+const mockCommits: BatchCommitRequest[] = []
+jest.mock("./sync-backends/sync-backend", () => ({
+  createSyncBackend: () => ({
+    kind: "github",
+    getTree: async () => ({
+      success: true,
+      entries: Object.keys(mockFiles).map((path) => ({ path, sha: path })),
+    }),
+    listFiles: async () => [],
+    downloadFile: async (path: string) =>
+      path in mockFiles ? { content: mockFiles[path], sha: path } : null,
+    downloadBinaryFile: async (path: string) =>
+      path in mockFiles ? new Uint8Array(Buffer.from(mockFiles[path], "base64")) : null,
+    commit: async (request: BatchCommitRequest) => {
+      mockCommits.push(request)
+      for (const upload of request.uploads) {
+        mockFiles[upload.path] = upload.content
+      }
+      for (const deletion of request.deletions) {
+        delete mockFiles[deletion.path]
+      }
+      return { success: true }
+    },
+  }),
+}))
+
+import { clear } from "./storage"
+import {
+  changeSyncEncryptionPassphrase,
+  disableSyncEncryption,
+  loadSyncEncryptionKeys,
+  openSyncBackend,
+  setUpSyncEncryption,
+} from "./sync-encryption"
+import {
+  ENCRYPTION_KEY_FILE,
+  isEncryptedContent,
+} from "./sync-backends/encrypted-backend"
+import { loadRemoteSHACache, saveRemoteSHACache } from "./remote-sha-cache"
+import type { BatchCommitRequest } from "./github-sync"
+import type { SyncConfig } from "../types/sync"
+import { PBKDF2_ITERATIONS } from "../utils/crypto"
+
+const config: SyncConfig = { token: "ghp_token", repo: "me/expenses", branch: "main" }
+const ITERATIONS = PBKDF2_ITERATIONS
+
+describe("sync encryption", () => {
+  beforeEach(async () => {
+    mockSecureStore.clear()
+    mockCommits.length = 0
+    for (const path of Object.keys(mockFiles)) {
+      delete mockFiles[path]
+    }
+    Object.assign(mockFiles, {
+      "expenses-2024-01-01.csv": "id,amount\n1,20",
+      "expenses-2024-01-02.csv": "id,amount\n2,30",
+      "settings.json": '{"theme":"dark"}',
+      "attachments/r.jpg": "AAEC",
+    })
+    await clear()
+  })
+
+  it("encrypts an existing repository in one commit", async () => {
+    await saveRemoteSHACache({ "expenses-2024-01-01.csv": "old" })
+
+    const result = await setUpSyncEncryption(config, "correct horse", ITERATIONS)
+
+    expect(result).toEqual({ success: true, data: "encrypted" })
+    expect(mockCommits).toHaveLength(1)
+    expect(mockCommits[0].uploads.map((upload) => upload.path).sort()).toEqual([
+      "attachments/r.jpg",
+      ENCRYPTION_KEY_FILE,
+      "expenses-2024-01-01.csv",
+      "expenses-2024-01-02.csv",
+      "settings.json",
+    ])
+    expect(isEncryptedContent(mockFiles["expenses-2024-01-01.csv"])).toBe(true)
+    expect(isEncryptedContent(mockFiles["settings.json"])).toBe(true)
+    expect(mockFiles["attachments/r.jpg"]).not.toBe("AAEC")
+    expect(mockFiles[ENCRYPTION_KEY_FILE]).not.toContain("correct horse")
+    await expect(loadRemoteSHACache()).resolves.toEqual({})
+
+    const backend = await openSyncBackend(config)
+    await expect(backend.downloadFile("expenses-2024-01-02.csv")).resolves.toMatchObject({
+      content: "id,amount\n2,30",
+    })
+    await expect(backend.downloadBinaryFile("attachments/r.jpg")).resolves.toEqual(
+      new Uint8Array([0, 1, 2])
+    )
+  })
+
+  it("unlocks an encrypted repository on another device with the passphrase", async () => {
+    await setUpSyncEncryption(config, "correct horse", ITERATIONS)
+    mockSecureStore.clear()
+    mockCommits.length = 0
+
+    await expect(openSyncBackend(config).then((b) => b.getTree())).rejects.toThrow(
+      "This repository is end-to-end encrypted"
+    )
+
+    await expect(setUpSyncEncryption(config, "wrong horse")).resolves.toEqual({
+      success: false,
+      error: "That passphrase does not open this repository",
+    })
+    await expect(loadSyncEncryptionKeys()).resolves.toBeNull()
+
+    await expect(setUpSyncEncryption(config, "correct horse")).resolves.toEqual({
+      success: true,
+      data: "unlocked",
+    })
+    expect(mockCommits).toHaveLength(0)
+
+    const backend = await openSyncBackend(config)
+    await expect(backend.downloadFile("settings.json")).resolves.toMatchObject({
+      content: '{"theme":"dark"}',
+    })
+  })
+
+  it("re-encrypts under a new passphrase and decrypts when turned off", async () => {
+    await setUpSyncEncryption(config, "correct horse", ITERATIONS)
+    const before = mockFiles["expenses-2024-01-01.csv"]
+
+    await expect(
+      changeSyncEncryptionPassphrase(config, "battery staple", ITERATIONS)
+    ).resolves.toEqual({ success: true, data: 4 })
+    expect(mockFiles["expenses-2024-01-01.csv"]).not.toBe(before)
+    await expect(
+      (await openSyncBackend(config)).downloadFile("expenses-2024-01-01.csv")
+    ).resolves.toMatchObject({ content: "id,amount\n1,20" })
+
+    await expect(disableSyncEncryption(config)).resolves.toEqual({
+      success: true,
+      data: 4,
+    })
+    expect(mockCommits).toHaveLength(3)
+    expect(mockCommits[2].deletions).toEqual([{ path: ENCRYPTION_KEY_FILE }])
+    expect(mockFiles["expenses-2024-01-01.csv"]).toBe("id,amount\n1,20")
+    expect(mockFiles["attachments/r.jpg"]).toBe("AAEC")
+    await expect(loadSyncEncryptionKeys()).resolves.toBeNull()
+  })
+})
@@ -0,0 +1,338 @@
+/**
+ * Passphrase setup for end-to-end encrypted sync
+ *
+ * An encrypted repository has `encryption.json` at its root with the PBKDF2
+ * salt and a known text encrypted under the derived keys. The passphrase
+ * itself is never stored: each device derives the keys once and keeps them
+ * in secure storage, and the sync engine opens its backend through
+ * openSyncBackend so every day CSV, settings.json and receipt attachment is
+ * encrypted with them.
+ *
+ * Turning encryption on, changing the passphrase and turning it off rewrite
+ * those files in one commit together with the key file, so other devices
+ * never see a repository that is half one way and half the other.
+ */
+
+import i18next from "i18next"
+import { z } from "zod"
+import { secureStorage } from "./secure-storage"
+import { createSyncBackend, SyncBackend } from "./sync-backends/sync-backend"
+import {
+  decryptBinaryContent,
+  decryptFileContent,
+  ENCRYPTION_KEY_FILE,
+  SyncEncryptionError,
+  withSyncEncryption,
+} from "./sync-backends/encrypted-backend"
+import { clearRemoteSHACache } from "./remote-sha-cache"
+import { parseExpenseFilename } from "./daily-file-manager"
+import { ATTACHMENTS_DIRECTORY, getAttachmentNameFromPath } from "../utils/attachments"
+import { createErrorResult, createSuccessResult } from "./error-utils"
+import { pMap } from "./retry"
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decryptWithKeys,
+  deriveKeysFromPassword,
+  encryptWithKeys,
+  MAX_PBKDF2_ITERATIONS,
+  PBKDF2_ITERATIONS,
+  randomBytes,
+  type DerivedKeys,
+} from "../utils/crypto"
+import type { ServiceResult } from "../types/service-result"
+import type { SyncConfig } from "../types/sync"
+import { ledgerScopedKey } from "./ledgers"
+
+const SYNC_ENCRYPTION_KEYS_KEY = "sync_encryption_keys"
+const KEY_FILE_FORMAT = "expense-buddy-sync-key"
+const KEY_FILE_VERSION = 1
+/** Encrypted into the key file so a passphrase can be checked before use */
+const KEY_CHECK_TEXT = "expense-buddy sync key check"
+const SALT_BYTES = 16
+
+export const MIN_SYNC_PASSPHRASE_LENGTH = 8
+
+const keyFileSchema = z.object({
+  format: z.literal(KEY_FILE_FORMAT),
+  version: z.number().int().positive(),
+  kdf: z.literal("pbkdf2-sha256"),
+  iterations: z.number().int().min(PBKDF2_ITERATIONS).max(MAX_PBKDF2_ITERATIONS),
+  salt: z.string(),
+  check: z.object({ iv: z.string(), data: z.string(), mac: z.string() }),
+})
+
+type SyncKeyFile = z.infer<typeof keyFileSchema>
+
+const storedKeysSchema = z.object({ encryptionKey: z.string(), macKey: z.string() })
+
+/** What setUpSyncEncryption did */
+export type SyncEncryptionSetup = "encrypted" | "unlocked"
+
+/**
+ * Keys this device encrypts synced files with, or null when it has none
+ */
+export async function loadSyncEncryptionKeys(): Promise<DerivedKeys | null> {
+  const stored = await secureStorage.getItem(ledgerScopedKey(SYNC_ENCRYPTION_KEYS_KEY))
+  if (!stored) {
+    return null
+  }
+  try {
+    const parsed = storedKeysSchema.parse(JSON.parse(stored))
+    return {
+      encryptionKey: base64ToBytes(parsed.encryptionKey),
+      macKey: base64ToBytes(parsed.macKey),
+    }
+  } catch (error) {
+    console.warn("[SyncEncryption] Ignoring unreadable stored keys:", error)
+    return null
+  }
+}
+
+async function saveSyncEncryptionKeys(keys: DerivedKeys): Promise<void> {
+  await secureStorage.setItem(
+    ledgerScopedKey(SYNC_ENCRYPTION_KEYS_KEY),
+    JSON.stringify({
+      encryptionKey: bytesToBase64(keys.encryptionKey),
+      macKey: bytesToBase64(keys.macKey),
+    })
+  )
+}
+
+/**
+ * Forget this device's keys. Sync of an encrypted repository stops until the
+ * passphrase is entered again.
+ */
+export async function clearSyncEncryptionKeys(): Promise<void> {
+  await secureStorage.deleteItem(ledgerScopedKey(SYNC_ENCRYPTION_KEYS_KEY))
+}
+
+/**
+ * Backend for the sync engine: encrypts with this device's keys when it has
+ * them. Reading a repository whose encryption state does not match this
+ * device throws SyncEncryptionError.
+ */
+export async function openSyncBackend(config: SyncConfig): Promise<SyncBackend> {
+  return withSyncEncryption(createSyncBackend(config), await loadSyncEncryptionKeys())
+}
+
+async function createKeyFile(
+  passphrase: string,
+  iterations: number
+): Promise<{ keyFile: SyncKeyFile; keys: DerivedKeys }> {
+  const salt = randomBytes(SALT_BYTES)
+  const keys = await deriveKeysFromPassword(passphrase, salt, iterations)
+  return {
+    keyFile: {
+      format: KEY_FILE_FORMAT,
+      version: KEY_FILE_VERSION,
+      kdf: "pbkdf2-sha256",
+      iterations,
+      salt: bytesToBase64(salt),
+      check: encryptWithKeys(KEY_CHECK_TEXT, keys),
+    },
+    keys,
+  }
+}
+
+async function readKeyFile(backend: SyncBackend): Promise<SyncKeyFile | null> {
+  const file = await backend.downloadFile(ENCRYPTION_KEY_FILE)
+  return file ? keyFileSchema.parse(JSON.parse(file.content)) : null
+}
+
+function failure<T>(message: string): ServiceResult<T> {
+  return { success: false, error: message }
+}
+
+function wrongPassphrase<T>(): ServiceResult<T> {
+  return failure(
+    i18next.t("syncEncryption.errors.wrongPassphrase") ??
+      "That passphrase does not open this repository"
+  )
+}
+
+function toFailure<T>(operation: string, error: unknown): ServiceResult<T> {
+  if (error instanceof SyncEncryptionError) {
+    return failure(error.message)
+  }
+  return createErrorResult("SyncEncryption", operation, error)
+}
+
+/**
+ * Rewrite every expense CSV, settings.json and attachment with the next keys
+ * (null for plaintext) and write or remove the key file, all in one commit.
+ * Files are read with this device's current keys, so a device that cannot
+ * read the repository cannot rewrite it. Plaintext files are accepted, so a
+ * rewrite that stopped part-way can be run again.
+ *
+ * @returns Number of files rewritten
+ */
+async function rewriteSyncedFiles(
+  config: SyncConfig,
+  next: { keyFile: SyncKeyFile; keys: DerivedKeys } | null,
+  message: string
+): Promise<ServiceResult<number>> {
+  const backend = createSyncBackend(config)
+  const currentKeys = await loadSyncEncryptionKeys()
+
+  const tree = await backend.getTree()
+  if (!tree.success && tree.authStatus) {
+    return failure(tree.error)
+  }
+  const paths = tree.success
+    ? tree.entries.map((entry) => entry.path)
+    : (await backend.listFiles()).map((file) => file.path)
+
+  const textPaths = paths.filter(
+    (path) => parseExpenseFilename(path) !== null || path === "settings.json"
+  )
+  const files = await pMap(
+    textPaths,
+    async (path) => {
+      const file = await backend.downloadFile(path)
+      return file
+        ? {
+            path,
+            content: decryptFileContent(file.content, currentKeys, path, {
+              allowPlaintext: true,
+            }),
+          }
+        : null
+    },
+    5
+  )
+
+  const attachmentPaths = (
+    tree.success
+      ? paths
+      : (await backend.listFiles(ATTACHMENTS_DIRECTORY)).map((file) => file.path)
+  ).filter((path) => getAttachmentNameFromPath(path) !== null)
+  const attachments = await pMap(
+    attachmentPaths,
+    async (path) => {
+      const bytes = await backend.downloadBinaryFile(path)
+      return bytes
+        ? {
+            path,
+            content: bytesToBase64(decryptBinaryContent(bytes, currentKeys, path)),
+            encoding: "base64" as const,
+          }
+        : null
+    },
+    3
+  )
+
+  const uploads = [...files, ...attachments].filter((file) => file !== null)
+
+  const result = await withSyncEncryption(backend, next?.keys ?? null).commit({
+    uploads: next
+      ? [
+          ...uploads,
+          { path: ENCRYPTION_KEY_FILE, content: JSON.stringify(next.keyFile, null, 2) },
+        ]
+      : uploads,
+    deletions:
+      !next && paths.includes(ENCRYPTION_KEY_FILE) ? [{ path: ENCRYPTION_KEY_FILE }] : [],
+    message,
+  })
+  if (!result.success) {
+    return failure(
+      result.error ??
+        i18next.t("syncEncryption.errors.rewriteFailed") ??
+        "Could not rewrite the synced files"
+    )
+  }
+
+  if (next) {
+    await saveSyncEncryptionKeys(next.keys)
+  } else {
+    await clearSyncEncryptionKeys()
+  }
+  // Every file has a new version tag; cached tags would only cause misses
+  await clearRemoteSHACache()
+
+  return createSuccessResult(uploads.length)
+}
+
+/**
+ * Turn on encryption with a passphrase, or enter the passphrase of a
+ * repository another device already encrypted.
+ *
+ * A plaintext repository is re-encrypted in one commit. For an encrypted one
+ * the passphrase is checked against the key file and the keys are saved;
+ * nothing is written.
+ */
+export async function setUpSyncEncryption(
+  config: SyncConfig,
+  passphrase: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<ServiceResult<SyncEncryptionSetup>> {
+  try {
+    const backend = createSyncBackend(config)
+    const keyFile = await readKeyFile(backend)
+
+    if (keyFile) {
+      const keys = await deriveKeysFromPassword(
+        passphrase,
+        base64ToBytes(keyFile.salt),
+        keyFile.iterations
+      )
+      if (decryptWithKeys(keyFile.check, keys) !== KEY_CHECK_TEXT) {
+        return wrongPassphrase()
+      }
+      await saveSyncEncryptionKeys(keys)
+      await clearRemoteSHACache()
+      return createSuccessResult<SyncEncryptionSetup>("unlocked")
+    }
+
+    const result = await rewriteSyncedFiles(
+      config,
+      await createKeyFile(passphrase, iterations),
+      "Encrypt synced files"
+    )
+    return result.success
+      ? createSuccessResult<SyncEncryptionSetup>("encrypted")
+      : failure(result.error ?? "")
+  } catch (error) {
+    return toFailure("setUpSyncEncryption", error)
+  }
+}
+
+/**
+ * Re-encrypt the repository under a new passphrase. Other devices have to
+ * enter the new passphrase before they can sync again.
+ */
+export async function changeSyncEncryptionPassphrase(
+  config: SyncConfig,
+  passphrase: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<ServiceResult<number>> {
+  try {
+    if (!(await loadSyncEncryptionKeys())) {
+      return failure(new SyncEncryptionError("KEY_REQUIRED").message)
+    }
+    return await rewriteSyncedFiles(
+      config,
+      await createKeyFile(passphrase, iterations),
+      "Change sync encryption passphrase"
+    )
+  } catch (error) {
+    return toFailure("changeSyncEncryptionPassphrase", error)
+  }
+}
+
+/**
+ * Decrypt the repository back to plaintext files and remove the key file
+ */
+export async function disableSyncEncryption(
+  config: SyncConfig
+): Promise<ServiceResult<number>> {
+  try {
+    if (!(await loadSyncEncryptionKeys())) {
+      return failure(new SyncEncryptionError("KEY_REQUIRED").message)
+    }
+    return await rewriteSyncedFiles(config, null, "Decrypt synced files")
+  } catch (error) {
+    return toFailure("disableSyncEncryption", error)
+  }
+}
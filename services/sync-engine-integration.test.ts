@@ -5,6 +5,7 @@
  * - Tree-based fetch → merge → push with mocked GitHub API
  * - Fallback path: Trees API fails → Contents API succeeds → sync completes
  * - Cold start: no SHA cache → full download → cache populated
+ * - Preview: fetch → merge runs, nothing is committed
  */
 
 // Mock i18next before imports
@@ -210,6 +211,49 @@ describe("Sync Engine Integration - End-to-End Optimized Flow", () => {
     })
   })
 
+  describe("Preview stops before the push", () => {
+    it("should return the planned push without committing", async () => {
+      const localExpense = makeExpense("local-1", "2024-06-15", 25)
+      const remoteExpense = makeExpense("remote-1", "2024-06-14", 50)
+
+      mockFetch
+        .mockResolvedValueOnce(mockBranchRef())
+        .mockResolvedValueOnce(mockCommitTree())
+        .mockResolvedValueOnce(
+          mockTreeResponse([
+            { path: "expenses-2024-06-14.csv", type: "blob", sha: "sha-day14" },
+          ])
+        )
+        .mockResolvedValueOnce(mockDownloadCSV(makeCSV([remoteExpense])))
+
+      const result = await gitStyleSync(
+        [localExpense],
+        undefined,
+        undefined,
+        false,
+        false,
+        true
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.preview?.uploads.sort()).toEqual([
+        "expenses-2024-06-14.csv",
+        "expenses-2024-06-15.csv",
+      ])
+      expect(result.preview).toMatchObject({
+        deletions: [],
+        expensesAdded: 1,
+        expensesUpdated: 0,
+        expensesPushed: 1,
+        conflicts: 0,
+        settingsUploaded: false,
+      })
+      // Only the fetch phase reached the network
+      expect(mockFetch).toHaveBeenCalledTimes(4)
+      expect(await getItem("merge_base_snapshot")).toBeNull()
+    })
+  })
+
   describe("Cold start: no SHA cache → full download → cache populated", () => {
     it("should download all files when SHA cache is empty and populate cache after sync", async () => {
       const expense1 = makeExpense("r1", "2024-06-14", 10)
@@ -0,0 +1,222 @@
+import type { CommitFileChange, CommitSummary } from "./github-sync"
+
+const mockCommits: CommitSummary[] = []
+const mockChanges: Record<string, CommitFileChange[]> = {}
+const mockFilesAt: Record<string, Record<string, string>> = {}
+const mockGetCommitChanges = jest.fn(async (sha: string) => mockChanges[sha] ?? [])
+const mockDownloadFileAt = jest.fn(async (path: string, ref: string) =>
+  mockFilesAt[ref]?.[path] !== undefined
+    ? { content: mockFilesAt[ref][path], sha: `${ref}:${path}` }
+    : null
+)
+jest.mock("./sync-backends/sync-backend", () => ({
+  createSyncBackend: () => ({
+    kind: "github",
+    history: {
+      listCommits: async (limit: number) => mockCommits.slice(0, limit),
+      getCommitChanges: mockGetCommitChanges,
+      downloadFileAt: mockDownloadFileAt,
+    },
+  }),
+}))
+
+import { clear } from "./storage"
+import {
+  diffExpenses,
+  getSyncDevices,
+  loadExpenseChanges,
+  loadSyncHistory,
+  refreshSyncHistory,
+} from "./sync-history"
+import { exportToCSV } from "./csv-handler"
+import { generateCommitMessage } from "./github-sync"
+import type { Expense } from "../types/expense"
+import type { SyncConfig } from "../types/sync"
+
+const config: SyncConfig = { token: "ghp_token", repo: "me/expenses", branch: "main" }
+
+const lunch: Expense = {
+  id: "lunch",
+  amount: 120,
+  category: "Food",
+  date: "2024-01-01T12:00:00.000Z",
+  note: "Lunch",
+  createdAt: "2024-01-01T12:00:00.000Z",
+  updatedAt: "2024-01-01T12:00:00.000Z",
+}
+
+describe("sync history", () => {
+  beforeEach(async () => {
+    await clear()
+    jest.clearAllMocks()
+    mockCommits.length = 0
+    for (const record of [mockChanges, mockFilesAt]) {
+      for (const key of Object.keys(record)) {
+        delete record[key]
+      }
+    }
+  })
+
+  it("summarises commits by day file and device, and caches them", async () => {
+    mockCommits.push(
+      {
+        sha: "c2",
+        message: "Sync expenses: 2 files updated\n\nDevice: Pixel 8",
+        authorName: "me",
+        timestamp: "2024-01-02T10:00:00Z",
+        parentShas: ["c1"],
+      },
+      {
+        sha: "c1",
+        message: "Sync expenses",
+        authorName: "me",
+        timestamp: "2024-01-01T10:00:00Z",
+        parentShas: [],
+      }
+    )
+    mockChanges.c2 = [
+      { path: "expenses-2024-01-01.csv", status: "modified" },
+      { path: "expenses-2024-01-02.csv", status: "added" },
+      { path: "settings.json", status: "modified" },
+    ]
+
+    const result = await refreshSyncHistory(config)
+
+    expect(result.success).toBe(true)
+    expect(result.data?.map((entry) => entry.sha)).toEqual(["c2", "c1"])
+    expect(result.data?.[0]).toMatchObject({
+      summary: "Sync expenses: 2 files updated",
+      device: "Pixel 8",
+      parentSha: "c1",
+      settingsChanged: true,
+      days: [
+        { dayKey: "2024-01-02", status: "added" },
+        { dayKey: "2024-01-01", status: "changed" },
+      ],
+    })
+    expect(result.data?.[1].device).toBe("me")
+    await expect(loadSyncHistory()).resolves.toEqual(result.data)
+
+    await refreshSyncHistory(config)
+    expect(mockGetCommitChanges).toHaveBeenCalledTimes(2)
+  })
+
+  it("lists each device with its latest sync, following renames by device ID", async () => {
+    mockCommits.push(
+      {
+        sha: "c3",
+        message: generateCommitMessage(1, 0, { id: "a1b2", name: "Work phone" }),
+        authorName: "me",
+        timestamp: "2024-01-03T10:00:00Z",
+        parentShas: ["c2"],
+      },
+      {
+        sha: "c2",
+        message: generateCommitMessage(1, 0, { id: "c3d4", name: "Tablet" }),
+        authorName: "me",
+        timestamp: "2024-01-02T10:00:00Z",
+        parentShas: ["c1"],
+      },
+      {
+        sha: "c1",
+        message: generateCommitMessage(2, 0, { id: "a1b2", name: "Pixel 8" }),
+        authorName: "me",
+        timestamp: "2024-01-01T10:00:00Z",
+        parentShas: ["c0"],
+      },
+      {
+        sha: "c0",
+        message: "Sync expenses\n\nDevice: Old laptop",
+        authorName: "me",
+        timestamp: "2023-12-31T10:00:00Z",
+        parentShas: [],
+      }
+    )
+
+    const result = await refreshSyncHistory(config)
+
+    expect(result.data?.[0]).toMatchObject({ device: "Work phone", deviceId: "a1b2" })
+    expect(getSyncDevices(result.data ?? [])).toEqual([
+      {
+        key: "a1b2",
+        id: "a1b2",
+        name: "Work phone",
+        lastSyncAt: "2024-01-03T10:00:00Z",
+        commits: 2,
+      },
+      {
+        key: "c3d4",
+        id: "c3d4",
+        name: "Tablet",
+        lastSyncAt: "2024-01-02T10:00:00Z",
+        commits: 1,
+      },
+      {
+        key: "Old laptop",
+        id: undefined,
+        name: "Old laptop",
+        lastSyncAt: "2023-12-31T10:00:00Z",
+        commits: 1,
+      },
+    ])
+  })
+
+  it("diffs a commit's day files against its parent and keeps the result offline", async () => {
+    const dinner: Expense = { ...lunch, id: "dinner", note: "Dinner" }
+    mockFilesAt.c1 = { "expenses-2024-01-01.csv": exportToCSV([lunch, dinner]) }
+    mockFilesAt.c2 = {
+      "expenses-2024-01-01.csv": exportToCSV([{ ...lunch, amount: 150 }]),
+      "expenses-2024-01-03.csv": exportToCSV([
+        { ...dinner, date: "2024-01-03T19:00:00.000Z" },
+      ]),
+    }
+    const entry = {
+      sha: "c2",
+      summary: "Sync",
+      timestamp: "2024-01-03T20:00:00Z",
+      parentSha: "c1",
+      settingsChanged: false,
+      days: [
+        {
+          path: "expenses-2024-01-03.csv",
+          dayKey: "2024-01-03",
+          status: "added" as const,
+        },
+        {
+          path: "expenses-2024-01-01.csv",
+          dayKey: "2024-01-01",
+          status: "changed" as const,
+        },
+      ],
+    }
+
+    const result = await loadExpenseChanges(config, entry)
+
+    expect(result.success).toBe(true)
+    expect(
+      result.data?.map((change) => [change.expenseId, change.type, change.fields])
+    ).toEqual([
+      ["dinner", "changed", ["date"]],
+      ["lunch", "changed", ["amount"]],
+    ])
+
+    mockDownloadFileAt.mockRejectedValue(new Error("Network request failed"))
+    await expect(loadExpenseChanges(config, entry)).resolves.toEqual(result)
+  })
+
+  it("reports additions, soft deletes and removals", () => {
+    const coffee: Expense = { ...lunch, id: "coffee" }
+    const deleted = { ...lunch, deletedAt: "2024-01-02T00:00:00.000Z" }
+
+    expect(
+      diffExpenses([lunch, coffee], [deleted, { ...lunch, id: "tea" }]).map((change) => [
+        change.expenseId,
+        change.type,
+      ])
+    ).toEqual([
+      ["lunch", "deleted"],
+      ["tea", "added"],
+      ["coffee", "removed"],
+    ])
+  })
+})
@@ -0,0 +1,349 @@
+/**
+ * Sync history read from the repository's commits
+ *
+ * Every sync is a commit on the sync branch, so the branch log is a timeline
+ * of what each device pushed. Commits are summarised by the day files they
+ * touched; the expenses a commit changed are worked out on demand by diffing
+ * its day files against the parent commit. Both are cached so past entries
+ * stay readable offline.
+ */
+
+import i18next from "i18next"
+import { getItem, setItem, removeItem } from "./storage"
+import { openSyncBackend } from "./sync-encryption"
+import { getCommitDeviceId, getCommitDeviceName } from "./github-sync"
+import { parseExpenseFilename } from "./daily-file-manager"
+import { importFromCSV } from "./csv-handler"
+import { getDifferingFields, type ExpenseMergeField } from "./merge-engine"
+import { SyncEncryptionError } from "./sync-backends/encrypted-backend"
+import { createErrorResult, createSuccessResult } from "./error-utils"
+import { pMap } from "./retry"
+import type { SyncBackendHistory } from "./sync-backends/sync-backend"
+import type { Expense } from "../types/expense"
+import type { ServiceResult } from "../types/service-result"
+import type { SyncConfig } from "../types/sync"
+import { ledgerScopedKey } from "./ledgers"
+
+const SYNC_HISTORY_KEY = "sync_history_v1"
+const SYNC_HISTORY_CHANGES_KEY = "sync_history_changes_v1"
+
+/** Commits fetched per refresh */
+const COMMITS_PER_PAGE = 30
+/** Commits kept in the local cache */
+const MAX_HISTORY_ENTRIES = 100
+
+/** An expense file a commit touched */
+export interface SyncHistoryDayFile {
+  path: string
+  /** Day of a daily file, or month of a monthly one */
+  dayKey: string
+  status: "added" | "changed" | "removed"
+  /** Where the file was read from in the parent commit, when renamed */
+  previousPath?: string
+}
+
+/** One sync commit */
+export interface SyncHistoryEntry {
+  sha: string
+  /** First line of the commit message */
+  summary: string
+  timestamp: string
+  /** Device trailer of the commit, or its git author */
+  device?: string
+  /** Device ID trailer of the commit */
+  deviceId?: string
+  parentSha?: string
+  days: SyncHistoryDayFile[]
+  settingsChanged: boolean
+}
+
+/** How one expense changed in a commit */
+export interface ExpenseChange {
+  expenseId: string
+  type: "added" | "changed" | "deleted" | "removed"
+  before?: Expense
+  after?: Expense
+  /** Fields that differ, for "changed" */
+  fields?: ExpenseMergeField[]
+}
+
+interface CachedChanges {
+  [sha: string]: ExpenseChange[]
+}
+
+/**
+ * Cached history, newest first. Returns an empty list on missing or
+ * corrupted data.
+ */
+export async function loadSyncHistory(): Promise<SyncHistoryEntry[]> {
+  try {
+    const stored = await getItem(ledgerScopedKey(SYNC_HISTORY_KEY))
+    if (stored) {
+      const parsed = JSON.parse(stored)
+      if (Array.isArray(parsed)) {
+        return parsed
+      }
+      console.warn("Sync history cache has invalid shape, resetting")
+    }
+  } catch (error) {
+    console.warn("Failed to load sync history:", error)
+  }
+  return []
+}
+
+async function loadCachedChanges(): Promise<CachedChanges> {
+  try {
+    const stored = await getItem(ledgerScopedKey(SYNC_HISTORY_CHANGES_KEY))
+    if (stored) {
+      const parsed = JSON.parse(stored)
+      if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+        return parsed
+      }
+    }
+  } catch (error) {
+    console.warn("Failed to load sync history changes:", error)
+  }
+  return {}
+}
+
+async function saveCache(key: string, value: unknown): Promise<void> {
+  try {
+    await setItem(key, JSON.stringify(value))
+  } catch (error) {
+    console.warn("Failed to save sync history:", error)
+  }
+}
+
+/**
+ * Clear cached history (when sync points at a different remote)
+ */
+export async function clearSyncHistory(): Promise<void> {
+  try {
+    await removeItem(ledgerScopedKey(SYNC_HISTORY_KEY))
+    await removeItem(ledgerScopedKey(SYNC_HISTORY_CHANGES_KEY))
+  } catch (error) {
+    console.warn("Failed to clear sync history:", error)
+  }
+}
+
+function unsupported<T>(): ServiceResult<T> {
+  return {
+    success: false,
+    error:
+      i18next.t("syncHistory.errors.unsupported") ??
+      "This sync backend does not keep a commit history",
+  }
+}
+
+function toFailure<T>(operation: string, error: unknown): ServiceResult<T> {
+  if (error instanceof SyncEncryptionError) {
+    return { success: false, error: error.message }
+  }
+  return createErrorResult("SyncHistory", operation, error)
+}
+
+/**
+ * Fetch the latest commits and add them to the cache. Commits already cached
+ * are not requested again, since a commit never changes.
+ *
+ * @returns The full cached history, newest first
+ */
+export async function refreshSyncHistory(
+  config: SyncConfig
+): Promise<ServiceResult<SyncHistoryEntry[]>> {
+  try {
+    const history = (await openSyncBackend(config)).history
+    if (!history) {
+      return unsupported()
+    }
+
+    const cached = await loadSyncHistory()
+    const known = new Set(cached.map((entry) => entry.sha))
+    const commits = (await history.listCommits(COMMITS_PER_PAGE)).filter(
+      (commit) => !known.has(commit.sha)
+    )
+
+    const fetched = await pMap(
+      commits,
+      async (commit): Promise<SyncHistoryEntry> => {
+        const changes = await history.getCommitChanges(commit.sha)
+        const days: SyncHistoryDayFile[] = []
+        for (const change of changes) {
+          const parsed = parseExpenseFilename(change.path)
+          if (parsed) {
+            days.push({
+              path: change.path,
+              dayKey: parsed.fileKey,
+              status: change.status === "modified" ? "changed" : change.status,
+              previousPath:
+                change.previousPath && parseExpenseFilename(change.previousPath)
+                  ? change.previousPath
+                  : undefined,
+            })
+          }
+        }
+        return {
+          sha: commit.sha,
+          summary: commit.message.split("\n")[0],
+          timestamp: commit.timestamp,
+          device: getCommitDeviceName(commit.message) ?? commit.authorName,
+          deviceId: getCommitDeviceId(commit.message),
+          parentSha: commit.parentShas[0],
+          days: days.sort((a, b) => b.dayKey.localeCompare(a.dayKey)),
+          settingsChanged: changes.some((change) => change.path === "settings.json"),
+        }
+      },
+      3
+    )
+
+    const entries = [...fetched, ...cached]
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, MAX_HISTORY_ENTRIES)
+    await saveCache(ledgerScopedKey(SYNC_HISTORY_KEY), entries)
+
+    return createSuccessResult(entries)
+  } catch (error) {
+    return toFailure("refreshSyncHistory", error)
+  }
+}
+
+/** A device that has pushed to the repository */
+export interface SyncDevice {
+  /** Device ID, or the name for commits made before devices had IDs */
+  key: string
+  id?: string
+  /** Name in the device's latest commit */
+  name: string
+  lastSyncAt: string
+  commits: number
+}
+
+/**
+ * Devices seen in the sync history, most recently synced first. Commits with
+ * a device ID are grouped by it so a renamed device stays one entry.
+ */
+export function getSyncDevices(entries: SyncHistoryEntry[]): SyncDevice[] {
+  const devices = new Map<string, SyncDevice>()
+  for (const entry of entries) {
+    const key = entry.deviceId ?? entry.device
+    if (!key) {
+      continue
+    }
+    const device = devices.get(key)
+    if (!device) {
+      devices.set(key, {
+        key,
+        id: entry.deviceId,
+        name: entry.device ?? entry.deviceId ?? key,
+        lastSyncAt: entry.timestamp,
+        commits: 1,
+      })
+    } else {
+      device.commits += 1
+      if (entry.timestamp > device.lastSyncAt) {
+        device.lastSyncAt = entry.timestamp
+        device.name = entry.device ?? device.name
+      }
+    }
+  }
+  return [...devices.values()].sort((a, b) => b.lastSyncAt.localeCompare(a.lastSyncAt))
+}
+
+/**
+ * Compare two versions of a set of expenses by ID
+ */
+export function diffExpenses(before: Expense[], after: Expense[]): ExpenseChange[] {
+  const beforeMap = new Map(before.map((expense) => [expense.id, expense]))
+  const afterMap = new Map(after.map((expense) => [expense.id, expense]))
+  const changes: ExpenseChange[] = []
+
+  for (const [expenseId, next] of afterMap) {
+    const previous = beforeMap.get(expenseId)
+    if (!previous) {
+      changes.push({ expenseId, type: next.deletedAt ? "deleted" : "added", after: next })
+      continue
+    }
+    const fields = getDifferingFields(previous, next)
+    if (fields.length === 0) {
+      continue
+    }
+    changes.push({
+      expenseId,
+      type: next.deletedAt && !previous.deletedAt ? "deleted" : "changed",
+      before: previous,
+      after: next,
+      fields,
+    })
+  }
+
+  for (const [expenseId, previous] of beforeMap) {
+    if (!afterMap.has(expenseId)) {
+      changes.push({ expenseId, type: "removed", before: previous })
+    }
+  }
+
+  return changes
+}
+
+async function readDayFile(
+  history: SyncBackendHistory,
+  path: string,
+  ref: string
+): Promise<Expense[]> {
+  const file = await history.downloadFileAt(path, ref)
+  return file ? importFromCSV(file.content) : []
+}
+
+/**
+ * Expenses a commit changed, found by diffing its day files against the
+ * parent commit. A record moving between days shows up as one change.
+ */
+export async function loadExpenseChanges(
+  config: SyncConfig,
+  entry: SyncHistoryEntry
+): Promise<ServiceResult<ExpenseChange[]>> {
+  const cached = await loadCachedChanges()
+  if (cached[entry.sha]) {
+    return createSuccessResult(cached[entry.sha])
+  }
+
+  try {
+    const history = (await openSyncBackend(config)).history
+    if (!history) {
+      return unsupported()
+    }
+
+    const versions = await pMap(
+      entry.days,
+      async (day) => ({
+        before:
+          day.status !== "added" || day.previousPath
+            ? entry.parentSha
+              ? await readDayFile(history, day.previousPath ?? day.path, entry.parentSha)
+              : []
+            : [],
+        after:
+          day.status !== "removed" ? await readDayFile(history, day.path, entry.sha) : [],
+      }),
+      3
+    )
+    const changes = diffExpenses(
+      versions.flatMap((version) => version.before),
+      versions.flatMap((version) => version.after)
+    )
+
+    // Keep changes only for commits still in the history cache
+    const kept = new Set((await loadSyncHistory()).map((item) => item.sha))
+    const next: CachedChanges = { [entry.sha]: changes }
+    for (const [sha, value] of Object.entries(cached)) {
+      if (kept.has(sha)) {
+        next[sha] = value
+      }
+    }
+    await saveCache(ledgerScopedKey(SYNC_HISTORY_CHANGES_KEY), next)
+
+    return createSuccessResult(changes)
+  } catch (error) {
+    return toFailure("loadExpenseChanges", error)
+  }
+}
@@ -6,6 +6,7 @@
  *
  * State Flow:
  * idle → fetching → merging → [conflict] → pushing → success
+ * idle → previewing → preview → (APPLY) syncing | (CANCEL) idle
  *
  * XState v5 Best Practices Applied:
  * - Uses setup() for proper type inference
@@ -22,6 +23,7 @@ import {
   GitStyleSyncResult,
   ConflictResolution,
   loadSyncConfig,
+  SyncPreviewPlan,
 } from "./sync-manager"
 import { TrueConflict, MergeResult } from "./merge-engine"
 import i18next from "i18next"
@@ -43,6 +45,8 @@ export interface SyncCallbacks {
   }) => void
   /** Called when already in sync (no changes needed) */
   onInSync?: () => void
+  /** Called when a preview run has worked out what the sync would do */
+  onPreview?: (plan: SyncPreviewPlan) => void
   /** Called when an error occurs */
   onError?: (error: string) => void
 
@@ -66,6 +70,8 @@ export interface SyncMachineContext {
   localExpenses: Expense[]
   settings?: AppSettings
   syncSettingsEnabled: boolean
+  /** Whether receipt attachments are pushed to the repo */
+  syncAttachments?: boolean
 
   // Callbacks for side effects
   callbacks: SyncCallbacks
@@ -77,6 +83,8 @@ export interface SyncMachineContext {
   // Results
   syncResult?: GitStyleSyncResult
   mergeResult?: MergeResult
+  /** Plan from a preview run, waiting to be applied or cancelled */
+  syncPlan?: SyncPreviewPlan
 
   // Error
   error?: string
@@ -88,6 +96,16 @@ export type SyncMachineEvent =
       localExpenses: Expense[]
       settings?: AppSettings
       syncSettingsEnabled: boolean
+      syncAttachments?: boolean
+      callbacks?: SyncCallbacks
+      conflictResolver?: ConflictResolver
+    }
+  | {
+      type: "PREVIEW"
+      localExpenses: Expense[]
+      settings?: AppSettings
+      syncSettingsEnabled: boolean
+      syncAttachments?: boolean
       callbacks?: SyncCallbacks
       conflictResolver?: ConflictResolver
     }
@@ -95,6 +113,7 @@ export type SyncMachineEvent =
       type: "RESOLVE_CONFLICTS"
       resolutions: ConflictResolution[]
     }
+  | { type: "APPLY" }
   | { type: "CANCEL" }
   | { type: "RESET" }
 
@@ -114,7 +133,7 @@ interface UnifiedSyncActorResult {
 // State Machine Definition
 // =============================================================================
 
-type SyncEvent = Extract<SyncMachineEvent, { type: "SYNC" }>
+type SyncEvent = Extract<SyncMachineEvent, { type: "SYNC" | "PREVIEW" }>
 
 export const syncMachine = setup({
   types: {
@@ -132,6 +151,7 @@ export const syncMachine = setup({
         localExpenses: Expense[]
         settings?: AppSettings
         syncSettingsEnabled: boolean
+        syncAttachments?: boolean
         conflictResolver?: ConflictResolver
       }
     >(async ({ input }) => {
@@ -149,7 +169,8 @@ export const syncMachine = setup({
         input.localExpenses,
         input.conflictResolver,
         input.settings,
-        input.syncSettingsEnabled
+        input.syncSettingsEnabled,
+        input.syncAttachments
       )
 
       // Check if there are unresolved conflicts
@@ -198,6 +219,43 @@ export const syncMachine = setup({
       }
     }),
 
+    /**
+     * Preview actor that runs fetch → merge and returns the push it would make
+     */
+    previewSync: fromPromise<
+      UnifiedSyncActorResult,
+      {
+        localExpenses: Expense[]
+        settings?: AppSettings
+        syncSettingsEnabled: boolean
+        syncAttachments?: boolean
+      }
+    >(async ({ input }) => {
+      const config = await loadSyncConfig()
+      if (!config) {
+        return {
+          success: false,
+          error: i18next.t("githubSync.manager.noConfigFound"),
+        }
+      }
+
+      const result = await gitStyleSync(
+        input.localExpenses,
+        undefined,
+        input.settings,
+        input.syncSettingsEnabled,
+        input.syncAttachments,
+        true
+      )
+
+      return {
+        success: result.success && result.preview !== undefined,
+        syncResult: result,
+        mergeResult: result.mergeResult,
+        error: result.error,
+      }
+    }),
+
     /**
      * Retry sync after conflict resolution
      */
@@ -207,6 +265,7 @@ export const syncMachine = setup({
         localExpenses: Expense[]
         settings?: AppSettings
         syncSettingsEnabled: boolean
+        syncAttachments?: boolean
         resolutions: ConflictResolution[]
       }
     >(async ({ input }) => {
@@ -217,7 +276,8 @@ export const syncMachine = setup({
         input.localExpenses,
         resolver,
         input.settings,
-        input.syncSettingsEnabled
+        input.syncSettingsEnabled,
+        input.syncAttachments
       )
 
       return {
@@ -251,11 +311,32 @@ export const syncMachine = setup({
               localExpenses: syncEvent.localExpenses,
               settings: syncEvent.settings,
               syncSettingsEnabled: syncEvent.syncSettingsEnabled,
+              syncAttachments: syncEvent.syncAttachments,
               callbacks: syncEvent.callbacks || {},
               conflictResolver: syncEvent.conflictResolver,
               // Clear previous results
               syncResult: undefined,
               mergeResult: undefined,
+              syncPlan: undefined,
+              pendingConflicts: undefined,
+              error: undefined,
+            }
+          }),
+        },
+        PREVIEW: {
+          target: "previewing",
+          actions: assign(({ event }: { event: SyncMachineEvent }) => {
+            const syncEvent = event as SyncEvent
+            return {
+              localExpenses: syncEvent.localExpenses,
+              settings: syncEvent.settings,
+              syncSettingsEnabled: syncEvent.syncSettingsEnabled,
+              syncAttachments: syncEvent.syncAttachments,
+              callbacks: syncEvent.callbacks || {},
+              conflictResolver: syncEvent.conflictResolver,
+              syncResult: undefined,
+              mergeResult: undefined,
+              syncPlan: undefined,
               pendingConflicts: undefined,
               error: undefined,
             }
@@ -264,6 +345,70 @@ export const syncMachine = setup({
       },
     },
 
+    /**
+     * Previewing state - fetch → merge without pushing
+     */
+    previewing: {
+      invoke: {
+        src: "previewSync",
+        input: ({ context }) => ({
+          localExpenses: context.localExpenses,
+          settings: context.settings,
+          syncSettingsEnabled: context.syncSettingsEnabled,
+          syncAttachments: context.syncAttachments,
+        }),
+        onDone: [
+          {
+            guard: ({ event }) => event.output.success === true,
+            target: "preview",
+            actions: [
+              assign({
+                syncPlan: ({ event }) => event.output.syncResult?.preview,
+              }),
+              ({ context, event }) => {
+                const plan = event.output.syncResult?.preview
+                if (plan) {
+                  context.callbacks.onPreview?.(plan)
+                }
+              },
+            ],
+          },
+          {
+            target: "error",
+            actions: assign({
+              syncResult: ({ event }) => event.output.syncResult,
+              error: ({ event }) =>
+                event.output.error || i18next.t("githubSync.manager.syncFailed"),
+            }),
+          },
+        ],
+        onError: {
+          target: "error",
+          actions: assign({
+            error: ({ event }) => String(event.error),
+          }),
+        },
+      },
+    },
+
+    /**
+     * Preview state - the plan is shown and the user applies or cancels it.
+     * Applying runs a full sync, so changes made on the remote since the
+     * preview are merged too.
+     */
+    preview: {
+      on: {
+        APPLY: {
+          target: "syncing",
+          actions: assign({ syncPlan: undefined }),
+        },
+        CANCEL: {
+          target: "idle",
+          actions: assign({ syncPlan: undefined }),
+        },
+      },
+    },
+
     /**
      * Unified syncing state - performs fetch → merge → push
      * This replaces the old checkingRemote → pushing/pulling flow
@@ -275,6 +420,7 @@ export const syncMachine = setup({
           localExpenses: context.localExpenses,
           settings: context.settings,
           syncSettingsEnabled: context.syncSettingsEnabled,
+          syncAttachments: context.syncAttachments,
           conflictResolver: context.conflictResolver,
         }),
         onDone: [
@@ -377,6 +523,7 @@ export const syncMachine = setup({
           localExpenses: context.localExpenses,
           settings: context.settings,
           syncSettingsEnabled: context.syncSettingsEnabled,
+          syncAttachments: context.syncAttachments,
           resolutions:
             event.type === "RESOLVE_CONFLICTS"
               ? event.resolutions
@@ -464,6 +611,23 @@ export const syncMachine = setup({
               localExpenses: syncEvent.localExpenses,
               settings: syncEvent.settings,
               syncSettingsEnabled: syncEvent.syncSettingsEnabled,
+              syncAttachments: syncEvent.syncAttachments,
+              callbacks: syncEvent.callbacks || {},
+              conflictResolver: syncEvent.conflictResolver,
+              error: undefined,
+              pendingConflicts: undefined,
+            }
+          }),
+        },
+        PREVIEW: {
+          target: "previewing",
+          actions: assign(({ event }: { event: SyncMachineEvent }) => {
+            const syncEvent = event as SyncEvent
+            return {
+              localExpenses: syncEvent.localExpenses,
+              settings: syncEvent.settings,
+              syncSettingsEnabled: syncEvent.syncSettingsEnabled,
+              syncAttachments: syncEvent.syncAttachments,
               callbacks: syncEvent.callbacks || {},
               conflictResolver: syncEvent.conflictResolver,
               error: undefined,
@@ -479,6 +643,8 @@ export const syncMachine = setup({
 // Type exports for external use
 export type SyncMachineState =
   | "idle"
+  | "previewing"
+  | "preview"
   | "syncing"
   | "conflict"
   | "pushing"
@@ -487,4 +653,10 @@ export type SyncMachineState =
   | "error"
 
 // Re-export types for convenience
-export type { TrueConflict, MergeResult, ConflictResolution, GitStyleSyncResult }
+export type {
+  TrueConflict,
+  MergeResult,
+  ConflictResolution,
+  GitStyleSyncResult,
+  SyncPreviewPlan,
+}
@@ -16,6 +16,8 @@ import {
 import { PaymentMethodType } from "../types/expense"
 import { DEFAULT_CATEGORIES } from "../constants/default-categories"
 import { clear, setItem } from "./storage"
+import type { RecurringExpenseTemplate } from "../types/recurring-expense"
+import type { ExchangeRate } from "../types/exchange-rate"
 
 // Mock expo-secure-store for testing
 jest.mock("expo-secure-store", () => ({
@@ -41,7 +43,12 @@ const validIsoDateArbitrary = fc
 
 // Arbitrary generators for settings
 const themeArbitrary = fc.constantFrom<ThemePreference>("light", "dark", "system")
-const autoSyncTimingArbitrary = fc.constantFrom<AutoSyncTiming>("on_launch", "on_change")
+const autoSyncTimingArbitrary = fc.constantFrom<AutoSyncTiming>(
+  "on_launch",
+  "on_change",
+  "interval",
+  "on_reconnect"
+)
 const paymentMethodTypeArbitrary = fc.constantFrom<PaymentMethodType>(
   "Cash",
   "UPI",
@@ -64,10 +71,15 @@ const settingsArbitrary: fc.Arbitrary<AppSettings> = fc.record({
   backgroundSmsImportEnabled: fc.boolean(),
   autoSyncEnabled: fc.boolean(),
   autoSyncTiming: autoSyncTimingArbitrary,
+  autoSyncIntervalMinutes: fc.constantFrom(5, 15, 30, 60),
+  fieldUpdatedAt: fc.constant({}),
   categories: fc.constant(DEFAULT_CATEGORIES),
   categoriesVersion: fc.constant(1),
   paymentInstruments: fc.constant([]),
   paymentInstrumentsMigrationVersion: fc.integer({ min: 0, max: 10 }),
+  recurringTemplates: fc.constant<RecurringExpenseTemplate[]>([]),
+  exchangeRates: fc.constant<ExchangeRate[]>([]),
+  syncAttachments: fc.boolean(),
   updatedAt: validIsoDateArbitrary,
   version: fc.integer({ min: 8, max: 10 }),
   defaultCurrency: fc.constant("INR"),
@@ -84,10 +96,15 @@ const fullSettingsArbitrary: fc.Arbitrary<AppSettings> = fc.record({
   backgroundSmsImportEnabled: fc.boolean(),
   autoSyncEnabled: fc.boolean(),
   autoSyncTiming: autoSyncTimingArbitrary,
+  autoSyncIntervalMinutes: fc.constantFrom(5, 15, 30, 60),
+  fieldUpdatedAt: fc.constant({}),
   categories: fc.constant(DEFAULT_CATEGORIES),
   categoriesVersion: fc.constant(1),
   paymentInstruments: fc.constant([]),
   paymentInstrumentsMigrationVersion: fc.constant(0),
+  recurringTemplates: fc.constant<RecurringExpenseTemplate[]>([]),
+  exchangeRates: fc.constant<ExchangeRate[]>([]),
+  syncAttachments: fc.boolean(),
   updatedAt: validIsoDateArbitrary,
   version: fc.constant(9),
   defaultCurrency: fc.constant("INR"),
@@ -344,10 +361,15 @@ describe("Sync Manager Settings Integration Properties", () => {
             backgroundSmsImportEnabled: false,
             autoSyncEnabled: false,
             autoSyncTiming: "on_launch",
+            autoSyncIntervalMinutes: 15,
+            fieldUpdatedAt: {},
             categories: DEFAULT_CATEGORIES,
             categoriesVersion: 1,
             paymentInstruments: [],
             paymentInstrumentsMigrationVersion: 0,
+            recurringTemplates: [],
+            exchangeRates: [],
+            syncAttachments: false,
             updatedAt: new Date().toISOString(),
             version: 9,
             defaultCurrency: "INR",
@@ -418,7 +440,9 @@ describe("Sync Manager Settings Integration Properties", () => {
 
           // autoSyncTiming should be present in the serialized JSON
           expect(parsed).toHaveProperty("autoSyncTiming")
-          expect(["on_launch", "on_change"]).toContain(parsed.autoSyncTiming)
+          expect(["on_launch", "on_change", "interval", "on_reconnect"]).toContain(
+            parsed.autoSyncTiming
+          )
           expect(parsed.autoSyncTiming).toBe(settings.autoSyncTiming)
         }),
         { numRuns: 100 }
@@ -651,7 +675,9 @@ describe("Sync Manager Settings Integration Properties", () => {
           const deserialized = JSON.parse(json) as AppSettings
 
           // autoSyncTiming should be preserved as valid enum value
-          expect(["on_launch", "on_change"]).toContain(deserialized.autoSyncTiming)
+          expect(["on_launch", "on_change", "interval", "on_reconnect"]).toContain(
+            deserialized.autoSyncTiming
+          )
           expect(deserialized.autoSyncTiming).toBe(settings.autoSyncTiming)
         }),
         { numRuns: 100 }
@@ -20,4 +20,5 @@ export {
   ConflictResolution,
   GitStyleSyncResult,
   OnConflictCallback,
+  SyncPreviewPlan,
 } from "./git-style-sync"
@@ -3,6 +3,8 @@ import { Expense } from "../types/expense"
 import { AppSettings } from "./settings-manager"
 import { Category } from "../types/category"
 import { getRandomCategoryColor } from "../constants/category-colors"
+import { applySettingsPatch } from "./settings-merger"
+import { ledgerScopedKey } from "./ledgers"
 
 const SYNC_QUEUE_KEY = "sync_queue_v1"
 const SYNC_QUEUE_VERSION = 1
@@ -115,7 +117,7 @@ function enqueueWrite<T>(operation: () => Promise<T>): Promise<T> {
 
 async function loadState(): Promise<SyncQueueState> {
   try {
-    const stored = await getItem(SYNC_QUEUE_KEY)
+    const stored = await getItem(ledgerScopedKey(SYNC_QUEUE_KEY))
     if (!stored) {
       return { ...emptyState }
     }
@@ -138,7 +140,7 @@ async function loadState(): Promise<SyncQueueState> {
 
 async function saveState(state: SyncQueueState): Promise<void> {
   try {
-    await setItem(SYNC_QUEUE_KEY, JSON.stringify(state))
+    await setItem(ledgerScopedKey(SYNC_QUEUE_KEY), JSON.stringify(state))
   } catch (error) {
     console.warn("Failed to save sync queue:", error)
   }
@@ -185,6 +187,18 @@ export async function clearSyncOpsUpTo(watermark: number): Promise<void> {
   })
 }
 
+/**
+ * Remove one op from the queue. The local change it recorded stays, and its
+ * day stays dirty, so the next sync still uploads it; the op is just no
+ * longer replayed on top of what that sync downloads.
+ */
+export async function dropSyncOp(id: number): Promise<void> {
+  await enqueueWrite(async () => {
+    const state = await loadState()
+    await saveState({ ...state, ops: state.ops.filter((op) => op.id !== id) })
+  })
+}
+
 export function applyQueuedOpsToExpenses(
   expenses: Expense[],
   ops: SyncQueueOp[]
@@ -217,7 +231,7 @@ export function applyQueuedOpsToSettings(
   for (const op of sortedOps) {
     switch (op.type) {
       case "settings.patch":
-        nextSettings = { ...nextSettings, ...op.updates }
+        nextSettings = applySettingsPatch(nextSettings, op.updates, op.timestamp)
         break
       case "category.add":
         nextSettings = applyCategoryAdd(nextSettings, op.category)
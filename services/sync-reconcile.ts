@@ -1,6 +1,7 @@
 import { Expense } from "../types/expense"
 import { Category } from "../types/category"
 import { AppSettings } from "./settings-manager"
+import { isPurgedTombstone } from "./merge-engine"
 import {
   SyncQueueOp,
   applyQueuedOpsToExpenses,
@@ -18,6 +19,8 @@ export interface ReconcileAfterSyncInput {
   mergedCategories?: Category[]
   /** Ops captured after the sync watermark, to replay on top of the merge. */
   opsAfter: SyncQueueOp[]
+  /** Purge watermark of the sync; replayed ops cannot bring older tombstones back. */
+  purgedBefore?: string
 }
 
 export interface ReconcileAfterSyncResult {
@@ -39,7 +42,11 @@ export function reconcileAfterSync(
 ): ReconcileAfterSyncResult {
   const { opsAfter } = input
 
-  const expenses = applyQueuedOpsToExpenses(input.baseExpenses, opsAfter)
+  const replayed = applyQueuedOpsToExpenses(input.baseExpenses, opsAfter)
+  const { purgedBefore } = input
+  const expenses = purgedBefore
+    ? replayed.filter((expense) => !isPurgedTombstone(expense, purgedBefore))
+    : replayed
   const hasPendingExpenseOps = opsAfter.some((op) => op.type.startsWith("expense."))
   const hasPendingSettingsOps = opsAfter.some(
     (op) => op.type.startsWith("settings.") || op.type.startsWith("category.")
@@ -0,0 +1,32 @@
+/**
+ * Local text file access for imports
+ *
+ * Uses the system file picker; nothing is uploaded or fetched.
+ */
+
+import { File } from "expo-file-system"
+import type { ServiceResult } from "../types/service-result"
+import { createErrorResult, createSuccessResult } from "./error-utils"
+
+export const CSV_MIME_TYPES = ["text/csv", "text/comma-separated-values", "text/plain"]
+
+/**
+ * Let the user pick a file and read it as text.
+ * Resolves with `data: null` when the picker is cancelled.
+ */
+export async function pickTextFile(
+  mimeTypes: string[] = CSV_MIME_TYPES
+): Promise<ServiceResult<{ name: string; content: string } | null>> {
+  try {
+    const picked = await File.pickFileAsync({ mimeTypes })
+    if (picked.canceled) {
+      return createSuccessResult(null)
+    }
+
+    const file = picked.result
+    const content = await file.text()
+    return createSuccessResult({ name: file.name, content })
+  } catch (error) {
+    return createErrorResult("TextFile", "pickTextFile", error)
+  }
+}
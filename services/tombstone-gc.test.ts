@@ -0,0 +1,230 @@
+import type { BatchCommitRequest } from "./github-sync"
+
+const mockFiles = new Map<string, string>()
+const mockCommits: BatchCommitRequest[] = []
+jest.mock("./sync-backends/sync-backend", () => ({
+  createSyncBackend: () => ({
+    kind: "github",
+    getTree: async () => ({
+      success: true,
+      entries: [...mockFiles].map(([path, content]) => ({
+        path,
+        sha: `${path}@${content.length}`,
+      })),
+    }),
+    listFiles: async () => [],
+    downloadFile: async (path: string) =>
+      mockFiles.has(path) ? { content: mockFiles.get(path)!, sha: path } : null,
+    commit: async (request: BatchCommitRequest) => {
+      mockCommits.push(request)
+      for (const upload of request.uploads) {
+        mockFiles.set(upload.path, upload.content)
+      }
+      for (const deletion of request.deletions) {
+        mockFiles.delete(deletion.path)
+      }
+      return { success: true }
+    },
+    getLatestChangeTimestamp: async () => ({ timestamp: "2024-09-01T00:00:00Z" }),
+  }),
+}))
+
+import { clear } from "./storage"
+import {
+  TOMBSTONES_FILE,
+  getPurgeWatermark,
+  loadTombstonePolicy,
+  saveTombstoneRetention,
+} from "./tombstone-gc"
+import { mergeExpenses } from "./merge-engine"
+import { saveMergeBase } from "./merge-base"
+import { gitStyleSync } from "./git-style-sync"
+import { exportToCSV, importFromCSV } from "./csv-handler"
+import { getDueRecurringExpenses, getRecurringExpenseId } from "./recurring-expenses"
+import type { Expense } from "../types/expense"
+import type { RecurringExpenseTemplate } from "../types/recurring-expense"
+import type { SyncConfig } from "../types/sync"
+
+const config: SyncConfig = { token: "ghp_token", repo: "me/expenses", branch: "main" }
+
+function makeExpense(id: string, day: string, deletedAt?: string): Expense {
+  return {
+    id,
+    amount: 10,
+    currency: "INR",
+    category: "Food",
+    date: `${day}T12:00:00.000Z`,
+    note: id,
+    createdAt: `${day}T12:00:00.000Z`,
+    updatedAt: deletedAt ?? `${day}T12:00:00.000Z`,
+    deletedAt,
+  }
+}
+
+describe("tombstone garbage collection", () => {
+  beforeEach(async () => {
+    await clear()
+    mockFiles.clear()
+    mockCommits.length = 0
+    const secureStore = require("expo-secure-store")
+    secureStore.getItemAsync.mockImplementation(async (key: string) => {
+      if (key === "github_pat") return config.token
+      if (key === "github_repo") return config.repo
+      if (key === "github_branch") return config.branch
+      return null
+    })
+  })
+
+  it("moves the watermark to the day the retention period reaches back to", () => {
+    const now = new Date("2024-09-01T15:30:00.000Z")
+
+    expect(getPurgeWatermark({ retentionDays: 0 }, now)).toBeUndefined()
+    expect(getPurgeWatermark({ retentionDays: 180 }, now)).toBe(
+      "2024-03-05T00:00:00.000Z"
+    )
+    // A watermark already past the retention period is never moved back
+    expect(
+      getPurgeWatermark(
+        { retentionDays: 365, purgedBefore: "2024-03-05T00:00:00.000Z" },
+        now
+      )
+    ).toBe("2024-03-05T00:00:00.000Z")
+  })
+
+  it("drops old tombstones and synced records the remote purged, but keeps new ones", () => {
+    const purgedBefore = "2024-03-01T00:00:00.000Z"
+    const oldTombstone = makeExpense(
+      "old-deleted",
+      "2024-01-01",
+      "2024-01-02T00:00:00.000Z"
+    )
+    const recentTombstone = makeExpense(
+      "new-deleted",
+      "2024-01-01",
+      "2024-05-01T00:00:00.000Z"
+    )
+    const purgedElsewhere = makeExpense("purged", "2024-01-05")
+    const createdOffline = makeExpense("offline", "2024-01-06")
+
+    const result = mergeExpenses(
+      [oldTombstone, recentTombstone, purgedElsewhere, createdOffline],
+      [recentTombstone],
+      {
+        base: new Map([[purgedElsewhere.id, purgedElsewhere]]),
+        purgedBefore,
+      }
+    )
+
+    expect(result.merged.map((expense) => expense.id).sort()).toEqual([
+      "new-deleted",
+      "offline",
+    ])
+    expect(result.purged.map((expense) => expense.id).sort()).toEqual([
+      "old-deleted",
+      "purged",
+    ])
+    expect(result.addedFromLocal.map((expense) => expense.id)).toEqual(["offline"])
+  })
+
+  it("drops records the remote purged when there is no merge base", () => {
+    const purgedBefore = "2024-03-01T00:00:00.000Z"
+    const purgedElsewhere = makeExpense("purged", "2024-01-05")
+    const createdRecently = makeExpense("recent", "2024-04-01")
+
+    for (const base of [undefined, new Map<string, Expense>()]) {
+      const result = mergeExpenses([purgedElsewhere, createdRecently], [], {
+        base,
+        purgedBefore,
+      })
+
+      expect(result.merged.map((expense) => expense.id)).toEqual(["recent"])
+      expect(result.purged.map((expense) => expense.id)).toEqual(["purged"])
+      expect(result.addedFromLocal.map((expense) => expense.id)).toEqual(["recent"])
+    }
+  })
+
+  it("purges tombstones from the expense files and records the watermark", async () => {
+    await expect(saveTombstoneRetention(config, 180)).resolves.toMatchObject({
+      success: true,
+    })
+    const live = makeExpense("lunch", "2020-01-01")
+    const tombstone = makeExpense("dinner", "2020-01-01", "2020-01-02T00:00:00.000Z")
+    const lonely = makeExpense("taxi", "2020-01-03", "2020-01-04T00:00:00.000Z")
+    mockFiles.set("expenses-2020-01-01.csv", exportToCSV([live, tombstone]))
+    mockFiles.set("expenses-2020-01-03.csv", exportToCSV([lonely]))
+
+    const result = await gitStyleSync([live, tombstone, lonely])
+
+    expect(result.success).toBe(true)
+    expect(result.mergeResult?.merged.map((expense) => expense.id)).toEqual(["lunch"])
+    expect(
+      importFromCSV(mockFiles.get("expenses-2020-01-01.csv")!).map((e) => e.id)
+    ).toEqual(["lunch"])
+    expect(mockFiles.has("expenses-2020-01-03.csv")).toBe(false)
+
+    const policy = await loadTombstonePolicy(config)
+    expect(policy.data?.retentionDays).toBe(180)
+    expect(policy.data?.purgedBefore).toBe(result.purgedBefore)
+    expect(mockCommits.at(-1)?.uploads.map((upload) => upload.path)).toContain(
+      TOMBSTONES_FILE
+    )
+  })
+
+  it("does not push back records another device purged while this one was offline", async () => {
+    mockFiles.set(
+      TOMBSTONES_FILE,
+      JSON.stringify({
+        format: "expense-buddy-tombstones",
+        version: 1,
+        retentionDays: 180,
+        purgedBefore: "2024-03-01T00:00:00.000Z",
+      })
+    )
+    const kept = makeExpense("kept", "2024-01-01")
+    const purged = makeExpense("purged", "2024-01-01")
+    mockFiles.set("expenses-2024-01-01.csv", exportToCSV([kept]))
+    await saveMergeBase([kept, purged])
+
+    const result = await gitStyleSync([kept, purged])
+
+    expect(result.success).toBe(true)
+    expect(result.mergeResult?.purged.map((expense) => expense.id)).toEqual(["purged"])
+    expect(
+      importFromCSV(mockFiles.get("expenses-2024-01-01.csv")!).map((e) => e.id)
+    ).toEqual(["kept"])
+  })
+
+  it("keeps deleted recurring occurrences so materialization does not bring them back", async () => {
+    await expect(saveTombstoneRetention(config, 180)).resolves.toMatchObject({
+      success: true,
+    })
+    const template: RecurringExpenseTemplate = {
+      id: "rent",
+      amount: 10,
+      currency: "INR",
+      category: "Food",
+      note: "rent",
+      frequency: "monthly",
+      interval: 1,
+      startDate: "2020-01-01T12:00:00.000Z",
+      maxOccurrences: 1,
+      createdAt: "2020-01-01T00:00:00.000Z",
+      updatedAt: "2020-01-01T00:00:00.000Z",
+    }
+    const occurrence: Expense = {
+      ...makeExpense(getRecurringExpenseId("rent", "2020-01-01"), "2020-01-01"),
+      recurringTemplateId: "rent",
+      deletedAt: "2020-01-02T00:00:00.000Z",
+      updatedAt: "2020-01-02T00:00:00.000Z",
+    }
+    mockFiles.set("expenses-2020-01-01.csv", exportToCSV([occurrence]))
+
+    const result = await gitStyleSync([occurrence])
+
+    expect(result.success).toBe(true)
+    expect(result.mergeResult?.purged).toEqual([])
+    const merged = result.mergeResult?.merged ?? []
+    expect(merged.map((expense) => expense.id)).toEqual([occurrence.id])
+    expect(getDueRecurringExpenses([template], merged)).toEqual([])
+  })
+})
@@ -0,0 +1,183 @@
+/**
+ * Garbage collection of long-deleted expenses
+ *
+ * Deleted expenses stay in the ledger as tombstones (records with
+ * `deletedAt`) so every device hears of the deletion. A repository can set a
+ * retention period in its `tombstones.json`; syncs then drop tombstones
+ * deleted before the start of the day the period reaches back to, from the
+ * ledger and the expense files, and record that "purged before" watermark in
+ * the same commit. The watermark lives in the repository and never moves
+ * back, so a device that was offline for longer than the retention period
+ * drops the same records instead of pushing them back.
+ */
+
+import i18next from "i18next"
+import { subDays } from "date-fns"
+import { z } from "zod"
+import { openSyncBackend } from "./sync-encryption"
+import { SyncEncryptionError } from "./sync-backends/encrypted-backend"
+import { createErrorResult, createSuccessResult } from "./error-utils"
+import type { SyncBackend } from "./sync-backends/sync-backend"
+import type { ServiceResult } from "../types/service-result"
+import type { SyncConfig } from "../types/sync"
+
+/** Root file holding the repository's tombstone retention and watermark */
+export const TOMBSTONES_FILE = "tombstones.json"
+
+const TOMBSTONES_FILE_FORMAT = "expense-buddy-tombstones"
+const TOMBSTONES_FILE_VERSION = 1
+
+/** Retention periods offered in Settings; 0 keeps tombstones forever */
+export const TOMBSTONE_RETENTION_DAYS = [0, 90, 180, 365] as const
+
+/** A repository's tombstone policy */
+export interface TombstonePolicy {
+  /** Days a tombstone is kept after its deletion; 0 keeps it forever */
+  retentionDays: number
+  /** Tombstones deleted before this time have been purged */
+  purgedBefore?: string
+}
+
+const tombstonesFileSchema = z.object({
+  format: z.literal(TOMBSTONES_FILE_FORMAT),
+  version: z.number().int().positive(),
+  retentionDays: z.number().int().nonnegative(),
+  purgedBefore: z.iso.datetime().optional(),
+})
+
+function failure<T>(message: string): ServiceResult<T> {
+  return { success: false, error: message }
+}
+
+/**
+ * Message for a `tombstones.json` this version of the app cannot read
+ */
+export function getUnsupportedTombstonesMessage(): string {
+  return (
+    i18next.t("tombstones.errors.unsupported") ??
+    "This repository cleans up deleted expenses in a way this version of the app does not support"
+  )
+}
+
+/**
+ * Tombstone policy of the repository behind a backend. Pass the listed
+ * paths to skip the download when there is no policy file.
+ *
+ * @returns The policy, or null when `tombstones.json` cannot be read
+ */
+export async function readTombstonePolicy(
+  backend: SyncBackend,
+  paths?: string[]
+): Promise<TombstonePolicy | null> {
+  if (paths && !paths.includes(TOMBSTONES_FILE)) {
+    return { retentionDays: 0 }
+  }
+
+  const file = await backend.downloadFile(TOMBSTONES_FILE)
+  if (!file) {
+    return { retentionDays: 0 }
+  }
+  try {
+    const { retentionDays, purgedBefore } = tombstonesFileSchema.parse(
+      JSON.parse(file.content)
+    )
+    return { retentionDays, purgedBefore }
+  } catch (error) {
+    console.warn("[TombstoneGC] Unreadable tombstones file:", error)
+    return null
+  }
+}
+
+/**
+ * Contents of `tombstones.json` for a policy
+ */
+export function serializeTombstonePolicy(policy: TombstonePolicy): string {
+  return JSON.stringify(
+    {
+      format: TOMBSTONES_FILE_FORMAT,
+      version: TOMBSTONES_FILE_VERSION,
+      retentionDays: policy.retentionDays,
+      ...(policy.purgedBefore ? { purgedBefore: policy.purgedBefore } : {}),
+    },
+    null,
+    2
+  )
+}
+
+/**
+ * Watermark a sync at `now` purges up to: the start of the UTC day the
+ * retention period reaches back to, or the current watermark when that is
+ * later or retention is off
+ */
+export function getPurgeWatermark(
+  policy: TombstonePolicy,
+  now: Date = new Date()
+): string | undefined {
+  if (policy.retentionDays <= 0) {
+    return policy.purgedBefore
+  }
+  const candidate = `${subDays(now, policy.retentionDays).toISOString().slice(0, 10)}T00:00:00.000Z`
+  return policy.purgedBefore && policy.purgedBefore >= candidate
+    ? policy.purgedBefore
+    : candidate
+}
+
+/**
+ * Tombstone policy of the configured repository
+ */
+export async function loadTombstonePolicy(
+  config: SyncConfig
+): Promise<ServiceResult<TombstonePolicy>> {
+  try {
+    const policy = await readTombstonePolicy(await openSyncBackend(config))
+    return policy
+      ? createSuccessResult(policy)
+      : failure(getUnsupportedTombstonesMessage())
+  } catch (error) {
+    if (error instanceof SyncEncryptionError) {
+      return failure(error.message)
+    }
+    return createErrorResult("TombstoneGC", "loadTombstonePolicy", error)
+  }
+}
+
+/**
+ * Set how long the repository keeps deleted expenses. The watermark is kept,
+ * so a longer period never brings purged records back. Syncs purge from
+ * then on.
+ */
+export async function saveTombstoneRetention(
+  config: SyncConfig,
+  retentionDays: number
+): Promise<ServiceResult<TombstonePolicy>> {
+  try {
+    const backend = await openSyncBackend(config)
+    const current = await readTombstonePolicy(backend)
+    if (!current) {
+      return failure(getUnsupportedTombstonesMessage())
+    }
+
+    const policy: TombstonePolicy = { ...current, retentionDays }
+    const result = await backend.commit({
+      uploads: [{ path: TOMBSTONES_FILE, content: serializeTombstonePolicy(policy) }],
+      deletions: [],
+      message:
+        retentionDays > 0
+          ? `Keep deleted expenses for ${retentionDays} days`
+          : "Keep deleted expenses forever",
+    })
+    if (!result.success) {
+      return failure(
+        result.error ??
+          i18next.t("tombstones.errors.saveFailed") ??
+          "Could not save the cleanup setting"
+      )
+    }
+    return createSuccessResult(policy)
+  } catch (error) {
+    if (error instanceof SyncEncryptionError) {
+      return failure(error.message)
+    }
+    return createErrorResult("TombstoneGC", "saveTombstoneRetention", error)
+  }
+}
@@ -1,5 +1,6 @@
 import { computeDerivedExpenseData } from "../hooks/compute-derived-expense-data"
 import type { Expense } from "../../types/expense"
+import { ALL_CURRENCIES } from "../../utils/currency"
 
 function makeExpense(overrides: Partial<Expense>): Expense {
   return {
@@ -53,6 +54,41 @@ describe("computeDerivedExpenseData", () => {
     expect(result.currencyExpenses).toEqual(result.expensesByCurrency.get("USD"))
   })
 
+  it("keeps every expense and reports in the default currency for all currencies", () => {
+    const activeExpenses = [
+      makeExpense({ id: "1", currency: "INR", date: "2026-01-10T00:00:00.000Z" }),
+      makeExpense({ id: "2", currency: "USD", date: "2026-02-11T00:00:00.000Z" }),
+    ]
+
+    const result = computeDerivedExpenseData(
+      activeExpenses,
+      "INR",
+      ALL_CURRENCIES,
+      null,
+      false
+    )
+
+    expect(result.isAllCurrencies).toBe(true)
+    expect(result.effectiveCurrency).toBe("INR")
+    expect(result.currencyExpenses).toHaveLength(2)
+    expect(result.availableMonths).toEqual(["2026-02", "2026-01"])
+  })
+
+  it("ignores the all currencies selection when only one currency exists", () => {
+    const activeExpenses = [makeExpense({ id: "1", currency: "USD" })]
+
+    const result = computeDerivedExpenseData(
+      activeExpenses,
+      "INR",
+      ALL_CURRENCIES,
+      null,
+      false
+    )
+
+    expect(result.isAllCurrencies).toBe(false)
+    expect(result.effectiveCurrency).toBe("USD")
+  })
+
   it("auto-selects the only available currency when no selection is made", () => {
     const activeExpenses = [
       makeExpense({ id: "1", currency: "INR", date: "2026-01-10T00:00:00.000Z" }),
@@ -129,6 +165,18 @@ describe("computeDerivedExpenseData", () => {
     expect(result.effectiveSelectedMonth).toBeNull()
   })
 
+  it("lists tags from every currency, most used first", () => {
+    const activeExpenses = [
+      makeExpense({ id: "1", currency: "INR", tags: ["work", "travel"] }),
+      makeExpense({ id: "2", currency: "USD", tags: ["travel"] }),
+      makeExpense({ id: "3", currency: "INR" }),
+    ]
+
+    const result = computeDerivedExpenseData(activeExpenses, "INR", "INR", null, false)
+
+    expect(result.availableTags).toEqual(["travel", "work"])
+  })
+
   it("passes through the loading flag", () => {
     const result = computeDerivedExpenseData([], "INR", null, null, true)
     expect(result.isLoading).toBe(true)
@@ -27,7 +27,11 @@ jest.mock("../helpers", () => ({
 
 import { expenseStore } from "../expense-store"
 import type { Expense } from "../../types/expense"
-import { persistExpensesAdded } from "../../services/expense-storage"
+import {
+  persistExpensesAdded,
+  persistExpensesSnapshot,
+  persistExpensesUpdated,
+} from "../../services/expense-storage"
 import { markDirtyDay } from "../../services/expense-dirty-days"
 import { enqueueSyncOp } from "../../services/sync-queue"
 import { performAutoSyncOnChange } from "../helpers"
@@ -35,6 +39,12 @@ import { performAutoSyncOnChange } from "../helpers"
 const mockPersistExpensesAdded = persistExpensesAdded as jest.MockedFunction<
   typeof persistExpensesAdded
 >
+const mockPersistExpensesUpdated = persistExpensesUpdated as jest.MockedFunction<
+  typeof persistExpensesUpdated
+>
+const mockPersistExpensesSnapshot = persistExpensesSnapshot as jest.MockedFunction<
+  typeof persistExpensesSnapshot
+>
 const mockMarkDirtyDay = markDirtyDay as jest.MockedFunction<typeof markDirtyDay>
 const mockEnqueueSyncOp = enqueueSyncOp as jest.MockedFunction<typeof enqueueSyncOp>
 const mockPerformAutoSyncOnChange = performAutoSyncOnChange as jest.MockedFunction<
@@ -129,3 +139,93 @@ describe("expenseStore addExpenses", () => {
     expect(mockMarkDirtyDay).toHaveBeenCalledWith("2026-04-10")
   })
 })
+
+describe("expenseStore importExpenses", () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    expenseStore.trigger.loadExpenses({
+      expenses: [createExpense("1", "2026-04-10", "old")],
+      dirtyDays: [],
+      deletedDays: [],
+    })
+  })
+
+  it("replaces existing ids, adds new ones and marks old and new days dirty", async () => {
+    const moved = {
+      ...createExpense("1", "2026-04-12", "moved"),
+      updatedAt: "2026-04-12T10:00:00.000Z",
+    }
+    const added = createExpense("2", "2026-04-11", "new")
+
+    expenseStore.trigger.importExpenses({ expenses: [moved, added] })
+
+    const context = expenseStore.getSnapshot().context
+    expect(context.expenses.map((expense) => [expense.id, expense.note])).toEqual([
+      ["2", "new"],
+      ["1", "moved"],
+    ])
+    // Imported timestamps are kept as-is
+    expect(context.expenses[1].updatedAt).toBe("2026-04-12T10:00:00.000Z")
+    expect(context.dirtyDays).toEqual(["2026-04-10", "2026-04-11", "2026-04-12"])
+
+    await flushEffects()
+
+    expect(mockPersistExpensesAdded).toHaveBeenCalledWith([
+      expect.objectContaining({ id: "2" }),
+    ])
+    expect(mockPersistExpensesUpdated).toHaveBeenCalledWith([
+      expect.objectContaining({ id: "1", note: "moved" }),
+    ])
+    expect(mockEnqueueSyncOp).toHaveBeenCalledTimes(1)
+    expect(mockEnqueueSyncOp).toHaveBeenCalledWith({
+      type: "expense.batchUpsert",
+      expenses: [
+        expect.objectContaining({ id: "1" }),
+        expect.objectContaining({ id: "2" }),
+      ],
+    })
+  })
+
+  it("does nothing for an empty import", async () => {
+    expenseStore.trigger.importExpenses({ expenses: [] })
+
+    await flushEffects()
+
+    expect(mockEnqueueSyncOp).not.toHaveBeenCalled()
+  })
+})
+
+describe("expenseStore restoreExpenses", () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    expenseStore.trigger.loadExpenses({
+      expenses: [createExpense("1", "2026-04-10", "local only")],
+      dirtyDays: [],
+      deletedDays: [],
+    })
+  })
+
+  it("replaces the ledger and marks days on both sides dirty", async () => {
+    const restored = createExpense("2", "2026-04-11", "from backup")
+
+    expenseStore.trigger.restoreExpenses({ expenses: [restored] })
+
+    const context = expenseStore.getSnapshot().context
+    expect(context.expenses).toEqual([restored])
+    expect(context.dirtyDays).toEqual(["2026-04-10", "2026-04-11"])
+
+    await flushEffects()
+
+    expect(mockPersistExpensesSnapshot).toHaveBeenCalledWith([restored])
+    expect(mockMarkDirtyDay).toHaveBeenCalledWith("2026-04-10")
+    expect(mockMarkDirtyDay).toHaveBeenCalledWith("2026-04-11")
+    expect(mockEnqueueSyncOp).toHaveBeenCalledWith({
+      type: "expense.batchUpsert",
+      expenses: [restored],
+    })
+    expect(mockPerformAutoSyncOnChange).toHaveBeenCalledWith(
+      [restored],
+      expect.any(Object)
+    )
+  })
+})
@@ -29,10 +29,15 @@ const DEFAULT_SETTINGS: AppSettings = {
   backgroundSmsImportEnabled: false,
   autoSyncEnabled: false,
   autoSyncTiming: "on_launch",
+  autoSyncIntervalMinutes: 15,
+  fieldUpdatedAt: {},
   categories: DEFAULT_CATEGORIES,
   categoriesVersion: 1,
   paymentInstruments: [],
   paymentInstrumentsMigrationVersion: 0,
+  recurringTemplates: [],
+  exchangeRates: [],
+  syncAttachments: false,
   updatedAt: new Date().toISOString(),
   version: 9,
   defaultCurrency: "INR",
@@ -149,7 +154,12 @@ const paymentMethodArb = fc.constantFrom<PaymentMethodType>(
 )
 const optionalPaymentMethodArb = fc.option(paymentMethodArb, { nil: undefined })
 
-const autoSyncTimingArb = fc.constantFrom<AutoSyncTiming>("on_launch", "on_change")
+const autoSyncTimingArb = fc.constantFrom<AutoSyncTiming>(
+  "on_launch",
+  "on_change",
+  "interval",
+  "on_reconnect"
+)
 
 const appSettingsArb: fc.Arbitrary<AppSettings> = fc.record({
   theme: themePreferenceArb,
@@ -159,10 +169,15 @@ const appSettingsArb: fc.Arbitrary<AppSettings> = fc.record({
   backgroundSmsImportEnabled: fc.boolean(),
   autoSyncEnabled: fc.boolean(),
   autoSyncTiming: autoSyncTimingArb,
+  autoSyncIntervalMinutes: fc.constantFrom(5, 15, 30, 60),
+  fieldUpdatedAt: fc.constant({}),
   categories: fc.constant(DEFAULT_CATEGORIES),
   categoriesVersion: fc.constant(1),
   paymentInstruments: fc.constant([]),
   paymentInstrumentsMigrationVersion: fc.integer({ min: 0, max: 10 }),
+  recurringTemplates: fc.constant([]),
+  exchangeRates: fc.constant([]),
+  syncAttachments: fc.boolean(),
   updatedAt: fc
     .integer({ min: 1577836800000, max: 1924905600000 })
     .map((ms) => new Date(ms).toISOString()),
@@ -17,10 +17,15 @@ const DEFAULT_SETTINGS: AppSettings = {
   backgroundSmsImportEnabled: false,
   autoSyncEnabled: false,
   autoSyncTiming: "on_launch",
+  autoSyncIntervalMinutes: 15,
+  fieldUpdatedAt: {},
   categories: DEFAULT_CATEGORIES,
   categoriesVersion: 1,
   paymentInstruments: [],
   paymentInstrumentsMigrationVersion: 0,
+  recurringTemplates: [],
+  exchangeRates: [],
+  syncAttachments: false,
   updatedAt: new Date().toISOString(),
   version: 9,
 }
@@ -129,10 +134,15 @@ describe("Settings Store", () => {
         backgroundSmsImportEnabled: false,
         autoSyncEnabled: false,
         autoSyncTiming: "on_launch",
+        autoSyncIntervalMinutes: 15,
+        fieldUpdatedAt: {},
         categories: DEFAULT_CATEGORIES,
         categoriesVersion: 1,
         paymentInstruments: [],
         paymentInstrumentsMigrationVersion: 0,
+        recurringTemplates: [],
+        exchangeRates: [],
+        syncAttachments: false,
         updatedAt: new Date().toISOString(),
         version: 9,
         defaultCurrency: "INR",
@@ -232,10 +242,15 @@ describe("Settings Store", () => {
         backgroundSmsImportEnabled: false,
         autoSyncEnabled: true,
         autoSyncTiming: "on_change",
+        autoSyncIntervalMinutes: 15,
+        fieldUpdatedAt: {},
         categories: DEFAULT_CATEGORIES,
         categoriesVersion: 1,
         paymentInstruments: [],
         paymentInstrumentsMigrationVersion: 0,
+        recurringTemplates: [],
+        exchangeRates: [],
+        syncAttachments: false,
         updatedAt: new Date().toISOString(),
         version: 9,
         defaultPaymentMethod: "UPI",
@@ -18,11 +18,20 @@ import {
   clearDirtyDays,
 } from "../services/expense-dirty-days"
 import { enqueueSyncOp } from "../services/sync-queue"
+import { getDeviceId } from "../services/device-identity"
+import { deleteLocalAttachments } from "../services/attachment-storage"
+import { findOrphanedAttachments, getExpenseAttachments } from "../utils/attachments"
 import { getLocalDayKey } from "../utils/date"
 import { AppSettings } from "../services/settings-manager"
+import { RecurringExpenseTemplate } from "../types/recurring-expense"
+import {
+  applyTemplateToExpense,
+  getDueRecurringExpenses,
+} from "../services/recurring-expenses"
 import {
   performAutoSyncOnChange,
   performAutoSyncOnLaunch,
+  startAutoSyncScheduler,
   AutoSyncCallbacks,
 } from "./helpers"
 
@@ -45,6 +54,22 @@ function normalizeExpenseForSave(expense: Expense): Expense {
   }
 }
 
+/**
+ * Record this device as the creator of a new expense, unless it came from
+ * another device, and as its last editor
+ */
+function withCreatingDevice(expense: Expense): Expense {
+  const deviceId = getDeviceId()
+  return { ...expense, createdBy: expense.createdBy ?? deviceId, updatedBy: deviceId }
+}
+
+/**
+ * Record this device as the last editor of an expense
+ */
+function withEditingDevice(expense: Expense): Expense {
+  return { ...expense, updatedBy: getDeviceId() }
+}
+
 function addUniqueDay(days: string[], dayKey: string): string[] {
   if (days.includes(dayKey)) return days
   return [...days, dayKey].sort()
@@ -143,7 +168,7 @@ export const expenseStore = createStore({
     }),
 
     addExpense: (context, event: { expense: Expense }, enqueue) => {
-      const normalizedExpense = normalizeExpenseForSave(event.expense)
+      const normalizedExpense = withCreatingDevice(normalizeExpenseForSave(event.expense))
       const newExpenses = [normalizedExpense, ...context.expenses]
       const dayKey = getLocalDayKey(normalizedExpense.date)
       const dirtyDays = addUniqueDay(context.dirtyDays, dayKey)
@@ -159,7 +184,9 @@ export const expenseStore = createStore({
     },
 
     addExpenses: (context, event: { expenses: Expense[] }, enqueue) => {
-      const normalizedExpenses = event.expenses.map(normalizeExpenseForSave)
+      const normalizedExpenses = event.expenses.map((expense) =>
+        withCreatingDevice(normalizeExpenseForSave(expense))
+      )
       if (normalizedExpenses.length === 0) {
         return context
       }
@@ -188,8 +215,137 @@ export const expenseStore = createStore({
       return { ...context, expenses: newExpenses, dirtyDays }
     },
 
+    materializeRecurringExpenses: (
+      context,
+      event: { templates: RecurringExpenseTemplate[]; now?: Date },
+      enqueue
+    ) => {
+      // Generated IDs are deterministic, so anything already present
+      // (including soft-deleted occurrences) is skipped.
+      const dueExpenses = getDueRecurringExpenses(
+        event.templates,
+        context.expenses,
+        event.now
+      ).map((expense) => withCreatingDevice(normalizeExpenseForSave(expense)))
+      if (dueExpenses.length === 0) {
+        return context
+      }
+
+      const newExpenses = [...dueExpenses, ...context.expenses]
+      const affectedDays = dueExpenses.map((expense) => getLocalDayKey(expense.date))
+      const dirtyDays = addUniqueDays(context.dirtyDays, affectedDays)
+
+      enqueue.effect(async () => {
+        await persistExpensesAdded(dueExpenses)
+
+        for (const dayKey of new Set(affectedDays)) {
+          await markDirtyDay(dayKey)
+        }
+
+        await enqueueSyncOp({
+          type: "expense.batchUpsert",
+          expenses: dueExpenses,
+        })
+
+        await performAutoSyncOnChange(newExpenses, createAutoSyncCallbacks())
+      })
+
+      return { ...context, expenses: newExpenses, dirtyDays }
+    },
+
+    applyRecurringTemplateUpdate: (
+      context,
+      event: { template: RecurringExpenseTemplate },
+      enqueue
+    ) => {
+      const now = new Date().toISOString()
+      const affectedExpenses: Expense[] = []
+      const affectedDays: string[] = []
+
+      // Update today's and upcoming occurrences of this template; dates are kept
+      const newExpenses = context.expenses.map((expense) => {
+        if (expense.recurringTemplateId !== event.template.id || expense.deletedAt) {
+          return expense
+        }
+        const updated = applyTemplateToExpense(event.template, expense, now)
+        if (updated === expense) return expense
+        affectedExpenses.push(updated)
+        affectedDays.push(getLocalDayKey(updated.date))
+        return updated
+      })
+
+      if (affectedExpenses.length === 0) {
+        return context
+      }
+
+      const dirtyDays = addUniqueDays(context.dirtyDays, affectedDays)
+
+      enqueue.effect(async () => {
+        await persistExpensesUpdated(affectedExpenses)
+
+        for (const dayKey of new Set(affectedDays)) {
+          await markDirtyDay(dayKey)
+        }
+
+        await enqueueSyncOp({
+          type: "expense.batchUpsert",
+          expenses: affectedExpenses,
+        })
+
+        await performAutoSyncOnChange(newExpenses, createAutoSyncCallbacks())
+      })
+
+      return { ...context, expenses: newExpenses, dirtyDays }
+    },
+
+    importExpenses: (context, event: { expenses: Expense[] }, enqueue) => {
+      // Imported rows keep their own ids and timestamps; rows with an existing
+      // id replace it (the caller has already picked the newer version)
+      const imported = event.expenses.map(normalizeExpenseForSave)
+      if (imported.length === 0) {
+        return context
+      }
+
+      const importedById = new Map(imported.map((expense) => [expense.id, expense]))
+      const affectedDays = imported.map((expense) => getLocalDayKey(expense.date))
+      const updatedExpenses: Expense[] = []
+      const replaced = context.expenses.map((expense) => {
+        const next = importedById.get(expense.id)
+        if (!next) return expense
+        importedById.delete(expense.id)
+        updatedExpenses.push(next)
+        affectedDays.push(getLocalDayKey(expense.date))
+        return next
+      })
+      const addedExpenses = Array.from(importedById.values())
+      const newExpenses = [...addedExpenses, ...replaced]
+      const dirtyDays = addUniqueDays(context.dirtyDays, affectedDays)
+
+      enqueue.effect(async () => {
+        if (addedExpenses.length > 0) {
+          await persistExpensesAdded(addedExpenses)
+        }
+        if (updatedExpenses.length > 0) {
+          await persistExpensesUpdated(updatedExpenses)
+        }
+
+        for (const dayKey of new Set(affectedDays)) {
+          await markDirtyDay(dayKey)
+        }
+
+        await enqueueSyncOp({
+          type: "expense.batchUpsert",
+          expenses: imported,
+        })
+
+        await performAutoSyncOnChange(newExpenses, createAutoSyncCallbacks())
+      })
+
+      return { ...context, expenses: newExpenses, dirtyDays }
+    },
+
     editExpense: (context, event: { expense: Expense }, enqueue) => {
-      const normalizedExpense = normalizeExpenseForSave(event.expense)
+      const normalizedExpense = withEditingDevice(normalizeExpenseForSave(event.expense))
       const existingExpense = context.expenses.find(
         (expense) => expense.id === normalizedExpense.id
       )
@@ -228,6 +384,12 @@ export const expenseStore = createStore({
           await markDeletedDay(deletedDayKey)
         }
         await enqueueSyncOp({ type: "expense.upsert", expense: normalizedExpense })
+        if (existingExpense) {
+          // Receipts removed in this edit; remote copies go with the next sync
+          deleteLocalAttachments(
+            findOrphanedAttachments(newExpenses, getExpenseAttachments(existingExpense))
+          )
+        }
         await performAutoSyncOnChange(newExpenses, createAutoSyncCallbacks())
       })
 
@@ -241,7 +403,7 @@ export const expenseStore = createStore({
       let deletedDayKey: string | null = null
       const newExpenses = context.expenses.map((e) => {
         if (e.id !== event.id) return e
-        updatedExpense = { ...e, deletedAt: now, updatedAt: now }
+        updatedExpense = withEditingDevice({ ...e, deletedAt: now, updatedAt: now })
         deletedDayKey = getLocalDayKey(e.date)
         return updatedExpense
       })
@@ -261,6 +423,10 @@ export const expenseStore = createStore({
         }
         if (updatedExpense) {
           await enqueueSyncOp({ type: "expense.upsert", expense: updatedExpense })
+          // Remote copies are removed by the next sync commit
+          deleteLocalAttachments(
+            findOrphanedAttachments(newExpenses, getExpenseAttachments(updatedExpense))
+          )
         }
         await performAutoSyncOnChange(newExpenses, createAutoSyncCallbacks())
       })
@@ -281,6 +447,36 @@ export const expenseStore = createStore({
       }
     },
 
+    restoreExpenses: (context, event: { expenses: Expense[] }, enqueue) => {
+      // A backup restore replaces the whole ledger. Days touched before or
+      // after are marked dirty so the next sync uploads the restored state.
+      const restored = event.expenses
+      const affectedDays = [...context.expenses, ...restored].map((expense) =>
+        getLocalDayKey(expense.date)
+      )
+      const dirtyDays = addUniqueDays(context.dirtyDays, affectedDays)
+
+      enqueue.effect(async () => {
+        await persistExpensesSnapshot(restored)
+        await removeLegacyExpensesKey()
+
+        for (const dayKey of new Set(affectedDays)) {
+          await markDirtyDay(dayKey)
+        }
+
+        if (restored.length > 0) {
+          await enqueueSyncOp({
+            type: "expense.batchUpsert",
+            expenses: restored,
+          })
+        }
+
+        await performAutoSyncOnChange(restored, createAutoSyncCallbacks())
+      })
+
+      return { ...context, expenses: restored, dirtyDays }
+    },
+
     setSyncNotification: (
       context,
       event: { notification: SyncNotification | null },
@@ -336,11 +532,11 @@ export const expenseStore = createStore({
         if (expense.category === event.fromCategory && !expense.deletedAt) {
           affectedExpenseIds.push(expense.id)
           affectedDays.push(getLocalDayKey(expense.date))
-          const updated = {
+          const updated = withEditingDevice({
             ...expense,
             category: "Other",
             updatedAt: now,
-          }
+          })
           affectedExpenses.push(updated)
           return updated
         }
@@ -397,11 +593,11 @@ export const expenseStore = createStore({
         if (expense.category === fromCategory && !expense.deletedAt) {
           affectedExpenseIds.push(expense.id)
           affectedDays.push(getLocalDayKey(expense.date))
-          const updated = {
+          const updated = withEditingDevice({
             ...expense,
             category: toCategory,
             updatedAt: now,
-          }
+          })
           affectedExpenses.push(updated)
           return updated
         }
@@ -439,26 +635,32 @@ export const expenseStore = createStore({
 })
 
 // Exported initialization function - call from React component tree
+async function loadExpenseStore(store: ExpenseStore): Promise<Expense[]> {
+  const loaded = await loadAllExpensesFromStorage()
+  const expenses = loaded.expenses
+
+  // One-time migration: if we loaded from legacy storage, migrate to v1 and remove legacy key.
+  if (loaded.source === "legacy") {
+    await migrateLegacyExpensesToV1(expenses)
+    await removeLegacyExpensesKey()
+  }
+
+  const dirtyDaysResult = await loadDirtyDays()
+
+  store.trigger.loadExpenses({
+    expenses,
+    dirtyDays: dirtyDaysResult.state.dirtyDays,
+    deletedDays: dirtyDaysResult.state.deletedDays,
+  })
+
+  return expenses
+}
+
 export async function initializeExpenseStore(
   store: ExpenseStore = expenseStore
 ): Promise<void> {
   try {
-    const loaded = await loadAllExpensesFromStorage()
-    const expenses = loaded.expenses
-
-    // One-time migration: if we loaded from legacy storage, migrate to v1 and remove legacy key.
-    if (loaded.source === "legacy") {
-      await migrateLegacyExpensesToV1(expenses)
-      await removeLegacyExpensesKey()
-    }
-
-    const dirtyDaysResult = await loadDirtyDays()
-
-    store.trigger.loadExpenses({
-      expenses,
-      dirtyDays: dirtyDaysResult.state.dirtyDays,
-      deletedDays: dirtyDaysResult.state.deletedDays,
-    })
+    const expenses = await loadExpenseStore(store)
 
     // Perform auto-sync on launch using the helper
     await performAutoSyncOnLaunch(expenses, createAutoSyncCallbacks())
@@ -468,6 +670,36 @@ export async function initializeExpenseStore(
   }
 }
 
+/**
+ * Replace the store's expenses and dirty days with the active ledger's,
+ * after switching ledgers. Unlike initialization, this does not auto-sync.
+ */
+export async function reloadExpenseStore(
+  store: ExpenseStore = expenseStore
+): Promise<void> {
+  try {
+    await loadExpenseStore(store)
+  } catch (error) {
+    console.warn("Failed to reload expense store:", error)
+    store.trigger.loadExpenses({ expenses: [], dirtyDays: [], deletedDays: [] })
+  }
+}
+
+/**
+ * Start the interval and reconnect auto-sync timings for a store.
+ * Call from the React tree once the store is initialized.
+ *
+ * @returns Function that stops the scheduler
+ */
+export function startExpenseAutoSyncScheduler(
+  store: ExpenseStore = expenseStore
+): () => void {
+  return startAutoSyncScheduler(
+    () => store.getSnapshot().context.expenses,
+    createAutoSyncCallbacks()
+  )
+}
+
 export type ExpenseStore = typeof expenseStore
 
 /**
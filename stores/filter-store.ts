@@ -93,6 +93,11 @@ export const filterStore = createStore({
       selectedPaymentInstruments: event.instruments,
     }),
 
+    setSelectedTags: (context, event: { tags: string[] }) => ({
+      ...context,
+      selectedTags: event.tags,
+    }),
+
     setSelectedCurrency: (context, event: { currency: string | null }) => ({
       ...context,
       selectedCurrency: event.currency,
@@ -126,6 +131,7 @@ export function useFilters() {
     filterStore,
     (s) => s.context.selectedPaymentInstruments
   )
+  const selectedTags = useSelector(filterStore, (s) => s.context.selectedTags)
   const selectedMonth = useSelector(filterStore, (s) => s.context.selectedMonth)
   const selectedCurrency = useSelector(filterStore, (s) => s.context.selectedCurrency)
   const searchQuery = useSelector(filterStore, (s) => s.context.searchQuery)
@@ -141,6 +147,7 @@ export function useFilters() {
       selectedCategories,
       selectedPaymentMethods,
       selectedPaymentInstruments,
+      selectedTags,
       selectedCurrency,
       searchQuery,
       minAmount,
@@ -152,6 +159,7 @@ export function useFilters() {
       selectedCategories,
       selectedPaymentMethods,
       selectedPaymentInstruments,
+      selectedTags,
       selectedCurrency,
       searchQuery,
       minAmount,
@@ -170,6 +178,7 @@ export function useFilters() {
     if (selectedCategories.length > 0) count++
     if (selectedPaymentMethods.length > 0) count++
     if (selectedPaymentInstruments.length > 0) count++
+    if (selectedTags.length > 0) count++
     if (searchQuery.trim()) count++
     if (minAmount !== null || maxAmount !== null) count++
     return count
@@ -179,6 +188,7 @@ export function useFilters() {
     selectedCategories,
     selectedPaymentMethods,
     selectedPaymentInstruments,
+    selectedTags,
     searchQuery,
     minAmount,
     maxAmount,
@@ -217,6 +227,10 @@ export function useFilters() {
     []
   )
 
+  const setSelectedTags = useCallback((tags: string[]) => {
+    filterStore.trigger.setSelectedTags({ tags })
+  }, [])
+
   const setSelectedCurrency = useCallback((currency: string | null) => {
     filterStore.trigger.setSelectedCurrency({ currency })
   }, [])
@@ -238,6 +252,7 @@ export function useFilters() {
     setSelectedCategories,
     setSelectedPaymentMethods,
     setSelectedPaymentInstruments,
+    setSelectedTags,
     setSelectedCurrency,
     reset,
   }
@@ -269,6 +284,7 @@ export function useFilterPersistence() {
       selectedCategories: current.selectedCategories,
       selectedPaymentMethods: current.selectedPaymentMethods,
       selectedPaymentInstruments: current.selectedPaymentInstruments,
+      selectedTags: current.selectedTags,
       selectedCurrency: current.selectedCurrency,
       searchQuery: current.searchQuery,
       minAmount: current.minAmount,
@@ -18,18 +18,63 @@ jest.mock("expo-secure-store", () => ({
   deleteItemAsync: jest.fn(() => Promise.resolve()),
 }))
 
-// Mock react-native Platform
+// Mock react-native Platform and AppState
+const mockAppStateListeners: ((state: string) => void)[] = []
 jest.mock("react-native", () => ({
   Platform: {
     OS: "ios",
   },
+  AppState: {
+    currentState: "background",
+    addEventListener: (_type: string, listener: (state: string) => void) => {
+      mockAppStateListeners.push(listener)
+      return { remove: jest.fn() }
+    },
+  },
+}))
+
+// Mock the auto-sync service so only the scheduling is exercised
+const mockConnectivityListeners: ((online: boolean) => void)[] = []
+const mockAutoSyncState = { online: true, unsyncedDays: false }
+jest.mock("../services/auto-sync-service", () => ({
+  performAutoSyncIfEnabled: jest.fn(async () => ({ synced: true, expenses: [] })),
+  shouldAutoSyncForTiming: jest.fn(async () => false),
+  isDeviceOnline: () => mockAutoSyncState.online,
+  probeConnectivity: jest.fn(async () => mockAutoSyncState.online),
+  hasUnsyncedDays: jest.fn(async () => mockAutoSyncState.unsyncedDays),
+  onConnectivityChange: (listener: (online: boolean) => void) => {
+    mockConnectivityListeners.push(listener)
+    return () => undefined
+  },
+}))
+
+// Only the active ledger is faked; scoped keys work as usual
+const mockLedgerState = { activeId: "default" }
+jest.mock("../services/ledgers", () => ({
+  ...jest.requireActual("../services/ledgers"),
+  getActiveLedgerId: () => mockLedgerState.activeId,
 }))
 
-import { computeSettingsSyncState } from "./helpers"
+import {
+  AUTO_SYNC_DEBOUNCE_MS,
+  AUTO_SYNC_TICK_MS,
+  computeSettingsSyncState,
+  isAutoSyncInFlight,
+  performAutoSyncOnChange,
+  startAutoSyncScheduler,
+  withAutoSyncHeld,
+  type AutoSyncCallbacks,
+} from "./helpers"
+import {
+  performAutoSyncIfEnabled,
+  probeConnectivity,
+  shouldAutoSyncForTiming,
+} from "../services/auto-sync-service"
 import {
   AppSettings,
   DEFAULT_SETTINGS,
   computeSettingsHash,
+  saveSettings,
 } from "../services/settings-manager"
 import { DEFAULT_CATEGORIES } from "../constants/default-categories"
 
@@ -173,7 +218,7 @@ describe("Store Helpers", () => {
       })
 
       it("should handle all auto-sync timing options correctly", () => {
-        const timings = ["on_launch", "on_change"] as const
+        const timings = ["on_launch", "on_change", "interval", "on_reconnect"] as const
 
         for (const timing of timings) {
           const settings = createSettings({ autoSyncTiming: timing })
@@ -253,4 +298,161 @@ describe("Store Helpers", () => {
       })
     })
   })
+
+  describe("change-triggered auto-sync scheduling", () => {
+    const mockPerformAutoSync = performAutoSyncIfEnabled as jest.Mock
+    const mockShouldAutoSync = shouldAutoSyncForTiming as jest.Mock
+
+    const createCallbacks = (): AutoSyncCallbacks => ({
+      onExpensesReplaced: jest.fn(),
+      onDirtyDaysCleared: jest.fn(),
+      onSyncNotification: jest.fn(),
+    })
+
+    const enableTiming = (timing: string) => {
+      mockShouldAutoSync.mockImplementation(async (requested) => requested === timing)
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers()
+      jest.clearAllMocks()
+      mockAutoSyncState.online = true
+      mockAutoSyncState.unsyncedDays = false
+      mockLedgerState.activeId = "default"
+      mockAppStateListeners.length = 0
+      mockConnectivityListeners.length = 0
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it("coalesces rapid changes into one sync of the latest expenses", async () => {
+      enableTiming("on_change")
+      const callbacks = createCallbacks()
+      const results = [
+        performAutoSyncOnChange([], callbacks),
+        performAutoSyncOnChange([], callbacks),
+        performAutoSyncOnChange([{ id: "latest" } as never], callbacks),
+      ]
+
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DEBOUNCE_MS)
+      const settled = await Promise.all(results)
+
+      expect(mockPerformAutoSync).toHaveBeenCalledTimes(1)
+      expect(mockPerformAutoSync).toHaveBeenCalledWith([{ id: "latest" }])
+      expect(callbacks.onExpensesReplaced).toHaveBeenCalledTimes(1)
+      expect(settled.every((result) => result.synced)).toBe(true)
+    })
+
+    it("pushes a pending change sync to its own ledger before switching ledgers", async () => {
+      enableTiming("on_change")
+      const syncedLedgers: string[] = []
+      mockPerformAutoSync.mockImplementationOnce(async () => {
+        syncedLedgers.push(mockLedgerState.activeId)
+        return { synced: true, expenses: [] }
+      })
+      const pending = performAutoSyncOnChange(
+        [{ id: "edit" } as never],
+        createCallbacks()
+      )
+
+      await withAutoSyncHeld(async () => {
+        mockLedgerState.activeId = "second"
+      })
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DEBOUNCE_MS)
+
+      await expect(pending).resolves.toMatchObject({ synced: true })
+      expect(syncedLedgers).toEqual(["default"])
+      expect(mockPerformAutoSync).toHaveBeenCalledTimes(1)
+    })
+
+    it("holds a ledger switch until a running auto-sync finishes", async () => {
+      enableTiming("on_change")
+      let finish = () => {}
+      mockPerformAutoSync.mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finish = () => resolve({ synced: true, expenses: [] })
+          })
+      )
+      const callbacks = createCallbacks()
+      const pending = performAutoSyncOnChange([], callbacks)
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DEBOUNCE_MS)
+      expect(isAutoSyncInFlight()).toBe(true)
+
+      const switched = withAutoSyncHeld(async () => {
+        mockLedgerState.activeId = "second"
+      })
+      await jest.advanceTimersByTimeAsync(0)
+      expect(mockLedgerState.activeId).toBe("default")
+
+      finish()
+      await switched
+      await pending
+      expect(mockLedgerState.activeId).toBe("second")
+      expect(callbacks.onExpensesReplaced).toHaveBeenCalledTimes(1)
+      expect(isAutoSyncInFlight()).toBe(false)
+    })
+
+    it("holds offline edits until the device comes back online", async () => {
+      enableTiming("on_reconnect")
+      mockAutoSyncState.online = false
+      const callbacks = createCallbacks()
+      const stop = startAutoSyncScheduler(() => [], callbacks)
+
+      mockAutoSyncState.unsyncedDays = true
+      const pending = performAutoSyncOnChange([], callbacks)
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DEBOUNCE_MS)
+      await expect(pending).resolves.toEqual({ synced: false })
+      expect(mockPerformAutoSync).not.toHaveBeenCalled()
+      expect(probeConnectivity).not.toHaveBeenCalled()
+
+      mockAutoSyncState.online = true
+      mockConnectivityListeners.forEach((listener) => listener(true))
+      await jest.advanceTimersByTimeAsync(0)
+
+      expect(mockPerformAutoSync).toHaveBeenCalledTimes(1)
+      stop()
+    })
+
+    it("pushes edits made online under the reconnect timing", async () => {
+      enableTiming("on_reconnect")
+      const pending = performAutoSyncOnChange([], createCallbacks())
+
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_DEBOUNCE_MS)
+
+      await expect(pending).resolves.toMatchObject({ synced: true })
+      expect(mockPerformAutoSync).toHaveBeenCalledTimes(1)
+      expect(probeConnectivity).not.toHaveBeenCalled()
+    })
+
+    it("pushes days left dirty by an earlier session, then probes only while offline", async () => {
+      enableTiming("on_reconnect")
+      await saveSettings({
+        ...DEFAULT_SETTINGS,
+        autoSyncEnabled: true,
+        autoSyncTiming: "on_reconnect",
+      })
+      mockAutoSyncState.unsyncedDays = true
+      const stop = startAutoSyncScheduler(() => [], createCallbacks())
+
+      mockAppStateListeners.forEach((listener) => listener("active"))
+      await jest.advanceTimersByTimeAsync(0)
+      expect(mockPerformAutoSync).toHaveBeenCalledTimes(1)
+
+      mockAutoSyncState.online = false
+      mockAutoSyncState.unsyncedDays = false
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_TICK_MS)
+      expect(probeConnectivity).not.toHaveBeenCalled()
+
+      mockAutoSyncState.unsyncedDays = true
+      await jest.advanceTimersByTimeAsync(AUTO_SYNC_TICK_MS)
+      expect(probeConnectivity).toHaveBeenCalledTimes(1)
+      expect(mockPerformAutoSync).toHaveBeenCalledTimes(1)
+
+      mockAppStateListeners.forEach((listener) => listener("background"))
+      stop()
+    })
+  })
 })
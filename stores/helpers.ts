@@ -1,15 +1,23 @@
+import { AppState } from "react-native"
 import { Expense } from "../types/expense"
 import { SyncNotification } from "../services/sync-manager"
 import {
   AppSettings,
+  AutoSyncTiming,
   computeSettingsHash,
   DEFAULT_SETTINGS,
+  loadSettings,
 } from "../services/settings-manager"
 import {
+  hasUnsyncedDays,
+  isDeviceOnline,
+  onConnectivityChange,
   performAutoSyncIfEnabled,
+  probeConnectivity,
   shouldAutoSyncForTiming,
 } from "../services/auto-sync-service"
 import { clearDirtyDays } from "../services/expense-dirty-days"
+import { getActiveLedgerId } from "../services/ledgers"
 
 /**
  * Result of an auto-sync operation
@@ -44,18 +52,91 @@ export interface AutoSyncCallbacks {
   onSettingsDownloaded?: (settings: AppSettings) => void
 }
 
+/** Auto-syncs running now, of any timing */
+let autoSyncsInFlight = 0
+/** Ledger switches waiting for auto-syncs to finish; new ones are skipped */
+let autoSyncHolds = 0
+const inFlightListeners = new Set<() => void>()
+
+function setAutoSyncsInFlight(count: number): void {
+  autoSyncsInFlight = count
+  for (const listener of inFlightListeners) {
+    listener()
+  }
+}
+
+/**
+ * Whether an auto-sync is running. These use their own sync machine actor,
+ * so the shared one does not show them.
+ */
+export function isAutoSyncInFlight(): boolean {
+  return autoSyncsInFlight > 0
+}
+
+/**
+ * Subscribe to auto-syncs starting and finishing
+ * @returns Unsubscribe function
+ */
+export function onAutoSyncInFlightChange(listener: () => void): () => void {
+  inFlightListeners.add(listener)
+  return () => {
+    inFlightListeners.delete(listener)
+  }
+}
+
+async function trackAutoSync<T>(run: () => Promise<T>): Promise<T> {
+  setAutoSyncsInFlight(autoSyncsInFlight + 1)
+  try {
+    return await run()
+  } finally {
+    setAutoSyncsInFlight(autoSyncsInFlight - 1)
+  }
+}
+
+function waitForAutoSyncIdle(): Promise<void> {
+  if (!isAutoSyncInFlight()) {
+    return Promise.resolve()
+  }
+  return new Promise((resolve) => {
+    const unsubscribe = onAutoSyncInFlightChange(() => {
+      if (isAutoSyncInFlight()) return
+      unsubscribe()
+      resolve()
+    })
+  })
+}
+
 /**
  * Perform auto-sync if enabled and the timing matches, then fan out the result
  * to the store via callbacks. Shared by the on_change and on_launch variants.
  *
  * When `allowSettingsOnNoExpenses` is true (launch), downloaded settings are
  * still applied even when no expenses were replaced by the sync.
+ *
+ * The sync belongs to `ledgerId`. It is skipped when that ledger is no
+ * longer active, and its result is dropped if the ledger changed meanwhile.
  */
-async function performAutoSync(
-  timing: "on_launch" | "on_change",
+function performAutoSync(
+  timing: AutoSyncTiming,
+  expenses: Expense[],
+  callbacks: AutoSyncCallbacks,
+  allowSettingsOnNoExpenses: boolean,
+  ledgerId: string = getActiveLedgerId()
+): Promise<AutoSyncResult> {
+  if (autoSyncHolds > 0 || ledgerId !== getActiveLedgerId()) {
+    return Promise.resolve({ synced: false })
+  }
+  return trackAutoSync(() =>
+    runAutoSync(timing, expenses, callbacks, allowSettingsOnNoExpenses, ledgerId)
+  )
+}
+
+async function runAutoSync(
+  timing: AutoSyncTiming,
   expenses: Expense[],
   callbacks: AutoSyncCallbacks,
-  allowSettingsOnNoExpenses: boolean
+  allowSettingsOnNoExpenses: boolean,
+  ledgerId: string
 ): Promise<AutoSyncResult> {
   const shouldSync = await shouldAutoSyncForTiming(timing)
   if (!shouldSync) {
@@ -63,11 +144,14 @@ async function performAutoSync(
   }
 
   const result = await performAutoSyncIfEnabled(expenses)
+  if (ledgerId !== getActiveLedgerId()) {
+    return { synced: false }
+  }
 
   if (result.synced && result.expenses) {
     callbacks.onExpensesReplaced(result.expenses)
     if (!result.pendingExpenseOps) {
-      await clearDirtyDays()
+      await clearDirtyDays(ledgerId)
       callbacks.onDirtyDaysCleared()
     }
 
@@ -90,11 +174,89 @@ async function performAutoSync(
   return result
 }
 
+/**
+ * Changes made within this window of each other are pushed by one sync
+ */
+export const AUTO_SYNC_DEBOUNCE_MS = 2000
+
+/**
+ * How often the foreground scheduler checks the interval timing and, while
+ * offline with unsynced days, whether the sync server is reachable again
+ */
+export const AUTO_SYNC_TICK_MS = 30_000
+
+let pendingChangeSync: {
+  timer: ReturnType<typeof setTimeout>
+  ledgerId: string
+  expenses: Expense[]
+  callbacks: AutoSyncCallbacks
+  waiters: ((result: AutoSyncResult) => void)[]
+} | null = null
+
+/**
+ * Run the change-triggered sync for the latest expenses once the debounce
+ * window has passed. With the "on_reconnect" timing an edit made while
+ * offline is not pushed; its day stays dirty until the scheduler reaches the
+ * sync server again.
+ */
+async function flushChangeSync(
+  expenses: Expense[],
+  callbacks: AutoSyncCallbacks,
+  ledgerId: string
+): Promise<AutoSyncResult> {
+  if (await shouldAutoSyncForTiming("on_reconnect")) {
+    if (!isDeviceOnline()) {
+      return { synced: false }
+    }
+    return performAutoSync("on_reconnect", expenses, callbacks, false, ledgerId)
+  }
+  return performAutoSync("on_change", expenses, callbacks, false, ledgerId)
+}
+
+/**
+ * Start the pending change-triggered sync now, if there is one
+ */
+function runPendingChangeSync(): Promise<void> {
+  const run = pendingChangeSync
+  pendingChangeSync = null
+  if (!run) return Promise.resolve()
+  clearTimeout(run.timer)
+  return trackAutoSync(() => flushChangeSync(run.expenses, run.callbacks, run.ledgerId))
+    .catch((error): AutoSyncResult => {
+      console.warn("Auto-sync on change failed:", error)
+      return { synced: false, error: String(error) }
+    })
+    .then((result) => {
+      for (const waiter of run.waiters) {
+        waiter(result)
+      }
+    })
+}
+
+/**
+ * Run `work` once no auto-sync is running, with none starting until it is
+ * done. A change-triggered sync still in its debounce window runs first, so
+ * edits are pushed to the ledger they were made in. Used to switch ledgers,
+ * as every sync reads and writes the active ledger's storage.
+ */
+export async function withAutoSyncHeld<T>(work: () => Promise<T>): Promise<T> {
+  await runPendingChangeSync()
+  autoSyncHolds++
+  try {
+    await waitForAutoSyncIdle()
+    return await work()
+  } finally {
+    autoSyncHolds--
+  }
+}
+
 /**
  * Perform auto-sync if enabled and timing matches "on_change"
  *
  * This helper encapsulates the common auto-sync pattern used across expense store actions.
- * It checks if auto-sync should run, performs the sync, and invokes callbacks to update state.
+ * Calls within AUTO_SYNC_DEBOUNCE_MS of each other are coalesced: one sync
+ * runs with the latest expenses and every caller receives its result. The
+ * sync belongs to the ledger active when it was queued.
  *
  * @param expenses - Current expenses to sync
  * @param callbacks - Callbacks for handling sync results
@@ -104,7 +266,21 @@ export function performAutoSyncOnChange(
   expenses: Expense[],
   callbacks: AutoSyncCallbacks
 ): Promise<AutoSyncResult> {
-  return performAutoSync("on_change", expenses, callbacks, false)
+  const ledgerId = getActiveLedgerId()
+  if (pendingChangeSync && pendingChangeSync.ledgerId !== ledgerId) {
+    void runPendingChangeSync()
+  }
+  return new Promise((resolve) => {
+    const waiters = pendingChangeSync?.waiters ?? []
+    if (pendingChangeSync) {
+      clearTimeout(pendingChangeSync.timer)
+    }
+    waiters.push(resolve)
+
+    const timer = setTimeout(() => void runPendingChangeSync(), AUTO_SYNC_DEBOUNCE_MS)
+
+    pendingChangeSync = { timer, ledgerId, expenses, callbacks, waiters }
+  })
 }
 
 /**
@@ -123,6 +299,103 @@ export function performAutoSyncOnLaunch(
   return performAutoSync("on_launch", expenses, callbacks, true)
 }
 
+/**
+ * Run the "interval" and "on_reconnect" auto-sync timings while the app is
+ * in the foreground. Every AUTO_SYNC_TICK_MS the scheduler syncs when the
+ * configured interval has passed. For "on_reconnect" it pushes days left
+ * dirty by an earlier session on its first check, and while offline with
+ * dirty days it probes the sync server until it answers again. Coming back
+ * to the foreground runs a check straight away.
+ *
+ * @param getExpenses - Reads the current expenses when a sync starts
+ * @param callbacks - Callbacks for handling sync results
+ * @returns Function that stops the scheduler
+ */
+export function startAutoSyncScheduler(
+  getExpenses: () => Expense[],
+  callbacks: AutoSyncCallbacks
+): () => void {
+  let lastIntervalSync = Date.now()
+  let timer: ReturnType<typeof setInterval> | null = null
+  let running = false
+  let checkedLeftoverDays = false
+
+  const sync = async (timing: AutoSyncTiming) => {
+    if (running) return
+    running = true
+    try {
+      await performAutoSync(timing, getExpenses(), callbacks, true)
+    } catch (error) {
+      console.warn(`Scheduled auto-sync (${timing}) failed:`, error)
+    } finally {
+      running = false
+    }
+  }
+
+  const tick = async () => {
+    const settings = await loadSettings()
+    if (!settings.autoSyncEnabled) return
+
+    if (
+      settings.autoSyncTiming === "interval" &&
+      Date.now() - lastIntervalSync >= settings.autoSyncIntervalMinutes * 60_000
+    ) {
+      lastIntervalSync = Date.now()
+      await sync("interval")
+    } else if (settings.autoSyncTiming === "on_reconnect") {
+      if (!isDeviceOnline()) {
+        // A successful probe fires the connectivity listener below
+        if (await hasUnsyncedDays()) {
+          await probeConnectivity()
+        }
+      } else if (!checkedLeftoverDays) {
+        checkedLeftoverDays = true
+        if (await hasUnsyncedDays()) {
+          await sync("on_reconnect")
+        }
+      }
+    }
+  }
+
+  const startTicking = () => {
+    if (timer) return
+    timer = setInterval(() => void tick(), AUTO_SYNC_TICK_MS)
+    void tick()
+  }
+
+  const stopTicking = () => {
+    if (!timer) return
+    clearInterval(timer)
+    timer = null
+  }
+
+  const unsubscribeConnectivity = onConnectivityChange((online) => {
+    if (!online) return
+    void hasUnsyncedDays().then(async (pending) => {
+      if (pending) await sync("on_reconnect")
+    })
+  })
+
+  const appStateSubscription = AppState.addEventListener("change", (state) => {
+    if (state === "active") {
+      startTicking()
+    } else {
+      stopTicking()
+    }
+  })
+
+  // currentState can still be "unknown" this early in launch
+  if (AppState.currentState !== "background" && AppState.currentState !== "inactive") {
+    startTicking()
+  }
+
+  return () => {
+    stopTicking()
+    unsubscribeConnectivity()
+    appStateSubscription.remove()
+  }
+}
+
 /**
  * Settings sync state enum
  * - "synced": Current settings match the last synced version
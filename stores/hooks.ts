@@ -2,7 +2,10 @@ export { useExpenses } from "./hooks/use-expenses"
 export { useSettings } from "./hooks/use-settings"
 export { useNotifications } from "./hooks/use-notifications"
 export { useCategories } from "./hooks/use-categories"
+export { useRecurringTemplates } from "./hooks/use-recurring-templates"
+export { useExchangeRates } from "./hooks/use-exchange-rates"
 export { useUIState } from "./hooks/use-ui-state"
+export { useLedgers } from "./hooks/use-ledgers"
 export { useDerivedExpenseData } from "./hooks/use-derived-expense-data"
 // useSmsImportReview lives in providers/sms-import-review-provider — import
 // directly from there to avoid stores -> providers layer inversion.
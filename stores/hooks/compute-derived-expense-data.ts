@@ -1,5 +1,10 @@
 import { parseISO, isValid } from "date-fns"
-import { getFallbackCurrency, computeEffectiveCurrency } from "../../utils/currency"
+import {
+  ALL_CURRENCIES,
+  getFallbackCurrency,
+  computeEffectiveCurrency,
+} from "../../utils/currency"
+import { collectTags } from "../../utils/tags"
 import type { Expense } from "../../types/expense"
 
 export interface DerivedExpenseData {
@@ -11,7 +16,12 @@ export interface DerivedExpenseData {
   availableMonths: string[]
   /** The resolved currency taking into account user selection and defaults */
   effectiveCurrency: string
-  /** Expenses filtered to the effective currency */
+  /**
+   * Whether every currency is shown together, converted into the effective
+   * currency (the settings default) for reporting
+   */
+  isAllCurrencies: boolean
+  /** Expenses filtered to the effective currency (all expenses when isAllCurrencies) */
   currencyExpenses: Expense[]
   /** The currency that would be selected with no explicit user choice */
   defaultCurrency: string
@@ -21,6 +31,8 @@ export interface DerivedExpenseData {
    * empty state for a selection that is no longer valid.
    */
   effectiveSelectedMonth: string | null
+  /** Tags used by any active expense (across currencies), most used first */
+  availableTags: string[]
   /** Whether the expense store is still loading */
   isLoading: boolean
 }
@@ -31,7 +43,8 @@ export interface DerivedExpenseData {
  * Expenses are grouped by currency (legacy entries with no currency fall back
  * to the default), the effective currency is resolved from the user's selection
  * and settings default, and the month list plus effective selected month are
- * derived from only the expenses in that currency.
+ * derived from only the expenses in that currency. Selecting ALL_CURRENCIES
+ * keeps every expense and reports them in the settings default currency.
  */
 export function computeDerivedExpenseData(
   activeExpenses: Expense[],
@@ -56,16 +69,24 @@ export function computeDerivedExpenseData(
 
   const availableCurrencies = Array.from(groups.keys()).sort()
 
+  // "All currencies" only means something when there is more than one
+  const isAllCurrencies =
+    selectedCurrency === ALL_CURRENCIES && availableCurrencies.length > 1
+
   // Effective currency based on user selection, available data, and settings default
-  const effectiveCurrency = computeEffectiveCurrency(
-    selectedCurrency,
-    availableCurrencies,
-    groups,
-    defaultCurrencySetting
-  )
+  const effectiveCurrency = isAllCurrencies
+    ? defaultCurrencySetting
+    : computeEffectiveCurrency(
+        selectedCurrency,
+        availableCurrencies,
+        groups,
+        defaultCurrencySetting
+      )
 
   // Expenses scoped to the effective currency
-  const currencyExpenses = groups.get(effectiveCurrency) ?? []
+  const currencyExpenses = isAllCurrencies
+    ? activeExpenses
+    : (groups.get(effectiveCurrency) ?? [])
 
   // Available months scoped to the effective currency (not all expenses).
   // This ensures month options only show months that have data for the selected currency.
@@ -104,9 +125,11 @@ export function computeDerivedExpenseData(
     availableCurrencies,
     availableMonths,
     effectiveCurrency,
+    isAllCurrencies,
     currencyExpenses,
     defaultCurrency,
     effectiveSelectedMonth,
+    availableTags: collectTags(activeExpenses),
     isLoading,
   }
 }
@@ -3,6 +3,7 @@ import { useSelector } from "@xstate/store-react"
 import { useStoreContext } from "../store-provider"
 import { selectCategoryByLabel } from "../settings-store"
 import { Category } from "../../types/category"
+import { reassignTemplateCategory } from "../../services/recurring-expenses"
 
 export const useCategories = () => {
   const { settingsStore, expenseStore } = useStoreContext()
@@ -37,6 +38,22 @@ export const useCategories = () => {
     [settingsStore]
   )
 
+  // Keep recurring templates pointing at an existing category
+  const reassignRecurringTemplates = useCallback(
+    (fromCategory: string, toCategory: string) => {
+      const templates = settingsStore.getSnapshot().context.settings.recurringTemplates
+      const recurringTemplates = reassignTemplateCategory(
+        templates,
+        fromCategory,
+        toCategory
+      )
+      if (recurringTemplates) {
+        settingsStore.trigger.updateSettings({ updates: { recurringTemplates } })
+      }
+    },
+    [settingsStore]
+  )
+
   const updateCategory = useCallback(
     (label: string, updates: Partial<Omit<Category, "updatedAt">>) => {
       const nextLabel = updates.label?.trim()
@@ -45,17 +62,21 @@ export const useCategories = () => {
           fromCategory: label,
           toCategory: nextLabel,
         })
+        reassignRecurringTemplates(label, nextLabel)
       }
       settingsStore.trigger.updateCategory({ label, updates })
     },
-    [settingsStore, expenseStore]
+    [settingsStore, expenseStore, reassignRecurringTemplates]
   )
 
   const deleteCategory = useCallback(
     (label: string) => {
+      if (label !== "Other") {
+        reassignRecurringTemplates(label, "Other")
+      }
       settingsStore.trigger.deleteCategory({ label })
     },
-    [settingsStore]
+    [settingsStore, reassignRecurringTemplates]
   )
 
   const reorderCategories = useCallback(
@@ -0,0 +1,84 @@
+import { useCallback, useMemo } from "react"
+import { useSelector } from "@xstate/store-react"
+import { useStoreContext } from "../store-provider"
+import { ExchangeRate } from "../../types/exchange-rate"
+import {
+  getActiveExchangeRates,
+  upsertExchangeRates,
+} from "../../services/exchange-rates"
+
+export type ExchangeRateInput = Pick<
+  ExchangeRate,
+  "from" | "to" | "rate" | "effectiveDate"
+>
+
+export const useExchangeRates = () => {
+  const { settingsStore } = useStoreContext()
+
+  const allRates = useSelector(
+    settingsStore,
+    (state) => state.context.settings.exchangeRates
+  )
+
+  // Newest first, then by currency pair
+  const rates = useMemo(
+    () =>
+      getActiveExchangeRates(allRates).sort(
+        (a, b) =>
+          b.effectiveDate.localeCompare(a.effectiveDate) ||
+          `${a.from}${a.to}`.localeCompare(`${b.from}${b.to}`)
+      ),
+    [allRates]
+  )
+
+  const getRates = useCallback(
+    () => settingsStore.getSnapshot().context.settings.exchangeRates,
+    [settingsStore]
+  )
+
+  const saveRates = useCallback(
+    (inputs: ExchangeRateInput[]) => {
+      if (inputs.length === 0) return
+      settingsStore.trigger.updateSettings({
+        updates: { exchangeRates: upsertExchangeRates(getRates(), inputs) },
+      })
+    },
+    [settingsStore, getRates]
+  )
+
+  const updateRate = useCallback(
+    (id: string, input: ExchangeRateInput) => {
+      const now = new Date().toISOString()
+      settingsStore.trigger.updateSettings({
+        updates: {
+          exchangeRates: getRates().map((rate) =>
+            rate.id === id ? { ...rate, ...input, updatedAt: now } : rate
+          ),
+        },
+      })
+    },
+    [settingsStore, getRates]
+  )
+
+  const deleteRate = useCallback(
+    (id: string) => {
+      const now = new Date().toISOString()
+      // Soft delete so the removal syncs
+      settingsStore.trigger.updateSettings({
+        updates: {
+          exchangeRates: getRates().map((rate) =>
+            rate.id === id ? { ...rate, deletedAt: now, updatedAt: now } : rate
+          ),
+        },
+      })
+    },
+    [settingsStore, getRates]
+  )
+
+  return {
+    rates,
+    saveRates,
+    updateRate,
+    deleteRate,
+  }
+}
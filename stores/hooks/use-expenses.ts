@@ -3,9 +3,10 @@ import { useSelector } from "@xstate/store-react"
 import { useStoreContext } from "../store-provider"
 import { Expense } from "../../types/expense"
 import { getActiveExpenses } from "../expense-store"
+import { withConvertedAmount } from "../../services/exchange-rates"
 
 export const useExpenses = () => {
-  const { expenseStore } = useStoreContext()
+  const { expenseStore, settingsStore } = useStoreContext()
 
   const expenses = useSelector(expenseStore, (state) => state.context.expenses)
   const isLoading = useSelector(expenseStore, (state) => state.context.isLoading)
@@ -22,19 +23,29 @@ export const useExpenses = () => {
 
   const activeExpenses = useMemo(() => getActiveExpenses(expenses), [expenses])
 
+  // Store the amount in the default currency alongside foreign-currency entries
+  const convert = useCallback(
+    <T extends Pick<Expense, "amount" | "currency" | "date">>(expense: T) => {
+      const { defaultCurrency, exchangeRates } =
+        settingsStore.getSnapshot().context.settings
+      return withConvertedAmount(expense, defaultCurrency, exchangeRates)
+    },
+    [settingsStore]
+  )
+
   const addExpense = useCallback(
     (expense: Omit<Expense, "id" | "createdAt" | "updatedAt">) => {
       const now = new Date().toISOString()
       expenseStore.trigger.addExpense({
         expense: {
-          ...expense,
+          ...convert(expense),
           id: Date.now().toString(),
           createdAt: now,
           updatedAt: now,
         },
       })
     },
-    [expenseStore]
+    [expenseStore, convert]
   )
 
   const addExpenses = useCallback(
@@ -43,7 +54,7 @@ export const useExpenses = () => {
       const createdExpenses = expenses.map((expense, index) => {
         const now = new Date(baseTimestamp + index).toISOString()
         return {
-          ...expense,
+          ...convert(expense),
           id: `${baseTimestamp}_${index}`,
           createdAt: now,
           updatedAt: now,
@@ -53,7 +64,7 @@ export const useExpenses = () => {
       expenseStore.trigger.addExpenses({ expenses: createdExpenses })
       return createdExpenses
     },
-    [expenseStore]
+    [expenseStore, convert]
   )
 
   const editExpense = useCallback(
@@ -63,17 +74,30 @@ export const useExpenses = () => {
         .context.expenses.find((e) => e.id === id)
       if (!existing) return
 
+      const merged = { ...existing, ...updates }
+      // Only re-convert when the converted inputs change, so an edited note
+      // keeps the rate that applied when the expense was recorded
+      const needsConversion =
+        merged.amount !== existing.amount ||
+        merged.currency !== existing.currency ||
+        merged.date !== existing.date
+
       expenseStore.trigger.editExpense({
         expense: {
-          ...existing,
-          ...updates,
+          ...(needsConversion
+            ? convert(merged)
+            : {
+                ...merged,
+                convertedAmount: existing.convertedAmount,
+                convertedCurrency: existing.convertedCurrency,
+              }),
           id: existing.id,
           createdAt: existing.createdAt,
           updatedAt: new Date().toISOString(),
         },
       })
     },
-    [expenseStore]
+    [expenseStore, convert]
   )
 
   const deleteExpense = useCallback(
@@ -81,6 +105,16 @@ export const useExpenses = () => {
     [expenseStore]
   )
 
+  const importExpenses = useCallback(
+    (imported: Expense[]) => expenseStore.trigger.importExpenses({ expenses: imported }),
+    [expenseStore]
+  )
+
+  const restoreExpenses = useCallback(
+    (restored: Expense[]) => expenseStore.trigger.restoreExpenses({ expenses: restored }),
+    [expenseStore]
+  )
+
   const replaceAllExpenses = useCallback(
     (newExpenses: Expense[]) =>
       expenseStore.trigger.replaceExpenses({ expenses: newExpenses }),
@@ -118,6 +152,8 @@ export const useExpenses = () => {
       addExpenses,
       editExpense,
       deleteExpense,
+      importExpenses,
+      restoreExpenses,
       replaceAllExpenses,
       clearSyncNotification,
       clearDirtyDaysAfterSync,
@@ -135,6 +171,8 @@ export const useExpenses = () => {
       addExpenses,
       editExpense,
       deleteExpense,
+      importExpenses,
+      restoreExpenses,
       replaceAllExpenses,
       clearSyncNotification,
       clearDirtyDaysAfterSync,
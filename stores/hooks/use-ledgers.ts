@@ -0,0 +1,63 @@
+import { useCallback, useMemo } from "react"
+import { useSelector } from "@xstate/store-react"
+import { useStoreContext } from "../store-provider"
+import {
+  addLedger as addLedgerToStores,
+  renameLedger as renameLedgerInStore,
+  switchLedger as switchLedgerInStores,
+} from "../ledger-store"
+
+export const useLedgers = () => {
+  const { ledgerStore, expenseStore, settingsStore, syncActor, githubAuthActor } =
+    useStoreContext()
+
+  const ledgers = useSelector(ledgerStore, (state) => state.context.ledgers)
+  const activeId = useSelector(ledgerStore, (state) => state.context.activeId)
+  const isSwitching = useSelector(ledgerStore, (state) => state.context.isSwitching)
+
+  const activeLedger = useMemo(
+    () => ledgers.find((ledger) => ledger.id === activeId) ?? ledgers[0],
+    [activeId, ledgers]
+  )
+
+  // The last sync result and the signed-in account belong to the previous ledger
+  const resetSyncState = useCallback(() => {
+    syncActor.send({ type: "RESET" })
+    githubAuthActor.send({ type: "REFRESH" })
+  }, [githubAuthActor, syncActor])
+
+  const switchLedger = useCallback(
+    async (id: string) => {
+      await switchLedgerInStores(id, { ledgerStore, expenseStore, settingsStore })
+      resetSyncState()
+    },
+    [expenseStore, ledgerStore, resetSyncState, settingsStore]
+  )
+
+  const addLedger = useCallback(
+    async (name: string) => {
+      const ledger = await addLedgerToStores(name, {
+        ledgerStore,
+        expenseStore,
+        settingsStore,
+      })
+      resetSyncState()
+      return ledger
+    },
+    [expenseStore, ledgerStore, resetSyncState, settingsStore]
+  )
+
+  const renameLedger = useCallback(
+    (id: string, name: string) => renameLedgerInStore(id, name, ledgerStore),
+    [ledgerStore]
+  )
+
+  return {
+    ledgers,
+    activeLedger,
+    isSwitching,
+    switchLedger,
+    addLedger,
+    renameLedger,
+  }
+}
@@ -0,0 +1,111 @@
+import { useCallback, useMemo } from "react"
+import { useSelector } from "@xstate/store-react"
+import { useStoreContext } from "../store-provider"
+import { RecurringExpenseTemplate } from "../../types/recurring-expense"
+import {
+  generateRecurringTemplateId,
+  getActiveRecurringTemplates,
+} from "../../services/recurring-expenses"
+
+export type RecurringTemplateInput = Omit<
+  RecurringExpenseTemplate,
+  "id" | "createdAt" | "updatedAt" | "deletedAt"
+>
+
+export const useRecurringTemplates = () => {
+  const { settingsStore, expenseStore } = useStoreContext()
+
+  const allTemplates = useSelector(
+    settingsStore,
+    (state) => state.context.settings.recurringTemplates
+  )
+
+  const templates = useMemo(
+    () =>
+      getActiveRecurringTemplates(allTemplates).sort((a, b) =>
+        a.startDate.localeCompare(b.startDate)
+      ),
+    [allTemplates]
+  )
+
+  const getTemplates = useCallback(
+    () => settingsStore.getSnapshot().context.settings.recurringTemplates,
+    [settingsStore]
+  )
+
+  const materialize = useCallback(() => {
+    expenseStore.trigger.materializeRecurringExpenses({ templates: getTemplates() })
+  }, [expenseStore, getTemplates])
+
+  const addTemplate = useCallback(
+    (input: RecurringTemplateInput) => {
+      const now = new Date().toISOString()
+      const template: RecurringExpenseTemplate = {
+        ...input,
+        id: generateRecurringTemplateId(),
+        createdAt: now,
+        updatedAt: now,
+      }
+      settingsStore.trigger.updateSettings({
+        updates: { recurringTemplates: [...getTemplates(), template] },
+      })
+      materialize()
+      return template
+    },
+    [settingsStore, getTemplates, materialize]
+  )
+
+  const updateTemplate = useCallback(
+    (
+      id: string,
+      input: RecurringTemplateInput,
+      options: { updateExistingExpenses?: boolean } = {}
+    ) => {
+      const existing = getTemplates().find((template) => template.id === id)
+      if (!existing) return
+
+      const updated: RecurringExpenseTemplate = {
+        ...existing,
+        ...input,
+        updatedAt: new Date().toISOString(),
+      }
+      settingsStore.trigger.updateSettings({
+        updates: {
+          recurringTemplates: getTemplates().map((template) =>
+            template.id === id ? updated : template
+          ),
+        },
+      })
+
+      if (options.updateExistingExpenses) {
+        expenseStore.trigger.applyRecurringTemplateUpdate({ template: updated })
+      }
+      materialize()
+    },
+    [settingsStore, expenseStore, getTemplates, materialize]
+  )
+
+  const deleteTemplate = useCallback(
+    (id: string) => {
+      const now = new Date().toISOString()
+      // Soft delete so the removal syncs; already generated expenses are kept
+      settingsStore.trigger.updateSettings({
+        updates: {
+          recurringTemplates: getTemplates().map((template) =>
+            template.id === id
+              ? { ...template, deletedAt: now, updatedAt: now }
+              : template
+          ),
+        },
+      })
+    },
+    [settingsStore, getTemplates]
+  )
+
+  return {
+    templates,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+  }
+}
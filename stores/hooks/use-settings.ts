@@ -65,6 +65,12 @@ export const useSettings = () => {
     [settingsStore]
   )
 
+  const setAutoSyncIntervalMinutes = useCallback(
+    (autoSyncIntervalMinutes: number) =>
+      settingsStore.trigger.setAutoSyncIntervalMinutes({ autoSyncIntervalMinutes }),
+    [settingsStore]
+  )
+
   const updateSettings = useCallback(
     (updates: Partial<AppSettings>) => settingsStore.trigger.updateSettings({ updates }),
     [settingsStore]
@@ -127,6 +133,7 @@ export const useSettings = () => {
       setBackgroundSmsImportEnabled,
       setAutoSyncEnabled,
       setAutoSyncTiming,
+      setAutoSyncIntervalMinutes,
       updateSettings,
       replaceSettings,
       clearSettingsChangeFlag,
@@ -147,6 +154,7 @@ export const useSettings = () => {
       setBackgroundSmsImportEnabled,
       setAutoSyncEnabled,
       setAutoSyncTiming,
+      setAutoSyncIntervalMinutes,
       updateSettings,
       replaceSettings,
       clearSettingsChangeFlag,
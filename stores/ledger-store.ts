@@ -0,0 +1,108 @@
+import { createStore } from "@xstate/store"
+import {
+  Ledger,
+  LedgerRegistry,
+  createLedger,
+  loadLedgers,
+  renameLedger as renameStoredLedger,
+  setActiveLedger,
+} from "../services/ledgers"
+import { createLedgerSettings, saveSettings } from "../services/settings-manager"
+import { ExpenseStore, reloadExpenseStore } from "./expense-store"
+import { withAutoSyncHeld } from "./helpers"
+import { SettingsStore, initializeSettingsStore } from "./settings-store"
+
+/**
+ * Ledger Store
+ *
+ * Holds the ledgers on this device and which one is active. Switching
+ * ledgers reloads the expense and settings stores from the new ledger's
+ * storage, so every screen shows the active ledger only.
+ */
+export type LedgerStore = typeof ledgerStore
+
+const initial = loadLedgers()
+
+export const ledgerStore = createStore({
+  context: {
+    ledgers: initial.ledgers as Ledger[],
+    activeId: initial.activeId,
+    isSwitching: false,
+  },
+
+  on: {
+    loadLedgers: (context, event: { registry: LedgerRegistry }) => ({
+      ...context,
+      ledgers: event.registry.ledgers,
+      activeId: event.registry.activeId,
+    }),
+
+    setSwitching: (context, event: { isSwitching: boolean }) => ({
+      ...context,
+      isSwitching: event.isSwitching,
+    }),
+  },
+})
+
+export interface LedgerStores {
+  ledgerStore: LedgerStore
+  expenseStore: ExpenseStore
+  settingsStore: SettingsStore
+}
+
+async function activateLedger(
+  id: string,
+  { ledgerStore, expenseStore, settingsStore }: LedgerStores,
+  beforeLoad?: () => Promise<void>
+): Promise<void> {
+  ledgerStore.trigger.setSwitching({ isSwitching: true })
+  try {
+    // Auto-syncs read and write the active ledger's storage, so none may
+    // run across the switch
+    await withAutoSyncHeld(async () => {
+      await setActiveLedger(id)
+      await beforeLoad?.()
+      await Promise.all([
+        initializeSettingsStore(settingsStore),
+        reloadExpenseStore(expenseStore),
+      ])
+    })
+    // Recurring expenses of this ledger may have become due while another was active
+    expenseStore.trigger.materializeRecurringExpenses({
+      templates: settingsStore.getSnapshot().context.settings.recurringTemplates,
+    })
+  } finally {
+    ledgerStore.trigger.loadLedgers({ registry: loadLedgers() })
+    ledgerStore.trigger.setSwitching({ isSwitching: false })
+  }
+}
+
+/**
+ * Make another ledger active and load its data into the stores
+ */
+export async function switchLedger(id: string, stores: LedgerStores): Promise<void> {
+  if (id === stores.ledgerStore.getSnapshot().context.activeId) return
+  await activateLedger(id, stores)
+}
+
+/**
+ * Create a ledger and switch to it. It starts with no expenses and the
+ * default categories, keeping this device's preferences.
+ */
+export async function addLedger(name: string, stores: LedgerStores): Promise<Ledger> {
+  const settings = createLedgerSettings(
+    stores.settingsStore.getSnapshot().context.settings
+  )
+  const ledger = await createLedger(name)
+  await activateLedger(ledger.id, stores, () => saveSettings(settings))
+  return ledger
+}
+
+export async function renameLedger(
+  id: string,
+  name: string,
+  store: LedgerStore = ledgerStore
+): Promise<void> {
+  await renameStoredLedger(id, name)
+  store.trigger.loadLedgers({ registry: loadLedgers() })
+}
@@ -11,6 +11,7 @@ import {
   computeSettingsHash,
   getSettingsHash,
   saveSettingsHash,
+  applySettingsUpdates,
 } from "../services/settings-manager"
 import {
   SyncConfig,
@@ -45,15 +46,14 @@ function createSettingUpdater<K extends keyof AppSettings>(key: K) {
     event: { [P in K]: AppSettings[K] },
     enqueue: { effect: (fn: () => Promise<void>) => void }
   ) => {
-    const newSettings = { ...context.settings, [key]: event[key] }
+    const timestamp = new Date().toISOString()
+    const updates = { [key]: event[key] } as Partial<AppSettings>
+    const newSettings = applySettingsUpdates(context.settings, updates, timestamp)
     const newSyncState = computeSettingsSyncState(newSettings, context.syncedSettingsHash)
 
     enqueue.effect(async () => {
       await saveSettings(newSettings)
-      await enqueueSyncOp({
-        type: "settings.patch",
-        updates: { [key]: event[key] } as Partial<AppSettings>,
-      })
+      await enqueueSyncOp({ type: "settings.patch", updates, timestamp })
       if (newSyncState === "modified") {
         await markSettingsChanged()
       } else {
@@ -120,12 +120,18 @@ export const settingsStore = createStore({
         settingsSyncState: event.settingsSyncState,
         syncedSettingsHash: event.syncedSettingsHash,
         isLoading: false,
-        syncConfig: event.syncConfig ?? context.syncConfig,
+        syncConfig:
+          event.syncConfig === undefined ? context.syncConfig : event.syncConfig,
       }
     },
 
     setTheme: (context, event: { theme: ThemePreference }, enqueue) => {
-      const newSettings = { ...context.settings, theme: event.theme }
+      const timestamp = new Date().toISOString()
+      const newSettings = applySettingsUpdates(
+        context.settings,
+        { theme: event.theme },
+        timestamp
+      )
       const newSyncState = computeSettingsSyncState(
         newSettings,
         context.syncedSettingsHash
@@ -136,6 +142,7 @@ export const settingsStore = createStore({
         await enqueueSyncOp({
           type: "settings.patch",
           updates: { theme: event.theme },
+          timestamp,
         })
         if (newSyncState === "modified") {
           await markSettingsChanged()
@@ -164,10 +171,12 @@ export const settingsStore = createStore({
       event: { backgroundSmsImportEnabled: boolean },
       enqueue
     ) => {
-      const newSettings = {
-        ...context.settings,
-        backgroundSmsImportEnabled: event.backgroundSmsImportEnabled,
-      }
+      const timestamp = new Date().toISOString()
+      const newSettings = applySettingsUpdates(
+        context.settings,
+        { backgroundSmsImportEnabled: event.backgroundSmsImportEnabled },
+        timestamp
+      )
       const newSyncState = computeSettingsSyncState(
         newSettings,
         context.syncedSettingsHash
@@ -178,6 +187,7 @@ export const settingsStore = createStore({
         await enqueueSyncOp({
           type: "settings.patch",
           updates: { backgroundSmsImportEnabled: event.backgroundSmsImportEnabled },
+          timestamp,
         })
         if (newSyncState === "modified") {
           await markSettingsChanged()
@@ -194,11 +204,12 @@ export const settingsStore = createStore({
     },
 
     setLanguage: (context, event: { language: string }, enqueue) => {
-      const newSettings = {
-        ...context.settings,
+      const timestamp = new Date().toISOString()
+      const updates = {
         language: event.language,
         defaultCurrency: getDefaultCurrencyForLanguage(event.language),
       }
+      const newSettings = applySettingsUpdates(context.settings, updates, timestamp)
       const newSyncState = computeSettingsSyncState(
         newSettings,
         context.syncedSettingsHash
@@ -207,13 +218,7 @@ export const settingsStore = createStore({
       enqueue.effect(async () => {
         await saveSettings(newSettings)
         await changeLanguage(event.language)
-        await enqueueSyncOp({
-          type: "settings.patch",
-          updates: {
-            language: event.language,
-            defaultCurrency: newSettings.defaultCurrency,
-          },
-        })
+        await enqueueSyncOp({ type: "settings.patch", updates, timestamp })
         if (newSyncState === "modified") {
           await markSettingsChanged()
         } else {
@@ -232,8 +237,11 @@ export const settingsStore = createStore({
 
     setAutoSyncTiming: createSettingUpdater("autoSyncTiming"),
 
+    setAutoSyncIntervalMinutes: createSettingUpdater("autoSyncIntervalMinutes"),
+
     updateSettings: (context, event: { updates: Partial<AppSettings> }, enqueue) => {
-      const newSettings = { ...context.settings, ...event.updates }
+      const timestamp = new Date().toISOString()
+      const newSettings = applySettingsUpdates(context.settings, event.updates, timestamp)
       const newSyncState = computeSettingsSyncState(
         newSettings,
         context.syncedSettingsHash
@@ -241,6 +249,12 @@ export const settingsStore = createStore({
 
       enqueue.effect(async () => {
         await saveSettings(newSettings)
+        if (
+          Object.hasOwn(event.updates, "language") &&
+          newSettings.language !== context.settings.language
+        ) {
+          await changeLanguage(newSettings.language)
+        }
         if (Object.hasOwn(event.updates, "backgroundSmsImportEnabled")) {
           await syncBackgroundSmsEnabledBestEffort(
             Boolean(newSettings.backgroundSmsImportEnabled)
@@ -249,6 +263,7 @@ export const settingsStore = createStore({
         await enqueueSyncOp({
           type: "settings.patch",
           updates: event.updates,
+          timestamp,
         })
         if (newSyncState === "modified") {
           await markSettingsChanged()
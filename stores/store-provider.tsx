@@ -13,6 +13,7 @@ import {
   initializeExpenseStore,
   onSettingsDownloaded,
   onSyncNotification,
+  startExpenseAutoSyncScheduler,
 } from "./expense-store"
 import { SyncNotification } from "../types/sync"
 import {
@@ -36,6 +37,7 @@ import {
   notificationStore as defaultNotificationStore,
   NotificationStore,
 } from "./notification-store"
+import { ledgerStore as defaultLedgerStore, LedgerStore } from "./ledger-store"
 import { syncMachine } from "../services/sync-machine"
 import { githubAuthMachine } from "../services/github-auth-machine"
 import { migratePaymentInstrumentsOnStartup } from "../services/payment-instruments-migration"
@@ -47,6 +49,7 @@ interface StoreContextValue {
   notificationStore: NotificationStore
   uiStateStore: UIStateStore
   updateStore: UpdateStore
+  ledgerStore: LedgerStore
   syncActor: ActorRefFrom<typeof syncMachine>
   githubAuthActor: ActorRefFrom<typeof githubAuthMachine>
 }
@@ -61,6 +64,7 @@ interface StoreProviderProps {
   notificationStore?: NotificationStore
   uiStateStore?: UIStateStore
   updateStore?: UpdateStore
+  ledgerStore?: LedgerStore
   syncActor?: ActorRefFrom<typeof syncMachine>
   githubAuthActor?: ActorRefFrom<typeof githubAuthMachine>
   // Skip initialization (for testing)
@@ -74,6 +78,7 @@ export const StoreProvider: React.FC<StoreProviderProps> = ({
   notificationStore = defaultNotificationStore,
   uiStateStore = defaultUIStateStore,
   updateStore = defaultUpdateStore,
+  ledgerStore = defaultLedgerStore,
   syncActor: providedSyncActor,
   githubAuthActor: providedGitHubAuthActor,
   skipInitialization = false,
@@ -129,11 +134,21 @@ export const StoreProvider: React.FC<StoreProviderProps> = ({
         initializeExpenseStore(expenseStore),
         initializeUIStateStore(uiStateStore),
       ])
+      // Materialize recurring expenses that became due while the app was closed
+      expenseStore.trigger.materializeRecurringExpenses({
+        templates: settingsStore.getSnapshot().context.settings.recurringTemplates,
+      })
       initializeUpdateStore(updateStore)
       await runLaunchUpdateCheck(updateStore)
     })()
   }, [expenseStore, settingsStore, skipInitialization, uiStateStore, updateStore])
 
+  // Interval and reconnect auto-sync run only while the app is in the foreground
+  useEffect(() => {
+    if (skipInitialization) return
+    return startExpenseAutoSyncScheduler(expenseStore)
+  }, [expenseStore, skipInitialization])
+
   // Memoize the notification handler to avoid recreating on every render
   const handleSyncNotification = useCallback(
     (notification: SyncNotification) => {
@@ -164,9 +179,13 @@ export const StoreProvider: React.FC<StoreProviderProps> = ({
         }
       }
       settingsStore.trigger.replaceSettings({ settings: settingsToApply })
+      // Templates created on another device may have occurrences due here too
+      expenseStore.trigger.materializeRecurringExpenses({
+        templates: settingsToApply.recurringTemplates,
+      })
     })
     return unsubscribe
-  }, [settingsStore])
+  }, [expenseStore, settingsStore])
 
   const value = useMemo(
     () => ({
@@ -175,6 +194,7 @@ export const StoreProvider: React.FC<StoreProviderProps> = ({
       notificationStore,
       uiStateStore,
       updateStore,
+      ledgerStore,
       syncActor,
       githubAuthActor,
     }),
@@ -184,6 +204,7 @@ export const StoreProvider: React.FC<StoreProviderProps> = ({
       notificationStore,
       uiStateStore,
       updateStore,
+      ledgerStore,
       syncActor,
       githubAuthActor,
     ]
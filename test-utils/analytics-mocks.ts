@@ -66,10 +66,15 @@ export function createMockSettings(overrides?: Partial<AppSettings>): AppSetting
     backgroundSmsImportEnabled: false,
     autoSyncEnabled: false,
     autoSyncTiming: "on_change",
+    autoSyncIntervalMinutes: 15,
+    fieldUpdatedAt: {},
     categories: [],
     categoriesVersion: 1,
     paymentInstruments: [],
     paymentInstrumentsMigrationVersion: 0,
+    recurringTemplates: [],
+    exchangeRates: [],
+    syncAttachments: false,
     updatedAt: now,
     version: 9,
     ...overrides,
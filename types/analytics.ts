@@ -21,6 +21,7 @@ export type {
   PieChartDataItem,
   PaymentMethodChartDataItem,
   PaymentInstrumentChartDataItem,
+  TagChartDataItem,
   LineChartDataItem,
 } from "../utils/analytics/aggregations"
 
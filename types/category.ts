@@ -16,6 +16,11 @@ export interface Category {
   order: number
   /** Whether this is a default category */
   isDefault: boolean
+  /**
+   * Monthly spending limit in the default currency.
+   * Missing or 0 means the category has no budget.
+   */
+  monthlyBudget?: number
   /** ISO timestamp for sync conflict resolution */
   updatedAt: string
 }
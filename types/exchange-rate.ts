@@ -0,0 +1,23 @@
+/**
+ * Exchange rate type definitions
+ */
+
+/**
+ * A manually maintained exchange rate.
+ *
+ * `rate` is how many units of `to` one unit of `from` is worth, effective from
+ * `effectiveDate` until a newer rate for the same pair takes over.
+ */
+export interface ExchangeRate {
+  id: string
+  /** ISO 4217 code of the currency being converted (e.g., "USD") */
+  from: string
+  /** ISO 4217 code of the currency converted into (e.g., "INR") */
+  to: string
+  rate: number
+  /** Local day key (YYYY-MM-DD) the rate applies from */
+  effectiveDate: string
+  createdAt: string
+  updatedAt: string
+  deletedAt?: string // Soft delete so removals sync across devices
+}
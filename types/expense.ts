@@ -9,6 +9,12 @@ export type PaymentMethodType =
   | "Net Banking"
   | "Other"
 
+/**
+ * Direction of a transaction. Amounts are always stored as positive numbers;
+ * the kind decides whether they count as spending, income or neither.
+ */
+export type TransactionKind = "expense" | "income" | "refund" | "transfer"
+
 export interface PaymentMethod {
   type: PaymentMethodType
   identifier?: string // Last 4 digits for cards, last 3 for UPI bank account
@@ -18,12 +24,20 @@ export interface PaymentMethod {
 export interface Expense {
   id: string
   amount: number
+  kind?: TransactionKind // Transaction kind (undefined means "expense")
   currency?: string // ISO 4217 currency code (e.g., "INR", "USD")
+  convertedAmount?: number // Amount in convertedCurrency, set when currency differs from the default
+  convertedCurrency?: string // Default currency at the time the amount was converted
   category: ExpenseCategory
   date: string // ISO string
   note: string
   paymentMethod?: PaymentMethod // Optional payment method
+  tags?: string[] // Normalized free-form labels (lowercase, unique); unset when untagged
+  attachments?: string[] // Receipt file names (stored under attachments/ in the sync repo); unset when none
+  recurringTemplateId?: string // Recurring template this expense was generated from
   createdAt: string // ISO timestamp
   updatedAt: string // ISO timestamp
   deletedAt?: string // ISO timestamp - when soft-deleted (undefined if not deleted)
+  createdBy?: string // ID of the device that created the expense
+  updatedBy?: string // ID of the device that last changed the expense
 }
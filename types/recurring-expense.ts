@@ -0,0 +1,47 @@
+/**
+ * Recurring expense template type definitions
+ */
+
+import { PaymentMethod } from "./expense"
+
+/**
+ * How often a template repeats. "custom" repeats every `interval` `customUnit`s.
+ */
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly" | "custom"
+
+/**
+ * Unit used by "custom" recurrences (e.g. every 2 weeks)
+ */
+export type RecurrenceUnit = "day" | "week" | "month" | "year"
+
+/**
+ * A template that materializes into regular expenses on each due date
+ */
+export interface RecurringExpenseTemplate {
+  /** Unique identifier, also embedded in generated expense IDs */
+  id: string
+  amount: number
+  /** ISO 4217 currency code (e.g., "INR") */
+  currency?: string
+  category: string
+  note: string
+  paymentMethod?: PaymentMethod
+  frequency: RecurrenceFrequency
+  /** Repeat every N units; always 1 for the non-custom frequencies */
+  interval: number
+  /** Unit for "custom" recurrences */
+  customUnit?: RecurrenceUnit
+  /**
+   * Day of the first occurrence (yyyy-MM-dd). Templates saved by earlier
+   * versions hold an ISO timestamp instead.
+   */
+  startDate: string
+  /** Day (yyyy-MM-dd) after which no occurrences are generated */
+  endDate?: string
+  /** Stop after this many occurrences (counted from startDate) */
+  maxOccurrences?: number
+  createdAt: string
+  updatedAt: string
+  /** ISO timestamp - when soft-deleted (undefined if not deleted) */
+  deletedAt?: string
+}
@@ -2,19 +2,52 @@
  * Sync-related type definitions
  *
  * These types define the configuration and result structures
- * for GitHub synchronization operations.
+ * for sync operations against a git host or a WebDAV server.
  */
 
 /**
- * Configuration for GitHub sync operations
+ * Where synced files are stored
+ */
+export type SyncBackendKind = "github" | "gitea" | "gitlab" | "webdav"
+
+/**
+ * How expenses are split into files in the repository: one
+ * `expenses-YYYY-MM-DD.csv` per day, or one `expenses-YYYY-MM.csv` per month
+ */
+export type FileLayout = "daily" | "monthly"
+
+/**
+ * Connection details for a WebDAV folder
+ */
+export interface WebDAVConfig {
+  /** URL of the folder the files live in */
+  url: string
+  username: string
+  password: string
+}
+
+/**
+ * Configuration for sync operations
+ *
+ * token, repo and branch describe the repository on GitHub, Gitea/Forgejo
+ * and GitLab; they are empty strings when WebDAV is selected.
  */
 export interface SyncConfig {
-  /** GitHub Personal Access Token */
+  /** Storage backend; configs without one predate WebDAV support and use GitHub */
+  backend?: SyncBackendKind
+  /** Personal access token (or GitHub OAuth token) */
   token: string
-  /** Repository in format "owner/repo" */
+  /** Repository in format "owner/repo"; GitLab also accepts "group/subgroup/project" */
   repo: string
   /** Branch name to sync with */
   branch: string
+  /**
+   * Server address for Gitea/Forgejo and GitLab (e.g. "https://git.example.com"),
+   * or a GitHub Enterprise API root. GitHub uses api.github.com when unset.
+   */
+  apiBaseUrl?: string
+  /** WebDAV connection, set when backend is "webdav" */
+  webdav?: WebDAVConfig
 }
 
 /**
@@ -28,7 +61,7 @@ export interface SyncResult {
   /** Error message if the operation failed */
   error?: string
 
-  /** HTTP status when auth/permission errors occur (GitHub) */
+  /** HTTP status when auth/permission errors occur */
   authStatus?: 401 | 403
   /** Whether the app should clear saved sync config and prompt re-login */
   shouldSignOut?: boolean
@@ -75,12 +108,14 @@ export interface FetchAllRemoteResult {
   /** Error message if the operation failed */
   error?: string
 
-  /** HTTP status when auth/permission errors occur (GitHub) */
+  /** HTTP status when auth/permission errors occur */
   authStatus?: 401 | 403
   /** Whether the app should clear saved sync config and prompt re-login */
   shouldSignOut?: boolean
   /** Number of files downloaded */
   filesDownloaded?: number
-  /** Tree entries from Git Trees API, reusable by push phase */
+  /** Remote files with their blob SHA (GitHub) or ETag (WebDAV), reusable by push phase */
   treeEntries?: { path: string; sha: string }[]
+  /** How the repository splits expenses into files */
+  layout?: FileLayout
 }
@@ -0,0 +1,49 @@
+import { aggregateByTag } from "./aggregations"
+import type { Expense } from "../../types/expense"
+
+function makeExpense(overrides: Partial<Expense>): Expense {
+  return {
+    id: overrides.id ?? "exp",
+    amount: 100,
+    category: "Food",
+    date: "2024-01-10T00:00:00.000Z",
+    note: "",
+    createdAt: "2024-01-10T00:00:00.000Z",
+    updatedAt: "2024-01-10T00:00:00.000Z",
+    ...overrides,
+  }
+}
+
+describe("aggregateByTag", () => {
+  it("counts an expense towards each of its tags", () => {
+    const data = aggregateByTag([
+      makeExpense({ id: "a", amount: 300, tags: ["work", "travel"] }),
+      makeExpense({ id: "b", amount: 100, tags: ["work"] }),
+      makeExpense({ id: "c", amount: 100 }),
+    ])
+
+    expect(data.map(({ tag, value, count }) => ({ tag, value, count }))).toEqual([
+      { tag: "work", value: 400, count: 2 },
+      { tag: "travel", value: 300, count: 1 },
+    ])
+    // Percentages are of total spending, including untagged expenses
+    expect(data[0].percentage).toBeCloseTo(80)
+    expect(data[1].percentage).toBeCloseTo(60)
+  })
+
+  it("nets refunds and ignores income", () => {
+    const data = aggregateByTag([
+      makeExpense({ id: "a", amount: 300, tags: ["gift"] }),
+      makeExpense({ id: "b", amount: 100, tags: ["gift"], kind: "refund" }),
+      makeExpense({ id: "c", amount: 500, tags: ["gift"], kind: "income" }),
+    ])
+
+    expect(data).toHaveLength(1)
+    expect(data[0].value).toBe(200)
+    expect(data[0].count).toBe(2)
+  })
+
+  it("returns nothing when no expense is tagged", () => {
+    expect(aggregateByTag([makeExpense({})])).toEqual([])
+  })
+})
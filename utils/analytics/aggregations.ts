@@ -7,7 +7,7 @@ import type {
   PaymentInstrumentMethod,
 } from "../../types/payment-instrument"
 import { getLocalDayKey } from "../date"
-import { CATEGORY_COLORS } from "../../constants/category-colors"
+import { CATEGORY_COLORS, CATEGORY_COLOR_PALETTE } from "../../constants/category-colors"
 import { PAYMENT_METHOD_COLORS } from "../../constants/payment-method-colors"
 import {
   PAYMENT_INSTRUMENT_METHODS,
@@ -16,6 +16,9 @@ import {
 } from "../../services/payment-instruments"
 import { getPaymentMethodI18nKey } from "../../constants/payment-methods"
 import { getCurrencySymbol } from "../currency"
+import { getSpendingAmount } from "../transaction-kind"
+import { getExpenseTags } from "../tags"
+import { ReportingCurrencyOptions, toReportingCurrency } from "./currency"
 import { PaymentInstrumentSelectionKey, resolveInstrumentKeyForExpense } from "./filters"
 
 // Category color map type for dynamic categories
@@ -50,6 +53,16 @@ export interface PaymentInstrumentChartDataItem {
   isOther: boolean
 }
 
+// Tag chart data item
+export interface TagChartDataItem {
+  tag: string
+  value: number
+  color: string
+  /** Share of all spending in the set; tags overlap, so shares can sum past 100 */
+  percentage: number
+  count: number
+}
+
 // Line chart data item
 export interface LineChartDataItem {
   value: number
@@ -80,25 +93,33 @@ export function getCategoryColor(
 /**
  * Aggregate expenses by category for pie chart
  * Returns pie chart data with category totals, colors, and percentages
- * Excludes categories with zero expenses
+ * Totals are net spending (refunds subtract, income and transfers are ignored)
+ * Excludes categories with zero (or fully refunded) spending
  * @param expenses - Array of expenses to aggregate
  * @param categoryColors - Optional color map from dynamic categories
+ * @param reporting - When set, mixed currencies are converted into one reporting currency
  */
 export function aggregateByCategory(
   expenses: Expense[],
   categoryColors: CategoryColorMap | undefined,
-  t: (key: string) => string
+  t: (key: string) => string,
+  reporting?: ReportingCurrencyOptions
 ): PieChartDataItem[] {
   // Group and sum by category
   const categoryTotals = new Map<string, number>()
 
-  for (const expense of expenses) {
+  for (const expense of toReportingCurrency(expenses, reporting)) {
+    const spending = getSpendingAmount(expense)
+    if (spending === 0) continue
     const current = categoryTotals.get(expense.category) ?? 0
-    categoryTotals.set(expense.category, current + Math.abs(expense.amount))
+    categoryTotals.set(expense.category, current + spending)
   }
 
-  // Calculate total for percentages
-  const total = Array.from(categoryTotals.values()).reduce((sum, val) => sum + val, 0)
+  // Calculate total for percentages (categories fully offset by refunds are left out)
+  const total = Array.from(categoryTotals.values()).reduce(
+    (sum, val) => (val > 0 ? sum + val : sum),
+    0
+  )
 
   if (total === 0) {
     return []
@@ -131,22 +152,25 @@ export function aggregateByCategory(
  */
 export function aggregateByPaymentMethod(
   expenses: Expense[],
-  t: (key: string) => string
+  t: (key: string) => string,
+  reporting?: ReportingCurrencyOptions
 ): PaymentMethodChartDataItem[] {
   // Group and sum by payment method type
   // Expenses without paymentMethod are grouped under "Other"
   const paymentMethodTotals = new Map<PaymentMethodType | "Other", number>()
 
-  for (const expense of expenses) {
+  for (const expense of toReportingCurrency(expenses, reporting)) {
+    const spending = getSpendingAmount(expense)
+    if (spending === 0) continue
     const paymentMethodType: PaymentMethodType | "Other" =
       expense.paymentMethod?.type ?? "Other"
     const current = paymentMethodTotals.get(paymentMethodType) ?? 0
-    paymentMethodTotals.set(paymentMethodType, current + Math.abs(expense.amount))
+    paymentMethodTotals.set(paymentMethodType, current + spending)
   }
 
   // Calculate total for percentages
   const total = Array.from(paymentMethodTotals.values()).reduce(
-    (sum, val) => sum + val,
+    (sum, val) => (val > 0 ? sum + val : sum),
     0
   )
 
@@ -181,7 +205,8 @@ export function aggregateByPaymentMethod(
 export function aggregateByPaymentInstrument(
   expenses: Expense[],
   instruments: PaymentInstrument[],
-  t: (key: string) => string
+  t: (key: string) => string,
+  reporting?: ReportingCurrencyOptions
 ): PaymentInstrumentChartDataItem[] {
   const totals = new Map<
     PaymentInstrumentSelectionKey,
@@ -193,12 +218,14 @@ export function aggregateByPaymentInstrument(
     }
   >()
 
-  for (const expense of expenses) {
+  for (const expense of toReportingCurrency(expenses, reporting)) {
+    const spending = getSpendingAmount(expense)
+    if (spending === 0) continue
     const resolved = resolveInstrumentKeyForExpense(expense, instruments)
     if (!resolved) continue
 
     const current = totals.get(resolved.key)
-    const nextValue = (current?.value ?? 0) + Math.abs(expense.amount)
+    const nextValue = (current?.value ?? 0) + spending
     totals.set(resolved.key, {
       method: resolved.method,
       instrumentId: resolved.instrumentId,
@@ -207,7 +234,10 @@ export function aggregateByPaymentInstrument(
     })
   }
 
-  const total = Array.from(totals.values()).reduce((sum, v) => sum + v.value, 0)
+  const total = Array.from(totals.values()).reduce(
+    (sum, v) => (v.value > 0 ? sum + v.value : sum),
+    0
+  )
   if (total === 0) return []
 
   const items: PaymentInstrumentChartDataItem[] = []
@@ -246,28 +276,72 @@ export function aggregateByPaymentInstrument(
   })
 }
 
+/**
+ * Aggregate expenses by tag
+ * An expense counts towards every tag it carries; untagged expenses only add
+ * to the total the percentages are measured against.
+ * Excludes tags with zero (or fully refunded) spending
+ */
+export function aggregateByTag(
+  expenses: Expense[],
+  reporting?: ReportingCurrencyOptions
+): TagChartDataItem[] {
+  const tagTotals = new Map<string, { value: number; count: number }>()
+  let total = 0
+
+  for (const expense of toReportingCurrency(expenses, reporting)) {
+    const spending = getSpendingAmount(expense)
+    if (spending === 0) continue
+    total += spending
+    for (const tag of getExpenseTags(expense)) {
+      const current = tagTotals.get(tag) ?? { value: 0, count: 0 }
+      tagTotals.set(tag, { value: current.value + spending, count: current.count + 1 })
+    }
+  }
+
+  if (total <= 0) {
+    return []
+  }
+
+  return Array.from(tagTotals.entries())
+    .filter(([, entry]) => entry.value > 0)
+    .sort((a, b) => b[1].value - a[1].value || a[0].localeCompare(b[0]))
+    .map(([tag, entry], index) => ({
+      tag,
+      value: entry.value,
+      color: CATEGORY_COLOR_PALETTE[index % CATEGORY_COLOR_PALETTE.length],
+      percentage: (entry.value / total) * 100,
+      count: entry.count,
+    }))
+}
+
 /**
  * Aggregate expenses by day for line chart
- * Returns one data point per day in the date range, with zero-fill for days without expenses
+ * Returns one data point per day in the date range, with zero-fill for days without expenses.
+ * Values are net spending (refunds subtract, income and transfers are ignored).
+ * With `reporting`, amounts are converted and labelled in the reporting currency.
  */
 export function aggregateByDay(
   expenses: Expense[],
   dateRange: DateRange,
   locale?: Locale,
-  currencyCode: string = "INR"
+  currencyCode: string = "INR",
+  reporting?: ReportingCurrencyOptions
 ): LineChartDataItem[] {
   // Get all days in the range
   const days = eachDayOfInterval({ start: dateRange.start, end: dateRange.end })
-  const symbol = getCurrencySymbol(currencyCode)
+  const symbol = getCurrencySymbol(reporting?.currency ?? currencyCode)
 
   // Group expenses by day
   const dailyTotals = new Map<string, number>()
 
-  for (const expense of expenses) {
+  for (const expense of toReportingCurrency(expenses, reporting)) {
+    const spending = getSpendingAmount(expense)
+    if (spending === 0) continue
     try {
       const dayKey = getLocalDayKey(expense.date)
       const current = dailyTotals.get(dayKey) ?? 0
-      dailyTotals.set(dayKey, current + Math.abs(expense.amount))
+      dailyTotals.set(dayKey, current + spending)
     } catch {
       // Skip invalid dates
     }
@@ -0,0 +1,175 @@
+import {
+  calculateBudgetProgress,
+  getBudgetStatus,
+  getBudgetExpenses,
+  getCategoryBudget,
+  getMonthKey,
+} from "./budgets"
+import type { Category } from "../../types/category"
+import type { Expense } from "../../types/expense"
+
+function makeExpense(overrides: Partial<Expense> = {}): Expense {
+  return {
+    id: overrides.id ?? `exp-${Math.random().toString(36).slice(2, 9)}`,
+    amount: overrides.amount ?? 100,
+    kind: overrides.kind,
+    category: overrides.category ?? "Food",
+    date: overrides.date ?? new Date(2026, 6, 10, 12).toISOString(),
+    note: overrides.note ?? "",
+    currency: overrides.currency,
+    convertedAmount: overrides.convertedAmount,
+    convertedCurrency: overrides.convertedCurrency,
+    createdAt: overrides.createdAt || new Date().toISOString(),
+    updatedAt: overrides.updatedAt || new Date().toISOString(),
+    deletedAt: overrides.deletedAt,
+  }
+}
+
+function makeCategory(overrides: Partial<Category> = {}): Category {
+  return {
+    label: overrides.label ?? "Food",
+    icon: overrides.icon ?? "Utensils",
+    color: overrides.color ?? "#FFB07C",
+    order: overrides.order ?? 0,
+    isDefault: overrides.isDefault ?? false,
+    monthlyBudget: overrides.monthlyBudget,
+    updatedAt: overrides.updatedAt ?? new Date().toISOString(),
+  }
+}
+
+describe("getCategoryBudget", () => {
+  it("returns positive budgets", () => {
+    expect(getCategoryBudget(makeCategory({ monthlyBudget: 8000 }))).toBe(8000)
+  })
+
+  it("treats missing, zero and invalid budgets as no budget", () => {
+    expect(getCategoryBudget(makeCategory())).toBeUndefined()
+    expect(getCategoryBudget(makeCategory({ monthlyBudget: 0 }))).toBeUndefined()
+    expect(getCategoryBudget(makeCategory({ monthlyBudget: -10 }))).toBeUndefined()
+    expect(getCategoryBudget(makeCategory({ monthlyBudget: NaN }))).toBeUndefined()
+    expect(getCategoryBudget(undefined)).toBeUndefined()
+  })
+})
+
+describe("getBudgetStatus", () => {
+  it("classifies spending against the warning ratio and the limit", () => {
+    expect(getBudgetStatus(0, 1000)).toBe("under")
+    expect(getBudgetStatus(799, 1000)).toBe("under")
+    expect(getBudgetStatus(800, 1000)).toBe("warning")
+    expect(getBudgetStatus(1000, 1000)).toBe("warning")
+    expect(getBudgetStatus(1000.01, 1000)).toBe("over")
+  })
+})
+
+describe("getMonthKey", () => {
+  it("formats local dates as YYYY-MM", () => {
+    expect(getMonthKey(new Date(2026, 0, 31))).toBe("2026-01")
+    expect(getMonthKey(new Date(2026, 11, 1))).toBe("2026-12")
+  })
+})
+
+describe("calculateBudgetProgress", () => {
+  const categories = [
+    makeCategory({ label: "Food", monthlyBudget: 1000 }),
+    makeCategory({ label: "Transport", monthlyBudget: 500 }),
+    makeCategory({ label: "Rent" }),
+  ]
+
+  it("only reports categories that have a budget", () => {
+    const progress = calculateBudgetProgress([], categories, "2026-07")
+    expect(progress.map((p) => p.category).sort()).toEqual(["Food", "Transport"])
+    expect(progress.every((p) => p.spent === 0 && p.status === "under")).toBe(true)
+  })
+
+  it("sums spending within the month and ignores other months and deleted rows", () => {
+    const expenses = [
+      makeExpense({ category: "Food", amount: 300 }),
+      makeExpense({ category: "Food", amount: 250 }),
+      makeExpense({
+        category: "Food",
+        amount: 999,
+        date: new Date(2026, 5, 30, 12).toISOString(),
+      }),
+      makeExpense({ category: "Food", amount: 999, deletedAt: new Date().toISOString() }),
+      makeExpense({ category: "Rent", amount: 20000 }),
+    ]
+
+    const food = calculateBudgetProgress(expenses, categories, "2026-07").find(
+      (p) => p.category === "Food"
+    )
+
+    expect(food?.spent).toBe(550)
+    expect(food?.remaining).toBe(450)
+    expect(food?.ratio).toBeCloseTo(0.55)
+    expect(food?.status).toBe("under")
+  })
+
+  it("offsets refunds and ignores income and transfers", () => {
+    const expenses = [
+      makeExpense({ category: "Food", amount: 600 }),
+      makeExpense({ category: "Food", amount: 100, kind: "refund" }),
+      makeExpense({ category: "Food", amount: 5000, kind: "income" }),
+      makeExpense({ category: "Transport", amount: 5000, kind: "transfer" }),
+      makeExpense({ category: "Transport", amount: 50, kind: "refund" }),
+    ]
+
+    const progress = calculateBudgetProgress(expenses, categories, "2026-07")
+
+    expect(progress.find((p) => p.category === "Food")?.spent).toBe(500)
+    expect(progress.find((p) => p.category === "Transport")?.spent).toBe(0)
+  })
+
+  it("reports negative remaining when over budget and sorts by usage", () => {
+    const expenses = [
+      makeExpense({ category: "Food", amount: 900 }),
+      makeExpense({ category: "Transport", amount: 600 }),
+    ]
+
+    const progress = calculateBudgetProgress(expenses, categories, "2026-07")
+
+    expect(progress.map((p) => p.category)).toEqual(["Transport", "Food"])
+    expect(progress[0].status).toBe("over")
+    expect(progress[0].remaining).toBe(-100)
+    expect(progress[1].status).toBe("warning")
+  })
+})
+
+describe("getBudgetExpenses", () => {
+  it("counts foreign-currency expenses through their converted amount", () => {
+    const expenses = [
+      makeExpense({ id: "home", currency: "INR", amount: 300 }),
+      makeExpense({ id: "legacy", amount: 100 }),
+      makeExpense({
+        id: "abroad",
+        currency: "USD",
+        amount: 10,
+        convertedAmount: 830,
+        convertedCurrency: "INR",
+      }),
+      makeExpense({ id: "unconverted", currency: "USD", amount: 10 }),
+      makeExpense({
+        id: "other",
+        currency: "USD",
+        amount: 10,
+        convertedAmount: 9,
+        convertedCurrency: "EUR",
+      }),
+    ]
+
+    const budgetExpenses = getBudgetExpenses(expenses, "INR")
+
+    expect(budgetExpenses.map((expense) => expense.id)).toEqual([
+      "home",
+      "legacy",
+      "abroad",
+    ])
+    expect(budgetExpenses[2]).toMatchObject({ amount: 830, currency: "INR" })
+    expect(
+      calculateBudgetProgress(
+        budgetExpenses,
+        [makeCategory({ label: "Food", monthlyBudget: 1000 })],
+        "2026-07"
+      )[0].spent
+    ).toBe(1230)
+  })
+})
@@ -0,0 +1,123 @@
+import { format } from "date-fns"
+import type { Category } from "../../types/category"
+import type { Expense } from "../../types/expense"
+import { getLocalDayKey } from "../date"
+import { getSpendingAmount } from "../transaction-kind"
+
+/** Share of a budget at which a category is flagged as nearing its limit */
+export const BUDGET_WARNING_RATIO = 0.8
+
+export type BudgetStatus = "under" | "warning" | "over"
+
+// Budget progress for a single category within one month
+export interface CategoryBudgetProgress {
+  category: string
+  color: string
+  budget: number
+  spent: number
+  /** budget - spent; negative once the category is over budget */
+  remaining: number
+  /** spent / budget (1 means the budget is exactly used up) */
+  ratio: number
+  status: BudgetStatus
+}
+
+/**
+ * Get the effective monthly budget for a category.
+ * Returns undefined when the category has no (positive) budget set.
+ */
+export function getCategoryBudget(
+  category: Pick<Category, "monthlyBudget"> | undefined
+): number | undefined {
+  const budget = category?.monthlyBudget
+  return typeof budget === "number" && Number.isFinite(budget) && budget > 0
+    ? budget
+    : undefined
+}
+
+/**
+ * Get the local YYYY-MM month key for a date
+ */
+export function getMonthKey(date: Date): string {
+  return format(date, "yyyy-MM")
+}
+
+/**
+ * Classify spending against a budget
+ */
+export function getBudgetStatus(spent: number, budget: number): BudgetStatus {
+  if (spent > budget) return "over"
+  if (spent >= budget * BUDGET_WARNING_RATIO) return "warning"
+  return "under"
+}
+
+/**
+ * Expenses that count towards budgets in `budgetCurrency`, restated in it.
+ * Expenses in another currency count through their stored converted amount
+ * and are left out when they have none in the budget currency. Expenses
+ * without a currency are taken to be in the budget currency.
+ */
+export function getBudgetExpenses(
+  expenses: Expense[],
+  budgetCurrency: string
+): Expense[] {
+  const result: Expense[] = []
+  for (const expense of expenses) {
+    if (!expense.currency || expense.currency === budgetCurrency) {
+      result.push(expense)
+    } else if (
+      expense.convertedCurrency === budgetCurrency &&
+      expense.convertedAmount !== undefined
+    ) {
+      result.push({
+        ...expense,
+        amount: expense.convertedAmount,
+        currency: budgetCurrency,
+      })
+    }
+  }
+  return result
+}
+
+/**
+ * Calculate budget progress for every budgeted category in a month.
+ * Sorted so the categories closest to (or furthest over) their limit come first.
+ */
+export function calculateBudgetProgress(
+  expenses: Expense[],
+  categories: Category[],
+  monthKey: string
+): CategoryBudgetProgress[] {
+  const budgeted = categories.filter((category) => getCategoryBudget(category))
+  if (budgeted.length === 0) return []
+
+  // Single pass: net spending per category for the month (refunds offset it)
+  const totals = new Map<string, number>()
+  for (const expense of expenses) {
+    if (expense.deletedAt) continue
+    try {
+      if (getLocalDayKey(expense.date).slice(0, 7) !== monthKey) continue
+    } catch {
+      continue
+    }
+    const spending = getSpendingAmount(expense)
+    if (spending === 0) continue
+    totals.set(expense.category, (totals.get(expense.category) ?? 0) + spending)
+  }
+
+  return budgeted
+    .map((category) => {
+      const budget = getCategoryBudget(category)!
+      const spent = Math.max(0, totals.get(category.label) ?? 0)
+      return {
+        category: category.label,
+        color: category.color,
+        budget,
+        spent,
+        remaining: budget - spent,
+        ratio: spent / budget,
+        status: getBudgetStatus(spent, budget),
+      }
+    })
+    .sort((a, b) => b.ratio - a.ratio)
+}
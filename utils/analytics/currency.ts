@@ -1,4 +1,7 @@
 import { Expense } from "../../types/expense"
+import { ExchangeRate } from "../../types/exchange-rate"
+import { convertAmount } from "../../services/exchange-rates"
+import { getSpendingAmount } from "../transaction-kind"
 
 /**
  * Group expenses by currency (single pass).
@@ -19,3 +22,129 @@ export function groupExpensesByCurrency(
   }
   return groups
 }
+
+/**
+ * How analytics should convert mixed-currency expenses into one currency
+ */
+export interface ReportingCurrencyOptions {
+  /** Currency every amount is reported in */
+  currency: string
+  rates: ExchangeRate[]
+  /** Currency assumed for legacy expenses that carry none */
+  fallbackCurrency?: string
+}
+
+export interface CurrencyBreakdownItem {
+  currency: string
+  count: number
+  /** Net spending in the original currency */
+  spending: number
+  /** Net spending in the reporting currency, null when a rate is missing */
+  convertedSpending: number | null
+}
+
+function getExpenseCurrency(expense: Expense, options: ReportingCurrencyOptions): string {
+  return expense.currency || options.fallbackCurrency || options.currency
+}
+
+/**
+ * Amount of an expense in the reporting currency, or null when it cannot be
+ * converted. A stored converted amount wins over the rate table.
+ */
+export function getReportingAmount(
+  expense: Expense,
+  options: ReportingCurrencyOptions
+): number | null {
+  const currency = getExpenseCurrency(expense, options)
+  if (currency === options.currency) return expense.amount
+  if (
+    expense.convertedCurrency === options.currency &&
+    expense.convertedAmount !== undefined
+  ) {
+    return expense.convertedAmount
+  }
+  return convertAmount(
+    expense.amount,
+    currency,
+    options.currency,
+    expense.date,
+    options.rates
+  )
+}
+
+/**
+ * Restate expenses in the reporting currency.
+ * Expenses without a usable rate are returned separately instead of being
+ * mixed into the totals.
+ */
+export function convertExpensesToReportingCurrency(
+  expenses: Expense[],
+  options: ReportingCurrencyOptions
+): { converted: Expense[]; unconverted: Expense[] } {
+  const converted: Expense[] = []
+  const unconverted: Expense[] = []
+
+  for (const expense of expenses) {
+    const amount = getReportingAmount(expense, options)
+    if (amount === null) {
+      unconverted.push(expense)
+    } else {
+      converted.push({ ...expense, amount, currency: options.currency })
+    }
+  }
+
+  return { converted, unconverted }
+}
+
+/**
+ * Converted expenses when reporting options are given, otherwise the input as-is
+ */
+export function toReportingCurrency(
+  expenses: Expense[],
+  reporting?: ReportingCurrencyOptions
+): Expense[] {
+  return reporting
+    ? convertExpensesToReportingCurrency(expenses, reporting).converted
+    : expenses
+}
+
+/**
+ * Net spending per original currency alongside its reporting-currency value.
+ * The reporting currency comes first, the rest are sorted by code.
+ */
+export function calculateCurrencyBreakdown(
+  expenses: Expense[],
+  options: ReportingCurrencyOptions
+): CurrencyBreakdownItem[] {
+  const byCurrency = new Map<string, CurrencyBreakdownItem>()
+
+  for (const expense of expenses) {
+    const spending = getSpendingAmount(expense)
+    if (spending === 0) continue
+
+    const currency = getExpenseCurrency(expense, options)
+    const item = byCurrency.get(currency) ?? {
+      currency,
+      count: 0,
+      spending: 0,
+      convertedSpending: 0,
+    }
+    const reportingAmount = getReportingAmount(expense, options)
+    const converted =
+      reportingAmount === null ? null : Math.sign(spending) * Math.abs(reportingAmount)
+
+    item.count += 1
+    item.spending += spending
+    item.convertedSpending =
+      item.convertedSpending === null || converted === null
+        ? null
+        : item.convertedSpending + converted
+    byCurrency.set(currency, item)
+  }
+
+  return Array.from(byCurrency.values()).sort((a, b) => {
+    if (a.currency === options.currency) return -1
+    if (b.currency === options.currency) return 1
+    return a.currency.localeCompare(b.currency)
+  })
+}
@@ -14,6 +14,7 @@ import {
   filterExpensesByCategories,
   filterExpensesByPaymentMethods,
   filterExpensesByAmountRange,
+  filterExpensesByTags,
   makePaymentInstrumentSelectionKey,
 } from "./filters"
 import type { Expense } from "../../types/expense"
@@ -37,6 +38,7 @@ function generateExpense(overrides: Partial<Expense> = {}): Expense {
     note: overrides.note ?? "",
     paymentMethod: overrides.paymentMethod,
     currency: overrides.currency,
+    tags: overrides.tags,
     createdAt: overrides.createdAt || new Date().toISOString(),
     updatedAt: overrides.updatedAt || new Date().toISOString(),
   }
@@ -72,6 +74,7 @@ describe("applyAllFilters", () => {
           selectedCategories: [],
           selectedPaymentMethods: [],
           selectedPaymentInstruments: [],
+          selectedTags: [],
           searchQuery: "",
           minAmount: null,
           maxAmount: null,
@@ -105,6 +108,7 @@ describe("applyAllFilters", () => {
           selectedCategories: [],
           selectedPaymentMethods: [],
           selectedPaymentInstruments: [],
+          selectedTags: [],
           searchQuery: "",
           minAmount: null,
           maxAmount: null,
@@ -138,6 +142,7 @@ describe("applyAllFilters", () => {
             selectedCategories: [targetCategory],
             selectedPaymentMethods: [],
             selectedPaymentInstruments: [],
+            selectedTags: [],
             searchQuery: "",
             minAmount: null,
             maxAmount: null,
@@ -178,6 +183,7 @@ describe("applyAllFilters", () => {
             selectedCategories: [],
             selectedPaymentMethods: [],
             selectedPaymentInstruments: [],
+            selectedTags: [],
             searchQuery: "",
             minAmount,
             maxAmount,
@@ -222,6 +228,7 @@ describe("applyAllFilters", () => {
             selectedCategories: [targetCategory],
             selectedPaymentMethods: [],
             selectedPaymentInstruments: [],
+            selectedTags: [],
             searchQuery: "",
             minAmount,
             maxAmount,
@@ -246,6 +253,34 @@ describe("applyAllFilters", () => {
       { numRuns: 100 }
     )
   })
+
+  it("should filter by tags and match tags in search", () => {
+    const expenses = [
+      generateExpense({ id: "work", tags: ["work"] }),
+      generateExpense({ id: "gift", tags: ["gift"] }),
+      generateExpense({ id: "none" }),
+    ]
+    const filterState: FilterState = {
+      timeWindow: "all",
+      selectedMonth: null,
+      selectedCategories: [],
+      selectedPaymentMethods: [],
+      selectedPaymentInstruments: [],
+      selectedTags: ["work"],
+      searchQuery: "",
+      minAmount: null,
+      maxAmount: null,
+    }
+
+    expect(applyAllFilters(expenses, filterState, []).map((e) => e.id)).toEqual(["work"])
+    expect(
+      applyAllFilters(
+        expenses,
+        { ...filterState, selectedTags: [], searchQuery: "gif" },
+        []
+      ).map((e) => e.id)
+    ).toEqual(["gift"])
+  })
 })
 
 describe("resolveInstrumentKeyForExpense", () => {
@@ -332,6 +367,28 @@ describe("filterExpensesByCategories", () => {
   })
 })
 
+describe("filterExpensesByTags", () => {
+  it("should return all expenses when no tags selected", () => {
+    const expenses = [generateExpense({ tags: ["work"] }), generateExpense()]
+
+    const result = filterExpensesByTags(expenses, [])
+
+    expect(result).toEqual(expenses)
+  })
+
+  it("should include expenses carrying any selected tag", () => {
+    const expenses = [
+      generateExpense({ id: "work", tags: ["work", "lunch"] }),
+      generateExpense({ id: "gift", tags: ["gift"] }),
+      generateExpense({ id: "none" }),
+    ]
+
+    const result = filterExpensesByTags(expenses, ["lunch", "gift"])
+
+    expect(result.map((e) => e.id)).toEqual(["work", "gift"])
+  })
+})
+
 describe("filterExpensesByPaymentMethods", () => {
   it("should return all expenses when no methods selected", () => {
     const expenses = [generateExpense(), generateExpense(), generateExpense()]
@@ -7,6 +7,7 @@ import {
   isPaymentInstrumentMethod,
   findInstrumentById,
 } from "../../services/payment-instruments"
+import { getExpenseTags } from "../tags"
 
 export type PaymentInstrumentSelectionKey = string
 
@@ -89,6 +90,25 @@ export function filterExpensesByCategories(
   return expenses.filter((expense) => selection.has(expense.category))
 }
 
+/**
+ * Filter expenses by selected tags.
+ * Empty selection means "All"; otherwise an expense matches when it carries
+ * any of the selected tags.
+ */
+export function filterExpensesByTags(
+  expenses: Expense[],
+  selectedTags: string[]
+): Expense[] {
+  if (selectedTags.length === 0) {
+    return expenses
+  }
+
+  const selection = new Set(selectedTags)
+  return expenses.filter((expense) =>
+    getExpenseTags(expense).some((tag) => selection.has(tag))
+  )
+}
+
 /**
  * Filter expenses by selected payment methods.
  * Empty selection means "All".
@@ -132,6 +152,7 @@ export interface FilterState {
   selectedCategories: string[]
   selectedPaymentMethods: PaymentMethodSelectionKey[]
   selectedPaymentInstruments: PaymentInstrumentSelectionKey[]
+  selectedTags: string[]
   searchQuery: string
   minAmount: number | null
   maxAmount: number | null
@@ -167,7 +188,7 @@ function getInstrumentKeyWithMap(
 
 /**
  * Check if expense matches search query
- * Searches: note, category, payment method, instrument nickname
+ * Searches: note, category, tags, payment method, instrument nickname
  */
 function matchesSearch(
   expense: Expense,
@@ -182,6 +203,9 @@ function matchesSearch(
   // Check category
   if (expense.category.toLowerCase().includes(lowerQuery)) return true
 
+  // Check tags (stored lowercase)
+  if (getExpenseTags(expense).some((tag) => tag.includes(lowerQuery))) return true
+
   // Check payment method
   const method = expense.paymentMethod?.type
   if (method?.toLowerCase().includes(lowerQuery)) return true
@@ -238,7 +262,7 @@ function isExpenseInTimeWindow(
  *
  * Performance optimizations:
  * - Single pass through expenses (O(n))
- * - Set lookups for O(1) category/method/instrument checks
+ * - Set lookups for O(1) category/method/instrument/tag checks
  * - Cached instrument Map for O(1) lookups
  * - Search performed last (most expensive check)
  *
@@ -259,6 +283,7 @@ export function applyAllFilters(
     filters.selectedCategories.length > 0 ||
     filters.selectedPaymentMethods.length > 0 ||
     filters.selectedPaymentInstruments.length > 0 ||
+    filters.selectedTags.length > 0 ||
     filters.searchQuery.trim().length > 0 ||
     filters.minAmount !== null ||
     filters.maxAmount !== null
@@ -269,6 +294,7 @@ export function applyAllFilters(
   const categorySet = new Set(filters.selectedCategories)
   const methodSet = new Set(filters.selectedPaymentMethods)
   const instrumentSet = new Set(filters.selectedPaymentInstruments)
+  const tagSet = new Set(filters.selectedTags)
 
   // Build instrument lookup Map (cached)
   const instrumentMap = buildInstrumentMap(instruments)
@@ -307,7 +333,12 @@ export function applyAllFilters(
       if (!instrumentSet.has(key)) return false
     }
 
-    // 6. Search check (most expensive, do last)
+    // 6. Tag check (any selected tag matches)
+    if (tagSet.size > 0) {
+      if (!getExpenseTags(expense).some((tag) => tagSet.has(tag))) return false
+    }
+
+    // 7. Search check (most expensive, do last)
     if (hasSearch) {
       if (!matchesSearch(expense, searchLower, instrumentMap)) return false
     }
@@ -4,3 +4,4 @@ export * from "./filters"
 export * from "./currency"
 export * from "./aggregations"
 export * from "./statistics"
+export * from "./budgets"
@@ -1,15 +1,19 @@
 import { calculateStatistics } from "./statistics"
 import type { Expense } from "../../types/expense"
+import type { ExchangeRate } from "../../types/exchange-rate"
 
 function makeExpense(overrides: Partial<Expense> = {}): Expense {
   return {
     id: overrides.id ?? `exp-${Math.random().toString(36).slice(2, 9)}`,
     amount: overrides.amount ?? 100,
+    kind: overrides.kind,
     category: overrides.category ?? "Food",
     date: overrides.date ?? new Date().toISOString(),
     note: overrides.note ?? "",
     paymentMethod: overrides.paymentMethod,
     currency: overrides.currency,
+    convertedAmount: overrides.convertedAmount,
+    convertedCurrency: overrides.convertedCurrency,
     createdAt: overrides.createdAt || new Date().toISOString(),
     updatedAt: overrides.updatedAt || new Date().toISOString(),
   }
@@ -56,6 +60,98 @@ describe("calculateStatistics", () => {
     expect(stats.highestDay).toBeNull()
   })
 
+  describe("transaction kinds", () => {
+    const expenses = [
+      makeExpense({ category: "Food", amount: 500 }),
+      makeExpense({ category: "Food", amount: 200, kind: "refund" }),
+      makeExpense({ category: "Salary", amount: 3000, kind: "income" }),
+      makeExpense({ category: "Savings", amount: 1000, kind: "transfer" }),
+    ]
+
+    it("nets refunds against spending and excludes income and transfers", () => {
+      const stats = calculateStatistics(expenses, 7)
+      expect(stats.totalSpending).toBe(300)
+      expect(stats.grossSpending).toBe(500)
+      expect(stats.totalRefunds).toBe(200)
+      expect(stats.totalIncome).toBe(3000)
+      expect(stats.highestCategory).toEqual({ category: "Food", amount: 300 })
+    })
+
+    it("computes net cash flow without transfers", () => {
+      const stats = calculateStatistics(expenses, 7)
+      expect(stats.netCashFlow).toBe(3000 + 200 - 500)
+    })
+
+    it("uses net spending for the full-period total", () => {
+      const stats = calculateStatistics(expenses.slice(0, 1), 7, expenses)
+      expect(stats.fullPeriodTotalSpending).toBe(300)
+    })
+  })
+
+  describe("reporting currency", () => {
+    const rates: ExchangeRate[] = [
+      {
+        id: "usd-inr",
+        from: "USD",
+        to: "INR",
+        rate: 80,
+        effectiveDate: "2024-01-01",
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-01-01T00:00:00.000Z",
+      },
+    ]
+    const reporting = { currency: "INR", rates, fallbackCurrency: "INR" }
+    const date = new Date(2024, 5, 1).toISOString()
+
+    it("converts other currencies before totalling", () => {
+      const expenses = [
+        makeExpense({ amount: 100, currency: "INR", date }),
+        makeExpense({ amount: 10, currency: "USD", date }),
+      ]
+      const stats = calculateStatistics(expenses, 7, undefined, reporting)
+      expect(stats.totalSpending).toBe(900)
+      expect(stats.unconvertedCount).toBe(0)
+    })
+
+    it("prefers the stored converted amount over the rate table", () => {
+      const expenses = [
+        makeExpense({
+          amount: 10,
+          currency: "USD",
+          convertedAmount: 850,
+          convertedCurrency: "INR",
+          date,
+        }),
+      ]
+      const stats = calculateStatistics(expenses, 7, undefined, reporting)
+      expect(stats.totalSpending).toBe(850)
+    })
+
+    it("leaves out and counts expenses without a known rate", () => {
+      const expenses = [
+        makeExpense({ amount: 100, currency: "INR", date }),
+        makeExpense({ amount: 10, currency: "EUR", date }),
+      ]
+      const stats = calculateStatistics(expenses, 7, undefined, reporting)
+      expect(stats.totalSpending).toBe(100)
+      expect(stats.unconvertedCount).toBe(1)
+    })
+
+    it("reports a per-currency breakdown led by the reporting currency, then by code", () => {
+      const expenses = [
+        makeExpense({ amount: 10, currency: "USD", date }),
+        makeExpense({ amount: 100, currency: "INR", date }),
+        makeExpense({ amount: 5, currency: "EUR", date }),
+      ]
+      const stats = calculateStatistics(expenses, 7, undefined, reporting)
+      expect(stats.currencyBreakdown).toEqual([
+        { currency: "INR", count: 1, spending: 100, convertedSpending: 100 },
+        { currency: "EUR", count: 1, spending: 5, convertedSpending: null },
+        { currency: "USD", count: 1, spending: 10, convertedSpending: 800 },
+      ])
+    })
+  })
+
   describe("fullPeriodTotalSpending", () => {
     it("is unset when no full-period expenses are provided", () => {
       const stats = calculateStatistics([makeExpense({ amount: 100 })], 7)
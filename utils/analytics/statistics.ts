@@ -1,9 +1,28 @@
-import { Expense } from "../../types/expense"
+import { Expense, TransactionKind } from "../../types/expense"
 import { getLocalDayKey } from "../date"
+import {
+  getCashFlowAmount,
+  getSpendingAmount,
+  getTransactionKind,
+} from "../transaction-kind"
+import {
+  CurrencyBreakdownItem,
+  ReportingCurrencyOptions,
+  calculateCurrencyBreakdown,
+  convertExpensesToReportingCurrency,
+  toReportingCurrency,
+} from "./currency"
 
 // Analytics statistics
 export interface AnalyticsStatistics {
+  /** Net spend: expenses minus refunds (income and transfers excluded) */
   totalSpending: number
+  /** Expenses only, before refunds */
+  grossSpending: number
+  totalRefunds: number
+  totalIncome: number
+  /** Income and refunds minus expenses (transfers excluded) */
+  netCashFlow: number
   averageDaily: number
   highestCategory: {
     category: string
@@ -15,25 +34,56 @@ export interface AnalyticsStatistics {
   } | null
   daysInPeriod: number
   fullPeriodTotalSpending?: number
+  /** Per-currency spending, set when reporting in one currency */
+  currencyBreakdown?: CurrencyBreakdownItem[]
+  /** Expenses left out of the totals because no exchange rate was known */
+  unconvertedCount?: number
+}
+
+function sumSpending(expenses: Expense[]): number {
+  return expenses.reduce((sum, expense) => sum + getSpendingAmount(expense), 0)
+}
+
+function sumKind(expenses: Expense[], kind: TransactionKind): number {
+  return expenses.reduce(
+    (sum, expense) =>
+      getTransactionKind(expense) === kind ? sum + Math.abs(expense.amount) : sum,
+    0
+  )
 }
 
 /**
  * Calculate summary statistics for expenses.
  *
+ * Spending figures follow the transaction kind: refunds offset spending,
+ * income and transfers never count as spending.
+ *
  * @param expenses expenses after all filters (headline values)
  * @param daysInPeriod number of days in the period
  * @param fullPeriodExpenses optional expenses for the whole period (all
  *   currency expenses, ignoring every filter including the time window). When
  *   provided, `fullPeriodTotalSpending` is set from their total.
+ * @param reporting optional reporting currency; when set, every amount is
+ *   converted into it and a per-currency breakdown is included
  */
 export function calculateStatistics(
-  expenses: Expense[],
+  inputExpenses: Expense[],
   daysInPeriod: number,
-  fullPeriodExpenses?: Expense[]
+  fullPeriodExpenses?: Expense[],
+  reporting?: ReportingCurrencyOptions
 ): AnalyticsStatistics {
-  // Calculate total spending
-  const totalSpending = expenses.reduce(
-    (sum, expense) => sum + Math.abs(expense.amount),
+  const conversion = reporting
+    ? convertExpensesToReportingCurrency(inputExpenses, reporting)
+    : null
+  const expenses = conversion ? conversion.converted : inputExpenses
+
+  // Calculate total (net) spending and the cash flow breakdown
+  const totalSpending = sumSpending(expenses)
+  const grossSpending = sumKind(expenses, "expense")
+  const totalRefunds = sumKind(expenses, "refund")
+  const totalIncome = sumKind(expenses, "income")
+  const netCashFlow = expenses.reduce(
+    (sum, expense) => sum + getCashFlowAmount(expense),
     0
   )
 
@@ -43,12 +93,15 @@ export function calculateStatistics(
   // Find highest spending category
   const categoryTotals = new Map<string, number>()
   for (const expense of expenses) {
+    const spending = getSpendingAmount(expense)
+    if (spending === 0) continue
     const current = categoryTotals.get(expense.category) ?? 0
-    categoryTotals.set(expense.category, current + Math.abs(expense.amount))
+    categoryTotals.set(expense.category, current + spending)
   }
 
   let highestCategory: { category: string; amount: number } | null = null
   for (const [category, amount] of categoryTotals) {
+    if (amount <= 0) continue
     if (!highestCategory || amount > highestCategory.amount) {
       highestCategory = { category, amount }
     }
@@ -57,10 +110,12 @@ export function calculateStatistics(
   // Find highest spending day
   const dailyTotals = new Map<string, number>()
   for (const expense of expenses) {
+    const spending = getSpendingAmount(expense)
+    if (spending === 0) continue
     try {
       const dayKey = getLocalDayKey(expense.date)
       const current = dailyTotals.get(dayKey) ?? 0
-      dailyTotals.set(dayKey, current + Math.abs(expense.amount))
+      dailyTotals.set(dayKey, current + spending)
     } catch {
       // Skip invalid dates
     }
@@ -68,6 +123,7 @@ export function calculateStatistics(
 
   let highestDay: { date: string; amount: number } | null = null
   for (const [date, amount] of dailyTotals) {
+    if (amount <= 0) continue
     if (!highestDay || amount > highestDay.amount) {
       highestDay = { date, amount }
     }
@@ -75,17 +131,26 @@ export function calculateStatistics(
 
   return {
     totalSpending,
+    grossSpending,
+    totalRefunds,
+    totalIncome,
+    netCashFlow,
     averageDaily,
     highestCategory,
     highestDay,
     daysInPeriod,
     ...(fullPeriodExpenses
       ? {
-          fullPeriodTotalSpending: fullPeriodExpenses.reduce(
-            (sum, expense) => sum + Math.abs(expense.amount),
-            0
+          fullPeriodTotalSpending: sumSpending(
+            toReportingCurrency(fullPeriodExpenses, reporting)
           ),
         }
       : {}),
+    ...(conversion && reporting
+      ? {
+          currencyBreakdown: calculateCurrencyBreakdown(inputExpenses, reporting),
+          unconvertedCount: conversion.unconverted.length,
+        }
+      : {}),
   }
 }
@@ -0,0 +1,84 @@
+import {
+  createAttachmentName,
+  findOrphanedAttachments,
+  getAttachmentNameFromPath,
+  getAttachmentPath,
+  getReferencedAttachments,
+  isAttachmentName,
+  parseAttachmentList,
+  planAttachmentSync,
+  toStoredAttachments,
+} from "./attachments"
+
+describe("attachments", () => {
+  it("creates safe unique names keeping the extension", () => {
+    const name = createAttachmentName(".JPEG", 0)
+    expect(name).toMatch(/^0-[a-z0-9]+\.jpeg$/)
+    expect(isAttachmentName(name)).toBe(true)
+    expect(createAttachmentName("")).toMatch(/\.jpg$/)
+    expect(createAttachmentName("png")).not.toBe(createAttachmentName("png"))
+  })
+
+  it("maps names to repository paths and back", () => {
+    expect(getAttachmentPath("a1.png")).toBe("attachments/a1.png")
+    expect(getAttachmentNameFromPath("attachments/a1.png")).toBe("a1.png")
+    expect(getAttachmentNameFromPath("expenses-2024-01-01.csv")).toBeNull()
+    expect(getAttachmentNameFromPath("attachments/nested/a1.png")).toBeNull()
+  })
+
+  it("drops invalid names and duplicates when parsing", () => {
+    expect(parseAttachmentList("a.jpg| b.png |a.jpg|../x.jpg|")).toEqual([
+      "a.jpg",
+      "b.png",
+    ])
+    expect(parseAttachmentList(undefined)).toEqual([])
+  })
+
+  it("leaves an empty attachment list unset for storage", () => {
+    expect(toStoredAttachments([])).toBeUndefined()
+    expect(toStoredAttachments(undefined)).toBeUndefined()
+    expect(toStoredAttachments(["a.jpg", "a.jpg"])).toEqual(["a.jpg"])
+  })
+
+  it("finds attachments no live expense points at", () => {
+    const expenses = [
+      { attachments: ["c.jpg", "shared.jpg"], deletedAt: "2024-01-02T00:00:00Z" },
+      { attachments: ["shared.jpg"] },
+      { attachments: ["b.jpg"], deletedAt: "2024-01-03T00:00:00Z" },
+    ]
+
+    expect(findOrphanedAttachments(expenses, getReferencedAttachments(expenses))).toEqual(
+      ["b.jpg", "c.jpg"]
+    )
+    // Removed from a live expense without deleting it
+    expect(findOrphanedAttachments(expenses, ["removed.jpg", "shared.jpg"])).toEqual([
+      "removed.jpg",
+    ])
+  })
+
+  describe("planAttachmentSync", () => {
+    const expenses = [
+      { attachments: ["live.jpg", "remote.jpg", "elsewhere.jpg"] },
+      {
+        attachments: ["gone.jpg", "never-pushed.jpg"],
+        deletedAt: "2024-01-02T00:00:00Z",
+      },
+    ]
+    const remote = new Set(["remote.jpg", "gone.jpg", "unlinked.jpg"])
+    const local = (name: string) => name !== "elsewhere.jpg"
+
+    it("uploads local live attachments missing remotely", () => {
+      expect(planAttachmentSync(expenses, remote, local, true)).toEqual({
+        uploads: ["live.jpg"],
+        deletions: ["gone.jpg", "unlinked.jpg"],
+      })
+    })
+
+    it("still removes orphans when uploads are off", () => {
+      expect(planAttachmentSync(expenses, remote, local, false)).toEqual({
+        uploads: [],
+        deletions: ["gone.jpg", "unlinked.jpg"],
+      })
+    })
+  })
+})
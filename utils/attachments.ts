@@ -0,0 +1,154 @@
+import { Expense } from "../types/expense"
+
+/** Folder holding attachment files, both on-device and in the sync repo */
+export const ATTACHMENTS_DIRECTORY = "attachments"
+
+/** Separator used when an attachment list is stored in a single CSV cell */
+export const ATTACHMENT_SEPARATOR = "|"
+
+/** Image types accepted as receipts */
+export const ATTACHMENT_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+]
+
+// Generated names only: no folders, spaces or separators, so a name is also a
+// safe path segment and survives a CSV round-trip
+const ATTACHMENT_NAME_PATTERN = /^[a-z0-9-]+\.[a-z0-9]+$/
+
+/**
+ * Whether a string is a valid attachment file name
+ */
+export function isAttachmentName(name: string): boolean {
+  return ATTACHMENT_NAME_PATTERN.test(name)
+}
+
+/**
+ * Create a unique attachment file name keeping the picked file's extension
+ */
+export function createAttachmentName(
+  extension: string,
+  now: number = Date.now()
+): string {
+  const ext = extension
+    .replace(/^\./, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+  const random = Math.random().toString(36).slice(2, 10)
+  return `${now.toString(36)}-${random}.${ext || "jpg"}`
+}
+
+/**
+ * Repository path of an attachment (e.g. "attachments/abc.jpg")
+ */
+export function getAttachmentPath(name: string): string {
+  return `${ATTACHMENTS_DIRECTORY}/${name}`
+}
+
+/**
+ * Attachment file name for a repository path, or null for other files
+ */
+export function getAttachmentNameFromPath(path: string): string | null {
+  const prefix = `${ATTACHMENTS_DIRECTORY}/`
+  if (!path.startsWith(prefix)) return null
+  const name = path.slice(prefix.length)
+  return isAttachmentName(name) ? name : null
+}
+
+/**
+ * Attachments of an expense (records without attachments have none)
+ */
+export function getExpenseAttachments(expense: Pick<Expense, "attachments">): string[] {
+  return expense.attachments ?? []
+}
+
+/**
+ * Parse a stored attachment list, dropping invalid names and duplicates
+ */
+export function parseAttachmentList(text: string | undefined): string[] {
+  if (!text) return []
+  const names = text
+    .split(ATTACHMENT_SEPARATOR)
+    .map((name) => name.trim())
+    .filter(isAttachmentName)
+  return Array.from(new Set(names))
+}
+
+/**
+ * Normalize attachments for storage: an empty list is left unset so records
+ * and CSV rows without receipts stay unchanged.
+ */
+export function toStoredAttachments(
+  names: readonly string[] | undefined
+): string[] | undefined {
+  const unique = Array.from(new Set((names ?? []).filter(isAttachmentName)))
+  return unique.length > 0 ? unique : undefined
+}
+
+/**
+ * Attachments among `names` that no live expense points at any more, because
+ * their expense was deleted or the receipt was removed from it. They are
+ * safe to remove.
+ */
+export function findOrphanedAttachments(
+  expenses: Pick<Expense, "attachments" | "deletedAt">[],
+  names: Iterable<string>
+): string[] {
+  const live = new Set<string>()
+  for (const expense of expenses) {
+    if (expense.deletedAt) continue
+    for (const name of getExpenseAttachments(expense)) {
+      live.add(name)
+    }
+  }
+  return Array.from(new Set(names))
+    .filter((name) => !live.has(name))
+    .sort()
+}
+
+/**
+ * Every attachment the given expenses point at, deleted ones included
+ */
+export function getReferencedAttachments(
+  expenses: Pick<Expense, "attachments">[]
+): Set<string> {
+  return new Set(expenses.flatMap(getExpenseAttachments))
+}
+
+/** Attachment files to push to, and remove from, the sync repo */
+export interface AttachmentSyncPlan {
+  uploads: string[]
+  deletions: string[]
+}
+
+/**
+ * Decide which attachment files to change in the next sync commit.
+ *
+ * Live attachments present on this device but missing remotely are uploaded
+ * (only when `includeUploads` is set); remote attachments no live expense
+ * points at are removed.
+ */
+export function planAttachmentSync(
+  expenses: Pick<Expense, "attachments" | "deletedAt">[],
+  remoteNames: ReadonlySet<string>,
+  hasLocalFile: (name: string) => boolean,
+  includeUploads: boolean
+): AttachmentSyncPlan {
+  const uploads = new Set<string>()
+  if (includeUploads) {
+    for (const expense of expenses) {
+      if (expense.deletedAt) continue
+      for (const name of getExpenseAttachments(expense)) {
+        if (!remoteNames.has(name) && hasLocalFile(name)) {
+          uploads.add(name)
+        }
+      }
+    }
+  }
+
+  const deletions = findOrphanedAttachments(expenses, remoteNames)
+
+  return { uploads: Array.from(uploads).sort(), deletions }
+}
@@ -0,0 +1,143 @@
+import * as nodeCrypto from "crypto"
+import { getRandomBytes } from "expo-crypto"
+import {
+  aes256Ctr,
+  base64ToBytes,
+  bytesToBase64,
+  decryptBytesWithKeys,
+  decryptWithKeys,
+  decryptWithPassword,
+  deriveKeysFromPassword,
+  encryptBytesWithKeys,
+  encryptWithKeys,
+  encryptWithPassword,
+  isSupportedIterationCount,
+  MAX_PBKDF2_ITERATIONS,
+  PBKDF2_ITERATIONS,
+  randomBytes,
+  utf8Decode,
+  utf8Encode,
+} from "./crypto"
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex")
+
+describe("crypto primitives", () => {
+  it("derives the same keys as Node's PBKDF2 and HMAC", async () => {
+    const salt = new Uint8Array(nodeCrypto.randomBytes(16))
+    const master = nodeCrypto.pbkdf2Sync("correct horse", salt, 1000, 32, "sha256")
+    const hmac = (label: string) =>
+      nodeCrypto.createHmac("sha256", master).update(label).digest("hex")
+
+    const keys = await deriveKeysFromPassword("correct horse", salt, 1000)
+
+    expect(toHex(keys.encryptionKey)).toBe(hmac("encryption"))
+    expect(toHex(keys.macKey)).toBe(hmac("authentication"))
+  })
+
+  it("throws instead of falling back when there is no secure random generator", () => {
+    jest.mocked(getRandomBytes).mockImplementationOnce(() => {
+      throw new Error("Cannot find native module 'ExpoCrypto'")
+    })
+
+    expect(() => randomBytes(16)).toThrow("ExpoCrypto")
+    expect(randomBytes(16)).toHaveLength(16)
+  })
+
+  it("matches Node's AES-256-CTR, including counter carry", () => {
+    const key = new Uint8Array(nodeCrypto.randomBytes(32))
+    const iv = new Uint8Array(16).fill(0xff)
+    iv[0] = 7
+    const data = new Uint8Array(nodeCrypto.randomBytes(100))
+
+    const cipher = nodeCrypto.createCipheriv("aes-256-ctr", key, iv)
+    const expected = Buffer.concat([cipher.update(data), cipher.final()])
+    const encrypted = aes256Ctr(key, iv, data)
+
+    expect(toHex(encrypted)).toBe(expected.toString("hex"))
+    expect(toHex(aes256Ctr(key, iv, encrypted))).toBe(toHex(data))
+  })
+
+  it("round-trips UTF-8 and base64", () => {
+    const text = "Chai ₹20 — お茶 🍵"
+    expect(utf8Decode(utf8Encode(text))).toBe(text)
+    expect(Buffer.from(utf8Encode(text)).toString("utf8")).toBe(text)
+
+    const bytes = new Uint8Array(nodeCrypto.randomBytes(50))
+    expect(bytesToBase64(bytes)).toBe(Buffer.from(bytes).toString("base64"))
+    expect(toHex(base64ToBytes(bytesToBase64(bytes)))).toBe(toHex(bytes))
+  })
+})
+
+describe("password envelopes", () => {
+  it("decrypts with the right password only", async () => {
+    const envelope = await encryptWithPassword("secret ledger", "hunter2")
+
+    expect(envelope.data).not.toContain("secret")
+    expect(await decryptWithPassword(envelope, "hunter2")).toBe("secret ledger")
+    expect(await decryptWithPassword(envelope, "hunter3")).toBeNull()
+  })
+
+  it("rejects tampered data", async () => {
+    const envelope = await encryptWithPassword("secret ledger", "hunter2")
+    const data = base64ToBytes(envelope.data)
+    data[0] ^= 1
+
+    expect(
+      await decryptWithPassword({ ...envelope, data: bytesToBase64(data) }, "hunter2")
+    ).toBe(null)
+    expect(
+      await decryptWithPassword(
+        { ...envelope, iterations: PBKDF2_ITERATIONS + 1 },
+        "hunter2"
+      )
+    ).toBeNull()
+  })
+
+  it("refuses work factors outside the supported range before deriving keys", async () => {
+    const envelope = await encryptWithPassword("secret ledger", "hunter2", 10)
+
+    expect(await decryptWithPassword(envelope, "hunter2")).toBeNull()
+    expect(
+      await decryptWithPassword({ ...envelope, iterations: 1_000_000_000 }, "hunter2")
+    ).toBeNull()
+    expect(isSupportedIterationCount(PBKDF2_ITERATIONS)).toBe(true)
+    expect(isSupportedIterationCount(MAX_PBKDF2_ITERATIONS + 1)).toBe(false)
+  })
+
+  it("uses a fresh salt and IV each time", async () => {
+    const a = await encryptWithPassword("same", "pw", 10)
+    const b = await encryptWithPassword("same", "pw", 10)
+    expect(a.salt).not.toBe(b.salt)
+    expect(a.iv).not.toBe(b.iv)
+  })
+})
+
+describe("key envelopes", () => {
+  const salt = new Uint8Array(16).fill(7)
+
+  it("decrypts with the same derived keys only", async () => {
+    const keys = await deriveKeysFromPassword("hunter2", salt, 10)
+    const envelope = encryptWithKeys("id,amount\n1,20", keys)
+
+    expect(
+      decryptWithKeys(envelope, await deriveKeysFromPassword("hunter2", salt, 10))
+    ).toBe("id,amount\n1,20")
+    expect(
+      decryptWithKeys(envelope, await deriveKeysFromPassword("hunter3", salt, 10))
+    ).toBeNull()
+    expect(encryptWithKeys("id,amount\n1,20", keys).iv).not.toBe(envelope.iv)
+  })
+
+  it("encrypts bytes and rejects them once tampered with", async () => {
+    const keys = await deriveKeysFromPassword("hunter2", salt, 10)
+    const bytes = new Uint8Array([0xff, 0xd8, 0xff, 0x00, 0x10])
+    const sealed = encryptBytesWithKeys(bytes, keys)
+
+    expect(sealed).toHaveLength(16 + bytes.length + 32)
+    expect(decryptBytesWithKeys(sealed, keys)).toEqual(bytes)
+
+    sealed[16] ^= 1
+    expect(decryptBytesWithKeys(sealed, keys)).toBeNull()
+    expect(decryptBytesWithKeys(new Uint8Array(10), keys)).toBeNull()
+  })
+})
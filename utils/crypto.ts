@@ -0,0 +1,372 @@
+/**
+ * Password-based encryption
+ *
+ * React Native has no Web Crypto. Random bytes come from the platform's
+ * secure generator through expo-crypto, SHA-256, HMAC and PBKDF2 from
+ * @noble/hashes and AES-256-CTR from @noble/ciphers. encryptWithPassword
+ * combines them as encrypt-then-MAC.
+ */
+
+import { getRandomBytes } from "expo-crypto"
+import { ctr } from "@noble/ciphers/aes"
+import { hmac } from "@noble/hashes/hmac"
+import { pbkdf2Async } from "@noble/hashes/pbkdf2"
+import { sha256 } from "@noble/hashes/sha2"
+
+/** Default PBKDF2 work factor; stored with each envelope so it can be raised later */
+export const PBKDF2_ITERATIONS = 100_000
+
+/**
+ * Highest work factor accepted from a file. The count is read before the MAC
+ * can be checked, so a crafted file could otherwise hang the device.
+ */
+export const MAX_PBKDF2_ITERATIONS = PBKDF2_ITERATIONS * 10
+
+/**
+ * Whether a work factor read from a file is one this app would have written
+ */
+export function isSupportedIterationCount(iterations: number): boolean {
+  return (
+    Number.isInteger(iterations) &&
+    iterations >= PBKDF2_ITERATIONS &&
+    iterations <= MAX_PBKDF2_ITERATIONS
+  )
+}
+
+const SALT_BYTES = 16
+const IV_BYTES = 16
+const KEY_BYTES = 32
+
+// ---------------------------------------------------------------------------
+// Encoding helpers
+// ---------------------------------------------------------------------------
+
+export function utf8Encode(text: string): Uint8Array {
+  const binary = unescape(encodeURIComponent(text))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export function utf8Decode(bytes: Uint8Array): string {
+  return decodeURIComponent(escape(bytesToBinary(bytes)))
+}
+
+function bytesToBinary(bytes: Uint8Array): string {
+  // Chunked to stay below the engine's argument limit
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return binary
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(bytesToBinary(bytes))
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+/** Compare without an early exit, so timing does not reveal the mismatch position */
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i]
+  }
+  return diff === 0
+}
+
+/**
+ * Random bytes from the platform's secure generator. Throws when it is not
+ * available rather than producing guessable salts, IVs or IDs.
+ */
+export function randomBytes(length: number): Uint8Array {
+  const bytes = getRandomBytes(length)
+  if (bytes.length !== length) {
+    throw new Error("Secure random number generator is not available")
+  }
+  return bytes
+}
+
+function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  return hmac(sha256, key, data)
+}
+
+// ---------------------------------------------------------------------------
+// AES-256-CTR
+// ---------------------------------------------------------------------------
+
+/**
+ * AES-256-CTR with a 16-byte initial counter block. The same call encrypts
+ * and decrypts.
+ */
+export function aes256Ctr(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Uint8Array {
+  if (iv.length !== IV_BYTES) {
+    throw new Error("AES-CTR needs a 16-byte IV")
+  }
+  return ctr(key, iv).encrypt(data)
+}
+
+// ---------------------------------------------------------------------------
+// Password envelopes
+// ---------------------------------------------------------------------------
+
+/** Encrypted text plus everything needed to decrypt it given the password */
+export interface PasswordEnvelope {
+  kdf: "pbkdf2-sha256"
+  iterations: number
+  /** base64 */
+  salt: string
+  /** base64 */
+  iv: string
+  /** base64 ciphertext */
+  data: string
+  /** base64 HMAC-SHA256 over iterations, salt, iv and ciphertext */
+  mac: string
+}
+
+/** AES and HMAC keys derived from one password */
+export interface DerivedKeys {
+  encryptionKey: Uint8Array
+  macKey: Uint8Array
+}
+
+/**
+ * Derive the encryption and MAC keys for a password. PBKDF2 is slow on
+ * purpose, so it yields to the event loop while running; callers encrypting
+ * many items derive once and reuse the keys.
+ */
+export async function deriveKeysFromPassword(
+  password: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<DerivedKeys> {
+  const master = await pbkdf2Async(sha256, utf8Encode(password), salt, {
+    c: iterations,
+    dkLen: KEY_BYTES,
+  })
+  return {
+    encryptionKey: hmacSha256(master, utf8Encode("encryption")),
+    macKey: hmacSha256(master, utf8Encode("authentication")),
+  }
+}
+
+function computeEnvelopeMac(
+  macKey: Uint8Array,
+  iterations: number,
+  salt: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array
+): Uint8Array {
+  return hmacSha256(
+    macKey,
+    concatBytes(utf8Encode(`${iterations}:`), salt, iv, ciphertext)
+  )
+}
+
+/**
+ * Encrypt text with a password (PBKDF2 key, AES-256-CTR, HMAC-SHA256)
+ */
+export async function encryptWithPassword(
+  plaintext: string,
+  password: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<PasswordEnvelope> {
+  const salt = randomBytes(SALT_BYTES)
+  const iv = randomBytes(IV_BYTES)
+  const { encryptionKey, macKey } = await deriveKeysFromPassword(
+    password,
+    salt,
+    iterations
+  )
+  const ciphertext = aes256Ctr(encryptionKey, iv, utf8Encode(plaintext))
+
+  return {
+    kdf: "pbkdf2-sha256",
+    iterations,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(ciphertext),
+    mac: bytesToBase64(computeEnvelopeMac(macKey, iterations, salt, iv, ciphertext)),
+  }
+}
+
+/**
+ * Decrypt an envelope. Returns null when the password is wrong, the data has
+ * been tampered with or its work factor is out of range.
+ */
+export async function decryptWithPassword(
+  envelope: PasswordEnvelope,
+  password: string
+): Promise<string | null> {
+  if (!isSupportedIterationCount(envelope.iterations)) {
+    return null
+  }
+  try {
+    const salt = base64ToBytes(envelope.salt)
+    const iv = base64ToBytes(envelope.iv)
+    const ciphertext = base64ToBytes(envelope.data)
+    const { encryptionKey, macKey } = await deriveKeysFromPassword(
+      password,
+      salt,
+      envelope.iterations
+    )
+
+    const expectedMac = computeEnvelopeMac(
+      macKey,
+      envelope.iterations,
+      salt,
+      iv,
+      ciphertext
+    )
+    if (!constantTimeEqual(expectedMac, base64ToBytes(envelope.mac))) {
+      return null
+    }
+
+    return utf8Decode(aes256Ctr(encryptionKey, iv, ciphertext))
+  } catch {
+    return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Key envelopes
+// ---------------------------------------------------------------------------
+
+/** Text encrypted with already-derived keys; each envelope has its own IV */
+export interface KeyEnvelope {
+  /** base64 */
+  iv: string
+  /** base64 ciphertext */
+  data: string
+  /** base64 HMAC-SHA256 over any associated data, iv and ciphertext */
+  mac: string
+}
+
+/**
+ * MAC input for key envelopes. Associated data, such as the path of a synced
+ * file, goes first with its length so the envelope only verifies where it
+ * was written.
+ */
+function keyMacInput(
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  associatedData?: string
+): Uint8Array {
+  if (associatedData === undefined) {
+    return concatBytes(iv, ciphertext)
+  }
+  const data = utf8Encode(associatedData)
+  const length = new Uint8Array(4)
+  new DataView(length.buffer).setUint32(0, data.length)
+  return concatBytes(length, data, iv, ciphertext)
+}
+
+/**
+ * Encrypt text with derived keys (AES-256-CTR, HMAC-SHA256). The MAC also
+ * covers `associatedData` when given; decrypting needs the same value.
+ */
+export function encryptWithKeys(
+  plaintext: string,
+  keys: DerivedKeys,
+  associatedData?: string
+): KeyEnvelope {
+  const iv = randomBytes(IV_BYTES)
+  const ciphertext = aes256Ctr(keys.encryptionKey, iv, utf8Encode(plaintext))
+
+  return {
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(ciphertext),
+    mac: bytesToBase64(
+      hmacSha256(keys.macKey, keyMacInput(iv, ciphertext, associatedData))
+    ),
+  }
+}
+
+/**
+ * Decrypt a key envelope. Returns null when the keys are wrong or the data
+ * has been tampered with.
+ */
+export function decryptWithKeys(
+  envelope: KeyEnvelope,
+  keys: DerivedKeys,
+  associatedData?: string
+): string | null {
+  try {
+    const iv = base64ToBytes(envelope.iv)
+    const ciphertext = base64ToBytes(envelope.data)
+
+    const expectedMac = hmacSha256(
+      keys.macKey,
+      keyMacInput(iv, ciphertext, associatedData)
+    )
+    if (!constantTimeEqual(expectedMac, base64ToBytes(envelope.mac))) {
+      return null
+    }
+
+    return utf8Decode(aes256Ctr(keys.encryptionKey, iv, ciphertext))
+  } catch {
+    return null
+  }
+}
+
+const MAC_BYTES = 32
+
+/**
+ * Encrypt bytes with derived keys, for binary files. The result is the IV,
+ * the ciphertext and the MAC, one after the other. `associatedData` works as
+ * in encryptWithKeys.
+ */
+export function encryptBytesWithKeys(
+  plaintext: Uint8Array,
+  keys: DerivedKeys,
+  associatedData?: string
+): Uint8Array {
+  const iv = randomBytes(IV_BYTES)
+  const ciphertext = aes256Ctr(keys.encryptionKey, iv, plaintext)
+  const mac = hmacSha256(keys.macKey, keyMacInput(iv, ciphertext, associatedData))
+  return concatBytes(iv, ciphertext, mac)
+}
+
+/**
+ * Decrypt the output of encryptBytesWithKeys. Returns null when the keys are
+ * wrong or the data has been tampered with.
+ */
+export function decryptBytesWithKeys(
+  sealed: Uint8Array,
+  keys: DerivedKeys,
+  associatedData?: string
+): Uint8Array | null {
+  if (sealed.length < IV_BYTES + MAC_BYTES) {
+    return null
+  }
+  const iv = sealed.subarray(0, IV_BYTES)
+  const ciphertext = sealed.subarray(IV_BYTES, sealed.length - MAC_BYTES)
+  const mac = sealed.subarray(sealed.length - MAC_BYTES)
+
+  const expectedMac = hmacSha256(keys.macKey, keyMacInput(iv, ciphertext, associatedData))
+  if (!constantTimeEqual(expectedMac, mac)) {
+    return null
+  }
+  return aes256Ctr(keys.encryptionKey, iv, ciphertext)
+}
@@ -123,6 +123,12 @@ export function getCurrencySymbol(currencyCode: string): string {
   }
 }
 
+/**
+ * Currency filter value that reports every currency together, converted into
+ * the default currency with the exchange-rate table
+ */
+export const ALL_CURRENCIES = "__all__"
+
 /**
  * Computes the effective currency based on user selection and available data.
  * Priority order:
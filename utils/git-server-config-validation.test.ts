@@ -0,0 +1,41 @@
+/**
+ * Unit tests for Gitea/Forgejo and GitLab Configuration Validation
+ */
+
+import { validateGitServerConfig } from "./git-server-config-validation"
+
+describe("Git Server Config Validation", () => {
+  const valid = {
+    url: "https://git.example.com",
+    token: "0123456789abcdef",
+    repo: "finance/expenses",
+    branch: "main",
+  }
+
+  it("accepts owner/repo and nested GitLab groups", () => {
+    expect(validateGitServerConfig(valid).success).toBe(true)
+    expect(
+      validateGitServerConfig({ ...valid, repo: "team/finance/expenses" }).success
+    ).toBe(true)
+  })
+
+  it("rejects a missing server URL or a repository without an owner", () => {
+    const result = validateGitServerConfig({ ...valid, url: "", repo: "expenses" })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.errors.url).toBe("Server URL is required")
+      expect(result.errors.repo).toBe("Repository must be in format: owner/repo")
+    }
+  })
+
+  it("requires a token and a valid branch", () => {
+    const result = validateGitServerConfig({ ...valid, token: "", branch: "bad branch" })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.errors.token).toBe("Access token is required")
+      expect(result.errors.branch).toBe("Invalid branch name")
+    }
+  })
+})
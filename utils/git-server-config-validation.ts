@@ -0,0 +1,80 @@
+import { z } from "zod"
+import { TFunction } from "i18next"
+
+/**
+ * Creates a Zod schema for Gitea/Forgejo and GitLab configuration
+ * validation. Messages are localized when a translation function is given.
+ *
+ * Unlike GitHub, tokens have no fixed prefix, and GitLab repositories may
+ * sit in nested groups ("group/subgroup/project").
+ *
+ * @param t - Optional translation function from i18next
+ * @returns Zod schema for git server config validation
+ */
+export function getGitServerConfigSchema(t?: TFunction) {
+  const message = (key: string, fallback: string) => (t ? t(key) : fallback)
+
+  return z.object({
+    url: z
+      .string()
+      .min(1, message("validation.gitServer.urlRequired", "Server URL is required"))
+      .regex(/^https?:\/\/[^\s/]+/i, {
+        message: message(
+          "validation.gitServer.urlInvalid",
+          "Enter a URL starting with http:// or https://"
+        ),
+      }),
+    token: z
+      .string()
+      .min(1, message("validation.gitServer.tokenRequired", "Access token is required")),
+    repo: z
+      .string()
+      .min(1, message("validation.gitServer.repoRequired", "Repository is required"))
+      .regex(/^[\w.-]+(\/[\w.-]+)+$/, {
+        message: message(
+          "validation.gitServer.repoFormat",
+          "Repository must be in format: owner/repo"
+        ),
+      }),
+    branch: z
+      .string()
+      .min(1, message("validation.github.branchRequired", "Branch is required"))
+      .regex(/^[a-zA-Z0-9_./-]+$/, {
+        message: message("validation.github.branchInvalid", "Invalid branch name"),
+      }),
+  })
+}
+
+export type GitServerConfigFormData = z.infer<ReturnType<typeof getGitServerConfigSchema>>
+
+export type GitServerConfigValidationResult =
+  | { success: true; data: GitServerConfigFormData }
+  | { success: false; errors: Record<string, string> }
+
+/**
+ * Validate Gitea/Forgejo or GitLab configuration with optional localization.
+ * @param data - Form data to validate
+ * @param t - Optional translation function for localized messages
+ * @returns Validation result with success/data or errors
+ */
+export function validateGitServerConfig(
+  data: unknown,
+  t?: TFunction
+): GitServerConfigValidationResult {
+  const result = getGitServerConfigSchema(t).safeParse(data)
+
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+
+  const errors: Record<string, string> = {}
+  for (const issue of result.error.issues) {
+    const path = issue.path.join(".")
+    // Only keep the first error for each field
+    if (!errors[path]) {
+      errors[path] = issue.message
+    }
+  }
+
+  return { success: false, errors }
+}
@@ -12,4 +12,5 @@ export * from "./currency"
 export * from "./date"
 export * from "./expression-parser"
 export * from "./payment-method-display"
+export * from "./transaction-kind"
 export * from "./version-code"
@@ -0,0 +1,45 @@
+import {
+  collectTags,
+  normalizeTag,
+  normalizeTags,
+  parseTagList,
+  suggestTags,
+  toStoredTags,
+} from "./tags"
+
+describe("tags", () => {
+  it("normalizes case, whitespace and a leading hash", () => {
+    expect(normalizeTag("  #Work  Trip ")).toBe("work trip")
+    expect(normalizeTag("   ")).toBe("")
+  })
+
+  it("splits lists and drops blanks and duplicates", () => {
+    expect(normalizeTags(["Work, gift", "work", " "])).toEqual(["work", "gift"])
+    expect(parseTagList("a|b;c,a")).toEqual(["a", "b", "c"])
+    expect(parseTagList(undefined)).toEqual([])
+  })
+
+  it("leaves an empty tag list unset for storage", () => {
+    expect(toStoredTags([])).toBeUndefined()
+    expect(toStoredTags(undefined)).toBeUndefined()
+    expect(toStoredTags(["#Gift"])).toEqual(["gift"])
+  })
+
+  it("collects tags most used first", () => {
+    expect(
+      collectTags([
+        { tags: ["work", "lunch"] },
+        { tags: ["work"] },
+        {},
+        { tags: ["gift"] },
+      ])
+    ).toEqual(["work", "gift", "lunch"])
+  })
+
+  it("suggests prefix matches before inner matches and skips selected tags", () => {
+    const known = ["homework", "work", "workshop", "gift"]
+    expect(suggestTags(known, "wo", [])).toEqual(["work", "workshop", "homework"])
+    expect(suggestTags(known, "wo", ["work"])).toEqual(["workshop", "homework"])
+    expect(suggestTags(known, "", ["gift"], 2)).toEqual(["homework", "work"])
+  })
+})
@@ -0,0 +1,93 @@
+import { Expense } from "../types/expense"
+
+/** Separator used when a tag list is stored in a single CSV cell */
+export const TAG_SEPARATOR = "|"
+
+// Characters that split a typed or imported list into separate tags
+const TAG_SPLIT_PATTERN = /[,;|]/
+
+/**
+ * Normalize a single tag: trimmed, lowercase, without a leading "#" and with
+ * inner whitespace collapsed. Returns "" for blank input.
+ */
+export function normalizeTag(raw: string): string {
+  return raw.trim().replace(/^#+/, "").replace(/\s+/g, " ").trim().toLowerCase()
+}
+
+/**
+ * Normalize a list of tags, dropping blanks and duplicates (first one wins)
+ */
+export function normalizeTags(tags: readonly string[]): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const raw of tags) {
+    for (const part of raw.split(TAG_SPLIT_PATTERN)) {
+      const tag = normalizeTag(part)
+      if (tag && !seen.has(tag)) {
+        seen.add(tag)
+        result.push(tag)
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Parse a comma, semicolon or pipe separated list of tags
+ */
+export function parseTagList(text: string | undefined): string[] {
+  return text ? normalizeTags([text]) : []
+}
+
+/**
+ * Tags of an expense (records without tags have none)
+ */
+export function getExpenseTags(expense: Pick<Expense, "tags">): string[] {
+  return expense.tags ?? []
+}
+
+/**
+ * Normalize tags for storage: an empty list is left unset so untagged
+ * records and CSV rows stay unchanged.
+ */
+export function toStoredTags(tags: readonly string[] | undefined): string[] | undefined {
+  const normalized = normalizeTags(tags ?? [])
+  return normalized.length > 0 ? normalized : undefined
+}
+
+/**
+ * Every tag in use, most used first (ties sorted alphabetically)
+ */
+export function collectTags(expenses: Pick<Expense, "tags">[]): string[] {
+  const counts = new Map<string, number>()
+  for (const expense of expenses) {
+    for (const tag of getExpenseTags(expense)) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1)
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag)
+}
+
+/**
+ * Known tags matching what has been typed so far, excluding tags already
+ * picked. Prefix matches come before matches elsewhere in the tag.
+ */
+export function suggestTags(
+  knownTags: readonly string[],
+  query: string,
+  selected: readonly string[],
+  limit = 8
+): string[] {
+  const needle = normalizeTag(query)
+  const exclude = new Set(selected)
+  const candidates = knownTags.filter((tag) => !exclude.has(tag))
+  if (!needle) return candidates.slice(0, limit)
+
+  const prefix = candidates.filter((tag) => tag.startsWith(needle))
+  const inner = candidates.filter(
+    (tag) => !tag.startsWith(needle) && tag.includes(needle)
+  )
+  return [...prefix, ...inner].slice(0, limit)
+}
@@ -0,0 +1,38 @@
+import {
+  getCashFlowAmount,
+  getSpendingAmount,
+  getTransactionKind,
+  isTransactionKind,
+  toStoredTransactionKind,
+} from "./transaction-kind"
+
+describe("transaction-kind", () => {
+  it("treats records without a kind as expenses", () => {
+    expect(getTransactionKind({})).toBe("expense")
+    expect(getTransactionKind({ kind: "income" })).toBe("income")
+  })
+
+  it("recognises only the known kinds", () => {
+    expect(isTransactionKind("refund")).toBe(true)
+    expect(isTransactionKind("Refund")).toBe(false)
+    expect(isTransactionKind(undefined)).toBe(false)
+  })
+
+  it("leaves the default kind unset for storage", () => {
+    expect(toStoredTransactionKind("expense")).toBeUndefined()
+    expect(toStoredTransactionKind(undefined)).toBeUndefined()
+    expect(toStoredTransactionKind("transfer")).toBe("transfer")
+  })
+
+  it("signs spending and cash flow by kind", () => {
+    expect(getSpendingAmount({ amount: 100 })).toBe(100)
+    expect(getSpendingAmount({ amount: 100, kind: "refund" })).toBe(-100)
+    expect(getSpendingAmount({ amount: 100, kind: "income" })).toBe(0)
+    expect(getSpendingAmount({ amount: 100, kind: "transfer" })).toBe(0)
+
+    expect(getCashFlowAmount({ amount: 100 })).toBe(-100)
+    expect(getCashFlowAmount({ amount: 100, kind: "refund" })).toBe(100)
+    expect(getCashFlowAmount({ amount: 100, kind: "income" })).toBe(100)
+    expect(getCashFlowAmount({ amount: 100, kind: "transfer" })).toBe(0)
+  })
+})
@@ -0,0 +1,61 @@
+import { Expense, TransactionKind } from "../types/expense"
+
+export const TRANSACTION_KINDS: TransactionKind[] = [
+  "expense",
+  "income",
+  "refund",
+  "transfer",
+]
+
+export function isTransactionKind(value: unknown): value is TransactionKind {
+  return TRANSACTION_KINDS.includes(value as TransactionKind)
+}
+
+/**
+ * Resolve the kind of a transaction (records without a kind are expenses)
+ */
+export function getTransactionKind(expense: Pick<Expense, "kind">): TransactionKind {
+  return expense.kind ?? "expense"
+}
+
+/**
+ * Normalize a kind for storage: "expense" is the default and is left unset so
+ * existing records and CSV rows stay unchanged.
+ */
+export function toStoredTransactionKind(
+  kind: TransactionKind | undefined
+): TransactionKind | undefined {
+  return kind && kind !== "expense" ? kind : undefined
+}
+
+/**
+ * Contribution of a transaction to spending.
+ * Expenses add to spending, refunds reduce it, income and transfers are ignored.
+ */
+export function getSpendingAmount(expense: Pick<Expense, "amount" | "kind">): number {
+  switch (getTransactionKind(expense)) {
+    case "expense":
+      return Math.abs(expense.amount)
+    case "refund":
+      return -Math.abs(expense.amount)
+    default:
+      return 0
+  }
+}
+
+/**
+ * Contribution of a transaction to net cash flow.
+ * Income and refunds flow in, expenses flow out, transfers move money between
+ * your own accounts and do not count.
+ */
+export function getCashFlowAmount(expense: Pick<Expense, "amount" | "kind">): number {
+  switch (getTransactionKind(expense)) {
+    case "income":
+    case "refund":
+      return Math.abs(expense.amount)
+    case "expense":
+      return -Math.abs(expense.amount)
+    default:
+      return 0
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for WebDAV Configuration Validation
+ */
+
+import { validateWebDAVConfig } from "./webdav-config-validation"
+
+describe("WebDAV Config Validation", () => {
+  const valid = {
+    url: "https://cloud.example.com/remote.php/dav/files/me/expenses",
+    username: "me",
+    password: "app-password",
+  }
+
+  it("accepts an http(s) folder URL with credentials", () => {
+    expect(validateWebDAVConfig(valid).success).toBe(true)
+    expect(
+      validateWebDAVConfig({ ...valid, url: "http://nas.local:5005/expenses" }).success
+    ).toBe(true)
+  })
+
+  it("rejects missing or non-http URLs", () => {
+    const empty = validateWebDAVConfig({ ...valid, url: "" })
+    const ftp = validateWebDAVConfig({ ...valid, url: "ftp://example.com/expenses" })
+
+    expect(empty.success).toBe(false)
+    if (!empty.success) {
+      expect(empty.errors.url).toBe("Folder URL is required")
+    }
+    expect(ftp.success).toBe(false)
+    if (!ftp.success) {
+      expect(ftp.errors.url).toBe("Enter a URL starting with http:// or https://")
+    }
+  })
+
+  it("requires a username and password", () => {
+    const result = validateWebDAVConfig({ ...valid, username: "", password: "" })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.errors.username).toBe("Username is required")
+      expect(result.errors.password).toBe("Password is required")
+    }
+  })
+})
@@ -0,0 +1,65 @@
+import { z } from "zod"
+import { TFunction } from "i18next"
+
+/**
+ * Creates a Zod schema for WebDAV configuration validation. Messages are
+ * localized when a translation function is given.
+ *
+ * @param t - Optional translation function from i18next
+ * @returns Zod schema for WebDAV config validation
+ */
+export function getWebDAVConfigSchema(t?: TFunction) {
+  const message = (key: string, fallback: string) => (t ? t(key) : fallback)
+
+  return z.object({
+    url: z
+      .string()
+      .min(1, message("validation.webdav.urlRequired", "Folder URL is required"))
+      .regex(/^https?:\/\/[^\s/]+/i, {
+        message: message(
+          "validation.webdav.urlInvalid",
+          "Enter a URL starting with http:// or https://"
+        ),
+      }),
+    username: z
+      .string()
+      .min(1, message("validation.webdav.usernameRequired", "Username is required")),
+    password: z
+      .string()
+      .min(1, message("validation.webdav.passwordRequired", "Password is required")),
+  })
+}
+
+export type WebDAVConfigFormData = z.infer<ReturnType<typeof getWebDAVConfigSchema>>
+
+export type WebDAVConfigValidationResult =
+  | { success: true; data: WebDAVConfigFormData }
+  | { success: false; errors: Record<string, string> }
+
+/**
+ * Validate WebDAV configuration with optional localization.
+ * @param data - Form data to validate
+ * @param t - Optional translation function for localized messages
+ * @returns Validation result with success/data or errors
+ */
+export function validateWebDAVConfig(
+  data: unknown,
+  t?: TFunction
+): WebDAVConfigValidationResult {
+  const result = getWebDAVConfigSchema(t).safeParse(data)
+
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+
+  const errors: Record<string, string> = {}
+  for (const issue of result.error.issues) {
+    const path = issue.path.join(".")
+    // Only keep the first error for each field
+    if (!errors[path]) {
+      errors[path] = issue.message
+    }
+  }
+
+  return { success: false, errors }
+}